@@ -0,0 +1,50 @@
+-- Inbound message de-duplication: Meta retries deliver the same wamid more than once.
+-- Clear the external id on any existing duplicates (keep the earliest row) before adding the constraint.
+UPDATE "messages" m
+SET "externalId" = NULL
+WHERE m."externalId" IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM "messages" d
+    WHERE d."tenantId" = m."tenantId"
+      AND d."externalId" = m."externalId"
+      AND (d."createdAt" < m."createdAt" OR (d."createdAt" = m."createdAt" AND d."id" < m."id"))
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "messages_tenantId_externalId_key" ON "messages"("tenantId", "externalId");
+
+-- CreateEnum
+CREATE TYPE "InboundJobStatus" AS ENUM ('PENDING', 'PROCESSING', 'DONE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "inbound_message_jobs" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "status" "InboundJobStatus" NOT NULL DEFAULT 'PENDING',
+    "payloadJson" JSONB NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "availableAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "inbound_message_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbound_message_jobs_messageId_key" ON "inbound_message_jobs"("messageId");
+
+-- CreateIndex
+CREATE INDEX "inbound_message_jobs_status_availableAt_idx" ON "inbound_message_jobs"("status", "availableAt");
+
+-- CreateIndex
+CREATE INDEX "inbound_message_jobs_tenantId_conversationId_idx" ON "inbound_message_jobs"("tenantId", "conversationId");
+
+-- AddForeignKey
+ALTER TABLE "inbound_message_jobs" ADD CONSTRAINT "inbound_message_jobs_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inbound_message_jobs" ADD CONSTRAINT "inbound_message_jobs_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
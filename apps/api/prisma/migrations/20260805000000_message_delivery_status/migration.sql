@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "MessageDeliveryStatus" AS ENUM ('SENT', 'DELIVERED', 'READ', 'FAILED');
+
+-- Outbound delivery receipts on messages
+ALTER TABLE "messages" ADD COLUMN "deliveryStatus" "MessageDeliveryStatus";
+ALTER TABLE "messages" ADD COLUMN "sentAt" TIMESTAMP(3);
+ALTER TABLE "messages" ADD COLUMN "deliveredAt" TIMESTAMP(3);
+ALTER TABLE "messages" ADD COLUMN "readAt" TIMESTAMP(3);
+ALTER TABLE "messages" ADD COLUMN "failedAt" TIMESTAMP(3);
+ALTER TABLE "messages" ADD COLUMN "deliveryErrorCode" TEXT;
+ALTER TABLE "messages" ADD COLUMN "deliveryError" TEXT;
+
+-- Campaign receipts
+ALTER TABLE "campaigns" ADD COLUMN "totalDelivered" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "campaign_send_logs" ADD COLUMN "deliveredAt" TIMESTAMP(3);
+ALTER TABLE "campaign_send_logs" ADD COLUMN "openedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "campaign_send_logs_tenantId_externalMessageId_idx" ON "campaign_send_logs"("tenantId", "externalMessageId");
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "MessageTemplateStatus" AS ENUM ('APPROVED', 'PENDING', 'REJECTED', 'PAUSED', 'DISABLED');
+
+-- CreateEnum
+CREATE TYPE "MessageTemplateCategory" AS ENUM ('UTILITY', 'MARKETING', 'AUTHENTICATION');
+
+-- CreateEnum
+CREATE TYPE "TemplateEvent" AS ENUM ('ORDER_CONFIRMED', 'ORDER_PREPARING', 'ORDER_READY', 'ORDER_DELIVERING', 'ORDER_DELIVERED', 'ORDER_CANCELLED', 'SURVEY_REQUEST', 'CAMPAIGN_SEND');
+
+-- CreateTable
+CREATE TABLE "message_templates" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "externalId" TEXT,
+    "name" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "category" "MessageTemplateCategory" NOT NULL,
+    "status" "MessageTemplateStatus" NOT NULL DEFAULT 'PENDING',
+    "headerText" TEXT,
+    "bodyText" TEXT NOT NULL,
+    "footerText" TEXT,
+    "variableCount" INTEGER NOT NULL DEFAULT 0,
+    "rejectedReason" TEXT,
+    "lastSyncedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "message_template_mappings" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "event" "TemplateEvent" NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "variableMap" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_template_mappings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_templates_tenantId_name_language_key" ON "message_templates"("tenantId", "name", "language");
+
+-- CreateIndex
+CREATE INDEX "message_templates_tenantId_status_idx" ON "message_templates"("tenantId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_template_mappings_tenantId_event_key" ON "message_template_mappings"("tenantId", "event");
+
+-- AddForeignKey
+ALTER TABLE "message_templates" ADD CONSTRAINT "message_templates_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_template_mappings" ADD CONSTRAINT "message_template_mappings_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_template_mappings" ADD CONSTRAINT "message_template_mappings_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "message_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN "language" TEXT NOT NULL DEFAULT 'tr',
+ADD COLUMN "languageLocked" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "menu_items" ADD COLUMN "translations" JSONB;
+
+-- AlterTable
+ALTER TABLE "menu_option_groups" ADD COLUMN "translations" JSONB;
+
+-- AlterTable
+ALTER TABLE "menu_options" ADD COLUMN "translations" JSONB;
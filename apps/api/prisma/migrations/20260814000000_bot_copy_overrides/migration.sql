@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "bot_copy_overrides" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "language" TEXT NOT NULL DEFAULT 'tr',
+    "body" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bot_copy_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bot_copy_overrides_tenantId_key_language_version_key" ON "bot_copy_overrides"("tenantId", "key", "language", "version");
+
+-- CreateIndex
+CREATE INDEX "bot_copy_overrides_tenantId_language_isActive_idx" ON "bot_copy_overrides"("tenantId", "language", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "bot_copy_overrides" ADD CONSTRAINT "bot_copy_overrides_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bot_copy_overrides" ADD CONSTRAINT "bot_copy_overrides_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "menu_items" ADD COLUMN "catalogRetailerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "whatsapp_configs" ADD COLUMN "catalogId" TEXT;
@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "PrintJobType" ADD VALUE 'STATION';
+
+-- AlterTable
+ALTER TABLE "menu_items" ADD COLUMN "stationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "print_jobs" ADD COLUMN "stationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "kitchen_stations" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "storeId" TEXT,
+    "name" TEXT NOT NULL,
+    "categories" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "kitchen_stations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "kitchen_stations_tenantId_isActive_idx" ON "kitchen_stations"("tenantId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "print_jobs_tenantId_stationId_idx" ON "print_jobs"("tenantId", "stationId");
+
+-- AddForeignKey
+ALTER TABLE "menu_items" ADD CONSTRAINT "menu_items_stationId_fkey" FOREIGN KEY ("stationId") REFERENCES "kitchen_stations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "print_jobs" ADD CONSTRAINT "print_jobs_stationId_fkey" FOREIGN KEY ("stationId") REFERENCES "kitchen_stations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kitchen_stations" ADD CONSTRAINT "kitchen_stations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kitchen_stations" ADD CONSTRAINT "kitchen_stations_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
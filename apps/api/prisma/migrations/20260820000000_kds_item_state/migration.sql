@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "prepStartedAt" TIMESTAMP(3),
+ADD COLUMN "bumpedAt" TIMESTAMP(3);
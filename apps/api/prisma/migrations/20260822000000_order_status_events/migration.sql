@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "OrderStatusActor" AS ENUM ('USER', 'BOT', 'POS', 'SYSTEM');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "submittedAt" TIMESTAMP(3),
+ADD COLUMN "preparingAt" TIMESTAMP(3),
+ADD COLUMN "readyAt" TIMESTAMP(3),
+ADD COLUMN "deliveredAt" TIMESTAMP(3),
+ADD COLUMN "cancelledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "order_status_events" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "OrderStatus" NOT NULL,
+    "toStatus" "OrderStatus" NOT NULL,
+    "actorType" "OrderStatusActor" NOT NULL,
+    "actorUserId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_status_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_events_orderId_createdAt_idx" ON "order_status_events"("orderId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "order_status_events_tenantId_createdAt_idx" ON "order_status_events"("tenantId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "order_status_events" ADD CONSTRAINT "order_status_events_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_events" ADD CONSTRAINT "order_status_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_status_events" ADD CONSTRAINT "order_status_events_actorUserId_fkey" FOREIGN KEY ("actorUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,75 @@
+-- AlterEnum
+ALTER TYPE "OrderStatusActor" ADD VALUE 'COURIER';
+
+-- CreateEnum
+CREATE TYPE "DeliveryStatus" AS ENUM ('ASSIGNED', 'ACCEPTED', 'PICKED_UP', 'DELIVERED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "couriers" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "phone" TEXT,
+    "accessToken" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "isOnDuty" BOOLEAN NOT NULL DEFAULT false,
+    "lastLat" DOUBLE PRECISION,
+    "lastLng" DOUBLE PRECISION,
+    "lastLocationAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "couriers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "deliveries" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "courierId" TEXT NOT NULL,
+    "status" "DeliveryStatus" NOT NULL DEFAULT 'ASSIGNED',
+    "trackingToken" TEXT NOT NULL,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acceptedAt" TIMESTAMP(3),
+    "pickedUpAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "couriers_accessToken_key" ON "couriers"("accessToken");
+
+-- CreateIndex
+CREATE INDEX "couriers_tenantId_storeId_idx" ON "couriers"("tenantId", "storeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deliveries_orderId_key" ON "deliveries"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deliveries_trackingToken_key" ON "deliveries"("trackingToken");
+
+-- CreateIndex
+CREATE INDEX "deliveries_courierId_status_idx" ON "deliveries"("courierId", "status");
+
+-- CreateIndex
+CREATE INDEX "deliveries_tenantId_status_idx" ON "deliveries"("tenantId", "status");
+
+-- AddForeignKey
+ALTER TABLE "couriers" ADD CONSTRAINT "couriers_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "couriers" ADD CONSTRAINT "couriers_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deliveries" ADD CONSTRAINT "deliveries_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deliveries" ADD CONSTRAINT "deliveries_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deliveries" ADD CONSTRAINT "deliveries_courierId_fkey" FOREIGN KEY ("courierId") REFERENCES "couriers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
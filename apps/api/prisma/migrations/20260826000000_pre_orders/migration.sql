@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "preOrderEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "preOrderSlotMinutes" INTEGER NOT NULL DEFAULT 15,
+ADD COLUMN     "preOrderSlotCapacity" INTEGER,
+ADD COLUMN     "preOrderLeadMinutes" INTEGER NOT NULL DEFAULT 30,
+ADD COLUMN     "preOrderMaxDays" INTEGER NOT NULL DEFAULT 2;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "scheduledFor" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "print_jobs" ADD COLUMN     "holdUntil" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "orders_tenantId_scheduledFor_idx" ON "orders"("tenantId", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "print_jobs_status_holdUntil_idx" ON "print_jobs"("status", "holdUntil");
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'Europe/Istanbul',
+ADD COLUMN     "weeklySchedule" JSONB,
+ADD COLUMN     "openOverrideUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "store_schedule_exceptions" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "storeId" TEXT,
+    "date" TEXT NOT NULL,
+    "name" TEXT,
+    "intervals" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "store_schedule_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "store_schedule_exceptions_tenantId_date_idx" ON "store_schedule_exceptions"("tenantId", "date");
+
+-- AddForeignKey
+ALTER TABLE "store_schedule_exceptions" ADD CONSTRAINT "store_schedule_exceptions_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "store_schedule_exceptions" ADD CONSTRAINT "store_schedule_exceptions_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN     "maxItemsPer15Min" INTEGER,
+ADD COLUMN     "maxPreparingOrders" INTEGER,
+ADD COLUMN     "pauseWhenFull" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "pausedUntil" TIMESTAMP(3);
@@ -0,0 +1,22 @@
+-- AlterEnum
+ALTER TYPE "OrderPaymentStatus" ADD VALUE 'AUTHORIZED';
+
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "paymentGateway" TEXT NOT NULL DEFAULT 'iyzico',
+ADD COLUMN     "paytrMerchantId" TEXT,
+ADD COLUMN     "paytrMerchantKey" TEXT,
+ADD COLUMN     "paytrMerchantSalt" TEXT,
+ADD COLUMN     "paytrTestMode" BOOLEAN NOT NULL DEFAULT true;
+
+-- Gateway-neutral order payment columns; existing rows are iyzico payments
+ALTER TABLE "order_payments" RENAME COLUMN "iyzicoToken" TO "gatewayReference";
+ALTER TABLE "order_payments" RENAME COLUMN "iyzicoPaymentId" TO "gatewayPaymentId";
+ALTER TABLE "order_payments" RENAME COLUMN "checkoutFormUrl" TO "checkoutUrl";
+ALTER TABLE "order_payments" DROP COLUMN "iyzicoConversationId";
+ALTER TABLE "order_payments" ADD COLUMN     "gateway" TEXT NOT NULL DEFAULT 'iyzico';
+
+-- DropIndex
+DROP INDEX "order_payments_iyzicoToken_idx";
+
+-- CreateIndex
+CREATE INDEX "order_payments_gateway_gatewayReference_idx" ON "order_payments"("gateway", "gatewayReference");
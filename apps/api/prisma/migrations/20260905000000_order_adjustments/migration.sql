@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "order_payments" ADD COLUMN "refundedAmount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Fully refunded payments so far
+UPDATE "order_payments" SET "refundedAmount" = "amount" WHERE "status" = 'REFUNDED';
+
+-- CreateTable
+CREATE TABLE "order_adjustments" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "actorType" "OrderStatusActor" NOT NULL,
+    "actorUserId" TEXT,
+    "reason" TEXT,
+    "changesJson" JSONB NOT NULL,
+    "previousTotal" DECIMAL(10,2) NOT NULL,
+    "newTotal" DECIMAL(10,2) NOT NULL,
+    "refundAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "refundStatus" "TransactionStatus",
+    "refundError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_adjustments_orderId_createdAt_idx" ON "order_adjustments"("orderId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "order_adjustments_tenantId_createdAt_idx" ON "order_adjustments"("tenantId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "order_adjustments" ADD CONSTRAINT "order_adjustments_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_adjustments" ADD CONSTRAINT "order_adjustments_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_adjustments" ADD CONSTRAINT "order_adjustments_actorUserId_fkey" FOREIGN KEY ("actorUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterEnum
+ALTER TYPE "PrintJobType" ADD VALUE 'Z_REPORT';
+
+-- AlterTable
+ALTER TABLE "print_jobs" ALTER COLUMN "orderId" DROP NOT NULL,
+ADD COLUMN "dayCloseId" TEXT;
+
+-- CreateTable
+CREATE TABLE "day_closes" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "businessDate" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "reportJson" JSONB NOT NULL,
+    "expectedCash" DECIMAL(10,2) NOT NULL,
+    "countedCash" DECIMAL(10,2) NOT NULL,
+    "cashVariance" DECIMAL(10,2) NOT NULL,
+    "note" TEXT,
+    "closedByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "day_closes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "day_closes_storeId_periodStart_key" ON "day_closes"("storeId", "periodStart");
+
+-- CreateIndex
+CREATE INDEX "day_closes_tenantId_storeId_periodEnd_idx" ON "day_closes"("tenantId", "storeId", "periodEnd");
+
+-- AddForeignKey
+ALTER TABLE "day_closes" ADD CONSTRAINT "day_closes_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "day_closes" ADD CONSTRAINT "day_closes_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "day_closes" ADD CONSTRAINT "day_closes_closedByUserId_fkey" FOREIGN KEY ("closedByUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "print_jobs" ADD CONSTRAINT "print_jobs_dayCloseId_fkey" FOREIGN KEY ("dayCloseId") REFERENCES "day_closes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "CouponType" AS ENUM ('PERCENTAGE', 'FIXED_AMOUNT', 'FREE_ITEM');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "couponId" TEXT,
+ADD COLUMN "couponDiscount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "coupons" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "CouponType" NOT NULL,
+    "value" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "freeItemName" TEXT,
+    "minBasket" DECIMAL(10,2),
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "maxUses" INTEGER,
+    "maxUsesPerCustomer" INTEGER,
+    "storeIds" TEXT[],
+    "segments" TEXT[],
+    "customerPhone" TEXT,
+    "campaignSendLogId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "coupons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupons_campaignSendLogId_key" ON "coupons"("campaignSendLogId");
+
+-- CreateIndex
+CREATE INDEX "coupons_tenantId_isActive_idx" ON "coupons"("tenantId", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "coupons_tenantId_code_key" ON "coupons"("tenantId", "code");
+
+-- CreateIndex
+CREATE INDEX "orders_couponId_status_idx" ON "orders"("couponId", "status");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "coupons"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupons" ADD CONSTRAINT "coupons_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupons" ADD CONSTRAINT "coupons_campaignSendLogId_fkey" FOREIGN KEY ("campaignSendLogId") REFERENCES "campaign_send_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "LoyaltyProgramType" AS ENUM ('POINTS', 'STAMPS');
+
+-- CreateEnum
+CREATE TYPE "LoyaltyTransactionType" AS ENUM ('EARN', 'REDEEM', 'ADJUST');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "loyaltyPointsUsed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "loyaltyStampsUsed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "loyaltyDiscount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "customer_profiles" ADD COLUMN "loyaltyPoints" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "loyaltyStamps" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "loyalty_settings" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "type" "LoyaltyProgramType" NOT NULL DEFAULT 'POINTS',
+    "pointsPerTl" DECIMAL(10,2) NOT NULL DEFAULT 1,
+    "pointValue" DECIMAL(10,2) NOT NULL DEFAULT 0.1,
+    "minRedeemPoints" INTEGER NOT NULL DEFAULT 100,
+    "stampItemName" TEXT,
+    "stampsRequired" INTEGER NOT NULL DEFAULT 9,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "loyalty_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "loyalty_transactions" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "customerPhone" TEXT NOT NULL,
+    "orderId" TEXT,
+    "type" "LoyaltyTransactionType" NOT NULL,
+    "points" INTEGER NOT NULL DEFAULT 0,
+    "stamps" INTEGER NOT NULL DEFAULT 0,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "loyalty_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "loyalty_settings_tenantId_key" ON "loyalty_settings"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "loyalty_transactions_orderId_type_key" ON "loyalty_transactions"("orderId", "type");
+
+-- CreateIndex
+CREATE INDEX "loyalty_transactions_tenantId_customerPhone_createdAt_idx" ON "loyalty_transactions"("tenantId", "customerPhone", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "loyalty_transactions_tenantId_createdAt_idx" ON "loyalty_transactions"("tenantId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "loyalty_settings" ADD CONSTRAINT "loyalty_settings_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "loyalty_transactions" ADD CONSTRAINT "loyalty_transactions_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "loyalty_transactions" ADD CONSTRAINT "loyalty_transactions_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
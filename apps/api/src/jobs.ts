@@ -0,0 +1,13 @@
+/**
+ * Services the worker process drives on its own timers. The worker imports
+ * the API only through this file.
+ */
+
+export { default as prisma } from './db/prisma';
+export { billingService } from './services/billing.service';
+export { broadcastService } from './services/broadcast.service';
+export { inactivityTimeoutService } from './services/inactivity-timeout.service';
+export { inboundQueueService } from './services/inbound-queue.service';
+export { printJobService } from './services/print-job.service';
+export { realtimeService } from './services/realtime.service';
+export { storeScheduleService } from './services/store-schedule.service';
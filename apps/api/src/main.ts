@@ -14,24 +14,46 @@ import { nluRouter } from './routes/nlu.routes';
 import { orderRouter } from './routes/order.routes';
 import { printJobRouter } from './routes/print-job.routes';
 import { storeRouter } from './routes/store.routes';
+import { dayCloseRouter } from './routes/day-close.routes';
+import { kitchenStationRouter } from './routes/kitchen-station.routes';
+import { kdsRouter } from './routes/kds.routes';
+import { eventsRouter } from './routes/events.routes';
+import { courierRouter } from './routes/courier.routes';
+import { courierAppRouter } from './routes/courier-app.routes';
+import { trackingRouter } from './routes/tracking.routes';
 import { chatbotRouter } from './routes/chatbot.routes';
 import billingRouter from './routes/billing.routes';
 import adminRouter from './routes/admin.routes';
 import { paymentRouter } from './routes/payment.routes';
 import { whatsappConfigRouter } from './routes/whatsapp-config.routes';
+import { messageTemplateRouter } from './routes/message-template.routes';
+import { botCopyRouter } from './routes/bot-copy.routes';
 import { surveyRouter } from './routes/survey.routes';
 import { broadcastRouter } from './routes/broadcast.routes';
+import { couponRouter } from './routes/coupon.routes';
+import { loyaltyRouter } from './routes/loyalty.routes';
 import { menuMediaRouter } from './routes/menu-media.routes';
 import { webhookRouter } from './routes/webhook.routes';
 import { integrationRouter } from './routes/integration.routes';
 import { dashboardRouter } from './routes/dashboard.routes';
 import { requireActiveSubscription } from './middleware/subscription-gate.middleware';
+import { apiRateLimiter } from './middleware/rate-limit.middleware';
+import { conversationFlowService } from './services/conversation-flow.service';
+import { inboundQueueService } from './services/inbound-queue.service';
+import { realtimeService } from './services/realtime.service';
 import prisma from './db/prisma';
 import redis from './db/redis';
 
 const config = getConfig();
 const logger = createLogger();
 
+// Refuse to start with a broken conversation flow table
+const flowProblems = conversationFlowService.validateFlowTable();
+if (flowProblems.length > 0) {
+  logger.fatal({ problems: flowProblems }, 'Conversation flow transition table is invalid');
+  process.exit(1);
+}
+
 const app = express();
 
 // Trust proxy (required for rate limiting behind reverse proxy)
@@ -93,13 +115,24 @@ app.use(`${config.server.apiPrefix}/nlu`, requireActiveSubscription, nluRouter);
 app.use(`${config.server.apiPrefix}/orders`, requireActiveSubscription, orderRouter);
 app.use(`${config.server.apiPrefix}/print-jobs`, requireActiveSubscription, printJobRouter);
 app.use(`${config.server.apiPrefix}/stores`, requireActiveSubscription, storeRouter);
+app.use(`${config.server.apiPrefix}/day-closes`, requireActiveSubscription, dayCloseRouter);
+app.use(`${config.server.apiPrefix}/kitchen-stations`, requireActiveSubscription, kitchenStationRouter);
+app.use(`${config.server.apiPrefix}/kds`, requireActiveSubscription, kdsRouter);
+app.use(`${config.server.apiPrefix}/events`, requireActiveSubscription, eventsRouter);
+app.use(`${config.server.apiPrefix}/couriers`, requireActiveSubscription, courierRouter);
 app.use(`${config.server.apiPrefix}/chatbot`, requireActiveSubscription, chatbotRouter);
 app.use(`${config.server.apiPrefix}/payments`, requireActiveSubscription, paymentRouter);
 app.use(`${config.server.apiPrefix}/whatsapp-config`, requireActiveSubscription, whatsappConfigRouter);
+app.use(`${config.server.apiPrefix}/message-templates`, requireActiveSubscription, messageTemplateRouter);
+app.use(`${config.server.apiPrefix}/bot-copy`, requireActiveSubscription, botCopyRouter);
 app.use(`${config.server.apiPrefix}/surveys`, requireActiveSubscription, surveyRouter);
 app.use(`${config.server.apiPrefix}/broadcast`, requireActiveSubscription, broadcastRouter);
+app.use(`${config.server.apiPrefix}/coupons`, requireActiveSubscription, couponRouter);
+app.use(`${config.server.apiPrefix}/loyalty`, requireActiveSubscription, loyaltyRouter);
 app.use(`${config.server.apiPrefix}/menu-media`, requireActiveSubscription, menuMediaRouter);
 app.use(`${config.server.apiPrefix}/webhooks`, webhookRouter);
+app.use(`${config.server.apiPrefix}/courier-app`, apiRateLimiter, courierAppRouter);
+app.use(`${config.server.apiPrefix}/track`, apiRateLimiter, trackingRouter);
 app.use(`${config.server.apiPrefix}/integrations`, requireActiveSubscription, integrationRouter);
 app.use(`${config.server.apiPrefix}/dashboard`, requireActiveSubscription, dashboardRouter);
 
@@ -145,10 +178,16 @@ const server = app.listen(config.server.port, async () => {
     await redis.connect();
     await redis.ping();
     logger.info('📦 Redis connected');
+
+    // Fan realtime events out across API instances
+    await realtimeService.start();
   } catch (error) {
     logger.warn({ error }, '⚠️ Redis connection failed - caching disabled');
   }
 
+  // Resume inbound messages queued before a restart
+  inboundQueueService.kick();
+
   logger.info(
     {
       port: config.server.port,
@@ -162,6 +201,7 @@ const server = app.listen(config.server.port, async () => {
 // Graceful shutdown
 const shutdown = async () => {
   logger.info('Shutting down server...');
+  await realtimeService.stop();
   await prisma.$disconnect();
   await redis.quit();
   server.close(() => {
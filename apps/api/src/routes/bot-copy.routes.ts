@@ -0,0 +1,158 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import {
+  ApiResponse,
+  BotCopyEntryDto,
+  BotCopyOverrideDto,
+  BotCopyPreviewDto,
+  SUPPORTED_LANGUAGES,
+  SupportedLanguage,
+} from '@whatres/shared';
+import { botCopyService } from '../services/bot-copy.service';
+import { requireAuth, requireRole } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error-handler';
+
+const router = Router();
+
+// All routes require OWNER or ADMIN
+router.use(requireAuth);
+router.use(requireRole(['OWNER', 'ADMIN']));
+
+const languageSchema = z.enum(SUPPORTED_LANGUAGES).default('tr');
+
+const bodySchema = z.object({
+  language: languageSchema,
+  body: z.string().min(1, 'Message text is required').max(4096),
+});
+
+const previewSchema = bodySchema.extend({
+  key: z.string().min(1),
+});
+
+const rollbackSchema = z.object({
+  language: languageSchema,
+  version: z.number().int().positive(),
+});
+
+function parseLanguage(value: unknown): SupportedLanguage {
+  const validation = languageSchema.safeParse(value);
+  if (!validation.success) {
+    throw new AppError(400, 'VALIDATION_ERROR', `Unsupported language: ${value}`);
+  }
+  return validation.data;
+}
+
+function validate<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, body: unknown): T {
+  const validation = schema.safeParse(body);
+  if (!validation.success) {
+    throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+      errors: validation.error.flatten().fieldErrors,
+    });
+  }
+  return validation.data;
+}
+
+/** GET /bot-copy?language=tr - All editable messages with defaults and active overrides */
+router.get(
+  '/',
+  async (req: Request, res: Response<ApiResponse<BotCopyEntryDto[]>>, next: NextFunction) => {
+    try {
+      const entries = await botCopyService.listEntries(
+        req.tenantId!,
+        parseLanguage(req.query.language)
+      );
+      res.json({ success: true, data: entries });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/** POST /bot-copy/preview - Render a draft with sample order data */
+router.post(
+  '/preview',
+  async (req: Request, res: Response<ApiResponse<BotCopyPreviewDto>>, next: NextFunction) => {
+    try {
+      const { key, language, body } = validate(previewSchema, req.body);
+      res.json({ success: true, data: botCopyService.preview(key, language, body) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/** PUT /bot-copy/:key - Save a new version of a message */
+router.put(
+  '/:key',
+  async (req: Request, res: Response<ApiResponse<BotCopyOverrideDto>>, next: NextFunction) => {
+    try {
+      const { language, body } = validate(bodySchema, req.body);
+      const override = await botCopyService.saveOverride(
+        req.tenantId!,
+        req.user?.sub ?? null,
+        req.params.key,
+        language,
+        body
+      );
+      res.json({ success: true, data: override });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/** DELETE /bot-copy/:key?language=tr - Revert to the built-in text */
+router.delete(
+  '/:key',
+  async (req: Request, res: Response<ApiResponse<null>>, next: NextFunction) => {
+    try {
+      await botCopyService.resetOverride(
+        req.tenantId!,
+        req.params.key,
+        parseLanguage(req.query.language)
+      );
+      res.json({ success: true, data: null });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/** GET /bot-copy/:key/history?language=tr - Saved versions, newest first */
+router.get(
+  '/:key/history',
+  async (req: Request, res: Response<ApiResponse<BotCopyOverrideDto[]>>, next: NextFunction) => {
+    try {
+      const history = await botCopyService.getHistory(
+        req.tenantId!,
+        req.params.key,
+        parseLanguage(req.query.language)
+      );
+      res.json({ success: true, data: history });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/** POST /bot-copy/:key/rollback - Restore an earlier version */
+router.post(
+  '/:key/rollback',
+  async (req: Request, res: Response<ApiResponse<BotCopyOverrideDto>>, next: NextFunction) => {
+    try {
+      const { language, version } = validate(rollbackSchema, req.body);
+      const override = await botCopyService.rollback(
+        req.tenantId!,
+        req.user?.sub ?? null,
+        req.params.key,
+        language,
+        version
+      );
+      res.json({ success: true, data: override });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const botCopyRouter = router;
@@ -4,6 +4,7 @@ import { ApiResponse } from '@whatres/shared';
 import { requireAuth } from '../middleware/auth.middleware';
 import { validate } from '../middleware/validation.middleware';
 import { chatbotService } from '../services/chatbot.service';
+import { conversationFlowService } from '../services/conversation-flow.service';
 
 const router = Router();
 
@@ -84,6 +85,21 @@ router.post(
   }
 );
 
+/**
+ * GET /api/chatbot/flow-diagram
+ * Conversation flow transition table and its Mermaid state diagram
+ */
+router.get(
+  '/flow-diagram',
+  async (_req: Request, res: Response<ApiResponse<ReturnType<typeof conversationFlowService.getFlowDiagram>>>, next: NextFunction) => {
+    try {
+      res.json({ success: true, data: conversationFlowService.getFlowDiagram() });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * GET /api/chatbot/history
  * Get chat history for current user
@@ -0,0 +1,130 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ApiResponse, CouponDto } from '@whatres/shared';
+import { couponService } from '../services/coupon.service';
+import { requireAuth, requireRole } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error-handler';
+
+const router = Router();
+
+router.use(requireAuth);
+router.use(requireRole(['OWNER', 'ADMIN']));
+
+// Validation schemas
+const couponSchema = z.object({
+  code: z.string().trim().min(3).max(32),
+  description: z.string().max(200).nullable().optional(),
+  type: z.enum(['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_ITEM']),
+  value: z.number().min(0).max(100_000).optional(),
+  freeItemName: z.string().max(200).nullable().optional(),
+  minBasket: z.number().min(0).max(100_000).nullable().optional(),
+  startsAt: z.string().datetime().nullable().optional(),
+  endsAt: z.string().datetime().nullable().optional(),
+  maxUses: z.number().int().min(1).nullable().optional(),
+  maxUsesPerCustomer: z.number().int().min(1).nullable().optional(),
+  storeIds: z.array(z.string().cuid()).max(100).optional(),
+  segments: z.array(z.enum(['ACTIVE', 'SLEEPING', 'NEW'])).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const updateCouponSchema = couponSchema.partial();
+
+/**
+ * GET /coupons
+ * List coupons with their redemptions (campaign codes are not listed)
+ */
+router.get(
+  '/',
+  async (req: Request, res: Response<ApiResponse<CouponDto[]>>, next: NextFunction) => {
+    try {
+      const coupons = await couponService.getCoupons(req.tenantId!);
+      res.json({ success: true, data: coupons });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /coupons/:id
+ * Get coupon
+ */
+router.get(
+  '/:id',
+  async (req: Request, res: Response<ApiResponse<CouponDto>>, next: NextFunction) => {
+    try {
+      const coupon = await couponService.getCoupon(req.tenantId!, req.params.id);
+      res.json({ success: true, data: coupon });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /coupons
+ * Create coupon
+ */
+router.post(
+  '/',
+  async (req: Request, res: Response<ApiResponse<CouponDto>>, next: NextFunction) => {
+    try {
+      const validation = couponSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const coupon = await couponService.createCoupon(req.tenantId!, validation.data);
+      res.status(201).json({ success: true, data: coupon, message: 'Coupon created' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /coupons/:id
+ * Update coupon
+ */
+router.patch(
+  '/:id',
+  async (req: Request, res: Response<ApiResponse<CouponDto>>, next: NextFunction) => {
+    try {
+      const validation = updateCouponSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const coupon = await couponService.updateCoupon(
+        req.tenantId!,
+        req.params.id,
+        validation.data
+      );
+      res.json({ success: true, data: coupon });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /coupons/:id
+ * Delete a coupon no order has used
+ */
+router.delete(
+  '/:id',
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      await couponService.deleteCoupon(req.tenantId!, req.params.id);
+      res.json({ success: true, message: 'Coupon deleted' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const couponRouter = router;
@@ -0,0 +1,133 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ApiResponse, CourierAppDto } from '@whatres/shared';
+import { courierService } from '../services/courier.service';
+import { AppError } from '../middleware/error-handler';
+
+/**
+ * Courier web app. No panel login: the courier's personal link token in the
+ * path identifies them (see POST /couriers/:id/regenerate-link).
+ */
+const router = Router();
+
+// Validation schemas
+const dutySchema = z.object({
+  isOnDuty: z.boolean(),
+});
+
+const locationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+/**
+ * GET /courier-app/:token
+ * Courier profile and open deliveries
+ */
+router.get(
+  '/:token',
+  async (req: Request, res: Response<ApiResponse<CourierAppDto>>, next: NextFunction) => {
+    try {
+      const app = await courierService.getCourierApp(req.params.token);
+      res.json({ success: true, data: app });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /courier-app/:token/duty
+ * Go on or off duty
+ */
+router.put(
+  '/:token/duty',
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      const validation = dutySchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      await courierService.setOnDuty(req.params.token, validation.data.isOnDuty);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /courier-app/:token/location
+ * Location ping from the courier's phone
+ */
+router.post(
+  '/:token/location',
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      const validation = locationSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      await courierService.updateLocation(req.params.token, validation.data);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /courier-app/:token/deliveries/:id/accept
+ * Accept an assigned delivery
+ */
+router.post(
+  '/:token/deliveries/:id/accept',
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      await courierService.acceptDelivery(req.params.token, req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /courier-app/:token/deliveries/:id/pickup
+ * Picked up at the store; sends the customer the tracking link
+ */
+router.post(
+  '/:token/deliveries/:id/pickup',
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      await courierService.pickUpDelivery(req.params.token, req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /courier-app/:token/deliveries/:id/deliver
+ * Handed over; marks the order DELIVERED
+ */
+router.post(
+  '/:token/deliveries/:id/deliver',
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      await courierService.completeDelivery(req.params.token, req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const courierAppRouter = router;
@@ -0,0 +1,136 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ApiResponse, CourierDto } from '@whatres/shared';
+import { courierService } from '../services/courier.service';
+import { requireAuth, requireRole } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error-handler';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Validation schemas
+const courierQuerySchema = z.object({
+  storeId: z.string().optional(),
+});
+
+const createCourierSchema = z.object({
+  storeId: z.string().cuid(),
+  name: z.string().trim().min(1).max(60),
+  phone: z.string().trim().max(20).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const updateCourierSchema = createCourierSchema.partial();
+
+/**
+ * GET /couriers
+ * List couriers with duty state and open deliveries
+ */
+router.get(
+  '/',
+  requireRole(['OWNER', 'ADMIN', 'AGENT']),
+  async (req: Request, res: Response<ApiResponse<CourierDto[]>>, next: NextFunction) => {
+    try {
+      const validation = courierQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid query', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const couriers = await courierService.getCouriers(req.tenantId!, validation.data.storeId);
+      res.json({ success: true, data: couriers });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /couriers
+ * Create courier (ADMIN only)
+ */
+router.post(
+  '/',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<CourierDto>>, next: NextFunction) => {
+    try {
+      const validation = createCourierSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const courier = await courierService.createCourier(req.tenantId!, validation.data);
+      res.status(201).json({ success: true, data: courier, message: 'Courier created' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /couriers/:id
+ * Update courier (ADMIN only)
+ */
+router.patch(
+  '/:id',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<CourierDto>>, next: NextFunction) => {
+    try {
+      const validation = updateCourierSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const courier = await courierService.updateCourier(
+        req.tenantId!,
+        req.params.id,
+        validation.data
+      );
+      res.json({ success: true, data: courier });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /couriers/:id/regenerate-link
+ * Replace the courier app link (ADMIN only)
+ */
+router.post(
+  '/:id/regenerate-link',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<CourierDto>>, next: NextFunction) => {
+    try {
+      const courier = await courierService.regenerateLink(req.tenantId!, req.params.id);
+      res.json({ success: true, data: courier, message: 'Courier link regenerated' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /couriers/:id
+ * Delete courier (ADMIN only)
+ */
+router.delete(
+  '/:id',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      await courierService.deleteCourier(req.tenantId!, req.params.id);
+      res.json({ success: true, message: 'Courier deleted' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const courierRouter = router;
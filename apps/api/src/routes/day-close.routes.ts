@@ -0,0 +1,118 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ApiResponse, DayCloseDto, ZReportDto } from '@whatres/shared';
+import { dayCloseService } from '../services/day-close.service';
+import { requireAuth, requireRole } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error-handler';
+
+const router = Router();
+
+router.use(requireAuth);
+router.use(requireRole(['OWNER', 'ADMIN']));
+
+// Validation schemas
+const closeDaySchema = z.object({
+  storeId: z.string().cuid(),
+  countedCash: z.number().min(0).max(10_000_000),
+  note: z.string().max(500).optional(),
+  print: z.boolean().optional(),
+});
+
+/**
+ * GET /day-closes
+ * List closed days, newest first (?storeId= to filter)
+ */
+router.get(
+  '/',
+  async (req: Request, res: Response<ApiResponse<DayCloseDto[]>>, next: NextFunction) => {
+    try {
+      const storeId = req.query.storeId as string | undefined;
+      const dayCloses = await dayCloseService.getDayCloses(req.tenantId!, storeId);
+      res.json({ success: true, data: dayCloses });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /day-closes/preview?storeId=
+ * Z-report of the store's open day so far
+ */
+router.get(
+  '/preview',
+  async (req: Request, res: Response<ApiResponse<ZReportDto>>, next: NextFunction) => {
+    try {
+      const storeId = req.query.storeId;
+      if (typeof storeId !== 'string' || !storeId) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'storeId is required');
+      }
+
+      const report = await dayCloseService.getPreview(req.tenantId!, storeId);
+      res.json({ success: true, data: report });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /day-closes/:id
+ * Closed day with the changes made to its orders since
+ */
+router.get(
+  '/:id',
+  async (req: Request, res: Response<ApiResponse<DayCloseDto>>, next: NextFunction) => {
+    try {
+      const dayClose = await dayCloseService.getDayClose(req.tenantId!, req.params.id);
+      res.json({ success: true, data: dayClose });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /day-closes
+ * Close the store's day with the counted cash and print the Z-report
+ */
+router.post(
+  '/',
+  async (req: Request, res: Response<ApiResponse<DayCloseDto>>, next: NextFunction) => {
+    try {
+      const validation = closeDaySchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const dayClose = await dayCloseService.closeDay(
+        req.tenantId!,
+        validation.data,
+        req.user!.sub
+      );
+      res.status(201).json({ success: true, data: dayClose, message: 'Day closed' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /day-closes/:id/print
+ * Print the Z-report again
+ */
+router.post(
+  '/:id/print',
+  async (req: Request, res: Response<ApiResponse<null>>, next: NextFunction) => {
+    try {
+      await dayCloseService.reprint(req.tenantId!, req.params.id);
+      res.json({ success: true, data: null, message: 'Z-report queued for printing' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const dayCloseRouter = router;
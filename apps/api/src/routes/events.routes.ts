@@ -0,0 +1,43 @@
+import { Router, Request, Response } from 'express';
+import { RealtimeEvent } from '@whatres/shared';
+import { realtimeService } from '../services/realtime.service';
+import { requireAuth } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(requireAuth);
+
+/** Keeps proxies from closing idle streams */
+const HEARTBEAT_MS = 25000;
+
+/** Reconnect delay suggested to clients */
+const RETRY_MS = 3000;
+
+/**
+ * GET /events
+ * Server-sent event stream of the tenant's RealtimeEvents. Each event is sent
+ * as `event: <type>` with the JSON event as data.
+ */
+router.get('/', (req: Request, res: Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Disable nginx response buffering
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const send = (event: RealtimeEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  const unsubscribe = realtimeService.subscribe(req.tenantId!, send, () => res.end());
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export const eventsRouter = router;
@@ -10,6 +10,7 @@ import {
   ConversationParticipantDto,
   InternalNoteDto,
   AgentDto,
+  SUPPORTED_LANGUAGES,
 } from '@whatres/shared';
 import { inboxService } from '../services/inbox.service';
 import { assignmentService } from '../services/assignment.service';
@@ -34,12 +35,17 @@ const conversationQuerySchema = z.object({
 const updateConversationSchema = z.object({
   status: z.enum(['OPEN', 'PENDING_AGENT', 'CLOSED']).optional(),
   customerName: z.string().optional(),
+  language: z.enum(SUPPORTED_LANGUAGES).nullable().optional(),
 });
 
 const replySchema = z.object({
   text: z.string().min(1),
 });
 
+const transcriptSchema = z.object({
+  text: z.string().trim().min(1).max(4096),
+});
+
 const assignSchema = z.object({
   userId: z.string().min(1),
 });
@@ -109,7 +115,7 @@ router.get(
 
 /**
  * PATCH /inbox/conversations/:id
- * Update conversation (status, customerName)
+ * Update conversation (status, customerName, reply language)
  */
 router.patch(
   '/conversations/:id',
@@ -158,6 +164,58 @@ router.get(
   }
 );
 
+/**
+ * GET /inbox/conversations/:id/messages/:messageId/media
+ * Stream the audio/image of an inbound message
+ */
+router.get(
+  '/conversations/:id/messages/:messageId/media',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const media = await inboxService.getMessageMedia(
+        req.tenantId!,
+        req.params.id,
+        req.params.messageId
+      );
+      res.setHeader('Content-Type', media.mimeType);
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      res.send(media.data);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /inbox/conversations/:id/messages/:messageId/transcript
+ * Correct a misheard voice transcript
+ */
+router.patch(
+  '/conversations/:id/messages/:messageId/transcript',
+  requireRole(['OWNER', 'ADMIN', 'AGENT']),
+  async (req: Request, res: Response<ApiResponse<MessageDto>>, next: NextFunction) => {
+    try {
+      const validation = transcriptSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const message = await inboxService.correctTranscript(
+        req.tenantId!,
+        req.params.id,
+        req.params.messageId,
+        validation.data.text,
+        req.user!.sub
+      );
+      res.json({ success: true, data: message });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * POST /inbox/conversations/:id/reply
  * Send reply to conversation
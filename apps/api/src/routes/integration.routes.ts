@@ -1,9 +1,17 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { ApiResponse } from '@whatres/shared';
+import { z } from 'zod';
+import {
+  ApiResponse,
+  PaymentGatewayKey,
+  PaymentGatewaySettingsDto,
+  UpdatePaytrSettingsDto,
+} from '@whatres/shared';
 import { requireAuth, requireRole } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/error-handler';
 import { posIntegrationService } from '../services/pos-integration.service';
 import { connectOtorderWithToken } from '../services/otorder-sso.service';
+import { preOrderService } from '../services/pre-order.service';
+import { availablePaymentGateways, isPaymentGatewayKey } from '../services/payments';
 import prisma from '../db/prisma';
 import { createLogger } from '../logger';
 
@@ -431,6 +439,122 @@ router.put(
   },
 );
 
+/**
+ * GET /integrations/payment-gateway
+ * Selected order payment gateway and the PayTR credentials
+ */
+router.get(
+  '/payment-gateway',
+  requireAuth,
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<PaymentGatewaySettingsDto>>, next: NextFunction) => {
+    try {
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: req.tenantId! },
+        select: {
+          paymentGateway: true,
+          paytrMerchantId: true,
+          paytrMerchantKey: true,
+          paytrMerchantSalt: true,
+          paytrTestMode: true,
+        },
+      });
+      res.json({
+        success: true,
+        data: {
+          gateway: (tenant?.paymentGateway || 'iyzico') as PaymentGatewayKey,
+          available: availablePaymentGateways(),
+          paytr: {
+            merchantId: tenant?.paytrMerchantId || '',
+            merchantKey: tenant?.paytrMerchantKey ? '***' + tenant.paytrMerchantKey.slice(-4) : '',
+            merchantSalt: tenant?.paytrMerchantSalt ? '***' + tenant.paytrMerchantSalt.slice(-4) : '',
+            testMode: tenant?.paytrTestMode ?? true,
+            isConfigured: !!(tenant?.paytrMerchantId && tenant?.paytrMerchantKey && tenant?.paytrMerchantSalt),
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * PUT /integrations/payment-gateway
+ * Select the gateway new card payments are created on
+ */
+router.put(
+  '/payment-gateway',
+  requireAuth,
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<any>>, next: NextFunction) => {
+    try {
+      const { gateway } = req.body;
+      if (typeof gateway !== 'string' || !isPaymentGatewayKey(gateway)) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Unknown payment gateway');
+      }
+
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: req.tenantId! },
+        select: {
+          iyzicoApiKey: true,
+          iyzicoSecretKey: true,
+          paytrMerchantId: true,
+          paytrMerchantKey: true,
+          paytrMerchantSalt: true,
+        },
+      });
+      const configured =
+        gateway === 'fake' ||
+        (gateway === 'iyzico' && !!(tenant?.iyzicoApiKey && tenant?.iyzicoSecretKey)) ||
+        (gateway === 'paytr' &&
+          !!(tenant?.paytrMerchantId && tenant?.paytrMerchantKey && tenant?.paytrMerchantSalt));
+      if (!configured) {
+        throw new AppError(400, 'GATEWAY_NOT_CONFIGURED', 'Enter the gateway credentials first');
+      }
+
+      await prisma.tenant.update({
+        where: { id: req.tenantId! },
+        data: { paymentGateway: gateway },
+      });
+
+      logger.info({ tenantId: req.tenantId, gateway }, 'Payment gateway selected');
+      res.json({ success: true, data: { gateway } });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * PUT /integrations/paytr
+ */
+router.put(
+  '/paytr',
+  requireAuth,
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<any>>, next: NextFunction) => {
+    try {
+      const { merchantId, merchantKey, merchantSalt, testMode } = req.body as UpdatePaytrSettingsDto;
+
+      const data: any = {};
+      if (merchantId !== undefined) data.paytrMerchantId = merchantId || null;
+      if (merchantKey && !merchantKey.startsWith('***')) data.paytrMerchantKey = merchantKey;
+      if (merchantSalt && !merchantSalt.startsWith('***')) data.paytrMerchantSalt = merchantSalt;
+      if (testMode !== undefined) data.paytrTestMode = !!testMode;
+
+      await prisma.tenant.update({
+        where: { id: req.tenantId! },
+        data,
+      });
+
+      res.json({ success: true, data: { testMode: testMode ?? true } });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 /**
  * GET /integrations/busy-status
  */
@@ -476,6 +600,55 @@ router.put(
   },
 );
 
+/**
+ * GET /integrations/pre-orders
+ */
+router.get(
+  '/pre-orders',
+  requireAuth,
+  async (req: Request, res: Response<ApiResponse<any>>, next: NextFunction) => {
+    try {
+      const settings = await preOrderService.getSettings(req.tenantId!);
+      res.json({ success: true, data: settings });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+const preOrderSettingsSchema = z.object({
+  enabled: z.boolean(),
+  slotMinutes: z.number().int().min(5).max(120),
+  slotCapacity: z.number().int().min(1).nullable(),
+  leadMinutes: z.number().int().min(0).max(1440),
+  maxDays: z.number().int().min(0).max(14),
+});
+
+/**
+ * PUT /integrations/pre-orders
+ */
+router.put(
+  '/pre-orders',
+  requireAuth,
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<any>>, next: NextFunction) => {
+    try {
+      const validation = preOrderSettingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const settings = await preOrderService.updateSettings(req.tenantId!, validation.data);
+      logger.info({ tenantId: req.tenantId, ...settings }, 'Pre-order settings updated');
+      res.json({ success: true, data: settings });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 // ==================== ONBOARDING ====================
 
 router.get(
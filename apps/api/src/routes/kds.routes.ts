@@ -0,0 +1,136 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ApiResponse, KdsTicketDto } from '@whatres/shared';
+import { kdsService } from '../services/kds.service';
+import { requireAuth } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error-handler';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Validation schemas
+const ticketsQuerySchema = z.object({
+  stationId: z.string().optional(),
+  storeId: z.string().optional(),
+});
+
+const ticketActionSchema = z.object({
+  // null = the ticket of items no station claims
+  stationId: z.string().nullable(),
+});
+
+/**
+ * GET /kds/tickets
+ * Open and recently bumped tickets for the kitchen display
+ */
+router.get(
+  '/tickets',
+  async (req: Request, res: Response<ApiResponse<KdsTicketDto[]>>, next: NextFunction) => {
+    try {
+      const validation = ticketsQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const tickets = await kdsService.getTickets(req.tenantId!, validation.data);
+      res.json({ success: true, data: tickets });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /kds/items/:itemId/start
+ * Start preparing an item
+ */
+router.post(
+  '/items/:itemId/start',
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      await kdsService.startItem(req.tenantId!, req.params.itemId, {
+        type: 'USER',
+        userId: req.user!.sub,
+      });
+      res.json({ success: true, message: 'Item started' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /kds/items/:itemId/bump
+ * Mark an item as done
+ */
+router.post(
+  '/items/:itemId/bump',
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      await kdsService.bumpItem(req.tenantId!, req.params.itemId, {
+        type: 'USER',
+        userId: req.user!.sub,
+      });
+      res.json({ success: true, message: 'Item bumped' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /kds/tickets/:orderId/bump
+ * Mark every item of a station ticket as done
+ */
+router.post(
+  '/tickets/:orderId/bump',
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      const validation = ticketActionSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      await kdsService.bumpTicket(req.tenantId!, req.params.orderId, validation.data.stationId, {
+        type: 'USER',
+        userId: req.user!.sub,
+      });
+      res.json({ success: true, message: 'Ticket bumped' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /kds/tickets/:orderId/recall
+ * Bring a bumped ticket back onto the board
+ */
+router.post(
+  '/tickets/:orderId/recall',
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      const validation = ticketActionSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      await kdsService.recallTicket(req.tenantId!, req.params.orderId, validation.data.stationId, {
+        type: 'USER',
+        userId: req.user!.sub,
+      });
+      res.json({ success: true, message: 'Ticket recalled' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const kdsRouter = router;
@@ -0,0 +1,109 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ApiResponse, KitchenStationDto } from '@whatres/shared';
+import { kitchenStationService } from '../services/kitchen-station.service';
+import { requireAuth, requireRole } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error-handler';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Validation schemas
+const createStationSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  storeId: z.string().cuid().nullable().optional(),
+  categories: z.array(z.string().max(100)).max(100).optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+const updateStationSchema = createStationSchema.partial();
+
+/**
+ * GET /kitchen-stations
+ * List kitchen stations
+ */
+router.get(
+  '/',
+  async (req: Request, res: Response<ApiResponse<KitchenStationDto[]>>, next: NextFunction) => {
+    try {
+      const includeInactive = req.query.includeInactive === 'true';
+      const stations = await kitchenStationService.getStations(req.tenantId!, includeInactive);
+      res.json({ success: true, data: stations });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /kitchen-stations
+ * Create station (ADMIN only)
+ */
+router.post(
+  '/',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<KitchenStationDto>>, next: NextFunction) => {
+    try {
+      const validation = createStationSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const station = await kitchenStationService.createStation(req.tenantId!, validation.data);
+      res.status(201).json({ success: true, data: station, message: 'Station created' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /kitchen-stations/:id
+ * Update station (ADMIN only)
+ */
+router.patch(
+  '/:id',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<KitchenStationDto>>, next: NextFunction) => {
+    try {
+      const validation = updateStationSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const station = await kitchenStationService.updateStation(
+        req.tenantId!,
+        req.params.id,
+        validation.data
+      );
+      res.json({ success: true, data: station });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /kitchen-stations/:id
+ * Delete station (ADMIN only)
+ */
+router.delete(
+  '/:id',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      await kitchenStationService.deleteStation(req.tenantId!, req.params.id);
+      res.json({ success: true, message: 'Station deleted' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const kitchenStationRouter = router;
@@ -0,0 +1,148 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import {
+  ApiResponse,
+  LoyaltyMemberDto,
+  LoyaltyOverviewDto,
+  LoyaltySettingsDto,
+  LoyaltyTransactionDto,
+} from '@whatres/shared';
+import { loyaltyService } from '../services/loyalty.service';
+import { requireAuth, requireRole } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error-handler';
+
+const router = Router();
+
+router.use(requireAuth);
+router.use(requireRole(['OWNER', 'ADMIN']));
+
+// Validation schemas
+const settingsSchema = z.object({
+  isEnabled: z.boolean().optional(),
+  type: z.enum(['POINTS', 'STAMPS']).optional(),
+  pointsPerTl: z.number().min(0).max(1000).optional(),
+  pointValue: z.number().positive().max(1000).optional(),
+  minRedeemPoints: z.number().int().min(1).max(1_000_000).optional(),
+  stampItemName: z.string().max(200).nullable().optional(),
+  stampsRequired: z.number().int().min(1).max(100).optional(),
+});
+
+const transactionsQuerySchema = z.object({
+  customerPhone: z.string().max(32).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+const adjustSchema = z
+  .object({
+    customerPhone: z.string().min(1).max(32),
+    points: z.number().int().min(-1_000_000).max(1_000_000).optional(),
+    stamps: z.number().int().min(-1000).max(1000).optional(),
+    note: z.string().trim().min(1).max(200),
+  })
+  .refine((data) => (data.points ?? 0) !== 0 || (data.stamps ?? 0) !== 0, {
+    message: 'Points or stamps required',
+    path: ['points'],
+  });
+
+/**
+ * GET /loyalty
+ * Program settings and totals
+ */
+router.get(
+  '/',
+  async (req: Request, res: Response<ApiResponse<LoyaltyOverviewDto>>, next: NextFunction) => {
+    try {
+      const overview = await loyaltyService.getOverview(req.tenantId!);
+      res.json({ success: true, data: overview });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /loyalty/settings
+ * Update program settings
+ */
+router.put(
+  '/settings',
+  async (req: Request, res: Response<ApiResponse<LoyaltySettingsDto>>, next: NextFunction) => {
+    try {
+      const validation = settingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const settings = await loyaltyService.updateSettings(req.tenantId!, validation.data);
+      res.json({ success: true, data: settings });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /loyalty/members
+ * Customers holding points or stamps
+ */
+router.get(
+  '/members',
+  async (req: Request, res: Response<ApiResponse<LoyaltyMemberDto[]>>, next: NextFunction) => {
+    try {
+      const members = await loyaltyService.getMembers(req.tenantId!);
+      res.json({ success: true, data: members });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /loyalty/transactions
+ * Ledger, newest first, optionally for one customer
+ */
+router.get(
+  '/transactions',
+  async (req: Request, res: Response<ApiResponse<LoyaltyTransactionDto[]>>, next: NextFunction) => {
+    try {
+      const validation = transactionsQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid query', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const transactions = await loyaltyService.getTransactions(req.tenantId!, validation.data);
+      res.json({ success: true, data: transactions });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /loyalty/adjustments
+ * Correct a customer's balance by hand
+ */
+router.post(
+  '/adjustments',
+  async (req: Request, res: Response<ApiResponse<LoyaltyMemberDto>>, next: NextFunction) => {
+    try {
+      const validation = adjustSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const member = await loyaltyService.adjust(req.tenantId!, validation.data);
+      res.status(201).json({ success: true, data: member, message: 'Balance adjusted' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const loyaltyRouter = router;
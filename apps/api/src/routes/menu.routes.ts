@@ -9,6 +9,7 @@ import {
   MenuSynonymDto,
   CanonicalMenuExport,
   MenuImportResultDto,
+  SUPPORTED_LANGUAGES,
 } from '@whatres/shared';
 import { menuService } from '../services/menu.service';
 import { requireAuth, requireRole } from '../middleware/auth.middleware';
@@ -22,6 +23,15 @@ router.use(requireRole(['OWNER', 'ADMIN']));
 
 // ==================== VALIDATION SCHEMAS ====================
 
+// { en: { name, description }, de: {...} } — only supported languages
+const translationsSchema = z
+  .record(
+    z.enum(SUPPORTED_LANGUAGES),
+    z.object({ name: z.string().optional(), description: z.string().optional() })
+  )
+  .nullable()
+  .optional();
+
 const createItemSchema = z.object({
   name: z.string().min(1),
   description: z.string().optional(),
@@ -30,6 +40,9 @@ const createItemSchema = z.object({
   isActive: z.boolean().optional(),
   sortOrder: z.number().optional(),
   optionGroupIds: z.array(z.string()).optional(),
+  translations: translationsSchema,
+  catalogRetailerId: z.string().trim().max(100).nullable().optional(),
+  stationId: z.string().nullable().optional(),
 });
 
 const updateItemSchema = createItemSchema.partial();
@@ -41,6 +54,7 @@ const createOptionGroupSchema = z.object({
   minSelect: z.number().min(0).optional(),
   maxSelect: z.number().min(1).optional(),
   sortOrder: z.number().optional(),
+  translations: translationsSchema,
 });
 
 const updateOptionGroupSchema = createOptionGroupSchema.partial();
@@ -52,6 +66,7 @@ const createOptionSchema = z.object({
   isDefault: z.boolean().optional(),
   isActive: z.boolean().optional(),
   sortOrder: z.number().optional(),
+  translations: translationsSchema,
 });
 
 const updateOptionSchema = createOptionSchema.omit({ groupId: true }).partial();
@@ -0,0 +1,158 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import {
+  ApiResponse,
+  MessageTemplateDto,
+  MessageTemplateMappingDto,
+  MessageTemplatePreviewDto,
+  MessageTemplateSyncResultDto,
+  TemplateEvent,
+} from '@whatres/shared';
+import {
+  messageTemplateService,
+  TEMPLATE_EVENT_FIELDS,
+} from '../services/message-template.service';
+import { requireAuth, requireRole } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error-handler';
+
+const router = Router();
+
+// All routes require OWNER or ADMIN
+router.use(requireAuth);
+router.use(requireRole(['OWNER', 'ADMIN']));
+
+const previewSchema = z.object({
+  values: z.array(z.string().max(500)).max(20).default([]),
+});
+
+const mappingSchema = z.object({
+  templateId: z.string().min(1, 'Template is required'),
+  variableMap: z.array(z.string()).max(20),
+  isActive: z.boolean().optional(),
+});
+
+function parseEvent(value: string): TemplateEvent {
+  if (!(value in TEMPLATE_EVENT_FIELDS)) {
+    throw new AppError(400, 'VALIDATION_ERROR', `Unknown template event: ${value}`);
+  }
+  return value as TemplateEvent;
+}
+
+/** GET /message-templates - List synced templates */
+router.get(
+  '/',
+  async (req: Request, res: Response<ApiResponse<MessageTemplateDto[]>>, next: NextFunction) => {
+    try {
+      const templates = await messageTemplateService.listTemplates(req.tenantId!);
+      res.json({ success: true, data: templates });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/** POST /message-templates/sync - Pull templates and approval status from the WABA */
+router.post(
+  '/sync',
+  async (
+    req: Request,
+    res: Response<ApiResponse<MessageTemplateSyncResultDto>>,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await messageTemplateService.syncFromWaba(req.tenantId!);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/** POST /message-templates/:id/preview - Render with example values */
+router.post(
+  '/:id/preview',
+  async (
+    req: Request,
+    res: Response<ApiResponse<MessageTemplatePreviewDto>>,
+    next: NextFunction
+  ) => {
+    try {
+      const validation = previewSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const preview = await messageTemplateService.preview(
+        req.tenantId!,
+        req.params.id,
+        validation.data.values
+      );
+      res.json({ success: true, data: preview });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/** GET /message-templates/mappings - Event → template mappings */
+router.get(
+  '/mappings',
+  async (
+    req: Request,
+    res: Response<ApiResponse<MessageTemplateMappingDto[]>>,
+    next: NextFunction
+  ) => {
+    try {
+      const mappings = await messageTemplateService.getMappings(req.tenantId!);
+      res.json({ success: true, data: mappings });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/** PUT /message-templates/mappings/:event - Map an event to a template */
+router.put(
+  '/mappings/:event',
+  async (
+    req: Request,
+    res: Response<ApiResponse<MessageTemplateMappingDto>>,
+    next: NextFunction
+  ) => {
+    try {
+      const event = parseEvent(req.params.event);
+      const validation = mappingSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const mapping = await messageTemplateService.setMapping(
+        req.tenantId!,
+        event,
+        validation.data
+      );
+      res.json({ success: true, data: mapping });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/** DELETE /message-templates/mappings/:event - Remove an event mapping */
+router.delete(
+  '/mappings/:event',
+  async (req: Request, res: Response<ApiResponse<null>>, next: NextFunction) => {
+    try {
+      await messageTemplateService.deleteMapping(req.tenantId!, parseEvent(req.params.event));
+      res.json({ success: true, data: null });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const messageTemplateRouter = router;
@@ -1,7 +1,16 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { ApiResponse, OrderDto, PrintJobDto } from '@whatres/shared';
+import {
+  ApiResponse,
+  OrderAdjustmentDto,
+  OrderDto,
+  OrderDeliveryDto,
+  OrderStatusEventDto,
+  PrintJobDto,
+} from '@whatres/shared';
 import { orderService } from '../services/order.service';
+import { orderStatusService } from '../services/order-status.service';
+import { courierService } from '../services/courier.service';
 import { customerService, CustomerDetailDto } from '../services/customer.service';
 import { printJobService } from '../services/print-job.service';
 import { requireAuth, requireRole } from '../middleware/auth.middleware';
@@ -38,10 +47,11 @@ const updateStatusSchema = z.object({
     'DELIVERED',
     'CANCELLED',
   ]),
+  reason: z.string().max(500).optional(),
 });
 
 const reprintSchema = z.object({
-  type: z.enum(['KITCHEN', 'COURIER']),
+  type: z.enum(['KITCHEN', 'COURIER', 'STATION']),
 });
 
 /**
@@ -113,6 +123,22 @@ router.get(
   }
 );
 
+/**
+ * GET /orders/:id/history
+ * Status change timeline
+ */
+router.get(
+  '/:id/history',
+  async (req: Request, res: Response<ApiResponse<OrderStatusEventDto[]>>, next: NextFunction) => {
+    try {
+      const history = await orderStatusService.getHistory(req.tenantId!, req.params.id);
+      res.json({ success: true, data: history });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * POST /orders/:id/confirm
  * Confirm order and create print jobs
@@ -128,7 +154,10 @@ router.post(
         });
       }
 
-      const order = await orderService.confirmOrder(req.tenantId!, req.params.id, validation.data);
+      const order = await orderService.confirmOrder(req.tenantId!, req.params.id, validation.data, {
+        type: 'USER',
+        userId: req.user!.sub,
+      });
       res.json({ success: true, data: order, message: 'Order confirmed' });
     } catch (error) {
       next(error);
@@ -154,7 +183,9 @@ router.patch(
       const order = await orderService.updateOrderStatus(
         req.tenantId!,
         req.params.id,
-        validation.data.status
+        validation.data.status,
+        { type: 'USER', userId: req.user!.sub },
+        validation.data.reason
       );
       res.json({ success: true, data: order });
     } catch (error) {
@@ -186,6 +217,53 @@ router.post(
   }
 );
 
+/**
+ * POST /orders/:id/courier
+ * Assign a courier; without courierId the nearest available one is picked
+ */
+const assignCourierSchema = z.object({
+  courierId: z.string().optional(),
+});
+
+router.post(
+  '/:id/courier',
+  async (req: Request, res: Response<ApiResponse<OrderDeliveryDto>>, next: NextFunction) => {
+    try {
+      const validation = assignCourierSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const delivery = await courierService.assignCourier(
+        req.tenantId!,
+        req.params.id,
+        validation.data.courierId
+      );
+      res.json({ success: true, data: delivery, message: 'Courier assigned' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /orders/:id/courier
+ * Take the order back from its courier (before pickup)
+ */
+router.delete(
+  '/:id/courier',
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      await courierService.unassignCourier(req.tenantId!, req.params.id);
+      res.json({ success: true, message: 'Courier unassigned' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * POST /orders/:id/reject
  * Reject a pending order with reason
@@ -208,7 +286,8 @@ router.post(
       const order = await orderService.rejectOrder(
         req.tenantId!,
         req.params.id,
-        validation.data.reason
+        validation.data.reason,
+        { type: 'USER', userId: req.user!.sub }
       );
       res.json({ success: true, data: order });
     } catch (error) {
@@ -217,6 +296,74 @@ router.post(
   }
 );
 
+/**
+ * GET /orders/:id/adjustments
+ * Changes made after confirmation, with their refunds
+ */
+router.get(
+  '/:id/adjustments',
+  async (req: Request, res: Response<ApiResponse<OrderAdjustmentDto[]>>, next: NextFunction) => {
+    try {
+      const adjustments = await orderService.getAdjustments(req.tenantId!, req.params.id);
+      res.json({ success: true, data: adjustments });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /orders/:id/adjustments
+ * Remove/replace items, change quantities or give a discount on a confirmed
+ * order; card payments are partially refunded
+ */
+const adjustOrderSchema = z.object({
+  changes: z
+    .array(
+      z.discriminatedUnion('type', [
+        z.object({ type: z.literal('REMOVE_ITEM'), itemId: z.string().min(1) }),
+        z.object({
+          type: z.literal('CHANGE_QTY'),
+          itemId: z.string().min(1),
+          qty: z.number().int().min(1).max(99),
+        }),
+        z.object({
+          type: z.literal('REPLACE_ITEM'),
+          itemId: z.string().min(1),
+          menuItemId: z.string().min(1),
+          qty: z.number().int().min(1).max(99).optional(),
+        }),
+        z.object({ type: z.literal('DISCOUNT'), amount: z.number().positive() }),
+      ])
+    )
+    .min(1)
+    .max(50),
+  reason: z.string().max(500).optional(),
+  notifyCustomer: z.boolean().optional(),
+});
+
+router.post(
+  '/:id/adjustments',
+  async (req: Request, res: Response<ApiResponse<OrderDto>>, next: NextFunction) => {
+    try {
+      const validation = adjustOrderSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const order = await orderService.adjustOrder(req.tenantId!, req.params.id, validation.data, {
+        type: 'USER',
+        userId: req.user!.sub,
+      });
+      res.json({ success: true, data: order, message: 'Order adjusted' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export const orderRouter = router;
 
 
@@ -3,31 +3,55 @@ import { ApiResponse, OrderPaymentDto } from '@whatres/shared';
 import { orderPaymentService } from '../services/order-payment.service';
 import { conversationFlowService } from '../services/conversation-flow.service';
 import { requireAuth } from '../middleware/auth.middleware';
+import { fakeGateway, getPaymentGateway, isPaymentGatewayKey } from '../services/payments';
+import { FakeOutcome } from '../services/payments/fake.gateway';
 import { createLogger } from '../logger';
 
 const router = Router();
 const logger = createLogger();
 
+// Security: Set CSP and X-Content-Type-Options headers for inline HTML
+function setPageHeaders(res: Response, csp = "default-src 'none'; style-src 'unsafe-inline'") {
+  res.setHeader('Content-Security-Policy', csp);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('X-Frame-Options', 'DENY');
+}
+
+function resultPage(success: boolean): string {
+  return success
+    ? `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Odeme Basarili</title></head>
+       <body style="font-family:sans-serif;text-align:center;padding:50px">
+       <h1>✅ Odemeniz Basariyla Alindi!</h1>
+       <p>WhatsApp'a donerek siparisinizi takip edebilirsiniz.</p>
+       </body></html>`
+    : `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Odeme Basarisiz</title></head>
+       <body style="font-family:sans-serif;text-align:center;padding:50px">
+       <h1>❌ Odeme Basarisiz</h1>
+       <p>WhatsApp'tan tekrar deneyebilir veya nakit odeme secebilirsiniz.</p>
+       </body></html>`;
+}
+
 /**
- * POST /payments/callback/iyzico
- * iyzico payment callback - PUBLIC endpoint (no auth)
- * iyzico POSTs here after customer completes payment
+ * POST /payments/callback/:gateway
+ * Payment gateway callback - PUBLIC endpoint (no auth)
+ * iyzico and the fake gateway redirect the customer's browser here; PayTR
+ * notifies server-to-server and expects a plain "OK"
  */
 router.post(
-  '/callback/iyzico',
+  '/callback/:gateway',
   async (req: Request, res: Response, next: NextFunction) => {
+    let gateway;
     try {
-      const { token } = req.body;
-
-      if (!token) {
-        logger.warn('iyzico callback received without token');
-        return res.status(400).send('Missing token');
-      }
+      gateway = getPaymentGateway(req.params.gateway);
+    } catch {
+      return res.status(404).send('Unknown gateway');
+    }
 
-      logger.info({ token: token.substring(0, 20) + '...' }, 'iyzico payment callback received');
+    try {
+      logger.info({ gateway: gateway.key }, 'Payment callback received');
 
       // Process payment result
-      const result = await orderPaymentService.handlePaymentCallback(token);
+      const result = await orderPaymentService.handlePaymentCallback(gateway.key, req.body ?? {});
 
       // Only trigger conversation flow if this is a NEW callback (not a duplicate)
       if (!result.alreadyProcessed) {
@@ -38,33 +62,25 @@ router.post(
           result.success,
         );
       } else {
-        logger.info({ token: token.substring(0, 20) + '...' }, 'Skipping duplicate callback — already processed');
+        logger.info({ gateway: gateway.key, orderId: result.orderId }, 'Skipping duplicate callback — already processed');
       }
 
-      // Return HTML page for customer (iyzico redirects browser here)
-      // Security: Set CSP and X-Content-Type-Options headers for inline HTML
-      res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'");
-      res.setHeader('X-Content-Type-Options', 'nosniff');
-      res.setHeader('X-Frame-Options', 'DENY');
-
-      const html = result.success
-        ? `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Odeme Basarili</title></head>
-           <body style="font-family:sans-serif;text-align:center;padding:50px">
-           <h1>✅ Odemeniz Basariyla Alindi!</h1>
-           <p>WhatsApp'a donerek siparisinizi takip edebilirsiniz.</p>
-           </body></html>`
-        : `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Odeme Basarisiz</title></head>
-           <body style="font-family:sans-serif;text-align:center;padding:50px">
-           <h1>❌ Odeme Basarisiz</h1>
-           <p>WhatsApp'tan tekrar deneyebilir veya nakit odeme secebilirsiniz.</p>
-           </body></html>`;
-
-      res.status(200).send(html);
+      if (gateway.notifiesServerToServer) {
+        return res.status(200).type('text/plain').send('OK');
+      }
+
+      // Return HTML page for customer (gateway redirects browser here)
+      setPageHeaders(res);
+      res.status(200).send(resultPage(result.success));
     } catch (error) {
-      logger.error({ error }, 'iyzico callback processing failed');
-      res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'");
-      res.setHeader('X-Content-Type-Options', 'nosniff');
-      res.setHeader('X-Frame-Options', 'DENY');
+      logger.error({ error, gateway: gateway.key }, 'Payment callback processing failed');
+
+      // A non-OK answer makes the gateway retry the notification
+      if (gateway.notifiesServerToServer) {
+        return res.status(400).type('text/plain').send('ERROR');
+      }
+
+      setPageHeaders(res);
       res.status(200).send(
         `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Hata</title></head>
          <body style="font-family:sans-serif;text-align:center;padding:50px">
@@ -76,6 +92,45 @@ router.post(
   }
 );
 
+/**
+ * GET /payments/return
+ * Where gateways that notify server-to-server send the customer's browser
+ */
+router.get('/return', (req: Request, res: Response) => {
+  setPageHeaders(res);
+  res.status(200).send(resultPage(req.query.status === 'success'));
+});
+
+/**
+ * GET /payments/fake/:reference
+ * Checkout page of the fake gateway (development and tests only)
+ */
+router.get('/fake/:reference', (req: Request, res: Response) => {
+  const session = isPaymentGatewayKey('fake') ? fakeGateway.getSession(req.params.reference) : null;
+  if (!session) {
+    return res.status(404).send('Checkout not found');
+  }
+
+  const reference = req.params.reference.replace(/[^a-zA-Z0-9_-]/g, '');
+  const button = (outcome: FakeOutcome, label: string) =>
+    `<button name="outcome" value="${outcome}" style="margin:6px;padding:10px 18px">${label}</button>`;
+
+  setPageHeaders(res, "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'");
+  res.status(200).send(
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Test Odeme</title></head>
+     <body style="font-family:sans-serif;text-align:center;padding:50px">
+     <h1>Test Odeme</h1>
+     <p>${session.amount.toFixed(2)} ${session.currency}</p>
+     <form method="post" action="../callback/fake">
+       <input type="hidden" name="reference" value="${reference}">
+       ${button('success', 'Ode')}
+       ${button('authorize', 'Provizyon')}
+       ${button('fail', 'Reddet')}
+     </form>
+     </body></html>`
+  );
+});
+
 /**
  * GET /payments/:paymentId/status
  * Get payment status (for admin panel)
@@ -97,4 +152,39 @@ router.get(
   }
 );
 
+/**
+ * POST /payments/:paymentId/refresh
+ * Query the gateway for a pending payment whose callback never arrived
+ */
+router.post(
+  '/:paymentId/refresh',
+  requireAuth,
+  async (req: Request, res: Response<ApiResponse<OrderPaymentDto | null>>, next: NextFunction) => {
+    try {
+      const result = await orderPaymentService.refreshPaymentStatus(
+        req.tenantId!,
+        req.params.paymentId,
+      );
+
+      if (result && !result.alreadyProcessed) {
+        await conversationFlowService.handlePaymentCompleted(
+          result.tenantId,
+          result.conversationId,
+          result.orderId,
+          result.success,
+        );
+      }
+
+      const payment = await orderPaymentService.getPaymentStatus(
+        req.tenantId!,
+        req.params.paymentId,
+      );
+
+      res.json({ success: true, data: payment });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export const paymentRouter = router;
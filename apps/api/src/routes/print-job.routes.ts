@@ -12,6 +12,8 @@ router.use(requireAuth);
 // Validation schemas
 const jobQuerySchema = z.object({
   status: z.enum(['PENDING', 'PROCESSING', 'DONE', 'FAILED']).optional(),
+  type: z.enum(['KITCHEN', 'COURIER', 'STATION', 'Z_REPORT']).optional(),
+  stationId: z.string().optional(),
   orderId: z.string().optional(),
   limit: z.coerce.number().min(1).max(100).optional(),
   offset: z.coerce.number().min(0).optional(),
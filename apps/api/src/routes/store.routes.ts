@@ -4,9 +4,15 @@ import {
   ApiResponse,
   StoreDto,
   DeliveryRuleDto,
+  DeliveryZoneDto,
   GeoCheckResult,
+  ScheduleExceptionDto,
+  StoreLoadDto,
 } from '@whatres/shared';
 import { storeService } from '../services/store.service';
+import { storeScheduleService } from '../services/store-schedule.service';
+import { storeCapacityService } from '../services/store-capacity.service';
+import { isValidTimezone } from '../utils/zoned-time';
 import { geoService } from '../services/geo.service';
 import { requireAuth, requireRole } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/error-handler';
@@ -35,6 +41,45 @@ const updateStoreSchema = z.object({
   isOpen: z.boolean().optional(),
 });
 
+const intervalSchema = z.object({
+  open: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+  close: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+});
+
+const dayIntervalsSchema = z.array(intervalSchema).max(6).optional();
+
+const updateScheduleSchema = z.object({
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone'),
+  weeklySchedule: z
+    .object({
+      mon: dayIntervalsSchema,
+      tue: dayIntervalsSchema,
+      wed: dayIntervalsSchema,
+      thu: dayIntervalsSchema,
+      fri: dayIntervalsSchema,
+      sat: dayIntervalsSchema,
+      sun: dayIntervalsSchema,
+    })
+    .nullable(),
+});
+
+const createExceptionSchema = z.object({
+  storeId: z.string().cuid().nullable().optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  name: z.string().max(100).optional(),
+  intervals: z.array(intervalSchema).max(6).nullable().optional(),
+});
+
+const updateCapacitySchema = z.object({
+  maxPreparingOrders: z.number().int().min(1).max(500).nullable().optional(),
+  maxItemsPer15Min: z.number().int().min(1).max(5000).nullable().optional(),
+  pauseWhenFull: z.boolean().optional(),
+});
+
+const pauseSchema = z.object({
+  minutes: z.number().int().min(1).max(24 * 60).nullable(),
+});
+
 const createDeliveryRuleSchema = z.object({
   storeId: z.string().cuid(),
   radiusKm: z.number().min(0.1).max(100),
@@ -50,6 +95,33 @@ const updateDeliveryRuleSchema = z.object({
   isActive: z.boolean().optional(),
 });
 
+// [lng, lat] rings; the first ring is the outline, further rings are holes
+const polygonSchema = z.object({
+  type: z.literal('Polygon'),
+  coordinates: z
+    .array(
+      z
+        .array(z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]))
+        .min(3)
+        .max(500)
+    )
+    .min(1)
+    .max(20),
+});
+
+const createDeliveryZoneSchema = z.object({
+  storeId: z.string().cuid(),
+  name: z.string().min(1).max(100),
+  polygon: polygonSchema,
+  priority: z.number().int().min(0).max(1000).optional(),
+  minBasket: z.number().min(0),
+  deliveryFee: z.number().min(0),
+  estimatedMinutes: z.number().int().min(1).max(600).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const updateDeliveryZoneSchema = createDeliveryZoneSchema.omit({ storeId: true }).partial();
+
 const geoCheckSchema = z.object({
   lat: z.number().min(-90).max(90),
   lng: z.number().min(-180).max(180),
@@ -179,6 +251,159 @@ router.patch(
   }
 );
 
+// ==================== SCHEDULES ====================
+
+/**
+ * PUT /stores/:id/schedule
+ * Set the weekly opening schedule and timezone; null schedule = manual only (ADMIN only)
+ */
+router.put(
+  '/:id/schedule',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<StoreDto>>, next: NextFunction) => {
+    try {
+      const validation = updateScheduleSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      await storeScheduleService.updateSchedule(req.tenantId!, req.params.id, validation.data);
+      const store = await storeService.getStore(req.tenantId!, req.params.id);
+      res.json({ success: true, data: store });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /stores/schedule-exceptions/list
+ * Upcoming holidays and special hours, optionally for one store
+ */
+router.get(
+  '/schedule-exceptions/list',
+  async (req: Request, res: Response<ApiResponse<ScheduleExceptionDto[]>>, next: NextFunction) => {
+    try {
+      const storeId = req.query.storeId as string | undefined;
+      const exceptions = await storeScheduleService.getExceptions(req.tenantId!, storeId);
+      res.json({ success: true, data: exceptions });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /stores/schedule-exceptions
+ * Add a holiday or special hours for a date (ADMIN only)
+ */
+router.post(
+  '/schedule-exceptions',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<ScheduleExceptionDto>>, next: NextFunction) => {
+    try {
+      const validation = createExceptionSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const exception = await storeScheduleService.createException(req.tenantId!, validation.data);
+      res.status(201).json({ success: true, data: exception, message: 'Schedule exception created' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /stores/schedule-exceptions/:id
+ * Remove a holiday or special hours (ADMIN only)
+ */
+router.delete(
+  '/schedule-exceptions/:id',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      await storeScheduleService.deleteException(req.tenantId!, req.params.id);
+      res.json({ success: true, message: 'Schedule exception deleted' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ==================== CAPACITY ====================
+
+/**
+ * GET /stores/capacity/status
+ * Live kitchen load, busy state and ETA of each active store
+ */
+router.get(
+  '/capacity/status',
+  async (req: Request, res: Response<ApiResponse<StoreLoadDto[]>>, next: NextFunction) => {
+    try {
+      const loads = await storeCapacityService.getLoads(req.tenantId!);
+      res.json({ success: true, data: loads });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /stores/:id/capacity
+ * Set order throttling limits (ADMIN only)
+ */
+router.put(
+  '/:id/capacity',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<StoreDto>>, next: NextFunction) => {
+    try {
+      const validation = updateCapacitySchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      await storeCapacityService.updateCapacity(req.tenantId!, req.params.id, validation.data);
+      const store = await storeService.getStore(req.tenantId!, req.params.id);
+      res.json({ success: true, data: store });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /stores/:id/pause
+ * Stop taking new orders for some minutes; null minutes resumes (ADMIN only)
+ */
+router.put(
+  '/:id/pause',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<StoreDto>>, next: NextFunction) => {
+    try {
+      const validation = pauseSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      await storeCapacityService.pauseStore(req.tenantId!, req.params.id, validation.data.minutes);
+      const store = await storeService.getStore(req.tenantId!, req.params.id);
+      res.json({ success: true, data: store });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // ==================== DELIVERY RULES ====================
 
 /**
@@ -283,6 +508,94 @@ router.delete(
   }
 );
 
+// ==================== DELIVERY ZONES ====================
+
+/**
+ * GET /stores/delivery-zones/list
+ * List polygon delivery zones
+ */
+router.get(
+  '/delivery-zones/list',
+  async (req: Request, res: Response<ApiResponse<DeliveryZoneDto[]>>, next: NextFunction) => {
+    try {
+      const storeId = req.query.storeId as string | undefined;
+      const zones = await storeService.getDeliveryZones(req.tenantId!, storeId);
+      res.json({ success: true, data: zones });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /stores/delivery-zones
+ * Create delivery zone (ADMIN only)
+ */
+router.post(
+  '/delivery-zones',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<DeliveryZoneDto>>, next: NextFunction) => {
+    try {
+      const validation = createDeliveryZoneSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const zone = await storeService.createDeliveryZone(req.tenantId!, validation.data);
+      res.status(201).json({ success: true, data: zone, message: 'Delivery zone created' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PATCH /stores/delivery-zones/:id
+ * Update delivery zone (ADMIN only)
+ */
+router.patch(
+  '/delivery-zones/:id',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<DeliveryZoneDto>>, next: NextFunction) => {
+    try {
+      const validation = updateDeliveryZoneSchema.safeParse(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Invalid request', {
+          errors: validation.error.flatten().fieldErrors,
+        });
+      }
+
+      const zone = await storeService.updateDeliveryZone(
+        req.tenantId!,
+        req.params.id,
+        validation.data
+      );
+      res.json({ success: true, data: zone });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /stores/delivery-zones/:id
+ * Delete delivery zone (ADMIN only)
+ */
+router.delete(
+  '/delivery-zones/:id',
+  requireRole(['OWNER', 'ADMIN']),
+  async (req: Request, res: Response<ApiResponse<void>>, next: NextFunction) => {
+    try {
+      await storeService.deleteDeliveryZone(req.tenantId!, req.params.id);
+      res.json({ success: true, message: 'Delivery zone deleted' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // ==================== GEO CHECK ====================
 
 /**
@@ -0,0 +1,24 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ApiResponse, DeliveryTrackingDto } from '@whatres/shared';
+import { courierService } from '../services/courier.service';
+
+/** Public delivery tracking; the token comes from the link sent to the customer */
+const router = Router();
+
+/**
+ * GET /track/:token
+ * Delivery progress, courier position and ETA
+ */
+router.get(
+  '/:token',
+  async (req: Request, res: Response<ApiResponse<DeliveryTrackingDto>>, next: NextFunction) => {
+    try {
+      const tracking = await courierService.getTracking(req.params.token);
+      res.json({ success: true, data: tracking });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export const trackingRouter = router;
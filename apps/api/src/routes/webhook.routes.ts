@@ -4,6 +4,7 @@ import prisma from '../db/prisma';
 import { posIntegrationService } from '../services/pos-integration.service';
 import { conversationFlowService } from '../services/conversation-flow.service';
 import { createLogger } from '../logger';
+import { TemplateEvent } from '@whatres/shared';
 
 const router = Router();
 const logger = createLogger();
@@ -30,7 +31,28 @@ async function notifyCustomerStatusChange(
     const message = statusMessages[status];
     if (!message) return;
 
-    await conversationFlowService.sendStatusNotification(tenantId, conversationId, message);
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      select: {
+        orderNumber: true,
+        customerName: true,
+        totalPrice: true,
+        store: { select: { name: true } },
+      },
+    });
+
+    await conversationFlowService.sendStatusNotification(
+      tenantId,
+      conversationId,
+      message,
+      `ORDER_${status}` as TemplateEvent,
+      {
+        orderNumber: order?.orderNumber,
+        customerName: order?.customerName,
+        storeName: order?.store?.name,
+        totalPrice: order ? Number(order.totalPrice).toFixed(2) : undefined,
+      },
+    );
   } catch (error) {
     logger.error({ tenantId, conversationId, orderId, status, error }, 'Müşteri bildirim hatası');
   }
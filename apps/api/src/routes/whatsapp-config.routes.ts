@@ -20,6 +20,7 @@ const upsertConfigSchema = z.object({
   wabaId: z.string().min(1, 'WABA ID is required'),
   accessToken: z.string().min(1, 'Access Token is required'),
   appSecret: z.string().min(1, 'App Secret is required'),
+  catalogId: z.string().trim().max(64).nullable().optional(),
 });
 
 /** GET /whatsapp-config - Get tenant WhatsApp config */
@@ -8,7 +8,7 @@ import {
 } from '@whatres/shared';
 import { whatsappService } from '../services/whatsapp.service';
 import { whatsappProviderService } from '../services/whatsapp-provider.service';
-import { conversationFlowService } from '../services/conversation-flow.service';
+import { inboundQueueService } from '../services/inbound-queue.service';
 import { whatsappConfigService } from '../services/whatsapp-config.service';
 import { requireAuth, requireRole } from '../middleware/auth.middleware';
 import { AppError } from '../middleware/error-handler';
@@ -139,6 +139,13 @@ router.post(
       let payload = whatsappProviderService.parseWebhookPayload(req.body);
 
       if (!payload) {
+        const statuses = whatsappProviderService.parseStatusUpdates(req.body);
+        if (statuses.length > 0) {
+          await whatsappService.processStatusUpdates(tenantId, statuses);
+          res.status(200).json({ success: true, data: undefined });
+          return;
+        }
+
         // Fallback to direct payload format
         const validation = webhookPayloadSchema.safeParse(req.body);
         if (!validation.success) {
@@ -153,22 +160,13 @@ router.post(
         payload = validation.data;
       }
 
-      // Process incoming message (stores in DB + geo check side effect)
-      const message = await whatsappService.processIncomingMessage(tenantId, payload);
-
-      // Route through conversation flow state machine (async, don't block webhook)
-      setImmediate(async () => {
-        try {
-          await conversationFlowService.handleIncomingMessage(
-            tenantId,
-            message.conversationId,
-            message,
-            payload!,
-          );
-        } catch (error) {
-          logger.error({ error, tenantId, messageId: message.id }, 'Conversation flow processing failed');
-        }
-      });
+      // Process incoming message (stores in DB + geo check side effect); no-op on redelivery
+      const { message } = await whatsappService.processIncomingMessage(tenantId, payload);
+
+      // Queue for the conversation flow state machine (durable, don't block webhook).
+      // Enqueue is idempotent, so a redelivery also heals a crash between store and enqueue.
+      await inboundQueueService.enqueue(tenantId, message, payload);
+      inboundQueueService.kick();
 
       res.status(200).json({
         success: true,
@@ -270,26 +268,23 @@ router.post(
       let payload = whatsappProviderService.parseWebhookPayload(req.body);
 
       if (!payload) {
-        // Could be a status update - just acknowledge
+        // Status callbacks (sent/delivered/read/failed receipts) carry no message
+        const statuses = whatsappProviderService.parseStatusUpdates(req.body);
+        if (statuses.length > 0) {
+          await whatsappService.processStatusUpdates(tenantId, statuses);
+        }
         return res.status(200).json({ success: true, data: null });
       }
 
-      // Process incoming message
-      const message = await whatsappService.processIncomingMessage(tenantId, payload);
-
-      // Route through conversation flow (async)
-      setImmediate(async () => {
-        try {
-          await conversationFlowService.handleIncomingMessage(
-            tenantId,
-            message.conversationId,
-            message,
-            payload!,
-          );
-        } catch (error) {
-          logger.error({ error, tenantId, messageId: message.id }, 'Conversation flow failed');
-        }
-      });
+      // Process incoming message; Meta retries of the same wamid are de-duplicated
+      const { message, duplicate } = await whatsappService.processIncomingMessage(tenantId, payload);
+      if (duplicate) {
+        logger.info({ tenantId, messageId: message.id }, 'Webhook redelivery acknowledged');
+      }
+
+      // Queue for the conversation flow (durable, processed after the ack)
+      await inboundQueueService.enqueue(tenantId, message, payload);
+      inboundQueueService.kick();
 
       res.status(200).json({ success: true, data: message });
     } catch (error) {
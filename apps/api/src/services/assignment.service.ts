@@ -9,6 +9,7 @@ import {
   AgentDto,
 } from '@whatres/shared';
 import { inboxService } from './inbox.service';
+import { realtimeService } from './realtime.service';
 import { whatsappProviderService } from './whatsapp-provider.service';
 import { whatsappConfigService } from './whatsapp-config.service';
 
@@ -225,6 +226,15 @@ export class AssignmentService {
 
     logger.info({ tenantId, conversationId, userId }, 'Lock acquired');
 
+    if (!existingLock) {
+      realtimeService.publish(tenantId, {
+        type: 'conversation.locked',
+        conversationId,
+        userId,
+        userName: lock.lockedBy.name,
+      });
+    }
+
     return {
       conversationId: lock.conversationId,
       lockedByUserId: lock.lockedByUserId,
@@ -292,6 +302,7 @@ export class AssignmentService {
     });
 
     logger.info({ tenantId, conversationId, userId }, 'Lock released');
+    realtimeService.publish(tenantId, { type: 'conversation.unlocked', conversationId, userId });
   }
 
   async canWrite(
@@ -314,11 +325,33 @@ export class AssignmentService {
   }
 
   private async cleanupExpiredLocks(): Promise<void> {
+    const now = new Date();
+    const expired = await prisma.conversationLock.findMany({
+      where: {
+        expiresAt: { lt: now },
+      },
+      select: {
+        conversationId: true,
+        lockedByUserId: true,
+        conversation: { select: { tenantId: true } },
+      },
+    });
+    if (expired.length === 0) return;
+
     await prisma.conversationLock.deleteMany({
       where: {
-        expiresAt: { lt: new Date() },
+        conversationId: { in: expired.map((lock) => lock.conversationId) },
+        expiresAt: { lt: now },
       },
     });
+
+    for (const lock of expired) {
+      realtimeService.publish(lock.conversation.tenantId, {
+        type: 'conversation.unlocked',
+        conversationId: lock.conversationId,
+        userId: lock.lockedByUserId,
+      });
+    }
   }
 
   // ==================== PARTICIPANTS ====================
@@ -403,9 +436,12 @@ export class AssignmentService {
     });
 
     // Also release any lock held by this user
-    await prisma.conversationLock.deleteMany({
+    const released = await prisma.conversationLock.deleteMany({
       where: { conversationId, lockedByUserId: userId },
     });
+    if (released.count > 0) {
+      realtimeService.publish(tenantId, { type: 'conversation.unlocked', conversationId, userId });
+    }
 
     logger.info({ tenantId, conversationId, userId }, 'User left conversation');
   }
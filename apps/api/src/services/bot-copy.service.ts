@@ -0,0 +1,423 @@
+import prisma from '../db/prisma';
+import redis from '../db/redis';
+import { Prisma } from '@prisma/client';
+import {
+  BotCopyEntryDto,
+  BotCopyOverrideDto,
+  BotCopyPreviewDto,
+  SupportedLanguage,
+} from '@whatres/shared';
+import { AppError } from '../middleware/error-handler';
+import { createLogger } from '../logger';
+import {
+  MessageCatalog,
+  OverridableTemplateKey,
+  FunctionTemplateKey,
+  TEMPLATE_PARAMS,
+} from './message-templates';
+import { DEFAULT_LANGUAGE, getTemplates, normalizeLanguage } from './locales';
+
+const logger = createLogger();
+
+const OVERRIDE_CACHE_TTL = 60 * 60; // 1 hour
+const MAX_BODY_LENGTH = 4096; // WhatsApp text message limit
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+const DEFAULT_PLACEHOLDER = 'default';
+
+/**
+ * Sample arguments by placeholder name, used for the settings page preview.
+ * Function templates name their arguments consistently, so one table covers
+ * every key.
+ */
+const SAMPLE_ARGS: Record<string, unknown> = {
+  total: 410,
+  deliveryFee: 20,
+  orderNotes: 'Zil calismiyor, kapiyi calin',
+  itemName: 'Adana Kebap',
+  qty: 2,
+  orderNumber: 1042,
+  parentOrderNumber: 1042,
+  addedItems: '1x Kunefe',
+  additionTotal: 95,
+  newTotal: 505,
+  paymentUrl: 'https://pay.example.com/p/abc123',
+  url: 'https://pay.example.com/p/abc123',
+  message: 'Adresiniz teslimat bolgemizin disinda.',
+  storeName: 'Kadikoy Subesi',
+  distance: 2.4,
+  minBasket: 150,
+  currentTotal: 120,
+  address: 'Caferaga Mah. Moda Cad. No:12, Kadikoy',
+  nonReadyItemNames: 'Adana Kebap',
+  reason: 'Malzeme kalmadi',
+  name: 'Ev',
+  count: 3,
+  stepNumber: 1,
+  groupName: 'Porsiyon',
+  summary: '2x Adana Kebap',
+  dayName: 'Pazartesi',
+  openTime: '11:00',
+  nextOpening: 'Pazartesi 11:00',
+  hours: 'Pazartesi: 11:00 - 23:00',
+  open: '11:00',
+  close: '23:00',
+  time: '19:30',
+  estimateMinutes: 45,
+  minutes: 40,
+  customMessage: '',
+  category: 'Kebaplar',
+  transcript: 'iki adana bir ayran',
+  changes: '➖ 1x Adana Kebap\n✏️ Ayran: 2 → 1',
+  amount: 205,
+  code: 'YAZ20',
+  discount: 82,
+  points: 240,
+  value: 24,
+  minPoints: 100,
+  stamps: 7,
+  required: 9,
+  earned: 41,
+  percent: 10,
+  discountAmount: 41,
+};
+
+/** Samples for arguments without a placeholder, by key and position */
+const POSITIONAL_SAMPLE_ARGS: Partial<Record<FunctionTemplateKey, Record<number, unknown>>> = {
+  orderSummary: {
+    0: [
+      { name: 'Adana Kebap', qty: 2, price: 180, options: ['Acili'] },
+      { name: 'Ayran', qty: 2, price: 25 },
+    ],
+  },
+  orderReceived: { 1: 'CASH', 2: false },
+};
+
+/** Active override bodies for one tenant: language → key → body */
+export type BotCopyOverrides = Partial<Record<string, Record<string, string>>>;
+
+type OverrideRecord = Prisma.BotCopyOverrideGetPayload<{
+  include: { createdBy: { select: { name: true } } };
+}>;
+
+export class BotCopyService {
+  // ==================== CATALOG ====================
+
+  /**
+   * Every overridable key for a language, with its built-in text rendered
+   * against sample data and the tenant's active override (if any)
+   */
+  async listEntries(tenantId: string, language: SupportedLanguage): Promise<BotCopyEntryDto[]> {
+    const base = getTemplates(language);
+    const active = await prisma.botCopyOverride.findMany({
+      where: { tenantId, language, isActive: true },
+      include: { createdBy: { select: { name: true } } },
+    });
+    const byKey = new Map(active.map((o) => [o.key, o]));
+
+    return this.overridableKeys(base).map((key) => {
+      const override = byKey.get(key);
+      return {
+        key,
+        kind: this.isFunctionKey(key) ? 'FUNCTION' : 'TEXT',
+        placeholders: this.placeholdersFor(key),
+        defaultText: this.renderDefault(base, key),
+        override: override ? this.mapOverrideToDto(override) : null,
+      };
+    });
+  }
+
+  /**
+   * Render a draft body with sample data, validating placeholders first
+   */
+  preview(key: string, language: SupportedLanguage, body: string): BotCopyPreviewDto {
+    const templateKey = this.validate(key, body);
+    const base = getTemplates(language);
+    const args = this.sampleArgs(templateKey);
+    return {
+      text: this.render(body, templateKey, args, () => this.renderDefault(base, templateKey)),
+    };
+  }
+
+  // ==================== OVERRIDES ====================
+
+  /**
+   * Save a new version of a key's wording and make it the active one
+   */
+  async saveOverride(
+    tenantId: string,
+    userId: string | null,
+    key: string,
+    language: SupportedLanguage,
+    body: string
+  ): Promise<BotCopyOverrideDto> {
+    this.validate(key, body);
+
+    const created = await prisma.$transaction(async (tx) => {
+      const latest = await tx.botCopyOverride.findFirst({
+        where: { tenantId, key, language },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+      await tx.botCopyOverride.updateMany({
+        where: { tenantId, key, language, isActive: true },
+        data: { isActive: false },
+      });
+      return tx.botCopyOverride.create({
+        data: {
+          tenantId,
+          key,
+          language,
+          body,
+          version: (latest?.version ?? 0) + 1,
+          createdByUserId: userId,
+        },
+        include: { createdBy: { select: { name: true } } },
+      });
+    });
+
+    await this.invalidate(tenantId);
+    logger.info({ tenantId, key, language, version: created.version }, 'Bot copy override saved');
+    return this.mapOverrideToDto(created);
+  }
+
+  /**
+   * Go back to the built-in text; saved versions stay in history
+   */
+  async resetOverride(tenantId: string, key: string, language: SupportedLanguage): Promise<void> {
+    this.assertOverridable(key);
+    await prisma.botCopyOverride.updateMany({
+      where: { tenantId, key, language, isActive: true },
+      data: { isActive: false },
+    });
+    await this.invalidate(tenantId);
+  }
+
+  async getHistory(
+    tenantId: string,
+    key: string,
+    language: SupportedLanguage
+  ): Promise<BotCopyOverrideDto[]> {
+    this.assertOverridable(key);
+    const versions = await prisma.botCopyOverride.findMany({
+      where: { tenantId, key, language },
+      include: { createdBy: { select: { name: true } } },
+      orderBy: { version: 'desc' },
+    });
+    return versions.map((v) => this.mapOverrideToDto(v));
+  }
+
+  /**
+   * Restore an earlier version by saving its body as a new version, so the
+   * history stays linear
+   */
+  async rollback(
+    tenantId: string,
+    userId: string | null,
+    key: string,
+    language: SupportedLanguage,
+    version: number
+  ): Promise<BotCopyOverrideDto> {
+    this.assertOverridable(key);
+    const target = await prisma.botCopyOverride.findUnique({
+      where: { tenantId_key_language_version: { tenantId, key, language, version } },
+    });
+    if (!target) {
+      throw new AppError(404, 'VERSION_NOT_FOUND', 'Copy version not found');
+    }
+    return this.saveOverride(tenantId, userId, key, language, target.body);
+  }
+
+  // ==================== RUNTIME ====================
+
+  /**
+   * Active override bodies for a tenant, all languages (cached)
+   */
+  async getOverrides(tenantId: string): Promise<BotCopyOverrides> {
+    try {
+      const cached = await redis.get(this.cacheKey(tenantId));
+      if (cached) return JSON.parse(cached);
+    } catch (error) {
+      logger.warn({ tenantId, error }, 'Bot copy cache read failed');
+    }
+
+    const rows = await prisma.botCopyOverride.findMany({
+      where: { tenantId, isActive: true },
+      select: { key: true, language: true, body: true },
+    });
+    const overrides: BotCopyOverrides = {};
+    for (const row of rows) {
+      (overrides[row.language] ??= {})[row.key] = row.body;
+    }
+
+    try {
+      await redis.setex(this.cacheKey(tenantId), OVERRIDE_CACHE_TTL, JSON.stringify(overrides));
+    } catch (error) {
+      logger.warn({ tenantId, error }, 'Bot copy cache write failed');
+    }
+    return overrides;
+  }
+
+  /**
+   * Message catalog for a conversation language with the tenant's wording
+   * applied on top
+   */
+  async getTemplates(
+    tenantId: string,
+    language: string | null | undefined
+  ): Promise<MessageCatalog> {
+    return this.applyOverrides(language, await this.getOverrides(tenantId));
+  }
+
+  /**
+   * Layer pre-loaded overrides onto the catalog for a language. Keys that
+   * are no longer overridable (renamed or removed templates) are ignored.
+   */
+  applyOverrides(language: string | null | undefined, overrides: BotCopyOverrides): MessageCatalog {
+    const lang = normalizeLanguage(language) ?? DEFAULT_LANGUAGE;
+    const base = getTemplates(lang);
+    const bodies = overrides[lang];
+    if (!bodies) return base;
+
+    const catalog: Record<string, unknown> = { ...base };
+    for (const [key, body] of Object.entries(bodies)) {
+      if (!this.isOverridable(base, key)) continue;
+      if (this.isFunctionKey(key)) {
+        const original = base[key] as (...args: unknown[]) => string;
+        catalog[key] = (...args: unknown[]) =>
+          this.render(body, key, args, () => original.apply(base, args));
+      } else {
+        catalog[key] = this.render(
+          body,
+          key as OverridableTemplateKey,
+          [],
+          () => base[key as OverridableTemplateKey] as string
+        );
+      }
+    }
+    return catalog as MessageCatalog;
+  }
+
+  // ==================== HELPERS ====================
+
+  private overridableKeys(base: MessageCatalog): OverridableTemplateKey[] {
+    return (Object.keys(base) as (keyof MessageCatalog)[]).filter(
+      (key): key is OverridableTemplateKey => this.isOverridable(base, key)
+    );
+  }
+
+  private isOverridable(base: MessageCatalog, key: string): key is OverridableTemplateKey {
+    if (!(key in base)) return false;
+    const value = base[key as keyof MessageCatalog];
+    return typeof value === 'string' || this.isFunctionKey(key);
+  }
+
+  private isFunctionKey(key: string): key is FunctionTemplateKey {
+    return Object.prototype.hasOwnProperty.call(TEMPLATE_PARAMS, key);
+  }
+
+  private assertOverridable(key: string): OverridableTemplateKey {
+    if (!this.isOverridable(getTemplates(DEFAULT_LANGUAGE), key)) {
+      throw new AppError(400, 'UNKNOWN_TEMPLATE_KEY', `Unknown message key: ${key}`);
+    }
+    return key;
+  }
+
+  private placeholdersFor(key: OverridableTemplateKey): string[] {
+    const params: readonly (string | null)[] = this.isFunctionKey(key) ? TEMPLATE_PARAMS[key] : [];
+    return params.filter((p): p is string => p !== null);
+  }
+
+  /**
+   * Reject bodies that reference placeholders the template's signature
+   * does not provide
+   */
+  private validate(key: string, body: string): OverridableTemplateKey {
+    const templateKey = this.assertOverridable(key);
+    if (!body.trim()) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Message text cannot be empty');
+    }
+    if (body.length > MAX_BODY_LENGTH) {
+      throw new AppError(
+        400,
+        'VALIDATION_ERROR',
+        `Message text exceeds ${MAX_BODY_LENGTH} characters`
+      );
+    }
+
+    const allowed = new Set([...this.placeholdersFor(templateKey), DEFAULT_PLACEHOLDER]);
+    const unknown = [...body.matchAll(PLACEHOLDER_PATTERN)]
+      .map((m) => m[1])
+      .filter((name) => !allowed.has(name));
+    if (unknown.length > 0) {
+      throw new AppError(400, 'INVALID_PLACEHOLDER', `Unknown placeholder: {${unknown[0]}}`, {
+        unknown: [...new Set(unknown)],
+        allowed: [...allowed],
+      });
+    }
+    return templateKey;
+  }
+
+  private render(
+    body: string,
+    key: OverridableTemplateKey,
+    args: unknown[],
+    renderDefault: () => string
+  ): string {
+    const params: readonly (string | null)[] = this.isFunctionKey(key) ? TEMPLATE_PARAMS[key] : [];
+    return body.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+      if (name === DEFAULT_PLACEHOLDER) return renderDefault();
+      const index = params.indexOf(name);
+      return index === -1 ? match : this.formatValue(args[index]);
+    });
+  }
+
+  private formatValue(value: unknown): string {
+    if (value == null) return '';
+    if (typeof value === 'number') {
+      return Number.isInteger(value) ? String(value) : value.toFixed(2);
+    }
+    return String(value);
+  }
+
+  private sampleArgs(key: OverridableTemplateKey): unknown[] {
+    if (!this.isFunctionKey(key)) return [];
+    const params: readonly (string | null)[] = TEMPLATE_PARAMS[key];
+    return params.map((name, i) =>
+      name === null ? POSITIONAL_SAMPLE_ARGS[key]?.[i] : SAMPLE_ARGS[name]
+    );
+  }
+
+  private renderDefault(base: MessageCatalog, key: OverridableTemplateKey): string {
+    const value = base[key];
+    if (typeof value === 'string') return value;
+    return (value as (...args: unknown[]) => string).apply(base, this.sampleArgs(key));
+  }
+
+  private cacheKey(tenantId: string): string {
+    return `tenant:${tenantId}:bot-copy`;
+  }
+
+  private async invalidate(tenantId: string): Promise<void> {
+    try {
+      await redis.del(this.cacheKey(tenantId));
+    } catch (error) {
+      logger.warn({ tenantId, error }, 'Bot copy cache invalidate failed');
+    }
+  }
+
+  private mapOverrideToDto(record: OverrideRecord): BotCopyOverrideDto {
+    return {
+      id: record.id,
+      key: record.key,
+      language: record.language as SupportedLanguage,
+      body: record.body,
+      version: record.version,
+      isActive: record.isActive,
+      createdByName: record.createdBy?.name ?? null,
+      createdAt: record.createdAt.toISOString(),
+    };
+  }
+}
+
+export const botCopyService = new BotCopyService();
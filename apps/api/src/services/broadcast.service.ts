@@ -1,12 +1,20 @@
 import OpenAI from 'openai';
 import { getConfig } from '@whatres/config';
 import prisma from '../db/prisma';
+import { Prisma } from '@prisma/client';
+import { WhatsAppStatusUpdate } from '@whatres/shared';
 import { createLogger } from '../logger';
 import { whatsappProviderService } from './whatsapp-provider.service';
 import { whatsappConfigService } from './whatsapp-config.service';
+import { inboxService } from './inbox.service';
+import { messageTemplateService } from './message-template.service';
+import { couponService } from './coupon.service';
 
 const logger = createLogger();
 
+/** Conversion window after a send; minted codes stay valid this long */
+const CONVERSION_WINDOW_HOURS = 72;
+
 const CAMPAIGN_SYSTEM_PROMPT = `Sen bir restoran pazarlama asistanisin. Musteriye kisisel kampanya mesaji yazacaksin.
 Kurallar:
 - Samimi, sicak, arkadasca tonda yaz
@@ -356,7 +364,7 @@ export class BroadcastService {
         discountedPrice: Number(item.unitPrice) * (1 - discountPct / 100),
       }));
 
-      await prisma.campaignSendLog.create({
+      const sendLog = await prisma.campaignSendLog.create({
         data: {
           tenantId,
           campaignId,
@@ -368,6 +376,17 @@ export class BroadcastService {
           suggestedItems: suggestedItems.length > 0 ? suggestedItems : undefined,
         },
       });
+
+      // The discount is only honoured through the recipient's own code
+      if (discountPct > 0) {
+        await couponService.mintCampaignCoupon(tenantId, {
+          campaignSendLogId: sendLog.id,
+          customerPhone: profile.customerPhone,
+          discountPct,
+          endsAt: new Date(scheduledSendAt.getTime() + CONVERSION_WINDOW_HOURS * 60 * 60 * 1000),
+          description: campaign.name,
+        });
+      }
     }
 
     // Update campaign
@@ -470,6 +489,7 @@ export class BroadcastService {
       include: {
         customerProfile: true,
         campaign: true,
+        coupon: { select: { code: true } },
       },
       take: 10, // Process 10 at a time (rate limit)
     });
@@ -497,6 +517,9 @@ export class BroadcastService {
             log.discountPct || 0,
             log.customerProfile.segment as 'ACTIVE' | 'SLEEPING' | 'NEW',
           );
+          if (log.coupon) {
+            messageText += `\n\nKupon kodunuz: *${log.coupon.code}* (siparis ozetinde yazmaniz yeterli)`;
+          }
         }
 
         // Send via WhatsApp
@@ -505,11 +528,48 @@ export class BroadcastService {
           throw new Error('WhatsApp config not found');
         }
 
-        const result = await whatsappProviderService.sendTextWithConfig(
-          log.customerPhone,
-          messageText,
-          tenantConfig,
-        );
+        // Outside the 24h session window only an approved template may be sent
+        const conversation = await prisma.conversation.findUnique({
+          where: { tenantId_customerPhone: { tenantId: log.tenantId, customerPhone: log.customerPhone } },
+          select: { id: true },
+        });
+        const windowOpen = conversation
+          ? await inboxService.isSessionWindowOpen(log.tenantId, conversation.id)
+          : false;
+
+        let result: { messageId: string };
+        if (windowOpen) {
+          result = await whatsappProviderService.sendTextWithConfig(
+            log.customerPhone,
+            messageText,
+            tenantConfig,
+          );
+        } else {
+          const template = await messageTemplateService.resolveForEvent(log.tenantId, 'CAMPAIGN_SEND', {
+            customerName: log.customerProfile.customerName,
+            discountPct: log.discountPct ?? undefined,
+            message: messageText,
+            couponCode: log.coupon?.code,
+          });
+          if (!template) {
+            await prisma.campaignSendLog.update({
+              where: { id: log.id },
+              data: { status: 'SKIPPED', messageText, errorMessage: 'Session window closed, no approved template mapped' },
+            });
+            skipped++;
+            continue;
+          }
+          result = await whatsappProviderService.sendTemplateWithConfig(
+            log.customerPhone,
+            template.name,
+            template.language,
+            template.parameters.length > 0
+              ? [{ type: 'body', parameters: template.parameters.map((p) => ({ type: 'text', text: p })) }]
+              : [],
+            tenantConfig,
+          );
+          messageText = template.renderedText;
+        }
 
         await prisma.campaignSendLog.update({
           where: { id: log.id },
@@ -623,18 +683,35 @@ Samimi bir kampanya mesaji yaz.`;
 
   // ==================== CONVERSION TRACKING ====================
 
-  async trackConversion(tenantId: string, customerPhone: string): Promise<void> {
+  /**
+   * Credit a delivered order to the campaign send it came from. An order
+   * carrying a minted campaign code converts exactly that send; sends from
+   * before codes were minted fall back to any send within the window.
+   */
+  async trackConversion(tenantId: string, customerPhone: string, couponId?: string | null): Promise<void> {
     if (!customerPhone) return;
 
-    // Find recent campaign sends (within 72h)
-    const threeDaysAgo = new Date(Date.now() - 72 * 60 * 60 * 1000);
+    const campaignCoupon = couponId
+      ? await prisma.coupon.findFirst({
+          where: { id: couponId, tenantId, campaignSendLogId: { not: null } },
+          select: { campaignSendLogId: true },
+        })
+      : null;
+
+    const windowStart = new Date(Date.now() - CONVERSION_WINDOW_HOURS * 60 * 60 * 1000);
     const logs = await prisma.campaignSendLog.findMany({
-      where: {
-        tenantId,
-        customerPhone,
-        status: { in: ['SENT', 'DELIVERED', 'OPENED'] },
-        sentAt: { gte: threeDaysAgo },
-      },
+      where: campaignCoupon
+        ? {
+            id: campaignCoupon.campaignSendLogId!,
+            status: { in: ['SENT', 'DELIVERED', 'OPENED'] },
+          }
+        : {
+            tenantId,
+            customerPhone,
+            status: { in: ['SENT', 'DELIVERED', 'OPENED'] },
+            sentAt: { gte: windowStart },
+            coupon: null,
+          },
     });
 
     for (const log of logs) {
@@ -649,30 +726,53 @@ Samimi bir kampanya mesaji yaz.`;
     }
   }
 
-  async trackOpened(tenantId: string, customerPhone: string): Promise<void> {
-    if (!customerPhone) return;
-
-    // Find recent campaign sends (within 24h)
-    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    const logs = await prisma.campaignSendLog.findMany({
-      where: {
-        tenantId,
-        customerPhone,
-        status: 'SENT',
-        sentAt: { gte: oneDayAgo },
-      },
+  /**
+   * Apply a WhatsApp delivery receipt to the campaign send it belongs to.
+   * DELIVERED and OPENED come from real receipts; a read implies delivery.
+   * Returns false when the external id is not a campaign message.
+   */
+  async applyDeliveryReceipt(tenantId: string, update: WhatsAppStatusUpdate): Promise<boolean> {
+    const log = await prisma.campaignSendLog.findFirst({
+      where: { tenantId, externalMessageId: update.externalId },
     });
+    if (!log) return false;
 
-    for (const log of logs) {
-      await prisma.campaignSendLog.update({
-        where: { id: log.id },
-        data: { status: 'OPENED' },
-      });
+    const data: Prisma.CampaignSendLogUpdateInput = {};
+    let delivered = false;
+    let opened = false;
+
+    if ((update.status === 'delivered' || update.status === 'read') && !log.deliveredAt) {
+      data.deliveredAt = update.timestamp;
+      delivered = true;
+    }
+    if (update.status === 'read' && !log.openedAt) {
+      data.openedAt = update.timestamp;
+      opened = true;
+    }
+
+    // Status moves forward only; CONVERTED/FAILED/SKIPPED are final
+    if (opened && (log.status === 'SENT' || log.status === 'DELIVERED')) {
+      data.status = 'OPENED';
+    } else if (delivered && log.status === 'SENT') {
+      data.status = 'DELIVERED';
+    } else if (update.status === 'failed' && log.status === 'SENT') {
+      data.status = 'FAILED';
+      data.errorMessage = (update.errorTitle || `WhatsApp error ${update.errorCode ?? ''}`).substring(0, 500);
+    }
+
+    if (Object.keys(data).length === 0) return true;
+
+    await prisma.campaignSendLog.update({ where: { id: log.id }, data });
+    if (delivered || opened) {
       await prisma.campaign.update({
         where: { id: log.campaignId },
-        data: { totalOpened: { increment: 1 } },
+        data: {
+          ...(delivered ? { totalDelivered: { increment: 1 } } : {}),
+          ...(opened ? { totalOpened: { increment: 1 } } : {}),
+        },
       });
     }
+    return true;
   }
 
   // ==================== CAMPAIGN LOGS ====================
@@ -684,6 +784,7 @@ Samimi bir kampanya mesaji yaz.`;
         customerProfile: {
           select: { customerName: true, segment: true },
         },
+        coupon: { select: { code: true } },
       },
       orderBy: { scheduledSendAt: 'asc' },
     });
@@ -840,6 +941,7 @@ Samimi bir kampanya mesaji yaz.`;
         where: { tenantId },
         _sum: {
           totalSent: true,
+          totalDelivered: true,
           totalOpened: true,
           totalConverted: true,
         },
@@ -856,6 +958,7 @@ Samimi bir kampanya mesaji yaz.`;
       optedIn,
       segments: segmentCounts,
       totalSent: campaignStats._sum.totalSent || 0,
+      totalDelivered: campaignStats._sum.totalDelivered || 0,
       totalOpened: campaignStats._sum.totalOpened || 0,
       totalConverted: campaignStats._sum.totalConverted || 0,
     };
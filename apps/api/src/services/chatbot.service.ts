@@ -1,7 +1,9 @@
 import prisma from '../db/prisma';
 import { inboxService } from './inbox.service';
 import { conversationFlowService } from './conversation-flow.service';
+import { conversationMailboxService } from './conversation-mailbox.service';
 import { orderPaymentService } from './order-payment.service';
+import { realtimeService } from './realtime.service';
 import { createLogger } from '../logger';
 import { WhatsAppWebhookPayload } from '@whatres/shared';
 
@@ -58,12 +60,15 @@ export class ChatbotService {
       payload.type = 'interactive';
     }
 
-    // Route through conversation flow state machine (same as WhatsApp)
-    await conversationFlowService.handleIncomingMessage(
-      tenantId,
-      conversation.id,
-      message,
-      payload,
+    // Route through conversation flow state machine (same as WhatsApp),
+    // serialized with any other message for this conversation
+    await conversationMailboxService.runExclusive(conversation.id, () =>
+      conversationFlowService.handleIncomingMessage(
+        tenantId,
+        conversation.id,
+        message,
+        payload,
+      ),
     );
 
     // Collect bot responses that were created after the user's message
@@ -114,11 +119,13 @@ export class ChatbotService {
       location: { latitude, longitude },
     };
 
-    await conversationFlowService.handleIncomingMessage(
-      tenantId,
-      conversation.id,
-      message,
-      payload,
+    await conversationMailboxService.runExclusive(conversation.id, () =>
+      conversationFlowService.handleIncomingMessage(
+        tenantId,
+        conversation.id,
+        message,
+        payload,
+      ),
     );
 
     const botResponses = await this.getRecentBotMessages(tenantId, conversation.id, message.createdAt);
@@ -298,7 +305,7 @@ export class ChatbotService {
 
       const statusMessage = this.getStatusMessage(newStatus, order.orderNumber || undefined);
 
-      await prisma.message.create({
+      const message = await prisma.message.create({
         data: {
           tenantId,
           conversationId: order.conversationId,
@@ -307,6 +314,12 @@ export class ChatbotService {
           text: statusMessage,
         },
       });
+      realtimeService.publish(tenantId, {
+        type: 'message.created',
+        conversationId: order.conversationId,
+        messageId: message.id,
+        direction: 'OUT',
+      });
 
       logger.info({ tenantId, orderId, status: newStatus }, 'Order status notification sent');
     } catch (error) {
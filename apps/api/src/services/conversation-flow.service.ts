@@ -1,25 +1,66 @@
 import prisma from '../db/prisma';
 import { inboxService } from './inbox.service';
 import { whatsappService } from './whatsapp.service';
-import { nluOrchestratorService, OptionSelectionRequest } from './nlu/orchestrator.service';
+import {
+  nluOrchestratorService,
+  DraftItemSelection,
+  OptionSelectionRequest,
+  OrchestrationResult,
+} from './nlu/orchestrator.service';
 import { whisperService } from './nlu/whisper.service';
+import { visionService } from './nlu/vision.service';
 import { geoService } from './geo.service';
 import { orderService } from './order.service';
 import { orderPaymentService } from './order-payment.service';
 import { savedAddressService } from './saved-address.service';
 import { storeService } from './store.service';
+import { storeScheduleService } from './store-schedule.service';
+import { storeCapacityService } from './store-capacity.service';
+import { describeLocal } from '../utils/zoned-time';
+import { isTransientError } from '../utils/transient-error';
+import { menuService } from './menu.service';
 import { upsellService } from './upsell.service';
 import { surveyService } from './survey.service';
 import { reorderService } from './reorder.service';
+import { menuBrowseService } from './menu-browse.service';
+import { whatsappConfigService } from './whatsapp-config.service';
 import { billingService } from './billing.service';
-import { TEMPLATES } from './message-templates';
+import { realtimeService } from './realtime.service';
+import { orderStatusService } from './order-status.service';
+import { preOrderService, SlotCheck } from './pre-order.service';
+import { couponService, CouponRejection } from './coupon.service';
+import { loyaltyService, LoyaltyRejection } from './loyalty.service';
+import { MessageCatalog } from './message-templates';
+import { botCopyService, BotCopyOverrides } from './bot-copy.service';
+import {
+  DEFAULT_LANGUAGE,
+  normalizeLanguage,
+  detectLanguageFromScript,
+  translateMenuText,
+} from './locales';
+import { TemplateVariables } from './message-template.service';
 import { WHATSAPP_KVKK_MESSAGE, WHATSAPP_KVKK_ACCEPTED, WHATSAPP_MARKETING_ASK, WHATSAPP_MARKETING_ACCEPTED, WHATSAPP_MARKETING_DECLINED } from './legal-texts';
 import { createLogger } from '../logger';
+import { AppError } from '../middleware/error-handler';
+import {
+  FlowStateMachine,
+  FlowAction,
+  FlowStateStore,
+  FLOW_TRANSITIONS,
+  FlowActionName,
+  FlowTransition,
+  toFlowEvent,
+  parseFlowMetadata,
+  validateFlowTransitions,
+  renderFlowDiagram,
+} from './flow';
 import {
   WhatsAppWebhookPayload,
   MessageDto,
   ConversationPhase,
   GeoCheckResult,
+  OrderDto,
+  TemplateEvent,
 } from '@whatres/shared';
 
 const logger = createLogger();
@@ -37,13 +78,13 @@ function normalizeTr(text: string): string {
     .trim();
 }
 
-// Keywords for user intent detection
-const CONFIRM_KEYWORDS = ['evet', 'onayla', 'tamam', 'olsun', 'tamamla', 'onayliyorum', 'harika', 'super', 'guzel', 'iyi', 'mükemmel', 'mukemmel', 'dogru', 'aynen', 'kesinlikle'];
-const CANCEL_KEYWORDS = ['iptal', 'vazgec', 'istemiyorum', 'sil', 'temizle'];
+// Keywords for user intent detection (plus the command words quoted in ./locales)
+const CONFIRM_KEYWORDS = ['evet', 'onayla', 'tamam', 'olsun', 'tamamla', 'onayliyorum', 'harika', 'super', 'guzel', 'iyi', 'mükemmel', 'mukemmel', 'dogru', 'aynen', 'kesinlikle', 'yes', 'confirm', 'bestätigen', 'подтвердить', 'تأكيد'];
+const CANCEL_KEYWORDS = ['iptal', 'vazgec', 'istemiyorum', 'sil', 'temizle', 'cancel', 'stornieren', 'отмена', 'إلغاء'];
 const EDIT_KEYWORDS = ['hayir', 'degistir', 'degis', 'ekle', 'cikar'];
-const MENU_KEYWORDS = ['menu', 'men\u00fc', 'neler var', 'fiyat', 'liste'];
-const CASH_KEYWORDS = ['nakit', 'kapida', 'kap\u0131da'];
-const CARD_KEYWORDS = ['kart', 'kredi'];
+const MENU_KEYWORDS = ['menu', 'men\u00fc', 'neler var', 'fiyat', 'liste', 'speisekarte', 'меню', 'قائمة'];
+const CASH_KEYWORDS = ['nakit', 'kapida', 'kap\u0131da', 'cash', 'barzahlung', 'наличные', 'نقدا'];
+const CARD_KEYWORDS = ['kart', 'kredi', 'card', 'karte', 'карта', 'بطاقة'];
 const GREETING_KEYWORDS = ['merhaba', 'selam', 'iyi gunler', 'iyi g\u00fcnler', 'nasilsiniz', 'nas\u0131ls\u0131n\u0131z', 'hey', 'sa'];
 const THANKS_KEYWORDS = ['tesekkur', 'te\u015fekk\u00fcr', 'sagol', 'sa\u011fol', 'eyvallah'];
 const HELP_KEYWORDS = ['yardim', 'yard\u0131m', 'nasil', 'nas\u0131l', 'ne yapabilirim'];
@@ -65,6 +106,12 @@ const PAYMENT_CHANGE_KEYWORDS = [
   'kartla ode', 'kartla öde',
   'link gonder', 'link gönder',
 ];
+const COUPON_KEYWORDS = ['kupon', 'kod', 'promosyon', 'coupon', 'promo', 'gutschein', 'купон', 'قسيمة'];
+const LOYALTY_BALANCE_KEYWORDS = ['puanim', 'puanlarim', 'damgalarim', 'damga kartim', 'my points', 'meine punkte', 'мои баллы', 'نقاطي'];
+const LOYALTY_REDEEM_KEYWORDS = [
+  'puan kullan', 'puanimi kullan', 'puanlarimi kullan', 'damga kullan', 'hediye kullan',
+  'use points', 'punkte einlösen', 'списать баллы', 'استخدم النقاط',
+];
 
 // Payment link expiry (30 minutes)
 const PAYMENT_LINK_EXPIRY_MS = 30 * 60 * 1000;
@@ -75,17 +122,114 @@ interface FlowContext {
   conversation: any; // Raw Prisma conversation record
   message: MessageDto;
   payload: WhatsAppWebhookPayload;
+  copyOverrides: BotCopyOverrides; // Tenant wording, applied by t()
 }
 
 export class ConversationFlowService {
+  private readonly stateMachine = new FlowStateMachine<FlowContext, FlowActionName>(
+    FLOW_TRANSITIONS,
+    this.buildFlowActions(),
+    logger,
+    this.buildFlowStateStore(),
+  );
+
+  /**
+   * Action implementations referenced by FLOW_TRANSITIONS, by name
+   */
+  private buildFlowActions(): Record<FlowActionName, FlowAction<FlowContext>> {
+    return {
+      handleIdle: (ctx) => this.handleIdle(ctx),
+      handleAdditionPrompt: (ctx) => this.handleAdditionPrompt(ctx),
+      handleOrderCollecting: (ctx) => this.handleOrderCollecting(ctx),
+      handleOptionSelection: (ctx) => this.handleOptionSelection(ctx),
+      handleMenuBrowse: (ctx) => this.handleMenuBrowse(ctx),
+      handleCatalogOrder: (ctx) => this.handleCatalogOrder(ctx),
+      handleImageItemsReply: (ctx) => this.handleImageItemsReply(ctx),
+      handleSeamlessAdditionReply: (ctx) => this.handleSeamlessAdditionReply(ctx),
+      handleOrderReview: (ctx) => this.handleOrderReview(ctx),
+      handleUpsellOffer: (ctx) => this.handleUpsellOffer(ctx),
+      handleOrderConfirm: (ctx) => this.handleOrderConfirm(ctx),
+      handleOrderCancel: (ctx) => this.handleOrderCancel(ctx),
+      handleDeliveryTypeSelection: (ctx) => this.handleDeliveryTypeSelection(ctx),
+      handleLocationRequest: (ctx) => this.handleLocationRequest(ctx),
+      handleAddressSelection: (ctx) => this.handleAddressSelection(ctx),
+      handleAddressCollection: (ctx) => this.handleAddressCollection(ctx),
+      handleSaveAddressConfirm: (ctx) => this.handleSaveAddressConfirm(ctx),
+      handleAddressName: (ctx) => this.handleAddressName(ctx),
+      handleAddressNameCustom: (ctx) => this.handleAddressNameCustom(ctx),
+      handleAddressSavePrompt: (ctx) => this.handleAddressSavePrompt(ctx),
+      handlePaymentMethodSelection: (ctx) => this.handlePaymentMethodSelection(ctx),
+      handleCashPayment: (ctx) => this.handleCashPayment(ctx),
+      handleCardDoorPayment: (ctx) => this.handleCardDoorPayment(ctx),
+      handleCardPayment: (ctx) => this.handleCardPayment(ctx),
+      handlePaymentPending: (ctx) => this.handlePaymentPending(ctx),
+      handleOrderConfirmed: (ctx) => this.handleOrderConfirmed(ctx),
+      handleSurveyRating: (ctx) => this.handleSurveyRating(ctx),
+      handleSurveyComment: (ctx) => this.handleSurveyComment(ctx),
+      handleBroadcastOptInResponse: (ctx) => this.handleBroadcastOptInResponse(ctx),
+      handleAgentHandoff: (ctx) => this.handleAgentHandoff(ctx),
+    };
+  }
+
+  /**
+   * Conversation state saved before each action and written back when the
+   * action's result is rejected
+   */
+  private buildFlowStateStore(): FlowStateStore<FlowContext> {
+    return {
+      snapshot: async ({ tenantId, conversationId }) => {
+        const row = await prisma.conversation.findFirstOrThrow({
+          where: { id: conversationId, tenantId },
+          select: { phase: true, flowSubState: true, flowMetadata: true, activeOrderId: true },
+        });
+        return {
+          phase: row.phase as ConversationPhase,
+          subState: row.flowSubState,
+          metadata: row.flowMetadata,
+          activeOrderId: row.activeOrderId,
+        };
+      },
+      restore: async ({ tenantId, conversationId }, snapshot) => {
+        await prisma.conversation.update({
+          where: { id: conversationId, tenantId },
+          data: { flowSubState: snapshot.subState, flowMetadata: snapshot.metadata },
+        });
+        await inboxService.updateConversationPhase(
+          tenantId,
+          conversationId,
+          snapshot.phase,
+          snapshot.activeOrderId,
+        );
+      },
+    };
+  }
+
+  /**
+   * Static problems in the transition table (unknown actions, missing catch-alls,
+   * unreachable phases). Checked once at API startup.
+   */
+  validateFlowTable(): string[] {
+    return validateFlowTransitions(FLOW_TRANSITIONS, Object.keys(this.buildFlowActions()));
+  }
+
+  /**
+   * Transition table plus its Mermaid rendering, for the panel
+   */
+  getFlowDiagram(): { mermaid: string; transitions: FlowTransition<FlowActionName>[] } {
+    return { mermaid: renderFlowDiagram(FLOW_TRANSITIONS), transitions: FLOW_TRANSITIONS };
+  }
+
   /**
-   * Main entry point - handle every incoming message through the state machine
+   * Main entry point - handle every incoming message through the state machine.
+   * With rethrowTransient, database/Redis/network failures are thrown instead
+   * of answered with genericError, so the inbound queue can retry the message.
    */
   async handleIncomingMessage(
     tenantId: string,
     conversationId: string,
     message: MessageDto,
     payload: WhatsAppWebhookPayload,
+    options: { rethrowTransient?: boolean } = {},
   ): Promise<void> {
     // Get full conversation record (with phase)
     const conversation = await inboxService.getConversationRaw(tenantId, conversationId);
@@ -94,7 +238,8 @@ export class ConversationFlowService {
       return;
     }
 
-    const ctx: FlowContext = { tenantId, conversationId, conversation, message, payload };
+    const copyOverrides = await botCopyService.getOverrides(tenantId);
+    const ctx: FlowContext = { tenantId, conversationId, conversation, message, payload, copyOverrides };
     const currentPhase = (conversation.phase as ConversationPhase) || 'IDLE';
 
     // Agent takeover guard: if an agent has locked this conversation,
@@ -138,6 +283,9 @@ export class ConversationFlowService {
     );
 
     try {
+      // Arabic/Cyrillic text settles the reply language before any guard answers
+      await this.applyDetectedLanguage(ctx, detectLanguageFromScript(message.text));
+
       // Store-closed guard: block new orders when all stores are closed
       const guardPhases: ConversationPhase[] = [
         'IDLE', 'ORDER_COLLECTING', 'ORDER_REVIEW', 'ADDITION_PROMPT',
@@ -145,15 +293,26 @@ export class ConversationFlowService {
       if (guardPhases.includes(currentPhase)) {
         const allClosed = await storeService.areAllStoresClosed(tenantId);
         if (allClosed) {
-          // Only send if last outbound wasn't already the closed message
-          const lastOut = await prisma.message.findFirst({
-            where: { conversationId, tenantId, direction: 'OUT' },
-            orderBy: { createdAt: 'desc' },
-          });
-          if (!lastOut || lastOut.text !== TEMPLATES.storeClosed) {
-            await this.sendText(ctx, TEMPLATES.storeClosed);
+          // With pre-orders the customer may keep ordering; checkout asks for a time
+          const { enabled: preOrders } = await preOrderService.getSettings(tenantId);
+          let notice = this.t(ctx).storeClosed;
+          const reopening = await storeScheduleService.getNextOpening(tenantId);
+          if (reopening) {
+            const { dayKey, time } = describeLocal(reopening.at, reopening.timezone);
+            notice += `\n${this.t(ctx).nextOpening(this.t(ctx).dayNames[dayKey], time)}`;
           }
-          return;
+          if (preOrders) notice += `\n\n${this.t(ctx).preOrderHint}`;
+          if (!preOrders || currentPhase === 'IDLE') {
+            // Only send if last outbound wasn't already the closed message
+            const lastOut = await prisma.message.findFirst({
+              where: { conversationId, tenantId, direction: 'OUT' },
+              orderBy: { createdAt: 'desc' },
+            });
+            if (!lastOut || lastOut.text !== notice) {
+              await this.sendText(ctx, notice);
+            }
+          }
+          if (!preOrders) return;
         }
       }
       // Inactivity warning intercept: if customer responds while warned, clear warning and continue
@@ -165,7 +324,7 @@ export class ConversationFlowService {
         if (refreshed) {
           ctx.conversation = refreshed;
         }
-        await this.sendText(ctx, TEMPLATES.inactivityResumed);
+        await this.sendText(ctx, this.t(ctx).inactivityResumed);
         // Fall through to normal phase handler — customer's message is not lost
       }
 
@@ -177,7 +336,7 @@ export class ConversationFlowService {
         await this.cancelActiveOrder(ctx);
         // Always force phase to IDLE (cancelActiveOrder may skip if no active order)
         await inboxService.updateConversationPhase(tenantId, conversationId, 'IDLE', null);
-        await this.sendText(ctx, '🔄 Konuşma sıfırlandı. Yeni sipariş vermek için menüden seçim yapabilirsiniz.\n\n📋 *Menü* görmek için "menü" yazın.');
+        await this.sendText(ctx, this.t(ctx).conversationReset);
         return;
       }
 
@@ -211,63 +370,36 @@ export class ConversationFlowService {
         }
       }
 
-      let nextPhase: ConversationPhase;
+      // "yarın 12:30": a bare time is answered here, a time with items after dispatch
+      const requestedTime = await this.takeRequestedTime(ctx, currentPhase);
+      if (requestedTime.answered) return;
 
-      switch (currentPhase) {
-        case 'IDLE':
-          nextPhase = await this.handleIdle(ctx);
-          break;
-        case 'ADDITION_PROMPT':
-          nextPhase = await this.handleAdditionPrompt(ctx);
-          break;
-        case 'ORDER_COLLECTING':
-          nextPhase = await this.handleOrderCollecting(ctx);
-          break;
-        case 'ORDER_REVIEW':
-          nextPhase = await this.handleOrderReview(ctx);
-          break;
-        case 'DELIVERY_TYPE_SELECTION':
-          nextPhase = await this.handleDeliveryTypeSelection(ctx);
-          break;
-        case 'LOCATION_REQUEST':
-          nextPhase = await this.handleLocationRequest(ctx);
-          break;
-        case 'ADDRESS_SELECTION':
-          nextPhase = await this.handleAddressSelection(ctx);
-          break;
-        case 'ADDRESS_COLLECTION':
-          nextPhase = await this.handleAddressCollection(ctx);
-          break;
-        case 'ADDRESS_SAVE_PROMPT':
-          nextPhase = await this.handleAddressSavePrompt(ctx);
-          break;
-        case 'PAYMENT_METHOD_SELECTION':
-          nextPhase = await this.handlePaymentMethodSelection(ctx);
-          break;
-        case 'PAYMENT_PENDING':
-          nextPhase = await this.handlePaymentPending(ctx);
-          break;
-        case 'ORDER_CONFIRMED':
-          nextPhase = await this.handleOrderConfirmed(ctx);
-          break;
-        case 'AGENT_HANDOFF':
-          nextPhase = await this.handleAgentHandoff(ctx);
-          break;
-        default:
-          nextPhase = await this.handleIdle(ctx);
-      }
+      // Dispatch through the declarative transition table (see ./flow/transition-table.ts)
+      const { nextPhase, transitionId, rejected } = await this.stateMachine.dispatch(ctx, {
+        phase: currentPhase,
+        subState: ctx.conversation.flowSubState || null,
+        event: toFlowEvent(message, payload),
+        buttonId: payload.interactive?.buttonReply?.id,
+        listReplyId: payload.interactive?.listReply?.id,
+        metadata: parseFlowMetadata(ctx.conversation.flowMetadata),
+      });
 
-      // Update phase if changed
-      if (nextPhase !== currentPhase) {
+      // A rejected transition was already rolled back by the state machine
+      if (!rejected && nextPhase !== currentPhase) {
         await inboxService.updateConversationPhase(tenantId, conversationId, nextPhase);
         logger.info(
-          { tenantId, conversationId, from: currentPhase, to: nextPhase },
+          { tenantId, conversationId, from: currentPhase, to: nextPhase, transitionId },
           'Phase transition',
         );
       }
+
+      if (requestedTime.at) {
+        await this.scheduleDraft(ctx, requestedTime.at, nextPhase);
+      }
     } catch (error) {
+      if (options.rethrowTransient && isTransientError(error)) throw error;
       logger.error({ error, tenantId, conversationId, phase: currentPhase }, 'Flow service error');
-      await this.sendText(ctx, 'Bir hata olustu. Lutfen tekrar deneyin.');
+      await this.sendText(ctx, this.t(ctx).genericError);
     }
   }
 
@@ -282,6 +414,7 @@ export class ConversationFlowService {
   ): Promise<void> {
     const conversation = await inboxService.getConversationRaw(tenantId, conversationId);
     if (!conversation) return;
+    const t = await botCopyService.getTemplates(tenantId, conversation.language);
 
     if (success) {
       // Check if order is already confirmed (payment change scenario)
@@ -299,7 +432,7 @@ export class ConversationFlowService {
         await whatsappService.sendText(
           tenantId,
           conversationId,
-          TEMPLATES.paymentChangeSuccess(order.orderNumber || 0),
+          t.paymentChangeSuccess(order.orderNumber || 0),
         );
         await prisma.conversation.update({
           where: { id: conversationId },
@@ -310,14 +443,17 @@ export class ConversationFlowService {
       }
 
       // Normal flow: DRAFT → PENDING_CONFIRMATION
-      const pendingOrder = await orderService.setPendingConfirmation(tenantId, orderId, {
-        paymentMethod: 'CREDIT_CARD',
-      });
+      const pendingOrder = await orderService.setPendingConfirmation(
+        tenantId,
+        orderId,
+        { paymentMethod: 'CREDIT_CARD' },
+        { paid: true }
+      );
 
       await whatsappService.sendText(
         tenantId,
         conversationId,
-        TEMPLATES.paymentSuccess(pendingOrder.orderNumber || 0),
+        t.paymentSuccess(pendingOrder.orderNumber || 0),
       );
 
       await inboxService.updateConversationPhase(tenantId, conversationId, 'ORDER_CONFIRMED', null);
@@ -332,7 +468,7 @@ export class ConversationFlowService {
         await whatsappService.sendText(
           tenantId,
           conversationId,
-          'Online odeme basarisiz oldu. Mevcut odeme yonteminiz gecerli olmaya devam edecektir.',
+          t.paymentChangeFailed,
         );
         await prisma.conversation.update({
           where: { id: conversationId },
@@ -340,7 +476,7 @@ export class ConversationFlowService {
         });
         return;
       }
-      await whatsappService.sendText(tenantId, conversationId, TEMPLATES.paymentFailed);
+      await whatsappService.sendText(tenantId, conversationId, t.paymentFailed);
       // Stay in PAYMENT_PENDING - user can retry or switch to cash
     }
   }
@@ -356,76 +492,49 @@ export class ConversationFlowService {
 
     // Adim 10: Faz-mesaj turu uyumsuzlugu - IDLE'da TEXT olmayan mesajlar
     if (message.kind !== 'TEXT' || !text) {
-      // Voice messages: try transcription with Whisper
+      // Voice messages: transcribe and re-process as text
       if (message.kind === 'VOICE') {
-        const voiceId = (message.payloadJson as any)?.voiceId;
-        if (voiceId && whisperService.isAvailable()) {
-          const transcribed = await whisperService.transcribeVoiceMessage(tenantId, voiceId);
-          if (transcribed) {
-            // Re-process as text message with transcribed content
-            const fakeTextMessage = { ...message, kind: 'TEXT' as const, text: transcribed };
-            const fakeCtx = { ...ctx, message: fakeTextMessage };
-            return this.handleIdle(fakeCtx);
-          }
+        const transcribed = await this.transcribeVoice(ctx);
+        if (transcribed) {
+          const fakeTextMessage = { ...message, kind: 'TEXT' as const, text: transcribed };
+          const fakeCtx = { ...ctx, message: fakeTextMessage };
+          return this.handleIdle(fakeCtx);
         }
-        await this.sendText(ctx, 'Sesli mesajinizi isleyemedim. Siparis vermek icin urun adini yazin.');
+        await this.sendText(ctx, this.t(ctx).voiceNotProcessed);
         return 'IDLE';
       }
       if (message.kind === 'IMAGE') {
-        await this.sendText(ctx, 'Gorsel mesaj isleyemiyorum. Siparis vermek icin urun adini yazin.');
+        return this.handleImageOrder(ctx);
       } else if (message.kind === 'LOCATION') {
-        await this.sendText(ctx, 'Once siparis verin, sonra konum isteyecegiz. Siparis icin urun adini yazin.');
+        await this.sendText(ctx, this.t(ctx).locationBeforeOrder);
       } else {
-        await this.sendText(ctx, TEMPLATES.greeting);
+        await this.sendText(ctx, this.t(ctx).greeting);
       }
       return 'IDLE';
     }
 
     // Check working hours and busy mode
+    if (await this.replyIfClosed(ctx)) {
+      return 'IDLE';
+    }
     const tenant = await prisma.tenant.findUnique({
       where: { id: tenantId },
-      select: { isBusy: true, busyEstimateMinutes: true, busyMessage: true, workingHours: true },
+      select: { isBusy: true, busyEstimateMinutes: true, busyMessage: true },
     });
 
-    // Working hours check
-    if (tenant?.workingHours) {
-      const wh = tenant.workingHours as any;
-      const now = new Date();
-      const trTime = new Date(now.toLocaleString('en-US', { timeZone: 'Europe/Istanbul' }));
-      const dayNames = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
-      const today = dayNames[trTime.getDay()];
-      const currentTime = `${String(trTime.getHours()).padStart(2, '0')}:${String(trTime.getMinutes()).padStart(2, '0')}`;
-
-      const closedDays: string[] = Array.isArray(wh.closed) ? wh.closed : [];
-      const daySchedule = wh[today];
-      // Supports two UI shapes: top-level `closed: string[]` (settings) and per-day `closed: boolean` (onboarding).
-      if (closedDays.includes(today) || daySchedule?.closed === true) {
-        const nextOpen = this.getNextOpenDay(wh, today);
-        await this.sendText(ctx, `⏰ Bugun kapali gunumuz. ${nextOpen}\n\nCalisma saatlerimiz:\n${this.formatWorkingHours(wh)}`);
-        return 'IDLE';
-      }
-
-      // 24h open (allDay flag, or open === close) is always open and skips the time check.
-      // Overnight ranges where close <= open (e.g. 18:00 - 03:00) span midnight.
-      const isAllDay = daySchedule?.allDay === true || (!!daySchedule?.open && daySchedule.open === daySchedule.close);
-      if (!isAllDay && daySchedule?.open && daySchedule?.close) {
-        const { open, close } = daySchedule;
-        const isOpenNow = open < close
-          ? currentTime >= open && currentTime < close
-          : currentTime >= open || currentTime < close;
-        if (!isOpenNow) {
-          await this.sendText(ctx, `⏰ Su an siparis alamiyoruz. Bugunun calisma saati: ${open} - ${close}\n\nCalisma saatlerimiz:\n${this.formatWorkingHours(wh)}`);
-          return 'IDLE';
-        }
-      }
+    // Store throttling: a hard pause stops the order, over capacity only warns
+    const intake = await storeCapacityService.checkIntake(tenantId, ctx.conversation.nearestStoreId);
+    if (intake.pausedUntil) {
+      const { time } = describeLocal(intake.pausedUntil.at, intake.pausedUntil.timezone);
+      await this.sendText(ctx, this.t(ctx).ordersPaused(time));
+      return 'IDLE';
     }
 
-    // Busy mode check
+    // Busy mode check (manual switch first, then automatic per-store capacity)
     if (tenant?.isBusy) {
-      const estimate = tenant.busyEstimateMinutes ? `Tahmini teslimat suresi: ~${tenant.busyEstimateMinutes} dakika.` : '';
-      const custom = tenant.busyMessage || '';
-      const busyText = `⚠️ Su an yogun bir donemimiz var. ${estimate} ${custom}\n\nSiparis vermeye devam edebilirsiniz.`.trim();
-      await this.sendText(ctx, busyText);
+      await this.sendText(ctx, this.t(ctx).busyNotice(tenant.busyEstimateMinutes, tenant.busyMessage || ''));
+    } else if (intake.busyEtaMinutes) {
+      await this.sendText(ctx, this.t(ctx).busyNotice(intake.busyEtaMinutes, ''));
     }
 
     // Handle reorder list selection (sub-state)
@@ -446,14 +555,20 @@ export class ConversationFlowService {
       try {
         const { broadcastService } = await import('./broadcast.service');
         await broadcastService.handleOptInResponse(tenantId, ctx.conversation.customerPhone, false);
-        await this.sendText(ctx, TEMPLATES.broadcastOptOutConfirmed);
+        await this.sendText(ctx, this.t(ctx).broadcastOptOutConfirmed);
       } catch (err) {
         logger.warn({ err }, 'Broadcast opt-out failed');
-        await this.sendText(ctx, 'Kampanya bildirimleri kapatildi.');
+        await this.sendText(ctx, this.t(ctx).broadcastOptOutFallback);
       }
       return 'IDLE';
     }
 
+    // Loyalty balance ("puanim")
+    if (this.matchesKeyword(text, LOYALTY_BALANCE_KEYWORDS)) {
+      await this.sendLoyaltyBalance(ctx);
+      return 'IDLE';
+    }
+
     // Working hours question — answer with schedule
     if (WORKING_HOURS_KEYWORDS.some(k => text.includes(k))) {
       const tenantForHours = await prisma.tenant.findUnique({
@@ -461,10 +576,10 @@ export class ConversationFlowService {
         select: { workingHours: true },
       });
       if (tenantForHours?.workingHours) {
-        const formatted = this.formatWorkingHours(tenantForHours.workingHours as any);
-        await this.sendText(ctx, `🕐 Çalışma saatlerimiz:\n\n${formatted}\n\nSipariş vermek için ürün adını yazabilirsiniz.`);
+        const formatted = this.formatWorkingHours(ctx, tenantForHours.workingHours as any);
+        await this.sendText(ctx, this.t(ctx).workingHoursList(formatted));
       } else {
-        await this.sendText(ctx, '🕐 Çalışma saatlerimiz henüz ayarlanmamış. Sipariş vermek için ürün adını yazabilirsiniz.');
+        await this.sendText(ctx, this.t(ctx).workingHoursNotSet);
       }
       return 'IDLE';
     }
@@ -476,21 +591,21 @@ export class ConversationFlowService {
     // Greeting / thanks — only if message is PURELY a greeting (no order content)
     const words = text.split(/\s+/).filter(w => w.length > 1);
     if (!hasOrderSignal && words.length <= 3 && (this.matchesKeyword(text, GREETING_KEYWORDS) || this.matchesKeyword(text, THANKS_KEYWORDS))) {
-      await this.sendText(ctx, TEMPLATES.greeting);
+      await this.sendText(ctx, this.t(ctx).greeting);
       return 'IDLE';
     }
 
     // Help request
     if (!hasOrderSignal && this.matchesKeyword(text, HELP_KEYWORDS)) {
-      await this.sendText(ctx, '🤖 Size nasıl yardımcı olabilirim?\n\n• Sipariş vermek için ürün adını yazın\n• Menüyü görmek için "menü" yazın\n• Çalışma saatlerini öğrenmek için "saat kaçta açılıyorsunuz" yazın\n• Önceki siparişinizi tekrar vermek için "tekrar" yazın');
+      await this.sendText(ctx, this.t(ctx).idleHelp);
       return 'IDLE';
     }
 
     // Menu request — only if no order signal (pure "menü göster" request)
     if (!hasOrderSignal && this.matchesKeyword(text, MENU_KEYWORDS)) {
-      const sent = await this.sendMenuMedia(ctx);
+      const sent = await this.sendMenu(ctx);
       if (!sent) {
-        await this.sendText(ctx, TEMPLATES.menuNotAvailable);
+        await this.sendText(ctx, this.t(ctx).menuNotAvailable);
       }
       return 'IDLE';
     }
@@ -501,17 +616,9 @@ export class ConversationFlowService {
     }
 
     // Check for active (non-draft) orders — seamless addition
-    // Only consider orders from the last 2 hours for seamless addition.
-    // Older orders should not intercept new order attempts.
-    const activeParentOrder = await orderService.findActiveOrderForConversation(
-      tenantId, conversationId
-    );
-
-    const SESSION_MAX_AGE_MS = 2 * 60 * 60 * 1000; // 2 hours
-    const isRecentOrder = activeParentOrder?.createdAt &&
-      (Date.now() - new Date(activeParentOrder.createdAt).getTime()) < SESSION_MAX_AGE_MS;
+    const activeParentOrder = await this.findSeamlessParentOrder(ctx);
 
-    if (activeParentOrder && isRecentOrder && ['PENDING_CONFIRMATION', 'CONFIRMED', 'PREPARING', 'READY'].includes(activeParentOrder.status)) {
+    if (activeParentOrder) {
       // Payment change request: customer wants to switch to online payment
       const isPaymentChange = PAYMENT_CHANGE_KEYWORDS.some(k => text.includes(k));
       if (isPaymentChange) {
@@ -519,12 +626,10 @@ export class ConversationFlowService {
       }
 
       // Seamless addition: run NLU directly, add items to existing order
-      const addResult = await nluOrchestratorService.processMessage(
-        tenantId, conversationId, message.id, text,
-      );
+      const addResult = await this.processWithNlu(ctx, text);
 
       if (addResult.needsAgentHandoff) {
-        await this.sendText(ctx, TEMPLATES.agentHandoff);
+        await this.sendText(ctx, this.t(ctx).agentHandoff);
         return 'AGENT_HANDOFF';
       }
 
@@ -549,41 +654,22 @@ export class ConversationFlowService {
 
       if (!addResult.itemsExtracted) {
         // Not a food item — greeting or general message
-        await this.sendText(ctx, TEMPLATES.greeting);
+        await this.sendText(ctx, this.t(ctx).greeting);
         return 'IDLE';
       }
     }
 
     // Try NLU extraction
-    const result = await nluOrchestratorService.processMessage(
-      tenantId, conversationId, message.id, text,
-    );
+    const result = await this.processWithNlu(ctx, text);
 
     if (result.needsAgentHandoff) {
-      await this.sendText(ctx, TEMPLATES.agentHandoff);
+      await this.sendText(ctx, this.t(ctx).agentHandoff);
       return 'AGENT_HANDOFF';
     }
 
-    // Option selection needed — ask via interactive list before confirming order
-    if (result.pendingOptionSelection && result.clarificationQuestion) {
-      await prisma.conversation.update({
-        where: { id: conversationId },
-        data: {
-          flowSubState: 'OPTION_SELECTION',
-          activeOrderId: result.draftOrderId || ctx.conversation.activeOrderId,
-        },
-      });
-      await this.sendOptionSelectionList(ctx, result.pendingOptionSelection);
-      return 'ORDER_COLLECTING';
-    }
-
-    if (result.draftOrderId && result.confirmationMessage) {
-      await inboxService.updateConversationPhase(
-        tenantId, conversationId, 'ORDER_REVIEW', result.draftOrderId,
-      );
-      await this.sendOrderConfirmButtons(ctx, result.confirmationMessage);
-      await this.checkMinBasketWarning(ctx, result.draftOrderId);
-      return 'ORDER_REVIEW';
+    const presented = await this.presentDraftUpdate(ctx, result);
+    if (presented) {
+      return presented;
     }
 
     if (result.clarificationQuestion) {
@@ -592,7 +678,7 @@ export class ConversationFlowService {
     }
 
     if (!result.itemsExtracted) {
-      await this.sendText(ctx, TEMPLATES.greeting);
+      await this.sendText(ctx, this.t(ctx).greeting);
       return 'IDLE';
     }
 
@@ -608,251 +694,253 @@ export class ConversationFlowService {
   }
 
   /**
-   * ORDER_COLLECTING: Items being added to cart. Listen for more items or confirmation.
+   * ORDER_COLLECTING / OPTION_SELECTION: customer is picking options for a bundle item
    */
-  private async handleOrderCollecting(ctx: FlowContext): Promise<ConversationPhase> {
+  private async handleOptionSelection(ctx: FlowContext): Promise<ConversationPhase> {
     const { tenantId, conversationId, message, conversation } = ctx;
     const text = normalizeTr(message.text || '');
-    const buttonId = ctx.payload.interactive?.buttonReply?.id;
 
-    // Handle OPTION_SELECTION sub-state: user is selecting options for a bundle item
-    if (conversation.flowSubState === 'OPTION_SELECTION') {
-      const listReplyTitle = ctx.payload.interactive?.listReply?.title;
-      const selectedOption = listReplyTitle || text;
-      // Cancel intent can arrive as free text ("iptal") OR as a list/button
-      // reply whose title is "İptal" — in which case `text` is empty and we must
-      // inspect the selected option title too. Without this the bot keeps
-      // re-sending the option list forever instead of cancelling.
-      const cancelText = normalizeTr(selectedOption);
-
-      if (this.isFullCancelIntent(text) || this.matchesKeyword(cancelText, CANCEL_KEYWORDS)) {
-        await this.cancelActiveOrder(ctx);
-        await prisma.conversation.update({
-          where: { id: conversationId },
-          data: { flowSubState: null, flowMetadata: null },
-        });
-        await this.sendText(ctx, TEMPLATES.orderCancelled);
-        return 'IDLE';
-      }
+    const listReplyTitle = ctx.payload.interactive?.listReply?.title;
+    const selectedOption = listReplyTitle || text;
+    // Cancel intent can arrive as free text ("iptal") OR as a list/button
+    // reply whose title is "İptal" — in which case `text` is empty and we must
+    // inspect the selected option title too. Without this the bot keeps
+    // re-sending the option list forever instead of cancelling.
+    const cancelText = normalizeTr(selectedOption);
 
-      // Add selected option directly to draft order item's optionsJson
-      const orderId = conversation.activeOrderId;
-      if (orderId) {
-        const orderItem = await prisma.orderItem.findFirst({
-          where: { orderId },
-          orderBy: { createdAt: 'desc' },
-        });
+    if (this.isFullCancelIntent(text) || this.matchesKeyword(cancelText, CANCEL_KEYWORDS)) {
+      await this.cancelActiveOrder(ctx);
+      await prisma.conversation.update({
+        where: { id: conversationId },
+        data: { flowSubState: null, flowMetadata: null },
+      });
+      await this.sendText(ctx, this.t(ctx).orderCancelled);
+      return 'IDLE';
+    }
+
+    // Add selected option directly to draft order item's optionsJson
+    const orderId = conversation.activeOrderId;
+    if (orderId) {
+      const orderItem = await prisma.orderItem.findFirst({
+        where: { orderId },
+        orderBy: { createdAt: 'desc' },
+      });
 
-        if (orderItem) {
-          const currentOptions = (orderItem.optionsJson as any[]) || [];
-          // Find which option group this selection belongs to
-          const menuItem = await prisma.menuItem.findUnique({
-            where: { id: orderItem.menuItemId },
-            include: {
-              optionGroups: {
-                include: {
-                  group: { include: { options: true } },
-                },
+      if (orderItem) {
+        const currentOptions = (orderItem.optionsJson as any[]) || [];
+        // Find which option group this selection belongs to
+        const menuItem = await prisma.menuItem.findUnique({
+          where: { id: orderItem.menuItemId },
+          include: {
+            optionGroups: {
+              include: {
+                group: { include: { options: true } },
               },
             },
-          });
+          },
+        });
 
-          let matchedGroupName = '';
-          let matchedPriceDelta = 0;
-          if (menuItem) {
-            for (const og of menuItem.optionGroups) {
-              const opt = og.group.options.find(
-                o => normalizeTr(o.name) === normalizeTr(selectedOption)
-              );
-              if (opt) {
-                // Check if this group still needs selections
-                const existingForGroup = currentOptions.filter(
-                  (co: any) => co.groupName === og.group.name
-                ).length;
-                if (existingForGroup < (og.group.maxSelect || og.group.minSelect || 1)) {
-                  matchedGroupName = og.group.name;
-                  matchedPriceDelta = Number(opt.priceDelta);
-                  break;
-                }
+        let matchedGroupName = '';
+        let matchedOptionName = '';
+        let matchedPriceDelta = 0;
+        if (menuItem) {
+          for (const og of menuItem.optionGroups) {
+            // The list may have been sent with translated titles
+            const opt = og.group.options.find(
+              o => normalizeTr(o.name) === normalizeTr(selectedOption)
+                || normalizeTr(translateMenuText(o.translations, conversation.language, 'name', o.name))
+                  === normalizeTr(selectedOption)
+            );
+            if (opt) {
+              // Check if this group still needs selections
+              const existingForGroup = currentOptions.filter(
+                (co: any) => co.groupName === og.group.name
+              ).length;
+              if (existingForGroup < (og.group.maxSelect || og.group.minSelect || 1)) {
+                matchedGroupName = og.group.name;
+                matchedOptionName = opt.name;
+                matchedPriceDelta = Number(opt.priceDelta);
+                break;
               }
             }
           }
+        }
 
-          if (matchedGroupName) {
-            currentOptions.push({
-              groupName: matchedGroupName,
-              optionName: selectedOption,
-              priceDelta: matchedPriceDelta,
-            });
+        if (matchedGroupName) {
+          currentOptions.push({
+            groupName: matchedGroupName,
+            optionName: matchedOptionName,
+            priceDelta: matchedPriceDelta,
+          });
 
-            // Update order item with new option and recalculate price
-            const totalDelta = currentOptions.reduce((sum: number, o: any) => sum + (o.priceDelta || 0), 0);
-            await prisma.orderItem.update({
-              where: { id: orderItem.id },
-              data: {
-                optionsJson: currentOptions,
-                unitPrice: Number(orderItem.unitPrice) + matchedPriceDelta,
-              },
-            });
+          // Update order item with new option and recalculate price
+          const totalDelta = currentOptions.reduce((sum: number, o: any) => sum + (o.priceDelta || 0), 0);
+          await prisma.orderItem.update({
+            where: { id: orderItem.id },
+            data: {
+              optionsJson: currentOptions,
+              unitPrice: Number(orderItem.unitPrice) + matchedPriceDelta,
+            },
+          });
 
-            // Recalculate order total
-            const allItems = await prisma.orderItem.findMany({ where: { orderId } });
-            const newTotal = allItems.reduce((sum, i) => sum + Number(i.unitPrice) * i.qty, 0);
-            await prisma.order.update({
-              where: { id: orderId },
-              data: { totalPrice: newTotal },
-            });
+          // Recalculate order total
+          const allItems = await prisma.orderItem.findMany({ where: { orderId } });
+          const newTotal = allItems.reduce((sum, i) => sum + Number(i.unitPrice) * i.qty, 0);
+          await prisma.order.update({
+            where: { id: orderId },
+            data: { totalPrice: newTotal },
+          });
+          await couponService.repriceOrder(tenantId, orderId);
+          await loyaltyService.repriceOrder(tenantId, orderId);
 
-            // Check if more options needed
-            if (menuItem) {
-              const updatedOptions = currentOptions;
-              let nextMissing: { groupName: string; remaining: number; options: any[] } | null = null;
-
-              for (const og of menuItem.optionGroups) {
-                if (!og.group.required) continue;
-                const selectedCount = updatedOptions.filter(
-                  (co: any) => co.groupName === og.group.name
-                ).length;
-                const needed = og.group.minSelect || 1;
-                if (selectedCount < needed) {
-                  nextMissing = {
-                    groupName: og.group.name,
-                    remaining: needed - selectedCount,
-                    options: og.group.options.map(o => ({
-                      id: `opt_${o.name.substring(0, 20).replace(/\s/g, '_')}`,
-                      name: o.name,
-                      priceDelta: Number(o.priceDelta),
-                    })),
-                  };
-                  break;
-                }
-              }
+          // Check if more options needed
+          if (menuItem) {
+            const updatedOptions = currentOptions;
+            let nextMissing: { groupName: string; remaining: number; options: any[] } | null = null;
 
-              if (nextMissing) {
-                const stepNum = (currentOptions.filter((co: any) => co.groupName === nextMissing!.groupName).length) + 1;
-                const cleanName = nextMissing.groupName.replace(/ \(\d+x\)/, '');
-                await this.sendOptionSelectionList(ctx, {
-                  itemName: menuItem.name,
-                  groupName: cleanName,
-                  stepNumber: stepNum,
-                  options: nextMissing.options,
-                });
-                return 'ORDER_COLLECTING';
+            for (const og of menuItem.optionGroups) {
+              if (!og.group.required) continue;
+              const selectedCount = updatedOptions.filter(
+                (co: any) => co.groupName === og.group.name
+              ).length;
+              const needed = og.group.minSelect || 1;
+              if (selectedCount < needed) {
+                nextMissing = {
+                  groupName: og.group.name,
+                  remaining: needed - selectedCount,
+                  options: og.group.options.map(o => ({
+                    id: `opt_${o.name.substring(0, 20).replace(/\s/g, '_')}`,
+                    name: o.name,
+                    priceDelta: Number(o.priceDelta),
+                  })),
+                };
+                break;
               }
+            }
 
-              // All options selected! Show order summary
-              await prisma.conversation.update({
-                where: { id: conversationId },
-                data: { flowSubState: null, flowMetadata: null },
+            if (nextMissing) {
+              const stepNum = (currentOptions.filter((co: any) => co.groupName === nextMissing!.groupName).length) + 1;
+              const cleanName = nextMissing.groupName.replace(/ \(\d+x\)/, '');
+              await this.sendOptionSelectionList(ctx, {
+                itemName: menuItem.name,
+                groupName: cleanName,
+                stepNumber: stepNum,
+                options: nextMissing.options,
               });
-              const order = await orderService.getOrder(tenantId, orderId);
-              if (order) {
-                const summary = this.buildOrderSummary(order);
-                await inboxService.updateConversationPhase(tenantId, conversationId, 'ORDER_REVIEW', orderId);
-                await this.sendOrderConfirmButtons(ctx, summary);
-                return 'ORDER_REVIEW';
-              }
+              return 'ORDER_COLLECTING';
             }
-          }
-        }
-      }
-
-      await this.sendText(ctx, 'Seçiminizi anlayamadım. Lütfen listeden bir seçenek seçin veya iptal etmek için "iptal" yazın.');
-      return 'ORDER_COLLECTING';
-    }
-
-    // Handle SEAMLESS_ADDITION sub-state: clarification answer for active order addition
-    if (conversation.flowSubState === 'SEAMLESS_ADDITION') {
-      let parentMeta: any = {};
-      try { parentMeta = JSON.parse(conversation.flowMetadata || '{}'); } catch { /* ignore */ }
-      const parentOrderId = parentMeta.parentOrderId;
-
-      if (parentOrderId && message.kind === 'TEXT' && text) {
-        // Check if user is confirming/acknowledging the addition (e.g. "tamamdır", "tamam", "ok")
-        // Don't send to NLU - just acknowledge and clear sub-state
-        if (this.matchesKeyword(text, CONFIRM_KEYWORDS)) {
-          await prisma.conversation.update({
-            where: { id: conversationId },
-            data: { flowSubState: null, flowMetadata: null },
-          });
-          await this.sendText(ctx, 'Tamam, ekleme kaydedildi! Baska bir istegininiz olursa yazabilirsiniz.');
-          return 'ORDER_COLLECTING';
-        }
-
-        // Check if user wants to cancel/undo the addition
-        if (this.matchesKeyword(text, CANCEL_KEYWORDS)) {
-          await prisma.conversation.update({
-            where: { id: conversationId },
-            data: { flowSubState: null, flowMetadata: null },
-          });
-          await this.sendText(ctx, 'Ekleme iptal edildi. Baska bir istegininiz var mi?');
-          return 'ORDER_COLLECTING';
-        }
-
-        const addResult = await nluOrchestratorService.processMessage(
-          tenantId, conversationId, message.id, text,
-        );
 
-        if (addResult.draftOrderId && addResult.itemsExtracted) {
-          const activeOrder = await orderService.getOrder(tenantId, parentOrderId);
-          if (activeOrder) {
+            // All options selected! Show order summary
             await prisma.conversation.update({
               where: { id: conversationId },
               data: { flowSubState: null, flowMetadata: null },
             });
-            return this.handleSeamlessAddition(ctx, activeOrder, addResult.draftOrderId);
+            const order = await orderService.getOrder(tenantId, orderId);
+            if (order) {
+              const summary = this.buildOrderSummary(ctx, order);
+              await inboxService.updateConversationPhase(tenantId, conversationId, 'ORDER_REVIEW', orderId);
+              await this.sendOrderConfirmButtons(ctx, summary);
+              return 'ORDER_REVIEW';
+            }
           }
         }
+      }
+    }
 
-        if (addResult.clarificationQuestion) {
-          await this.sendText(ctx, addResult.clarificationQuestion);
-          return 'ORDER_COLLECTING';
-        }
+    await this.sendText(ctx, this.t(ctx).optionSelectionNotUnderstood);
+    return 'ORDER_COLLECTING';
+  }
+
+  /**
+   * ORDER_COLLECTING / SEAMLESS_ADDITION: clarification answer for an addition to an active order
+   */
+  private async handleSeamlessAdditionReply(ctx: FlowContext): Promise<ConversationPhase> {
+    const { tenantId, conversationId, message, conversation } = ctx;
+    const text = normalizeTr(message.text || '');
+
+    const parentOrderId = parseFlowMetadata(conversation.flowMetadata).parentOrderId as string;
 
-        // No items extracted — clear sub-state and go to IDLE
+    if (parentOrderId && message.kind === 'TEXT' && text) {
+      // Check if user is confirming/acknowledging the addition (e.g. "tamamdır", "tamam", "ok")
+      // Don't send to NLU - just acknowledge and clear sub-state
+      if (this.matchesKeyword(text, CONFIRM_KEYWORDS)) {
         await prisma.conversation.update({
           where: { id: conversationId },
           data: { flowSubState: null, flowMetadata: null },
         });
-        await inboxService.updateConversationPhase(tenantId, conversationId, 'IDLE', null);
-        await this.sendText(ctx, TEMPLATES.greeting);
-        return 'IDLE';
+        await this.sendText(ctx, this.t(ctx).additionNoteSaved);
+        return 'ORDER_COLLECTING';
       }
-    }
 
-    // Handle confirm/cancel buttons from order summary
-    if (buttonId === 'confirm_order') {
-      return this.handleOrderConfirm(ctx);
-    }
-    if (buttonId === 'cancel_order') {
-      await this.cancelActiveOrder(ctx);
-      await this.sendText(ctx, TEMPLATES.orderCancelled);
+      // Check if user wants to cancel/undo the addition
+      if (this.matchesKeyword(text, CANCEL_KEYWORDS)) {
+        await prisma.conversation.update({
+          where: { id: conversationId },
+          data: { flowSubState: null, flowMetadata: null },
+        });
+        await this.sendText(ctx, this.t(ctx).additionCancelled);
+        return 'ORDER_COLLECTING';
+      }
+
+      const addResult = await this.processWithNlu(ctx, text);
+
+      if (addResult.draftOrderId && addResult.itemsExtracted) {
+        const activeOrder = await orderService.getOrder(tenantId, parentOrderId);
+        if (activeOrder) {
+          await prisma.conversation.update({
+            where: { id: conversationId },
+            data: { flowSubState: null, flowMetadata: null },
+          });
+          return this.handleSeamlessAddition(ctx, activeOrder, addResult.draftOrderId);
+        }
+      }
+
+      if (addResult.clarificationQuestion) {
+        await this.sendText(ctx, addResult.clarificationQuestion);
+        return 'ORDER_COLLECTING';
+      }
+
+      // No items extracted — clear sub-state and go to IDLE
+      await prisma.conversation.update({
+        where: { id: conversationId },
+        data: { flowSubState: null, flowMetadata: null },
+      });
+      await inboxService.updateConversationPhase(tenantId, conversationId, 'IDLE', null);
+      await this.sendText(ctx, this.t(ctx).greeting);
       return 'IDLE';
     }
 
+    // Empty text — treat as a regular collecting message
+    return this.handleOrderCollecting(ctx);
+  }
+
+  /**
+   * ORDER_COLLECTING: Items being added to cart. Listen for more items or confirmation.
+   */
+  private async handleOrderCollecting(ctx: FlowContext): Promise<ConversationPhase> {
+    const { tenantId, conversationId, message } = ctx;
+    const text = normalizeTr(message.text || '');
+
     // Adim 10: Faz-mesaj turu uyumsuzlugu
     if (message.kind === 'LOCATION') {
-      await this.sendText(ctx, 'Once siparisi onaylayin, sonra konum isteyecegiz.');
+      await this.sendText(ctx, this.t(ctx).locationBeforeConfirm);
       return 'ORDER_COLLECTING';
     }
 
     if (message.kind !== 'TEXT' || !text) {
-      // Voice messages: try transcription with Whisper
+      // Voice messages: transcribe and re-process as text
       if (message.kind === 'VOICE') {
-        const voiceId = (message.payloadJson as any)?.voiceId;
-        if (voiceId && whisperService.isAvailable()) {
-          const transcribed = await whisperService.transcribeVoiceMessage(tenantId, voiceId);
-          if (transcribed) {
-            const fakeTextMessage = { ...message, kind: 'TEXT' as const, text: transcribed };
-            const fakeCtx = { ...ctx, message: fakeTextMessage };
-            return this.handleOrderCollecting(fakeCtx);
-          }
+        const transcribed = await this.transcribeVoice(ctx);
+        if (transcribed) {
+          const fakeTextMessage = { ...message, kind: 'TEXT' as const, text: transcribed };
+          const fakeCtx = { ...ctx, message: fakeTextMessage };
+          return this.handleOrderCollecting(fakeCtx);
         }
-        await this.sendText(ctx, 'Sesli mesajinizi isleyemedim. Urun adini yazarak siparis verebilirsiniz.');
+        await this.sendText(ctx, this.t(ctx).voiceNotProcessed);
         return 'ORDER_COLLECTING';
       }
       if (message.kind === 'IMAGE') {
-        await this.sendText(ctx, 'Gorsel mesaj isleyemiyorum. Urun adini yazarak siparis verebilirsiniz.');
+        return this.handleImageOrder(ctx);
       }
       return 'ORDER_COLLECTING';
     }
@@ -861,15 +949,15 @@ export class ConversationFlowService {
     // "salata iptal" gibi urun+iptal ifadelerini NLU'ya gonder (urun cikarma)
     if (this.isFullCancelIntent(text)) {
       await this.cancelActiveOrder(ctx);
-      await this.sendText(ctx, TEMPLATES.orderCancelled);
+      await this.sendText(ctx, this.t(ctx).orderCancelled);
       return 'IDLE';
     }
 
-    // Menu request — show menu media without touching the order
+    // Menu request — show the menu without touching the order
     if (this.matchesKeyword(text, MENU_KEYWORDS)) {
-      const sent = await this.sendMenuMedia(ctx);
+      const sent = await this.sendMenu(ctx);
       if (!sent) {
-        await this.sendText(ctx, TEMPLATES.menuNotAvailable);
+        await this.sendText(ctx, this.t(ctx).menuNotAvailable);
       }
       return 'ORDER_COLLECTING';
     }
@@ -878,7 +966,7 @@ export class ConversationFlowService {
     if (this.matchesKeyword(text, CONFIRM_KEYWORDS)) {
       const order = await this.getActiveOrder(ctx);
       if (order && order.items.length > 0) {
-        const summary = this.buildOrderSummary(order);
+        const summary = this.buildOrderSummary(ctx, order);
         await this.sendOrderConfirmButtons(ctx, summary);
         return 'ORDER_REVIEW';
       }
@@ -887,9 +975,7 @@ export class ConversationFlowService {
     }
 
     // Try adding more items via NLU
-    const result = await nluOrchestratorService.processMessage(
-      tenantId, conversationId, message.id, text,
-    );
+    const result = await this.processWithNlu(ctx, text);
 
     if (result.draftOrderId) {
       // Update active order reference
@@ -920,35 +1006,37 @@ export class ConversationFlowService {
    * ORDER_REVIEW: Order summary shown with buttons, waiting for confirm/cancel/edit.
    */
   private async handleOrderReview(ctx: FlowContext): Promise<ConversationPhase> {
-    const { tenantId, conversationId, message, conversation, payload } = ctx;
+    const { tenantId, conversationId, message, conversation } = ctx;
     const text = normalizeTr(message.text || '');
-    const buttonId = payload.interactive?.buttonReply?.id;
 
-    // Handle UPSELL_OFFERED sub-state
-    if (conversation.flowSubState === 'UPSELL_OFFERED') {
-      return this.handleUpsellResponse(ctx, text, buttonId);
+    // Confirm/cancel buttons are routed by the transition table; text confirm lands here
+    if (this.isConfirmIntent(text)) {
+      return this.handleOrderConfirm(ctx);
     }
 
-    // Handle confirm button
-    if (buttonId === 'confirm_order' || this.isConfirmIntent(text)) {
-      return this.handleOrderConfirm(ctx);
+    if (message.kind !== 'TEXT' || !text) {
+      return 'ORDER_REVIEW';
     }
 
-    // Handle cancel button
-    if (buttonId === 'cancel_order') {
-      await this.cancelActiveOrder(ctx);
-      await this.sendText(ctx, TEMPLATES.orderCancelled);
-      return 'IDLE';
+    // Loyalty: spend points / a full stamp card, or just ask for the balance
+    if (this.matchesKeyword(text, LOYALTY_REDEEM_KEYWORDS)) {
+      await this.applyLoyalty(ctx);
+      return 'ORDER_REVIEW';
+    }
+    if (this.matchesKeyword(text, LOYALTY_BALANCE_KEYWORDS)) {
+      await this.sendLoyaltyBalance(ctx);
+      return 'ORDER_REVIEW';
     }
 
-    if (message.kind !== 'TEXT' || !text) {
+    // Promo code typed on the summary (checked first so a code is never read as an item)
+    if (await this.tryApplyCoupon(ctx, message.text || '')) {
       return 'ORDER_REVIEW';
     }
 
     // Cancel — only full order cancel; "X iptal" goes to NLU for item removal
     if (this.isFullCancelIntent(text)) {
       await this.cancelActiveOrder(ctx);
-      await this.sendText(ctx, TEMPLATES.orderCancelled);
+      await this.sendText(ctx, this.t(ctx).orderCancelled);
       return 'IDLE';
     }
 
@@ -968,9 +1056,7 @@ export class ConversationFlowService {
       })) || [];
 
       // Pass to NLU for item removal, then show updated summary
-      const result = await nluOrchestratorService.processMessage(
-        tenantId, conversationId, message.id, text,
-      );
+      const result = await this.processWithNlu(ctx, text);
 
       const order = await this.getActiveOrder(ctx);
       if (order && order.items.length > 0) {
@@ -978,7 +1064,7 @@ export class ConversationFlowService {
         if (result.confirmationMessage) {
           await this.sendText(ctx, result.confirmationMessage);
         }
-        const summary = this.buildOrderSummary(order);
+        const summary = this.buildOrderSummary(ctx, order);
         await this.sendOrderConfirmButtons(ctx, summary);
         return 'ORDER_REVIEW';
       }
@@ -1026,8 +1112,8 @@ export class ConversationFlowService {
           tenantId, conversationId, 'ORDER_REVIEW', restoredOrder.id,
         );
 
-        await this.sendText(ctx, 'Hangi urunu siparisinizden cikaralim? Lutfen urun adini belirtin.');
-        const summary = this.buildOrderSummary(restoredOrder);
+        await this.sendText(ctx, this.t(ctx).askItemToRemove);
+        const summary = this.buildOrderSummary(ctx, restoredOrder);
         await this.sendOrderConfirmButtons(ctx, summary);
         return 'ORDER_REVIEW';
       }
@@ -1036,35 +1122,33 @@ export class ConversationFlowService {
       if (result.confirmationMessage) {
         await this.sendText(ctx, result.confirmationMessage);
       }
-      await this.sendText(ctx, TEMPLATES.orderCancelled);
+      await this.sendText(ctx, this.t(ctx).orderCancelled);
       return 'IDLE';
     }
 
     // Edit -> back to collecting
     if (this.matchesKeyword(text, EDIT_KEYWORDS)) {
-      await this.sendText(ctx, 'Siparisinizi degistirmek icin yeni urun yazin veya "iptal" yazin.');
+      await this.sendText(ctx, this.t(ctx).editOrderPrompt);
       return 'ORDER_COLLECTING';
     }
 
-    // Menu request — show menu media without touching the order
+    // Menu request — show the menu without touching the order
     if (this.matchesKeyword(text, MENU_KEYWORDS)) {
-      const sent = await this.sendMenuMedia(ctx);
+      const sent = await this.sendMenu(ctx);
       if (!sent) {
-        await this.sendText(ctx, TEMPLATES.menuNotAvailable);
+        await this.sendText(ctx, this.t(ctx).menuNotAvailable);
       }
       // Re-send current order summary with buttons
       const order = await this.getActiveOrder(ctx);
       if (order && order.items.length > 0) {
-        const summary = this.buildOrderSummary(order);
+        const summary = this.buildOrderSummary(ctx, order);
         await this.sendOrderConfirmButtons(ctx, summary);
       }
       return 'ORDER_REVIEW';
     }
 
     // Default: treat as new product or note — pass to NLU
-    const result = await nluOrchestratorService.processMessage(
-      tenantId, conversationId, message.id, text,
-    );
+    const result = await this.processWithNlu(ctx, text);
 
     if (result.draftOrderId) {
       await inboxService.updateConversationPhase(
@@ -1081,7 +1165,7 @@ export class ConversationFlowService {
       await this.sendText(ctx, result.clarificationQuestion);
       const order = await this.getActiveOrder(ctx);
       if (order && order.items.length > 0) {
-        const summary = this.buildOrderSummary(order);
+        const summary = this.buildOrderSummary(ctx, order);
         await this.sendOrderConfirmButtons(ctx, summary);
       }
       return 'ORDER_REVIEW';
@@ -1090,12 +1174,29 @@ export class ConversationFlowService {
     // NLU couldn't parse — re-send existing order
     const existingOrder = await this.getActiveOrder(ctx);
     if (existingOrder && existingOrder.items.length > 0) {
-      const summary = this.buildOrderSummary(existingOrder);
+      const summary = this.buildOrderSummary(ctx, existingOrder);
       await this.sendOrderConfirmButtons(ctx, summary);
     }
     return 'ORDER_REVIEW';
   }
 
+  /**
+   * Cancel the draft order (confirm/cancel buttons on the order summary)
+   */
+  private async handleOrderCancel(ctx: FlowContext): Promise<ConversationPhase> {
+    await this.cancelActiveOrder(ctx);
+    await this.sendText(ctx, this.t(ctx).orderCancelled);
+    return 'IDLE';
+  }
+
+  /**
+   * ORDER_REVIEW / UPSELL_OFFERED: customer answers the upsell suggestion
+   */
+  private async handleUpsellOffer(ctx: FlowContext): Promise<ConversationPhase> {
+    const text = normalizeTr(ctx.message.text || '');
+    return this.handleUpsellResponse(ctx, text, ctx.payload.interactive?.buttonReply?.id);
+  }
+
   /**
    * Handle order confirmation (from button or text)
    */
@@ -1104,7 +1205,7 @@ export class ConversationFlowService {
 
     const order = await this.getActiveOrder(ctx);
     if (!order || order.items.length === 0) {
-      await this.sendText(ctx, TEMPLATES.orderEmpty);
+      await this.sendText(ctx, this.t(ctx).orderEmpty);
       return 'IDLE';
     }
 
@@ -1119,6 +1220,11 @@ export class ConversationFlowService {
       return 'PAYMENT_METHOD_SELECTION';
     }
 
+    // Pre-orders: a closed restaurant needs a time, a chosen time must still be free
+    if (await this.needsPreOrderTime(ctx, order)) {
+      return 'ORDER_REVIEW';
+    }
+
     // Try upsell before proceeding to address/location
     try {
       const suggestion = await upsellService.getSuggestion(
@@ -1142,7 +1248,7 @@ export class ConversationFlowService {
           },
         });
 
-        const tmpl = TEMPLATES.upsellButtons(suggestion.price);
+        const tmpl = this.t(ctx).upsellButtons(suggestion.price);
         await whatsappService.sendInteractiveButtons(
           tenantId,
           conversationId,
@@ -1200,8 +1306,14 @@ export class ConversationFlowService {
           where: { id: order.id },
           data: { totalPrice: newTotal },
         });
+        if (order.couponId) {
+          await couponService.repriceOrder(tenantId, order.id);
+        }
+        if (order.loyaltyPointsUsed > 0 || order.loyaltyStampsUsed > 0) {
+          await loyaltyService.repriceOrder(tenantId, order.id);
+        }
 
-        await this.sendText(ctx, `✅ ${upsellMeta.upsellItemName} sepete eklendi!`);
+        await this.sendText(ctx, this.t(ctx).upsellAdded(upsellMeta.upsellItemName));
 
         // Log upsell event
         await upsellService.logEvent(
@@ -1222,7 +1334,7 @@ export class ConversationFlowService {
       }
     } else {
       // Unrecognized response — remind
-      await this.sendText(ctx, 'Lutfen butonlardan birini secin.');
+      await this.sendText(ctx, this.t(ctx).chooseButton);
       return 'ORDER_REVIEW';
     }
 
@@ -1246,7 +1358,7 @@ export class ConversationFlowService {
     const favorites = await reorderService.getFavorites(tenantId, conversation.customerPhone, 10);
 
     if (favorites.length === 0) {
-      await this.sendText(ctx, TEMPLATES.noFavoritesYet);
+      await this.sendText(ctx, this.t(ctx).noFavoritesYet);
       return 'IDLE';
     }
 
@@ -1255,10 +1367,10 @@ export class ConversationFlowService {
     await whatsappService.sendListMessage(
       tenantId,
       conversationId,
-      TEMPLATES.favoritesListHeader(favorites.length),
-      TEMPLATES.favoritesListButton,
+      this.t(ctx).favoritesListHeader(favorites.length),
+      this.t(ctx).favoritesListButton,
       sections,
-      TEMPLATES.favoritesListHeaderText,
+      this.t(ctx).favoritesListHeaderText,
     );
 
     await prisma.conversation.update({
@@ -1291,29 +1403,255 @@ export class ConversationFlowService {
         tenantId, conversationId, 'ORDER_COLLECTING', result.orderId,
       );
 
-      await this.sendText(ctx, TEMPLATES.orderItemAdded(result.itemName, 1));
-      await this.sendText(ctx, 'Baska urun eklemek icin yazin veya "evet" ile onaylayin.');
+      await this.sendText(ctx, this.t(ctx).orderItemAdded(result.itemName, 1));
+      await this.sendText(ctx, this.t(ctx).addMoreOrConfirm);
 
       return 'ORDER_COLLECTING';
     } catch (error) {
       logger.error({ error, tenantId, menuItemId }, 'Failed to add favorite to order');
-      await this.sendText(ctx, 'Bu urun su anda musait degil. Baska bir urun denemek ister misiniz?');
+      await this.sendText(ctx, this.t(ctx).itemUnavailable);
       return 'IDLE';
     }
   }
 
+  // ==================== MENU BROWSE ====================
+
   /**
-   * Show delivery type selection buttons (Gel Al / Paket Servis)
+   * Interactive menu replies (mb_* rows and buttons): category pages, item
+   * pages, item card, menu media, or "add to cart"
+   */
+  private async handleMenuBrowse(ctx: FlowContext): Promise<ConversationPhase> {
+    const { tenantId, conversationId } = ctx;
+    const phase = (ctx.conversation.phase as ConversationPhase) || 'IDLE';
+    const t = this.t(ctx);
+    const reply = menuBrowseService.parseReplyId(
+      ctx.payload.interactive?.listReply?.id ?? ctx.payload.interactive?.buttonReply?.id,
+    );
+
+    switch (reply?.kind) {
+      case 'add':
+        return this.addMenuSelections(ctx, [{ menuItemId: reply.menuItemId, qty: 1 }]);
+
+      case 'item': {
+        const detail = await menuBrowseService.getItemDetail(
+          tenantId, t, ctx.conversation.language, reply.menuItemId,
+        );
+        if (!detail) {
+          await this.sendText(ctx, t.itemUnavailable);
+          break;
+        }
+        await whatsappService.sendInteractiveButtons(tenantId, conversationId, detail.text, [
+          { id: menuBrowseService.addId(detail.menuItemId), title: t.menuBrowseAddButton.substring(0, 20) },
+          { id: menuBrowseService.categoryId(detail.categoryIndex), title: t.menuBrowseBackButton.substring(0, 20) },
+          { id: menuBrowseService.categoriesId(), title: t.menuBrowseButton.substring(0, 20) },
+        ]);
+        break;
+      }
+
+      case 'category': {
+        const items = await menuBrowseService.getItemList(
+          tenantId, t, ctx.conversation.language, reply.index, reply.page,
+        );
+        if (items) {
+          await whatsappService.sendListMessage(
+            tenantId,
+            conversationId,
+            t.menuBrowseItemsIntro(items.category),
+            t.menuBrowseItemsButton,
+            [{ title: items.list.sectionTitle, rows: items.list.rows }],
+          );
+        } else if (!(await this.sendMenuCategories(ctx, 0))) {
+          // Menu changed since the list was sent and is now empty
+          await this.sendText(ctx, t.menuNotAvailable);
+        }
+        break;
+      }
+
+      case 'media':
+        if (!(await this.sendMenuMedia(ctx))) {
+          await this.sendText(ctx, t.menuNotAvailable);
+        }
+        break;
+
+      default:
+        if (!(await this.sendMenuCategories(ctx, reply?.kind === 'categories' ? reply.page : 0))) {
+          await this.sendText(ctx, t.menuNotAvailable);
+        }
+    }
+
+    return phase;
+  }
+
+  /**
+   * Cart sent from a Meta catalog product list
+   */
+  private async handleCatalogOrder(ctx: FlowContext): Promise<ConversationPhase> {
+    const phase = (ctx.conversation.phase as ConversationPhase) || 'IDLE';
+    const items = ctx.payload.order
+      ? await menuBrowseService.resolveCatalogOrder(ctx.tenantId, ctx.payload.order)
+      : [];
+
+    if (items.length === 0) {
+      await this.sendText(ctx, this.t(ctx).catalogOrderUnmatched);
+      return phase;
+    }
+    return this.addMenuSelections(ctx, items);
+  }
+
+  /**
+   * Put items picked from the menu lists or a catalog cart into the draft
+   * order through the same path as NLU extraction. From IDLE, a recently
+   * confirmed order is extended instead (seamless addition).
+   */
+  private async addMenuSelections(
+    ctx: FlowContext,
+    items: DraftItemSelection[],
+  ): Promise<ConversationPhase> {
+    const phase = (ctx.conversation.phase as ConversationPhase) || 'IDLE';
+    if (phase === 'IDLE' && (await this.replyIfClosed(ctx))) {
+      return 'IDLE';
+    }
+
+    const result = await nluOrchestratorService.addMenuItemsToDraft(
+      ctx.tenantId, ctx.conversationId, items,
+    );
+    if (!result.draftOrderId) {
+      await this.sendText(ctx, this.t(ctx).itemUnavailable);
+      return phase;
+    }
+
+    if (phase === 'IDLE') {
+      const parentOrder = await this.findSeamlessParentOrder(ctx);
+      if (parentOrder) {
+        return this.handleSeamlessAddition(ctx, parentOrder, result.draftOrderId);
+      }
+    }
+
+    return (await this.presentDraftUpdate(ctx, result)) ?? phase;
+  }
+
+  // ==================== VOICE ORDERS ====================
+
+  /**
+   * Transcribe a voice message (transcript is kept on the message for the
+   * inbox). A low-confidence transcript is echoed back so the customer can
+   * correct it before the order goes wrong.
+   */
+  private async transcribeVoice(ctx: FlowContext): Promise<string | null> {
+    if (!whisperService.isAvailable()) return null;
+    const transcript = await whisperService.transcribeMessage(ctx.tenantId, ctx.message);
+    if (!transcript) return null;
+
+    if (transcript.lowConfidence) {
+      await this.sendText(ctx, this.t(ctx).voiceTranscriptUnsure(transcript.text));
+    }
+    return transcript.text;
+  }
+
+  // ==================== IMAGE ORDERS ====================
+
+  /**
+   * Order screenshot or handwritten list: read its text, run it through the
+   * NLU without touching the order and ask the customer to confirm the items
+   */
+  private async handleImageOrder(ctx: FlowContext): Promise<ConversationPhase> {
+    const { tenantId, conversationId, message } = ctx;
+    const phase = (ctx.conversation.phase as ConversationPhase) || 'IDLE';
+    const t = this.t(ctx);
+
+    const imageId = (message.payloadJson as any)?.imageId;
+    if (!imageId || !visionService.isAvailable()) {
+      await this.sendText(ctx, t.imageNotSupported);
+      return phase;
+    }
+    if (phase === 'IDLE' && (await this.replyIfClosed(ctx))) {
+      return 'IDLE';
+    }
+
+    const imageText = await visionService.extractImageText(tenantId, imageId);
+    if (!imageText) {
+      await this.sendText(ctx, t.imageNotRead);
+      return phase;
+    }
+
+    // The caption ("2 tane bundan") belongs to the order text
+    const caption = ctx.payload.image?.caption?.trim();
+    const result = await nluOrchestratorService.processMessage(
+      tenantId,
+      conversationId,
+      message.id,
+      caption ? `${caption}\n${imageText}` : imageText,
+      { previewOnly: true },
+    );
+    const items = result.previewItems ?? [];
+    if (items.length === 0) {
+      await this.sendText(ctx, t.imageNoItems);
+      return phase;
+    }
+
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        flowSubState: 'IMAGE_ITEMS_PENDING',
+        flowMetadata: JSON.stringify({ imageItems: items }),
+      },
+    });
+
+    const summary = items
+      .map((item) => {
+        const options = (item.optionSelections ?? []).map((o) => o.optionName);
+        return `• ${item.qty}x ${item.name}${options.length > 0 ? ` (${options.join(', ')})` : ''}`;
+      })
+      .join('\n');
+    await whatsappService.sendInteractiveButtons(
+      tenantId,
+      conversationId,
+      t.imageItemsConfirm(summary),
+      t.imageItemsButtons.buttons,
+    );
+    return phase;
+  }
+
+  /**
+   * IMAGE_ITEMS_PENDING: add or discard the items read from an image.
+   * Anything else drops the preview and is handled as a normal message.
+   */
+  private async handleImageItemsReply(ctx: FlowContext): Promise<ConversationPhase> {
+    const phase = (ctx.conversation.phase as ConversationPhase) || 'IDLE';
+    const buttonId = ctx.payload.interactive?.buttonReply?.id;
+    const text = normalizeTr(ctx.message.text || '');
+    const accepted = buttonId === 'image_items_add' || ['evet', 'ekle', 'tamam'].includes(text);
+    const rejected = buttonId === 'image_items_cancel' || ['hayir', 'vazgec'].includes(text);
+    const items = parseFlowMetadata(ctx.conversation.flowMetadata).imageItems as
+      | DraftItemSelection[]
+      | undefined;
+
+    await prisma.conversation.update({
+      where: { id: ctx.conversationId },
+      data: { flowSubState: null, flowMetadata: null },
+    });
+    ctx.conversation.flowSubState = null;
+    ctx.conversation.flowMetadata = null;
+
+    if (accepted && items?.length) {
+      return this.addMenuSelections(ctx, items);
+    }
+    if (rejected) {
+      await this.sendText(ctx, this.t(ctx).imageItemsDiscarded);
+      return phase;
+    }
+    return phase === 'IDLE' ? this.handleIdle(ctx) : this.handleOrderCollecting(ctx);
+  }
+
+  /**
+   * Show delivery type selection buttons (Gel Al / Paket Servis)
    */
   private async proceedToDeliveryTypeSelection(ctx: FlowContext): Promise<ConversationPhase> {
     await whatsappService.sendInteractiveButtons(
       ctx.tenantId,
       ctx.conversationId,
-      'Siparişinizi nasıl almak istersiniz?',
-      [
-        { id: 'delivery_type_pickup', title: 'Gel Al' },
-        { id: 'delivery_type_delivery', title: 'Paket Servis' },
-      ],
+      this.t(ctx).deliveryTypeAsk,
+      this.t(ctx).deliveryTypeButtons.buttons,
     );
     return 'DELIVERY_TYPE_SELECTION';
   }
@@ -1328,14 +1666,14 @@ export class ConversationFlowService {
 
     const order = await this.getActiveOrder(ctx);
     if (!order || order.items.length === 0) {
-      await this.sendText(ctx, TEMPLATES.orderEmpty);
+      await this.sendText(ctx, this.t(ctx).orderEmpty);
       return 'IDLE';
     }
 
     // Cancel
     if (this.matchesKeyword(text, CANCEL_KEYWORDS)) {
       await this.cancelActiveOrder(ctx);
-      await this.sendText(ctx, TEMPLATES.orderCancelled);
+      await this.sendText(ctx, this.t(ctx).orderCancelled);
       return 'IDLE';
     }
 
@@ -1359,11 +1697,11 @@ export class ConversationFlowService {
         await prisma.order.update({ where: { id: order.id }, data: updateData });
         await this.sendText(
           ctx,
-          `Gel al secildi! %${tenant.pickupDiscountPercent} indirim uygulandı (${discountAmount.toFixed(2)} TL indirim). Yeni toplam: ${newTotal.toFixed(2)} TL`,
+          this.t(ctx).pickupDiscountApplied(tenant.pickupDiscountPercent, discountAmount, newTotal),
         );
       } else {
         await prisma.order.update({ where: { id: order.id }, data: updateData });
-        await this.sendText(ctx, 'Gel al secildi!');
+        await this.sendText(ctx, this.t(ctx).pickupSelected);
       }
 
       // Skip address flow — go directly to payment
@@ -1393,11 +1731,8 @@ export class ConversationFlowService {
     await whatsappService.sendInteractiveButtons(
       ctx.tenantId,
       ctx.conversationId,
-      'Lutfen "Gel Al" veya "Paket Servis" seceneklerinden birini secin:',
-      [
-        { id: 'delivery_type_pickup', title: 'Gel Al' },
-        { id: 'delivery_type_delivery', title: 'Paket Servis' },
-      ],
+      this.t(ctx).deliveryTypeRetry,
+      this.t(ctx).deliveryTypeButtons.buttons,
     );
     return 'DELIVERY_TYPE_SELECTION';
   }
@@ -1434,16 +1769,16 @@ export class ConversationFlowService {
       }));
       rows.push({
         id: 'new_address',
-        title: TEMPLATES.newAddressRowTitle,
-        description: TEMPLATES.newAddressRowDescription,
+        title: this.t(ctx).newAddressRowTitle,
+        description: this.t(ctx).newAddressRowDescription,
       });
 
       await whatsappService.sendListMessage(
         tenantId,
         conversationId,
-        TEMPLATES.savedAddressListHeader,
-        TEMPLATES.savedAddressListButton,
-        [{ title: 'Adresler', rows }],
+        this.t(ctx).savedAddressListHeader,
+        this.t(ctx).savedAddressListButton,
+        [{ title: this.t(ctx).savedAddressSectionTitle, rows }],
       );
       return 'ADDRESS_SELECTION';
     }
@@ -1451,7 +1786,7 @@ export class ConversationFlowService {
     await whatsappService.sendLocationRequest(
       tenantId,
       conversationId,
-      TEMPLATES.locationRequest,
+      this.t(ctx).locationRequest,
     );
     return 'LOCATION_REQUEST';
   }
@@ -1464,15 +1799,20 @@ export class ConversationFlowService {
 
     // Location message received
     if (message.kind === 'LOCATION' && payload.location?.latitude && payload.location?.longitude) {
-      // Geo check was already done in whatsapp.service.ts (stored in conversation)
-      const geoCheck = await inboxService.getConversationGeoCheck(tenantId, conversationId);
+      // Geo check was already done in whatsapp.service.ts (stored in conversation),
+      // against stores open now; a pre-order is checked again against its slot
+      const scheduledFor = (await this.getActiveOrder(ctx))?.scheduledFor ?? null;
+      const geoCheck = scheduledFor
+        ? null
+        : await inboxService.getConversationGeoCheck(tenantId, conversationId);
 
       if (!geoCheck) {
         // Fallback: run geo check here
-        const result = await geoService.checkServiceArea(tenantId, {
-          lat: payload.location.latitude,
-          lng: payload.location.longitude,
-        });
+        const result = await geoService.checkServiceArea(
+          tenantId,
+          { lat: payload.location.latitude, lng: payload.location.longitude },
+          scheduledFor,
+        );
         await inboxService.updateConversationGeoCheck(tenantId, conversationId, result);
         return this.processGeoResult(ctx, result);
       }
@@ -1484,13 +1824,13 @@ export class ConversationFlowService {
     const text = normalizeTr(message.text || '');
     if (this.matchesKeyword(text, CANCEL_KEYWORDS)) {
       await this.cancelActiveOrder(ctx);
-      await this.sendText(ctx, TEMPLATES.orderCancelled);
+      await this.sendText(ctx, this.t(ctx).orderCancelled);
       return 'IDLE';
     }
 
     // Adim 10: IMAGE gonderdiyse konum hatirlatmasi
     if (message.kind === 'IMAGE') {
-      await this.sendText(ctx, 'Gorsel degil, konum pininizi gonderin. WhatsApp\'ta ek ikonundan "Konum" secenegini kullanin.');
+      await this.sendText(ctx, this.t(ctx).locationImageInsteadOfPin);
       return 'LOCATION_REQUEST';
     }
 
@@ -1498,7 +1838,7 @@ export class ConversationFlowService {
     if (text) {
       const added = await this.tryMidFlowAddition(ctx, text);
       if (added) {
-        await this.sendText(ctx, TEMPLATES.reminderSendLocation);
+        await this.sendText(ctx, this.t(ctx).reminderSendLocation);
         return 'LOCATION_REQUEST';
       }
     }
@@ -1508,15 +1848,9 @@ export class ConversationFlowService {
     const prevGeoCheck = await inboxService.getConversationGeoCheck(tenantId, conversationId);
     if (prevGeoCheck && !prevGeoCheck.isWithinServiceArea) {
       // Customer was told they're out of service area, they might be typing a text address
-      await this.sendText(
-        ctx,
-        'Yazili adres kabul edemiyoruz, hizmet alanimizi kontrol etmemiz icin konum pininize ihtiyacimiz var.\n\n' +
-        'Farkli bir konumdan gondermek icin:\n' +
-        '📎 simgesine tiklayip > *Konum* secenegini kullanin.\n\n' +
-        'Siparisi iptal etmek icin "iptal" yazin.',
-      );
+      await this.sendText(ctx, this.t(ctx).typedAddressNotAccepted);
     } else {
-      await this.sendText(ctx, TEMPLATES.reminderSendLocation);
+      await this.sendText(ctx, this.t(ctx).reminderSendLocation);
     }
     return 'LOCATION_REQUEST';
   }
@@ -1525,28 +1859,22 @@ export class ConversationFlowService {
    * PAYMENT_METHOD_SELECTION: Buttons sent, waiting for Nakit/Kart selection.
    */
   private async handlePaymentMethodSelection(ctx: FlowContext): Promise<ConversationPhase> {
-    const { tenantId, conversationId, message, payload, conversation } = ctx;
+    const { message } = ctx;
     const text = normalizeTr(message.text || '');
 
-    // Interactive button reply
-    const buttonId = payload.interactive?.buttonReply?.id;
-
-    if (buttonId === 'pay_cash' || this.matchesKeyword(text, CASH_KEYWORDS)) {
+    // Payment buttons are routed by the transition table; typed keywords land here
+    if (this.matchesKeyword(text, CASH_KEYWORDS)) {
       return this.handleCashPayment(ctx);
     }
 
-    if (buttonId === 'pay_card_door') {
-      return this.handleCardDoorPayment(ctx);
-    }
-
-    if (buttonId === 'pay_card_online' || buttonId === 'pay_card' || this.matchesKeyword(text, CARD_KEYWORDS)) {
+    if (this.matchesKeyword(text, CARD_KEYWORDS)) {
       return this.handleCardPayment(ctx);
     }
 
     // Cancel
     if (this.matchesKeyword(text, CANCEL_KEYWORDS)) {
       await this.cancelActiveOrder(ctx);
-      await this.sendText(ctx, TEMPLATES.orderCancelled);
+      await this.sendText(ctx, this.t(ctx).orderCancelled);
       return 'IDLE';
     }
 
@@ -1585,7 +1913,7 @@ export class ConversationFlowService {
     // Cancel
     if (this.matchesKeyword(text, CANCEL_KEYWORDS)) {
       await this.cancelActiveOrder(ctx);
-      await this.sendText(ctx, TEMPLATES.orderCancelled);
+      await this.sendText(ctx, this.t(ctx).orderCancelled);
       return 'IDLE';
     }
 
@@ -1594,19 +1922,19 @@ export class ConversationFlowService {
       ? await orderPaymentService.getPendingPayment(tenantId, conversation.activeOrderId)
       : null;
 
-    if (pendingPayment?.checkoutFormUrl) {
+    if (pendingPayment?.checkoutUrl) {
       // Adim 11: Odeme linki suresi dolmus mu kontrol et
       const paymentCreatedAt = pendingPayment.createdAt ? new Date(pendingPayment.createdAt).getTime() : 0;
       const now = Date.now();
 
       if (paymentCreatedAt && (now - paymentCreatedAt) > PAYMENT_LINK_EXPIRY_MS) {
         // Odeme linki suresi dolmus - tekrar secim yap
-        await this.sendText(ctx, 'Odeme linkinin suresi doldu. Lutfen odeme yontemini tekrar secin.');
+        await this.sendText(ctx, this.t(ctx).paymentLinkExpired);
         await this.sendPaymentButtons(ctx);
         return 'PAYMENT_METHOD_SELECTION';
       }
 
-      await this.sendText(ctx, TEMPLATES.reminderPayment(pendingPayment.checkoutFormUrl));
+      await this.sendText(ctx, this.t(ctx).reminderPayment(pendingPayment.checkoutUrl));
     } else {
       await this.sendPaymentButtons(ctx);
       return 'PAYMENT_METHOD_SELECTION';
@@ -1619,19 +1947,10 @@ export class ConversationFlowService {
    * ORDER_CONFIRMED: Order done. New message starts fresh.
    */
   private async handleOrderConfirmed(ctx: FlowContext): Promise<ConversationPhase> {
-    const { tenantId, conversationId, conversation, message, payload } = ctx;
+    const { tenantId, conversationId, conversation, message } = ctx;
     const subState = conversation.flowSubState;
 
-    // Handle survey sub-states
-    if (subState === 'SURVEY_RATING') {
-      return this.handleSurveyRating(ctx);
-    }
-    if (subState === 'SURVEY_COMMENT') {
-      return this.handleSurveyComment(ctx);
-    }
-    if (subState === 'BROADCAST_OPT_IN_ASKED') {
-      return this.handleBroadcastOptInResponse(ctx);
-    }
+    // Survey and broadcast opt-in sub-states are routed by the transition table
 
     // Payment change pending: customer sent a payment link, waiting for iyzico callback
     if (subState === 'PAYMENT_CHANGE_PENDING') {
@@ -1642,15 +1961,15 @@ export class ConversationFlowService {
           where: { id: conversationId },
           data: { flowSubState: null },
         });
-        await this.sendText(ctx, 'Online odeme iptal edildi. Mevcut odeme yonteminiz gecerlidir. ✅');
+        await this.sendText(ctx, this.t(ctx).paymentChangeCancelled);
         return 'ORDER_CONFIRMED';
       }
       // Remind about payment link
       const orderId = conversation.activeOrderId;
       if (orderId) {
         const pendingPayment = await orderPaymentService.getPendingPayment(tenantId, orderId);
-        if (pendingPayment?.checkoutFormUrl) {
-          await this.sendText(ctx, TEMPLATES.reminderPayment(pendingPayment.checkoutFormUrl));
+        if (pendingPayment?.checkoutUrl) {
+          await this.sendText(ctx, this.t(ctx).reminderPayment(pendingPayment.checkoutUrl));
           return 'ORDER_CONFIRMED';
         }
       }
@@ -1675,19 +1994,21 @@ export class ConversationFlowService {
         const cancelableStatuses = ['PENDING_CONFIRMATION'];
         if (cancelableStatuses.includes(order.status)) {
           // Order is still waiting for restaurant — allow cancel
-          await prisma.order.update({
-            where: { id: order.id },
-            data: { status: 'CANCELLED' },
+          await orderStatusService.transition(tenantId, order, 'CANCELLED', { type: 'BOT' }, {
+            reason: 'Cancelled by customer',
+          });
+          realtimeService.publish(tenantId, {
+            type: 'order.status_changed',
+            orderId: order.id,
+            orderNumber: order.orderNumber,
+            status: 'CANCELLED',
           });
           await inboxService.updateConversationPhase(tenantId, conversationId, 'IDLE', null);
-          await this.sendText(ctx, '🚫 Siparisiniz iptal edildi.\nYeni siparis icin istediginiz urunleri yazabilirsiniz.');
+          await this.sendText(ctx, this.t(ctx).orderCancelled);
           return 'IDLE';
         } else {
           // Order already confirmed/preparing — block cancel
-          await this.sendText(
-            ctx,
-            '⚠️ Siparisiniz hazirlaniyor. Bu asamada iptal yapilamaz.\nYardim icin *"destek"* yazabilirsiniz.',
-          );
+          await this.sendText(ctx, this.t(ctx).cancelNotAllowedPreparing);
           return 'ORDER_CONFIRMED';
         }
       }
@@ -1722,7 +2043,7 @@ export class ConversationFlowService {
 
     if (!rating) {
       // Unrecognized — remind
-      await this.sendText(ctx, 'Lutfen 1-5 arasi bir puan verin veya butonlardan secim yapin.');
+      await this.sendText(ctx, this.t(ctx).surveyRatingRetry);
       return 'ORDER_CONFIRMED';
     }
 
@@ -1751,15 +2072,15 @@ export class ConversationFlowService {
           flowMetadata: JSON.stringify({ ...surveyMeta, surveyId: survey.id }),
         },
       });
-      await this.sendText(ctx, TEMPLATES.surveyAskComment);
+      await this.sendText(ctx, this.t(ctx).surveyAskComment);
       return 'ORDER_CONFIRMED';
     }
 
     // Good/neutral rating — thank and maybe ask broadcast opt-in
     if (rating >= 4) {
-      await this.sendText(ctx, TEMPLATES.surveyThanksGood);
+      await this.sendText(ctx, this.t(ctx).surveyThanksGood);
     } else {
-      await this.sendText(ctx, TEMPLATES.surveyThanksNeutral);
+      await this.sendText(ctx, this.t(ctx).surveyThanksNeutral);
     }
 
     return this.tryAskBroadcastOptIn(ctx);
@@ -1773,7 +2094,7 @@ export class ConversationFlowService {
     const text = (ctx.message.text || '').trim();
 
     if (!text) {
-      await this.sendText(ctx, 'Lutfen yazili mesaj gonderin.');
+      await this.sendText(ctx, this.t(ctx).textMessageRequired);
       return 'ORDER_CONFIRMED';
     }
 
@@ -1789,7 +2110,7 @@ export class ConversationFlowService {
     }
 
     // Thank and maybe ask broadcast opt-in
-    await this.sendText(ctx, TEMPLATES.surveyThanksBad);
+    await this.sendText(ctx, this.t(ctx).surveyThanksBad);
 
     return this.tryAskBroadcastOptIn(ctx);
   }
@@ -1818,8 +2139,8 @@ export class ConversationFlowService {
         await whatsappService.sendInteractiveButtons(
           tenantId,
           conversationId,
-          TEMPLATES.broadcastOptInAsk,
-          TEMPLATES.broadcastOptInButtons.buttons,
+          this.t(ctx).broadcastOptInAsk,
+          this.t(ctx).broadcastOptInButtons.buttons,
         );
         return 'ORDER_CONFIRMED';
       }
@@ -1852,9 +2173,9 @@ export class ConversationFlowService {
       }
 
       if (accepted) {
-        await this.sendText(ctx, TEMPLATES.broadcastOptInConfirmed);
+        await this.sendText(ctx, this.t(ctx).broadcastOptInConfirmed);
       } else {
-        await this.sendText(ctx, TEMPLATES.broadcastOptOutConfirmed);
+        await this.sendText(ctx, this.t(ctx).broadcastOptOutConfirmed);
       }
 
       await prisma.conversation.update({
@@ -1865,7 +2186,7 @@ export class ConversationFlowService {
     }
 
     // Unrecognized response — remind
-    await this.sendText(ctx, 'Lutfen butonlardan birini secin.');
+    await this.sendText(ctx, this.t(ctx).chooseButton);
     return 'ORDER_CONFIRMED';
   }
 
@@ -1899,30 +2220,25 @@ export class ConversationFlowService {
     const orderId = conversation.activeOrderId;
 
     if (!orderId) {
-      await this.sendText(ctx, TEMPLATES.orderEmpty);
+      await this.sendText(ctx, this.t(ctx).orderEmpty);
       return 'IDLE';
     }
 
+    await this.revalidateCoupon(ctx, orderId);
+    await this.revalidateLoyalty(ctx, orderId);
+
     // Check if pickup order for correct payment location text
     const order = await this.getActiveOrder(ctx);
     const isPickup = order?.deliveryType === 'PICKUP';
 
     // Record cash payment
-    await orderPaymentService.recordCashPayment(tenantId, orderId, conversationId);
+    const payment = await orderPaymentService.recordCashPayment(tenantId, orderId, conversationId);
 
     // Move to PENDING_CONFIRMATION (waiting for restaurant approval)
-    const pendingOrder = await orderService.setPendingConfirmation(tenantId, orderId, {
-      paymentMethod: 'CASH',
-    });
+    const pendingOrder = await this.submitOrder(ctx, orderId, 'CASH', payment.id);
+    if (!pendingOrder) return 'ORDER_REVIEW';
 
-    const locationText = isPickup ? 'Kasada nakit' : 'Kapida nakit';
-    await this.sendText(
-      ctx,
-      `✅ *Siparisiniz alindi!*\n\n` +
-      `📦 Siparis No: #${pendingOrder.orderNumber || 0}\n` +
-      `💵 Odeme: ${locationText}\n` +
-      `⏳ Restoran onayiniz bekleniyor...`,
-    );
+    await this.sendText(ctx, this.t(ctx).orderReceived(pendingOrder.orderNumber || 0, 'CASH', isPickup));
     await inboxService.updateConversationPhase(tenantId, conversationId, 'ORDER_CONFIRMED', null);
     return 'ORDER_CONFIRMED';
   }
@@ -1932,29 +2248,24 @@ export class ConversationFlowService {
     const orderId = conversation.activeOrderId;
 
     if (!orderId) {
-      await this.sendText(ctx, TEMPLATES.orderEmpty);
+      await this.sendText(ctx, this.t(ctx).orderEmpty);
       return 'IDLE';
     }
 
+    await this.revalidateCoupon(ctx, orderId);
+    await this.revalidateLoyalty(ctx, orderId);
+
     // Check if pickup order for correct payment location text
     const order = await this.getActiveOrder(ctx);
     const isPickup = order?.deliveryType === 'PICKUP';
 
     // Record as cash-like payment (no online processing needed)
-    await orderPaymentService.recordCashPayment(tenantId, orderId, conversationId);
+    const payment = await orderPaymentService.recordCashPayment(tenantId, orderId, conversationId);
 
-    const pendingOrder = await orderService.setPendingConfirmation(tenantId, orderId, {
-      paymentMethod: 'CREDIT_CARD',
-    });
+    const pendingOrder = await this.submitOrder(ctx, orderId, 'CREDIT_CARD', payment.id);
+    if (!pendingOrder) return 'ORDER_REVIEW';
 
-    const locationText = isPickup ? 'Kasada kredi karti' : 'Kapida kredi karti';
-    await this.sendText(
-      ctx,
-      `✅ *Siparisiniz alindi!*\n\n` +
-      `📦 Siparis No: #${pendingOrder.orderNumber || 0}\n` +
-      `💳 Odeme: ${locationText}\n` +
-      `⏳ Restoran onayiniz bekleniyor...`,
-    );
+    await this.sendText(ctx, this.t(ctx).orderReceived(pendingOrder.orderNumber || 0, 'CARD', isPickup));
     await inboxService.updateConversationPhase(tenantId, conversationId, 'ORDER_CONFIRMED', null);
     return 'ORDER_CONFIRMED';
   }
@@ -1964,10 +2275,14 @@ export class ConversationFlowService {
     const orderId = conversation.activeOrderId;
 
     if (!orderId) {
-      await this.sendText(ctx, TEMPLATES.orderEmpty);
+      await this.sendText(ctx, this.t(ctx).orderEmpty);
       return 'IDLE';
     }
 
+    // The link charges totalPrice, so the coupon and loyalty spend are settled first
+    await this.revalidateCoupon(ctx, orderId);
+    await this.revalidateLoyalty(ctx, orderId);
+
     try {
       const payment = await orderPaymentService.initiateCardPayment(
         tenantId,
@@ -1976,18 +2291,18 @@ export class ConversationFlowService {
         conversation.customerPhone,
       );
 
-      if (payment.checkoutFormUrl) {
-        await this.sendText(ctx, TEMPLATES.paymentLinkSent(payment.checkoutFormUrl));
+      if (payment.checkoutUrl) {
+        await this.sendText(ctx, this.t(ctx).paymentLinkSent(payment.checkoutUrl));
         return 'PAYMENT_PENDING';
       }
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : String(error);
       logger.error({ error: errMsg, tenantId, orderId }, 'Failed to create payment link');
-      await this.sendText(ctx, `Odeme linki olusturulamadi: ${errMsg}\nNakit odemek icin "nakit" yazin.`);
+      await this.sendText(ctx, this.t(ctx).paymentLinkError(errMsg));
       return 'PAYMENT_METHOD_SELECTION';
     }
 
-    await this.sendText(ctx, 'Odeme linki olusturulamadi. Nakit odemek icin "nakit" yazin.');
+    await this.sendText(ctx, this.t(ctx).paymentLinkFailed);
     return 'PAYMENT_METHOD_SELECTION';
   }
 
@@ -2006,20 +2321,20 @@ export class ConversationFlowService {
     // Cancel at any point
     if (text && this.matchesKeyword(text, CANCEL_KEYWORDS)) {
       await this.cancelActiveOrder(ctx);
-      await this.sendText(ctx, TEMPLATES.orderCancelled);
+      await this.sendText(ctx, this.t(ctx).orderCancelled);
       return 'IDLE';
     }
 
     const order = await this.getActiveOrder(ctx);
     if (!order) {
-      await this.sendText(ctx, TEMPLATES.orderEmpty);
+      await this.sendText(ctx, this.t(ctx).orderEmpty);
       return 'IDLE';
     }
 
     if (!order.deliveryAddress) {
       // --- Sub-state: waiting for address text ---
       if (message.kind !== 'TEXT' || !text) {
-        await this.sendText(ctx, 'Lutfen teslimat adresinizi metin olarak yazin.');
+        await this.sendText(ctx, this.t(ctx).addressTextRequired);
         return 'ADDRESS_COLLECTION';
       }
       const address = (message.text || '').trim();
@@ -2029,8 +2344,8 @@ export class ConversationFlowService {
       });
 
       // Ask for confirmation with buttons
-      await this.sendText(ctx, TEMPLATES.addressConfirmation(address));
-      const tmpl = TEMPLATES.addressConfirmButtons;
+      await this.sendText(ctx, this.t(ctx).addressConfirmation(address));
+      const tmpl = this.t(ctx).addressConfirmButtons;
       await whatsappService.sendInteractiveButtons(
         ctx.tenantId, ctx.conversationId, tmpl.body, tmpl.buttons,
       );
@@ -2043,7 +2358,7 @@ export class ConversationFlowService {
           where: { id: ctx.conversationId },
           data: { flowSubState: 'WAITING_SAVE_CONFIRM' },
         });
-        const saveTmpl = TEMPLATES.askSaveAddressButtons;
+        const saveTmpl = this.t(ctx).askSaveAddressButtons;
         await whatsappService.sendInteractiveButtons(
           ctx.tenantId, ctx.conversationId, saveTmpl.body, saveTmpl.buttons,
         );
@@ -2056,12 +2371,12 @@ export class ConversationFlowService {
           where: { id: order.id },
           data: { deliveryAddress: null },
         });
-        await this.sendText(ctx, TEMPLATES.addressRetry);
+        await this.sendText(ctx, this.t(ctx).addressRetry);
         return 'ADDRESS_COLLECTION';
       }
 
       // Unrecognized → re-send buttons
-      const tmpl = TEMPLATES.addressConfirmButtons;
+      const tmpl = this.t(ctx).addressConfirmButtons;
       await whatsappService.sendInteractiveButtons(
         ctx.tenantId, ctx.conversationId, tmpl.body, tmpl.buttons,
       );
@@ -2081,7 +2396,7 @@ export class ConversationFlowService {
     // Cancel
     if (this.matchesKeyword(text, CANCEL_KEYWORDS)) {
       await this.cancelActiveOrder(ctx);
-      await this.sendText(ctx, TEMPLATES.orderCancelled);
+      await this.sendText(ctx, this.t(ctx).orderCancelled);
       return 'IDLE';
     }
 
@@ -2093,7 +2408,7 @@ export class ConversationFlowService {
       await whatsappService.sendLocationRequest(
         tenantId,
         conversationId,
-        TEMPLATES.locationRequest,
+        this.t(ctx).locationRequest,
       );
       return 'LOCATION_REQUEST';
     }
@@ -2103,34 +2418,36 @@ export class ConversationFlowService {
       const savedAddr = await savedAddressService.getById(tenantId, addressId);
 
       if (!savedAddr) {
-        await this.sendText(ctx, TEMPLATES.savedAddressInvalid);
-        await whatsappService.sendLocationRequest(tenantId, conversationId, TEMPLATES.locationRequest);
+        await this.sendText(ctx, this.t(ctx).savedAddressInvalid);
+        await whatsappService.sendLocationRequest(tenantId, conversationId, this.t(ctx).locationRequest);
         return 'LOCATION_REQUEST';
       }
 
-      // Re-validate geo: store might be closed or out of range now
-      const geoResult = await geoService.checkServiceArea(tenantId, {
-        lat: savedAddr.lat,
-        lng: savedAddr.lng,
-      });
+      // Re-validate geo: store might be closed (at the pre-order slot) or out of range now
+      const order = await this.getActiveOrder(ctx);
+      const geoResult = await geoService.checkServiceArea(
+        tenantId,
+        { lat: savedAddr.lat, lng: savedAddr.lng },
+        order?.scheduledFor ?? null,
+      );
       await inboxService.updateConversationGeoCheck(tenantId, conversationId, geoResult, {
         lat: savedAddr.lat,
         lng: savedAddr.lng,
       });
 
       if (!geoResult.isWithinServiceArea) {
-        await this.sendText(ctx, TEMPLATES.savedAddressInvalid);
-        await whatsappService.sendLocationRequest(tenantId, conversationId, TEMPLATES.locationRequest);
+        await this.sendText(ctx, this.t(ctx).savedAddressInvalid);
+        await whatsappService.sendLocationRequest(tenantId, conversationId, this.t(ctx).locationRequest);
         return 'LOCATION_REQUEST';
       }
 
       // Check minimum basket
-      const order = await this.getActiveOrder(ctx);
-      if (order && geoResult.deliveryRule) {
+      const terms = geoResult.deliveryZone ?? geoResult.deliveryRule;
+      if (order && terms) {
         const orderTotal = Number(order.totalPrice);
-        const minBasket = Number(geoResult.deliveryRule.minBasket);
+        const minBasket = Number(terms.minBasket);
         if (orderTotal < minBasket) {
-          await this.sendText(ctx, TEMPLATES.locationMinBasketNotMet(minBasket, orderTotal));
+          await this.sendText(ctx, this.t(ctx).locationMinBasketNotMet(minBasket, orderTotal));
           return 'ORDER_COLLECTING';
         }
       }
@@ -2146,10 +2463,11 @@ export class ConversationFlowService {
         });
       }
 
-      const storeName = geoResult.nearestStore?.name || 'En yakin sube';
-      const deliveryFee = geoResult.deliveryRule ? Number(geoResult.deliveryRule.deliveryFee) : 0;
+      const storeName = geoResult.nearestStore?.name || this.t(ctx).nearestStoreFallback;
+      const deliveryFee = terms ? Number(terms.deliveryFee) : 0;
       const distance = geoResult.distance || 0;
-      await this.sendText(ctx, TEMPLATES.locationConfirmed(storeName, deliveryFee, distance));
+      const confirmed = this.t(ctx).locationConfirmed(storeName, deliveryFee, distance);
+      await this.sendText(ctx, this.withDeliveryEstimate(ctx, geoResult, confirmed));
 
       // Skip address collection — go straight to payment
       await this.sendPaymentButtons(ctx);
@@ -2158,7 +2476,7 @@ export class ConversationFlowService {
 
     // Text fallback — might be typing "yeni" etc.
     if (text.includes('yeni')) {
-      await whatsappService.sendLocationRequest(tenantId, conversationId, TEMPLATES.locationRequest);
+      await whatsappService.sendLocationRequest(tenantId, conversationId, this.t(ctx).locationRequest);
       return 'LOCATION_REQUEST';
     }
 
@@ -2179,14 +2497,14 @@ export class ConversationFlowService {
     }));
     rows.push({
       id: 'new_address',
-      title: TEMPLATES.newAddressRowTitle,
-      description: TEMPLATES.newAddressRowDescription,
+      title: this.t(ctx).newAddressRowTitle,
+      description: this.t(ctx).newAddressRowDescription,
     });
     await whatsappService.sendListMessage(
       tenantId, conversationId,
-      TEMPLATES.savedAddressListHeader,
-      TEMPLATES.savedAddressListButton,
-      [{ title: 'Adresler', rows }],
+      this.t(ctx).savedAddressListHeader,
+      this.t(ctx).savedAddressListButton,
+      [{ title: this.t(ctx).savedAddressSectionTitle, rows }],
     );
     return 'ADDRESS_SELECTION';
   }
@@ -2194,96 +2512,102 @@ export class ConversationFlowService {
   // ==================== ADDRESS SAVE PROMPT ====================
 
   /**
-   * ADDRESS_SAVE_PROMPT: Ask if customer wants to save the address, then collect name.
+   * ADDRESS_SAVE_PROMPT / WAITING_SAVE_CONFIRM: Ask if customer wants to save the address.
    */
-  private async handleAddressSavePrompt(ctx: FlowContext): Promise<ConversationPhase> {
-    const { tenantId, conversationId, message, conversation, payload } = ctx;
+  private async handleSaveAddressConfirm(ctx: FlowContext): Promise<ConversationPhase> {
+    const { tenantId, conversationId, message, payload } = ctx;
     const text = normalizeTr(message.text || '');
     const buttonId = payload.interactive?.buttonReply?.id;
 
-    const subState = conversation.flowSubState || 'WAITING_SAVE_CONFIRM';
+    if (buttonId === 'save_address_yes' || this.matchesKeyword(text, CONFIRM_KEYWORDS)) {
+      // User wants to save — ask for name with buttons
+      await prisma.conversation.update({
+        where: { id: conversationId },
+        data: { flowSubState: 'WAITING_ADDRESS_NAME' },
+      });
+      const nameTmpl = this.t(ctx).askAddressNameButtons;
+      await whatsappService.sendInteractiveButtons(
+        tenantId, conversationId, nameTmpl.body, nameTmpl.buttons,
+      );
+      return 'ADDRESS_SAVE_PROMPT';
+    }
 
-    if (subState === 'WAITING_SAVE_CONFIRM') {
-      if (buttonId === 'save_address_yes' || this.matchesKeyword(text, CONFIRM_KEYWORDS)) {
-        // User wants to save — ask for name with buttons
-        await prisma.conversation.update({
-          where: { id: conversationId },
-          data: { flowSubState: 'WAITING_ADDRESS_NAME' },
-        });
-        const nameTmpl = TEMPLATES.askAddressNameButtons;
-        await whatsappService.sendInteractiveButtons(
-          tenantId, conversationId, nameTmpl.body, nameTmpl.buttons,
-        );
-        return 'ADDRESS_SAVE_PROMPT';
-      }
+    if (buttonId === 'save_address_no' || this.matchesKeyword(text, CANCEL_KEYWORDS) || this.matchesKeyword(text, EDIT_KEYWORDS)) {
+      // "hayir" or cancel — skip saving, go to payment
+      await prisma.conversation.update({
+        where: { id: conversationId },
+        data: { flowSubState: null },
+      });
+      await this.sendText(ctx, this.t(ctx).addressNotSaved);
+      await this.sendPaymentButtons(ctx);
+      return 'PAYMENT_METHOD_SELECTION';
+    }
 
-      if (buttonId === 'save_address_no' || this.matchesKeyword(text, CANCEL_KEYWORDS) || this.matchesKeyword(text, EDIT_KEYWORDS)) {
-        // "hayir" or cancel — skip saving, go to payment
-        await prisma.conversation.update({
-          where: { id: conversationId },
-          data: { flowSubState: null },
-        });
-        await this.sendText(ctx, TEMPLATES.addressNotSaved);
-        await this.sendPaymentButtons(ctx);
-        return 'PAYMENT_METHOD_SELECTION';
-      }
+    // Unrecognized — re-send buttons
+    const saveTmpl = this.t(ctx).askSaveAddressButtons;
+    await whatsappService.sendInteractiveButtons(
+      tenantId, conversationId, saveTmpl.body, saveTmpl.buttons,
+    );
+    return 'ADDRESS_SAVE_PROMPT';
+  }
 
-      // Unrecognized — re-send buttons
-      const saveTmpl = TEMPLATES.askSaveAddressButtons;
+  /**
+   * ADDRESS_SAVE_PROMPT / WAITING_ADDRESS_NAME: Ev / Is / Diger buttons or a typed name.
+   */
+  private async handleAddressName(ctx: FlowContext): Promise<ConversationPhase> {
+    const { tenantId, conversationId, message, payload } = ctx;
+    const text = normalizeTr(message.text || '');
+    const buttonId = payload.interactive?.buttonReply?.id;
+
+    let name = '';
+    if (buttonId === 'addr_name_ev') {
+      name = 'Ev';
+    } else if (buttonId === 'addr_name_is') {
+      name = 'Is';
+    } else if (buttonId === 'addr_name_diger') {
+      // "Diger" selected — ask to type a custom name
+      await prisma.conversation.update({
+        where: { id: conversationId },
+        data: { flowSubState: 'WAITING_ADDRESS_NAME_CUSTOM' },
+      });
+      await this.sendText(ctx, this.t(ctx).askCustomAddressName);
+      return 'ADDRESS_SAVE_PROMPT';
+    } else if (message.kind === 'TEXT' && text) {
+      name = (message.text || '').trim();
+    }
+
+    if (!name) {
+      const nameTmpl = this.t(ctx).askAddressNameButtons;
       await whatsappService.sendInteractiveButtons(
-        tenantId, conversationId, saveTmpl.body, saveTmpl.buttons,
+        tenantId, conversationId, nameTmpl.body, nameTmpl.buttons,
       );
       return 'ADDRESS_SAVE_PROMPT';
     }
 
-    if (subState === 'WAITING_ADDRESS_NAME') {
-      // Handle button selections for address name
-      let name = '';
-      if (buttonId === 'addr_name_ev') {
-        name = 'Ev';
-      } else if (buttonId === 'addr_name_is') {
-        name = 'Is';
-      } else if (buttonId === 'addr_name_diger') {
-        // "Diger" selected — ask to type a custom name
-        await prisma.conversation.update({
-          where: { id: conversationId },
-          data: { flowSubState: 'WAITING_ADDRESS_NAME_CUSTOM' },
-        });
-        await this.sendText(ctx, 'Adres icin bir isim yazin (ornek: _Annemin Evi_, _Ofis_):');
-        return 'ADDRESS_SAVE_PROMPT';
-      } else if (message.kind === 'TEXT' && text) {
-        name = (message.text || '').trim();
-      } else {
-        const nameTmpl = TEMPLATES.askAddressNameButtons;
-        await whatsappService.sendInteractiveButtons(
-          tenantId, conversationId, nameTmpl.body, nameTmpl.buttons,
-        );
-        return 'ADDRESS_SAVE_PROMPT';
-      }
-
-      if (!name) {
-        const nameTmpl = TEMPLATES.askAddressNameButtons;
-        await whatsappService.sendInteractiveButtons(
-          tenantId, conversationId, nameTmpl.body, nameTmpl.buttons,
-        );
-        return 'ADDRESS_SAVE_PROMPT';
-      }
+    return this.saveAddressAndProceed(ctx, name);
+  }
 
-      return this.saveAddressAndProceed(ctx, name);
-    }
+  /**
+   * ADDRESS_SAVE_PROMPT / WAITING_ADDRESS_NAME_CUSTOM: free-text address name after "Diger".
+   */
+  private async handleAddressNameCustom(ctx: FlowContext): Promise<ConversationPhase> {
+    const { message } = ctx;
+    const text = normalizeTr(message.text || '');
 
-    if (subState === 'WAITING_ADDRESS_NAME_CUSTOM') {
-      if (message.kind !== 'TEXT' || !text) {
-        await this.sendText(ctx, 'Lutfen adres icin bir isim yazin:');
-        return 'ADDRESS_SAVE_PROMPT';
-      }
-      const customName = (message.text || '').trim();
-      return this.saveAddressAndProceed(ctx, customName);
+    if (message.kind !== 'TEXT' || !text) {
+      await this.sendText(ctx, this.t(ctx).askAddressNameRetry);
+      return 'ADDRESS_SAVE_PROMPT';
     }
+    const customName = (message.text || '').trim();
+    return this.saveAddressAndProceed(ctx, customName);
+  }
 
-    // Unknown sub-state — go to payment
+  /**
+   * ADDRESS_SAVE_PROMPT with an unknown sub-state: skip saving and go to payment.
+   */
+  private async handleAddressSavePrompt(ctx: FlowContext): Promise<ConversationPhase> {
     await prisma.conversation.update({
-      where: { id: conversationId },
+      where: { id: ctx.conversationId },
       data: { flowSubState: null },
     });
     await this.sendPaymentButtons(ctx);
@@ -2299,34 +2623,42 @@ export class ConversationFlowService {
     const { tenantId, conversationId, conversation } = ctx;
 
     if (!geoCheck.isWithinServiceArea) {
-      await this.sendText(ctx, TEMPLATES.locationOutOfService(geoCheck.message));
+      await this.sendText(ctx, this.t(ctx).locationOutOfService(geoCheck.message));
       return 'LOCATION_REQUEST';
     }
 
-    // Check minimum basket
+    // Check minimum basket; a matched polygon zone sets its own terms
+    const terms = geoCheck.deliveryZone ?? geoCheck.deliveryRule;
     const order = await this.getActiveOrder(ctx);
-    if (order && geoCheck.deliveryRule) {
+    if (order && terms) {
       const orderTotal = Number(order.totalPrice);
-      const minBasket = Number(geoCheck.deliveryRule.minBasket);
+      const minBasket = Number(terms.minBasket);
 
       if (orderTotal < minBasket) {
-        await this.sendText(ctx, TEMPLATES.locationMinBasketNotMet(minBasket, orderTotal));
+        await this.sendText(ctx, this.t(ctx).locationMinBasketNotMet(minBasket, orderTotal));
         return 'ORDER_COLLECTING';
       }
     }
 
     // Location confirmed - show delivery info and payment buttons
-    const storeName = geoCheck.nearestStore?.name || 'En yakin sube';
-    const deliveryFee = geoCheck.deliveryRule ? Number(geoCheck.deliveryRule.deliveryFee) : 0;
+    const storeName = geoCheck.nearestStore?.name || this.t(ctx).nearestStoreFallback;
+    const deliveryFee = terms ? Number(terms.deliveryFee) : 0;
     const distance = geoCheck.distance || 0;
 
-    await this.sendText(ctx, TEMPLATES.locationConfirmed(storeName, deliveryFee, distance));
+    const confirmed = this.t(ctx).locationConfirmed(storeName, deliveryFee, distance);
+    await this.sendText(ctx, this.withDeliveryEstimate(ctx, geoCheck, confirmed));
     // Ask for open text address before payment
-    await this.sendText(ctx, TEMPLATES.addressRequest);
+    await this.sendText(ctx, this.t(ctx).addressRequest);
 
     return 'ADDRESS_COLLECTION';
   }
 
+  /** Append the matched zone's estimated delivery time, if it has one */
+  private withDeliveryEstimate(ctx: FlowContext, geoCheck: GeoCheckResult, message: string): string {
+    const minutes = geoCheck.deliveryZone?.estimatedMinutes;
+    return minutes ? `${message}\n${this.t(ctx).deliveryEstimate(minutes)}` : message;
+  }
+
   // ==================== ADDITION VALIDATION ====================
 
   private async validateAdditionItems(
@@ -2344,7 +2676,7 @@ export class ConversationFlowService {
 
     // DELIVERED or CANCELLED -> cannot add
     if (parentOrder.status === 'DELIVERED' || parentOrder.status === 'CANCELLED') {
-      return TEMPLATES.additionNotAllowed(parentOrder.orderNumber || 0);
+      return this.t(ctx).additionNotAllowed(parentOrder.orderNumber || 0);
     }
 
     // READY -> only isReadyFood items allowed
@@ -2360,7 +2692,7 @@ export class ConversationFlowService {
       const nonReadyItems = menuItems.filter((mi) => !mi.isReadyFood);
       if (nonReadyItems.length > 0) {
         const names = nonReadyItems.map((i) => i.name).join(', ');
-        return TEMPLATES.additionReadyFoodOnly(names);
+        return this.t(ctx).additionReadyFoodOnly(names);
       }
     }
 
@@ -2379,9 +2711,9 @@ export class ConversationFlowService {
     if (this.matchesKeyword(text, GREETING_KEYWORDS)) {
       const order = await this.getActiveOrder(ctx);
       if (order && order.items.length > 0) {
-        await this.sendText(ctx, 'Merhaba! Siparisininize devam edebilirsiniz. Urun eklemek icin urun adini yazin veya onay butonuna basin.');
+        await this.sendText(ctx, this.t(ctx).fallbackGreetingWithOrder);
       } else {
-        await this.sendText(ctx, 'Merhaba! Siparis vermek icin urun adini yazabilirsiniz.');
+        await this.sendText(ctx, this.t(ctx).fallbackGreeting);
       }
       return;
     }
@@ -2390,38 +2722,25 @@ export class ConversationFlowService {
     if (this.matchesKeyword(text, THANKS_KEYWORDS)) {
       const order = await this.getActiveOrder(ctx);
       if (order && order.items.length > 0) {
-        await this.sendText(ctx, 'Rica ederim! Baska urun ekleyebilir veya onay butonuna basabilirsiniz.');
+        await this.sendText(ctx, this.t(ctx).fallbackThanksWithOrder);
       } else {
-        await this.sendText(ctx, 'Rica ederim! Siparis vermek isterseniz urun adini yazabilirsiniz.');
+        await this.sendText(ctx, this.t(ctx).fallbackThanks);
       }
       return;
     }
 
     // Yardim kontrolu
     if (this.matchesKeyword(text, HELP_KEYWORDS)) {
-      await this.sendText(
-        ctx,
-        'Siparis vermek icin:\n' +
-        '1. Urun adini yazin (orn: "1 Et Doner", "2 Kola")\n' +
-        '2. Birden fazla urun ekleyebilirsiniz\n' +
-        '3. Hazir olunca onay butonuna basin\n' +
-        '4. Menuyu gormek icin "menu" yazin',
-      );
+      await this.sendText(ctx, this.t(ctx).fallbackHelp);
       return;
     }
 
     // Varsayilan fallback
     const order = await this.getActiveOrder(ctx);
     if (order && order.items.length > 0) {
-      await this.sendText(
-        ctx,
-        'Anlayamadim. Urun eklemek icin urun adini yazin (orn: "1 Kola") veya onay butonuna basin.',
-      );
+      await this.sendText(ctx, this.t(ctx).fallbackWithOrder);
     } else {
-      await this.sendText(
-        ctx,
-        'Anlayamadim, eklemek istediginiz urunu biraz daha acik yazar misiniz? Ornegin: "1 Kola", "Tavuk Doner" gibi.',
-      );
+      await this.sendText(ctx, this.t(ctx).fallbackNoOrder);
     }
   }
 
@@ -2446,10 +2765,7 @@ export class ConversationFlowService {
 
       const orderTotal = Number(order.totalPrice);
       if (orderTotal < minBasketInfo.minBasket) {
-        await this.sendText(
-          ctx,
-          `Not: Minimum siparis tutari ${minBasketInfo.minBasket.toFixed(2)} TL. Mevcut sepetiniz: ${orderTotal.toFixed(2)} TL`,
-        );
+        await this.sendText(ctx, this.t(ctx).minBasketNote(minBasketInfo.minBasket, orderTotal));
       }
     } catch (error) {
       // Sessiz hata - uyari gonderemezse problem degil
@@ -2458,49 +2774,291 @@ export class ConversationFlowService {
   }
 
   /**
-   * Get minimum basket amount from DeliveryRule
+   * Get the lowest minimum basket amount over delivery rules and zones
    */
   private async getMinBasketInfo(tenantId: string): Promise<{ minBasket: number } | null> {
-    const rule = await prisma.deliveryRule.findFirst({
-      where: {
-        store: { tenantId, isActive: true },
-      },
-      orderBy: { minBasket: 'asc' },
-      select: { minBasket: true },
-    });
-
-    if (!rule) return null;
-    const minBasket = Number(rule.minBasket);
+    const [rule, zone] = await Promise.all([
+      prisma.deliveryRule.findFirst({
+        where: {
+          store: { tenantId, isActive: true },
+        },
+        orderBy: { minBasket: 'asc' },
+        select: { minBasket: true },
+      }),
+      prisma.deliveryZone.findFirst({
+        where: {
+          isActive: true,
+          store: { tenantId, isActive: true },
+        },
+        orderBy: { minBasket: 'asc' },
+        select: { minBasket: true },
+      }),
+    ]);
+
+    const amounts = [rule, zone].flatMap((row) => (row ? [Number(row.minBasket)] : []));
+    if (amounts.length === 0) return null;
+    const minBasket = Math.min(...amounts);
     return minBasket > 0 ? { minBasket } : null;
   }
 
   // ==================== SHARED HELPERS ====================
 
+  /**
+   * Message catalog for the conversation's language, with the tenant's
+   * wording overrides applied
+   */
+  private t(ctx: FlowContext): MessageCatalog {
+    return botCopyService.applyOverrides(ctx.conversation.language, ctx.copyOverrides);
+  }
+
+  /**
+   * Switch the conversation to a detected language, unless an agent has
+   * pinned one from the inbox
+   */
+  private async applyDetectedLanguage(ctx: FlowContext, detected: string | null | undefined): Promise<void> {
+    const language = normalizeLanguage(detected);
+    if (!language || ctx.conversation.languageLocked || ctx.conversation.language === language) return;
+
+    await prisma.conversation.update({
+      where: { id: ctx.conversationId },
+      data: { language },
+    });
+    logger.info(
+      { tenantId: ctx.tenantId, conversationId: ctx.conversationId, from: ctx.conversation.language, to: language },
+      'Conversation language changed',
+    );
+    ctx.conversation.language = language;
+  }
+
+  /**
+   * Run the NLU pipeline and pick up the message language it detected
+   */
+  private async processWithNlu(ctx: FlowContext, text: string): Promise<OrchestrationResult> {
+    const result = await nluOrchestratorService.processMessage(
+      ctx.tenantId, ctx.conversationId, ctx.message.id, text,
+    );
+    await this.applyDetectedLanguage(ctx, result.language);
+    return result;
+  }
+
   private async sendText(ctx: FlowContext, text: string): Promise<void> {
     await whatsappService.sendText(ctx.tenantId, ctx.conversationId, text);
   }
 
-  private formatWorkingHours(wh: any): string {
-    const dayLabels: Record<string, string> = {
-      mon: 'Pazartesi', tue: 'Sali', wed: 'Carsamba', thu: 'Persembe',
-      fri: 'Cuma', sat: 'Cumartesi', sun: 'Pazar',
+  /**
+   * Send the closed-today / closed-now message when outside working hours.
+   * Returns true when the customer was told the restaurant is closed and
+   * ordering stops there; with pre-orders enabled the notice carries a hint
+   * instead and the message is handled as usual.
+   */
+  private async replyIfClosed(ctx: FlowContext): Promise<boolean> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: ctx.tenantId },
+      select: { workingHours: true, preOrderEnabled: true },
+    });
+    if (!tenant?.workingHours) return false;
+    const hint = tenant.preOrderEnabled ? `\n\n${this.t(ctx).preOrderHint}` : '';
+
+    const wh = tenant.workingHours as any;
+    const now = new Date();
+    const trTime = new Date(now.toLocaleString('en-US', { timeZone: 'Europe/Istanbul' }));
+    const dayNames = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+    const today = dayNames[trTime.getDay()];
+    const currentTime = `${String(trTime.getHours()).padStart(2, '0')}:${String(trTime.getMinutes()).padStart(2, '0')}`;
+
+    const closedDays: string[] = Array.isArray(wh.closed) ? wh.closed : [];
+    const daySchedule = wh[today];
+    // Supports two UI shapes: top-level `closed: string[]` (settings) and per-day `closed: boolean` (onboarding).
+    if (closedDays.includes(today) || daySchedule?.closed === true) {
+      const nextOpen = this.getNextOpenDay(ctx, wh, today);
+      await this.sendText(ctx, this.t(ctx).closedToday(nextOpen, this.formatWorkingHours(ctx, wh)) + hint);
+      return !tenant.preOrderEnabled;
+    }
+
+    // 24h open (allDay flag, or open === close) is always open and skips the time check.
+    // Overnight ranges where close <= open (e.g. 18:00 - 03:00) span midnight.
+    const isAllDay = daySchedule?.allDay === true || (!!daySchedule?.open && daySchedule.open === daySchedule.close);
+    if (!isAllDay && daySchedule?.open && daySchedule?.close) {
+      const { open, close } = daySchedule;
+      const isOpenNow = open < close
+        ? currentTime >= open && currentTime < close
+        : currentTime >= open || currentTime < close;
+      if (!isOpenNow) {
+        await this.sendText(ctx, this.t(ctx).closedNow(open, close, this.formatWorkingHours(ctx, wh)) + hint);
+        return !tenant.preOrderEnabled;
+      }
+    }
+
+    return false;
+  }
+
+  // ==================== PRE-ORDERS ====================
+
+  /**
+   * Pick up a requested fulfilment time from the message. A message that is
+   * only a time is answered here (answered = true); otherwise the time is
+   * returned so it can be put on the draft the message creates.
+   */
+  private async takeRequestedTime(
+    ctx: FlowContext,
+    phase: ConversationPhase,
+  ): Promise<{ answered: boolean; at: Date | null }> {
+    const none = { answered: false, at: null };
+    const prePhases: ConversationPhase[] = ['IDLE', 'ORDER_COLLECTING', 'ORDER_REVIEW'];
+    if (!prePhases.includes(phase) || ctx.message.kind !== 'TEXT' || !ctx.message.text) {
+      return none;
+    }
+
+    const requested = preOrderService.parseRequestedTime(ctx.message.text);
+    if (!requested) return none;
+
+    const { enabled } = await preOrderService.getSettings(ctx.tenantId);
+    if (!enabled) return none;
+
+    const check = await preOrderService.checkSlot(ctx.tenantId, requested.at, {
+      excludeOrderId: ctx.conversation.activeOrderId || undefined,
+    });
+    if (!check.ok) {
+      await this.sendPreOrderRejection(ctx, check);
+      return { answered: requested.timeOnly, at: null };
+    }
+
+    if (requested.timeOnly) {
+      await this.scheduleDraft(ctx, requested.at, phase);
+      return { answered: true, at: null };
+    }
+    return { answered: false, at: requested.at };
+  }
+
+  /** Put the time on the open draft, or ask for items when there is none yet */
+  private async scheduleDraft(ctx: FlowContext, at: Date, phase: ConversationPhase): Promise<void> {
+    const when = this.formatPreOrderTime(ctx, at);
+    const draft = await prisma.order.findFirst({
+      where: {
+        tenantId: ctx.tenantId,
+        conversationId: ctx.conversationId,
+        status: 'DRAFT',
+        parentOrderId: null,
+      },
+      select: { id: true },
+    });
+
+    if (!draft) {
+      await this.sendText(ctx, this.t(ctx).preOrderItemsFirst(when));
+      return;
+    }
+
+    await prisma.order.update({ where: { id: draft.id }, data: { scheduledFor: at } });
+    logger.info(
+      { tenantId: ctx.tenantId, orderId: draft.id, scheduledFor: at.toISOString() },
+      'Pre-order time set',
+    );
+
+    // In review the confirm buttons come back so the customer can go on
+    if (phase === 'ORDER_REVIEW') {
+      await this.sendOrderConfirmButtons(ctx, this.t(ctx).preOrderScheduled(when));
+    } else {
+      await this.sendText(ctx, this.t(ctx).preOrderScheduled(when));
+    }
+  }
+
+  /**
+   * Checkout gate for pre-orders. Returns true (and tells the customer) when
+   * the restaurant is closed and no time was given, or the chosen slot is no
+   * longer available.
+   */
+  private async needsPreOrderTime(
+    ctx: FlowContext,
+    order: { id: string; scheduledFor: Date | null },
+  ): Promise<boolean> {
+    const { enabled } = await preOrderService.getSettings(ctx.tenantId);
+    if (!enabled) return false;
+
+    if (order.scheduledFor) {
+      const check = await preOrderService.checkSlot(ctx.tenantId, order.scheduledFor, {
+        excludeOrderId: order.id,
+      });
+      if (check.ok) return false;
+
+      await prisma.order.update({ where: { id: order.id }, data: { scheduledFor: null } });
+      await this.sendPreOrderRejection(ctx, check);
+      return true;
+    }
+
+    if (!(await preOrderService.isClosedNow(ctx.tenantId))) return false;
+
+    await this.sendText(ctx, this.t(ctx).preOrderTimeAsk);
+    return true;
+  }
+
+  /**
+   * Hand a pay-at-pickup/door order to the restaurant. Null when its pre-order
+   * slot filled up since the customer chose it: the payment just recorded is
+   * dropped and the customer picks another time at review.
+   */
+  private async submitOrder(
+    ctx: FlowContext,
+    orderId: string,
+    paymentMethod: 'CASH' | 'CREDIT_CARD',
+    paymentId: string
+  ): Promise<OrderDto | null> {
+    try {
+      return await orderService.setPendingConfirmation(ctx.tenantId, orderId, { paymentMethod });
+    } catch (error) {
+      if (!(error instanceof AppError) || error.code !== 'SLOT_FULL') throw error;
+
+      await prisma.orderPayment.delete({ where: { id: paymentId } });
+      const order = await prisma.order.findUniqueOrThrow({
+        where: { id: orderId },
+        select: { id: true, scheduledFor: true },
+      });
+      await this.needsPreOrderTime(ctx, order);
+      return null;
+    }
+  }
+
+  private async sendPreOrderRejection(
+    ctx: FlowContext,
+    check: Extract<SlotCheck, { ok: false }>,
+  ): Promise<void> {
+    const t = this.t(ctx);
+    const settings = await preOrderService.getSettings(ctx.tenantId);
+    const reasons = {
+      TOO_SOON: t.preOrderTooSoon(settings.leadMinutes),
+      TOO_FAR: t.preOrderTooFar(settings.maxDays),
+      CLOSED: t.preOrderClosedSlot,
+      FULL: t.preOrderSlotFull,
     };
+    const slots = check.suggestions.map((at) => {
+      const { dayKey, time } = preOrderService.describe(at);
+      return `${t.dayNames[dayKey]} ${time}`;
+    });
+    const alternatives = slots.length > 0 ? t.preOrderSuggestions(slots.join(', ')) : t.preOrderNoSlots;
+    await this.sendText(ctx, `${reasons[check.reason]}\n${alternatives}`);
+  }
+
+  private formatPreOrderTime(ctx: FlowContext, at: Date): string {
+    const { dayKey, date, time } = preOrderService.describe(at);
+    return `${this.t(ctx).dayNames[dayKey]} ${date} ${time}`;
+  }
+
+  private formatWorkingHours(ctx: FlowContext, wh: any): string {
+    const t = this.t(ctx);
+    const dayLabels = t.dayNames;
     const closedDays: string[] = Array.isArray(wh.closed) ? wh.closed : [];
     const days = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
     return days.map(d => {
       const s = wh[d];
-      if (closedDays.includes(d) || s?.closed === true) return `${dayLabels[d]}: Kapali`;
-      if (s?.allDay === true || (s?.open && s.open === s.close)) return `${dayLabels[d]}: 24 Saat Acik`;
+      if (closedDays.includes(d) || s?.closed === true) return `${dayLabels[d]}: ${t.dayClosedLabel}`;
+      if (s?.allDay === true || (s?.open && s.open === s.close)) return `${dayLabels[d]}: ${t.dayAllDayLabel}`;
       if (s?.open && s?.close) return `${dayLabels[d]}: ${s.open} - ${s.close}`;
       return `${dayLabels[d]}: -`;
     }).join('\n');
   }
 
-  private getNextOpenDay(wh: any, currentDay: string): string {
-    const dayLabels: Record<string, string> = {
-      mon: 'Pazartesi', tue: 'Sali', wed: 'Carsamba', thu: 'Persembe',
-      fri: 'Cuma', sat: 'Cumartesi', sun: 'Pazar',
-    };
+  private getNextOpenDay(ctx: FlowContext, wh: any, currentDay: string): string {
+    const t = this.t(ctx);
+    const dayLabels = t.dayNames;
     const days = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
     const closedDays: string[] = Array.isArray(wh.closed) ? wh.closed : [];
     const startIdx = days.indexOf(currentDay);
@@ -2508,14 +3066,67 @@ export class ConversationFlowService {
       const nextDay = days[(startIdx + i) % 7];
       const s = wh[nextDay];
       if (closedDays.includes(nextDay) || s?.closed === true) continue;
-      if (s?.allDay === true) return `Bir sonraki acilis: ${dayLabels[nextDay]} (24 saat acik)`;
-      if (s?.open) return `Bir sonraki acilis: ${dayLabels[nextDay]} ${s.open}`;
+      if (s?.allDay === true) return t.nextOpening(dayLabels[nextDay], null);
+      if (s?.open) return t.nextOpening(dayLabels[nextDay], s.open);
     }
     return '';
   }
 
+  /**
+   * Show a draft order update: the next required option as a list, or the
+   * summary with confirm buttons. Null when the result has neither.
+   */
+  private async presentDraftUpdate(
+    ctx: FlowContext,
+    result: OrchestrationResult,
+  ): Promise<ConversationPhase | null> {
+    const { tenantId, conversationId } = ctx;
+
+    // Option selection needed — ask via interactive list before confirming order
+    if (result.pendingOptionSelection && result.clarificationQuestion) {
+      await prisma.conversation.update({
+        where: { id: conversationId },
+        data: {
+          flowSubState: 'OPTION_SELECTION',
+          activeOrderId: result.draftOrderId || ctx.conversation.activeOrderId,
+        },
+      });
+      await this.sendOptionSelectionList(ctx, result.pendingOptionSelection);
+      return 'ORDER_COLLECTING';
+    }
+
+    if (result.draftOrderId && result.confirmationMessage) {
+      await inboxService.updateConversationPhase(
+        tenantId, conversationId, 'ORDER_REVIEW', result.draftOrderId,
+      );
+      await this.sendOrderConfirmButtons(ctx, result.confirmationMessage);
+      await this.checkMinBasketWarning(ctx, result.draftOrderId);
+      return 'ORDER_REVIEW';
+    }
+
+    return null;
+  }
+
+  /**
+   * Open order from the last 2 hours that new items are added to (seamless
+   * addition). Older orders should not intercept new order attempts.
+   */
+  private async findSeamlessParentOrder(ctx: FlowContext) {
+    const activeParentOrder = await orderService.findActiveOrderForConversation(
+      ctx.tenantId, ctx.conversationId,
+    );
+
+    const SESSION_MAX_AGE_MS = 2 * 60 * 60 * 1000; // 2 hours
+    const isRecentOrder = activeParentOrder?.createdAt &&
+      (Date.now() - new Date(activeParentOrder.createdAt).getTime()) < SESSION_MAX_AGE_MS;
+
+    return activeParentOrder && isRecentOrder && ['PENDING_CONFIRMATION', 'CONFIRMED', 'PREPARING', 'READY'].includes(activeParentOrder.status)
+      ? activeParentOrder
+      : null;
+  }
+
   private async sendOrderConfirmButtons(ctx: FlowContext, summaryText: string): Promise<void> {
-    const tmpl = TEMPLATES.orderConfirmButtons;
+    const tmpl = this.t(ctx).orderConfirmButtons;
     await whatsappService.sendInteractiveButtons(
       ctx.tenantId,
       ctx.conversationId,
@@ -2525,7 +3136,9 @@ export class ConversationFlowService {
   }
 
   private async sendOptionSelectionList(ctx: FlowContext, selection: OptionSelectionRequest): Promise<void> {
-    const rows = selection.options.map((o) => ({
+    const t = this.t(ctx);
+    const localized = await this.localizeOptionSelection(ctx, selection);
+    const rows = localized.options.map((o) => ({
       id: o.id,
       title: o.name.substring(0, 24),
       description: o.priceDelta > 0 ? `+${o.priceDelta} ₺` : undefined,
@@ -2534,12 +3147,63 @@ export class ConversationFlowService {
     await whatsappService.sendListMessage(
       ctx.tenantId,
       ctx.conversationId,
-      `${selection.itemName}\n${selection.stepNumber}. ${selection.groupName} seçiminiz:`,
-      'Seçenekler',
-      [{ title: selection.groupName, rows }],
+      t.optionSelectionPrompt(localized.itemName, localized.stepNumber, localized.groupName),
+      t.optionSelectionButton,
+      [{ title: localized.groupName, rows }],
     );
   }
 
+  /**
+   * Replace item, group and option names with the menu's translations for the
+   * conversation language. Row ids are unchanged; handleOptionSelection maps
+   * translated titles back to the original option.
+   */
+  private async localizeOptionSelection(
+    ctx: FlowContext,
+    selection: OptionSelectionRequest,
+  ): Promise<OptionSelectionRequest> {
+    const language = normalizeLanguage(ctx.conversation.language);
+    if (!language || language === DEFAULT_LANGUAGE) return selection;
+
+    const versionId = await menuService.getActiveVersionId(ctx.tenantId);
+    if (!versionId) return selection;
+
+    const item = await prisma.menuItem.findFirst({
+      where: { tenantId: ctx.tenantId, versionId, name: selection.itemName },
+      select: {
+        translations: true,
+        optionGroups: {
+          select: {
+            group: {
+              select: {
+                name: true,
+                translations: true,
+                options: { select: { name: true, translations: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!item) return selection;
+
+    const groups = item.optionGroups.map((og) => og.group);
+    const group = groups.find((g) => g.name.replace(/ \(\d+x\)/, '') === selection.groupName);
+    const candidates = group ? group.options : groups.flatMap((g) => g.options);
+
+    return {
+      ...selection,
+      itemName: translateMenuText(item.translations, language, 'name', selection.itemName),
+      groupName: group
+        ? translateMenuText(group.translations, language, 'name', selection.groupName)
+        : selection.groupName,
+      options: selection.options.map((o) => {
+        const option = candidates.find((c) => c.name === o.name);
+        return option ? { ...o, name: translateMenuText(option.translations, language, 'name', o.name) } : o;
+      }),
+    };
+  }
+
   private async sendPaymentButtons(ctx: FlowContext): Promise<void> {
     // Check if this is a pickup order to adjust button labels
     const order = await this.getActiveOrder(ctx);
@@ -2547,19 +3211,16 @@ export class ConversationFlowService {
 
     if (isPickup) {
       // Pickup: kasada (at the counter)
+      const tmpl = this.t(ctx).pickupPaymentMethodButtons;
       await whatsappService.sendInteractiveButtons(
         ctx.tenantId,
         ctx.conversationId,
-        'Odeme yontemini secin:',
-        [
-          { id: 'pay_cash', title: 'Nakit (kasada)' },
-          { id: 'pay_card_door', title: 'Kart (kasada)' },
-          { id: 'pay_card_online', title: 'Online Kredi Karti' },
-        ],
+        tmpl.body,
+        tmpl.buttons,
       );
     } else {
       // Delivery: kapida (at the door)
-      const tmpl = TEMPLATES.paymentMethodButtons;
+      const tmpl = this.t(ctx).paymentMethodButtons;
       await whatsappService.sendInteractiveButtons(
         ctx.tenantId,
         ctx.conversationId,
@@ -2587,10 +3248,10 @@ export class ConversationFlowService {
         lng: customerLng,
         storeId: nearestStoreId,
       });
-      await this.sendText(ctx, TEMPLATES.addressSaved(name));
+      await this.sendText(ctx, this.t(ctx).addressSaved(name));
     } else {
       logger.warn({ tenantId, conversationId }, 'Missing geo data for address save');
-      await this.sendText(ctx, TEMPLATES.addressNotSaved);
+      await this.sendText(ctx, this.t(ctx).addressNotSaved);
     }
 
     await prisma.conversation.update({
@@ -2607,7 +3268,7 @@ export class ConversationFlowService {
 
     return prisma.order.findFirst({
       where: { id: orderId, tenantId: ctx.tenantId, status: 'DRAFT' },
-      include: { items: true },
+      include: { items: true, coupon: { select: { code: true } } },
     });
   }
 
@@ -2627,7 +3288,7 @@ export class ConversationFlowService {
     });
 
     if (!draft || draft.items.length === 0) {
-      await this.sendText(ctx, TEMPLATES.greeting);
+      await this.sendText(ctx, this.t(ctx).greeting);
       return 'IDLE';
     }
 
@@ -2641,7 +3302,7 @@ export class ConversationFlowService {
       const nonReadyItems = menuItems.filter((mi) => !mi.isReadyFood);
       if (nonReadyItems.length > 0) {
         const names = nonReadyItems.map((i) => i.name).join(', ');
-        await this.sendText(ctx, TEMPLATES.additionReadyFoodOnly(names));
+        await this.sendText(ctx, this.t(ctx).additionReadyFoodOnly(names));
         await prisma.orderItem.deleteMany({ where: { orderId: draftOrderId } });
         await prisma.order.delete({ where: { id: draftOrderId } });
         return 'IDLE';
@@ -2686,16 +3347,16 @@ export class ConversationFlowService {
           additionTotal,
           itemsToAdd.map(i => ({ menuItemName: i.menuItemName, qty: i.qty, unitPrice: i.unitPrice })),
         );
-        await this.sendText(ctx, TEMPLATES.seamlessAdditionPaymentNeeded(
+        await this.sendText(ctx, this.t(ctx).seamlessAdditionPaymentNeeded(
           activeOrder.orderNumber || 0,
           addedItemsSummary,
           additionTotal,
-          payment.checkoutFormUrl || '',
+          payment.checkoutUrl || '',
           updatedOrder.totalPrice,
         ));
       } catch (err) {
         logger.warn({ err, tenantId, orderId: activeOrder.id }, 'Addition payment failed, notifying without payment link');
-        await this.sendText(ctx, TEMPLATES.seamlessAdditionConfirmed(
+        await this.sendText(ctx, this.t(ctx).seamlessAdditionConfirmed(
           activeOrder.orderNumber || 0,
           addedItemsSummary,
           additionTotal,
@@ -2703,7 +3364,7 @@ export class ConversationFlowService {
         ));
       }
     } else {
-      await this.sendText(ctx, TEMPLATES.seamlessAdditionConfirmed(
+      await this.sendText(ctx, this.t(ctx).seamlessAdditionConfirmed(
         activeOrder.orderNumber || 0,
         addedItemsSummary,
         additionTotal,
@@ -2729,7 +3390,7 @@ export class ConversationFlowService {
     // Already paid online — nothing to change
     const wasOnline = await this.wasOriginalPaymentOnline(tenantId, activeOrder.id);
     if (wasOnline) {
-      await this.sendText(ctx, 'Siparisiniz zaten online odeme ile onaylandi. ✅');
+      await this.sendText(ctx, this.t(ctx).paymentChangeAlreadyOnline);
       return 'ORDER_CONFIRMED';
     }
 
@@ -2741,14 +3402,14 @@ export class ConversationFlowService {
         ctx.conversation.customerPhone,
       );
 
-      if (payment.checkoutFormUrl) {
+      if (payment.checkoutUrl) {
         const total = Number(activeOrder.totalPrice);
         await this.sendText(
           ctx,
-          TEMPLATES.paymentChangeLinkSent(
+          this.t(ctx).paymentChangeLinkSent(
             activeOrder.orderNumber || 0,
             total,
-            payment.checkoutFormUrl,
+            payment.checkoutUrl,
           ),
         );
 
@@ -2767,13 +3428,13 @@ export class ConversationFlowService {
       logger.warn({ err: errMsg, tenantId, orderId: activeOrder.id }, 'Payment change link creation failed');
     }
 
-    await this.sendText(ctx, 'Online odeme linki olusturulamadi. Mevcut odeme yonteminiz gecerli olmaya devam edecektir.');
+    await this.sendText(ctx, this.t(ctx).paymentChangeLinkFailed);
     return 'ORDER_CONFIRMED';
   }
 
   private async wasOriginalPaymentOnline(tenantId: string, orderId: string): Promise<boolean> {
     const payment = await prisma.orderPayment.findFirst({
-      where: { tenantId, orderId, method: 'CREDIT_CARD', status: 'SUCCESS' },
+      where: { tenantId, orderId, method: 'CREDIT_CARD', status: { in: ['SUCCESS', 'AUTHORIZED'] } },
     });
     return !!payment;
   }
@@ -2788,16 +3449,14 @@ export class ConversationFlowService {
 
     if (!text || !message.id) return false;
 
-    const result = await nluOrchestratorService.processMessage(
-      tenantId, conversationId, message.id, text,
-    );
+    const result = await this.processWithNlu(ctx, text);
 
     if (result.draftOrderId && result.itemsExtracted) {
       // Items were added to the existing draft order
       const order = await this.getActiveOrder(ctx);
       if (order && order.items.length > 0) {
-        const summary = this.buildOrderSummary(order);
-        await this.sendText(ctx, `Eklendi! Guncel siparisiniz:\n\n${summary}`);
+        const summary = this.buildOrderSummary(ctx, order);
+        await this.sendText(ctx, this.t(ctx).itemAddedSummary(summary));
       }
       return true;
     }
@@ -2814,15 +3473,181 @@ export class ConversationFlowService {
     const orderId = ctx.conversation.activeOrderId;
     if (!orderId) return;
 
-    await prisma.order.updateMany({
+    const order = await prisma.order.findFirst({
       where: { id: orderId, tenantId: ctx.tenantId, status: 'DRAFT' },
-      data: { status: 'CANCELLED' },
+      select: { id: true, status: true, deliveryType: true },
     });
+    if (order) {
+      await orderStatusService.transition(ctx.tenantId, order, 'CANCELLED', { type: 'BOT' });
+    }
 
     await inboxService.updateConversationPhase(ctx.tenantId, ctx.conversationId, 'IDLE', null);
   }
 
-  private buildOrderSummary(order: any): string {
+  /**
+   * Promo code typed during order review: apply it and re-send the summary,
+   * or tell the customer why it does not work. Returns false when the text
+   * holds no code, so it goes on to the usual review handling.
+   */
+  private async tryApplyCoupon(ctx: FlowContext, rawText: string): Promise<boolean> {
+    const { tenantId, conversation } = ctx;
+
+    const coupon = await couponService.findInText(tenantId, rawText);
+    if (!coupon) {
+      // "kupon kodum XYZ" with an unknown code gets an answer instead of going to NLU
+      if (!this.matchesKeyword(normalizeTr(rawText), COUPON_KEYWORDS)) return false;
+      const code = couponService
+        .codeCandidates(rawText)
+        .filter((word) => !this.matchesKeyword(normalizeTr(word), COUPON_KEYWORDS))
+        .pop();
+      if (!code) return false;
+      await this.sendText(ctx, this.t(ctx).couponNotFound(code));
+      return true;
+    }
+
+    const order = await this.getActiveOrder(ctx);
+    if (!order || order.items.length === 0) return false;
+
+    const check = await couponService.checkCoupon(tenantId, coupon, {
+      orderId: order.id,
+      customerPhone: conversation.customerPhone,
+      storeId: order.storeId ?? conversation.nearestStoreId ?? null,
+      parentOrderId: order.parentOrderId,
+      items: order.items,
+    });
+
+    if (!check.ok) {
+      const subtotal = Number(order.totalPrice) + Number(order.couponDiscount);
+      await this.sendText(ctx, this.couponRejectionText(ctx, check.reason, coupon, subtotal));
+      return true;
+    }
+
+    await couponService.applyToOrder(tenantId, order.id, coupon, check.discount);
+    if (order.loyaltyPointsUsed > 0 || order.loyaltyStampsUsed > 0) {
+      // Points already spent may now exceed what is left to pay
+      await loyaltyService.repriceOrder(tenantId, order.id);
+    }
+    await this.sendText(ctx, this.t(ctx).couponApplied(coupon.code, check.discount));
+
+    const updated = await this.getActiveOrder(ctx);
+    if (updated) {
+      await this.sendOrderConfirmButtons(ctx, this.buildOrderSummary(ctx, updated));
+    }
+    return true;
+  }
+
+  private couponRejectionText(
+    ctx: FlowContext,
+    reason: CouponRejection,
+    coupon: { code: string; minBasket: unknown; freeItemName: string | null },
+    subtotal: number,
+  ): string {
+    const t = this.t(ctx);
+    switch (reason) {
+      case 'UNAVAILABLE':
+        return t.couponUnavailable(coupon.code);
+      case 'ALREADY_USED':
+        return t.couponAlreadyUsed(coupon.code);
+      case 'NOT_ELIGIBLE':
+        return t.couponNotEligible(coupon.code);
+      case 'MIN_BASKET':
+        return t.couponMinBasket(coupon.code, Number(coupon.minBasket), subtotal);
+      case 'FREE_ITEM_MISSING':
+        return t.couponFreeItemMissing(coupon.code, coupon.freeItemName ?? '');
+    }
+  }
+
+  /** Last check of the order's coupon before payment; the customer hears when it came off */
+  private async revalidateCoupon(ctx: FlowContext, orderId: string): Promise<void> {
+    const removed = await couponService.revalidateOrder(
+      ctx.tenantId,
+      orderId,
+      ctx.conversation.customerPhone,
+    );
+    if (removed) {
+      await this.sendText(ctx, this.t(ctx).couponRemoved(removed.code, removed.totalPrice));
+    }
+  }
+
+  /** "puanim": the customer's points or stamp card */
+  private async sendLoyaltyBalance(ctx: FlowContext): Promise<void> {
+    const t = this.t(ctx);
+    const balance = await loyaltyService.getBalance(ctx.tenantId, ctx.conversation.customerPhone);
+    if (!balance) {
+      await this.sendText(ctx, t.loyaltyNotAvailable);
+      return;
+    }
+
+    const { settings } = balance;
+    await this.sendText(
+      ctx,
+      settings.type === 'POINTS'
+        ? t.loyaltyPointsBalance(
+            balance.points,
+            Math.round(balance.points * settings.pointValue * 100) / 100,
+            settings.minRedeemPoints,
+          )
+        : t.loyaltyStampsBalance(balance.stamps, settings.stampsRequired, settings.stampItemName ?? ''),
+    );
+  }
+
+  /** "puan kullan" on the summary: spend the balance and re-send the summary, or say why not */
+  private async applyLoyalty(ctx: FlowContext): Promise<void> {
+    const { tenantId, conversation } = ctx;
+    const order = await this.getActiveOrder(ctx);
+    if (!order || order.items.length === 0) {
+      await this.sendText(ctx, this.t(ctx).orderEmpty);
+      return;
+    }
+
+    const result = await loyaltyService.applyToOrder(tenantId, order.id, conversation.customerPhone);
+    if (!result.ok) {
+      await this.sendText(ctx, await this.loyaltyRejectionText(ctx, result.reason));
+      return;
+    }
+
+    const t = this.t(ctx);
+    if (result.points > 0) {
+      await this.sendText(ctx, t.loyaltyPointsApplied(result.points, result.discount));
+    } else {
+      const settings = await loyaltyService.getSettings(tenantId);
+      await this.sendText(ctx, t.loyaltyStampApplied(settings.stampItemName ?? '', result.discount));
+    }
+
+    const updated = await this.getActiveOrder(ctx);
+    if (updated) {
+      await this.sendOrderConfirmButtons(ctx, this.buildOrderSummary(ctx, updated));
+    }
+  }
+
+  private async loyaltyRejectionText(ctx: FlowContext, reason: LoyaltyRejection): Promise<string> {
+    const t = this.t(ctx);
+    if (reason === 'DISABLED') return t.loyaltyNotAvailable;
+    if (reason === 'NOT_ELIGIBLE') return t.loyaltyNotEligible;
+
+    const balance = await loyaltyService.getBalance(ctx.tenantId, ctx.conversation.customerPhone);
+    if (!balance) return t.loyaltyNotAvailable;
+    const { settings } = balance;
+    const itemName = settings.stampItemName ?? '';
+    if (reason === 'ITEM_MISSING') return t.loyaltyStampItemMissing(itemName);
+    return settings.type === 'POINTS'
+      ? t.loyaltyPointsNotEnough(balance.points, settings.minRedeemPoints)
+      : t.loyaltyStampsNotEnough(balance.stamps, settings.stampsRequired, itemName);
+  }
+
+  /** Last check of the order's loyalty spend before payment */
+  private async revalidateLoyalty(ctx: FlowContext, orderId: string): Promise<void> {
+    const removed = await loyaltyService.revalidateOrder(
+      ctx.tenantId,
+      orderId,
+      ctx.conversation.customerPhone,
+    );
+    if (removed) {
+      await this.sendText(ctx, this.t(ctx).loyaltyRemoved(removed.totalPrice));
+    }
+  }
+
+  private buildOrderSummary(ctx: FlowContext, order: any): string {
     const items = order.items.map((item: any) => {
       const options: string[] = [];
       if (item.optionsJson && Array.isArray(item.optionsJson)) {
@@ -2838,8 +3663,15 @@ export class ConversationFlowService {
         notes: item.notes || null,
       };
     });
-    const total = Number(order.totalPrice);
-    return TEMPLATES.orderSummary(items, total, undefined, order.notes);
+    // Prisma orders carry the coupon relation, OrderDto the flat code
+    const couponCode: string | null = order.coupon?.code ?? order.couponCode ?? null;
+    const couponDiscount = Number(order.couponDiscount ?? 0);
+    const coupon = couponCode ? { code: couponCode, discount: couponDiscount } : null;
+    const loyaltyDiscount = Number(order.loyaltyDiscount ?? 0);
+    const loyalty =
+      loyaltyDiscount > 0 ? { points: order.loyaltyPointsUsed ?? 0, discount: loyaltyDiscount } : null;
+    const total = Number(order.totalPrice) + couponDiscount + loyaltyDiscount;
+    return this.t(ctx).orderSummary(items, total, undefined, order.notes, coupon, loyalty);
   }
 
   private matchesKeyword(text: string, keywords: string[]): boolean {
@@ -2878,6 +3710,58 @@ export class ConversationFlowService {
     return strongConfirmKeywords.some((kw) => words.includes(kw));
   }
 
+  /**
+   * Answer a menu request: the catalog product list when the tenant links a
+   * Meta catalog, otherwise the interactive category list. Uploaded menu
+   * media is the fallback when the active menu has no items.
+   * Returns false if nothing could be shown.
+   */
+  private async sendMenu(ctx: FlowContext): Promise<boolean> {
+    if (await this.sendCatalog(ctx)) return true;
+    if (await this.sendMenuCategories(ctx, 0)) return true;
+    return this.sendMenuMedia(ctx);
+  }
+
+  /**
+   * Category list (one page). Adds a row for menu media when any is uploaded.
+   */
+  private async sendMenuCategories(ctx: FlowContext, page: number): Promise<boolean> {
+    const { menuMediaService } = await import('./menu-media.service');
+    const media = await menuMediaService.getMediaForTenant(ctx.tenantId);
+    const t = this.t(ctx);
+
+    const list = await menuBrowseService.getCategoryList(ctx.tenantId, t, page, media.length > 0);
+    if (!list) return false;
+
+    await whatsappService.sendListMessage(
+      ctx.tenantId,
+      ctx.conversationId,
+      t.menuBrowseIntro,
+      t.menuBrowseButton,
+      [{ title: list.sectionTitle, rows: list.rows }],
+    );
+    return true;
+  }
+
+  /**
+   * Multi-product message from the tenant's linked catalog.
+   * Returns false (so the lists are used) when no catalog is linked, no menu
+   * item has a retailer id, or Meta rejects the message.
+   */
+  private async sendCatalog(ctx: FlowContext): Promise<boolean> {
+    const catalogId = await whatsappConfigService.getCatalogId(ctx.tenantId);
+    if (!catalogId) return false;
+
+    const sections = await menuBrowseService.getCatalogSections(ctx.tenantId);
+    if (sections.length === 0) return false;
+
+    const t = this.t(ctx);
+    const sent = await whatsappService.sendProductList(
+      ctx.tenantId, ctx.conversationId, catalogId, t.catalogHeader, t.catalogIntro, sections,
+    );
+    return !!sent.externalId;
+  }
+
   /**
    * Send uploaded menu media (images/PDFs) to the customer.
    * Returns true if media was sent, false if no media uploaded.
@@ -2888,7 +3772,7 @@ export class ConversationFlowService {
 
     if (media.length === 0) return false;
 
-    await this.sendText(ctx, TEMPLATES.menuMediaIntro);
+    await this.sendText(ctx, this.t(ctx).menuMediaIntro);
 
     for (const item of media) {
       if (item.type === 'IMAGE') {
@@ -2904,7 +3788,7 @@ export class ConversationFlowService {
       }
     }
 
-    await this.sendText(ctx, TEMPLATES.menuMediaFooter);
+    await this.sendText(ctx, this.t(ctx).menuMediaFooter);
     return true;
   }
 
@@ -2963,14 +3847,17 @@ export class ConversationFlowService {
 
   /**
    * Send a status notification to customer via WhatsApp
-   * Called by webhook route when POS sends status updates
+   * Called by webhook route when POS sends status updates; falls back to the
+   * event's template when the session window has closed
    */
   async sendStatusNotification(
     tenantId: string,
     conversationId: string,
     message: string,
+    event: TemplateEvent,
+    variables: TemplateVariables = {},
   ): Promise<void> {
-    await whatsappService.sendText(tenantId, conversationId, message);
+    await whatsappService.sendNotification(tenantId, conversationId, event, message, variables);
   }
 }
 
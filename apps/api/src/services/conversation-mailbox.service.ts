@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import redis from '../db/redis';
+import { createLogger } from '../logger';
+
+const logger = createLogger();
+
+const LEASE_TTL_MS = 30_000;
+const LEASE_RENEW_MS = 10_000;
+const WAIT_POLL_MS = 100;
+const WAIT_TIMEOUT_MS = 60_000;
+
+// Delete / extend the lease only if we still own it
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+const RENEW_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+interface MailboxLease {
+  conversationId: string;
+  token: string;
+  local: boolean;
+  renewTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Per-conversation mailbox lease.
+ *
+ * Only the holder of a conversation's lease may run the conversation flow for
+ * it, so messages are handled one at a time and in order even when the API and
+ * the worker drain the inbound queue concurrently. The lease lives in Redis
+ * (shared across processes) and is renewed while the holder is working; if
+ * Redis is unreachable it degrades to a process-local lock.
+ */
+export class ConversationMailboxService {
+  private localLeases = new Set<string>();
+
+  private leaseKey(conversationId: string): string {
+    return `conversation:${conversationId}:mailbox:lease`;
+  }
+
+  /**
+   * Run fn while holding the conversation's lease.
+   * Returns ran=false immediately if another consumer holds it.
+   */
+  async tryRun<T>(
+    conversationId: string,
+    fn: () => Promise<T>
+  ): Promise<{ ran: false } | { ran: true; result: T }> {
+    const lease = await this.acquire(conversationId);
+    if (!lease) return { ran: false };
+
+    try {
+      return { ran: true, result: await fn() };
+    } finally {
+      await this.release(lease);
+    }
+  }
+
+  /**
+   * Run fn while holding the conversation's lease, waiting for the current
+   * holder to finish first.
+   */
+  async runExclusive<T>(conversationId: string, fn: () => Promise<T>): Promise<T> {
+    const deadline = Date.now() + WAIT_TIMEOUT_MS;
+    for (;;) {
+      const outcome = await this.tryRun(conversationId, fn);
+      if (outcome.ran) return outcome.result;
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for conversation mailbox ${conversationId}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, WAIT_POLL_MS));
+    }
+  }
+
+  private async acquire(conversationId: string): Promise<MailboxLease | null> {
+    const token = crypto.randomUUID();
+    let acquired: string | null;
+
+    try {
+      acquired = await redis.set(this.leaseKey(conversationId), token, 'PX', LEASE_TTL_MS, 'NX');
+    } catch (error) {
+      logger.warn(
+        { error, conversationId },
+        'Redis unavailable, using process-local mailbox lease'
+      );
+      if (this.localLeases.has(conversationId)) return null;
+      this.localLeases.add(conversationId);
+      return { conversationId, token, local: true };
+    }
+
+    if (acquired !== 'OK') return null;
+
+    const lease: MailboxLease = { conversationId, token, local: false };
+    lease.renewTimer = setInterval(() => {
+      redis
+        .eval(RENEW_SCRIPT, 1, this.leaseKey(conversationId), token, String(LEASE_TTL_MS))
+        .catch((error) => logger.warn({ error, conversationId }, 'Mailbox lease renewal failed'));
+    }, LEASE_RENEW_MS);
+    return lease;
+  }
+
+  private async release(lease: MailboxLease): Promise<void> {
+    if (lease.local) {
+      this.localLeases.delete(lease.conversationId);
+      return;
+    }
+
+    if (lease.renewTimer) clearInterval(lease.renewTimer);
+    try {
+      await redis.eval(RELEASE_SCRIPT, 1, this.leaseKey(lease.conversationId), lease.token);
+    } catch (error) {
+      // The lease expires on its own after LEASE_TTL_MS
+      logger.warn({ error, conversationId: lease.conversationId }, 'Mailbox lease release failed');
+    }
+  }
+}
+
+export const conversationMailboxService = new ConversationMailboxService();
@@ -0,0 +1,550 @@
+import crypto from 'crypto';
+import { Coupon, OrderStatus, Prisma } from '@prisma/client';
+import { CouponDto, CreateCouponDto, UpdateCouponDto } from '@whatres/shared';
+import prisma from '../db/prisma';
+import { AppError } from '../middleware/error-handler';
+import { createLogger } from '../logger';
+
+const logger = createLogger();
+
+/** Orders in these states do not count as a redemption */
+const UNREDEEMED_STATUSES: OrderStatus[] = ['DRAFT', 'CANCELLED'];
+
+/** Minted codes: no 0/O or 1/I so they survive being read aloud */
+const MINT_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const MINT_LENGTH = 7;
+const MINT_PREFIX = 'K';
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+/** Why a code was refused; each maps to a bot message */
+export type CouponRejection =
+  | 'UNAVAILABLE' // inactive, outside its window or used up
+  | 'ALREADY_USED' // the customer's own limit is reached
+  | 'NOT_ELIGIBLE' // other store, segment or recipient
+  | 'MIN_BASKET'
+  | 'FREE_ITEM_MISSING';
+
+export type CouponCheck = { ok: true; discount: number } | { ok: false; reason: CouponRejection };
+
+/** The draft order a code is checked against */
+export interface CouponOrderContext {
+  orderId: string;
+  customerPhone: string;
+  /** Null until the store is known; store limits are checked again at payment */
+  storeId: string | null;
+  parentOrderId: string | null;
+  items: { menuItemName: string; unitPrice: number | Prisma.Decimal; qty: number }[];
+}
+
+export class CouponService {
+  // ==================== COUPONS ====================
+
+  /** Hand-made coupons; codes minted for campaign sends are listed with their campaign */
+  async getCoupons(tenantId: string): Promise<CouponDto[]> {
+    const coupons = await prisma.coupon.findMany({
+      where: { tenantId, campaignSendLogId: null },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const usage = await this.getUsage(
+      tenantId,
+      coupons.map((coupon) => coupon.id)
+    );
+    return coupons.map((coupon) => this.mapToDto(coupon, usage.get(coupon.id)));
+  }
+
+  async getCoupon(tenantId: string, couponId: string): Promise<CouponDto> {
+    const coupon = await this.findCoupon(tenantId, couponId);
+    const usage = await this.getUsage(tenantId, [coupon.id]);
+    return this.mapToDto(coupon, usage.get(coupon.id));
+  }
+
+  async createCoupon(tenantId: string, data: CreateCouponDto): Promise<CouponDto> {
+    const code = this.normalizeCode(data.code);
+    this.validateTerms(data.type, data.value ?? 0, data.freeItemName ?? null);
+    await this.verifyStores(tenantId, data.storeIds ?? []);
+
+    try {
+      const coupon = await prisma.coupon.create({
+        data: {
+          tenantId,
+          code,
+          description: data.description || null,
+          type: data.type,
+          value: data.type === 'FREE_ITEM' ? 0 : (data.value ?? 0),
+          freeItemName: data.type === 'FREE_ITEM' ? data.freeItemName!.trim() : null,
+          minBasket: data.minBasket ?? null,
+          startsAt: data.startsAt ? new Date(data.startsAt) : null,
+          endsAt: data.endsAt ? new Date(data.endsAt) : null,
+          maxUses: data.maxUses ?? null,
+          maxUsesPerCustomer: data.maxUsesPerCustomer ?? null,
+          storeIds: data.storeIds ?? [],
+          segments: data.segments ?? [],
+          isActive: data.isActive ?? true,
+        },
+      });
+
+      logger.info({ tenantId, couponId: coupon.id, code }, 'Coupon created');
+
+      return this.mapToDto(coupon);
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        throw new AppError(409, 'COUPON_CODE_TAKEN', 'A coupon with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  async updateCoupon(
+    tenantId: string,
+    couponId: string,
+    data: UpdateCouponDto
+  ): Promise<CouponDto> {
+    const existing = await this.findCoupon(tenantId, couponId);
+    const type = data.type ?? existing.type;
+    const value = data.value ?? Number(existing.value);
+    const freeItemName =
+      data.freeItemName !== undefined ? data.freeItemName : existing.freeItemName;
+    this.validateTerms(type, value, freeItemName);
+    if (data.storeIds) {
+      await this.verifyStores(tenantId, data.storeIds);
+    }
+
+    try {
+      const coupon = await prisma.coupon.update({
+        where: { id: couponId },
+        data: {
+          ...(data.code !== undefined && { code: this.normalizeCode(data.code) }),
+          ...(data.description !== undefined && { description: data.description || null }),
+          type,
+          value: type === 'FREE_ITEM' ? 0 : value,
+          freeItemName: type === 'FREE_ITEM' ? freeItemName!.trim() : null,
+          ...(data.minBasket !== undefined && { minBasket: data.minBasket }),
+          ...(data.startsAt !== undefined && {
+            startsAt: data.startsAt ? new Date(data.startsAt) : null,
+          }),
+          ...(data.endsAt !== undefined && { endsAt: data.endsAt ? new Date(data.endsAt) : null }),
+          ...(data.maxUses !== undefined && { maxUses: data.maxUses }),
+          ...(data.maxUsesPerCustomer !== undefined && {
+            maxUsesPerCustomer: data.maxUsesPerCustomer,
+          }),
+          ...(data.storeIds !== undefined && { storeIds: data.storeIds }),
+          ...(data.segments !== undefined && { segments: data.segments }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+        },
+      });
+
+      logger.info({ tenantId, couponId }, 'Coupon updated');
+
+      const usage = await this.getUsage(tenantId, [coupon.id]);
+      return this.mapToDto(coupon, usage.get(coupon.id));
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        throw new AppError(409, 'COUPON_CODE_TAKEN', 'A coupon with this code already exists');
+      }
+      throw error;
+    }
+  }
+
+  async deleteCoupon(tenantId: string, couponId: string): Promise<void> {
+    await this.findCoupon(tenantId, couponId);
+
+    // Orders keep their discount but would lose the code; retire used codes instead
+    const orderCount = await prisma.order.count({ where: { tenantId, couponId } });
+    if (orderCount > 0) {
+      throw new AppError(
+        409,
+        'COUPON_IN_USE',
+        'This coupon is on orders already, deactivate it instead'
+      );
+    }
+
+    await prisma.coupon.delete({ where: { id: couponId } });
+
+    logger.info({ tenantId, couponId }, 'Coupon deleted');
+  }
+
+  // ==================== REDEMPTION ====================
+
+  /**
+   * Find a coupon code among the words of a customer message.
+   * Returns the first word that is an existing code of the tenant.
+   */
+  async findInText(tenantId: string, text: string): Promise<Coupon | null> {
+    const candidates = this.codeCandidates(text);
+    if (candidates.length === 0) return null;
+
+    const coupons = await prisma.coupon.findMany({
+      where: { tenantId, code: { in: candidates } },
+    });
+    for (const candidate of candidates) {
+      const coupon = coupons.find((c) => c.code === candidate);
+      if (coupon) return coupon;
+    }
+    return null;
+  }
+
+  /** Words of a message that are shaped like a code, upper-cased */
+  codeCandidates(text: string): string[] {
+    const words = text
+      .toUpperCase()
+      .split(/[\s,.;:!?()'"]+/)
+      .filter((word) => CODE_PATTERN.test(word));
+    return [...new Set(words)].slice(0, 10);
+  }
+
+  /** Validity, limits and restrictions of a coupon for a draft order, and the discount it gives */
+  async checkCoupon(
+    tenantId: string,
+    coupon: Coupon,
+    order: CouponOrderContext
+  ): Promise<CouponCheck> {
+    const now = new Date();
+    if (
+      !coupon.isActive ||
+      (coupon.startsAt && coupon.startsAt > now) ||
+      (coupon.endsAt && coupon.endsAt < now)
+    ) {
+      return { ok: false, reason: 'UNAVAILABLE' };
+    }
+
+    // Additions ride on an order that was already priced
+    if (order.parentOrderId) {
+      return { ok: false, reason: 'NOT_ELIGIBLE' };
+    }
+    if (coupon.customerPhone && coupon.customerPhone !== order.customerPhone) {
+      return { ok: false, reason: 'NOT_ELIGIBLE' };
+    }
+    if (coupon.storeIds.length > 0 && order.storeId && !coupon.storeIds.includes(order.storeId)) {
+      return { ok: false, reason: 'NOT_ELIGIBLE' };
+    }
+    if (coupon.segments.length > 0) {
+      const profile = await prisma.customerProfile.findUnique({
+        where: { tenantId_customerPhone: { tenantId, customerPhone: order.customerPhone } },
+        select: { segment: true },
+      });
+      // Customers without a profile have not ordered yet
+      if (!coupon.segments.includes(profile?.segment ?? 'NEW')) {
+        return { ok: false, reason: 'NOT_ELIGIBLE' };
+      }
+    }
+
+    if (coupon.maxUses != null) {
+      const used = await this.countRedemptions(coupon.id, order.orderId);
+      if (used >= coupon.maxUses) {
+        return { ok: false, reason: 'UNAVAILABLE' };
+      }
+    }
+    if (coupon.maxUsesPerCustomer != null) {
+      const used = await this.countRedemptions(coupon.id, order.orderId, order.customerPhone);
+      if (used >= coupon.maxUsesPerCustomer) {
+        return { ok: false, reason: 'ALREADY_USED' };
+      }
+    }
+
+    return this.calculateDiscount(coupon, order.items);
+  }
+
+  /**
+   * Put a checked coupon on a draft order. totalPrice drops by the discount;
+   * couponDiscount remembers how much so it can be given back.
+   */
+  async applyToOrder(
+    tenantId: string,
+    orderId: string,
+    coupon: Coupon,
+    discount: number
+  ): Promise<void> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      select: { totalPrice: true, couponDiscount: true },
+    });
+    if (!order) {
+      throw new AppError(404, 'ORDER_NOT_FOUND', 'Order not found');
+    }
+
+    const totalBefore = Number(order.totalPrice) + Number(order.couponDiscount);
+    await prisma.order.update({
+      where: { id: orderId },
+      data: {
+        couponId: coupon.id,
+        couponDiscount: discount,
+        totalPrice: round(totalBefore - discount),
+      },
+    });
+
+    logger.info({ tenantId, orderId, couponId: coupon.id, discount }, 'Coupon applied to order');
+  }
+
+  /**
+   * Work the coupon discount out again after the draft's items changed and
+   * totalPrice was re-totalled from them. A coupon the basket no longer
+   * qualifies for comes off the order.
+   */
+  async repriceOrder(tenantId: string, orderId: string): Promise<void> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      include: { items: true, coupon: true },
+    });
+    if (!order?.coupon) return;
+
+    const subtotal = order.items.reduce((sum, item) => sum + Number(item.unitPrice) * item.qty, 0);
+    const check = this.calculateDiscount(order.coupon, order.items);
+    const discount = check.ok ? check.discount : 0;
+
+    await prisma.order.update({
+      where: { id: orderId },
+      data: {
+        ...(!check.ok && { couponId: null }),
+        couponDiscount: discount,
+        totalPrice: round(subtotal - discount),
+      },
+    });
+
+    if (!check.ok) {
+      logger.info(
+        { tenantId, orderId, reason: check.reason },
+        'Coupon dropped after basket change'
+      );
+    }
+  }
+
+  /**
+   * Check the order's coupon once more right before payment, when the store
+   * is known and other orders may have used the code up meanwhile. Returns
+   * the removed code and the new total, or null when the coupon stays.
+   */
+  async revalidateOrder(
+    tenantId: string,
+    orderId: string,
+    customerPhone: string
+  ): Promise<{ code: string; totalPrice: number } | null> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      include: { items: true, coupon: true, conversation: { select: { nearestStoreId: true } } },
+    });
+    if (!order?.coupon) return null;
+
+    const check = await this.checkCoupon(tenantId, order.coupon, {
+      orderId,
+      customerPhone,
+      storeId: order.storeId ?? order.conversation.nearestStoreId,
+      parentOrderId: order.parentOrderId,
+      items: order.items,
+    });
+
+    const previousDiscount = Number(order.couponDiscount);
+    const discount = check.ok ? check.discount : 0;
+    const totalPrice = round(Number(order.totalPrice) + previousDiscount - discount);
+    if (check.ok && discount === previousDiscount) return null;
+
+    await prisma.order.update({
+      where: { id: orderId },
+      data: {
+        ...(!check.ok && { couponId: null }),
+        couponDiscount: discount,
+        totalPrice,
+      },
+    });
+
+    if (check.ok) return null;
+
+    logger.info(
+      { tenantId, orderId, couponId: order.coupon.id, reason: check.reason },
+      'Coupon removed before payment'
+    );
+    return { code: order.coupon.code, totalPrice };
+  }
+
+  // ==================== CAMPAIGN CODES ====================
+
+  /**
+   * Single-use percentage code for one campaign send. Only the recipient can
+   * redeem it, so an order carrying it converts exactly that send.
+   */
+  async mintCampaignCoupon(
+    tenantId: string,
+    data: {
+      campaignSendLogId: string;
+      customerPhone: string;
+      discountPct: number;
+      endsAt: Date;
+      description: string;
+    }
+  ): Promise<Coupon> {
+    for (let attempt = 0; ; attempt++) {
+      const code =
+        MINT_PREFIX +
+        Array.from(
+          { length: MINT_LENGTH },
+          () => MINT_ALPHABET[crypto.randomInt(MINT_ALPHABET.length)]
+        ).join('');
+      try {
+        return await prisma.coupon.create({
+          data: {
+            tenantId,
+            code,
+            description: data.description,
+            type: 'PERCENTAGE',
+            value: data.discountPct,
+            endsAt: data.endsAt,
+            maxUses: 1,
+            maxUsesPerCustomer: 1,
+            customerPhone: data.customerPhone,
+            campaignSendLogId: data.campaignSendLogId,
+          },
+        });
+      } catch (error: any) {
+        // Code collision: draw again
+        if (error.code === 'P2002' && attempt < 4) continue;
+        throw error;
+      }
+    }
+  }
+
+  // ==================== HELPERS ====================
+
+  private calculateDiscount(coupon: Coupon, items: CouponOrderContext['items']): CouponCheck {
+    const subtotal = items.reduce((sum, item) => sum + Number(item.unitPrice) * item.qty, 0);
+    if (coupon.minBasket != null && subtotal < Number(coupon.minBasket)) {
+      return { ok: false, reason: 'MIN_BASKET' };
+    }
+
+    let discount: number;
+    switch (coupon.type) {
+      case 'PERCENTAGE':
+        discount = Math.round(subtotal * Number(coupon.value)) / 100;
+        break;
+      case 'FIXED_AMOUNT':
+        discount = Number(coupon.value);
+        break;
+      case 'FREE_ITEM': {
+        // One unit of the cheapest matching line
+        const name = (coupon.freeItemName ?? '').toLocaleLowerCase('tr').trim();
+        const prices = items
+          .filter((item) => item.menuItemName.toLocaleLowerCase('tr').trim() === name)
+          .map((item) => Number(item.unitPrice));
+        if (prices.length === 0) {
+          return { ok: false, reason: 'FREE_ITEM_MISSING' };
+        }
+        discount = Math.min(...prices);
+        break;
+      }
+    }
+
+    return { ok: true, discount: round(Math.min(discount, subtotal)) };
+  }
+
+  private countRedemptions(
+    couponId: string,
+    exceptOrderId: string,
+    customerPhone?: string
+  ): Promise<number> {
+    return prisma.order.count({
+      where: {
+        couponId,
+        id: { not: exceptOrderId },
+        status: { notIn: UNREDEEMED_STATUSES },
+        ...(customerPhone && { customerPhone }),
+      },
+    });
+  }
+
+  private async getUsage(
+    tenantId: string,
+    couponIds: string[]
+  ): Promise<Map<string, { count: number; discount: number }>> {
+    if (couponIds.length === 0) return new Map();
+
+    const rows = await prisma.order.groupBy({
+      by: ['couponId'],
+      where: { tenantId, couponId: { in: couponIds }, status: { notIn: UNREDEEMED_STATUSES } },
+      _count: { _all: true },
+      _sum: { couponDiscount: true },
+    });
+    return new Map(
+      rows.map((row) => [
+        row.couponId!,
+        { count: row._count._all, discount: Number(row._sum.couponDiscount ?? 0) },
+      ])
+    );
+  }
+
+  private async findCoupon(tenantId: string, couponId: string): Promise<Coupon> {
+    const coupon = await prisma.coupon.findFirst({ where: { id: couponId, tenantId } });
+    if (!coupon) {
+      throw new AppError(404, 'COUPON_NOT_FOUND', 'Coupon not found');
+    }
+    return coupon;
+  }
+
+  private normalizeCode(code: string): string {
+    const normalized = code.trim().toUpperCase();
+    if (!CODE_PATTERN.test(normalized)) {
+      throw new AppError(
+        400,
+        'INVALID_COUPON_CODE',
+        'Codes are 3-32 characters of A-Z, 0-9, - and _'
+      );
+    }
+    return normalized;
+  }
+
+  private validateTerms(
+    type: CreateCouponDto['type'],
+    value: number,
+    freeItemName: string | null
+  ): void {
+    if (type === 'PERCENTAGE' && (value <= 0 || value > 100)) {
+      throw new AppError(400, 'INVALID_COUPON', 'Percentage must be between 0 and 100');
+    }
+    if (type === 'FIXED_AMOUNT' && value <= 0) {
+      throw new AppError(400, 'INVALID_COUPON', 'Amount must be greater than 0');
+    }
+    if (type === 'FREE_ITEM' && !freeItemName?.trim()) {
+      throw new AppError(400, 'INVALID_COUPON', 'Free item coupons need an item');
+    }
+  }
+
+  private async verifyStores(tenantId: string, storeIds: string[]): Promise<void> {
+    if (storeIds.length === 0) return;
+
+    const count = await prisma.store.count({ where: { tenantId, id: { in: storeIds } } });
+    if (count !== new Set(storeIds).size) {
+      throw new AppError(404, 'STORE_NOT_FOUND', 'Store not found');
+    }
+  }
+
+  private mapToDto(coupon: Coupon, usage?: { count: number; discount: number }): CouponDto {
+    return {
+      id: coupon.id,
+      tenantId: coupon.tenantId,
+      code: coupon.code,
+      description: coupon.description,
+      type: coupon.type,
+      value: Number(coupon.value),
+      freeItemName: coupon.freeItemName,
+      minBasket: coupon.minBasket != null ? Number(coupon.minBasket) : null,
+      startsAt: coupon.startsAt?.toISOString() || null,
+      endsAt: coupon.endsAt?.toISOString() || null,
+      maxUses: coupon.maxUses,
+      maxUsesPerCustomer: coupon.maxUsesPerCustomer,
+      storeIds: coupon.storeIds,
+      segments: coupon.segments,
+      customerPhone: coupon.customerPhone,
+      campaignSendLogId: coupon.campaignSendLogId,
+      isActive: coupon.isActive,
+      redemptionCount: usage?.count ?? 0,
+      totalDiscount: round(usage?.discount ?? 0),
+      createdAt: coupon.createdAt.toISOString(),
+      updatedAt: coupon.updatedAt.toISOString(),
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const couponService = new CouponService();
@@ -0,0 +1,624 @@
+import crypto from 'crypto';
+import { Courier, Delivery, Prisma } from '@prisma/client';
+import {
+  CourierDto,
+  CreateCourierDto,
+  UpdateCourierDto,
+  OrderDeliveryDto,
+  CourierAppDto,
+  CourierDeliveryDto,
+  DeliveryTrackingDto,
+  DeliveryStatus,
+  GeoLocation,
+  OrderStatus,
+} from '@whatres/shared';
+import prisma from '../db/prisma';
+import { AppError } from '../middleware/error-handler';
+import { createLogger } from '../logger';
+import { haversineDistance } from './geo.service';
+import { whatsappService } from './whatsapp.service';
+import { botCopyService } from './bot-copy.service';
+import { inboxService } from './inbox.service';
+import { realtimeService } from './realtime.service';
+
+const logger = createLogger();
+
+/** Panel origin; courier app and tracking links point at its pages */
+const WEB_BASE_URL = process.env.WEB_BASE_URL || 'http://localhost:4200';
+
+/** Deliveries the courier still has to finish */
+const OPEN_DELIVERY_STATUSES: DeliveryStatus[] = ['ASSIGNED', 'ACCEPTED', 'PICKED_UP'];
+
+/** Open deliveries whose order is still live (finished orders free the courier) */
+const OPEN_DELIVERY_WHERE: Prisma.DeliveryWhereInput = {
+  status: { in: OPEN_DELIVERY_STATUSES },
+  order: { status: { notIn: ['DELIVERED', 'CANCELLED'] } },
+};
+
+/** Locations older than this are not used for nearest-courier or ETA */
+const LOCATION_MAX_AGE_MS = 10 * 60 * 1000;
+
+/** Average city speed for ETA, with a detour factor over straight-line distance */
+const COURIER_SPEED_KMH = 25;
+const ROAD_FACTOR = 1.3;
+
+type CourierWithStore = Courier & { store: { name: string } | null };
+
+export class CourierService {
+  // ==================== COURIERS ====================
+
+  async getCouriers(tenantId: string, storeId?: string): Promise<CourierDto[]> {
+    const couriers = await prisma.courier.findMany({
+      where: { tenantId, ...(storeId && { storeId }) },
+      include: {
+        store: { select: { name: true } },
+        _count: { select: { deliveries: { where: OPEN_DELIVERY_WHERE } } },
+      },
+      orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+    });
+
+    return couriers.map((courier) => this.mapToDto(courier, courier._count.deliveries));
+  }
+
+  async createCourier(tenantId: string, data: CreateCourierDto): Promise<CourierDto> {
+    await this.verifyStore(tenantId, data.storeId);
+
+    const courier = await prisma.courier.create({
+      data: {
+        tenantId,
+        storeId: data.storeId,
+        name: data.name,
+        phone: data.phone || null,
+        isActive: data.isActive ?? true,
+        accessToken: this.generateToken(),
+      },
+      include: { store: { select: { name: true } } },
+    });
+
+    logger.info({ tenantId, courierId: courier.id }, 'Courier created');
+
+    return this.mapToDto(courier, 0);
+  }
+
+  async updateCourier(
+    tenantId: string,
+    courierId: string,
+    data: UpdateCourierDto
+  ): Promise<CourierDto> {
+    await this.verifyCourier(tenantId, courierId);
+    if (data.storeId) {
+      await this.verifyStore(tenantId, data.storeId);
+    }
+
+    const courier = await prisma.courier.update({
+      where: { id: courierId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.storeId !== undefined && { storeId: data.storeId }),
+        ...(data.phone !== undefined && { phone: data.phone || null }),
+        ...(data.isActive !== undefined && {
+          isActive: data.isActive,
+          // A deactivated courier can't be on duty
+          ...(!data.isActive && { isOnDuty: false }),
+        }),
+      },
+      include: { store: { select: { name: true } } },
+    });
+
+    logger.info({ tenantId, courierId }, 'Courier updated');
+
+    return this.mapToDto(courier, await this.countOpenDeliveries(courierId));
+  }
+
+  async deleteCourier(tenantId: string, courierId: string): Promise<void> {
+    await this.verifyCourier(tenantId, courierId);
+
+    if ((await this.countOpenDeliveries(courierId)) > 0) {
+      throw new AppError(409, 'COURIER_BUSY', 'Courier has deliveries in progress');
+    }
+
+    // Past deliveries go with the courier (CASCADE)
+    await prisma.courier.delete({ where: { id: courierId } });
+
+    logger.info({ tenantId, courierId }, 'Courier deleted');
+  }
+
+  /** Issue a new app link; the old one stops working immediately */
+  async regenerateLink(tenantId: string, courierId: string): Promise<CourierDto> {
+    await this.verifyCourier(tenantId, courierId);
+
+    const courier = await prisma.courier.update({
+      where: { id: courierId },
+      data: { accessToken: this.generateToken() },
+      include: { store: { select: { name: true } } },
+    });
+
+    logger.info({ tenantId, courierId }, 'Courier app link regenerated');
+
+    return this.mapToDto(courier, await this.countOpenDeliveries(courierId));
+  }
+
+  // ==================== DISPATCH ====================
+
+  /**
+   * Assign a READY delivery order to a courier. Without courierId the
+   * nearest available courier of the order's store is picked: active, on
+   * duty, no open delivery, closest by last known location (couriers without
+   * a recent location come last). Reassigning replaces the courier as long
+   * as the order hasn't been picked up.
+   */
+  async assignCourier(
+    tenantId: string,
+    orderId: string,
+    courierId?: string
+  ): Promise<OrderDeliveryDto> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      include: { delivery: true, store: true },
+    });
+
+    if (!order) {
+      throw new AppError(404, 'ORDER_NOT_FOUND', 'Order not found');
+    }
+    if (order.deliveryType !== 'DELIVERY') {
+      throw new AppError(
+        400,
+        'NOT_A_DELIVERY',
+        'Only delivery orders can be assigned to a courier'
+      );
+    }
+    if (order.status !== 'READY') {
+      throw new AppError(400, 'INVALID_STATUS', `Order is ${order.status}, not READY`);
+    }
+    if (order.delivery?.status === 'PICKED_UP') {
+      throw new AppError(409, 'ALREADY_PICKED_UP', 'Courier is already on the way');
+    }
+
+    let courier: Courier;
+    if (courierId) {
+      const found = await prisma.courier.findFirst({
+        where: { id: courierId, tenantId, isActive: true },
+      });
+      if (!found) {
+        throw new AppError(404, 'COURIER_NOT_FOUND', 'Courier not found');
+      }
+      courier = found;
+    } else {
+      if (!order.store) {
+        throw new AppError(400, 'NO_STORE', 'Order has no store to dispatch from');
+      }
+      const nearest = await this.findNearestAvailable(tenantId, order.store);
+      if (!nearest) {
+        throw new AppError(409, 'NO_COURIER_AVAILABLE', 'No courier is available right now');
+      }
+      courier = nearest;
+    }
+
+    const now = new Date();
+    const delivery = await prisma.delivery.upsert({
+      where: { orderId },
+      create: {
+        tenantId,
+        orderId,
+        courierId: courier.id,
+        trackingToken: this.generateToken(),
+        assignedAt: now,
+      },
+      update: {
+        courierId: courier.id,
+        status: 'ASSIGNED',
+        assignedAt: now,
+        acceptedAt: null,
+        pickedUpAt: null,
+        deliveredAt: null,
+      },
+    });
+
+    this.publish(tenantId, delivery);
+    logger.info({ tenantId, orderId, courierId: courier.id, auto: !courierId }, 'Courier assigned');
+
+    return this.mapDelivery({ ...delivery, courier });
+  }
+
+  async unassignCourier(tenantId: string, orderId: string): Promise<void> {
+    const delivery = await prisma.delivery.findFirst({
+      where: { orderId, tenantId, status: { in: OPEN_DELIVERY_STATUSES } },
+    });
+
+    if (!delivery) {
+      throw new AppError(404, 'DELIVERY_NOT_FOUND', 'Order has no open delivery');
+    }
+    if (delivery.status === 'PICKED_UP') {
+      throw new AppError(409, 'ALREADY_PICKED_UP', 'Courier is already on the way');
+    }
+
+    const updated = await prisma.delivery.update({
+      where: { id: delivery.id },
+      data: { status: 'CANCELLED' },
+    });
+
+    this.publish(tenantId, updated);
+    logger.info({ tenantId, orderId, courierId: delivery.courierId }, 'Courier unassigned');
+  }
+
+  private async findNearestAvailable(
+    tenantId: string,
+    store: { id: string; lat: number; lng: number }
+  ): Promise<Courier | null> {
+    const couriers = await prisma.courier.findMany({
+      where: {
+        tenantId,
+        storeId: store.id,
+        isActive: true,
+        isOnDuty: true,
+        deliveries: { none: OPEN_DELIVERY_WHERE },
+      },
+    });
+
+    const ranked = couriers
+      .map((courier) => {
+        const location = this.freshLocation(courier);
+        return {
+          courier,
+          distance: location ? haversineDistance(location, store) : Infinity,
+        };
+      })
+      .sort((a, b) => a.distance - b.distance);
+
+    return ranked[0]?.courier ?? null;
+  }
+
+  // ==================== COURIER APP ====================
+
+  async getCourierApp(token: string): Promise<CourierAppDto> {
+    const courier = await this.findByToken(token);
+
+    const deliveries = await prisma.delivery.findMany({
+      where: { courierId: courier.id, ...OPEN_DELIVERY_WHERE },
+      include: {
+        order: { include: { items: true, conversation: true } },
+      },
+      orderBy: { assignedAt: 'asc' },
+    });
+
+    return {
+      courier: {
+        id: courier.id,
+        name: courier.name,
+        storeName: courier.store?.name || null,
+        isOnDuty: courier.isOnDuty,
+      },
+      deliveries: deliveries.map((delivery) => this.mapCourierDelivery(delivery)),
+    };
+  }
+
+  async setOnDuty(token: string, isOnDuty: boolean): Promise<void> {
+    const courier = await this.findByToken(token);
+
+    await prisma.courier.update({
+      where: { id: courier.id },
+      data: { isOnDuty },
+    });
+
+    logger.info(
+      { tenantId: courier.tenantId, courierId: courier.id, isOnDuty },
+      'Courier duty changed'
+    );
+  }
+
+  async updateLocation(token: string, location: GeoLocation): Promise<void> {
+    const courier = await this.findByToken(token);
+
+    await prisma.courier.update({
+      where: { id: courier.id },
+      data: { lastLat: location.lat, lastLng: location.lng, lastLocationAt: new Date() },
+    });
+  }
+
+  async acceptDelivery(token: string, deliveryId: string): Promise<void> {
+    const { courier, delivery } = await this.findCourierDelivery(token, deliveryId, ['ASSIGNED']);
+
+    const updated = await prisma.delivery.update({
+      where: { id: delivery.id },
+      data: { status: 'ACCEPTED', acceptedAt: new Date() },
+    });
+
+    this.publish(courier.tenantId, updated);
+    logger.info(
+      { tenantId: courier.tenantId, deliveryId, courierId: courier.id },
+      'Delivery accepted'
+    );
+  }
+
+  /**
+   * Courier left the store with the order. Sends the customer the tracking
+   * link (ORDER_DELIVERING, so it also goes out as a template when the
+   * WhatsApp session window is closed).
+   */
+  async pickUpDelivery(token: string, deliveryId: string): Promise<void> {
+    const { courier, delivery } = await this.findCourierDelivery(token, deliveryId, [
+      'ASSIGNED',
+      'ACCEPTED',
+    ]);
+
+    if (delivery.order.status !== 'READY') {
+      throw new AppError(400, 'INVALID_STATUS', 'Order is not ready yet');
+    }
+
+    const now = new Date();
+    const updated = await prisma.delivery.update({
+      where: { id: delivery.id },
+      data: { status: 'PICKED_UP', pickedUpAt: now, acceptedAt: delivery.acceptedAt ?? now },
+    });
+
+    this.publish(courier.tenantId, updated);
+    logger.info(
+      { tenantId: courier.tenantId, deliveryId, courierId: courier.id },
+      'Delivery picked up'
+    );
+
+    const { order } = delivery;
+    if (order.orderNumber) {
+      try {
+        const trackingUrl = this.trackingUrl(delivery.trackingToken);
+        const t = await botCopyService.getTemplates(
+          courier.tenantId,
+          await inboxService.getConversationLanguage(courier.tenantId, order.conversationId)
+        );
+        await whatsappService.sendNotification(
+          courier.tenantId,
+          order.conversationId,
+          'ORDER_DELIVERING',
+          t.orderOnTheWay(order.orderNumber, trackingUrl),
+          {
+            orderNumber: order.orderNumber,
+            customerName: order.customerName,
+            storeName: courier.store?.name,
+            trackingUrl,
+          }
+        );
+      } catch (error) {
+        logger.error(
+          { error, tenantId: courier.tenantId, orderId: order.id },
+          'Failed to send tracking link to customer'
+        );
+      }
+    }
+  }
+
+  /**
+   * Handed over to the customer. The order goes through updateOrderStatus,
+   * so the customer gets orderDelivered and the survey like any delivery.
+   */
+  async completeDelivery(token: string, deliveryId: string): Promise<void> {
+    const { courier, delivery } = await this.findCourierDelivery(token, deliveryId, ['PICKED_UP']);
+
+    const { orderService } = await import('./order.service');
+    await orderService.updateOrderStatus(
+      courier.tenantId,
+      delivery.orderId,
+      'DELIVERED',
+      { type: 'COURIER' },
+      `Kurye: ${courier.name}`
+    );
+
+    const updated = await prisma.delivery.update({
+      where: { id: delivery.id },
+      data: { status: 'DELIVERED', deliveredAt: new Date() },
+    });
+
+    this.publish(courier.tenantId, updated);
+    logger.info(
+      { tenantId: courier.tenantId, deliveryId, courierId: courier.id },
+      'Delivery completed'
+    );
+  }
+
+  // ==================== TRACKING ====================
+
+  async getTracking(trackingToken: string): Promise<DeliveryTrackingDto> {
+    const delivery = await prisma.delivery.findUnique({
+      where: { trackingToken },
+      include: {
+        courier: true,
+        order: { include: { store: { select: { name: true } }, conversation: true } },
+      },
+    });
+
+    if (!delivery || delivery.status === 'CANCELLED') {
+      throw new AppError(404, 'TRACKING_NOT_FOUND', 'Tracking link not found');
+    }
+
+    const { order, courier } = delivery;
+    const destination = this.destination(order.conversation);
+    const onTheWay = delivery.status === 'PICKED_UP' && order.status === 'READY';
+    // Only share the courier's position while they are carrying this order
+    const location = onTheWay ? this.freshLocation(courier) : null;
+
+    let etaMinutes: number | null = null;
+    if (location && destination) {
+      const km = haversineDistance(location, destination) * ROAD_FACTOR;
+      etaMinutes = Math.max(1, Math.ceil((km / COURIER_SPEED_KMH) * 60));
+    }
+
+    return {
+      orderNumber: order.orderNumber,
+      storeName: order.store?.name || null,
+      orderStatus: order.status as OrderStatus,
+      deliveryStatus: delivery.status,
+      courierName: courier.name,
+      courierLocation:
+        location && courier.lastLocationAt
+          ? { ...location, updatedAt: courier.lastLocationAt.toISOString() }
+          : null,
+      destination,
+      etaMinutes,
+      pickedUpAt: delivery.pickedUpAt?.toISOString() || null,
+      deliveredAt: delivery.deliveredAt?.toISOString() || null,
+    };
+  }
+
+  // ==================== HELPERS ====================
+
+  /** Order DTO delivery field; tracking link included for the panel to share */
+  mapDelivery(delivery: Delivery & { courier: { name: string } }): OrderDeliveryDto {
+    return {
+      id: delivery.id,
+      courierId: delivery.courierId,
+      courierName: delivery.courier.name,
+      status: delivery.status,
+      trackingUrl: this.trackingUrl(delivery.trackingToken),
+      assignedAt: delivery.assignedAt.toISOString(),
+      acceptedAt: delivery.acceptedAt?.toISOString() || null,
+      pickedUpAt: delivery.pickedUpAt?.toISOString() || null,
+      deliveredAt: delivery.deliveredAt?.toISOString() || null,
+    };
+  }
+
+  private async findByToken(token: string): Promise<CourierWithStore> {
+    const courier = await prisma.courier.findUnique({
+      where: { accessToken: token },
+      include: { store: { select: { name: true } } },
+    });
+
+    if (!courier || !courier.isActive) {
+      throw new AppError(404, 'COURIER_NOT_FOUND', 'Courier link is invalid or disabled');
+    }
+
+    return courier;
+  }
+
+  private async findCourierDelivery(token: string, deliveryId: string, from: DeliveryStatus[]) {
+    const courier = await this.findByToken(token);
+    const delivery = await prisma.delivery.findFirst({
+      where: { id: deliveryId, courierId: courier.id },
+      include: { order: true },
+    });
+
+    if (!delivery) {
+      throw new AppError(404, 'DELIVERY_NOT_FOUND', 'Delivery not found');
+    }
+    if (
+      !from.includes(delivery.status) ||
+      ['DELIVERED', 'CANCELLED'].includes(delivery.order.status)
+    ) {
+      throw new AppError(400, 'INVALID_STATUS', `Delivery is ${delivery.status}`);
+    }
+
+    return { courier, delivery };
+  }
+
+  private async verifyCourier(tenantId: string, courierId: string): Promise<void> {
+    const courier = await prisma.courier.findFirst({
+      where: { id: courierId, tenantId },
+      select: { id: true },
+    });
+
+    if (!courier) {
+      throw new AppError(404, 'COURIER_NOT_FOUND', 'Courier not found');
+    }
+  }
+
+  private async verifyStore(tenantId: string, storeId: string): Promise<void> {
+    const store = await prisma.store.findFirst({
+      where: { id: storeId, tenantId },
+      select: { id: true },
+    });
+
+    if (!store) {
+      throw new AppError(404, 'STORE_NOT_FOUND', 'Store not found');
+    }
+  }
+
+  private countOpenDeliveries(courierId: string): Promise<number> {
+    return prisma.delivery.count({ where: { courierId, ...OPEN_DELIVERY_WHERE } });
+  }
+
+  private freshLocation(courier: Courier): GeoLocation | null {
+    if (courier.lastLat === null || courier.lastLng === null || !courier.lastLocationAt) {
+      return null;
+    }
+    if (Date.now() - courier.lastLocationAt.getTime() > LOCATION_MAX_AGE_MS) {
+      return null;
+    }
+    return { lat: courier.lastLat, lng: courier.lastLng };
+  }
+
+  /** Drop-off point: the location the customer shared in the conversation */
+  private destination(conversation: {
+    customerLat: number | null;
+    customerLng: number | null;
+  }): GeoLocation | null {
+    if (conversation.customerLat === null || conversation.customerLng === null) return null;
+    return { lat: conversation.customerLat, lng: conversation.customerLng };
+  }
+
+  private publish(tenantId: string, delivery: Delivery): void {
+    realtimeService.publish(tenantId, {
+      type: 'delivery.updated',
+      orderId: delivery.orderId,
+      deliveryId: delivery.id,
+      status: delivery.status,
+    });
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(24).toString('base64url');
+  }
+
+  private appUrl(token: string): string {
+    return `${WEB_BASE_URL}/courier/${token}`;
+  }
+
+  private trackingUrl(token: string): string {
+    return `${WEB_BASE_URL}/track/${token}`;
+  }
+
+  private mapCourierDelivery(
+    delivery: Delivery & {
+      order: Prisma.OrderGetPayload<{ include: { items: true; conversation: true } }>;
+    }
+  ): CourierDeliveryDto {
+    const { order } = delivery;
+    return {
+      id: delivery.id,
+      status: delivery.status,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      orderStatus: order.status as OrderStatus,
+      customerName: order.customerName,
+      customerPhone: order.customerPhone,
+      deliveryAddress: order.deliveryAddress,
+      destination: this.destination(order.conversation),
+      paymentMethod: order.paymentMethod,
+      totalPrice: Number(order.totalPrice),
+      notes: order.notes,
+      items: order.items.map((item) => ({ name: item.menuItemName, qty: item.qty })),
+      assignedAt: delivery.assignedAt.toISOString(),
+      acceptedAt: delivery.acceptedAt?.toISOString() || null,
+      pickedUpAt: delivery.pickedUpAt?.toISOString() || null,
+    };
+  }
+
+  private mapToDto(courier: CourierWithStore, activeDeliveries: number): CourierDto {
+    return {
+      id: courier.id,
+      tenantId: courier.tenantId,
+      storeId: courier.storeId,
+      storeName: courier.store?.name || null,
+      name: courier.name,
+      phone: courier.phone,
+      isActive: courier.isActive,
+      isOnDuty: courier.isOnDuty,
+      lastLat: courier.lastLat,
+      lastLng: courier.lastLng,
+      lastLocationAt: courier.lastLocationAt?.toISOString() || null,
+      activeDeliveries,
+      appUrl: this.appUrl(courier.accessToken),
+      createdAt: courier.createdAt.toISOString(),
+      updatedAt: courier.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const courierService = new CourierService();
@@ -0,0 +1,609 @@
+import prisma from '../db/prisma';
+import { AppError } from '../middleware/error-handler';
+import { createLogger } from '../logger';
+import { OrderPaymentStatus, Prisma } from '@prisma/client';
+import {
+  CloseDayDto,
+  DayCloseDto,
+  OrderAdjustmentChangeDto,
+  PrintJobPayload,
+  PrintJobReportSection,
+  ZReportAmountDto,
+  ZReportDto,
+} from '@whatres/shared';
+import { realtimeService } from './realtime.service';
+import { localParts, zonedTime } from '../utils/zoned-time';
+
+const logger = createLogger();
+
+/** Card payments in these states count as paid online */
+const ONLINE_PAID_STATUSES: OrderPaymentStatus[] = ['SUCCESS', 'AUTHORIZED', 'REFUNDED'];
+
+/** Relations the day close DTO mapping reads */
+const DAY_CLOSE_INCLUDE = {
+  store: { select: { name: true } },
+  closedBy: { select: { name: true } },
+} satisfies Prisma.DayCloseInclude;
+
+type DayCloseRecord = Prisma.DayCloseGetPayload<{ include: typeof DAY_CLOSE_INCLUDE }>;
+
+interface ClosingStore {
+  id: string;
+  tenantId: string;
+  name: string;
+  timezone: string;
+}
+
+interface ReportPayment {
+  method: string;
+  status: OrderPaymentStatus;
+  refundedAmount: Prisma.Decimal;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const emptyAmount = (): ZReportAmountDto => ({ count: 0, amount: 0 });
+
+export class DayCloseService {
+  // ==================== REPORT ====================
+
+  /** Z-report of the store's open day so far; nothing is saved */
+  async getPreview(tenantId: string, storeId: string): Promise<ZReportDto> {
+    const store = await this.findStore(tenantId, storeId);
+    const now = new Date();
+    return this.buildReport(store, await this.getPeriodStart(store, now), now);
+  }
+
+  // ==================== CLOSE ====================
+
+  /**
+   * Close the store's day: snapshot the Z-report, record the counted cash
+   * and its variance, and queue the printout. The next report starts here.
+   */
+  async closeDay(tenantId: string, dto: CloseDayDto, userId: string): Promise<DayCloseDto> {
+    const store = await this.findStore(tenantId, dto.storeId);
+    const now = new Date();
+    const report = await this.buildReport(store, await this.getPeriodStart(store, now), now);
+    const countedCash = round(dto.countedCash);
+    const cashVariance = round(countedCash - report.expectedCash);
+
+    let dayCloseId: string;
+    try {
+      dayCloseId = await prisma.$transaction(async (tx) => {
+        const dayClose = await tx.dayClose.create({
+          data: {
+            tenantId,
+            storeId: store.id,
+            businessDate: report.businessDate,
+            periodStart: new Date(report.periodStart),
+            periodEnd: now,
+            reportJson: report as unknown as Prisma.InputJsonValue,
+            expectedCash: report.expectedCash,
+            countedCash,
+            cashVariance,
+            note: dto.note || null,
+            closedByUserId: userId,
+          },
+        });
+
+        if (dto.print !== false) {
+          await this.createPrintJob(tx, tenantId, dayClose.id, report, store.timezone, {
+            countedCash,
+            note: dto.note,
+          });
+        }
+        return dayClose.id;
+      });
+    } catch (error) {
+      // Another close of the same period won the race
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new AppError(409, 'DAY_ALREADY_CLOSED', 'This day has just been closed');
+      }
+      throw error;
+    }
+
+    if (dto.print !== false) {
+      realtimeService.publish(tenantId, { type: 'print_job.created', orderId: null });
+    }
+
+    logger.info(
+      { tenantId, storeId: store.id, dayCloseId, expectedCash: report.expectedCash, countedCash },
+      'Store day closed'
+    );
+
+    return this.getDayClose(tenantId, dayCloseId);
+  }
+
+  async getDayCloses(tenantId: string, storeId?: string, limit = 30): Promise<DayCloseDto[]> {
+    const dayCloses = await prisma.dayClose.findMany({
+      where: { tenantId, ...(storeId && { storeId }) },
+      include: DAY_CLOSE_INCLUDE,
+      orderBy: { periodEnd: 'desc' },
+      take: limit,
+    });
+
+    return Promise.all(dayCloses.map((dayClose) => this.mapToDto(dayClose)));
+  }
+
+  async getDayClose(tenantId: string, dayCloseId: string): Promise<DayCloseDto> {
+    const dayClose = await prisma.dayClose.findFirst({
+      where: { id: dayCloseId, tenantId },
+      include: DAY_CLOSE_INCLUDE,
+    });
+
+    if (!dayClose) {
+      throw new AppError(404, 'DAY_CLOSE_NOT_FOUND', 'Day close not found');
+    }
+
+    return this.mapToDto(dayClose);
+  }
+
+  /** Queue the Z-report of a closed day for printing again */
+  async reprint(tenantId: string, dayCloseId: string): Promise<void> {
+    const dayClose = await prisma.dayClose.findFirst({
+      where: { id: dayCloseId, tenantId },
+      include: { store: { select: { timezone: true } } },
+    });
+
+    if (!dayClose) {
+      throw new AppError(404, 'DAY_CLOSE_NOT_FOUND', 'Day close not found');
+    }
+
+    await this.createPrintJob(
+      prisma,
+      tenantId,
+      dayClose.id,
+      dayClose.reportJson as unknown as ZReportDto,
+      dayClose.store.timezone,
+      { countedCash: Number(dayClose.countedCash), note: dayClose.note }
+    );
+    realtimeService.publish(tenantId, { type: 'print_job.created', orderId: null });
+  }
+
+  // ==================== HELPERS ====================
+
+  private async findStore(tenantId: string, storeId: string): Promise<ClosingStore> {
+    const store = await prisma.store.findFirst({
+      where: { id: storeId, tenantId },
+      select: { id: true, tenantId: true, name: true, timezone: true },
+    });
+
+    if (!store) {
+      throw new AppError(404, 'STORE_NOT_FOUND', 'Store not found');
+    }
+
+    return store;
+  }
+
+  /** End of the previous close; local midnight for a store closing its first day */
+  private async getPeriodStart(store: ClosingStore, now: Date): Promise<Date> {
+    const previous = await prisma.dayClose.findFirst({
+      where: { storeId: store.id },
+      orderBy: { periodEnd: 'desc' },
+      select: { periodEnd: true },
+    });
+    if (previous) return previous.periodEnd;
+
+    const local = localParts(now, store.timezone);
+    return zonedTime(store.timezone, local.year, local.month, local.day, 0, 0);
+  }
+
+  /**
+   * Orders belong to the period they were confirmed in. Cancellations,
+   * adjustments and refunds count in the period they happen, so changes to
+   * orders of a closed day land in the next report instead of rewriting the
+   * old one. Adjustment refunds are booked at the adjustment; the rest of a
+   * cancelled order's card refund at the cancellation.
+   */
+  private async buildReport(store: ClosingStore, start: Date, end: Date): Promise<ZReportDto> {
+    const period = { gte: start, lt: end };
+    const [orders, cancelled, priorAdjustments, adjustmentRefunds, pendingOrders] =
+      await Promise.all([
+        prisma.order.findMany({
+          where: {
+            tenantId: store.tenantId,
+            storeId: store.id,
+            confirmedAt: period,
+            status: { not: 'CANCELLED' },
+          },
+          select: {
+            status: true,
+            totalPrice: true,
+            discountAmount: true,
+            couponDiscount: true,
+            loyaltyDiscount: true,
+            paymentMethod: true,
+            createdAt: true,
+            items: { select: { menuItemId: true, qty: true } },
+            orderPayments: { select: { method: true, status: true, refundedAmount: true } },
+            adjustments: { select: { changesJson: true } },
+          },
+        }),
+        prisma.order.findMany({
+          where: {
+            tenantId: store.tenantId,
+            storeId: store.id,
+            status: 'CANCELLED',
+            cancelledAt: period,
+          },
+          select: {
+            totalPrice: true,
+            confirmedAt: true,
+            orderPayments: { select: { method: true, status: true, refundedAmount: true } },
+            adjustments: { where: { refundStatus: 'SUCCESS' }, select: { refundAmount: true } },
+          },
+        }),
+        prisma.orderAdjustment.findMany({
+          where: {
+            tenantId: store.tenantId,
+            createdAt: period,
+            order: { storeId: store.id, confirmedAt: { lt: start } },
+          },
+          select: { previousTotal: true, newTotal: true },
+        }),
+        prisma.orderAdjustment.findMany({
+          where: {
+            tenantId: store.tenantId,
+            createdAt: period,
+            refundStatus: 'SUCCESS',
+            refundAmount: { gt: 0 },
+            order: { storeId: store.id },
+          },
+          select: { refundAmount: true },
+        }),
+        prisma.order.count({
+          where: { tenantId: store.tenantId, storeId: store.id, status: 'PENDING_CONFIRMATION' },
+        }),
+      ]);
+
+    const itemDiscounts = await this.getItemDiscounts(orders);
+
+    const payments: ZReportDto['payments'] = {
+      cash: emptyAmount(),
+      cardAtDoor: emptyAmount(),
+      online: emptyAmount(),
+      other: emptyAmount(),
+    };
+    const discounts = { pickup: 0, item: 0, goodwill: 0, coupon: 0, loyalty: 0, total: 0 };
+    const refunds = emptyAmount();
+    let netSales = 0;
+    let openOrders = 0;
+
+    for (const order of orders) {
+      const total = Number(order.totalPrice);
+      const bucket = payments[this.paymentBucket(order.paymentMethod, order.orderPayments)];
+      bucket.count++;
+      bucket.amount += total;
+      netSales += total;
+
+      // Goodwill discounts are booked into discountAmount next to the pickup discount
+      const goodwill = order.adjustments.reduce(
+        (sum, adjustment) =>
+          sum +
+          (adjustment.changesJson as unknown as OrderAdjustmentChangeDto[])
+            .filter((change) => change.type === 'DISCOUNT')
+            .reduce((s, change) => s - change.amount, 0),
+        0
+      );
+      discounts.goodwill += goodwill;
+      discounts.pickup += Number(order.discountAmount ?? 0) - goodwill;
+      discounts.coupon += Number(order.couponDiscount);
+      discounts.loyalty += Number(order.loyaltyDiscount);
+      discounts.item += order.items.reduce(
+        (sum, item) =>
+          sum + (itemDiscounts.get(item.menuItemId)?.(order.createdAt) ?? 0) * item.qty,
+        0
+      );
+
+      if (order.status !== 'DELIVERED') openOrders++;
+    }
+
+    const cancellations = emptyAmount();
+    const priorCancellations = emptyAmount();
+    for (const order of cancelled) {
+      cancellations.count++;
+      cancellations.amount += Number(order.totalPrice);
+      if (order.confirmedAt && order.confirmedAt < start) {
+        priorCancellations.count++;
+        priorCancellations.amount += Number(order.totalPrice);
+      }
+      // Adjustment refunds were booked when they happened
+      const adjusted = order.adjustments.reduce((sum, a) => sum + Number(a.refundAmount), 0);
+      this.addRefund(refunds, this.cardRefunded(order.orderPayments) - adjusted);
+    }
+    for (const adjustment of adjustmentRefunds) {
+      this.addRefund(refunds, Number(adjustment.refundAmount));
+    }
+
+    discounts.total =
+      discounts.pickup + discounts.item + discounts.goodwill + discounts.coupon + discounts.loyalty;
+    const local = localParts(end, store.timezone);
+    const pad = (n: number) => String(n).padStart(2, '0');
+
+    return {
+      storeId: store.id,
+      storeName: store.name,
+      businessDate: `${local.year}-${pad(local.month)}-${pad(local.day)}`,
+      periodStart: start.toISOString(),
+      periodEnd: end.toISOString(),
+      orderCount: orders.length,
+      grossSales: round(netSales + discounts.total),
+      netSales: round(netSales),
+      payments: {
+        cash: this.roundAmount(payments.cash),
+        cardAtDoor: this.roundAmount(payments.cardAtDoor),
+        online: this.roundAmount(payments.online),
+        other: this.roundAmount(payments.other),
+      },
+      discounts: {
+        pickup: round(discounts.pickup),
+        item: round(discounts.item),
+        goodwill: round(discounts.goodwill),
+        coupon: round(discounts.coupon),
+        loyalty: round(discounts.loyalty),
+        total: round(discounts.total),
+      },
+      refunds: this.roundAmount(refunds),
+      cancellations: this.roundAmount(cancellations),
+      priorDayChanges: {
+        adjustments: {
+          count: priorAdjustments.length,
+          amount: round(
+            priorAdjustments.reduce(
+              (sum, a) => sum + Number(a.newTotal) - Number(a.previousTotal),
+              0
+            )
+          ),
+        },
+        cancellations: this.roundAmount(priorCancellations),
+      },
+      openOrders,
+      pendingOrders,
+      expectedCash: round(payments.cash.amount),
+    };
+  }
+
+  /**
+   * Per-unit discount of each sold menu item as a function of the order
+   * time. Order items keep only the discounted price, so the discount is
+   * read back from the item's discount window.
+   */
+  private async getItemDiscounts(
+    orders: Array<{ items: Array<{ menuItemId: string }> }>
+  ): Promise<Map<string, (at: Date) => number>> {
+    const ids = [...new Set(orders.flatMap((o) => o.items.map((i) => i.menuItemId)))];
+    const menuItems = await prisma.menuItem.findMany({
+      where: { id: { in: ids }, discountType: { not: null } },
+      select: {
+        id: true,
+        basePrice: true,
+        discountType: true,
+        discountValue: true,
+        discountStartAt: true,
+        discountEndAt: true,
+      },
+    });
+
+    return new Map(
+      menuItems.map((item) => {
+        const basePrice = Number(item.basePrice);
+        const value = Number(item.discountValue ?? 0);
+        const discount =
+          item.discountType === 'PERCENTAGE'
+            ? (basePrice * Math.min(value, 100)) / 100
+            : Math.min(value, basePrice);
+        return [
+          item.id,
+          (at: Date) =>
+            value > 0 &&
+            (!item.discountStartAt || at >= item.discountStartAt) &&
+            (!item.discountEndAt || at <= item.discountEndAt)
+              ? discount
+              : 0,
+        ];
+      })
+    );
+  }
+
+  private paymentBucket(
+    paymentMethod: string | null,
+    payments: ReportPayment[]
+  ): keyof ZReportDto['payments'] {
+    if (
+      payments.some((p) => p.method === 'CREDIT_CARD' && ONLINE_PAID_STATUSES.includes(p.status))
+    ) {
+      return 'online';
+    }
+    if (paymentMethod === 'CASH') return 'cash';
+    // Card chosen without an online payment: paid to the courier or at the counter
+    if (paymentMethod === 'CREDIT_CARD') return 'cardAtDoor';
+    return 'other';
+  }
+
+  private cardRefunded(payments: ReportPayment[]): number {
+    return payments
+      .filter((p) => p.method === 'CREDIT_CARD')
+      .reduce((sum, p) => sum + Number(p.refundedAmount), 0);
+  }
+
+  private addRefund(refunds: ZReportAmountDto, amount: number): void {
+    if (round(amount) > 0) {
+      refunds.count++;
+      refunds.amount += amount;
+    }
+  }
+
+  private roundAmount(value: ZReportAmountDto): ZReportAmountDto {
+    return { count: value.count, amount: round(value.amount) };
+  }
+
+  private async createPrintJob(
+    client: Prisma.TransactionClient,
+    tenantId: string,
+    dayCloseId: string,
+    report: ZReportDto,
+    timezone: string,
+    close: { countedCash: number; note: string | null | undefined }
+  ): Promise<void> {
+    const payload: PrintJobPayload = {
+      orderNumber: 0,
+      timestamp: report.periodEnd,
+      storeId: report.storeId,
+      storeName: report.storeName,
+      items: [],
+      notes: close.note || null,
+      businessDate: report.businessDate,
+      reportSections: this.toPrintSections(report, close.countedCash, timezone),
+    };
+
+    await client.printJob.create({
+      data: {
+        tenantId,
+        dayCloseId,
+        type: 'Z_REPORT',
+        status: 'PENDING',
+        payloadJson: payload as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /** Period times print in the store's timezone, not the server's */
+  private toPrintSections(
+    report: ZReportDto,
+    countedCash: number,
+    timezone: string
+  ): PrintJobReportSection[] {
+    const tl = (n: number) => `${n.toFixed(2)} TL`;
+    const counted = (label: string, value: ZReportAmountDto) => ({
+      label: `${label} (${value.count})`,
+      value: tl(value.amount),
+    });
+    const time = (iso: string) => new Date(iso).toLocaleString('tr-TR', { timeZone: timezone });
+
+    return [
+      {
+        title: 'DÖNEM',
+        rows: [
+          { label: 'Başlangıç', value: time(report.periodStart) },
+          { label: 'Bitiş', value: time(report.periodEnd) },
+        ],
+      },
+      {
+        title: 'SATIŞLAR',
+        rows: [
+          { label: 'Sipariş', value: String(report.orderCount) },
+          { label: 'Brüt satış', value: tl(report.grossSales) },
+          { label: 'İndirimler', value: tl(-report.discounts.total) },
+          { label: 'Net satış', value: tl(report.netSales) },
+        ],
+      },
+      {
+        title: 'ÖDEMELER',
+        rows: [
+          counted('Nakit', report.payments.cash),
+          counted('Kapıda kart', report.payments.cardAtDoor),
+          counted('Online', report.payments.online),
+          ...(report.payments.other.count > 0 ? [counted('Diğer', report.payments.other)] : []),
+        ],
+      },
+      {
+        title: 'İNDİRİMLER',
+        rows: [
+          { label: 'Gel al', value: tl(report.discounts.pickup) },
+          { label: 'Ürün', value: tl(report.discounts.item) },
+          { label: 'İkram', value: tl(report.discounts.goodwill) },
+          // Reports closed before coupons existed have no coupon line
+          ...(report.discounts.coupon
+            ? [{ label: 'Kupon', value: tl(report.discounts.coupon) }]
+            : []),
+          ...(report.discounts.loyalty
+            ? [{ label: 'Sadakat', value: tl(report.discounts.loyalty) }]
+            : []),
+        ],
+      },
+      {
+        title: 'İADE VE İPTAL',
+        rows: [
+          counted('Kart iadesi', report.refunds),
+          counted('İptal', report.cancellations),
+          counted('Önceki gün düzeltme', report.priorDayChanges.adjustments),
+          counted('Önceki gün iptal', report.priorDayChanges.cancellations),
+        ],
+      },
+      {
+        title: 'KASA',
+        rows: [
+          { label: 'Beklenen nakit', value: tl(report.expectedCash) },
+          { label: 'Sayılan nakit', value: tl(countedCash) },
+          { label: 'Fark', value: tl(round(countedCash - report.expectedCash)) },
+        ],
+      },
+    ];
+  }
+
+  /** Adjustments and cancellations of the closed day's orders made after closing */
+  private async getChangesSinceClose(dayClose: {
+    tenantId: string;
+    storeId: string;
+    periodStart: Date;
+    periodEnd: Date;
+  }): Promise<DayCloseDto['changesSinceClose']> {
+    const closedOrders = {
+      storeId: dayClose.storeId,
+      confirmedAt: { gte: dayClose.periodStart, lt: dayClose.periodEnd },
+    };
+    const [adjustments, cancelled] = await Promise.all([
+      prisma.orderAdjustment.findMany({
+        where: {
+          tenantId: dayClose.tenantId,
+          createdAt: { gte: dayClose.periodEnd },
+          order: closedOrders,
+        },
+        select: { previousTotal: true, newTotal: true },
+      }),
+      prisma.order.findMany({
+        where: {
+          tenantId: dayClose.tenantId,
+          ...closedOrders,
+          status: 'CANCELLED',
+          cancelledAt: { gte: dayClose.periodEnd },
+        },
+        select: { totalPrice: true },
+      }),
+    ]);
+
+    return {
+      adjustments: {
+        count: adjustments.length,
+        amount: round(
+          adjustments.reduce((sum, a) => sum + Number(a.newTotal) - Number(a.previousTotal), 0)
+        ),
+      },
+      cancellations: {
+        count: cancelled.length,
+        amount: round(cancelled.reduce((sum, o) => sum + Number(o.totalPrice), 0)),
+      },
+    };
+  }
+
+  private async mapToDto(dayClose: DayCloseRecord): Promise<DayCloseDto> {
+    return {
+      id: dayClose.id,
+      storeId: dayClose.storeId,
+      storeName: dayClose.store.name,
+      businessDate: dayClose.businessDate,
+      periodStart: dayClose.periodStart.toISOString(),
+      periodEnd: dayClose.periodEnd.toISOString(),
+      report: dayClose.reportJson as unknown as ZReportDto,
+      expectedCash: Number(dayClose.expectedCash),
+      countedCash: Number(dayClose.countedCash),
+      cashVariance: Number(dayClose.cashVariance),
+      note: dayClose.note,
+      closedByName: dayClose.closedBy?.name ?? null,
+      changesSinceClose: await this.getChangesSinceClose(dayClose),
+      createdAt: dayClose.createdAt.toISOString(),
+    };
+  }
+}
+
+export const dayCloseService = new DayCloseService();
@@ -0,0 +1,192 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConversationPhase } from '@whatres/shared';
+import {
+  FlowInput,
+  FlowStateMachine,
+  FlowStateSnapshot,
+  FlowStateStore,
+  FlowTransition,
+  validateFlowTransitions,
+} from './state-machine';
+import { FLOW_TRANSITIONS } from './transition-table';
+
+type TestAction = 'idle' | 'confirm' | 'review';
+
+const TABLE: FlowTransition<TestAction>[] = [
+  {
+    id: 'review.confirm',
+    phase: 'ORDER_REVIEW',
+    events: ['BUTTON_REPLY'],
+    guard: { kind: 'button', ids: ['confirm_order'] },
+    action: 'confirm',
+    next: ['DELIVERY_TYPE_SELECTION'],
+  },
+  { id: 'review.any', phase: 'ORDER_REVIEW', action: 'review', next: ['ORDER_REVIEW'] },
+  { id: 'idle.any', phase: 'IDLE', action: 'idle', next: ['IDLE', 'ORDER_REVIEW'] },
+];
+
+function input(overrides: Partial<FlowInput> = {}): FlowInput {
+  return { phase: 'ORDER_REVIEW', subState: null, event: 'TEXT', metadata: {}, ...overrides };
+}
+
+function fakeLogger() {
+  const errors: string[] = [];
+  const log = () => undefined;
+  return {
+    errors,
+    info: log,
+    warn: log,
+    error: (_obj: object, msg?: string) => errors.push(msg ?? ''),
+  };
+}
+
+/** In-memory conversation row standing in for the database */
+function fakeStateStore(initial: FlowStateSnapshot) {
+  const state = { row: { ...initial }, restores: 0 };
+  const store: FlowStateStore<object> = {
+    snapshot: async () => ({ ...state.row }),
+    restore: async (_ctx, snapshot) => {
+      state.restores++;
+      state.row = { ...snapshot };
+    },
+  };
+  return { state, store };
+}
+
+/**
+ * Machine whose actions record their calls and return the given phases.
+ * Like the real handlers, each action persists its phase, a sub-state and
+ * an active order before returning.
+ */
+function machine(
+  results: Partial<Record<TestAction, ConversationPhase>> = {},
+  initial: FlowStateSnapshot = {
+    phase: 'ORDER_REVIEW',
+    subState: null,
+    metadata: null,
+    activeOrderId: 'order-1',
+  }
+) {
+  const calls: TestAction[] = [];
+  const logger = fakeLogger();
+  const { state, store } = fakeStateStore(initial);
+  const action = (name: TestAction, fallback: ConversationPhase) => async () => {
+    calls.push(name);
+    const phase = results[name] ?? fallback;
+    state.row = {
+      phase,
+      subState: 'UPSELL_OFFERED',
+      metadata: '{"upsell":true}',
+      activeOrderId: 'order-2',
+    };
+    return phase;
+  };
+  const sm = new FlowStateMachine<object, TestAction>(
+    TABLE,
+    {
+      idle: action('idle', 'IDLE'),
+      confirm: action('confirm', 'DELIVERY_TYPE_SELECTION'),
+      review: action('review', 'ORDER_REVIEW'),
+    },
+    logger,
+    store
+  );
+  return { sm, calls, logger, state };
+}
+
+describe('FlowStateMachine.resolve', () => {
+  it('picks the first matching transition', () => {
+    const { sm } = machine();
+    const transition = sm.resolve(input({ event: 'BUTTON_REPLY', buttonId: 'confirm_order' }));
+    assert.equal(transition?.id, 'review.confirm');
+  });
+
+  it('falls through to the catch-all when the guard does not pass', () => {
+    const { sm } = machine();
+    const transition = sm.resolve(input({ event: 'BUTTON_REPLY', buttonId: 'cancel_order' }));
+    assert.equal(transition?.id, 'review.any');
+  });
+
+  it('returns null for a phase without transitions', () => {
+    const { sm } = machine();
+    assert.equal(sm.resolve(input({ phase: 'PAYMENT_PENDING' })), null);
+  });
+});
+
+describe('FlowStateMachine.dispatch', () => {
+  it('runs the action and returns its phase', async () => {
+    const { sm, calls } = machine();
+    const result = await sm.dispatch(
+      {},
+      input({ event: 'BUTTON_REPLY', buttonId: 'confirm_order' })
+    );
+    assert.deepEqual(calls, ['confirm']);
+    assert.deepEqual(result, {
+      transitionId: 'review.confirm',
+      nextPhase: 'DELIVERY_TYPE_SELECTION',
+      rejected: false,
+    });
+  });
+
+  it('rejects an undeclared next phase and reports the input phase', async () => {
+    const { sm, calls, logger } = machine({ review: 'PAYMENT_PENDING' });
+    const result = await sm.dispatch({}, input());
+    assert.deepEqual(calls, ['review']);
+    assert.deepEqual(result, {
+      transitionId: 'review.any',
+      nextPhase: 'ORDER_REVIEW',
+      rejected: true,
+    });
+    assert.deepEqual(logger.errors, ['Illegal phase transition rejected']);
+  });
+
+  it('restores the state a rejected handler wrote', async () => {
+    const { sm, state } = machine({ review: 'PAYMENT_PENDING' });
+    await sm.dispatch({}, input());
+    assert.equal(state.restores, 1);
+    assert.deepEqual(state.row, {
+      phase: 'ORDER_REVIEW',
+      subState: null,
+      metadata: null,
+      activeOrderId: 'order-1',
+    });
+  });
+
+  it('keeps the state an accepted handler wrote', async () => {
+    const { sm, state } = machine();
+    await sm.dispatch({}, input({ event: 'BUTTON_REPLY', buttonId: 'confirm_order' }));
+    assert.equal(state.restores, 0);
+    assert.equal(state.row.phase, 'DELIVERY_TYPE_SELECTION');
+    assert.equal(state.row.activeOrderId, 'order-2');
+  });
+
+  it('rejects input no transition matches without running an action', async () => {
+    const { sm, calls, logger } = machine();
+    const result = await sm.dispatch({}, input({ phase: 'PAYMENT_PENDING' }));
+    assert.deepEqual(calls, []);
+    assert.deepEqual(result, { transitionId: null, nextPhase: 'PAYMENT_PENDING', rejected: true });
+    assert.deepEqual(logger.errors, ['No flow transition matches input']);
+  });
+});
+
+describe('validateFlowTransitions', () => {
+  it('accepts the conversation flow table', () => {
+    // Action names are checked by the compiler (FlowTransition<FlowActionName>)
+    const actions = [...new Set(FLOW_TRANSITIONS.map((t) => t.action))];
+    assert.deepEqual(validateFlowTransitions(FLOW_TRANSITIONS, actions), []);
+  });
+
+  it('reports unknown actions, shadowed transitions and missing catch-alls', () => {
+    const problems = validateFlowTransitions(
+      [
+        { id: 'idle.any', phase: 'IDLE', action: 'idle', next: ['IDLE'] },
+        { id: 'idle.late', phase: 'IDLE', events: ['TEXT'], action: 'missing', next: ['IDLE'] },
+      ],
+      ['idle']
+    );
+    assert.ok(problems.includes('idle.late: action "missing" is not implemented'));
+    assert.ok(problems.includes('idle.late: unreachable, shadowed by idle.any'));
+    assert.ok(problems.includes('Phase ORDER_REVIEW has no catch-all transition'));
+  });
+});
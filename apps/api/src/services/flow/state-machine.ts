@@ -0,0 +1,379 @@
+import { ConversationPhase, MessageDto, WhatsAppWebhookPayload } from '@whatres/shared';
+
+// ==================== TYPES ====================
+
+export const CONVERSATION_PHASES: ConversationPhase[] = [
+  'IDLE',
+  'ADDITION_PROMPT',
+  'ORDER_COLLECTING',
+  'ORDER_REVIEW',
+  'DELIVERY_TYPE_SELECTION',
+  'LOCATION_REQUEST',
+  'ADDRESS_SELECTION',
+  'ADDRESS_COLLECTION',
+  'ADDRESS_SAVE_PROMPT',
+  'PAYMENT_METHOD_SELECTION',
+  'PAYMENT_PENDING',
+  'ORDER_CONFIRMED',
+  'AGENT_HANDOFF',
+];
+
+/**
+ * Values stored in Conversation.flowSubState.
+ * INACTIVITY_WARNING is set by the worker and cleared before dispatch.
+ */
+export const FLOW_SUB_STATES = [
+  'OPTION_SELECTION',
+  'SEAMLESS_ADDITION',
+  'UPSELL_OFFERED',
+  'REORDER_LIST_SHOWN',
+  'IMAGE_ITEMS_PENDING',
+  'SURVEY_RATING',
+  'SURVEY_COMMENT',
+  'BROADCAST_OPT_IN_ASKED',
+  'PAYMENT_CHANGE_PENDING',
+  'WAITING_SAVE_CONFIRM',
+  'WAITING_ADDRESS_NAME',
+  'WAITING_ADDRESS_NAME_CUSTOM',
+  'INACTIVITY_WARNING',
+] as const;
+
+export type FlowSubState = (typeof FLOW_SUB_STATES)[number];
+
+/**
+ * Coarse event derived from the incoming message.
+ * Interactive replies are split so the table can route on button/list ids.
+ */
+export type FlowEvent =
+  | 'TEXT'
+  | 'BUTTON_REPLY'
+  | 'LIST_REPLY'
+  | 'LOCATION'
+  | 'VOICE'
+  | 'IMAGE'
+  | 'CATALOG_ORDER'
+  | 'OTHER';
+
+export const FLOW_EVENTS: FlowEvent[] = [
+  'TEXT',
+  'BUTTON_REPLY',
+  'LIST_REPLY',
+  'LOCATION',
+  'VOICE',
+  'IMAGE',
+  'CATALOG_ORDER',
+  'OTHER',
+];
+
+/**
+ * Guards are plain data (not closures) so the table can be serialized
+ * to the panel and validated without running any handler.
+ */
+export type FlowGuard =
+  | { kind: 'button'; ids: string[] }
+  | { kind: 'listReplyPrefix'; prefix: string }
+  /** Button or list reply whose id starts with the prefix */
+  | { kind: 'replyPrefix'; prefix: string }
+  | { kind: 'metadataKey'; key: string };
+
+export interface FlowTransition<TAction extends string = string> {
+  id: string;
+  phase: ConversationPhase;
+  /** undefined = any sub-state, null = no sub-state set */
+  subState?: FlowSubState | null;
+  /** undefined = any event */
+  events?: FlowEvent[];
+  guard?: FlowGuard;
+  action: TAction;
+  /** Phases the action is allowed to return */
+  next: ConversationPhase[];
+  description?: string;
+}
+
+export interface FlowInput {
+  phase: ConversationPhase;
+  subState: string | null;
+  event: FlowEvent;
+  buttonId?: string;
+  listReplyId?: string;
+  metadata: Record<string, unknown>;
+}
+
+export type FlowAction<TCtx> = (ctx: TCtx) => Promise<ConversationPhase>;
+
+/** Conversation fields a handler may write while running */
+export interface FlowStateSnapshot {
+  phase: ConversationPhase;
+  subState: string | null;
+  metadata: string | null;
+  activeOrderId: string | null;
+}
+
+/**
+ * Reads and writes the persisted conversation state, so a rejected
+ * transition can be rolled back to what it was before the action ran.
+ */
+export interface FlowStateStore<TCtx> {
+  snapshot(ctx: TCtx): Promise<FlowStateSnapshot>;
+  restore(ctx: TCtx, snapshot: FlowStateSnapshot): Promise<void>;
+}
+
+export interface FlowDispatchResult {
+  transitionId: string | null;
+  nextPhase: ConversationPhase;
+  rejected: boolean;
+}
+
+interface FlowLogger {
+  info(obj: object, msg?: string): void;
+  warn(obj: object, msg?: string): void;
+  error(obj: object, msg?: string): void;
+}
+
+// ==================== INPUT HELPERS ====================
+
+/**
+ * Derive the flow event for an incoming message
+ */
+export function toFlowEvent(message: MessageDto, payload: WhatsAppWebhookPayload): FlowEvent {
+  if (payload.interactive?.buttonReply) return 'BUTTON_REPLY';
+  if (payload.interactive?.listReply) return 'LIST_REPLY';
+  if (payload.order) return 'CATALOG_ORDER';
+  switch (message.kind) {
+    case 'TEXT':
+      return 'TEXT';
+    case 'LOCATION':
+      return 'LOCATION';
+    case 'VOICE':
+      return 'VOICE';
+    case 'IMAGE':
+      return 'IMAGE';
+    default:
+      return 'OTHER';
+  }
+}
+
+/**
+ * Parse Conversation.flowMetadata, tolerating legacy/invalid JSON
+ */
+export function parseFlowMetadata(raw: string | null | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// ==================== MATCHING ====================
+
+function guardPasses(guard: FlowGuard | undefined, input: FlowInput): boolean {
+  if (!guard) return true;
+  switch (guard.kind) {
+    case 'button':
+      return !!input.buttonId && guard.ids.includes(input.buttonId);
+    case 'listReplyPrefix':
+      return !!input.listReplyId && input.listReplyId.startsWith(guard.prefix);
+    case 'replyPrefix':
+      return [input.buttonId, input.listReplyId].some((id) => !!id && id.startsWith(guard.prefix));
+    case 'metadataKey':
+      return input.metadata[guard.key] !== undefined && input.metadata[guard.key] !== null;
+  }
+}
+
+function matches(transition: FlowTransition, input: FlowInput): boolean {
+  if (transition.phase !== input.phase) return false;
+  if (transition.subState !== undefined && transition.subState !== (input.subState ?? null)) {
+    return false;
+  }
+  if (transition.events && !transition.events.includes(input.event)) return false;
+  return guardPasses(transition.guard, input);
+}
+
+function isCatchAll(transition: FlowTransition): boolean {
+  return transition.subState === undefined && !transition.events && !transition.guard;
+}
+
+// ==================== MACHINE ====================
+
+/**
+ * Table-driven dispatcher for the conversation flow.
+ * Has no database or WhatsApp dependencies: actions are injected, so it can be
+ * exercised with fake handlers.
+ */
+export class FlowStateMachine<TCtx, TAction extends string = string> {
+  constructor(
+    private readonly transitions: FlowTransition<TAction>[],
+    private readonly actions: Record<TAction, FlowAction<TCtx>>,
+    private readonly logger: FlowLogger,
+    private readonly stateStore?: FlowStateStore<TCtx>
+  ) {}
+
+  /**
+   * First matching transition wins (table order matters)
+   */
+  resolve(input: FlowInput): FlowTransition<TAction> | null {
+    return this.transitions.find((t) => matches(t, input)) ?? null;
+  }
+
+  /**
+   * Run the action for the matching transition and check its result against
+   * the declared next phases. Illegal results are rejected and logged: the
+   * conversation state from before the action (phase, sub-state, metadata,
+   * active order) is restored through the state store. Messages the action
+   * already sent cannot be taken back.
+   */
+  async dispatch(ctx: TCtx, input: FlowInput): Promise<FlowDispatchResult> {
+    const transition = this.resolve(input);
+    if (!transition) {
+      this.logger.error(
+        { phase: input.phase, subState: input.subState, event: input.event },
+        'No flow transition matches input'
+      );
+      return { transitionId: null, nextPhase: input.phase, rejected: true };
+    }
+
+    const before = await this.stateStore?.snapshot(ctx);
+    const nextPhase = await this.actions[transition.action](ctx);
+
+    if (!transition.next.includes(nextPhase)) {
+      this.logger.error(
+        {
+          transitionId: transition.id,
+          from: input.phase,
+          to: nextPhase,
+          allowed: transition.next,
+        },
+        'Illegal phase transition rejected'
+      );
+      if (before) await this.stateStore?.restore(ctx, before);
+      return { transitionId: transition.id, nextPhase: input.phase, rejected: true };
+    }
+
+    return { transitionId: transition.id, nextPhase, rejected: false };
+  }
+
+  /**
+   * Every (phase, next) edge declared in the table
+   */
+  edges(): Array<{ from: ConversationPhase; to: ConversationPhase; transitionId: string }> {
+    return this.transitions.flatMap((t) =>
+      t.next.map((to) => ({ from: t.phase, to, transitionId: t.id }))
+    );
+  }
+}
+
+// ==================== VALIDATION ====================
+
+/**
+ * Static checks for a transition table. Returns a list of human-readable
+ * problems; an empty list means the table is valid.
+ */
+export function validateFlowTransitions(
+  transitions: FlowTransition[],
+  actionNames: string[],
+  initialPhase: ConversationPhase = 'IDLE'
+): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+
+  for (const t of transitions) {
+    if (ids.has(t.id)) problems.push(`Duplicate transition id "${t.id}"`);
+    ids.add(t.id);
+
+    if (!CONVERSATION_PHASES.includes(t.phase)) {
+      problems.push(`${t.id}: unknown phase "${t.phase}"`);
+    }
+    if (t.subState && !(FLOW_SUB_STATES as readonly string[]).includes(t.subState)) {
+      problems.push(`${t.id}: unknown sub-state "${t.subState}"`);
+    }
+    for (const event of t.events ?? []) {
+      if (!FLOW_EVENTS.includes(event)) problems.push(`${t.id}: unknown event "${event}"`);
+    }
+    if (!actionNames.includes(t.action)) {
+      problems.push(`${t.id}: action "${t.action}" is not implemented`);
+    }
+    if (t.next.length === 0) {
+      problems.push(`${t.id}: no next phases declared`);
+    }
+    for (const next of t.next) {
+      if (!CONVERSATION_PHASES.includes(next)) {
+        problems.push(`${t.id}: unknown next phase "${next}"`);
+      }
+    }
+  }
+
+  // Every phase needs a catch-all so no message is left without a handler
+  for (const phase of CONVERSATION_PHASES) {
+    const phaseTransitions = transitions.filter((t) => t.phase === phase);
+    const catchAllIndex = phaseTransitions.findIndex(isCatchAll);
+    if (catchAllIndex === -1) {
+      problems.push(`Phase ${phase} has no catch-all transition`);
+      continue;
+    }
+    // Anything after the catch-all can never match
+    for (const shadowed of phaseTransitions.slice(catchAllIndex + 1)) {
+      problems.push(
+        `${shadowed.id}: unreachable, shadowed by ${phaseTransitions[catchAllIndex].id}`
+      );
+    }
+  }
+
+  // Every phase must be reachable from the initial phase
+  const reachable = new Set<ConversationPhase>([initialPhase]);
+  const queue: ConversationPhase[] = [initialPhase];
+  while (queue.length > 0) {
+    const phase = queue.shift() as ConversationPhase;
+    for (const t of transitions.filter((tr) => tr.phase === phase)) {
+      for (const next of t.next) {
+        if (!reachable.has(next)) {
+          reachable.add(next);
+          queue.push(next);
+        }
+      }
+    }
+  }
+  for (const phase of CONVERSATION_PHASES) {
+    // ADDITION_PROMPT is legacy: only conversations persisted before its removal can be in it
+    if (!reachable.has(phase) && phase !== 'ADDITION_PROMPT') {
+      problems.push(`Phase ${phase} is unreachable from ${initialPhase}`);
+    }
+  }
+
+  return problems;
+}
+
+// ==================== DIAGRAM ====================
+
+function describeTrigger(t: FlowTransition): string {
+  const parts: string[] = [];
+  if (t.subState !== undefined) parts.push(t.subState ?? 'no sub-state');
+  if (t.events) parts.push(t.events.join('|'));
+  if (t.guard?.kind === 'button') parts.push(`button ${t.guard.ids.join('|')}`);
+  if (t.guard?.kind === 'listReplyPrefix') parts.push(`list ${t.guard.prefix}*`);
+  if (t.guard?.kind === 'replyPrefix') parts.push(`reply ${t.guard.prefix}*`);
+  if (t.guard?.kind === 'metadataKey') parts.push(`has ${t.guard.key}`);
+  return parts.length > 0 ? parts.join(', ') : 'any';
+}
+
+/**
+ * Render the table as a Mermaid state diagram. Self-loops are omitted to
+ * keep the picture readable; they are still listed in the raw table.
+ */
+export function renderFlowDiagram(transitions: FlowTransition[]): string {
+  const lines = ['stateDiagram-v2', `  [*] --> IDLE`];
+  const seen = new Set<string>();
+
+  for (const t of transitions) {
+    for (const next of t.next) {
+      if (next === t.phase) continue;
+      const key = `${t.phase}->${next}:${t.action}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      lines.push(`  ${t.phase} --> ${next}: ${t.action} (${describeTrigger(t)})`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,389 @@
+import { ConversationPhase } from '@whatres/shared';
+import { FlowTransition } from './state-machine';
+
+/**
+ * Handler names implemented by ConversationFlowService.
+ * The table may only reference these; validateFlowTransitions checks it.
+ */
+export type FlowActionName =
+  | 'handleIdle'
+  | 'handleAdditionPrompt'
+  | 'handleOrderCollecting'
+  | 'handleOptionSelection'
+  | 'handleMenuBrowse'
+  | 'handleCatalogOrder'
+  | 'handleImageItemsReply'
+  | 'handleSeamlessAdditionReply'
+  | 'handleOrderReview'
+  | 'handleUpsellOffer'
+  | 'handleOrderConfirm'
+  | 'handleOrderCancel'
+  | 'handleDeliveryTypeSelection'
+  | 'handleLocationRequest'
+  | 'handleAddressSelection'
+  | 'handleAddressCollection'
+  | 'handleSaveAddressConfirm'
+  | 'handleAddressName'
+  | 'handleAddressNameCustom'
+  | 'handleAddressSavePrompt'
+  | 'handlePaymentMethodSelection'
+  | 'handleCashPayment'
+  | 'handleCardDoorPayment'
+  | 'handleCardPayment'
+  | 'handlePaymentPending'
+  | 'handleOrderConfirmed'
+  | 'handleSurveyRating'
+  | 'handleSurveyComment'
+  | 'handleBroadcastOptInResponse'
+  | 'handleAgentHandoff';
+
+// Shared outcome sets (what a handler can hand back, including delegated calls)
+const IDLE_OUTCOMES: ConversationPhase[] = [
+  'IDLE',
+  'ORDER_COLLECTING',
+  'ORDER_REVIEW',
+  'ORDER_CONFIRMED',
+  'AGENT_HANDOFF',
+];
+const ORDER_CONFIRM_OUTCOMES: ConversationPhase[] = [
+  'IDLE',
+  'ORDER_COLLECTING',
+  'ORDER_REVIEW',
+  'DELIVERY_TYPE_SELECTION',
+  'PAYMENT_METHOD_SELECTION',
+];
+const PAYMENT_OUTCOMES: ConversationPhase[] = [
+  'IDLE',
+  'ORDER_REVIEW',
+  'PAYMENT_METHOD_SELECTION',
+  'PAYMENT_PENDING',
+  'ORDER_CONFIRMED',
+];
+
+/**
+ * Conversation flow transition table: phase × sub-state × event → guard → action → next.
+ * Rows are evaluated top to bottom per phase; the first match wins, so
+ * specific rows must precede the phase's catch-all row.
+ */
+export const FLOW_TRANSITIONS: FlowTransition<FlowActionName>[] = [
+  // ==================== IDLE ====================
+  {
+    id: 'idle.menuBrowse',
+    phase: 'IDLE',
+    events: ['BUTTON_REPLY', 'LIST_REPLY'],
+    guard: { kind: 'replyPrefix', prefix: 'mb_' },
+    action: 'handleMenuBrowse',
+    next: IDLE_OUTCOMES,
+    description: 'Category/item lists; "add" starts a draft or extends a confirmed order',
+  },
+  {
+    id: 'idle.catalogOrder',
+    phase: 'IDLE',
+    events: ['CATALOG_ORDER'],
+    action: 'handleCatalogOrder',
+    next: IDLE_OUTCOMES,
+    description: 'Cart sent from the Meta catalog',
+  },
+  {
+    id: 'idle.imageItemsReply',
+    phase: 'IDLE',
+    subState: 'IMAGE_ITEMS_PENDING',
+    action: 'handleImageItemsReply',
+    next: IDLE_OUTCOMES,
+    description: 'Add or discard items read from an order image',
+  },
+  {
+    id: 'idle.default',
+    phase: 'IDLE',
+    action: 'handleIdle',
+    next: IDLE_OUTCOMES,
+    description: 'Greeting, menu, reorder, seamless addition, order image or new order via NLU',
+  },
+
+  // ==================== ADDITION_PROMPT (legacy) ====================
+  {
+    id: 'additionPrompt.default',
+    phase: 'ADDITION_PROMPT',
+    action: 'handleAdditionPrompt',
+    next: IDLE_OUTCOMES,
+    description: 'Legacy phase, redirected to IDLE',
+  },
+
+  // ==================== ORDER_COLLECTING ====================
+  {
+    id: 'collecting.optionSelection',
+    phase: 'ORDER_COLLECTING',
+    subState: 'OPTION_SELECTION',
+    action: 'handleOptionSelection',
+    next: ['IDLE', 'ORDER_COLLECTING', 'ORDER_REVIEW'],
+    description: 'Customer picks an option for a bundle item',
+  },
+  {
+    id: 'collecting.seamlessAdditionReply',
+    phase: 'ORDER_COLLECTING',
+    subState: 'SEAMLESS_ADDITION',
+    events: ['TEXT'],
+    guard: { kind: 'metadataKey', key: 'parentOrderId' },
+    action: 'handleSeamlessAdditionReply',
+    next: ['IDLE', 'ORDER_COLLECTING', 'ORDER_REVIEW', 'ORDER_CONFIRMED'],
+    description: 'Answer to a clarification while adding to a confirmed order',
+  },
+  {
+    id: 'collecting.menuBrowse',
+    phase: 'ORDER_COLLECTING',
+    events: ['BUTTON_REPLY', 'LIST_REPLY'],
+    guard: { kind: 'replyPrefix', prefix: 'mb_' },
+    action: 'handleMenuBrowse',
+    next: ['ORDER_COLLECTING', 'ORDER_REVIEW'],
+  },
+  {
+    id: 'collecting.catalogOrder',
+    phase: 'ORDER_COLLECTING',
+    events: ['CATALOG_ORDER'],
+    action: 'handleCatalogOrder',
+    next: ['ORDER_COLLECTING', 'ORDER_REVIEW'],
+  },
+  {
+    id: 'collecting.confirmButton',
+    phase: 'ORDER_COLLECTING',
+    events: ['BUTTON_REPLY'],
+    guard: { kind: 'button', ids: ['confirm_order'] },
+    action: 'handleOrderConfirm',
+    next: ORDER_CONFIRM_OUTCOMES,
+  },
+  {
+    id: 'collecting.cancelButton',
+    phase: 'ORDER_COLLECTING',
+    events: ['BUTTON_REPLY'],
+    guard: { kind: 'button', ids: ['cancel_order'] },
+    action: 'handleOrderCancel',
+    next: ['IDLE'],
+  },
+  {
+    id: 'collecting.imageItemsReply',
+    phase: 'ORDER_COLLECTING',
+    subState: 'IMAGE_ITEMS_PENDING',
+    action: 'handleImageItemsReply',
+    next: ['IDLE', 'ORDER_COLLECTING', 'ORDER_REVIEW'],
+    description: 'Add or discard items read from an order image',
+  },
+  {
+    id: 'collecting.default',
+    phase: 'ORDER_COLLECTING',
+    action: 'handleOrderCollecting',
+    next: ['IDLE', 'ORDER_COLLECTING', 'ORDER_REVIEW'],
+    description: 'Add items via NLU, confirm keyword moves to review',
+  },
+
+  // ==================== ORDER_REVIEW ====================
+  {
+    id: 'review.upsellResponse',
+    phase: 'ORDER_REVIEW',
+    subState: 'UPSELL_OFFERED',
+    action: 'handleUpsellOffer',
+    next: ['ORDER_REVIEW', 'ADDRESS_SELECTION', 'LOCATION_REQUEST'],
+    description: 'Accept or reject the upsell suggestion',
+  },
+  {
+    id: 'review.menuBrowse',
+    phase: 'ORDER_REVIEW',
+    events: ['BUTTON_REPLY', 'LIST_REPLY'],
+    guard: { kind: 'replyPrefix', prefix: 'mb_' },
+    action: 'handleMenuBrowse',
+    next: ['ORDER_COLLECTING', 'ORDER_REVIEW'],
+  },
+  {
+    id: 'review.catalogOrder',
+    phase: 'ORDER_REVIEW',
+    events: ['CATALOG_ORDER'],
+    action: 'handleCatalogOrder',
+    next: ['ORDER_COLLECTING', 'ORDER_REVIEW'],
+  },
+  {
+    id: 'review.confirmButton',
+    phase: 'ORDER_REVIEW',
+    events: ['BUTTON_REPLY'],
+    guard: { kind: 'button', ids: ['confirm_order'] },
+    action: 'handleOrderConfirm',
+    next: ORDER_CONFIRM_OUTCOMES,
+  },
+  {
+    id: 'review.cancelButton',
+    phase: 'ORDER_REVIEW',
+    events: ['BUTTON_REPLY'],
+    guard: { kind: 'button', ids: ['cancel_order'] },
+    action: 'handleOrderCancel',
+    next: ['IDLE'],
+  },
+  {
+    id: 'review.default',
+    phase: 'ORDER_REVIEW',
+    action: 'handleOrderReview',
+    next: ORDER_CONFIRM_OUTCOMES,
+    description: 'Text confirm, cancel, item removal or additions',
+  },
+
+  // ==================== DELIVERY_TYPE_SELECTION ====================
+  {
+    id: 'deliveryType.default',
+    phase: 'DELIVERY_TYPE_SELECTION',
+    action: 'handleDeliveryTypeSelection',
+    next: [
+      'IDLE',
+      'DELIVERY_TYPE_SELECTION',
+      'ADDRESS_SELECTION',
+      'LOCATION_REQUEST',
+      'PAYMENT_METHOD_SELECTION',
+    ],
+    description: 'Gel Al goes to payment, Paket Servis to the address flow',
+  },
+
+  // ==================== LOCATION_REQUEST ====================
+  {
+    id: 'location.default',
+    phase: 'LOCATION_REQUEST',
+    action: 'handleLocationRequest',
+    next: ['IDLE', 'ORDER_COLLECTING', 'LOCATION_REQUEST', 'ADDRESS_COLLECTION'],
+    description: 'Location pin is checked against the service area',
+  },
+
+  // ==================== ADDRESS_SELECTION ====================
+  {
+    id: 'addressSelection.default',
+    phase: 'ADDRESS_SELECTION',
+    action: 'handleAddressSelection',
+    next: [
+      'IDLE',
+      'ORDER_COLLECTING',
+      'ADDRESS_SELECTION',
+      'LOCATION_REQUEST',
+      'PAYMENT_METHOD_SELECTION',
+    ],
+  },
+
+  // ==================== ADDRESS_COLLECTION ====================
+  {
+    id: 'addressCollection.default',
+    phase: 'ADDRESS_COLLECTION',
+    action: 'handleAddressCollection',
+    next: ['IDLE', 'ADDRESS_COLLECTION', 'ADDRESS_SAVE_PROMPT'],
+  },
+
+  // ==================== ADDRESS_SAVE_PROMPT ====================
+  {
+    id: 'addressSave.confirm',
+    phase: 'ADDRESS_SAVE_PROMPT',
+    subState: 'WAITING_SAVE_CONFIRM',
+    action: 'handleSaveAddressConfirm',
+    next: ['ADDRESS_SAVE_PROMPT', 'PAYMENT_METHOD_SELECTION'],
+  },
+  {
+    id: 'addressSave.confirmNoSubState',
+    phase: 'ADDRESS_SAVE_PROMPT',
+    subState: null,
+    action: 'handleSaveAddressConfirm',
+    next: ['ADDRESS_SAVE_PROMPT', 'PAYMENT_METHOD_SELECTION'],
+  },
+  {
+    id: 'addressSave.name',
+    phase: 'ADDRESS_SAVE_PROMPT',
+    subState: 'WAITING_ADDRESS_NAME',
+    action: 'handleAddressName',
+    next: ['ADDRESS_SAVE_PROMPT', 'PAYMENT_METHOD_SELECTION'],
+  },
+  {
+    id: 'addressSave.customName',
+    phase: 'ADDRESS_SAVE_PROMPT',
+    subState: 'WAITING_ADDRESS_NAME_CUSTOM',
+    action: 'handleAddressNameCustom',
+    next: ['ADDRESS_SAVE_PROMPT', 'PAYMENT_METHOD_SELECTION'],
+  },
+  {
+    id: 'addressSave.default',
+    phase: 'ADDRESS_SAVE_PROMPT',
+    action: 'handleAddressSavePrompt',
+    next: ['PAYMENT_METHOD_SELECTION'],
+    description: 'Unknown sub-state, skip saving and continue to payment',
+  },
+
+  // ==================== PAYMENT_METHOD_SELECTION ====================
+  {
+    id: 'paymentMethod.cashButton',
+    phase: 'PAYMENT_METHOD_SELECTION',
+    events: ['BUTTON_REPLY'],
+    guard: { kind: 'button', ids: ['pay_cash'] },
+    action: 'handleCashPayment',
+    next: ['IDLE', 'ORDER_REVIEW', 'ORDER_CONFIRMED'],
+  },
+  {
+    id: 'paymentMethod.cardDoorButton',
+    phase: 'PAYMENT_METHOD_SELECTION',
+    events: ['BUTTON_REPLY'],
+    guard: { kind: 'button', ids: ['pay_card_door'] },
+    action: 'handleCardDoorPayment',
+    next: ['IDLE', 'ORDER_REVIEW', 'ORDER_CONFIRMED'],
+  },
+  {
+    id: 'paymentMethod.cardOnlineButton',
+    phase: 'PAYMENT_METHOD_SELECTION',
+    events: ['BUTTON_REPLY'],
+    guard: { kind: 'button', ids: ['pay_card_online', 'pay_card'] },
+    action: 'handleCardPayment',
+    next: ['IDLE', 'PAYMENT_METHOD_SELECTION', 'PAYMENT_PENDING'],
+  },
+  {
+    id: 'paymentMethod.default',
+    phase: 'PAYMENT_METHOD_SELECTION',
+    action: 'handlePaymentMethodSelection',
+    next: PAYMENT_OUTCOMES,
+    description: 'Payment keywords, cancel or mid-flow additions',
+  },
+
+  // ==================== PAYMENT_PENDING ====================
+  {
+    id: 'paymentPending.default',
+    phase: 'PAYMENT_PENDING',
+    action: 'handlePaymentPending',
+    next: PAYMENT_OUTCOMES,
+    description: 'Waiting for the payment callback; link reminder or expiry',
+  },
+
+  // ==================== ORDER_CONFIRMED ====================
+  {
+    id: 'confirmed.surveyRating',
+    phase: 'ORDER_CONFIRMED',
+    subState: 'SURVEY_RATING',
+    action: 'handleSurveyRating',
+    next: ['ORDER_CONFIRMED'],
+  },
+  {
+    id: 'confirmed.surveyComment',
+    phase: 'ORDER_CONFIRMED',
+    subState: 'SURVEY_COMMENT',
+    action: 'handleSurveyComment',
+    next: ['ORDER_CONFIRMED'],
+  },
+  {
+    id: 'confirmed.broadcastOptIn',
+    phase: 'ORDER_CONFIRMED',
+    subState: 'BROADCAST_OPT_IN_ASKED',
+    action: 'handleBroadcastOptInResponse',
+    next: ['ORDER_CONFIRMED'],
+  },
+  {
+    id: 'confirmed.default',
+    phase: 'ORDER_CONFIRMED',
+    action: 'handleOrderConfirmed',
+    next: IDLE_OUTCOMES,
+    description: 'Payment change, cancel while pending, otherwise restart as IDLE',
+  },
+
+  // ==================== AGENT_HANDOFF ====================
+  {
+    id: 'handoff.default',
+    phase: 'AGENT_HANDOFF',
+    action: 'handleAgentHandoff',
+    next: IDLE_OUTCOMES,
+    description: 'Any text message resumes the bot from IDLE',
+  },
+];
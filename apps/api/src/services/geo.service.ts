@@ -1,10 +1,15 @@
 import prisma from '../db/prisma';
 import { createLogger } from '../logger';
+import { storeScheduleService } from './store-schedule.service';
+import { storeCapacityService } from './store-capacity.service';
+import { describeLocal } from '../utils/zoned-time';
 import {
   GeoLocation,
   GeoCheckResult,
   StoreDto,
   DeliveryRuleDto,
+  DeliveryZoneDto,
+  GeoJsonPolygon,
 } from '@whatres/shared';
 
 const logger = createLogger();
@@ -36,25 +41,103 @@ export function haversineDistance(
   return R * c;
 }
 
+/**
+ * Whether a point lies inside a GeoJSON polygon (even-odd ray casting).
+ * The first ring is the outline, any further rings are holes.
+ */
+export function pointInPolygon(point: GeoLocation, polygon: GeoJsonPolygon): boolean {
+  const inRing = (ring: number[][]): boolean => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [lngI, latI] = ring[i];
+      const [lngJ, latJ] = ring[j];
+      const crosses =
+        latI > point.lat !== latJ > point.lat &&
+        point.lng < ((lngJ - lngI) * (point.lat - latI)) / (latJ - latI) + lngI;
+      if (crosses) inside = !inside;
+    }
+    return inside;
+  };
+
+  const [outline, ...holes] = polygon.coordinates ?? [];
+  if (!outline || outline.length < 3 || !inRing(outline)) return false;
+  return !holes.some((hole) => inRing(hole));
+}
+
 export class GeoService {
   /**
    * Check if a location is within service area
-   * Returns the nearest store, delivery rule, and alternative stores
+   * Polygon zones are checked first, then the radius rules of the nearest store.
+   * Returns the serving store, zone or delivery rule, and alternative stores.
+   * For a pre-order, pass its slot: stores are checked against their hours at
+   * that time and the open-now capacity pause does not apply.
    */
   async checkServiceArea(
     tenantId: string,
-    customerLocation: GeoLocation
+    customerLocation: GeoLocation,
+    scheduledFor: Date | null = null
   ): Promise<GeoCheckResult> {
-    // Get all active stores with their delivery rules
-    const stores = await prisma.store.findMany({
-      where: { tenantId, isActive: true, isOpen: true },
+    // Get all active stores with their delivery rules, keep the ones open now (or at the slot)
+    const activeStores = await prisma.store.findMany({
+      where: { tenantId, isActive: true },
       include: {
         deliveryRules: {
           where: { isActive: true },
           orderBy: { radiusKm: 'desc' }, // Largest radius first
         },
+        deliveryZones: {
+          where: { isActive: true },
+        },
       },
     });
+    let stores: typeof activeStores;
+    if (scheduledFor) {
+      stores = await storeScheduleService.filterOpenForSlot(tenantId, activeStores, scheduledFor);
+      if (stores.length === 0 && activeStores.length > 0) {
+        return {
+          isWithinServiceArea: false,
+          nearestStore: null,
+          distance: null,
+          deliveryRule: null,
+          alternativeStores: [],
+          message: 'Şubelerimiz seçtiğiniz saatte kapalı.',
+        };
+      }
+    } else {
+      const openStores = await storeScheduleService.filterOpenStores(tenantId, activeStores);
+      // Paused stores (by hand or over capacity) are left out like closed ones
+      const accepting = await storeCapacityService.filterAccepting(openStores);
+      stores = accepting.accepting;
+
+      if (stores.length === 0 && accepting.resumeAt) {
+        const { time } = describeLocal(accepting.resumeAt, openStores[0].timezone);
+        return {
+          isWithinServiceArea: false,
+          nearestStore: null,
+          distance: null,
+          deliveryRule: null,
+          alternativeStores: [],
+          message: `Yoğunluk nedeniyle şu an yeni sipariş alamıyoruz. Saat ${time} itibarıyla tekrar sipariş alabiliriz.`,
+        };
+      }
+
+      if (stores.length === 0 && activeStores.length > 0) {
+        const nextOpening = await storeScheduleService.getNextOpening(tenantId);
+        let message = 'Şubelerimiz şu anda kapalı.';
+        if (nextOpening) {
+          const { date, time } = describeLocal(nextOpening.at, nextOpening.timezone);
+          message += ` ${date} ${time} itibarıyla tekrar hizmetinizdeyiz.`;
+        }
+        return {
+          isWithinServiceArea: false,
+          nearestStore: null,
+          distance: null,
+          deliveryRule: null,
+          alternativeStores: [],
+          message,
+        };
+      }
+    }
 
     if (stores.length === 0) {
       return {
@@ -82,6 +165,40 @@ export class GeoService {
     // Sort by distance
     storesWithDistance.sort((a, b) => a.distance - b.distance);
 
+    // Polygon zones win over radius rules; highest priority first, then the closer store
+    const zoneMatch = stores
+      .flatMap((store) =>
+        store.deliveryZones.map((zone) => ({
+          zone: this.mapDeliveryZoneToDto(zone),
+          served: storesWithDistance.find((s) => s.store.id === store.id)!,
+        }))
+      )
+      .filter(({ zone }) => pointInPolygon(customerLocation, zone.polygon))
+      .sort((a, b) => b.zone.priority - a.zone.priority || a.served.distance - b.served.distance)[0];
+
+    if (zoneMatch) {
+      const { zone, served } = zoneMatch;
+      logger.info(
+        {
+          tenantId,
+          storeId: served.store.id,
+          zoneId: zone.id,
+          distance: served.distance.toFixed(2),
+        },
+        'Customer is within delivery zone'
+      );
+
+      return {
+        isWithinServiceArea: true,
+        nearestStore: served.store,
+        distance: Math.round(served.distance * 100) / 100,
+        deliveryRule: null,
+        deliveryZone: zone,
+        alternativeStores: [],
+        message: `Teslimat bölgesi: ${zone.name} (${served.store.name})`,
+      };
+    }
+
     const nearest = storesWithDistance[0];
 
     // Check if customer is within any delivery radius
@@ -167,13 +284,14 @@ export class GeoService {
   } | null> {
     const result = await this.checkServiceArea(tenantId, customerLocation);
 
-    if (!result.isWithinServiceArea || !result.deliveryRule || !result.nearestStore) {
+    const terms = result.deliveryZone ?? result.deliveryRule;
+    if (!result.isWithinServiceArea || !terms || !result.nearestStore) {
       return null;
     }
 
     return {
-      deliveryFee: result.deliveryRule.deliveryFee,
-      minBasket: result.deliveryRule.minBasket,
+      deliveryFee: terms.deliveryFee,
+      minBasket: terms.minBasket,
       store: result.nearestStore,
     };
   }
@@ -191,6 +309,8 @@ export class GeoService {
       phone: store.phone,
       isActive: store.isActive,
       isOpen: store.isOpen ?? true,
+      ...storeScheduleService.mapScheduleFields(store),
+      ...storeCapacityService.mapCapacityFields(store),
       createdAt: store.createdAt.toISOString(),
       updatedAt: store.updatedAt.toISOString(),
     };
@@ -209,6 +329,23 @@ export class GeoService {
       updatedAt: rule.updatedAt.toISOString(),
     };
   }
+
+  private mapDeliveryZoneToDto(zone: any): DeliveryZoneDto {
+    return {
+      id: zone.id,
+      tenantId: zone.tenantId,
+      storeId: zone.storeId,
+      name: zone.name,
+      polygon: zone.polygon as GeoJsonPolygon,
+      priority: zone.priority,
+      minBasket: Number(zone.minBasket),
+      deliveryFee: Number(zone.deliveryFee),
+      estimatedMinutes: zone.estimatedMinutes,
+      isActive: zone.isActive,
+      createdAt: zone.createdAt.toISOString(),
+      updatedAt: zone.updatedAt.toISOString(),
+    };
+  }
 }
 
 export const geoService = new GeoService();
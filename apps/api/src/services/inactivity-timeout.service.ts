@@ -1,6 +1,8 @@
 import prisma from '../db/prisma';
 import { whatsappService } from './whatsapp.service';
-import { TEMPLATES } from './message-templates';
+import { botCopyService } from './bot-copy.service';
+import { realtimeService } from './realtime.service';
+import { orderStatusService } from './order-status.service';
 import { createLogger } from '../logger';
 import { ConversationPhase } from '@whatres/shared';
 
@@ -50,6 +52,7 @@ export class InactivityTimeoutService {
         tenantId: true,
         phase: true,
         flowSubState: true,
+        language: true,
         flowMetadata: true,
       },
     });
@@ -80,7 +83,7 @@ export class InactivityTimeoutService {
           },
         });
 
-        await whatsappService.sendText(conv.tenantId, conv.id, TEMPLATES.inactivityWarning);
+        await whatsappService.sendText(conv.tenantId, conv.id, (await botCopyService.getTemplates(conv.tenantId, conv.language)).inactivityWarning);
 
         warned++;
         logger.info(
@@ -113,6 +116,7 @@ export class InactivityTimeoutService {
         activeOrderId: true,
         flowMetadata: true,
         phase: true,
+        language: true,
       },
     });
 
@@ -161,14 +165,19 @@ export class InactivityTimeoutService {
 
         // No customer response after 1 minute — cancel the order
         if (conv.activeOrderId) {
-          await prisma.order.updateMany({
+          const order = await prisma.order.findFirst({
             where: {
               id: conv.activeOrderId,
               tenantId: conv.tenantId,
               status: 'DRAFT',
             },
-            data: { status: 'CANCELLED' },
+            select: { id: true, status: true, deliveryType: true },
           });
+          if (order) {
+            await orderStatusService.transition(conv.tenantId, order, 'CANCELLED', { type: 'SYSTEM' }, {
+              reason: 'Customer inactivity',
+            });
+          }
         }
 
         // Reset conversation to IDLE
@@ -181,9 +190,14 @@ export class InactivityTimeoutService {
             flowMetadata: null,
           },
         });
+        realtimeService.publish(conv.tenantId, {
+          type: 'conversation.phase_changed',
+          conversationId: conv.id,
+          phase: 'IDLE',
+        });
 
         // Send cancellation message
-        await whatsappService.sendText(conv.tenantId, conv.id, TEMPLATES.inactivityCancelled);
+        await whatsappService.sendText(conv.tenantId, conv.id, (await botCopyService.getTemplates(conv.tenantId, conv.language)).inactivityCancelled);
 
         cancelled++;
         logger.info(
@@ -0,0 +1,340 @@
+import prisma from '../db/prisma';
+import { Prisma } from '@prisma/client';
+import { getConfig } from '@whatres/config';
+import { MessageDto, WhatsAppWebhookPayload } from '@whatres/shared';
+import { createLogger } from '../logger';
+import { inboxService } from './inbox.service';
+import { conversationFlowService } from './conversation-flow.service';
+import { conversationMailboxService } from './conversation-mailbox.service';
+
+const logger = createLogger();
+
+const MAX_ATTEMPTS = 5;
+// Conversations drained concurrently per pass
+const BATCH_SIZE = 20;
+// A PROCESSING job older than this was claimed by a process that died
+const STALE_LOCK_MS = 5 * 60_000;
+const RETRY_BASE_MS = 5_000;
+const DONE_RETENTION_MS = 7 * 24 * 60 * 60_000;
+// Upper bounds for burst merging
+const MAX_MERGED_MESSAGES = 5;
+const MAX_DEBOUNCE_WAIT_FACTOR = 4;
+
+type InboundJob = Prisma.InboundMessageJobGetPayload<object>;
+
+/**
+ * Durable inbound queue between the WhatsApp webhook and the conversation flow.
+ *
+ * The webhook stores the message and enqueues a job, then acknowledges Meta
+ * immediately. Jobs are drained in-process right away; the worker sweeps up
+ * anything left behind by a crashed API process.
+ *
+ * Each conversation is a mailbox: its jobs run one at a time, oldest first,
+ * under a lease from ConversationMailboxService. With INBOUND_DEBOUNCE_MS set,
+ * a burst of text fragments ("2 lahmacun", "1 ayran", "tamam") is merged into
+ * one flow/NLU call once the customer has been quiet for that long.
+ */
+export class InboundQueueService {
+  private draining = false;
+  private drainRequested = false;
+  private wakeTimer: NodeJS.Timeout | null = null;
+  private wakeAt: Date | null = null;
+  private debounceMs = getConfig().inbound.debounceMs;
+
+  /**
+   * Queue a stored inbound message for flow processing.
+   * Idempotent per message: a redelivered webhook does not create a second job.
+   */
+  async enqueue(
+    tenantId: string,
+    message: MessageDto,
+    payload: WhatsAppWebhookPayload
+  ): Promise<void> {
+    await prisma.inboundMessageJob.upsert({
+      where: { messageId: message.id },
+      create: {
+        tenantId,
+        conversationId: message.conversationId,
+        messageId: message.id,
+        payloadJson: payload as unknown as Prisma.InputJsonValue,
+      },
+      update: {},
+    });
+  }
+
+  /**
+   * Start draining in the background without blocking the caller
+   */
+  kick(): void {
+    setImmediate(() => {
+      this.drain().catch((error) => {
+        logger.error({ error }, 'Inbound queue drain failed');
+      });
+    });
+  }
+
+  /**
+   * Drain every conversation with due jobs until the queue is empty.
+   * Concurrent calls in the same process coalesce into one loop.
+   */
+  async drain(): Promise<{ processed: number; failed: number }> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return { processed: 0, failed: 0 };
+    }
+
+    this.draining = true;
+    let processed = 0;
+    let failed = 0;
+    try {
+      do {
+        this.drainRequested = false;
+        const conversations = await prisma.inboundMessageJob.findMany({
+          where: { status: 'PENDING', availableAt: { lte: new Date() } },
+          distinct: ['conversationId'],
+          orderBy: { createdAt: 'asc' },
+          select: { conversationId: true },
+          take: BATCH_SIZE,
+        });
+
+        const results = await Promise.all(
+          conversations.map((c) => this.drainConversation(c.conversationId))
+        );
+        for (const result of results) {
+          processed += result.processed;
+          failed += result.failed;
+        }
+
+        // A full page may have more behind it, unless every mailbox was blocked by a backoff
+        const progressed = results.some((r) => r.processed + r.failed > 0);
+        if (conversations.length === BATCH_SIZE && progressed) this.drainRequested = true;
+      } while (this.drainRequested);
+    } finally {
+      this.draining = false;
+    }
+
+    return { processed, failed };
+  }
+
+  /**
+   * Return jobs stuck in PROCESSING (owner process crashed) to the queue
+   */
+  async recoverStale(): Promise<number> {
+    const result = await prisma.inboundMessageJob.updateMany({
+      where: {
+        status: 'PROCESSING',
+        lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) },
+      },
+      data: { status: 'PENDING', lockedAt: null },
+    });
+    if (result.count > 0) {
+      logger.warn({ count: result.count }, 'Recovered stale inbound jobs');
+    }
+    return result.count;
+  }
+
+  /**
+   * Delete completed jobs past the retention window (failed jobs are kept for inspection)
+   */
+  async purgeCompleted(): Promise<number> {
+    const result = await prisma.inboundMessageJob.deleteMany({
+      where: { status: 'DONE', processedAt: { lt: new Date(Date.now() - DONE_RETENTION_MS) } },
+    });
+    return result.count;
+  }
+
+  // ==================== MAILBOX ====================
+
+  /**
+   * Process a conversation's jobs in order while holding its mailbox lease.
+   * If another consumer holds the lease it will pick up our jobs itself.
+   */
+  private async drainConversation(
+    conversationId: string
+  ): Promise<{ processed: number; failed: number }> {
+    const totals = { processed: 0, failed: 0 };
+
+    // Re-check after releasing: a job enqueued while we held the lease may
+    // have had its own drain attempt turned away by us.
+    for (;;) {
+      const dueAt = await this.nextDueAt(conversationId);
+      if (!dueAt) break;
+      if (dueAt > new Date()) {
+        // The oldest job is backing off and blocks the mailbox until then
+        this.scheduleWake(dueAt);
+        break;
+      }
+
+      let ranJobs = 0;
+      const outcome = await conversationMailboxService.tryRun(conversationId, async () => {
+        for (;;) {
+          const batch = await this.nextBatch(conversationId);
+          if (batch.length === 0) return;
+          if (await this.processBatch(batch)) totals.processed += batch.length;
+          else totals.failed += batch.length;
+          ranJobs += batch.length;
+        }
+      });
+      if (!outcome.ran || ranJobs === 0) break;
+    }
+
+    return totals;
+  }
+
+  /**
+   * When the mailbox can run next: the oldest pending job's availableAt, as
+   * nextBatch never lets newer jobs overtake it. Null when nothing is pending.
+   */
+  private async nextDueAt(conversationId: string): Promise<Date | null> {
+    const job = await prisma.inboundMessageJob.findFirst({
+      where: { conversationId, status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+      select: { availableAt: true },
+    });
+    return job?.availableAt ?? null;
+  }
+
+  /** Drain again once a backoff ends; keeps only the earliest wake-up */
+  private scheduleWake(at: Date): void {
+    if (this.wakeAt && this.wakeAt <= at) return;
+    if (this.wakeTimer) clearTimeout(this.wakeTimer);
+
+    this.wakeAt = at;
+    this.wakeTimer = setTimeout(
+      () => {
+        this.wakeTimer = null;
+        this.wakeAt = null;
+        this.kick();
+      },
+      Math.max(at.getTime() - Date.now(), 0)
+    );
+    // The worker sweep still picks the job up if this process exits first
+    this.wakeTimer.unref();
+  }
+
+  /**
+   * Next jobs to hand to the flow, oldest first. A job waiting out a retry
+   * backoff blocks the rest of the mailbox so messages never overtake it.
+   * Consecutive plain-text jobs are merged once the burst has gone quiet.
+   */
+  private async nextBatch(conversationId: string): Promise<InboundJob[]> {
+    for (;;) {
+      const pending = await prisma.inboundMessageJob.findMany({
+        where: { conversationId, status: 'PENDING' },
+        orderBy: { createdAt: 'asc' },
+        take: MAX_MERGED_MESSAGES,
+      });
+      if (pending.length === 0 || pending[0].availableAt > new Date()) return [];
+
+      let batch = [pending[0]];
+      if (this.debounceMs > 0 && this.isMergeable(pending[0]) && pending[0].attempts === 0) {
+        const run = pending.findIndex((job) => !this.isMergeable(job) || job.attempts > 0);
+        batch = run === -1 ? pending : pending.slice(0, Math.max(run, 1));
+
+        const last = batch[batch.length - 1];
+        const quietFor = Date.now() - last.createdAt.getTime();
+        const waitedFor = Date.now() - batch[0].createdAt.getTime();
+        const burstOpen =
+          batch.length === pending.length &&
+          pending.length < MAX_MERGED_MESSAGES &&
+          quietFor < this.debounceMs;
+        if (burstOpen && waitedFor < this.debounceMs * MAX_DEBOUNCE_WAIT_FACTOR) {
+          await new Promise((resolve) => setTimeout(resolve, this.debounceMs - quietFor));
+          continue;
+        }
+      }
+
+      const claimed = await prisma.inboundMessageJob.updateMany({
+        where: { id: { in: batch.map((job) => job.id) }, status: 'PENDING' },
+        data: { status: 'PROCESSING', lockedAt: new Date(), attempts: { increment: 1 } },
+      });
+      if (claimed.count === batch.length) return batch;
+
+      // Lost a race with recoverStale/another consumer — release what we got and retry
+      await prisma.inboundMessageJob.updateMany({
+        where: { id: { in: batch.map((job) => job.id) }, status: 'PROCESSING' },
+        data: { status: 'PENDING', lockedAt: null, attempts: { decrement: 1 } },
+      });
+    }
+  }
+
+  private isMergeable(job: InboundJob): boolean {
+    const payload = job.payloadJson as unknown as WhatsAppWebhookPayload;
+    return payload.type === 'text' && !payload.interactive;
+  }
+
+  /**
+   * Run one flow step for the batch. Merged fragments reach the flow as the
+   * newest message with the fragments' text joined line by line.
+   */
+  private async processBatch(batch: InboundJob[]): Promise<boolean> {
+    const job = batch[batch.length - 1];
+    try {
+      const messages = await Promise.all(
+        batch.map((j) => inboxService.getMessage(j.tenantId, j.messageId))
+      );
+      const message = messages[messages.length - 1];
+      if (!message) {
+        // Message was deleted (e.g. conversation removed) — nothing to do
+        await this.complete(batch);
+        return true;
+      }
+
+      let payload = job.payloadJson as unknown as WhatsAppWebhookPayload;
+      let flowMessage = message;
+      if (batch.length > 1) {
+        const text = messages
+          .map((m) => m?.text?.trim())
+          .filter(Boolean)
+          .join('\n');
+        flowMessage = { ...message, text };
+        payload = { ...payload, text: { body: text } };
+        logger.info(
+          { tenantId: job.tenantId, conversationId: job.conversationId, merged: batch.length },
+          'Merged inbound message burst'
+        );
+      }
+
+      // Transient failures come back here for backoff; the last attempt gets the error reply
+      await conversationFlowService.handleIncomingMessage(
+        job.tenantId,
+        job.conversationId,
+        flowMessage,
+        payload,
+        { rethrowTransient: job.attempts + 1 < MAX_ATTEMPTS }
+      );
+      await this.complete(batch);
+      return true;
+    } catch (error) {
+      const attempts = job.attempts + 1;
+      const exhausted = attempts >= MAX_ATTEMPTS;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      logger.error(
+        { error, tenantId: job.tenantId, messageId: job.messageId, attempts, exhausted },
+        'Inbound message processing failed'
+      );
+
+      await prisma.inboundMessageJob.updateMany({
+        where: { id: { in: batch.map((j) => j.id) } },
+        data: {
+          status: exhausted ? 'FAILED' : 'PENDING',
+          lockedAt: null,
+          lastError: errorMessage.substring(0, 1000),
+          // Exponential backoff: 5s, 10s, 20s, 40s
+          availableAt: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)),
+        },
+      });
+      return false;
+    }
+  }
+
+  private async complete(batch: InboundJob[]): Promise<void> {
+    await prisma.inboundMessageJob.updateMany({
+      where: { id: { in: batch.map((job) => job.id) } },
+      data: { status: 'DONE', lockedAt: null, processedAt: new Date() },
+    });
+  }
+}
+
+export const inboundQueueService = new InboundQueueService();
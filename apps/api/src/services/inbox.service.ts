@@ -11,15 +11,23 @@ import {
   ConversationPhase,
   MessageDirection,
   MessageKind,
+  MessageDeliveryStatus,
+  WhatsAppStatusUpdate,
   GeoCheckResult,
+  VoiceTranscriptDto,
 } from '@whatres/shared';
 import { Prisma } from '@prisma/client';
 import { whatsappProviderService } from './whatsapp-provider.service';
 import { whatsappConfigService } from './whatsapp-config.service';
 import { billingService } from './billing.service';
+import { realtimeService } from './realtime.service';
+import { DEFAULT_LANGUAGE, normalizeLanguage } from './locales';
 
 const logger = createLogger();
 
+// Customer-service window opened by each inbound message
+const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
 export class InboxService {
   // ==================== CONVERSATIONS ====================
 
@@ -100,6 +108,12 @@ export class InboxService {
       data: {
         status: dto.status,
         customerName: dto.customerName,
+        // A language picked in the inbox wins over detection; null hands it back
+        ...(dto.language !== undefined
+          ? dto.language === null
+            ? { languageLocked: false }
+            : { language: dto.language, languageLocked: true }
+          : {}),
       },
       include: {
         messages: {
@@ -256,9 +270,215 @@ export class InboxService {
       });
     }
 
+    realtimeService.publish(tenantId, {
+      type: 'message.created',
+      conversationId,
+      messageId: message.id,
+      direction,
+    });
+
     return this.mapMessageToDto(message);
   }
 
+  /**
+   * Look up a message by its provider id (Meta wamid)
+   */
+  async findMessageByExternalId(tenantId: string, externalId: string): Promise<MessageDto | null> {
+    const message = await prisma.message.findUnique({
+      where: { tenantId_externalId: { tenantId, externalId } },
+      include: {
+        sender: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+    return message ? this.mapMessageToDto(message) : null;
+  }
+
+  async getMessage(tenantId: string, messageId: string): Promise<MessageDto | null> {
+    const message = await prisma.message.findFirst({
+      where: { id: messageId, tenantId },
+      include: {
+        sender: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+    return message ? this.mapMessageToDto(message) : null;
+  }
+
+  // ==================== MEDIA & TRANSCRIPTS ====================
+
+  /**
+   * Inbound media (voice, image) of a message, fetched from Meta on demand.
+   * Meta expires media after a while; then MEDIA_NOT_AVAILABLE is thrown.
+   */
+  async getMessageMedia(
+    tenantId: string,
+    conversationId: string,
+    messageId: string
+  ): Promise<{ data: Buffer; mimeType: string }> {
+    const message = await prisma.message.findFirst({
+      where: { id: messageId, conversationId, tenantId },
+    });
+    if (!message) {
+      throw new AppError(404, 'MESSAGE_NOT_FOUND', 'Message not found');
+    }
+
+    const payload = (message.payloadJson ?? {}) as Record<string, unknown>;
+    const mediaId = payload.voiceId ?? payload.imageId;
+    if (typeof mediaId !== 'string') {
+      throw new AppError(404, 'MEDIA_NOT_AVAILABLE', 'Message has no media');
+    }
+
+    const waConfig = await whatsappConfigService.getDecryptedConfig(tenantId);
+    const media = waConfig
+      ? await whatsappProviderService.downloadMediaWithConfig(mediaId, waConfig)
+      : null;
+    if (!media) {
+      throw new AppError(404, 'MEDIA_NOT_AVAILABLE', 'Media is no longer available');
+    }
+    return media;
+  }
+
+  /**
+   * Save an agent's correction of a misheard voice transcript. The original
+   * transcript is kept next to it.
+   */
+  async correctTranscript(
+    tenantId: string,
+    conversationId: string,
+    messageId: string,
+    text: string,
+    userId: string
+  ): Promise<MessageDto> {
+    const message = await prisma.message.findFirst({
+      where: { id: messageId, conversationId, tenantId },
+    });
+    if (!message) {
+      throw new AppError(404, 'MESSAGE_NOT_FOUND', 'Message not found');
+    }
+    if (message.kind !== 'VOICE') {
+      throw new AppError(400, 'NOT_A_VOICE_MESSAGE', 'Only voice messages have a transcript');
+    }
+
+    const payload = (message.payloadJson ?? {}) as Record<string, unknown>;
+    // Transcription may have failed; the agent's text is then the only one
+    const transcript: VoiceTranscriptDto = {
+      text: '',
+      confidence: null,
+      lowConfidence: false,
+      provider: 'none',
+      language: null,
+      transcribedAt: new Date().toISOString(),
+      ...(payload.transcript as VoiceTranscriptDto | undefined),
+      correctedText: text,
+      correctedByUserId: userId,
+      correctedAt: new Date().toISOString(),
+    };
+
+    const updated = await prisma.message.update({
+      where: { id: message.id },
+      data: { payloadJson: { ...payload, transcript: { ...transcript } } as Prisma.InputJsonObject },
+      include: {
+        sender: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+    return this.mapMessageToDto(updated);
+  }
+
+  // ==================== SESSION WINDOW ====================
+
+  /**
+   * WhatsApp only allows free-form messages within 24 hours of the customer's
+   * last inbound message; outside it only approved templates can be sent.
+   */
+  async isSessionWindowOpen(tenantId: string, conversationId: string): Promise<boolean> {
+    const lastInbound = await prisma.message.findFirst({
+      where: {
+        tenantId,
+        conversationId,
+        direction: 'IN',
+        createdAt: { gte: new Date(Date.now() - SESSION_WINDOW_MS) },
+      },
+      select: { id: true },
+    });
+    return !!lastInbound;
+  }
+
+  // ==================== DELIVERY STATUS ====================
+
+  /**
+   * Record the provider message id of a sent outbound message
+   */
+  async markMessageSent(messageId: string, externalId: string): Promise<void> {
+    await prisma.message.update({
+      where: { id: messageId },
+      data: { externalId, deliveryStatus: 'SENT', sentAt: new Date() },
+    });
+  }
+
+  /**
+   * Record that the provider rejected an outbound message
+   */
+  async markMessageFailed(messageId: string, error: string): Promise<void> {
+    await prisma.message.update({
+      where: { id: messageId },
+      data: { deliveryStatus: 'FAILED', failedAt: new Date(), deliveryError: error.substring(0, 500) },
+    });
+  }
+
+  /**
+   * Apply a provider delivery receipt to the matching outbound message.
+   * Status only moves forward (SENT → DELIVERED → READ); receipts can arrive
+   * out of order, so a late "delivered" after "read" only fills its timestamp.
+   * Returns false when no message matches the external id.
+   */
+  async applyDeliveryStatus(tenantId: string, update: WhatsAppStatusUpdate): Promise<boolean> {
+    const message = await prisma.message.findUnique({
+      where: { tenantId_externalId: { tenantId, externalId: update.externalId } },
+      select: { id: true, direction: true, deliveryStatus: true, sentAt: true, deliveredAt: true, readAt: true },
+    });
+    if (!message || message.direction !== 'OUT') return false;
+
+    const rank: Record<MessageDeliveryStatus, number> = { FAILED: 0, SENT: 1, DELIVERED: 2, READ: 3 };
+    const current = message.deliveryStatus as MessageDeliveryStatus | null;
+    const data: Prisma.MessageUpdateInput = {};
+    const at = update.timestamp;
+
+    switch (update.status) {
+      case 'sent':
+        if (!message.sentAt) data.sentAt = at;
+        if (!current) data.deliveryStatus = 'SENT';
+        break;
+      case 'delivered':
+        if (!message.deliveredAt) data.deliveredAt = at;
+        if (!current || rank[current] < rank.DELIVERED) data.deliveryStatus = 'DELIVERED';
+        break;
+      case 'read':
+        if (!message.deliveredAt) data.deliveredAt = at;
+        if (!message.readAt) data.readAt = at;
+        data.deliveryStatus = 'READ';
+        break;
+      case 'failed':
+        // A failure can't follow a confirmed delivery
+        if (!current || current === 'SENT') {
+          data.deliveryStatus = 'FAILED';
+          data.failedAt = at;
+          data.deliveryErrorCode = update.errorCode ?? null;
+          data.deliveryError = update.errorTitle?.substring(0, 500) ?? null;
+        }
+        break;
+    }
+
+    if (Object.keys(data).length > 0) {
+      await prisma.message.update({ where: { id: message.id }, data });
+    }
+    return true;
+  }
+
   async replyToConversation(
     tenantId: string,
     conversationId: string,
@@ -294,10 +514,7 @@ export class InboxService {
       );
 
       // Update message with the WhatsApp message ID
-      await prisma.message.update({
-        where: { id: message.id },
-        data: { externalId: result.messageId },
-      });
+      await this.markMessageSent(message.id, result.messageId);
 
       logger.info(
         { tenantId, conversationId, messageId: message.id, waMessageId: result.messageId },
@@ -308,6 +525,8 @@ export class InboxService {
         { tenantId, conversationId, messageId: message.id, error },
         'Failed to send inbox reply via WhatsApp — message saved but not delivered',
       );
+      await this.markMessageFailed(message.id, error instanceof Error ? error.message : String(error))
+        .catch(() => undefined);
     }
 
     return message;
@@ -328,6 +547,8 @@ export class InboxService {
         ...(activeOrderId !== undefined ? { activeOrderId } : {}),
       },
     });
+
+    realtimeService.publish(tenantId, { type: 'conversation.phase_changed', conversationId, phase });
   }
 
   async getConversationRaw(tenantId: string, conversationId: string) {
@@ -336,6 +557,17 @@ export class InboxService {
     });
   }
 
+  /**
+   * Language the bot replies in for this conversation
+   */
+  async getConversationLanguage(tenantId: string, conversationId: string): Promise<string> {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: conversationId, tenantId },
+      select: { language: true },
+    });
+    return conversation?.language ?? DEFAULT_LANGUAGE;
+  }
+
   // ==================== GEO CHECK ====================
 
   async updateConversationGeoCheck(
@@ -407,6 +639,8 @@ export class InboxService {
       customerLng: conversation.customerLng,
       isWithinService: conversation.isWithinService,
       nearestStoreId: conversation.nearestStoreId,
+      language: normalizeLanguage(conversation.language) ?? DEFAULT_LANGUAGE,
+      languageLocked: conversation.languageLocked ?? false,
     };
   }
 
@@ -423,6 +657,12 @@ export class InboxService {
       senderName: message.sender?.name,
       externalId: message.externalId,
       createdAt: message.createdAt.toISOString(),
+      deliveryStatus: (message.deliveryStatus as MessageDeliveryStatus) ?? null,
+      sentAt: message.sentAt?.toISOString() ?? null,
+      deliveredAt: message.deliveredAt?.toISOString() ?? null,
+      readAt: message.readAt?.toISOString() ?? null,
+      failedAt: message.failedAt?.toISOString() ?? null,
+      deliveryError: message.deliveryError ?? null,
     };
   }
 }
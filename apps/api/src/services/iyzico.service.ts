@@ -1016,6 +1016,7 @@ export class IyzicoService {
     success: boolean;
     paymentStatus?: string;
     paymentId?: string;
+    itemTransactions?: Array<{ paymentTransactionId: string; paidPrice: number }>;
     error?: string;
   }> {
     const body = {
@@ -1029,6 +1030,7 @@ export class IyzicoService {
       paymentId: string;
       price: number;
       paidPrice: number;
+      itemTransactions?: Array<{ paymentTransactionId: string; paidPrice: number }>;
       errorMessage?: string;
     }>(tenantId, 'POST', '/payment/iyzipos/checkoutform/auth/ecom/detail', body);
 
@@ -1037,6 +1039,7 @@ export class IyzicoService {
         success: true,
         paymentStatus: result.data.paymentStatus,
         paymentId: result.data.paymentId,
+        itemTransactions: result.data.itemTransactions,
       };
     }
 
@@ -1253,6 +1256,38 @@ export class IyzicoService {
       return { success: false, error: errMsg };
     }
   }
+
+  /**
+   * Partially refund one basket item of an order payment — tenant iyzico
+   * (iyzico kısmi iadeyi sepet kalemi bazında, paymentTransactionId ile yapar)
+   */
+  async refundPaymentTransaction(
+    tenantId: string,
+    paymentTransactionId: string,
+    amount: number,
+    ip: string = '85.34.78.112',
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const body = {
+        locale: 'tr',
+        conversationId: `refund-${Date.now()}`,
+        paymentTransactionId,
+        price: amount.toFixed(2),
+        currency: 'TRY',
+        ip,
+      };
+
+      const result = await this.tenantRequest(tenantId, 'POST', '/payment/refund', body);
+
+      if (result.success) {
+        return { success: true };
+      }
+      return { success: false, error: result.error || 'Refund failed' };
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      return { success: false, error: errMsg };
+    }
+  }
 }
 
 export const iyzicoService = new IyzicoService();
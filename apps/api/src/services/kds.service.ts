@@ -0,0 +1,335 @@
+import { OrderStatus, OrderItemOption, KdsTicketDto, KdsTicketItemDto } from '@whatres/shared';
+import prisma from '../db/prisma';
+import { AppError } from '../middleware/error-handler';
+import { createLogger } from '../logger';
+import { kitchenStationService } from './kitchen-station.service';
+import { orderService } from './order.service';
+import { orderStatusService, OrderStatusActor } from './order-status.service';
+import { preOrderService } from './pre-order.service';
+import { realtimeService } from './realtime.service';
+
+const logger = createLogger();
+
+/** Orders the kitchen still works on */
+const KITCHEN_STATUSES: OrderStatus[] = ['CONFIRMED', 'PREPARING'];
+
+/** Kitchen progress of an order; a later status includes the earlier ones */
+const PROGRESS: OrderStatus[] = ['CONFIRMED', 'PREPARING', 'READY', 'DELIVERED'];
+
+/** How long bumped tickets stay available for recall */
+const RECALL_WINDOW_MS = 30 * 60 * 1000;
+
+type KdsOrder = Awaited<ReturnType<KdsService['loadOrders']>>[number];
+type KdsOrderItem = KdsOrder['items'][number];
+
+export class KdsService {
+  // ==================== BOARD ====================
+
+  /**
+   * Tickets for the KDS board, oldest first. Open tickets of confirmed and
+   * preparing orders, plus tickets bumped within the recall window.
+   */
+  async getTickets(
+    tenantId: string,
+    filter: { stationId?: string; storeId?: string } = {}
+  ): Promise<KdsTicketDto[]> {
+    const orders = await this.loadOrders(tenantId, filter.storeId);
+    const route = await kitchenStationService.getRouter(
+      tenantId,
+      orders.flatMap((order) => order.items.map((item) => item.menuItemId))
+    );
+
+    // Pre-orders show up together with their held print jobs
+    const { leadMinutes } = await preOrderService.getSettings(tenantId);
+    const shownUntil = Date.now() + leadMinutes * 60_000;
+
+    const recallSince = Date.now() - RECALL_WINDOW_MS;
+    const tickets: KdsTicketDto[] = [];
+    for (const order of orders) {
+      if (order.scheduledFor && order.scheduledFor.getTime() > shownUntil) continue;
+      for (const ticket of this.splitOrder(order, route)) {
+        if (filter.stationId && ticket.stationId !== filter.stationId) continue;
+        if (ticket.bumpedAt && new Date(ticket.bumpedAt).getTime() < recallSince) continue;
+        tickets.push(ticket);
+      }
+    }
+
+    return tickets.sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+  }
+
+  // ==================== ITEM ACTIONS ====================
+
+  /**
+   * Mark an item as started. The first started item moves the order from
+   * CONFIRMED to PREPARING (which notifies the customer).
+   */
+  async startItem(tenantId: string, itemId: string, actor: OrderStatusActor): Promise<void> {
+    const item = await this.findKitchenItem(tenantId, itemId);
+
+    if (!item.prepStartedAt) {
+      await prisma.orderItem.update({
+        where: { id: itemId },
+        data: { prepStartedAt: new Date() },
+      });
+    }
+
+    await this.syncOrderStatus(tenantId, item.orderId, actor);
+  }
+
+  /**
+   * Mark an item as done. When every item of the order is bumped the order
+   * becomes READY, which sends orderReady to the customer.
+   */
+  async bumpItem(tenantId: string, itemId: string, actor: OrderStatusActor): Promise<void> {
+    const item = await this.findKitchenItem(tenantId, itemId);
+    const now = new Date();
+
+    await prisma.orderItem.update({
+      where: { id: itemId },
+      data: { bumpedAt: now, prepStartedAt: item.prepStartedAt ?? now },
+    });
+
+    await this.syncOrderStatus(tenantId, item.orderId, actor);
+  }
+
+  // ==================== TICKET ACTIONS ====================
+
+  async bumpTicket(
+    tenantId: string,
+    orderId: string,
+    stationId: string | null,
+    actor: OrderStatusActor
+  ): Promise<void> {
+    const items = await this.getTicketItems(tenantId, orderId, stationId);
+    const now = new Date();
+
+    const open = items.filter((item) => !item.bumpedAt);
+    await prisma.$transaction(
+      open.map((item) =>
+        prisma.orderItem.update({
+          where: { id: item.id },
+          data: { bumpedAt: now, prepStartedAt: item.prepStartedAt ?? now },
+        })
+      )
+    );
+
+    logger.info({ tenantId, orderId, stationId, items: open.length }, 'KDS ticket bumped');
+    await this.syncOrderStatus(tenantId, orderId, actor);
+  }
+
+  /**
+   * Bring a bumped ticket back onto the board. A READY order goes back to
+   * PREPARING without a customer message: the ready notice already went out
+   * and the kitchen is only fixing something.
+   */
+  async recallTicket(
+    tenantId: string,
+    orderId: string,
+    stationId: string | null,
+    actor: OrderStatusActor
+  ): Promise<void> {
+    const items = await this.getTicketItems(tenantId, orderId, stationId, true);
+
+    await prisma.orderItem.updateMany({
+      where: { id: { in: items.map((item) => item.id) } },
+      data: { bumpedAt: null },
+    });
+
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      select: { id: true, status: true, deliveryType: true },
+    });
+    if (order?.status === 'READY') {
+      const updated = await orderStatusService.transition(tenantId, order, 'PREPARING', actor, {
+        reason: 'KDS recall',
+      });
+      realtimeService.publish(tenantId, {
+        type: 'order.status_changed',
+        orderId,
+        orderNumber: updated.orderNumber,
+        status: 'PREPARING',
+      });
+    }
+
+    logger.info({ tenantId, orderId, stationId }, 'KDS ticket recalled');
+  }
+
+  // ==================== HELPERS ====================
+
+  private loadOrders(tenantId: string, storeId?: string) {
+    return prisma.order.findMany({
+      where: {
+        tenantId,
+        ...(storeId && { storeId }),
+        OR: [
+          { status: { in: KITCHEN_STATUSES } },
+          // Recently finished orders, so their tickets can be recalled
+          { status: 'READY', updatedAt: { gte: new Date(Date.now() - RECALL_WINDOW_MS) } },
+        ],
+      },
+      include: {
+        items: { orderBy: { createdAt: 'asc' } },
+        store: { select: { id: true, name: true } },
+      },
+      orderBy: { confirmedAt: 'asc' },
+    });
+  }
+
+  /** One ticket per station, plus one for items no station claims */
+  private splitOrder(
+    order: KdsOrder,
+    route: Awaited<ReturnType<typeof kitchenStationService.getRouter>>
+  ): KdsTicketDto[] {
+    const routing = route(order.storeId, order.items);
+    const groups: Array<{ station: { id: string; name: string } | null; items: KdsOrderItem[] }> =
+      routing.tickets.map((ticket) => ({ station: ticket.station, items: ticket.items }));
+
+    const unrouted = order.items.filter((item) => !routing.stationByItem.has(item));
+    if (unrouted.length > 0) {
+      groups.push({ station: null, items: unrouted });
+    }
+
+    return groups.map(({ station, items }) => {
+      const bumped = items.every((item) => item.bumpedAt);
+      const lastBump = Math.max(...items.map((item) => item.bumpedAt?.getTime() ?? 0));
+      return {
+        id: `${order.id}:${station?.id ?? 'kitchen'}`,
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        orderStatus: order.status as OrderStatus,
+        stationId: station?.id ?? null,
+        stationName: station?.name ?? null,
+        storeId: order.storeId,
+        storeName: order.store?.name ?? null,
+        customerName: order.customerName,
+        deliveryType: order.deliveryType,
+        notes: order.notes,
+        receivedAt: (order.confirmedAt ?? order.createdAt).toISOString(),
+        bumpedAt: bumped ? new Date(lastBump).toISOString() : null,
+        items: items.map((item) => this.mapItem(item)),
+      };
+    });
+  }
+
+  private async getTicketItems(
+    tenantId: string,
+    orderId: string,
+    stationId: string | null,
+    allowReady = false
+  ): Promise<KdsOrderItem[]> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      include: { items: true },
+    });
+
+    if (!order) {
+      throw new AppError(404, 'ORDER_NOT_FOUND', 'Order not found');
+    }
+
+    const statuses: OrderStatus[] = allowReady ? [...KITCHEN_STATUSES, 'READY'] : KITCHEN_STATUSES;
+    if (!statuses.includes(order.status as OrderStatus)) {
+      throw new AppError(400, 'INVALID_STATUS', `Order is ${order.status}, not in the kitchen`);
+    }
+
+    const routing = await kitchenStationService.routeItems(tenantId, order.storeId, order.items);
+    const items = order.items.filter(
+      (item) => (routing.stationByItem.get(item)?.id ?? null) === stationId
+    );
+
+    if (items.length === 0) {
+      throw new AppError(404, 'TICKET_NOT_FOUND', 'No items of this order belong to the station');
+    }
+
+    return items;
+  }
+
+  private async findKitchenItem(tenantId: string, itemId: string) {
+    const item = await prisma.orderItem.findFirst({
+      where: { id: itemId, order: { tenantId } },
+      include: { order: { select: { status: true } } },
+    });
+
+    if (!item) {
+      throw new AppError(404, 'ITEM_NOT_FOUND', 'Order item not found');
+    }
+
+    if (!KITCHEN_STATUSES.includes(item.order.status as OrderStatus)) {
+      throw new AppError(
+        400,
+        'INVALID_STATUS',
+        `Order is ${item.order.status}, not in the kitchen`
+      );
+    }
+
+    return item;
+  }
+
+  /**
+   * CONFIRMED → PREPARING once any item is started, → READY once all items
+   * are bumped. Goes through updateOrderStatus so the customer is notified.
+   */
+  private async syncOrderStatus(
+    tenantId: string,
+    orderId: string,
+    actor: OrderStatusActor
+  ): Promise<void> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      select: { status: true, items: { select: { prepStartedAt: true, bumpedAt: true } } },
+    });
+    if (!order || !KITCHEN_STATUSES.includes(order.status as OrderStatus)) return;
+
+    if (order.items.length > 0 && order.items.every((item) => item.bumpedAt)) {
+      await this.advanceOrder(tenantId, orderId, 'READY', actor);
+    } else if (
+      order.status === 'CONFIRMED' &&
+      order.items.some((item) => item.prepStartedAt || item.bumpedAt)
+    ) {
+      await this.advanceOrder(tenantId, orderId, 'PREPARING', actor);
+    }
+  }
+
+  /**
+   * Move the order on. Two stations bumping at once both try this; the one
+   * that loses finds the order already moved, which is what it wanted, so its
+   * saved bump is not reported as a conflict.
+   */
+  private async advanceOrder(
+    tenantId: string,
+    orderId: string,
+    to: OrderStatus,
+    actor: OrderStatusActor
+  ): Promise<void> {
+    try {
+      await orderService.updateOrderStatus(tenantId, orderId, to, actor);
+    } catch (error) {
+      if (
+        !(error instanceof AppError) ||
+        !['STATUS_CONFLICT', 'INVALID_TRANSITION'].includes(error.code)
+      ) {
+        throw error;
+      }
+      const current = await prisma.order.findFirst({
+        where: { id: orderId, tenantId },
+        select: { status: true },
+      });
+      const reached = PROGRESS.indexOf((current?.status ?? '') as OrderStatus);
+      if (reached < PROGRESS.indexOf(to)) throw error;
+    }
+  }
+
+  private mapItem(item: KdsOrderItem): KdsTicketItemDto {
+    return {
+      id: item.id,
+      name: item.menuItemName,
+      qty: item.qty,
+      options: (item.optionsJson as OrderItemOption[] | null)?.map((o) => o.optionName) ?? [],
+      notes: item.notes,
+      addedAt: item.addedAt?.toISOString() ?? null,
+      startedAt: item.prepStartedAt?.toISOString() ?? null,
+      bumpedAt: item.bumpedAt?.toISOString() ?? null,
+    };
+  }
+}
+
+export const kdsService = new KdsService();
@@ -0,0 +1,233 @@
+import { KitchenStation, Prisma } from '@prisma/client';
+import {
+  KitchenStationDto,
+  CreateKitchenStationDto,
+  UpdateKitchenStationDto,
+} from '@whatres/shared';
+import prisma from '../db/prisma';
+import { AppError } from '../middleware/error-handler';
+import { createLogger } from '../logger';
+
+const logger = createLogger();
+
+export interface StationTicket<T> {
+  station: { id: string; name: string };
+  items: T[];
+}
+
+export interface StationRouting<T> {
+  /** One entry per station that has items, in station sortOrder */
+  tickets: StationTicket<T>[];
+  /** Station per routed item; unrouted items are absent */
+  stationByItem: Map<T, { id: string; name: string }>;
+}
+
+/** Routes the items of one order; see KitchenStationService.getRouter */
+export type StationRouter = <T extends { menuItemId: string }>(
+  storeId: string | null,
+  items: T[]
+) => StationRouting<T>;
+
+export class KitchenStationService {
+  // ==================== STATIONS ====================
+
+  async getStations(tenantId: string, includeInactive = false): Promise<KitchenStationDto[]> {
+    const stations = await prisma.kitchenStation.findMany({
+      where: {
+        tenantId,
+        ...(includeInactive ? {} : { isActive: true }),
+      },
+      orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return stations.map((station) => this.mapToDto(station));
+  }
+
+  async createStation(tenantId: string, data: CreateKitchenStationDto): Promise<KitchenStationDto> {
+    if (data.storeId) {
+      await this.verifyStore(tenantId, data.storeId);
+    }
+
+    const station = await prisma.kitchenStation.create({
+      data: {
+        tenantId,
+        storeId: data.storeId || null,
+        name: data.name,
+        categories: this.normalizeCategories(data.categories),
+        isActive: data.isActive ?? true,
+        sortOrder: data.sortOrder ?? 0,
+      },
+    });
+
+    logger.info({ tenantId, stationId: station.id }, 'Kitchen station created');
+
+    return this.mapToDto(station);
+  }
+
+  async updateStation(
+    tenantId: string,
+    stationId: string,
+    data: UpdateKitchenStationDto
+  ): Promise<KitchenStationDto> {
+    await this.verifyStation(tenantId, stationId);
+    if (data.storeId) {
+      await this.verifyStore(tenantId, data.storeId);
+    }
+
+    const station = await prisma.kitchenStation.update({
+      where: { id: stationId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.storeId !== undefined && { storeId: data.storeId || null }),
+        ...(data.categories !== undefined && {
+          categories: this.normalizeCategories(data.categories),
+        }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+        ...(data.sortOrder !== undefined && { sortOrder: data.sortOrder }),
+      },
+    });
+
+    logger.info({ tenantId, stationId }, 'Kitchen station updated');
+
+    return this.mapToDto(station);
+  }
+
+  async deleteStation(tenantId: string, stationId: string): Promise<void> {
+    await this.verifyStation(tenantId, stationId);
+
+    // Menu item overrides and past print jobs are unlinked (SET NULL)
+    await prisma.kitchenStation.delete({ where: { id: stationId } });
+
+    logger.info({ tenantId, stationId }, 'Kitchen station deleted');
+  }
+
+  async verifyStation(tenantId: string, stationId: string): Promise<void> {
+    const station = await prisma.kitchenStation.findFirst({
+      where: { id: stationId, tenantId },
+      select: { id: true },
+    });
+
+    if (!station) {
+      throw new AppError(404, 'STATION_NOT_FOUND', 'Kitchen station not found');
+    }
+  }
+
+  // ==================== ROUTING ====================
+
+  /**
+   * Split order items across the active stations of the order's store.
+   * An item goes to its menu item's station override when that station serves
+   * the store, otherwise to the first station listing its category. Items no
+   * station claims only appear on the summary ticket.
+   */
+  async routeItems<T extends { menuItemId: string }>(
+    tenantId: string,
+    storeId: string | null,
+    items: T[],
+    db: Prisma.TransactionClient = prisma
+  ): Promise<StationRouting<T>> {
+    const route = await this.getRouter(
+      tenantId,
+      items.map((item) => item.menuItemId),
+      db
+    );
+    return route(storeId, items);
+  }
+
+  /**
+   * Load stations and menu items once and route many orders in memory
+   * (KDS board). menuItemIds must cover every item that will be routed.
+   */
+  async getRouter(
+    tenantId: string,
+    menuItemIds: string[],
+    db: Prisma.TransactionClient = prisma
+  ): Promise<StationRouter> {
+    const stations = await db.kitchenStation.findMany({
+      where: { tenantId, isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+    });
+    const menuItems =
+      stations.length > 0 && menuItemIds.length > 0
+        ? await db.menuItem.findMany({
+            where: { tenantId, id: { in: [...new Set(menuItemIds)] } },
+            select: { id: true, category: true, stationId: true },
+          })
+        : [];
+    const menuItemById = new Map(menuItems.map((menuItem) => [menuItem.id, menuItem]));
+
+    return <T extends { menuItemId: string }>(storeId: string | null, items: T[]) => {
+      const routing: StationRouting<T> = { tickets: [], stationByItem: new Map() };
+      const storeStations = stations.filter((s) => !s.storeId || s.storeId === storeId);
+      if (storeStations.length === 0) return routing;
+
+      const tickets = new Map<string, StationTicket<T>>();
+      for (const item of items) {
+        const menuItem = menuItemById.get(item.menuItemId);
+        if (!menuItem) continue;
+
+        const category = menuItem.category.toLocaleLowerCase('tr');
+        const station =
+          storeStations.find((s) => s.id === menuItem.stationId) ??
+          storeStations.find((s) =>
+            s.categories.some((c) => c.toLocaleLowerCase('tr') === category)
+          );
+        if (!station) continue;
+
+        const ref = { id: station.id, name: station.name };
+        if (!tickets.has(station.id)) {
+          tickets.set(station.id, { station: ref, items: [] });
+        }
+        tickets.get(station.id)!.items.push(item);
+        routing.stationByItem.set(item, ref);
+      }
+
+      routing.tickets = storeStations
+        .map((station) => tickets.get(station.id))
+        .filter((ticket): ticket is StationTicket<T> => !!ticket);
+      return routing;
+    };
+  }
+
+  // ==================== HELPERS ====================
+
+  private async verifyStore(tenantId: string, storeId: string): Promise<void> {
+    const store = await prisma.store.findFirst({
+      where: { id: storeId, tenantId },
+      select: { id: true },
+    });
+
+    if (!store) {
+      throw new AppError(404, 'STORE_NOT_FOUND', 'Store not found');
+    }
+  }
+
+  private normalizeCategories(categories: string[] | undefined): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const category of categories ?? []) {
+      const trimmed = category.trim();
+      const key = trimmed.toLocaleLowerCase('tr');
+      if (!trimmed || seen.has(key)) continue;
+      seen.add(key);
+      result.push(trimmed);
+    }
+    return result;
+  }
+
+  private mapToDto(station: KitchenStation): KitchenStationDto {
+    return {
+      id: station.id,
+      tenantId: station.tenantId,
+      storeId: station.storeId,
+      name: station.name,
+      categories: station.categories,
+      isActive: station.isActive,
+      sortOrder: station.sortOrder,
+      createdAt: station.createdAt.toISOString(),
+      updatedAt: station.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const kitchenStationService = new KitchenStationService();
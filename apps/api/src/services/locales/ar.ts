@@ -0,0 +1,824 @@
+import type { MessageCatalog } from '../message-templates';
+
+/**
+ * Arabic message catalog
+ */
+export const AR: MessageCatalog = {
+  // ==================== GREETING ====================
+  greeting: 'مرحباً بكم! 🍽️\nاكتب المنتجات التي تريد طلبها.\nلعرض قائمة الطعام اكتب "قائمة".',
+
+  // ==================== ORDER ====================
+  orderSummary(items, total, deliveryFee, orderNotes, coupon, loyalty) {
+    let msg = 'طلبك:\n\n';
+    items.forEach((i) => {
+      let line = `  ${i.qty}x ${i.name}`;
+      if (i.options && i.options.length > 0) {
+        line += ` (${i.options.join('، ')})`;
+      }
+      if (i.originalPrice && i.originalPrice > i.price) {
+        line += ` - ~${(i.qty * i.originalPrice).toFixed(2)} TL~ *${(i.qty * i.price).toFixed(2)} TL*`;
+      } else {
+        line += ` - ${(i.qty * i.price).toFixed(2)} TL`;
+      }
+      if (i.notes) {
+        line += `\n    ملاحظة: ${i.notes}`;
+      }
+      msg += line + '\n';
+    });
+    msg += `\nالمجموع الفرعي: ${total.toFixed(2)} TL`;
+    let grandTotal = total;
+    if (coupon) {
+      msg += `\nالقسيمة (${coupon.code}): -${coupon.discount.toFixed(2)} TL`;
+      grandTotal -= coupon.discount;
+    }
+    if (loyalty) {
+      msg +=
+        loyalty.points > 0
+          ? `\nالنقاط (${loyalty.points}): -${loyalty.discount.toFixed(2)} TL`
+          : `\nمكافأة بطاقة الأختام: -${loyalty.discount.toFixed(2)} TL`;
+      grandTotal -= loyalty.discount;
+    }
+    if (deliveryFee != null && deliveryFee > 0) {
+      msg += `\nرسوم التوصيل: ${deliveryFee.toFixed(2)} TL`;
+      grandTotal += deliveryFee;
+    }
+    if (grandTotal !== total) {
+      msg += `\nالمجموع الكلي: ${grandTotal.toFixed(2)} TL`;
+    }
+    if (orderNotes) {
+      msg += `\n\nملاحظة: ${orderNotes}`;
+    }
+    return msg;
+  },
+
+  orderConfirmButtons: {
+    buttons: [
+      { id: 'confirm_order', title: 'تأكيد' },
+      { id: 'cancel_order', title: 'إلغاء' },
+    ],
+  },
+
+  orderEmpty: 'سلتك فارغة. اكتب اسم المنتج لتطلبه.',
+
+  orderItemAdded(itemName, qty) {
+    return `✅ تمت إضافة ${qty}x ${itemName} إلى السلة.`;
+  },
+
+  seamlessAdditionConfirmed(orderNumber, addedItems, additionTotal, newTotal) {
+    return (
+      `➕ تمت إضافة *${addedItems}* إلى طلبك (#${orderNumber})!\n\n` +
+      `المبلغ الإضافي: ${additionTotal.toFixed(2)} TL\n` +
+      `المجموع الجديد: ${newTotal.toFixed(2)} TL`
+    );
+  },
+
+  seamlessAdditionPaymentNeeded(orderNumber, addedItems, additionTotal, paymentUrl, newTotal) {
+    return (
+      `➕ تمت إضافة *${addedItems}* إلى طلبك (#${orderNumber})!\n\n` +
+      `المبلغ الإضافي: ${additionTotal.toFixed(2)} TL\n` +
+      `💳 لدفع المبلغ الإضافي: ${paymentUrl}\n\n` +
+      `المجموع الجديد: ${newTotal.toFixed(2)} TL`
+    );
+  },
+
+  // ==================== PAYMENT CHANGE ====================
+
+  paymentChangeLinkSent(orderNumber, total, url) {
+    return (
+      `💳 رابط الدفع الإلكتروني للطلب #${orderNumber}:\n\n` +
+      `${url}\n\n` +
+      `المجموع: ${total.toFixed(2)} TL\n` +
+      `⏰ الرابط صالح لمدة 30 دقيقة.\n` +
+      `للإبقاء على طريقة الدفع الحالية اكتب *"إلغاء"*.`
+    );
+  },
+
+  paymentChangeSuccess(orderNumber) {
+    return (
+      `✅ *تم استلام دفعتك الإلكترونية بنجاح!*\n\n` +
+      `📦 رقم الطلب: #${orderNumber}\n` +
+      `💳 تم تحديث طريقة الدفع: بطاقة ائتمان عبر الإنترنت`
+    );
+  },
+
+  // ==================== INACTIVITY TIMEOUT ====================
+
+  inactivityWarning:
+    '⏳ هل ما زلت هنا؟\n\nأرسل أي رسالة للمتابعة.\nإذا لم نتلقَّ رداً خلال دقيقة واحدة فسيتم *إلغاء* طلبك.',
+
+  inactivityCancelled:
+    '⏰ تم إلغاء طلبك لعدم تلقي رد منك لفترة طويلة.\n\nلطلب جديد اكتب المنتجات التي تريدها.',
+
+  inactivityResumed: '✅ طلبك ما زال مفتوحاً. يمكنك المتابعة من حيث توقفت.',
+
+  // ==================== LOCATION ====================
+  locationRequest: '📍 أرسل موقعك من أجل التوصيل.\nاضغط على الزر أدناه لمشاركة موقعك.',
+
+  locationOutOfService(message) {
+    return `❌ ${message}\n\nيرجى إرسال موقع آخر أو كتابة *"إلغاء"*.`;
+  },
+
+  locationConfirmed(storeName, deliveryFee, distance) {
+    return (
+      `✅ سيتم التوصيل من فرعنا *${storeName}*.\n` +
+      `📏 المسافة: ${distance.toFixed(1)} كم\n` +
+      `🚚 رسوم التوصيل: ${deliveryFee.toFixed(2)} TL`
+    );
+  },
+
+  deliveryEstimate(minutes) {
+    return `⏱️ الوقت المتوقع للتوصيل: ~${minutes} دقيقة`;
+  },
+
+  nearestStoreFallback: 'أقرب فرع',
+
+  locationMinBasketNotMet(minBasket, currentTotal) {
+    return (
+      `⚠️ الحد الأدنى للطلب ${minBasket.toFixed(2)} TL.\n` +
+      `سلتك الحالية: ${currentTotal.toFixed(2)} TL\n\n` +
+      `يرجى إضافة منتجات أخرى أو كتابة *"إلغاء"*.`
+    );
+  },
+
+  reminderSendLocation: '📍 يرجى إرسال دبوس موقعك.\nفي واتساب استخدم 📎 > الموقع.',
+
+  // ==================== ADDRESS COLLECTION ====================
+  addressRequest:
+    '📝 يرجى كتابة عنوان التوصيل.\n' + 'مثال: _Ataturk Mah. Cumhuriyet Cad. No:12 شقة:5_',
+
+  addressConfirmation(address) {
+    return `📍 عنوان التوصيل:\n\n` + `*${address}*`;
+  },
+
+  addressConfirmButtons: {
+    body: 'هل هذا العنوان صحيح؟',
+    buttons: [
+      { id: 'address_confirm', title: 'نعم، صحيح' },
+      { id: 'address_retry', title: 'لا، تغيير' },
+    ],
+  },
+
+  addressRetry: '📝 يرجى كتابة عنوان التوصيل مرة أخرى.',
+
+  // ==================== PAYMENT ====================
+  paymentMethodButtons: {
+    body: 'اختر طريقة الدفع:',
+    buttons: [
+      { id: 'pay_cash', title: 'نقداً عند الباب' },
+      { id: 'pay_card_door', title: 'بطاقة عند الباب' },
+      { id: 'pay_card_online', title: 'بطاقة عبر الإنترنت' },
+    ],
+  },
+
+  paymentLinkSent(url) {
+    return (
+      `💳 للدفع ببطاقة الائتمان اضغط على الرابط التالي:\n\n` +
+      `${url}\n\n` +
+      `⏰ الرابط صالح لمدة 30 دقيقة.\n` +
+      `للدفع نقداً اكتب *"نقدا"*.`
+    );
+  },
+
+  paymentSuccess(orderNumber) {
+    return (
+      `✅ *تم استلام دفعتك بنجاح!*\n\n` +
+      `📦 رقم الطلب: #${orderNumber}\n` +
+      `⏳ بانتظار تأكيد المطعم...`
+    );
+  },
+
+  paymentFailed: '❌ فشلت عملية الدفع.\nاكتب *"بطاقة"* للمحاولة مجدداً أو *"نقدا"* للدفع نقداً.',
+
+  cashConfirmed(orderNumber) {
+    return (
+      `✅ *تم استلام طلبك!*\n\n` +
+      `📦 رقم الطلب: #${orderNumber}\n` +
+      `💵 الدفع: نقداً عند الباب\n` +
+      `⏳ بانتظار تأكيد المطعم...`
+    );
+  },
+
+  reminderPayment(url) {
+    return (
+      `⏳ بانتظار الدفع.\n\n` + `💳 رابط الدفع الخاص بك: ${url}\n\n` + `للدفع نقداً اكتب *"نقدا"*.`
+    );
+  },
+
+  pendingConfirmation(orderNumber) {
+    return (
+      `📦 رقم الطلب: #${orderNumber}\n` +
+      `⏳ طلبك بانتظار تأكيد المطعم.\n` +
+      `سنرسل لك إشعاراً فور تأكيده.`
+    );
+  },
+
+  restaurantApproved(orderNumber) {
+    return (
+      `✅ *تم تأكيد طلبك!*\n\n` +
+      `📦 رقم الطلب: #${orderNumber}\n` +
+      `🎉 جارٍ تحضير طلبك!\n` +
+      `⏱️ وقت التحضير المتوقع: 25-30 دقيقة`
+    );
+  },
+
+  // ==================== ORDER STATUS UPDATES ====================
+  orderPreparing(orderNumber) {
+    return (
+      `👨‍🍳 *جارٍ تحضير طلبك!*\n\n` +
+      `📦 رقم الطلب: #${orderNumber}\n` +
+      `⏱️ الوقت المتوقع: 25-30 دقيقة`
+    );
+  },
+
+  orderReady(orderNumber) {
+    return (
+      `🎉 *طلبك جاهز!*\n\n` + `📦 رقم الطلب: #${orderNumber}\n` + `🚀 المندوب على وشك الانطلاق!`
+    );
+  },
+
+  orderOnTheWay(orderNumber, trackingUrl) {
+    return (
+      `🛵 *طلبك في الطريق!*\n\n` +
+      `📦 رقم الطلب: #${orderNumber}\n` +
+      `📍 تتبع المندوب من هنا:\n${trackingUrl}`
+    );
+  },
+  orderDelivered(orderNumber) {
+    return (
+      `✅ *تم توصيل طلبك!*\n\n` +
+      `📦 رقم الطلب: #${orderNumber}\n` +
+      `🍽️ بالهناء والشفاء!\n` +
+      `لطلب جديد اكتب اسم المنتج.`
+    );
+  },
+
+  orderCancelledNotification(orderNumber) {
+    return (
+      `❌ *تم إلغاء طلبك.*\n\n` + `📦 رقم الطلب: #${orderNumber}\n` + `لطلب جديد اكتب اسم المنتج.`
+    );
+  },
+
+  // ==================== ORDER ADDITION ====================
+  additionPrompt(orderNumber) {
+    return `لديك طلب مفتوح (#${orderNumber}). هل تريد الإضافة إليه أم تقديم طلب جديد؟`;
+  },
+
+  additionStarted(parentOrderNumber) {
+    return `➕ أنت تضيف إلى الطلب #${parentOrderNumber}.\n` + `اكتب المنتجات التي تريد إضافتها.`;
+  },
+
+  newOrderPrompt: 'اكتب المنتجات لطلبك الجديد.',
+
+  additionNotAllowed(orderNumber) {
+    return `❌ الطلب #${orderNumber} تم توصيله أو إلغاؤه.\n` + `لطلب جديد اكتب اسم المنتج.`;
+  },
+
+  additionReadyFoodOnly(nonReadyItemNames) {
+    return (
+      `⚠️ طلبك جاهز بالفعل، لذا يمكن إضافة المنتجات الجاهزة فقط.\n` +
+      `لا يمكن إضافة: *${nonReadyItemNames}*\n\n` +
+      `يرجى اختيار منتجات جاهزة فقط أو كتابة *"إلغاء"*.`
+    );
+  },
+
+  additionApproved(orderNumber) {
+    return (
+      `✅ *تم تأكيد الإضافة!*\n\n` + `📦 الطلب #${orderNumber}\n` + `جارٍ تحضير المنتجات الإضافية.`
+    );
+  },
+
+  additionRejected(orderNumber, reason) {
+    return (
+      `❌ *تم رفض الإضافة.*\n\n` +
+      `📦 الطلب #${orderNumber}\n` +
+      `السبب: *${reason}*\n\n` +
+      `لطلب جديد اكتب اسم المنتج.`
+    );
+  },
+
+  orderRejected(orderNumber, reason) {
+    return (
+      `❌ *تم رفض طلبك.*\n\n` +
+      `📦 رقم الطلب: #${orderNumber}\n` +
+      `السبب: *${reason}*\n\n` +
+      `لطلب جديد اكتب اسم المنتج.`
+    );
+  },
+
+  refundInitiated(orderNumber) {
+    return (
+      `💳 تم بدء استرداد المبلغ للطلب #${orderNumber}.\n` +
+      `سيظهر المبلغ في بطاقتك خلال 3-5 أيام عمل.`
+    );
+  },
+
+  orderAdjusted(orderNumber, changes, newTotal) {
+    return (
+      `✏️ *تم تعديل الطلب #${orderNumber}.*\n\n` +
+      `${changes}\n\n` +
+      `💰 المجموع الجديد: *${newTotal.toFixed(2)} TL*`
+    );
+  },
+
+  partialRefundInitiated(orderNumber, amount) {
+    return (
+      `💳 تم بدء استرداد ${amount.toFixed(2)} TL للطلب #${orderNumber}.\n` +
+      `سيظهر المبلغ في بطاقتك خلال 3-5 أيام عمل.`
+    );
+  },
+
+  // ==================== SAVED ADDRESSES ====================
+  savedAddressListHeader: 'عناوينك المحفوظة:',
+  savedAddressListButton: 'اختر عنواناً',
+  newAddressRowTitle: 'عنوان جديد',
+  newAddressRowDescription: 'أرسل موقعاً جديداً',
+
+  askSaveAddressButtons: {
+    body: 'هل تريد حفظ هذا العنوان؟',
+    buttons: [
+      { id: 'save_address_yes', title: 'نعم، احفظه' },
+      { id: 'save_address_no', title: 'لا' },
+    ],
+  },
+
+  askAddressNameButtons: {
+    body: 'اختر اسماً لهذا العنوان:',
+    buttons: [
+      { id: 'addr_name_ev', title: 'المنزل' },
+      { id: 'addr_name_is', title: 'العمل' },
+      { id: 'addr_name_diger', title: 'أخرى' },
+    ],
+  },
+
+  addressSaved(name) {
+    return `✅ تم حفظ العنوان باسم *"${name}"*.`;
+  },
+
+  addressNotSaved: 'حسناً، لم يتم حفظ العنوان.',
+
+  savedAddressInvalid: '⚠️ العنوان الذي اخترته لم يعد ضمن منطقة التوصيل.\nيرجى إرسال موقع جديد.',
+
+  // ==================== STORE STATUS ====================
+  storeClosed: '⏰ نحن مغلقون حالياً. يمكنك الطلب مجدداً عند افتتاحنا.',
+
+  // ==================== GENERAL ====================
+  orderCancelled: '🚫 تم إلغاء طلبك.\nلطلب جديد اكتب المنتجات التي تريدها.',
+
+  orderConfirmedNewOrder: 'جارٍ معالجة طلبك! ⏳\nلطلب جديد اكتب اسم المنتج.',
+
+  clarificationFallback: 'لم أفهم. اكتب اسم المنتج للطلب أو اكتب "قائمة" لعرض قائمة الطعام.',
+
+  agentHandoff: '👤 جارٍ تحويلك إلى أحد موظفينا. يرجى الانتظار...',
+
+  // ==================== MENU MEDIA ====================
+  menuMediaIntro: '📋 تصفح قائمة طعامنا:',
+
+  menuMediaFooter: 'اكتب المنتجات التي تريد طلبها.',
+
+  menuNotAvailable: 'لم يتم رفع قائمة الطعام بعد. اكتب اسم المنتج لتطلبه.',
+
+  // ==================== MENU BROWSE ====================
+  menuBrowseIntro: '📋 اختر فئة من قائمتنا 👇\nيمكنك أيضاً كتابة اسم المنتج للطلب.',
+
+  menuBrowseButton: 'الفئات',
+
+  menuBrowseMediaRow: '🖼 صور القائمة',
+
+  menuBrowsePrevRow: '◀ الصفحة السابقة',
+
+  menuBrowseNextRow: 'الصفحة التالية ▶',
+
+  menuBrowseItemsIntro(category) {
+    return `*${category}* 👇\nاختر منتجاً لعرض التفاصيل وإضافته إلى السلة.`;
+  },
+
+  menuBrowseItemsButton: 'المنتجات',
+
+  menuItemOptionsTitle: 'الخيارات',
+
+  menuItemRequired: 'إلزامي',
+
+  menuItemAddHint: 'استخدم الزر أدناه لإضافته إلى السلة.',
+
+  menuBrowseAddButton: '🛒 أضف إلى السلة',
+
+  menuBrowseBackButton: '◀ رجوع',
+
+  catalogHeader: 'القائمة',
+
+  catalogIntro: 'أضف المنتجات إلى السلة وأرسلها، وسنجهز طلبك فوراً 🛒',
+
+  catalogOrderUnmatched: 'لم نجد منتجات سلتك في قائمتنا. اكتب اسم المنتج للطلب.',
+
+  // ==================== IMAGE ORDERS ====================
+  imageNotRead: 'لم أتمكن من قراءة النص في الصورة. اكتب اسم المنتج للطلب.',
+
+  imageNoItems: 'لم أجد أي منتج من قائمتنا في الصورة. اكتب اسم المنتج للطلب.',
+
+  imageItemsConfirm(summary) {
+    return `📷 هذا ما قرأته في الصورة:\n\n${summary}\n\nهل أضيفه إلى طلبك؟`;
+  },
+
+  imageItemsButtons: {
+    buttons: [
+      { id: 'image_items_add', title: '✅ إضافة' },
+      { id: 'image_items_cancel', title: '❌ إلغاء' },
+    ],
+  },
+
+  imageItemsDiscarded: 'حسناً، لم تتم إضافة أي شيء. يمكنك أيضاً كتابة طلبك.',
+
+  // ==================== UPSELL ====================
+  upsellButtons(price) {
+    return {
+      buttons: [
+        { id: 'upsell_accept', title: `✅ أضف ${price.toFixed(0)} TL` },
+        { id: 'upsell_reject', title: '❌ لا، شكراً' },
+      ],
+    };
+  },
+
+  // ==================== SATISFACTION SURVEY ====================
+  surveyAsk(orderNumber) {
+    return (
+      `تم توصيل الطلب #${orderNumber}!\n\n` + `كيف وجدت خدمتنا؟ 🤔\n` + `يرجى التقييم من 1 إلى 5:`
+    );
+  },
+
+  surveyButtons: {
+    buttons: [
+      { id: 'survey_5', title: '⭐⭐⭐⭐⭐' },
+      { id: 'survey_3', title: '⭐⭐⭐' },
+      { id: 'survey_1', title: '⭐' },
+    ],
+  },
+
+  surveyAskComment: 'شكراً على ملاحظاتك. هل يمكنك أن تكتب لنا باختصار ما حدث لنتحسن؟',
+
+  surveyThanksGood: 'شكراً جزيلاً! 🙏 يسعدنا أنك استمتعت. نتطلع لخدمتك مجدداً! 😊',
+
+  surveyThanksBad: 'شكراً على ملاحظاتك. 🙏 سنراجع الأمر في أقرب وقت. نعتذر منك!',
+
+  surveyThanksNeutral: 'شكراً على تقييمك! 🙏 سنعمل على تقديم الأفضل.',
+
+  // ==================== REORDER / FAVORITES ====================
+  favoritesListHeader(count) {
+    return `أكثر ${count} منتجات طلبتها 👇`;
+  },
+
+  favoritesListButton: 'مفضلاتي',
+
+  favoritesListHeaderText: 'مفضلاتك',
+
+  noFavoritesYet: 'ليس لديك طلبات سابقة بعد. ستظهر مفضلاتك هنا بعد أول طلب!',
+
+  // ==================== BROADCAST / CAMPAIGN ====================
+  broadcastOptInAsk: 'هل تريد أن تصلك عروضنا وحملاتنا الخاصة؟ 🎉',
+
+  broadcastOptInButtons: {
+    buttons: [
+      { id: 'broadcast_yes', title: 'نعم، أريد' },
+      { id: 'broadcast_no', title: 'لا' },
+    ],
+  },
+
+  broadcastOptInConfirmed:
+    'رائع! سنرسل لك حملاتنا وعروضنا الخاصة. ' +
+    'يمكنك إلغاء الاشتراك في أي وقت بكتابة "kampanya istemiyorum".',
+
+  broadcastOptOutConfirmed:
+    'حسناً، تم إيقاف إشعارات الحملات. ' + 'يمكنك إعادة تفعيلها في أي وقت بكتابة "kampanya".',
+
+  // ==================== CONVERSATION FLOW ====================
+  conversationReset:
+    '🔄 تمت إعادة ضبط المحادثة. يمكنك بدء طلب جديد من القائمة.\n\n📋 اكتب "قائمة" لعرض *قائمة الطعام*.',
+
+  genericError: 'حدث خطأ. يرجى المحاولة مرة أخرى.',
+
+  voiceNotProcessed: 'تعذرت معالجة رسالتك الصوتية. اكتب اسم المنتج لتطلبه.',
+
+  voiceTranscriptUnsure(transcript) {
+    return `🎤 هذا ما فهمته من رسالتك الصوتية: "${transcript}"\nإذا أخطأت، يرجى كتابة التصحيح.`;
+  },
+
+  imageNotSupported: 'لا يمكنني معالجة الصور. اكتب اسم المنتج لتطلبه.',
+
+  locationBeforeOrder: 'اطلب أولاً، ثم سنطلب موقعك. اكتب اسم المنتج للطلب.',
+
+  locationBeforeConfirm: 'أكّد طلبك أولاً، ثم سنطلب موقعك.',
+
+  broadcastOptOutFallback: 'تم إيقاف إشعارات الحملات.',
+
+  idleHelp:
+    '🤖 كيف يمكنني مساعدتك؟\n\n' +
+    '• اكتب اسم المنتج للطلب\n' +
+    '• اكتب "قائمة" لعرض قائمة الطعام\n' +
+    '• اسأل عن مواعيد العمل\n' +
+    '• اكتب "tekrar" لتكرار طلب سابق',
+
+  optionSelectionNotUnderstood: 'لم أفهم اختيارك. يرجى اختيار خيار من القائمة أو كتابة "إلغاء".',
+
+  optionSelectionPrompt(itemName, stepNumber, groupName) {
+    return `${itemName}\n${stepNumber}. اختر ${groupName}:`;
+  },
+
+  optionSelectionButton: 'الخيارات',
+
+  itemAddedSummary(summary) {
+    return `تمت الإضافة! طلبك الحالي:\n\n${summary}`;
+  },
+
+  additionNoteSaved: 'حسناً، تم حفظ الإضافة! اكتب لنا إذا احتجت أي شيء آخر.',
+
+  additionCancelled: 'تم إلغاء الإضافة. هل تحتاج شيئاً آخر؟',
+
+  askItemToRemove: 'أي منتج نحذف من طلبك؟ يرجى كتابة اسم المنتج.',
+
+  editOrderPrompt: 'لتعديل طلبك اكتب منتجاً جديداً أو اكتب "إلغاء".',
+
+  addMoreOrConfirm: 'اكتب منتجات أخرى لإضافتها أو أجب بـ "تأكيد".',
+
+  itemUnavailable: 'هذا المنتج غير متوفر حالياً. هل تريد تجربة منتج آخر؟',
+
+  upsellAdded(itemName) {
+    return `✅ تمت إضافة ${itemName} إلى السلة!`;
+  },
+
+  chooseButton: 'يرجى اختيار أحد الأزرار.',
+
+  textMessageRequired: 'يرجى إرسال رسالة نصية.',
+
+  surveyRatingRetry: 'يرجى التقييم من 1 إلى 5 أو استخدام الأزرار.',
+
+  cancelNotAllowedPreparing:
+    '⚠️ طلبك قيد التحضير ولا يمكن إلغاؤه في هذه المرحلة.\nللمساعدة اكتب *"destek"*.',
+
+  minBasketNote(minBasket, currentTotal) {
+    return `ملاحظة: الحد الأدنى للطلب ${minBasket.toFixed(2)} TL. سلتك الحالية: ${currentTotal.toFixed(2)} TL`;
+  },
+
+  // ==================== COUPONS ====================
+  couponApplied(code, discount) {
+    return `🎟️ تم تطبيق القسيمة *${code}*: -${discount.toFixed(2)} TL`;
+  },
+
+  couponNotFound(code) {
+    return `*${code}* ليس رمز قسيمة صالحاً. يرجى التحقق منه وكتابته مرة أخرى.`;
+  },
+
+  couponUnavailable(code) {
+    return `لا يمكن استخدام القسيمة *${code}* حالياً (ربما انتهت صلاحيتها أو نفدت).`;
+  },
+
+  couponAlreadyUsed(code) {
+    return `لقد استخدمت القسيمة *${code}* من قبل.`;
+  },
+
+  couponNotEligible(code) {
+    return `القسيمة *${code}* غير صالحة لهذا الطلب.`;
+  },
+
+  couponMinBasket(code, minBasket, currentTotal) {
+    return `تتطلب القسيمة *${code}* سلة لا تقل عن ${minBasket.toFixed(2)} TL. سلتك الحالية: ${currentTotal.toFixed(2)} TL`;
+  },
+
+  couponFreeItemMissing(code, itemName) {
+    return `تتطلب القسيمة *${code}* وجود ${itemName} في سلتك. أضفه ثم اكتب الرمز مرة أخرى.`;
+  },
+
+  couponRemoved(code, newTotal) {
+    return `⚠️ لم تعد القسيمة *${code}* صالحة لهذا الطلب وتمت إزالتها. المجموع الجديد: ${newTotal.toFixed(2)} TL`;
+  },
+
+  // ==================== LOYALTY ====================
+  loyaltyNotAvailable: 'لا يوجد لدينا برنامج ولاء حاليًا.',
+
+  loyaltyNotEligible: 'لا يمكن استخدام النقاط في الطلبات الإضافية.',
+
+  loyaltyPointsBalance(points, value, minPoints) {
+    const hint =
+      points >= minPoints
+        ? 'اكتب *puan kullan* في ملخص الطلب لاستخدامها كخصم.'
+        : `تحتاج إلى ${minPoints} نقطة على الأقل لاستخدامها.`;
+    return `⭐ لديك *${points}* نقطة (${value.toFixed(2)} TL).\n${hint}`;
+  },
+
+  loyaltyStampsBalance(stamps, required, itemName) {
+    const hint =
+      stamps >= required
+        ? `${itemName} التالي علينا! اكتب *puan kullan* في ملخص الطلب.`
+        : `${required - stamps} ${itemName} أخرى ويكون التالي علينا!`;
+    return `🎫 بطاقة الأختام: *${stamps}/${required}* ${itemName}\n${hint}`;
+  },
+
+  loyaltyPointsApplied(points, discount) {
+    return `⭐ تم استخدام ${points} نقطة: -${discount.toFixed(2)} TL`;
+  },
+
+  loyaltyStampApplied(itemName, discount) {
+    return `🎫 اكتملت بطاقة الأختام، ${itemName} واحد علينا: -${discount.toFixed(2)} TL`;
+  },
+
+  loyaltyPointsNotEnough(points, minPoints) {
+    return `تحتاج إلى ${minPoints} نقطة على الأقل لاستخدامها. نقاطك: ${points}`;
+  },
+
+  loyaltyStampsNotEnough(stamps, required, itemName) {
+    return `تحتاج إلى ${required} ختم للحصول على ${itemName} مجانًا. بطاقتك: ${stamps}/${required}`;
+  },
+
+  loyaltyStampItemMissing(itemName) {
+    return `لاستخدام مكافأتك يجب أن يكون ${itemName} في سلتك. أضفه ثم اكتب *puan kullan* مرة أخرى.`;
+  },
+
+  loyaltyRemoved(newTotal) {
+    return `⚠️ لم يعد خصم النقاط صالحًا لهذا الطلب وتمت إزالته. المجموع الجديد: ${newTotal.toFixed(2)} TL`;
+  },
+
+  loyaltyPointsEarned(earned, points) {
+    return `⭐ ربحت *${earned}* نقطة من هذا الطلب! نقاطك: ${points}`;
+  },
+
+  loyaltyStampsEarned(earned, stamps, required, itemName) {
+    const reward = stamps >= required ? `\n${itemName} التالي علينا!` : '';
+    return `🎫 ربحت *${earned}* ختم من هذا الطلب! بطاقتك: ${stamps}/${required}${reward}`;
+  },
+
+  // ==================== SMART FALLBACK ====================
+  fallbackGreetingWithOrder:
+    'مرحباً! يمكنك متابعة طلبك. اكتب اسم المنتج لإضافته أو اضغط زر التأكيد.',
+
+  fallbackGreeting: 'مرحباً! اكتب اسم المنتج لتطلبه.',
+
+  fallbackThanksWithOrder: 'عفواً! يمكنك إضافة منتجات أخرى أو الضغط على زر التأكيد.',
+
+  fallbackThanks: 'عفواً! اكتب اسم المنتج متى أردت الطلب.',
+
+  fallbackHelp:
+    'للطلب:\n' +
+    '1. اكتب اسم المنتج (مثال: "1 دونر"، "2 كولا")\n' +
+    '2. يمكنك إضافة عدة منتجات\n' +
+    '3. اضغط زر التأكيد عند الانتهاء\n' +
+    '4. اكتب "قائمة" لعرض قائمة الطعام',
+
+  fallbackWithOrder: 'لم أفهم. اكتب اسم المنتج لإضافته (مثال: "1 كولا") أو اضغط زر التأكيد.',
+
+  fallbackNoOrder: 'لم أفهم، هل يمكنك كتابة المنتج بشكل أوضح؟ مثال: "1 كولا"، "دونر دجاج".',
+
+  // ==================== WORKING HOURS / BUSY ====================
+  dayNames: {
+    mon: 'الاثنين',
+    tue: 'الثلاثاء',
+    wed: 'الأربعاء',
+    thu: 'الخميس',
+    fri: 'الجمعة',
+    sat: 'السبت',
+    sun: 'الأحد',
+  },
+
+  dayClosedLabel: 'مغلق',
+
+  dayAllDayLabel: 'مفتوح 24 ساعة',
+
+  nextOpening(dayName, openTime) {
+    return openTime
+      ? `موعد الافتتاح القادم: ${dayName} ${openTime}`
+      : `موعد الافتتاح القادم: ${dayName} (مفتوح 24 ساعة)`;
+  },
+
+  closedToday(nextOpening, hours) {
+    return `⏰ اليوم يوم عطلتنا. ${nextOpening}\n\nمواعيد العمل:\n${hours}`;
+  },
+
+  closedNow(open, close, hours) {
+    return `⏰ لا نستقبل الطلبات حالياً. مواعيد اليوم: ${open} - ${close}\n\nمواعيد العمل:\n${hours}`;
+  },
+
+  workingHoursList(hours) {
+    return `🕐 مواعيد العمل:\n\n${hours}\n\nاكتب اسم المنتج لتطلبه.`;
+  },
+
+  workingHoursNotSet: '🕐 لم يتم تحديد مواعيد العمل بعد. اكتب اسم المنتج لتطلبه.',
+
+  busyNotice(estimateMinutes, customMessage) {
+    const estimate = estimateMinutes ? `وقت التوصيل المتوقع: ~${estimateMinutes} دقيقة.` : '';
+    return `⚠️ لدينا ضغط كبير حالياً. ${estimate} ${customMessage}\n\nيمكنك متابعة طلبك.`.trim();
+  },
+
+  ordersPaused(time) {
+    return `⏸️ بسبب الضغط الكبير لا نستقبل طلبات جديدة حالياً. سنستقبل الطلبات مجدداً من الساعة ${time}.`;
+  },
+
+  prepEstimate(minutes) {
+    return `⏱️ سيكون طلبك جاهزاً خلال ${minutes} دقيقة تقريباً.`;
+  },
+
+  // ==================== PRE-ORDERS ====================
+  preOrderHint: '🕒 يمكنك الطلب المسبق لوقت لاحق. اكتب الوقت مع طلبك، مثلاً "غدا 12:30".',
+
+  preOrderTimeAsk:
+    '⏰ نحن مغلقون حالياً لكننا نستقبل الطلبات المسبقة. في أي وقت تريد تجهيز طلبك؟ مثلاً "غدا 12:30".',
+
+  preOrderScheduled(when) {
+    return `🕒 تمت جدولة طلبك في ${when}.`;
+  },
+
+  preOrderItemsFirst(when) {
+    return (
+      `🕒 يمكننا استقبال طلب في ${when}. ` +
+      'يرجى كتابة الأصناف مع الوقت، مثلاً "غدا 12:30 2 بيتزا".'
+    );
+  },
+
+  preOrderTooSoon(minutes) {
+    return `⏰ يجب أن يكون الطلب المسبق بعد ${minutes} دقيقة على الأقل.`;
+  },
+
+  preOrderTooFar(days) {
+    return `⏰ نستقبل الطلبات حتى ${days} أيام مقدماً.`;
+  },
+
+  preOrderClosedSlot: '⏰ نحن مغلقون في هذا الوقت.',
+
+  preOrderSlotFull: '⏰ لا توجد سعة متاحة في هذا الوقت.',
+
+  preOrderSuggestions(slots) {
+    return `الأوقات المتاحة: ${slots}`;
+  },
+
+  preOrderNoSlots: 'لا توجد أوقات متاحة حالياً.',
+
+  // ==================== DELIVERY TYPE ====================
+  deliveryTypeAsk: 'كيف تريد استلام طلبك؟',
+
+  deliveryTypeRetry: 'يرجى اختيار "استلام" أو "توصيل":',
+
+  deliveryTypeButtons: {
+    buttons: [
+      { id: 'delivery_type_pickup', title: 'استلام' },
+      { id: 'delivery_type_delivery', title: 'توصيل' },
+    ],
+  },
+
+  pickupSelected: 'تم اختيار الاستلام!',
+
+  pickupDiscountApplied(percent, discountAmount, newTotal) {
+    return `تم اختيار الاستلام! تم تطبيق خصم ${percent}% (خصم ${discountAmount.toFixed(2)} TL). الإجمالي الجديد: ${newTotal.toFixed(2)} TL`;
+  },
+
+  locationImageInsteadOfPin:
+    'يرجى إرسال دبوس موقعك وليس صورة. في واتساب استخدم أيقونة المرفقات ثم "الموقع".',
+
+  typedAddressNotAccepted:
+    'لا يمكننا قبول عنوان مكتوب؛ نحتاج إلى دبوس موقعك للتحقق من منطقة التوصيل.\n\n' +
+    'لإرسال موقع مختلف:\n' +
+    'اضغط على 📎 > *الموقع*.\n\n' +
+    'لإلغاء الطلب اكتب "إلغاء".',
+
+  addressTextRequired: 'يرجى كتابة عنوان التوصيل نصاً.',
+
+  savedAddressSectionTitle: 'العناوين',
+
+  askCustomAddressName: 'اكتب اسماً للعنوان (مثال: _بيت العائلة_، _المكتب_):',
+
+  askAddressNameRetry: 'يرجى كتابة اسم للعنوان:',
+
+  // ==================== PAYMENT (FLOW) ====================
+  pickupPaymentMethodButtons: {
+    body: 'اختر طريقة الدفع:',
+    buttons: [
+      { id: 'pay_cash', title: 'نقداً عند الكاشير' },
+      { id: 'pay_card_door', title: 'بطاقة عند الكاشير' },
+      { id: 'pay_card_online', title: 'بطاقة عبر الإنترنت' },
+    ],
+  },
+
+  orderReceived(orderNumber, method, isPickup) {
+    const payment =
+      method === 'CASH'
+        ? `💵 الدفع: ${isPickup ? 'نقداً عند الكاشير' : 'نقداً عند الباب'}`
+        : `💳 الدفع: ${isPickup ? 'بطاقة عند الكاشير' : 'بطاقة عند الباب'}`;
+    return (
+      `✅ *تم استلام طلبك!*\n\n` +
+      `📦 رقم الطلب: #${orderNumber}\n` +
+      `${payment}\n` +
+      `⏳ بانتظار تأكيد المطعم...`
+    );
+  },
+
+  paymentLinkError(reason) {
+    return `تعذر إنشاء رابط الدفع: ${reason}\nللدفع نقداً اكتب "نقدا".`;
+  },
+
+  paymentLinkFailed: 'تعذر إنشاء رابط الدفع. للدفع نقداً اكتب "نقدا".',
+
+  paymentLinkExpired: 'انتهت صلاحية رابط الدفع. يرجى اختيار طريقة الدفع مرة أخرى.',
+
+  paymentChangeCancelled: 'تم إلغاء الدفع الإلكتروني. تبقى طريقة الدفع الحالية سارية. ✅',
+
+  paymentChangeFailed: 'فشل الدفع الإلكتروني. تبقى طريقة الدفع الحالية سارية.',
+
+  paymentChangeLinkFailed: 'تعذر إنشاء رابط الدفع الإلكتروني. تبقى طريقة الدفع الحالية سارية.',
+
+  paymentChangeAlreadyOnline: 'تم دفع طلبك إلكترونياً بالفعل. ✅',
+};
@@ -0,0 +1,880 @@
+import type { MessageCatalog } from '../message-templates';
+
+/**
+ * German message catalog
+ */
+export const DE: MessageCatalog = {
+  // ==================== GREETING ====================
+  greeting:
+    'Hallo und herzlich willkommen! 🍽️\nSchreiben Sie einfach die Produkte, die Sie bestellen möchten.\nMit "menu" sehen Sie unsere Speisekarte.',
+
+  // ==================== ORDER ====================
+  orderSummary(items, total, deliveryFee, orderNotes, coupon, loyalty) {
+    let msg = 'Ihre Bestellung:\n\n';
+    items.forEach((i) => {
+      let line = `  ${i.qty}x ${i.name}`;
+      if (i.options && i.options.length > 0) {
+        line += ` (${i.options.join(', ')})`;
+      }
+      if (i.originalPrice && i.originalPrice > i.price) {
+        line += ` - ~${(i.qty * i.originalPrice).toFixed(2)} TL~ *${(i.qty * i.price).toFixed(2)} TL*`;
+      } else {
+        line += ` - ${(i.qty * i.price).toFixed(2)} TL`;
+      }
+      if (i.notes) {
+        line += `\n    Hinweis: ${i.notes}`;
+      }
+      msg += line + '\n';
+    });
+    msg += `\nZwischensumme: ${total.toFixed(2)} TL`;
+    let grandTotal = total;
+    if (coupon) {
+      msg += `\nGutschein (${coupon.code}): -${coupon.discount.toFixed(2)} TL`;
+      grandTotal -= coupon.discount;
+    }
+    if (loyalty) {
+      msg +=
+        loyalty.points > 0
+          ? `\nPunkte (${loyalty.points}): -${loyalty.discount.toFixed(2)} TL`
+          : `\nStempelkarten-Prämie: -${loyalty.discount.toFixed(2)} TL`;
+      grandTotal -= loyalty.discount;
+    }
+    if (deliveryFee != null && deliveryFee > 0) {
+      msg += `\nLiefergebühr: ${deliveryFee.toFixed(2)} TL`;
+      grandTotal += deliveryFee;
+    }
+    if (grandTotal !== total) {
+      msg += `\nGesamtsumme: ${grandTotal.toFixed(2)} TL`;
+    }
+    if (orderNotes) {
+      msg += `\n\nHinweis: ${orderNotes}`;
+    }
+    return msg;
+  },
+
+  orderConfirmButtons: {
+    buttons: [
+      { id: 'confirm_order', title: 'Bestätigen' },
+      { id: 'cancel_order', title: 'Stornieren' },
+    ],
+  },
+
+  orderEmpty: 'Ihr Warenkorb ist leer. Schreiben Sie einen Produktnamen, um zu bestellen.',
+
+  orderItemAdded(itemName, qty) {
+    return `✅ ${qty}x ${itemName} wurde in den Warenkorb gelegt.`;
+  },
+
+  seamlessAdditionConfirmed(orderNumber, addedItems, additionTotal, newTotal) {
+    return (
+      `➕ *${addedItems}* wurde Ihrer Bestellung (#${orderNumber}) hinzugefügt!\n\n` +
+      `Zusatzbetrag: ${additionTotal.toFixed(2)} TL\n` +
+      `Neue Summe: ${newTotal.toFixed(2)} TL`
+    );
+  },
+
+  seamlessAdditionPaymentNeeded(orderNumber, addedItems, additionTotal, paymentUrl, newTotal) {
+    return (
+      `➕ *${addedItems}* wurde Ihrer Bestellung (#${orderNumber}) hinzugefügt!\n\n` +
+      `Zusatzbetrag: ${additionTotal.toFixed(2)} TL\n` +
+      `💳 Zusatzbetrag bezahlen: ${paymentUrl}\n\n` +
+      `Neue Summe: ${newTotal.toFixed(2)} TL`
+    );
+  },
+
+  // ==================== PAYMENT CHANGE ====================
+
+  paymentChangeLinkSent(orderNumber, total, url) {
+    return (
+      `💳 Online-Zahlungslink für Bestellung #${orderNumber}:\n\n` +
+      `${url}\n\n` +
+      `Summe: ${total.toFixed(2)} TL\n` +
+      `⏰ Der Link ist 30 Minuten gültig.\n` +
+      `Mit *"stornieren"* behalten Sie Ihre bisherige Zahlungsart.`
+    );
+  },
+
+  paymentChangeSuccess(orderNumber) {
+    return (
+      `✅ *Ihre Online-Zahlung ist eingegangen!*\n\n` +
+      `📦 Bestellnr.: #${orderNumber}\n` +
+      `💳 Zahlungsart geändert: Online-Kreditkarte`
+    );
+  },
+
+  // ==================== INACTIVITY TIMEOUT ====================
+
+  inactivityWarning:
+    '⏳ Sind Sie noch da?\n\nSchicken Sie eine beliebige Nachricht, um fortzufahren.\nOhne Antwort innerhalb von 1 Minute wird Ihre Bestellung *storniert*.',
+
+  inactivityCancelled:
+    '⏰ Ihre Bestellung wurde storniert, da wir längere Zeit nichts von Ihnen gehört haben.\n\nFür eine neue Bestellung schreiben Sie einfach die gewünschten Produkte.',
+
+  inactivityResumed:
+    '✅ Ihre Bestellung ist noch offen. Sie können dort weitermachen, wo Sie aufgehört haben.',
+
+  // ==================== LOCATION ====================
+  locationRequest:
+    '📍 Bitte senden Sie uns Ihren Standort für die Lieferung.\nTippen Sie dazu auf die Schaltfläche unten.',
+
+  locationOutOfService(message) {
+    return `❌ ${message}\n\nBitte senden Sie einen anderen Standort oder schreiben Sie *"stornieren"*.`;
+  },
+
+  locationConfirmed(storeName, deliveryFee, distance) {
+    return (
+      `✅ Die Lieferung erfolgt aus unserer Filiale *${storeName}*.\n` +
+      `📏 Entfernung: ${distance.toFixed(1)} km\n` +
+      `🚚 Liefergebühr: ${deliveryFee.toFixed(2)} TL`
+    );
+  },
+
+  deliveryEstimate(minutes) {
+    return `⏱️ Voraussichtliche Lieferzeit: ~${minutes} Minuten`;
+  },
+
+  nearestStoreFallback: 'Nächste Filiale',
+
+  locationMinBasketNotMet(minBasket, currentTotal) {
+    return (
+      `⚠️ Der Mindestbestellwert beträgt ${minBasket.toFixed(2)} TL.\n` +
+      `Ihr Warenkorb: ${currentTotal.toFixed(2)} TL\n\n` +
+      `Bitte fügen Sie weitere Produkte hinzu oder schreiben Sie *"stornieren"*.`
+    );
+  },
+
+  reminderSendLocation: '📍 Bitte senden Sie Ihren Standort-Pin.\nIn WhatsApp über 📎 > Standort.',
+
+  // ==================== ADDRESS COLLECTION ====================
+  addressRequest:
+    '📝 Bitte schreiben Sie Ihre Lieferadresse.\n' +
+    'Beispiel: _Ataturk Mah. Cumhuriyet Cad. No:12 Wohnung:5_',
+
+  addressConfirmation(address) {
+    return `📍 Ihre Lieferadresse:\n\n` + `*${address}*`;
+  },
+
+  addressConfirmButtons: {
+    body: 'Ist diese Adresse richtig?',
+    buttons: [
+      { id: 'address_confirm', title: 'Ja, richtig' },
+      { id: 'address_retry', title: 'Nein, ändern' },
+    ],
+  },
+
+  addressRetry: '📝 Bitte schreiben Sie Ihre Lieferadresse noch einmal.',
+
+  // ==================== PAYMENT ====================
+  paymentMethodButtons: {
+    body: 'Wählen Sie eine Zahlungsart:',
+    buttons: [
+      { id: 'pay_cash', title: 'Bar bei Lieferung' },
+      { id: 'pay_card_door', title: 'Karte bei Lieferung' },
+      { id: 'pay_card_online', title: 'Online mit Karte' },
+    ],
+  },
+
+  paymentLinkSent(url) {
+    return (
+      `💳 Für die Kartenzahlung tippen Sie auf den folgenden Link:\n\n` +
+      `${url}\n\n` +
+      `⏰ Der Link ist 30 Minuten gültig.\n` +
+      `Für Barzahlung schreiben Sie *"barzahlung"*.`
+    );
+  },
+
+  paymentSuccess(orderNumber) {
+    return (
+      `✅ *Ihre Zahlung ist eingegangen!*\n\n` +
+      `📦 Bestellnr.: #${orderNumber}\n` +
+      `⏳ Wir warten auf die Bestätigung des Restaurants...`
+    );
+  },
+
+  paymentFailed:
+    '❌ Die Zahlung ist fehlgeschlagen.\nMit *"karte"* versuchen Sie es erneut, mit *"barzahlung"* zahlen Sie bar.',
+
+  cashConfirmed(orderNumber) {
+    return (
+      `✅ *Ihre Bestellung ist eingegangen!*\n\n` +
+      `📦 Bestellnr.: #${orderNumber}\n` +
+      `💵 Zahlung: Bar bei Lieferung\n` +
+      `⏳ Wir warten auf die Bestätigung des Restaurants...`
+    );
+  },
+
+  reminderPayment(url) {
+    return (
+      `⏳ Wir warten auf Ihre Zahlung.\n\n` +
+      `💳 Ihr Zahlungslink: ${url}\n\n` +
+      `Für Barzahlung schreiben Sie *"barzahlung"*.`
+    );
+  },
+
+  pendingConfirmation(orderNumber) {
+    return (
+      `📦 Bestellnr.: #${orderNumber}\n` +
+      `⏳ Ihre Bestellung wartet auf die Bestätigung des Restaurants.\n` +
+      `Wir melden uns, sobald sie bestätigt ist.`
+    );
+  },
+
+  restaurantApproved(orderNumber) {
+    return (
+      `✅ *Ihre Bestellung wurde bestätigt!*\n\n` +
+      `📦 Bestellnr.: #${orderNumber}\n` +
+      `🎉 Ihre Bestellung wird zubereitet!\n` +
+      `⏱️ Voraussichtliche Zubereitungszeit: 25-30 Minuten`
+    );
+  },
+
+  // ==================== ORDER STATUS UPDATES ====================
+  orderPreparing(orderNumber) {
+    return (
+      `👨‍🍳 *Ihre Bestellung wird zubereitet!*\n\n` +
+      `📦 Bestellnr.: #${orderNumber}\n` +
+      `⏱️ Voraussichtliche Dauer: 25-30 Minuten`
+    );
+  },
+
+  orderReady(orderNumber) {
+    return (
+      `🎉 *Ihre Bestellung ist fertig!*\n\n` +
+      `📦 Bestellnr.: #${orderNumber}\n` +
+      `🚀 Der Kurier macht sich gleich auf den Weg!`
+    );
+  },
+
+  orderOnTheWay(orderNumber, trackingUrl) {
+    return (
+      `🛵 *Ihre Bestellung ist unterwegs!*\n\n` +
+      `📦 Bestellnr.: #${orderNumber}\n` +
+      `📍 Verfolgen Sie Ihren Kurier hier:\n${trackingUrl}`
+    );
+  },
+  orderDelivered(orderNumber) {
+    return (
+      `✅ *Ihre Bestellung wurde geliefert!*\n\n` +
+      `📦 Bestellnr.: #${orderNumber}\n` +
+      `🍽️ Guten Appetit!\n` +
+      `Für eine weitere Bestellung schreiben Sie einfach einen Produktnamen.`
+    );
+  },
+
+  orderCancelledNotification(orderNumber) {
+    return (
+      `❌ *Ihre Bestellung wurde storniert.*\n\n` +
+      `📦 Bestellnr.: #${orderNumber}\n` +
+      `Für eine neue Bestellung schreiben Sie einen Produktnamen.`
+    );
+  },
+
+  // ==================== ORDER ADDITION ====================
+  additionPrompt(orderNumber) {
+    return `Sie haben eine offene Bestellung (#${orderNumber}). Möchten Sie etwas hinzufügen oder neu bestellen?`;
+  },
+
+  additionStarted(parentOrderNumber) {
+    return (
+      `➕ Sie ergänzen Bestellung #${parentOrderNumber}.\n` +
+      `Schreiben Sie die Produkte, die Sie hinzufügen möchten.`
+    );
+  },
+
+  newOrderPrompt: 'Schreiben Sie die Produkte für Ihre neue Bestellung.',
+
+  additionNotAllowed(orderNumber) {
+    return (
+      `❌ Bestellung #${orderNumber} wurde bereits geliefert oder storniert.\n` +
+      `Für eine neue Bestellung schreiben Sie einen Produktnamen.`
+    );
+  },
+
+  additionReadyFoodOnly(nonReadyItemNames) {
+    return (
+      `⚠️ Ihre Bestellung ist bereits fertig, daher können nur Fertigprodukte hinzugefügt werden.\n` +
+      `Diese Produkte sind nicht möglich: *${nonReadyItemNames}*\n\n` +
+      `Bitte wählen Sie nur Fertigprodukte oder schreiben Sie *"stornieren"*.`
+    );
+  },
+
+  additionApproved(orderNumber) {
+    return (
+      `✅ *Ihre Ergänzung wurde bestätigt!*\n\n` +
+      `📦 Bestellung #${orderNumber}\n` +
+      `Ihre zusätzlichen Produkte werden zubereitet.`
+    );
+  },
+
+  additionRejected(orderNumber, reason) {
+    return (
+      `❌ *Ihre Ergänzung wurde abgelehnt.*\n\n` +
+      `📦 Bestellung #${orderNumber}\n` +
+      `Grund: *${reason}*\n\n` +
+      `Für eine neue Bestellung schreiben Sie einen Produktnamen.`
+    );
+  },
+
+  orderRejected(orderNumber, reason) {
+    return (
+      `❌ *Ihre Bestellung wurde abgelehnt.*\n\n` +
+      `📦 Bestellnr.: #${orderNumber}\n` +
+      `Grund: *${reason}*\n\n` +
+      `Für eine neue Bestellung schreiben Sie einen Produktnamen.`
+    );
+  },
+
+  refundInitiated(orderNumber) {
+    return (
+      `💳 Für Bestellung #${orderNumber} wurde eine Erstattung veranlasst.\n` +
+      `Sie wird innerhalb von 3-5 Werktagen auf Ihrer Karte gutgeschrieben.`
+    );
+  },
+
+  orderAdjusted(orderNumber, changes, newTotal) {
+    return (
+      `✏️ *Bestellung #${orderNumber} wurde geändert.*\n\n` +
+      `${changes}\n\n` +
+      `💰 Neue Summe: *${newTotal.toFixed(2)} TL*`
+    );
+  },
+
+  partialRefundInitiated(orderNumber, amount) {
+    return (
+      `💳 Für Bestellung #${orderNumber} wurde eine Erstattung von ${amount.toFixed(2)} TL veranlasst.\n` +
+      `Sie wird innerhalb von 3-5 Werktagen auf Ihrer Karte gutgeschrieben.`
+    );
+  },
+
+  // ==================== SAVED ADDRESSES ====================
+  savedAddressListHeader: 'Ihre gespeicherten Adressen:',
+  savedAddressListButton: 'Adresse wählen',
+  newAddressRowTitle: 'Neue Adresse',
+  newAddressRowDescription: 'Neuen Standort senden',
+
+  askSaveAddressButtons: {
+    body: 'Möchten Sie diese Adresse speichern?',
+    buttons: [
+      { id: 'save_address_yes', title: 'Ja, speichern' },
+      { id: 'save_address_no', title: 'Nein' },
+    ],
+  },
+
+  askAddressNameButtons: {
+    body: 'Geben Sie dieser Adresse einen Namen:',
+    buttons: [
+      { id: 'addr_name_ev', title: 'Zuhause' },
+      { id: 'addr_name_is', title: 'Arbeit' },
+      { id: 'addr_name_diger', title: 'Andere' },
+    ],
+  },
+
+  addressSaved(name) {
+    return `✅ Adresse als *"${name}"* gespeichert.`;
+  },
+
+  addressNotSaved: 'In Ordnung, die Adresse wurde nicht gespeichert.',
+
+  savedAddressInvalid:
+    '⚠️ Die gewählte Adresse liegt nicht mehr in unserem Liefergebiet.\nBitte senden Sie einen neuen Standort.',
+
+  // ==================== STORE STATUS ====================
+  storeClosed:
+    '⏰ Wir haben gerade geschlossen. Sobald wir geöffnet haben, können Sie wieder bestellen.',
+
+  // ==================== GENERAL ====================
+  orderCancelled:
+    '🚫 Ihre Bestellung wurde storniert.\nFür eine neue Bestellung schreiben Sie einfach die gewünschten Produkte.',
+
+  orderConfirmedNewOrder:
+    'Ihre Bestellung wird bearbeitet! ⏳\nFür eine neue Bestellung schreiben Sie einen Produktnamen.',
+
+  clarificationFallback:
+    'Das habe ich leider nicht verstanden. Schreiben Sie einen Produktnamen oder "menu" für die Speisekarte.',
+
+  agentHandoff: '👤 Ich verbinde Sie mit einem Mitarbeiter. Bitte warten Sie...',
+
+  // ==================== MENU MEDIA ====================
+  menuMediaIntro: '📋 Werfen Sie einen Blick auf unsere Speisekarte:',
+
+  menuMediaFooter: 'Schreiben Sie die Produkte, die Sie bestellen möchten.',
+
+  menuNotAvailable:
+    'Die Speisekarte wurde noch nicht hochgeladen. Schreiben Sie einen Produktnamen, um zu bestellen.',
+
+  // ==================== MENU BROWSE ====================
+  menuBrowseIntro:
+    '📋 Wählen Sie eine Kategorie aus unserer Speisekarte 👇\nSie können auch einfach den Produktnamen schreiben.',
+
+  menuBrowseButton: 'Kategorien',
+
+  menuBrowseMediaRow: '🖼 Speisekarte (Bilder)',
+
+  menuBrowsePrevRow: '◀ Vorherige Seite',
+
+  menuBrowseNextRow: 'Nächste Seite ▶',
+
+  menuBrowseItemsIntro(category) {
+    return `*${category}* 👇\nWählen Sie ein Produkt für Details und zum Hinzufügen.`;
+  },
+
+  menuBrowseItemsButton: 'Produkte',
+
+  menuItemOptionsTitle: 'Optionen',
+
+  menuItemRequired: 'Pflicht',
+
+  menuItemAddHint: 'Mit der Schaltfläche unten legen Sie es in den Warenkorb.',
+
+  menuBrowseAddButton: '🛒 In den Korb',
+
+  menuBrowseBackButton: '◀ Zurück',
+
+  catalogHeader: 'Speisekarte',
+
+  catalogIntro:
+    'Legen Sie Produkte in den Warenkorb und senden Sie ihn ab, wir bereiten alles vor 🛒',
+
+  catalogOrderUnmatched:
+    'Die Produkte in Ihrem Warenkorb wurden auf unserer Speisekarte nicht gefunden. Schreiben Sie einen Produktnamen, um zu bestellen.',
+
+  // ==================== IMAGE ORDERS ====================
+  imageNotRead:
+    'Ich konnte den Text im Bild nicht lesen. Schreiben Sie einen Produktnamen, um zu bestellen.',
+
+  imageNoItems:
+    'Im Bild habe ich keine Produkte unserer Speisekarte gefunden. Schreiben Sie einen Produktnamen, um zu bestellen.',
+
+  imageItemsConfirm(summary) {
+    return `📷 Das habe ich im Bild gelesen:\n\n${summary}\n\nSoll ich es Ihrer Bestellung hinzufügen?`;
+  },
+
+  imageItemsButtons: {
+    buttons: [
+      { id: 'image_items_add', title: '✅ Hinzufügen' },
+      { id: 'image_items_cancel', title: '❌ Abbrechen' },
+    ],
+  },
+
+  imageItemsDiscarded:
+    'Alles klar, es wurde nichts hinzugefügt. Sie können Ihre Bestellung auch schreiben.',
+
+  // ==================== UPSELL ====================
+  upsellButtons(price) {
+    return {
+      buttons: [
+        { id: 'upsell_accept', title: `✅ Dazu ${price.toFixed(0)} TL` },
+        { id: 'upsell_reject', title: '❌ Nein danke' },
+      ],
+    };
+  },
+
+  // ==================== SATISFACTION SURVEY ====================
+  surveyAsk(orderNumber) {
+    return (
+      `Bestellung #${orderNumber} wurde geliefert!\n\n` +
+      `Wie zufrieden waren Sie mit uns? 🤔\n` +
+      `Bitte bewerten Sie uns von 1 bis 5:`
+    );
+  },
+
+  surveyButtons: {
+    buttons: [
+      { id: 'survey_5', title: '⭐⭐⭐⭐⭐' },
+      { id: 'survey_3', title: '⭐⭐⭐' },
+      { id: 'survey_1', title: '⭐' },
+    ],
+  },
+
+  surveyAskComment:
+    'Danke für Ihr Feedback. Möchten Sie uns kurz schreiben, was passiert ist, damit wir besser werden können?',
+
+  surveyThanksGood: 'Vielen Dank! 🙏 Schön, dass es Ihnen geschmeckt hat. Bis zum nächsten Mal! 😊',
+
+  surveyThanksBad:
+    'Danke für Ihr Feedback. 🙏 Wir kümmern uns so schnell wie möglich darum. Entschuldigen Sie bitte!',
+
+  surveyThanksNeutral: 'Danke für Ihre Bewertung! 🙏 Wir arbeiten daran, noch besser zu werden.',
+
+  // ==================== REORDER / FAVORITES ====================
+  favoritesListHeader(count) {
+    return `Ihre ${count} meistbestellten Produkte 👇`;
+  },
+
+  favoritesListButton: 'Meine Favoriten',
+
+  favoritesListHeaderText: 'Ihre Favoriten',
+
+  noFavoritesYet:
+    'Sie haben noch keine Bestellungen. Nach Ihrer ersten Bestellung erscheinen hier Ihre Favoriten!',
+
+  // ==================== BROADCAST / CAMPAIGN ====================
+  broadcastOptInAsk:
+    'Möchten Sie über unsere Aktionen und exklusiven Angebote informiert werden? 🎉',
+
+  broadcastOptInButtons: {
+    buttons: [
+      { id: 'broadcast_yes', title: 'Ja, gerne' },
+      { id: 'broadcast_no', title: 'Nein' },
+    ],
+  },
+
+  broadcastOptInConfirmed:
+    'Prima! Wir informieren Sie über exklusive Aktionen und Angebote. ' +
+    'Mit "kampanya istemiyorum" können Sie sich jederzeit abmelden.',
+
+  broadcastOptOutConfirmed:
+    'In Ordnung, Aktionsbenachrichtigungen sind deaktiviert. ' +
+    'Mit "kampanya" können Sie sie jederzeit wieder aktivieren.',
+
+  // ==================== CONVERSATION FLOW ====================
+  conversationReset:
+    '🔄 Das Gespräch wurde zurückgesetzt. Sie können eine neue Bestellung aus der Speisekarte beginnen.\n\n📋 Mit "menu" sehen Sie die *Speisekarte*.',
+
+  genericError: 'Es ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut.',
+
+  voiceNotProcessed:
+    'Ihre Sprachnachricht konnte ich leider nicht verarbeiten. Schreiben Sie einen Produktnamen, um zu bestellen.',
+
+  voiceTranscriptUnsure(transcript) {
+    return `🎤 So habe ich Ihre Sprachnachricht verstanden: "${transcript}"\nFalls das falsch ist, schreiben Sie bitte eine Korrektur.`;
+  },
+
+  imageNotSupported:
+    'Bilder kann ich nicht verarbeiten. Schreiben Sie einen Produktnamen, um zu bestellen.',
+
+  locationBeforeOrder:
+    'Bitte bestellen Sie zuerst, danach fragen wir nach Ihrem Standort. Schreiben Sie einen Produktnamen.',
+
+  locationBeforeConfirm:
+    'Bitte bestätigen Sie zuerst Ihre Bestellung, danach fragen wir nach Ihrem Standort.',
+
+  broadcastOptOutFallback: 'Aktionsbenachrichtigungen sind deaktiviert.',
+
+  idleHelp:
+    '🤖 Wie kann ich Ihnen helfen?\n\n' +
+    '• Schreiben Sie einen Produktnamen, um zu bestellen\n' +
+    '• Mit "menu" sehen Sie die Speisekarte\n' +
+    '• Fragen Sie nach unseren Öffnungszeiten\n' +
+    '• Mit "tekrar" wiederholen Sie eine frühere Bestellung',
+
+  optionSelectionNotUnderstood:
+    'Ihre Auswahl habe ich nicht verstanden. Bitte wählen Sie eine Option aus der Liste oder schreiben Sie "stornieren".',
+
+  optionSelectionPrompt(itemName, stepNumber, groupName) {
+    return `${itemName}\n${stepNumber}. Wählen Sie: ${groupName}`;
+  },
+
+  optionSelectionButton: 'Optionen',
+
+  itemAddedSummary(summary) {
+    return `Hinzugefügt! Ihre aktuelle Bestellung:\n\n${summary}`;
+  },
+
+  additionNoteSaved:
+    'In Ordnung, die Ergänzung wurde gespeichert! Schreiben Sie uns, wenn Sie noch etwas brauchen.',
+
+  additionCancelled: 'Die Ergänzung wurde verworfen. Können wir sonst noch etwas für Sie tun?',
+
+  askItemToRemove:
+    'Welches Produkt sollen wir aus Ihrer Bestellung entfernen? Bitte nennen Sie den Produktnamen.',
+
+  editOrderPrompt:
+    'Schreiben Sie ein neues Produkt, um Ihre Bestellung zu ändern, oder "stornieren".',
+
+  addMoreOrConfirm: 'Schreiben Sie weitere Produkte oder antworten Sie mit "bestätigen".',
+
+  itemUnavailable:
+    'Dieses Produkt ist gerade nicht verfügbar. Möchten Sie etwas anderes probieren?',
+
+  upsellAdded(itemName) {
+    return `✅ ${itemName} wurde in den Warenkorb gelegt!`;
+  },
+
+  chooseButton: 'Bitte wählen Sie eine der Schaltflächen.',
+
+  textMessageRequired: 'Bitte senden Sie eine Textnachricht.',
+
+  surveyRatingRetry: 'Bitte bewerten Sie von 1 bis 5 oder nutzen Sie die Schaltflächen.',
+
+  cancelNotAllowedPreparing:
+    '⚠️ Ihre Bestellung wird bereits zubereitet und kann nicht mehr storniert werden.\nFür Hilfe schreiben Sie *"destek"*.',
+
+  minBasketNote(minBasket, currentTotal) {
+    return `Hinweis: Der Mindestbestellwert beträgt ${minBasket.toFixed(2)} TL. Ihr Warenkorb: ${currentTotal.toFixed(2)} TL`;
+  },
+
+  // ==================== COUPONS ====================
+  couponApplied(code, discount) {
+    return `🎟️ Gutschein *${code}* eingelöst: -${discount.toFixed(2)} TL`;
+  },
+
+  couponNotFound(code) {
+    return `*${code}* ist kein gültiger Gutscheincode. Bitte prüfen Sie ihn und schreiben Sie ihn erneut.`;
+  },
+
+  couponUnavailable(code) {
+    return `Gutschein *${code}* kann gerade nicht verwendet werden (er ist eventuell abgelaufen oder aufgebraucht).`;
+  },
+
+  couponAlreadyUsed(code) {
+    return `Sie haben den Gutschein *${code}* bereits verwendet.`;
+  },
+
+  couponNotEligible(code) {
+    return `Gutschein *${code}* gilt nicht für diese Bestellung.`;
+  },
+
+  couponMinBasket(code, minBasket, currentTotal) {
+    return `Für den Gutschein *${code}* muss Ihr Warenkorb mindestens ${minBasket.toFixed(2)} TL betragen. Ihr Warenkorb: ${currentTotal.toFixed(2)} TL`;
+  },
+
+  couponFreeItemMissing(code, itemName) {
+    return `Für den Gutschein *${code}* muss ${itemName} im Warenkorb sein. Fügen Sie es hinzu und schreiben Sie den Code erneut.`;
+  },
+
+  couponRemoved(code, newTotal) {
+    return `⚠️ Gutschein *${code}* gilt nicht mehr für diese Bestellung und wurde entfernt. Neue Summe: ${newTotal.toFixed(2)} TL`;
+  },
+
+  // ==================== LOYALTY ====================
+  loyaltyNotAvailable: 'Derzeit läuft bei uns kein Treueprogramm.',
+
+  loyaltyNotEligible: 'Bei Nachbestellungen können keine Punkte eingelöst werden.',
+
+  loyaltyPointsBalance(points, value, minPoints) {
+    const hint =
+      points >= minPoints
+        ? 'Schreiben Sie in der Bestellübersicht *puan kullan*, um sie als Rabatt einzulösen.'
+        : `Zum Einlösen brauchen Sie mindestens ${minPoints} Punkte.`;
+    return `⭐ Sie haben *${points}* Punkte (${value.toFixed(2)} TL).\n${hint}`;
+  },
+
+  loyaltyStampsBalance(stamps, required, itemName) {
+    const hint =
+      stamps >= required
+        ? `Ihr nächstes ${itemName} geht auf uns! Schreiben Sie in der Bestellübersicht *puan kullan*.`
+        : `Noch ${required - stamps}x ${itemName}, dann geht das nächste auf uns!`;
+    return `🎫 Ihre Stempelkarte: *${stamps}/${required}* ${itemName}\n${hint}`;
+  },
+
+  loyaltyPointsApplied(points, discount) {
+    return `⭐ ${points} Punkte eingelöst: -${discount.toFixed(2)} TL`;
+  },
+
+  loyaltyStampApplied(itemName, discount) {
+    return `🎫 Ihre Stempelkarte ist voll, ein ${itemName} geht auf uns: -${discount.toFixed(2)} TL`;
+  },
+
+  loyaltyPointsNotEnough(points, minPoints) {
+    return `Zum Einlösen brauchen Sie mindestens ${minPoints} Punkte. Ihre Punkte: ${points}`;
+  },
+
+  loyaltyStampsNotEnough(stamps, required, itemName) {
+    return `Für ein gratis ${itemName} brauchen Sie ${required} Stempel. Ihre Stempelkarte: ${stamps}/${required}`;
+  },
+
+  loyaltyStampItemMissing(itemName) {
+    return `Für Ihre Prämie muss ${itemName} im Warenkorb sein. Fügen Sie es hinzu und schreiben Sie erneut *puan kullan*.`;
+  },
+
+  loyaltyRemoved(newTotal) {
+    return `⚠️ Der Punkterabatt gilt nicht mehr für diese Bestellung und wurde entfernt. Neue Summe: ${newTotal.toFixed(2)} TL`;
+  },
+
+  loyaltyPointsEarned(earned, points) {
+    return `⭐ Sie haben mit dieser Bestellung *${earned}* Punkte gesammelt! Ihre Punkte: ${points}`;
+  },
+
+  loyaltyStampsEarned(earned, stamps, required, itemName) {
+    const reward = stamps >= required ? `\nIhr nächstes ${itemName} geht auf uns!` : '';
+    return `🎫 Sie haben mit dieser Bestellung *${earned}* Stempel gesammelt! Ihre Stempelkarte: ${stamps}/${required}${reward}`;
+  },
+
+  // ==================== SMART FALLBACK ====================
+  fallbackGreetingWithOrder:
+    'Hallo! Sie können mit Ihrer Bestellung fortfahren. Schreiben Sie einen Produktnamen oder tippen Sie auf Bestätigen.',
+
+  fallbackGreeting: 'Hallo! Schreiben Sie einen Produktnamen, um zu bestellen.',
+
+  fallbackThanksWithOrder:
+    'Gern geschehen! Sie können weitere Produkte hinzufügen oder auf Bestätigen tippen.',
+
+  fallbackThanks:
+    'Gern geschehen! Schreiben Sie einfach einen Produktnamen, wenn Sie bestellen möchten.',
+
+  fallbackHelp:
+    'So bestellen Sie:\n' +
+    '1. Schreiben Sie den Produktnamen (z. B. "1 Döner", "2 Cola")\n' +
+    '2. Sie können mehrere Produkte hinzufügen\n' +
+    '3. Tippen Sie zum Schluss auf Bestätigen\n' +
+    '4. Mit "menu" sehen Sie die Speisekarte',
+
+  fallbackWithOrder:
+    'Das habe ich nicht verstanden. Schreiben Sie einen Produktnamen (z. B. "1 Cola") oder tippen Sie auf Bestätigen.',
+
+  fallbackNoOrder:
+    'Das habe ich nicht verstanden. Können Sie das Produkt etwas genauer schreiben? Zum Beispiel: "1 Cola", "Hähnchen-Döner".',
+
+  // ==================== WORKING HOURS / BUSY ====================
+  dayNames: {
+    mon: 'Montag',
+    tue: 'Dienstag',
+    wed: 'Mittwoch',
+    thu: 'Donnerstag',
+    fri: 'Freitag',
+    sat: 'Samstag',
+    sun: 'Sonntag',
+  },
+
+  dayClosedLabel: 'Geschlossen',
+
+  dayAllDayLabel: '24 Stunden geöffnet',
+
+  nextOpening(dayName, openTime) {
+    return openTime
+      ? `Wir öffnen wieder am ${dayName} um ${openTime}`
+      : `Wir öffnen wieder am ${dayName} (24 Stunden geöffnet)`;
+  },
+
+  closedToday(nextOpening, hours) {
+    return `⏰ Heute ist Ruhetag. ${nextOpening}\n\nUnsere Öffnungszeiten:\n${hours}`;
+  },
+
+  closedNow(open, close, hours) {
+    return `⏰ Wir nehmen gerade keine Bestellungen an. Heute geöffnet: ${open} - ${close}\n\nUnsere Öffnungszeiten:\n${hours}`;
+  },
+
+  workingHoursList(hours) {
+    return `🕐 Unsere Öffnungszeiten:\n\n${hours}\n\nSchreiben Sie einen Produktnamen, um zu bestellen.`;
+  },
+
+  workingHoursNotSet:
+    '🕐 Unsere Öffnungszeiten sind noch nicht hinterlegt. Schreiben Sie einen Produktnamen, um zu bestellen.',
+
+  busyNotice(estimateMinutes, customMessage) {
+    const estimate = estimateMinutes
+      ? `Voraussichtliche Lieferzeit: ~${estimateMinutes} Minuten.`
+      : '';
+    return `⚠️ Wir haben gerade sehr viel zu tun. ${estimate} ${customMessage}\n\nSie können trotzdem weiter bestellen.`.trim();
+  },
+
+  ordersPaused(time) {
+    return `⏸️ Wegen hoher Auslastung nehmen wir gerade keine neuen Bestellungen an. Ab ${time} Uhr sind Bestellungen wieder möglich.`;
+  },
+
+  prepEstimate(minutes) {
+    return `⏱️ Ihre Bestellung ist in etwa ${minutes} Minuten fertig.`;
+  },
+
+  // ==================== PRE-ORDERS ====================
+  preOrderHint:
+    '🕒 Sie können für später vorbestellen. Schreiben Sie die Uhrzeit zu Ihrer Bestellung, zum Beispiel "morgen 12:30".',
+
+  preOrderTimeAsk:
+    '⏰ Wir haben gerade geschlossen, nehmen aber Vorbestellungen an. Für wann sollen wir Ihre Bestellung vorbereiten? Zum Beispiel "morgen 12:30".',
+
+  preOrderScheduled(when) {
+    return `🕒 Ihre Bestellung ist für ${when} geplant.`;
+  },
+
+  preOrderItemsFirst(when) {
+    return `🕒 Für ${when} können wir eine Bestellung annehmen. Bitte schreiben Sie Ihre Artikel zusammen mit der Uhrzeit, zum Beispiel "morgen 12:30 2 Pizza".`;
+  },
+
+  preOrderTooSoon(minutes) {
+    return `⏰ Vorbestellungen sind frühestens in ${minutes} Minuten möglich.`;
+  },
+
+  preOrderTooFar(days) {
+    return `⏰ Wir nehmen Bestellungen bis zu ${days} Tage im Voraus an.`;
+  },
+
+  preOrderClosedSlot: '⏰ Zu dieser Zeit haben wir geschlossen.',
+
+  preOrderSlotFull: '⏰ Zu dieser Zeit sind wir ausgebucht.',
+
+  preOrderSuggestions(slots) {
+    return `Verfügbare Zeiten: ${slots}`;
+  },
+
+  preOrderNoSlots: 'Derzeit ist keine Zeit verfügbar.',
+
+  // ==================== DELIVERY TYPE ====================
+  deliveryTypeAsk: 'Wie möchten Sie Ihre Bestellung erhalten?',
+
+  deliveryTypeRetry: 'Bitte wählen Sie "Abholung" oder "Lieferung":',
+
+  deliveryTypeButtons: {
+    buttons: [
+      { id: 'delivery_type_pickup', title: 'Abholung' },
+      { id: 'delivery_type_delivery', title: 'Lieferung' },
+    ],
+  },
+
+  pickupSelected: 'Abholung gewählt!',
+
+  pickupDiscountApplied(percent, discountAmount, newTotal) {
+    return `Abholung gewählt! ${percent}% Rabatt angewendet (${discountAmount.toFixed(2)} TL Rabatt). Neuer Gesamtbetrag: ${newTotal.toFixed(2)} TL`;
+  },
+
+  locationImageInsteadOfPin:
+    'Bitte senden Sie Ihren Standort-Pin statt eines Bildes. Nutzen Sie in WhatsApp das Anhang-Symbol und "Standort".',
+
+  typedAddressNotAccepted:
+    'Eine geschriebene Adresse können wir nicht annehmen; wir brauchen Ihren Standort-Pin, um das Liefergebiet zu prüfen.\n\n' +
+    'So senden Sie einen anderen Standort:\n' +
+    'Tippen Sie auf 📎 > *Standort*.\n\n' +
+    'Mit "stornieren" brechen Sie die Bestellung ab.',
+
+  addressTextRequired: 'Bitte schreiben Sie Ihre Lieferadresse als Text.',
+
+  savedAddressSectionTitle: 'Adressen',
+
+  askCustomAddressName: 'Geben Sie der Adresse einen Namen (z. B. _Bei Mama_, _Büro_):',
+
+  askAddressNameRetry: 'Bitte geben Sie der Adresse einen Namen:',
+
+  // ==================== PAYMENT (FLOW) ====================
+  pickupPaymentMethodButtons: {
+    body: 'Wählen Sie eine Zahlungsart:',
+    buttons: [
+      { id: 'pay_cash', title: 'Bar an der Kasse' },
+      { id: 'pay_card_door', title: 'Karte an der Kasse' },
+      { id: 'pay_card_online', title: 'Online mit Karte' },
+    ],
+  },
+
+  orderReceived(orderNumber, method, isPickup) {
+    const payment =
+      method === 'CASH'
+        ? `💵 Zahlung: ${isPickup ? 'Bar an der Kasse' : 'Bar bei Lieferung'}`
+        : `💳 Zahlung: ${isPickup ? 'Karte an der Kasse' : 'Karte bei Lieferung'}`;
+    return (
+      `✅ *Ihre Bestellung ist eingegangen!*\n\n` +
+      `📦 Bestellnr.: #${orderNumber}\n` +
+      `${payment}\n` +
+      `⏳ Wir warten auf die Bestätigung des Restaurants...`
+    );
+  },
+
+  paymentLinkError(reason) {
+    return `Der Zahlungslink konnte nicht erstellt werden: ${reason}\nFür Barzahlung schreiben Sie "barzahlung".`;
+  },
+
+  paymentLinkFailed:
+    'Der Zahlungslink konnte nicht erstellt werden. Für Barzahlung schreiben Sie "barzahlung".',
+
+  paymentLinkExpired: 'Der Zahlungslink ist abgelaufen. Bitte wählen Sie die Zahlungsart erneut.',
+
+  paymentChangeCancelled:
+    'Online-Zahlung abgebrochen. Ihre bisherige Zahlungsart bleibt bestehen. ✅',
+
+  paymentChangeFailed:
+    'Die Online-Zahlung ist fehlgeschlagen. Ihre bisherige Zahlungsart bleibt bestehen.',
+
+  paymentChangeLinkFailed:
+    'Der Online-Zahlungslink konnte nicht erstellt werden. Ihre bisherige Zahlungsart bleibt bestehen.',
+
+  paymentChangeAlreadyOnline: 'Ihre Bestellung wurde bereits online bezahlt. ✅',
+};
@@ -0,0 +1,858 @@
+import type { MessageCatalog } from '../message-templates';
+
+/**
+ * English message catalog
+ */
+export const EN: MessageCatalog = {
+  // ==================== GREETING ====================
+  greeting:
+    'Hello and welcome! 🍽️\nJust type the items you would like to order.\nType "menu" to see our menu.',
+
+  // ==================== ORDER ====================
+  orderSummary(items, total, deliveryFee, orderNotes, coupon, loyalty) {
+    let msg = 'Your order:\n\n';
+    items.forEach((i) => {
+      let line = `  ${i.qty}x ${i.name}`;
+      if (i.options && i.options.length > 0) {
+        line += ` (${i.options.join(', ')})`;
+      }
+      if (i.originalPrice && i.originalPrice > i.price) {
+        line += ` - ~${(i.qty * i.originalPrice).toFixed(2)} TL~ *${(i.qty * i.price).toFixed(2)} TL*`;
+      } else {
+        line += ` - ${(i.qty * i.price).toFixed(2)} TL`;
+      }
+      if (i.notes) {
+        line += `\n    Note: ${i.notes}`;
+      }
+      msg += line + '\n';
+    });
+    msg += `\nSubtotal: ${total.toFixed(2)} TL`;
+    let grandTotal = total;
+    if (coupon) {
+      msg += `\nCoupon (${coupon.code}): -${coupon.discount.toFixed(2)} TL`;
+      grandTotal -= coupon.discount;
+    }
+    if (loyalty) {
+      msg +=
+        loyalty.points > 0
+          ? `\nPoints (${loyalty.points}): -${loyalty.discount.toFixed(2)} TL`
+          : `\nStamp card reward: -${loyalty.discount.toFixed(2)} TL`;
+      grandTotal -= loyalty.discount;
+    }
+    if (deliveryFee != null && deliveryFee > 0) {
+      msg += `\nDelivery fee: ${deliveryFee.toFixed(2)} TL`;
+      grandTotal += deliveryFee;
+    }
+    if (grandTotal !== total) {
+      msg += `\nTotal: ${grandTotal.toFixed(2)} TL`;
+    }
+    if (orderNotes) {
+      msg += `\n\nNote: ${orderNotes}`;
+    }
+    return msg;
+  },
+
+  orderConfirmButtons: {
+    buttons: [
+      { id: 'confirm_order', title: 'Confirm' },
+      { id: 'cancel_order', title: 'Cancel' },
+    ],
+  },
+
+  orderEmpty: 'Your cart is empty. Type a product name to order.',
+
+  orderItemAdded(itemName, qty) {
+    return `✅ ${qty}x ${itemName} added to your cart.`;
+  },
+
+  seamlessAdditionConfirmed(orderNumber, addedItems, additionTotal, newTotal) {
+    return (
+      `➕ *${addedItems}* added to your order (#${orderNumber})!\n\n` +
+      `Extra amount: ${additionTotal.toFixed(2)} TL\n` +
+      `New total: ${newTotal.toFixed(2)} TL`
+    );
+  },
+
+  seamlessAdditionPaymentNeeded(orderNumber, addedItems, additionTotal, paymentUrl, newTotal) {
+    return (
+      `➕ *${addedItems}* added to your order (#${orderNumber})!\n\n` +
+      `Extra amount: ${additionTotal.toFixed(2)} TL\n` +
+      `💳 Pay the extra amount here: ${paymentUrl}\n\n` +
+      `New total: ${newTotal.toFixed(2)} TL`
+    );
+  },
+
+  // ==================== PAYMENT CHANGE ====================
+
+  paymentChangeLinkSent(orderNumber, total, url) {
+    return (
+      `💳 Online payment link for order #${orderNumber}:\n\n` +
+      `${url}\n\n` +
+      `Total: ${total.toFixed(2)} TL\n` +
+      `⏰ The link is valid for 30 minutes.\n` +
+      `Type *"cancel"* to keep your current payment method.`
+    );
+  },
+
+  paymentChangeSuccess(orderNumber) {
+    return (
+      `✅ *Your online payment was received!*\n\n` +
+      `📦 Order No: #${orderNumber}\n` +
+      `💳 Payment method updated: Online credit card`
+    );
+  },
+
+  // ==================== INACTIVITY TIMEOUT ====================
+
+  inactivityWarning:
+    '⏳ Are you still there?\n\nSend any message to continue.\nIf we do not hear from you within 1 minute, your order will be *cancelled*.',
+
+  inactivityCancelled:
+    '⏰ Your order was cancelled because we did not hear from you for a while.\n\nType the items you would like to start a new order.',
+
+  inactivityResumed: '✅ Your order is still open. You can continue where you left off.',
+
+  // ==================== LOCATION ====================
+  locationRequest:
+    '📍 Please send your location for delivery.\nTap the button below to share your location.',
+
+  locationOutOfService(message) {
+    return `❌ ${message}\n\nPlease send a different location or type *"cancel"*.`;
+  },
+
+  locationConfirmed(storeName, deliveryFee, distance) {
+    return (
+      `✅ Your order will be delivered from our *${storeName}* branch.\n` +
+      `📏 Distance: ${distance.toFixed(1)} km\n` +
+      `🚚 Delivery fee: ${deliveryFee.toFixed(2)} TL`
+    );
+  },
+
+  deliveryEstimate(minutes) {
+    return `⏱️ Estimated delivery time: ~${minutes} minutes`;
+  },
+
+  nearestStoreFallback: 'Nearest branch',
+
+  locationMinBasketNotMet(minBasket, currentTotal) {
+    return (
+      `⚠️ The minimum order amount is ${minBasket.toFixed(2)} TL.\n` +
+      `Your cart: ${currentTotal.toFixed(2)} TL\n\n` +
+      `Please add more items or type *"cancel"*.`
+    );
+  },
+
+  reminderSendLocation:
+    '📍 Please send your location pin.\nIn WhatsApp, use 📎 > Location to share it.',
+
+  // ==================== ADDRESS COLLECTION ====================
+  addressRequest:
+    '📝 Please type your delivery address.\n' +
+    'Example: _Ataturk Mah. Cumhuriyet Cad. No:12 Apt:5_',
+
+  addressConfirmation(address) {
+    return `📍 Your delivery address:\n\n` + `*${address}*`;
+  },
+
+  addressConfirmButtons: {
+    body: 'Is this address correct?',
+    buttons: [
+      { id: 'address_confirm', title: 'Yes, correct' },
+      { id: 'address_retry', title: 'No, change it' },
+    ],
+  },
+
+  addressRetry: '📝 Please type your delivery address again.',
+
+  // ==================== PAYMENT ====================
+  paymentMethodButtons: {
+    body: 'Choose a payment method:',
+    buttons: [
+      { id: 'pay_cash', title: 'Cash on delivery' },
+      { id: 'pay_card_door', title: 'Card on delivery' },
+      { id: 'pay_card_online', title: 'Pay online by card' },
+    ],
+  },
+
+  paymentLinkSent(url) {
+    return (
+      `💳 Tap the link below to pay by credit card:\n\n` +
+      `${url}\n\n` +
+      `⏰ The link is valid for 30 minutes.\n` +
+      `Type *"cash"* to pay in cash instead.`
+    );
+  },
+
+  paymentSuccess(orderNumber) {
+    return (
+      `✅ *Your payment was received!*\n\n` +
+      `📦 Order No: #${orderNumber}\n` +
+      `⏳ Waiting for the restaurant to confirm...`
+    );
+  },
+
+  paymentFailed: '❌ The payment failed.\nType *"card"* to try again or *"cash"* to pay in cash.',
+
+  cashConfirmed(orderNumber) {
+    return (
+      `✅ *Your order has been received!*\n\n` +
+      `📦 Order No: #${orderNumber}\n` +
+      `💵 Payment: Cash on delivery\n` +
+      `⏳ Waiting for the restaurant to confirm...`
+    );
+  },
+
+  reminderPayment(url) {
+    return (
+      `⏳ Waiting for your payment.\n\n` +
+      `💳 Your payment link: ${url}\n\n` +
+      `Type *"cash"* to pay in cash instead.`
+    );
+  },
+
+  pendingConfirmation(orderNumber) {
+    return (
+      `📦 Order No: #${orderNumber}\n` +
+      `⏳ Your order is waiting for the restaurant to confirm.\n` +
+      `We will let you know as soon as it is confirmed.`
+    );
+  },
+
+  restaurantApproved(orderNumber) {
+    return (
+      `✅ *Your order has been confirmed!*\n\n` +
+      `📦 Order No: #${orderNumber}\n` +
+      `🎉 We are preparing your order!\n` +
+      `⏱️ Estimated preparation time: 25-30 minutes`
+    );
+  },
+
+  // ==================== ORDER STATUS UPDATES ====================
+  orderPreparing(orderNumber) {
+    return (
+      `👨‍🍳 *Your order is being prepared!*\n\n` +
+      `📦 Order No: #${orderNumber}\n` +
+      `⏱️ Estimated time: 25-30 minutes`
+    );
+  },
+
+  orderReady(orderNumber) {
+    return (
+      `🎉 *Your order is ready!*\n\n` +
+      `📦 Order No: #${orderNumber}\n` +
+      `🚀 The courier is about to head out!`
+    );
+  },
+
+  orderOnTheWay(orderNumber, trackingUrl) {
+    return (
+      `🛵 *Your order is on the way!*\n\n` +
+      `📦 Order No: #${orderNumber}\n` +
+      `📍 Track your courier here:\n${trackingUrl}`
+    );
+  },
+  orderDelivered(orderNumber) {
+    return (
+      `✅ *Your order has been delivered!*\n\n` +
+      `📦 Order No: #${orderNumber}\n` +
+      `🍽️ Enjoy your meal!\n` +
+      `Type a product name to order again.`
+    );
+  },
+
+  orderCancelledNotification(orderNumber) {
+    return (
+      `❌ *Your order has been cancelled.*\n\n` +
+      `📦 Order No: #${orderNumber}\n` +
+      `Type a product name to start a new order.`
+    );
+  },
+
+  // ==================== ORDER ADDITION ====================
+  additionPrompt(orderNumber) {
+    return `You have an open order (#${orderNumber}). Would you like to add to it or place a new order?`;
+  },
+
+  additionStarted(parentOrderNumber) {
+    return (
+      `➕ You are adding to order #${parentOrderNumber}.\n` +
+      `Type the items you would like to add.`
+    );
+  },
+
+  newOrderPrompt: 'Type the items for your new order.',
+
+  additionNotAllowed(orderNumber) {
+    return (
+      `❌ Order #${orderNumber} has already been delivered or cancelled.\n` +
+      `Type a product name to place a new order.`
+    );
+  },
+
+  additionReadyFoodOnly(nonReadyItemNames) {
+    return (
+      `⚠️ Your order is already ready, so only ready-made items can be added.\n` +
+      `These items cannot be added: *${nonReadyItemNames}*\n\n` +
+      `Please choose ready-made items only or type *"cancel"*.`
+    );
+  },
+
+  additionApproved(orderNumber) {
+    return (
+      `✅ *Your addition has been confirmed!*\n\n` +
+      `📦 Order #${orderNumber}\n` +
+      `Your extra items are being prepared.`
+    );
+  },
+
+  additionRejected(orderNumber, reason) {
+    return (
+      `❌ *Your addition was declined.*\n\n` +
+      `📦 Order #${orderNumber}\n` +
+      `Reason: *${reason}*\n\n` +
+      `Type a product name to place a new order.`
+    );
+  },
+
+  orderRejected(orderNumber, reason) {
+    return (
+      `❌ *Your order was declined.*\n\n` +
+      `📦 Order No: #${orderNumber}\n` +
+      `Reason: *${reason}*\n\n` +
+      `Type a product name to place a new order.`
+    );
+  },
+
+  refundInitiated(orderNumber) {
+    return (
+      `💳 A refund has been started for order #${orderNumber}.\n` +
+      `It will appear on your card within 3-5 business days.`
+    );
+  },
+
+  orderAdjusted(orderNumber, changes, newTotal) {
+    return (
+      `✏️ *Order #${orderNumber} has been updated.*\n\n` +
+      `${changes}\n\n` +
+      `💰 New total: *${newTotal.toFixed(2)} TL*`
+    );
+  },
+
+  partialRefundInitiated(orderNumber, amount) {
+    return (
+      `💳 A refund of ${amount.toFixed(2)} TL has been started for order #${orderNumber}.\n` +
+      `It will appear on your card within 3-5 business days.`
+    );
+  },
+
+  // ==================== SAVED ADDRESSES ====================
+  savedAddressListHeader: 'Your saved addresses:',
+  savedAddressListButton: 'Choose address',
+  newAddressRowTitle: 'New address',
+  newAddressRowDescription: 'Send a new location',
+
+  askSaveAddressButtons: {
+    body: 'Would you like to save this address?',
+    buttons: [
+      { id: 'save_address_yes', title: 'Yes, save it' },
+      { id: 'save_address_no', title: 'No' },
+    ],
+  },
+
+  askAddressNameButtons: {
+    body: 'Give this address a name:',
+    buttons: [
+      { id: 'addr_name_ev', title: 'Home' },
+      { id: 'addr_name_is', title: 'Work' },
+      { id: 'addr_name_diger', title: 'Other' },
+    ],
+  },
+
+  addressSaved(name) {
+    return `✅ Address saved as *"${name}"*.`;
+  },
+
+  addressNotSaved: 'OK, the address was not saved.',
+
+  savedAddressInvalid:
+    '⚠️ The address you chose is no longer in our delivery area.\nPlease send a new location.',
+
+  // ==================== STORE STATUS ====================
+  storeClosed: '⏰ We are closed right now. You can order again once we open.',
+
+  // ==================== GENERAL ====================
+  orderCancelled:
+    '🚫 Your order has been cancelled.\nType the items you would like to start a new order.',
+
+  orderConfirmedNewOrder:
+    'Your order is being processed! ⏳\nType a product name to place a new order.',
+
+  clarificationFallback:
+    'Sorry, I did not understand. Type a product name to order or type "menu" to see the menu.',
+
+  agentHandoff: '👤 Connecting you to a member of our team. Please wait...',
+
+  // ==================== MENU MEDIA ====================
+  menuMediaIntro: '📋 Have a look at our menu:',
+
+  menuMediaFooter: 'Type the items you would like to order.',
+
+  menuNotAvailable: 'Our menu has not been uploaded yet. Type a product name to order.',
+
+  // ==================== MENU BROWSE ====================
+  menuBrowseIntro:
+    '📋 Pick a category from our menu 👇\nYou can also just type the product name to order.',
+
+  menuBrowseButton: 'Categories',
+
+  menuBrowseMediaRow: '🖼 Menu pictures',
+
+  menuBrowsePrevRow: '◀ Previous page',
+
+  menuBrowseNextRow: 'Next page ▶',
+
+  menuBrowseItemsIntro(category) {
+    return `*${category}* 👇\nPick a product to see details and add it to your cart.`;
+  },
+
+  menuBrowseItemsButton: 'Products',
+
+  menuItemOptionsTitle: 'Options',
+
+  menuItemRequired: 'required',
+
+  menuItemAddHint: 'Use the button below to add it to your cart.',
+
+  menuBrowseAddButton: '🛒 Add to cart',
+
+  menuBrowseBackButton: '◀ Back',
+
+  catalogHeader: 'Menu',
+
+  catalogIntro: 'Add products to your cart and send it, we will prepare your order right away 🛒',
+
+  catalogOrderUnmatched:
+    'We could not find the products in your cart on our menu. Type a product name to order.',
+
+  // ==================== IMAGE ORDERS ====================
+  imageNotRead: 'I could not read the text in the image. Type a product name to order.',
+
+  imageNoItems:
+    'I could not find any of our menu items in the image. Type a product name to order.',
+
+  imageItemsConfirm(summary) {
+    return `📷 This is what I read in the image:\n\n${summary}\n\nShall I add it to your order?`;
+  },
+
+  imageItemsButtons: {
+    buttons: [
+      { id: 'image_items_add', title: '✅ Add' },
+      { id: 'image_items_cancel', title: '❌ Cancel' },
+    ],
+  },
+
+  imageItemsDiscarded: 'OK, nothing was added. You can also type your order.',
+
+  // ==================== UPSELL ====================
+  upsellButtons(price) {
+    return {
+      buttons: [
+        { id: 'upsell_accept', title: `✅ Add ${price.toFixed(0)} TL` },
+        { id: 'upsell_reject', title: '❌ No thanks' },
+      ],
+    };
+  },
+
+  // ==================== SATISFACTION SURVEY ====================
+  surveyAsk(orderNumber) {
+    return (
+      `Order #${orderNumber} has been delivered!\n\n` +
+      `How was our service? 🤔\n` +
+      `Please rate us from 1 to 5:`
+    );
+  },
+
+  surveyButtons: {
+    buttons: [
+      { id: 'survey_5', title: '⭐⭐⭐⭐⭐' },
+      { id: 'survey_3', title: '⭐⭐⭐' },
+      { id: 'survey_1', title: '⭐' },
+    ],
+  },
+
+  surveyAskComment:
+    'Thank you for your feedback. Could you tell us briefly what happened so we can do better?',
+
+  surveyThanksGood: 'Thank you so much! 🙏 We are glad you enjoyed it. See you again soon! 😊',
+
+  surveyThanksBad:
+    'Thank you for your feedback. 🙏 We will look into it as soon as possible. We apologise!',
+
+  surveyThanksNeutral: 'Thanks for rating us! 🙏 We will keep working to do better.',
+
+  // ==================== REORDER / FAVORITES ====================
+  favoritesListHeader(count) {
+    return `Your ${count} most ordered items 👇`;
+  },
+
+  favoritesListButton: 'My favourites',
+
+  favoritesListHeaderText: 'Your favourites',
+
+  noFavoritesYet: 'You have no orders yet. Your favourites will show up here after you order!',
+
+  // ==================== BROADCAST / CAMPAIGN ====================
+  broadcastOptInAsk: 'Would you like to hear about our campaigns and special offers? 🎉',
+
+  broadcastOptInButtons: {
+    buttons: [
+      { id: 'broadcast_yes', title: 'Yes, please' },
+      { id: 'broadcast_no', title: 'No' },
+    ],
+  },
+
+  broadcastOptInConfirmed:
+    'Great! We will send you our special campaigns and offers. ' +
+    'You can opt out at any time by typing "kampanya istemiyorum".',
+
+  broadcastOptOutConfirmed:
+    'OK, campaign notifications are turned off. ' +
+    'You can turn them back on at any time by typing "kampanya".',
+
+  // ==================== CONVERSATION FLOW ====================
+  conversationReset:
+    '🔄 The conversation has been reset. You can start a new order from the menu.\n\n📋 Type "menu" to see the *Menu*.',
+
+  genericError: 'Something went wrong. Please try again.',
+
+  voiceNotProcessed: 'Sorry, I could not process your voice message. Type a product name to order.',
+
+  voiceTranscriptUnsure(transcript) {
+    return `🎤 This is what I understood from your voice message: "${transcript}"\nIf I got it wrong, please type a correction.`;
+  },
+
+  imageNotSupported: 'I cannot process images. Type a product name to order.',
+
+  locationBeforeOrder:
+    'Please order first; we will ask for your location afterwards. Type a product name to order.',
+
+  locationBeforeConfirm:
+    'Please confirm your order first; we will ask for your location afterwards.',
+
+  broadcastOptOutFallback: 'Campaign notifications are turned off.',
+
+  idleHelp:
+    '🤖 How can I help you?\n\n' +
+    '• Type a product name to order\n' +
+    '• Type "menu" to see the menu\n' +
+    '• Ask "when are you open" for our opening hours\n' +
+    '• Type "tekrar" to repeat a previous order',
+
+  optionSelectionNotUnderstood:
+    'Sorry, I did not understand your choice. Please pick an option from the list or type "cancel".',
+
+  optionSelectionPrompt(itemName, stepNumber, groupName) {
+    return `${itemName}\n${stepNumber}. Choose your ${groupName}:`;
+  },
+
+  optionSelectionButton: 'Options',
+
+  itemAddedSummary(summary) {
+    return `Added! Your current order:\n\n${summary}`;
+  },
+
+  additionNoteSaved: 'OK, your addition has been saved! Let us know if you need anything else.',
+
+  additionCancelled: 'The addition was cancelled. Is there anything else you need?',
+
+  askItemToRemove: 'Which item should we remove from your order? Please tell us the product name.',
+
+  editOrderPrompt: 'Type a new product to change your order, or type "cancel".',
+
+  addMoreOrConfirm: 'Type another product to add more, or reply "yes" to confirm.',
+
+  itemUnavailable: 'This item is not available right now. Would you like to try something else?',
+
+  upsellAdded(itemName) {
+    return `✅ ${itemName} added to your cart!`;
+  },
+
+  chooseButton: 'Please choose one of the buttons.',
+
+  textMessageRequired: 'Please send a text message.',
+
+  surveyRatingRetry: 'Please give a rating from 1 to 5 or use the buttons.',
+
+  cancelNotAllowedPreparing:
+    '⚠️ Your order is already being prepared and can no longer be cancelled.\nType *"destek"* for help.',
+
+  minBasketNote(minBasket, currentTotal) {
+    return `Note: The minimum order amount is ${minBasket.toFixed(2)} TL. Your cart: ${currentTotal.toFixed(2)} TL`;
+  },
+
+  // ==================== COUPONS ====================
+  couponApplied(code, discount) {
+    return `🎟️ Coupon *${code}* applied: -${discount.toFixed(2)} TL`;
+  },
+
+  couponNotFound(code) {
+    return `*${code}* is not a valid coupon code. Please check it and type it again.`;
+  },
+
+  couponUnavailable(code) {
+    return `Coupon *${code}* cannot be used right now (it may have expired or run out).`;
+  },
+
+  couponAlreadyUsed(code) {
+    return `You have already used coupon *${code}*.`;
+  },
+
+  couponNotEligible(code) {
+    return `Coupon *${code}* is not valid for this order.`;
+  },
+
+  couponMinBasket(code, minBasket, currentTotal) {
+    return `Coupon *${code}* needs a cart of at least ${minBasket.toFixed(2)} TL. Your cart: ${currentTotal.toFixed(2)} TL`;
+  },
+
+  couponFreeItemMissing(code, itemName) {
+    return `Coupon *${code}* needs ${itemName} in your cart. Add it and type the code again.`;
+  },
+
+  couponRemoved(code, newTotal) {
+    return `⚠️ Coupon *${code}* no longer applies to this order and was removed. New total: ${newTotal.toFixed(2)} TL`;
+  },
+
+  // ==================== LOYALTY ====================
+  loyaltyNotAvailable: 'We do not have a loyalty program running at the moment.',
+
+  loyaltyNotEligible: 'Points cannot be used on additions to an order.',
+
+  loyaltyPointsBalance(points, value, minPoints) {
+    const hint =
+      points >= minPoints
+        ? 'Type *puan kullan* on your order summary to use them as a discount.'
+        : `You need at least ${minPoints} points to use them.`;
+    return `⭐ You have *${points}* points (${value.toFixed(2)} TL).\n${hint}`;
+  },
+
+  loyaltyStampsBalance(stamps, required, itemName) {
+    const hint =
+      stamps >= required
+        ? `Your next ${itemName} is on us! Type *puan kullan* on your order summary.`
+        : `${required - stamps} more ${itemName} and the next one is on us!`;
+    return `🎫 Your stamp card: *${stamps}/${required}* ${itemName}\n${hint}`;
+  },
+
+  loyaltyPointsApplied(points, discount) {
+    return `⭐ ${points} points used: -${discount.toFixed(2)} TL`;
+  },
+
+  loyaltyStampApplied(itemName, discount) {
+    return `🎫 Your stamp card is full, one ${itemName} is on us: -${discount.toFixed(2)} TL`;
+  },
+
+  loyaltyPointsNotEnough(points, minPoints) {
+    return `You need at least ${minPoints} points to use them. Your points: ${points}`;
+  },
+
+  loyaltyStampsNotEnough(stamps, required, itemName) {
+    return `A free ${itemName} needs ${required} stamps. Your stamp card: ${stamps}/${required}`;
+  },
+
+  loyaltyStampItemMissing(itemName) {
+    return `Your cart needs ${itemName} to use your reward. Add it and type *puan kullan* again.`;
+  },
+
+  loyaltyRemoved(newTotal) {
+    return `⚠️ The points discount no longer applies to this order and was removed. New total: ${newTotal.toFixed(2)} TL`;
+  },
+
+  loyaltyPointsEarned(earned, points) {
+    return `⭐ You earned *${earned}* points with this order! Your points: ${points}`;
+  },
+
+  loyaltyStampsEarned(earned, stamps, required, itemName) {
+    const reward = stamps >= required ? `\nYour next ${itemName} is on us!` : '';
+    return `🎫 You earned *${earned}* stamps with this order! Your stamp card: ${stamps}/${required}${reward}`;
+  },
+
+  // ==================== SMART FALLBACK ====================
+  fallbackGreetingWithOrder:
+    'Hello! You can carry on with your order. Type a product name to add it or tap the confirm button.',
+
+  fallbackGreeting: 'Hello! Type a product name to order.',
+
+  fallbackThanksWithOrder: 'You are welcome! You can add more items or tap the confirm button.',
+
+  fallbackThanks: 'You are welcome! Type a product name whenever you would like to order.',
+
+  fallbackHelp:
+    'To order:\n' +
+    '1. Type the product name (e.g. "1 Doner", "2 Cola")\n' +
+    '2. You can add several items\n' +
+    '3. Tap the confirm button when you are done\n' +
+    '4. Type "menu" to see the menu',
+
+  fallbackWithOrder:
+    'Sorry, I did not understand. Type a product name to add it (e.g. "1 Cola") or tap the confirm button.',
+
+  fallbackNoOrder:
+    'Sorry, I did not understand. Could you write the item a little more clearly? For example: "1 Cola", "Chicken Doner".',
+
+  // ==================== WORKING HOURS / BUSY ====================
+  dayNames: {
+    mon: 'Monday',
+    tue: 'Tuesday',
+    wed: 'Wednesday',
+    thu: 'Thursday',
+    fri: 'Friday',
+    sat: 'Saturday',
+    sun: 'Sunday',
+  },
+
+  dayClosedLabel: 'Closed',
+
+  dayAllDayLabel: 'Open 24 hours',
+
+  nextOpening(dayName, openTime) {
+    return openTime
+      ? `We open next on ${dayName} at ${openTime}`
+      : `We open next on ${dayName} (open 24 hours)`;
+  },
+
+  closedToday(nextOpening, hours) {
+    return `⏰ We are closed today. ${nextOpening}\n\nOur opening hours:\n${hours}`;
+  },
+
+  closedNow(open, close, hours) {
+    return `⏰ We are not taking orders right now. Today's hours: ${open} - ${close}\n\nOur opening hours:\n${hours}`;
+  },
+
+  workingHoursList(hours) {
+    return `🕐 Our opening hours:\n\n${hours}\n\nType a product name to order.`;
+  },
+
+  workingHoursNotSet: '🕐 Our opening hours have not been set yet. Type a product name to order.',
+
+  busyNotice(estimateMinutes, customMessage) {
+    const estimate = estimateMinutes ? `Estimated delivery time: ~${estimateMinutes} minutes.` : '';
+    return `⚠️ We are very busy at the moment. ${estimate} ${customMessage}\n\nYou can still go ahead with your order.`.trim();
+  },
+
+  ordersPaused(time) {
+    return `⏸️ We are too busy to take new orders right now. We will take orders again from ${time}.`;
+  },
+
+  prepEstimate(minutes) {
+    return `⏱️ Your order will be ready in about ${minutes} minutes.`;
+  },
+
+  // ==================== PRE-ORDERS ====================
+  preOrderHint:
+    '🕒 You can pre-order for a later time. Write the time with your order, for example "tomorrow 12:30".',
+
+  preOrderTimeAsk:
+    '⏰ We are closed right now but we take pre-orders. What time should we prepare your order for? For example "tomorrow 12:30".',
+
+  preOrderScheduled(when) {
+    return `🕒 Your order is scheduled for ${when}.`;
+  },
+
+  preOrderItemsFirst(when) {
+    return `🕒 We can take an order for ${when}. Please write your items together with the time, for example "tomorrow 12:30 2 pizzas".`;
+  },
+
+  preOrderTooSoon(minutes) {
+    return `⏰ Pre-orders need at least ${minutes} minutes notice.`;
+  },
+
+  preOrderTooFar(days) {
+    return `⏰ We take orders up to ${days} days ahead.`;
+  },
+
+  preOrderClosedSlot: '⏰ We are closed at that time.',
+
+  preOrderSlotFull: '⏰ We are fully booked at that time.',
+
+  preOrderSuggestions(slots) {
+    return `Available times: ${slots}`;
+  },
+
+  preOrderNoSlots: 'There are no available times right now.',
+
+  // ==================== DELIVERY TYPE ====================
+  deliveryTypeAsk: 'How would you like to receive your order?',
+
+  deliveryTypeRetry: 'Please choose either "Pickup" or "Delivery":',
+
+  deliveryTypeButtons: {
+    buttons: [
+      { id: 'delivery_type_pickup', title: 'Pickup' },
+      { id: 'delivery_type_delivery', title: 'Delivery' },
+    ],
+  },
+
+  pickupSelected: 'Pickup selected!',
+
+  pickupDiscountApplied(percent, discountAmount, newTotal) {
+    return `Pickup selected! ${percent}% discount applied (${discountAmount.toFixed(2)} TL off). New total: ${newTotal.toFixed(2)} TL`;
+  },
+
+  locationImageInsteadOfPin:
+    'Please send your location pin rather than an image. In WhatsApp, use the attachment icon and choose "Location".',
+
+  typedAddressNotAccepted:
+    'We cannot accept a typed address; we need your location pin to check our delivery area.\n\n' +
+    'To send a different location:\n' +
+    'Tap 📎 > *Location*.\n\n' +
+    'Type "cancel" to cancel the order.',
+
+  addressTextRequired: 'Please type your delivery address as text.',
+
+  savedAddressSectionTitle: 'Addresses',
+
+  askCustomAddressName: "Type a name for the address (e.g. _Mum's place_, _Office_):",
+
+  askAddressNameRetry: 'Please type a name for the address:',
+
+  // ==================== PAYMENT (FLOW) ====================
+  pickupPaymentMethodButtons: {
+    body: 'Choose a payment method:',
+    buttons: [
+      { id: 'pay_cash', title: 'Cash at counter' },
+      { id: 'pay_card_door', title: 'Card at counter' },
+      { id: 'pay_card_online', title: 'Pay online by card' },
+    ],
+  },
+
+  orderReceived(orderNumber, method, isPickup) {
+    const payment =
+      method === 'CASH'
+        ? `💵 Payment: ${isPickup ? 'Cash at the counter' : 'Cash on delivery'}`
+        : `💳 Payment: ${isPickup ? 'Card at the counter' : 'Card on delivery'}`;
+    return (
+      `✅ *Your order has been received!*\n\n` +
+      `📦 Order No: #${orderNumber}\n` +
+      `${payment}\n` +
+      `⏳ Waiting for the restaurant to confirm...`
+    );
+  },
+
+  paymentLinkError(reason) {
+    return `Could not create the payment link: ${reason}\nType "cash" to pay in cash.`;
+  },
+
+  paymentLinkFailed: 'Could not create the payment link. Type "cash" to pay in cash.',
+
+  paymentLinkExpired: 'The payment link has expired. Please choose a payment method again.',
+
+  paymentChangeCancelled: 'Online payment cancelled. Your current payment method still applies. ✅',
+
+  paymentChangeFailed: 'The online payment failed. Your current payment method still applies.',
+
+  paymentChangeLinkFailed:
+    'Could not create an online payment link. Your current payment method still applies.',
+
+  paymentChangeAlreadyOnline: 'Your order has already been paid online. ✅',
+};
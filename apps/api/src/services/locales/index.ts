@@ -0,0 +1,74 @@
+import { SUPPORTED_LANGUAGES, SupportedLanguage } from '@whatres/shared';
+import { TEMPLATES, MessageCatalog } from '../message-templates';
+import { EN } from './en';
+import { AR } from './ar';
+import { DE } from './de';
+import { RU } from './ru';
+
+export const DEFAULT_LANGUAGE: SupportedLanguage = 'tr';
+
+const CATALOGS: Record<SupportedLanguage, MessageCatalog> = {
+  tr: TEMPLATES,
+  en: EN,
+  ar: AR,
+  de: DE,
+  ru: RU,
+};
+
+/**
+ * Map a language code from NLU or the panel ("en", "EN-us", "de_DE") to a
+ * supported language, or null when we have no catalog for it
+ */
+export function normalizeLanguage(code: string | null | undefined): SupportedLanguage | null {
+  if (!code) return null;
+  const base = code.trim().toLowerCase().split(/[-_]/)[0];
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(base)
+    ? (base as SupportedLanguage)
+    : null;
+}
+
+/**
+ * Message catalog for a conversation language, falling back to Turkish
+ */
+export function getTemplates(language: string | null | undefined): MessageCatalog {
+  return CATALOGS[normalizeLanguage(language) ?? DEFAULT_LANGUAGE];
+}
+
+/**
+ * Cheap script-based guess for messages the NLU never sees (buttons, short
+ * replies). Only non-Latin scripts are conclusive; Latin text returns null.
+ */
+export function detectLanguageFromScript(
+  text: string | null | undefined
+): SupportedLanguage | null {
+  if (!text) return null;
+  const letters = text.replace(/[^\p{L}]/gu, '');
+  if (letters.length < 2) return null;
+
+  const arabic = (letters.match(/\p{Script=Arabic}/gu) ?? []).length;
+  const cyrillic = (letters.match(/\p{Script=Cyrillic}/gu) ?? []).length;
+  if (arabic / letters.length > 0.5) return 'ar';
+  if (cyrillic / letters.length > 0.5) return 'ru';
+  return null;
+}
+
+/**
+ * Translated name/description from a menu row's `translations` JSON
+ * ({ en: { name, description }, ... }), falling back to the original text
+ */
+export function translateMenuText(
+  translations: unknown,
+  language: string | null | undefined,
+  field: 'name' | 'description',
+  fallback: string
+): string {
+  const lang = normalizeLanguage(language);
+  if (!lang || lang === DEFAULT_LANGUAGE || !translations || typeof translations !== 'object') {
+    return fallback;
+  }
+  const entry = (
+    translations as Record<string, { name?: string; description?: string } | undefined>
+  )[lang];
+  const value = entry?.[field]?.trim();
+  return value || fallback;
+}
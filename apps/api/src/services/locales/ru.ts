@@ -0,0 +1,855 @@
+import type { MessageCatalog } from '../message-templates';
+
+/**
+ * Russian message catalog
+ */
+export const RU: MessageCatalog = {
+  // ==================== GREETING ====================
+  greeting:
+    'Здравствуйте и добро пожаловать! 🍽️\nПросто напишите, что хотите заказать.\nЧтобы посмотреть меню, напишите "меню".',
+
+  // ==================== ORDER ====================
+  orderSummary(items, total, deliveryFee, orderNotes, coupon, loyalty) {
+    let msg = 'Ваш заказ:\n\n';
+    items.forEach((i) => {
+      let line = `  ${i.qty}x ${i.name}`;
+      if (i.options && i.options.length > 0) {
+        line += ` (${i.options.join(', ')})`;
+      }
+      if (i.originalPrice && i.originalPrice > i.price) {
+        line += ` - ~${(i.qty * i.originalPrice).toFixed(2)} TL~ *${(i.qty * i.price).toFixed(2)} TL*`;
+      } else {
+        line += ` - ${(i.qty * i.price).toFixed(2)} TL`;
+      }
+      if (i.notes) {
+        line += `\n    Примечание: ${i.notes}`;
+      }
+      msg += line + '\n';
+    });
+    msg += `\nПромежуточный итог: ${total.toFixed(2)} TL`;
+    let grandTotal = total;
+    if (coupon) {
+      msg += `\nКупон (${coupon.code}): -${coupon.discount.toFixed(2)} TL`;
+      grandTotal -= coupon.discount;
+    }
+    if (loyalty) {
+      msg +=
+        loyalty.points > 0
+          ? `\nБаллы (${loyalty.points}): -${loyalty.discount.toFixed(2)} TL`
+          : `\nПодарок по карте штампов: -${loyalty.discount.toFixed(2)} TL`;
+      grandTotal -= loyalty.discount;
+    }
+    if (deliveryFee != null && deliveryFee > 0) {
+      msg += `\nДоставка: ${deliveryFee.toFixed(2)} TL`;
+      grandTotal += deliveryFee;
+    }
+    if (grandTotal !== total) {
+      msg += `\nИтого: ${grandTotal.toFixed(2)} TL`;
+    }
+    if (orderNotes) {
+      msg += `\n\nПримечание: ${orderNotes}`;
+    }
+    return msg;
+  },
+
+  orderConfirmButtons: {
+    buttons: [
+      { id: 'confirm_order', title: 'Подтвердить' },
+      { id: 'cancel_order', title: 'Отменить' },
+    ],
+  },
+
+  orderEmpty: 'Ваша корзина пуста. Напишите название блюда, чтобы заказать.',
+
+  orderItemAdded(itemName, qty) {
+    return `✅ ${qty}x ${itemName} добавлено в корзину.`;
+  },
+
+  seamlessAdditionConfirmed(orderNumber, addedItems, additionTotal, newTotal) {
+    return (
+      `➕ *${addedItems}* добавлено к вашему заказу (#${orderNumber})!\n\n` +
+      `Доплата: ${additionTotal.toFixed(2)} TL\n` +
+      `Новая сумма: ${newTotal.toFixed(2)} TL`
+    );
+  },
+
+  seamlessAdditionPaymentNeeded(orderNumber, addedItems, additionTotal, paymentUrl, newTotal) {
+    return (
+      `➕ *${addedItems}* добавлено к вашему заказу (#${orderNumber})!\n\n` +
+      `Доплата: ${additionTotal.toFixed(2)} TL\n` +
+      `💳 Оплатить доплату: ${paymentUrl}\n\n` +
+      `Новая сумма: ${newTotal.toFixed(2)} TL`
+    );
+  },
+
+  // ==================== PAYMENT CHANGE ====================
+
+  paymentChangeLinkSent(orderNumber, total, url) {
+    return (
+      `💳 Ссылка для онлайн-оплаты заказа #${orderNumber}:\n\n` +
+      `${url}\n\n` +
+      `Сумма: ${total.toFixed(2)} TL\n` +
+      `⏰ Ссылка действует 30 минут.\n` +
+      `Чтобы оставить прежний способ оплаты, напишите *"отмена"*.`
+    );
+  },
+
+  paymentChangeSuccess(orderNumber) {
+    return (
+      `✅ *Онлайн-оплата получена!*\n\n` +
+      `📦 Номер заказа: #${orderNumber}\n` +
+      `💳 Способ оплаты изменён: онлайн картой`
+    );
+  },
+
+  // ==================== INACTIVITY TIMEOUT ====================
+
+  inactivityWarning:
+    '⏳ Вы ещё здесь?\n\nОтправьте любое сообщение, чтобы продолжить.\nЕсли ответа не будет в течение 1 минуты, заказ будет *отменён*.',
+
+  inactivityCancelled:
+    '⏰ Заказ отменён, так как мы долго не получали от вас ответа.\n\nЧтобы сделать новый заказ, напишите нужные блюда.',
+
+  inactivityResumed: '✅ Ваш заказ всё ещё открыт. Можете продолжить с того же места.',
+
+  // ==================== LOCATION ====================
+  locationRequest:
+    '📍 Пожалуйста, отправьте своё местоположение для доставки.\nНажмите кнопку ниже, чтобы поделиться им.',
+
+  locationOutOfService(message) {
+    return `❌ ${message}\n\nПожалуйста, отправьте другое местоположение или напишите *"отмена"*.`;
+  },
+
+  locationConfirmed(storeName, deliveryFee, distance) {
+    return (
+      `✅ Заказ будет доставлен из нашего филиала *${storeName}*.\n` +
+      `📏 Расстояние: ${distance.toFixed(1)} км\n` +
+      `🚚 Доставка: ${deliveryFee.toFixed(2)} TL`
+    );
+  },
+
+  deliveryEstimate(minutes) {
+    return `⏱️ Примерное время доставки: ~${minutes} мин`;
+  },
+
+  nearestStoreFallback: 'Ближайший филиал',
+
+  locationMinBasketNotMet(minBasket, currentTotal) {
+    return (
+      `⚠️ Минимальная сумма заказа — ${minBasket.toFixed(2)} TL.\n` +
+      `Ваша корзина: ${currentTotal.toFixed(2)} TL\n\n` +
+      `Добавьте ещё блюда или напишите *"отмена"*.`
+    );
+  },
+
+  reminderSendLocation:
+    '📍 Пожалуйста, отправьте метку местоположения.\nВ WhatsApp: 📎 > Местоположение.',
+
+  // ==================== ADDRESS COLLECTION ====================
+  addressRequest:
+    '📝 Пожалуйста, напишите адрес доставки.\n' +
+    'Пример: _Ataturk Mah. Cumhuriyet Cad. No:12 кв. 5_',
+
+  addressConfirmation(address) {
+    return `📍 Ваш адрес доставки:\n\n` + `*${address}*`;
+  },
+
+  addressConfirmButtons: {
+    body: 'Адрес указан верно?',
+    buttons: [
+      { id: 'address_confirm', title: 'Да, верно' },
+      { id: 'address_retry', title: 'Нет, изменить' },
+    ],
+  },
+
+  addressRetry: '📝 Пожалуйста, напишите адрес доставки ещё раз.',
+
+  // ==================== PAYMENT ====================
+  paymentMethodButtons: {
+    body: 'Выберите способ оплаты:',
+    buttons: [
+      { id: 'pay_cash', title: 'Наличными курьеру' },
+      { id: 'pay_card_door', title: 'Картой курьеру' },
+      { id: 'pay_card_online', title: 'Картой онлайн' },
+    ],
+  },
+
+  paymentLinkSent(url) {
+    return (
+      `💳 Для оплаты картой перейдите по ссылке:\n\n` +
+      `${url}\n\n` +
+      `⏰ Ссылка действует 30 минут.\n` +
+      `Чтобы оплатить наличными, напишите *"наличные"*.`
+    );
+  },
+
+  paymentSuccess(orderNumber) {
+    return (
+      `✅ *Оплата получена!*\n\n` +
+      `📦 Номер заказа: #${orderNumber}\n` +
+      `⏳ Ждём подтверждения ресторана...`
+    );
+  },
+
+  paymentFailed:
+    '❌ Оплата не прошла.\nНапишите *"карта"*, чтобы попробовать снова, или *"наличные"*, чтобы оплатить наличными.',
+
+  cashConfirmed(orderNumber) {
+    return (
+      `✅ *Ваш заказ принят!*\n\n` +
+      `📦 Номер заказа: #${orderNumber}\n` +
+      `💵 Оплата: наличными курьеру\n` +
+      `⏳ Ждём подтверждения ресторана...`
+    );
+  },
+
+  reminderPayment(url) {
+    return (
+      `⏳ Ожидаем оплату.\n\n` +
+      `💳 Ваша ссылка для оплаты: ${url}\n\n` +
+      `Чтобы оплатить наличными, напишите *"наличные"*.`
+    );
+  },
+
+  pendingConfirmation(orderNumber) {
+    return (
+      `📦 Номер заказа: #${orderNumber}\n` +
+      `⏳ Заказ ожидает подтверждения ресторана.\n` +
+      `Мы сообщим, как только он будет подтверждён.`
+    );
+  },
+
+  restaurantApproved(orderNumber) {
+    return (
+      `✅ *Ваш заказ подтверждён!*\n\n` +
+      `📦 Номер заказа: #${orderNumber}\n` +
+      `🎉 Мы уже готовим ваш заказ!\n` +
+      `⏱️ Примерное время приготовления: 25-30 минут`
+    );
+  },
+
+  // ==================== ORDER STATUS UPDATES ====================
+  orderPreparing(orderNumber) {
+    return (
+      `👨‍🍳 *Ваш заказ готовится!*\n\n` +
+      `📦 Номер заказа: #${orderNumber}\n` +
+      `⏱️ Примерное время: 25-30 минут`
+    );
+  },
+
+  orderReady(orderNumber) {
+    return (
+      `🎉 *Ваш заказ готов!*\n\n` +
+      `📦 Номер заказа: #${orderNumber}\n` +
+      `🚀 Курьер скоро выезжает!`
+    );
+  },
+
+  orderOnTheWay(orderNumber, trackingUrl) {
+    return (
+      `🛵 *Ваш заказ в пути!*\n\n` +
+      `📦 Номер заказа: #${orderNumber}\n` +
+      `📍 Следите за курьером здесь:\n${trackingUrl}`
+    );
+  },
+  orderDelivered(orderNumber) {
+    return (
+      `✅ *Ваш заказ доставлен!*\n\n` +
+      `📦 Номер заказа: #${orderNumber}\n` +
+      `🍽️ Приятного аппетита!\n` +
+      `Чтобы заказать снова, напишите название блюда.`
+    );
+  },
+
+  orderCancelledNotification(orderNumber) {
+    return (
+      `❌ *Ваш заказ отменён.*\n\n` +
+      `📦 Номер заказа: #${orderNumber}\n` +
+      `Чтобы сделать новый заказ, напишите название блюда.`
+    );
+  },
+
+  // ==================== ORDER ADDITION ====================
+  additionPrompt(orderNumber) {
+    return `У вас есть открытый заказ (#${orderNumber}). Хотите дополнить его или сделать новый заказ?`;
+  },
+
+  additionStarted(parentOrderNumber) {
+    return `➕ Вы дополняете заказ #${parentOrderNumber}.\n` + `Напишите, что хотите добавить.`;
+  },
+
+  newOrderPrompt: 'Напишите блюда для нового заказа.',
+
+  additionNotAllowed(orderNumber) {
+    return (
+      `❌ Заказ #${orderNumber} уже доставлен или отменён.\n` +
+      `Чтобы сделать новый заказ, напишите название блюда.`
+    );
+  },
+
+  additionReadyFoodOnly(nonReadyItemNames) {
+    return (
+      `⚠️ Ваш заказ уже готов, поэтому можно добавить только готовые блюда.\n` +
+      `Нельзя добавить: *${nonReadyItemNames}*\n\n` +
+      `Выберите только готовые блюда или напишите *"отмена"*.`
+    );
+  },
+
+  additionApproved(orderNumber) {
+    return (
+      `✅ *Дополнение подтверждено!*\n\n` +
+      `📦 Заказ #${orderNumber}\n` +
+      `Дополнительные блюда готовятся.`
+    );
+  },
+
+  additionRejected(orderNumber, reason) {
+    return (
+      `❌ *Дополнение отклонено.*\n\n` +
+      `📦 Заказ #${orderNumber}\n` +
+      `Причина: *${reason}*\n\n` +
+      `Чтобы сделать новый заказ, напишите название блюда.`
+    );
+  },
+
+  orderRejected(orderNumber, reason) {
+    return (
+      `❌ *Ваш заказ отклонён.*\n\n` +
+      `📦 Номер заказа: #${orderNumber}\n` +
+      `Причина: *${reason}*\n\n` +
+      `Чтобы сделать новый заказ, напишите название блюда.`
+    );
+  },
+
+  refundInitiated(orderNumber) {
+    return (
+      `💳 Возврат средств по заказу #${orderNumber} оформлен.\n` +
+      `Деньги поступят на карту в течение 3-5 рабочих дней.`
+    );
+  },
+
+  orderAdjusted(orderNumber, changes, newTotal) {
+    return (
+      `✏️ *Заказ #${orderNumber} изменён.*\n\n` +
+      `${changes}\n\n` +
+      `💰 Новая сумма: *${newTotal.toFixed(2)} TL*`
+    );
+  },
+
+  partialRefundInitiated(orderNumber, amount) {
+    return (
+      `💳 Возврат ${amount.toFixed(2)} TL по заказу #${orderNumber} оформлен.\n` +
+      `Деньги поступят на карту в течение 3-5 рабочих дней.`
+    );
+  },
+
+  // ==================== SAVED ADDRESSES ====================
+  savedAddressListHeader: 'Ваши сохранённые адреса:',
+  savedAddressListButton: 'Выбрать адрес',
+  newAddressRowTitle: 'Новый адрес',
+  newAddressRowDescription: 'Отправить новую геопозицию',
+
+  askSaveAddressButtons: {
+    body: 'Сохранить этот адрес?',
+    buttons: [
+      { id: 'save_address_yes', title: 'Да, сохранить' },
+      { id: 'save_address_no', title: 'Нет' },
+    ],
+  },
+
+  askAddressNameButtons: {
+    body: 'Как назвать этот адрес?',
+    buttons: [
+      { id: 'addr_name_ev', title: 'Дом' },
+      { id: 'addr_name_is', title: 'Работа' },
+      { id: 'addr_name_diger', title: 'Другое' },
+    ],
+  },
+
+  addressSaved(name) {
+    return `✅ Адрес сохранён как *"${name}"*.`;
+  },
+
+  addressNotSaved: 'Хорошо, адрес не сохранён.',
+
+  savedAddressInvalid:
+    '⚠️ Выбранный адрес больше не входит в зону доставки.\nПожалуйста, отправьте новое местоположение.',
+
+  // ==================== STORE STATUS ====================
+  storeClosed: '⏰ Сейчас мы закрыты. Вы сможете сделать заказ, когда мы откроемся.',
+
+  // ==================== GENERAL ====================
+  orderCancelled: '🚫 Ваш заказ отменён.\nЧтобы сделать новый заказ, напишите нужные блюда.',
+
+  orderConfirmedNewOrder:
+    'Ваш заказ обрабатывается! ⏳\nЧтобы сделать новый заказ, напишите название блюда.',
+
+  clarificationFallback:
+    'Извините, я не понял. Напишите название блюда или "меню", чтобы посмотреть меню.',
+
+  agentHandoff: '👤 Соединяю вас с сотрудником. Пожалуйста, подождите...',
+
+  // ==================== MENU MEDIA ====================
+  menuMediaIntro: '📋 Посмотрите наше меню:',
+
+  menuMediaFooter: 'Напишите, что хотите заказать.',
+
+  menuNotAvailable: 'Меню ещё не загружено. Напишите название блюда, чтобы заказать.',
+
+  // ==================== MENU BROWSE ====================
+  menuBrowseIntro: '📋 Выберите категорию меню 👇\nМожно также просто написать название блюда.',
+
+  menuBrowseButton: 'Категории',
+
+  menuBrowseMediaRow: '🖼 Фото меню',
+
+  menuBrowsePrevRow: '◀ Назад',
+
+  menuBrowseNextRow: 'Дальше ▶',
+
+  menuBrowseItemsIntro(category) {
+    return `*${category}* 👇\nВыберите блюдо, чтобы увидеть детали и добавить в корзину.`;
+  },
+
+  menuBrowseItemsButton: 'Блюда',
+
+  menuItemOptionsTitle: 'Варианты',
+
+  menuItemRequired: 'обязательно',
+
+  menuItemAddHint: 'Нажмите кнопку ниже, чтобы добавить в корзину.',
+
+  menuBrowseAddButton: '🛒 В корзину',
+
+  menuBrowseBackButton: '◀ Назад',
+
+  catalogHeader: 'Меню',
+
+  catalogIntro: 'Добавьте блюда в корзину и отправьте её, мы сразу начнём готовить 🛒',
+
+  catalogOrderUnmatched:
+    'Не удалось найти блюда из корзины в нашем меню. Напишите название блюда, чтобы заказать.',
+
+  // ==================== IMAGE ORDERS ====================
+  imageNotRead:
+    'Не удалось прочитать текст на изображении. Напишите название блюда, чтобы заказать.',
+
+  imageNoItems:
+    'На изображении не найдено блюд из нашего меню. Напишите название блюда, чтобы заказать.',
+
+  imageItemsConfirm(summary) {
+    return `📷 Вот что я прочитал на изображении:\n\n${summary}\n\nДобавить это в ваш заказ?`;
+  },
+
+  imageItemsButtons: {
+    buttons: [
+      { id: 'image_items_add', title: '✅ Добавить' },
+      { id: 'image_items_cancel', title: '❌ Отмена' },
+    ],
+  },
+
+  imageItemsDiscarded: 'Хорошо, ничего не добавлено. Вы также можете написать заказ.',
+
+  // ==================== UPSELL ====================
+  upsellButtons(price) {
+    return {
+      buttons: [
+        { id: 'upsell_accept', title: `✅ Добавить ${price.toFixed(0)} TL` },
+        { id: 'upsell_reject', title: '❌ Нет, спасибо' },
+      ],
+    };
+  },
+
+  // ==================== SATISFACTION SURVEY ====================
+  surveyAsk(orderNumber) {
+    return (
+      `Заказ #${orderNumber} доставлен!\n\n` +
+      `Как вам наш сервис? 🤔\n` +
+      `Пожалуйста, оцените нас от 1 до 5:`
+    );
+  },
+
+  surveyButtons: {
+    buttons: [
+      { id: 'survey_5', title: '⭐⭐⭐⭐⭐' },
+      { id: 'survey_3', title: '⭐⭐⭐' },
+      { id: 'survey_1', title: '⭐' },
+    ],
+  },
+
+  surveyAskComment:
+    'Спасибо за отзыв. Расскажите, пожалуйста, коротко, что случилось, чтобы мы могли стать лучше.',
+
+  surveyThanksGood: 'Большое спасибо! 🙏 Рады, что вам понравилось. Ждём вас снова! 😊',
+
+  surveyThanksBad: 'Спасибо за отзыв. 🙏 Мы разберёмся как можно скорее. Приносим извинения!',
+
+  surveyThanksNeutral: 'Спасибо за оценку! 🙏 Мы будем стараться стать лучше.',
+
+  // ==================== REORDER / FAVORITES ====================
+  favoritesListHeader(count) {
+    return `Ваши ${count} самых заказываемых блюд 👇`;
+  },
+
+  favoritesListButton: 'Избранное',
+
+  favoritesListHeaderText: 'Ваше избранное',
+
+  noFavoritesYet: 'У вас пока нет заказов. После первого заказа здесь появится ваше избранное!',
+
+  // ==================== BROADCAST / CAMPAIGN ====================
+  broadcastOptInAsk: 'Хотите получать информацию о наших акциях и специальных предложениях? 🎉',
+
+  broadcastOptInButtons: {
+    buttons: [
+      { id: 'broadcast_yes', title: 'Да, хочу' },
+      { id: 'broadcast_no', title: 'Нет' },
+    ],
+  },
+
+  broadcastOptInConfirmed:
+    'Отлично! Мы будем присылать вам специальные акции и предложения. ' +
+    'Отписаться можно в любой момент, написав "kampanya istemiyorum".',
+
+  broadcastOptOutConfirmed:
+    'Хорошо, уведомления об акциях отключены. ' + 'Включить их снова можно, написав "kampanya".',
+
+  // ==================== CONVERSATION FLOW ====================
+  conversationReset:
+    '🔄 Диалог сброшен. Вы можете начать новый заказ из меню.\n\n📋 Напишите "меню", чтобы посмотреть *Меню*.',
+
+  genericError: 'Произошла ошибка. Пожалуйста, попробуйте ещё раз.',
+
+  voiceNotProcessed:
+    'Не удалось обработать голосовое сообщение. Напишите название блюда, чтобы заказать.',
+
+  voiceTranscriptUnsure(transcript) {
+    return `🎤 Я понял ваше голосовое сообщение так: "${transcript}"\nЕсли я ошибся, напишите исправление.`;
+  },
+
+  imageNotSupported: 'Я не могу обрабатывать изображения. Напишите название блюда, чтобы заказать.',
+
+  locationBeforeOrder:
+    'Сначала сделайте заказ, потом мы спросим местоположение. Напишите название блюда.',
+
+  locationBeforeConfirm: 'Сначала подтвердите заказ, потом мы спросим местоположение.',
+
+  broadcastOptOutFallback: 'Уведомления об акциях отключены.',
+
+  idleHelp:
+    '🤖 Чем могу помочь?\n\n' +
+    '• Напишите название блюда, чтобы заказать\n' +
+    '• Напишите "меню", чтобы посмотреть меню\n' +
+    '• Спросите о часах работы\n' +
+    '• Напишите "tekrar", чтобы повторить прошлый заказ',
+
+  optionSelectionNotUnderstood:
+    'Не понял ваш выбор. Выберите вариант из списка или напишите "отмена".',
+
+  optionSelectionPrompt(itemName, stepNumber, groupName) {
+    return `${itemName}\n${stepNumber}. Выберите: ${groupName}`;
+  },
+
+  optionSelectionButton: 'Варианты',
+
+  itemAddedSummary(summary) {
+    return `Добавлено! Ваш текущий заказ:\n\n${summary}`;
+  },
+
+  additionNoteSaved: 'Хорошо, дополнение сохранено! Напишите, если нужно что-то ещё.',
+
+  additionCancelled: 'Дополнение отменено. Чем ещё можем помочь?',
+
+  askItemToRemove: 'Какое блюдо убрать из заказа? Пожалуйста, напишите его название.',
+
+  editOrderPrompt: 'Чтобы изменить заказ, напишите новое блюдо или "отмена".',
+
+  addMoreOrConfirm: 'Напишите ещё блюда или ответьте "подтвердить".',
+
+  itemUnavailable: 'Это блюдо сейчас недоступно. Хотите попробовать что-нибудь другое?',
+
+  upsellAdded(itemName) {
+    return `✅ ${itemName} добавлено в корзину!`;
+  },
+
+  chooseButton: 'Пожалуйста, выберите одну из кнопок.',
+
+  textMessageRequired: 'Пожалуйста, отправьте текстовое сообщение.',
+
+  surveyRatingRetry: 'Пожалуйста, поставьте оценку от 1 до 5 или воспользуйтесь кнопками.',
+
+  cancelNotAllowedPreparing:
+    '⚠️ Ваш заказ уже готовится, отменить его нельзя.\nДля помощи напишите *"destek"*.',
+
+  minBasketNote(minBasket, currentTotal) {
+    return `Примечание: минимальная сумма заказа — ${minBasket.toFixed(2)} TL. Ваша корзина: ${currentTotal.toFixed(2)} TL`;
+  },
+
+  // ==================== COUPONS ====================
+  couponApplied(code, discount) {
+    return `🎟️ Купон *${code}* применён: -${discount.toFixed(2)} TL`;
+  },
+
+  couponNotFound(code) {
+    return `*${code}* — недействительный код купона. Проверьте его и напишите ещё раз.`;
+  },
+
+  couponUnavailable(code) {
+    return `Купон *${code}* сейчас нельзя использовать (возможно, истёк срок или лимит).`;
+  },
+
+  couponAlreadyUsed(code) {
+    return `Вы уже использовали купон *${code}*.`;
+  },
+
+  couponNotEligible(code) {
+    return `Купон *${code}* не действует для этого заказа.`;
+  },
+
+  couponMinBasket(code, minBasket, currentTotal) {
+    return `Для купона *${code}* сумма корзины должна быть не меньше ${minBasket.toFixed(2)} TL. Ваша корзина: ${currentTotal.toFixed(2)} TL`;
+  },
+
+  couponFreeItemMissing(code, itemName) {
+    return `Для купона *${code}* в корзине должно быть: ${itemName}. Добавьте и напишите код ещё раз.`;
+  },
+
+  couponRemoved(code, newTotal) {
+    return `⚠️ Купон *${code}* больше не действует для этого заказа и был снят. Новая сумма: ${newTotal.toFixed(2)} TL`;
+  },
+
+  // ==================== LOYALTY ====================
+  loyaltyNotAvailable: 'Сейчас у нас нет действующей программы лояльности.',
+
+  loyaltyNotEligible: 'Баллы нельзя использовать для дозаказа.',
+
+  loyaltyPointsBalance(points, value, minPoints) {
+    const hint =
+      points >= minPoints
+        ? 'Напишите *puan kullan* в сводке заказа, чтобы списать их как скидку.'
+        : `Чтобы списать баллы, нужно не меньше ${minPoints}.`;
+    return `⭐ У вас *${points}* баллов (${value.toFixed(2)} TL).\n${hint}`;
+  },
+
+  loyaltyStampsBalance(stamps, required, itemName) {
+    const hint =
+      stamps >= required
+        ? `Следующий ${itemName} за наш счёт! Напишите *puan kullan* в сводке заказа.`
+        : `Ещё ${required - stamps} ${itemName}, и следующий за наш счёт!`;
+    return `🎫 Ваша карта штампов: *${stamps}/${required}* ${itemName}\n${hint}`;
+  },
+
+  loyaltyPointsApplied(points, discount) {
+    return `⭐ Списано ${points} баллов: -${discount.toFixed(2)} TL`;
+  },
+
+  loyaltyStampApplied(itemName, discount) {
+    return `🎫 Карта штампов заполнена, один ${itemName} за наш счёт: -${discount.toFixed(2)} TL`;
+  },
+
+  loyaltyPointsNotEnough(points, minPoints) {
+    return `Чтобы списать баллы, нужно не меньше ${minPoints}. Ваши баллы: ${points}`;
+  },
+
+  loyaltyStampsNotEnough(stamps, required, itemName) {
+    return `Для бесплатного ${itemName} нужно ${required} штампов. Ваша карта: ${stamps}/${required}`;
+  },
+
+  loyaltyStampItemMissing(itemName) {
+    return `Чтобы получить подарок, добавьте в корзину ${itemName} и снова напишите *puan kullan*.`;
+  },
+
+  loyaltyRemoved(newTotal) {
+    return `⚠️ Скидка баллами больше не действует для этого заказа и была снята. Новая сумма: ${newTotal.toFixed(2)} TL`;
+  },
+
+  loyaltyPointsEarned(earned, points) {
+    return `⭐ За этот заказ начислено *${earned}* баллов! Ваши баллы: ${points}`;
+  },
+
+  loyaltyStampsEarned(earned, stamps, required, itemName) {
+    const reward = stamps >= required ? `\nСледующий ${itemName} за наш счёт!` : '';
+    return `🎫 За этот заказ получено *${earned}* штампов! Ваша карта: ${stamps}/${required}${reward}`;
+  },
+
+  // ==================== SMART FALLBACK ====================
+  fallbackGreetingWithOrder:
+    'Здравствуйте! Можете продолжить заказ. Напишите название блюда или нажмите кнопку подтверждения.',
+
+  fallbackGreeting: 'Здравствуйте! Напишите название блюда, чтобы заказать.',
+
+  fallbackThanksWithOrder: 'Пожалуйста! Можете добавить ещё блюда или нажать кнопку подтверждения.',
+
+  fallbackThanks: 'Пожалуйста! Когда захотите заказать, просто напишите название блюда.',
+
+  fallbackHelp:
+    'Как сделать заказ:\n' +
+    '1. Напишите название блюда (например: "1 Донер", "2 Кола")\n' +
+    '2. Можно добавить несколько блюд\n' +
+    '3. Когда будете готовы, нажмите кнопку подтверждения\n' +
+    '4. Напишите "меню", чтобы посмотреть меню',
+
+  fallbackWithOrder:
+    'Не понял. Напишите название блюда (например: "1 Кола") или нажмите кнопку подтверждения.',
+
+  fallbackNoOrder:
+    'Не понял. Напишите, пожалуйста, блюдо чуть понятнее. Например: "1 Кола", "Донер с курицей".',
+
+  // ==================== WORKING HOURS / BUSY ====================
+  dayNames: {
+    mon: 'Понедельник',
+    tue: 'Вторник',
+    wed: 'Среда',
+    thu: 'Четверг',
+    fri: 'Пятница',
+    sat: 'Суббота',
+    sun: 'Воскресенье',
+  },
+
+  dayClosedLabel: 'Закрыто',
+
+  dayAllDayLabel: 'Круглосуточно',
+
+  nextOpening(dayName, openTime) {
+    return openTime
+      ? `Ближайшее открытие: ${dayName}, ${openTime}`
+      : `Ближайшее открытие: ${dayName} (круглосуточно)`;
+  },
+
+  closedToday(nextOpening, hours) {
+    return `⏰ Сегодня у нас выходной. ${nextOpening}\n\nЧасы работы:\n${hours}`;
+  },
+
+  closedNow(open, close, hours) {
+    return `⏰ Сейчас мы не принимаем заказы. Сегодня работаем: ${open} - ${close}\n\nЧасы работы:\n${hours}`;
+  },
+
+  workingHoursList(hours) {
+    return `🕐 Часы работы:\n\n${hours}\n\nЧтобы заказать, напишите название блюда.`;
+  },
+
+  workingHoursNotSet: '🕐 Часы работы ещё не указаны. Чтобы заказать, напишите название блюда.',
+
+  busyNotice(estimateMinutes, customMessage) {
+    const estimate = estimateMinutes ? `Примерное время доставки: ~${estimateMinutes} минут.` : '';
+    return `⚠️ Сейчас у нас много заказов. ${estimate} ${customMessage}\n\nВы можете продолжить оформление заказа.`.trim();
+  },
+
+  ordersPaused(time) {
+    return `⏸️ Из-за высокой загрузки мы сейчас не принимаем новые заказы. Приём заказов возобновится в ${time}.`;
+  },
+
+  prepEstimate(minutes) {
+    return `⏱️ Ваш заказ будет готов примерно через ${minutes} мин.`;
+  },
+
+  // ==================== PRE-ORDERS ====================
+  preOrderHint:
+    '🕒 Вы можете сделать предзаказ на более позднее время. Укажите время вместе с заказом, например "завтра 12:30".',
+
+  preOrderTimeAsk:
+    '⏰ Сейчас мы закрыты, но принимаем предзаказы. К какому времени приготовить ваш заказ? Например "завтра 12:30".',
+
+  preOrderScheduled(when) {
+    return `🕒 Ваш заказ запланирован на ${when}.`;
+  },
+
+  preOrderItemsFirst(when) {
+    return `🕒 Мы можем принять заказ на ${when}. Пожалуйста, напишите блюда вместе со временем, например "завтра 12:30 2 пиццы".`;
+  },
+
+  preOrderTooSoon(minutes) {
+    return `⏰ Предзаказ возможен не раньше чем через ${minutes} минут.`;
+  },
+
+  preOrderTooFar(days) {
+    return `⏰ Мы принимаем заказы не более чем на ${days} дн. вперёд.`;
+  },
+
+  preOrderClosedSlot: '⏰ В это время мы закрыты.',
+
+  preOrderSlotFull: '⏰ На это время все места заняты.',
+
+  preOrderSuggestions(slots) {
+    return `Свободное время: ${slots}`;
+  },
+
+  preOrderNoSlots: 'Сейчас нет свободного времени.',
+
+  // ==================== DELIVERY TYPE ====================
+  deliveryTypeAsk: 'Как вы хотите получить заказ?',
+
+  deliveryTypeRetry: 'Пожалуйста, выберите "Самовывоз" или "Доставка":',
+
+  deliveryTypeButtons: {
+    buttons: [
+      { id: 'delivery_type_pickup', title: 'Самовывоз' },
+      { id: 'delivery_type_delivery', title: 'Доставка' },
+    ],
+  },
+
+  pickupSelected: 'Выбран самовывоз!',
+
+  pickupDiscountApplied(percent, discountAmount, newTotal) {
+    return `Выбран самовывоз! Применена скидка ${percent}% (скидка ${discountAmount.toFixed(2)} TL). Новая сумма: ${newTotal.toFixed(2)} TL`;
+  },
+
+  locationImageInsteadOfPin:
+    'Пожалуйста, отправьте метку местоположения, а не изображение. В WhatsApp нажмите значок вложения и выберите "Местоположение".',
+
+  typedAddressNotAccepted:
+    'Мы не можем принять адрес текстом: чтобы проверить зону доставки, нужна метка местоположения.\n\n' +
+    'Чтобы отправить другое местоположение:\n' +
+    'нажмите 📎 > *Местоположение*.\n\n' +
+    'Чтобы отменить заказ, напишите "отмена".',
+
+  addressTextRequired: 'Пожалуйста, напишите адрес доставки текстом.',
+
+  savedAddressSectionTitle: 'Адреса',
+
+  askCustomAddressName: 'Напишите название адреса (например: _У мамы_, _Офис_):',
+
+  askAddressNameRetry: 'Пожалуйста, напишите название адреса:',
+
+  // ==================== PAYMENT (FLOW) ====================
+  pickupPaymentMethodButtons: {
+    body: 'Выберите способ оплаты:',
+    buttons: [
+      { id: 'pay_cash', title: 'Наличными на кассе' },
+      { id: 'pay_card_door', title: 'Картой на кассе' },
+      { id: 'pay_card_online', title: 'Картой онлайн' },
+    ],
+  },
+
+  orderReceived(orderNumber, method, isPickup) {
+    const payment =
+      method === 'CASH'
+        ? `💵 Оплата: ${isPickup ? 'наличными на кассе' : 'наличными курьеру'}`
+        : `💳 Оплата: ${isPickup ? 'картой на кассе' : 'картой курьеру'}`;
+    return (
+      `✅ *Ваш заказ принят!*\n\n` +
+      `📦 Номер заказа: #${orderNumber}\n` +
+      `${payment}\n` +
+      `⏳ Ждём подтверждения ресторана...`
+    );
+  },
+
+  paymentLinkError(reason) {
+    return `Не удалось создать ссылку на оплату: ${reason}\nЧтобы оплатить наличными, напишите "наличные".`;
+  },
+
+  paymentLinkFailed:
+    'Не удалось создать ссылку на оплату. Чтобы оплатить наличными, напишите "наличные".',
+
+  paymentLinkExpired:
+    'Срок действия ссылки на оплату истёк. Пожалуйста, выберите способ оплаты ещё раз.',
+
+  paymentChangeCancelled: 'Онлайн-оплата отменена. Прежний способ оплаты остаётся в силе. ✅',
+
+  paymentChangeFailed: 'Онлайн-оплата не прошла. Прежний способ оплаты остаётся в силе.',
+
+  paymentChangeLinkFailed:
+    'Не удалось создать ссылку для онлайн-оплаты. Прежний способ оплаты остаётся в силе.',
+
+  paymentChangeAlreadyOnline: 'Ваш заказ уже оплачен онлайн. ✅',
+};
@@ -0,0 +1,540 @@
+import { LoyaltySettings, OrderStatus, Prisma } from '@prisma/client';
+import {
+  AdjustLoyaltyDto,
+  LoyaltyMemberDto,
+  LoyaltyOverviewDto,
+  LoyaltySettingsDto,
+  LoyaltyTransactionDto,
+  UpdateLoyaltySettingsDto,
+} from '@whatres/shared';
+import prisma from '../db/prisma';
+import { AppError } from '../middleware/error-handler';
+import { createLogger } from '../logger';
+
+const logger = createLogger();
+
+/** Points and stamps on orders in these states are not held; DELIVERED ones are already spent */
+const UNHELD_STATUSES: OrderStatus[] = ['DRAFT', 'CANCELLED', 'DELIVERED'];
+
+const DEFAULT_SETTINGS: LoyaltySettingsDto = {
+  isEnabled: false,
+  type: 'POINTS',
+  pointsPerTl: 1,
+  pointValue: 0.1,
+  minRedeemPoints: 100,
+  stampItemName: null,
+  stampsRequired: 9,
+};
+
+/** Why points or a stamp card could not be spent; each maps to a bot message */
+export type LoyaltyRejection =
+  | 'DISABLED'
+  | 'NOT_ELIGIBLE' // additions ride on an order that was already priced
+  | 'NOT_ENOUGH'
+  | 'ITEM_MISSING'; // STAMPS: the reward item is not in the basket
+
+export type LoyaltyRedemption =
+  | { ok: true; points: number; stamps: number; discount: number }
+  | { ok: false; reason: LoyaltyRejection };
+
+/** A customer's balance as the bot reports it */
+export interface LoyaltyBalance {
+  settings: LoyaltySettingsDto;
+  points: number;
+  stamps: number;
+}
+
+/** What a delivered order added to the customer's card */
+export interface LoyaltyEarning {
+  settings: LoyaltySettingsDto;
+  earnedPoints: number;
+  earnedStamps: number;
+  points: number;
+  stamps: number;
+}
+
+/** Order fields settleOrder reads; the status transition's row has them all */
+interface SettleableOrder {
+  id: string;
+  customerPhone: string | null;
+  customerName: string | null;
+  totalPrice: Prisma.Decimal | number;
+  loyaltyPointsUsed: number;
+  loyaltyStampsUsed: number;
+  items: { menuItemName: string; qty: number }[];
+}
+
+type PricedItem = { menuItemName: string; unitPrice: number | Prisma.Decimal; qty: number };
+
+export class LoyaltyService {
+  // ==================== SETTINGS ====================
+
+  async getSettings(tenantId: string): Promise<LoyaltySettingsDto> {
+    const settings = await prisma.loyaltySettings.findUnique({ where: { tenantId } });
+    return settings ? this.mapSettings(settings) : { ...DEFAULT_SETTINGS };
+  }
+
+  async updateSettings(
+    tenantId: string,
+    dto: UpdateLoyaltySettingsDto
+  ): Promise<LoyaltySettingsDto> {
+    const merged = { ...(await this.getSettings(tenantId)), ...dto };
+    const stampItemName = merged.stampItemName?.trim() || null;
+    if (merged.isEnabled && merged.type === 'STAMPS' && !stampItemName) {
+      throw new AppError(400, 'INVALID_LOYALTY_SETTINGS', 'Stamp cards need an item');
+    }
+
+    const data = {
+      ...dto,
+      ...(dto.stampItemName !== undefined && { stampItemName }),
+    };
+    const settings = await prisma.loyaltySettings.upsert({
+      where: { tenantId },
+      update: data,
+      create: { tenantId, ...data },
+    });
+
+    logger.info(
+      { tenantId, isEnabled: settings.isEnabled, type: settings.type },
+      'Loyalty settings updated'
+    );
+    return this.mapSettings(settings);
+  }
+
+  // ==================== MEMBERS & LEDGER ====================
+
+  async getOverview(tenantId: string): Promise<LoyaltyOverviewDto> {
+    const [settings, balances, memberCount, redeemed] = await Promise.all([
+      this.getSettings(tenantId),
+      prisma.customerProfile.aggregate({
+        where: { tenantId },
+        _sum: { loyaltyPoints: true, loyaltyStamps: true },
+      }),
+      prisma.customerProfile.count({
+        where: { tenantId, OR: [{ loyaltyPoints: { gt: 0 } }, { loyaltyStamps: { gt: 0 } }] },
+      }),
+      prisma.order.aggregate({
+        where: { tenantId, status: 'DELIVERED', loyaltyDiscount: { gt: 0 } },
+        _sum: { loyaltyDiscount: true },
+      }),
+    ]);
+
+    return {
+      settings,
+      memberCount,
+      outstandingPoints: balances._sum.loyaltyPoints ?? 0,
+      outstandingStamps: balances._sum.loyaltyStamps ?? 0,
+      redeemedDiscount: round(Number(redeemed._sum.loyaltyDiscount ?? 0)),
+    };
+  }
+
+  /** Customers holding points or stamps, largest balances first */
+  async getMembers(tenantId: string): Promise<LoyaltyMemberDto[]> {
+    const profiles = await prisma.customerProfile.findMany({
+      where: { tenantId, OR: [{ loyaltyPoints: { gt: 0 } }, { loyaltyStamps: { gt: 0 } }] },
+      orderBy: [{ loyaltyPoints: 'desc' }, { loyaltyStamps: 'desc' }],
+      take: 500,
+    });
+
+    return profiles.map((profile) => ({
+      customerPhone: profile.customerPhone,
+      customerName: profile.customerName,
+      points: profile.loyaltyPoints,
+      stamps: profile.loyaltyStamps,
+      lastOrderAt: profile.lastOrderAt?.toISOString() || null,
+    }));
+  }
+
+  async getTransactions(
+    tenantId: string,
+    query: { customerPhone?: string; limit?: number } = {}
+  ): Promise<LoyaltyTransactionDto[]> {
+    const transactions = await prisma.loyaltyTransaction.findMany({
+      where: { tenantId, ...(query.customerPhone && { customerPhone: query.customerPhone }) },
+      include: { order: { select: { orderNumber: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit || 100,
+    });
+
+    return transactions.map((tx) => ({
+      id: tx.id,
+      customerPhone: tx.customerPhone,
+      orderId: tx.orderId,
+      orderNumber: tx.order?.orderNumber ?? null,
+      type: tx.type,
+      points: tx.points,
+      stamps: tx.stamps,
+      note: tx.note,
+      createdAt: tx.createdAt.toISOString(),
+    }));
+  }
+
+  /** Staff correction; a balance never goes below zero */
+  async adjust(tenantId: string, dto: AdjustLoyaltyDto): Promise<LoyaltyMemberDto> {
+    const points = dto.points ?? 0;
+    const stamps = dto.stamps ?? 0;
+    if (points === 0 && stamps === 0) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Nothing to adjust');
+    }
+
+    const profile = await prisma.$transaction(async (tx) => {
+      const current = await tx.customerProfile.findUnique({
+        where: { tenantId_customerPhone: { tenantId, customerPhone: dto.customerPhone } },
+      });
+      if (!current) {
+        throw new AppError(404, 'CUSTOMER_NOT_FOUND', 'Customer not found');
+      }
+      if (current.loyaltyPoints + points < 0 || current.loyaltyStamps + stamps < 0) {
+        throw new AppError(400, 'INSUFFICIENT_BALANCE', 'Balance cannot go below zero');
+      }
+
+      await tx.loyaltyTransaction.create({
+        data: {
+          tenantId,
+          customerPhone: dto.customerPhone,
+          type: 'ADJUST',
+          points,
+          stamps,
+          note: dto.note,
+        },
+      });
+      return tx.customerProfile.update({
+        where: { id: current.id },
+        data: {
+          loyaltyPoints: { increment: points },
+          loyaltyStamps: { increment: stamps },
+        },
+      });
+    });
+
+    logger.info({ tenantId, points, stamps }, 'Loyalty balance adjusted');
+    return {
+      customerPhone: profile.customerPhone,
+      customerName: profile.customerName,
+      points: profile.loyaltyPoints,
+      stamps: profile.loyaltyStamps,
+      lastOrderAt: profile.lastOrderAt?.toISOString() || null,
+    };
+  }
+
+  // ==================== REDEMPTION ====================
+
+  /**
+   * Spendable balance: the ledger sum less what the customer's other open
+   * orders hold. Null when the tenant has no running program.
+   */
+  async getBalance(
+    tenantId: string,
+    customerPhone: string,
+    exceptOrderId?: string
+  ): Promise<LoyaltyBalance | null> {
+    const settings = await this.getSettings(tenantId);
+    if (!settings.isEnabled) return null;
+
+    const [profile, held] = await Promise.all([
+      prisma.customerProfile.findUnique({
+        where: { tenantId_customerPhone: { tenantId, customerPhone } },
+        select: { loyaltyPoints: true, loyaltyStamps: true },
+      }),
+      prisma.order.aggregate({
+        where: {
+          tenantId,
+          customerPhone,
+          status: { notIn: UNHELD_STATUSES },
+          ...(exceptOrderId && { id: { not: exceptOrderId } }),
+        },
+        _sum: { loyaltyPointsUsed: true, loyaltyStampsUsed: true },
+      }),
+    ]);
+
+    return {
+      settings,
+      points: Math.max(0, (profile?.loyaltyPoints ?? 0) - (held._sum.loyaltyPointsUsed ?? 0)),
+      stamps: Math.max(0, (profile?.loyaltyStamps ?? 0) - (held._sum.loyaltyStampsUsed ?? 0)),
+    };
+  }
+
+  /**
+   * Spend the customer's balance on a draft order: as many points as the
+   * basket takes, or one full stamp card for a free unit of the stamp item.
+   * totalPrice drops by the discount; loyaltyDiscount remembers how much.
+   */
+  async applyToOrder(
+    tenantId: string,
+    orderId: string,
+    customerPhone: string
+  ): Promise<LoyaltyRedemption> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      include: { items: true },
+    });
+    if (!order) {
+      throw new AppError(404, 'ORDER_NOT_FOUND', 'Order not found');
+    }
+
+    const balance = await this.getBalance(tenantId, customerPhone, orderId);
+    if (!balance) return { ok: false, reason: 'DISABLED' };
+    if (order.parentOrderId) return { ok: false, reason: 'NOT_ELIGIBLE' };
+
+    const { settings } = balance;
+    const payable = subtotalOf(order.items) - Number(order.couponDiscount);
+    let redemption: LoyaltyRedemption;
+    if (settings.type === 'POINTS') {
+      const points = Math.min(balance.points, Math.floor(payable / settings.pointValue));
+      redemption =
+        balance.points < settings.minRedeemPoints || points <= 0
+          ? { ok: false, reason: 'NOT_ENOUGH' }
+          : { ok: true, points, stamps: 0, discount: round(points * settings.pointValue) };
+    } else if (balance.stamps < settings.stampsRequired) {
+      redemption = { ok: false, reason: 'NOT_ENOUGH' };
+    } else {
+      const price = this.rewardItemPrice(settings, order.items);
+      redemption =
+        price == null
+          ? { ok: false, reason: 'ITEM_MISSING' }
+          : {
+              ok: true,
+              points: 0,
+              stamps: settings.stampsRequired,
+              discount: round(Math.min(price, payable)),
+            };
+    }
+    if (!redemption.ok) return redemption;
+
+    await prisma.order.update({
+      where: { id: orderId },
+      data: {
+        loyaltyPointsUsed: redemption.points,
+        loyaltyStampsUsed: redemption.stamps,
+        loyaltyDiscount: redemption.discount,
+        totalPrice: round(payable - redemption.discount),
+      },
+    });
+
+    logger.info(
+      { tenantId, orderId, points: redemption.points, stamps: redemption.stamps },
+      'Loyalty applied to order'
+    );
+    return redemption;
+  }
+
+  /**
+   * Work the loyalty discount out again after the draft's items changed and
+   * totalPrice was re-totalled from them. Points shrink to what the basket
+   * takes; a stamp reward whose item left the basket comes off the order.
+   */
+  async repriceOrder(tenantId: string, orderId: string): Promise<void> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      include: { items: true },
+    });
+    if (!order || (order.loyaltyPointsUsed === 0 && order.loyaltyStampsUsed === 0)) return;
+
+    const settings = await this.getSettings(tenantId);
+    const payable = subtotalOf(order.items) - Number(order.couponDiscount);
+    let points = 0;
+    let stamps = 0;
+    let discount = 0;
+    if (order.loyaltyPointsUsed > 0) {
+      points = Math.max(
+        0,
+        Math.min(order.loyaltyPointsUsed, Math.floor(payable / settings.pointValue))
+      );
+      discount = round(points * settings.pointValue);
+    } else {
+      const price = this.rewardItemPrice(settings, order.items);
+      if (price != null) {
+        stamps = order.loyaltyStampsUsed;
+        discount = round(Math.min(price, payable));
+      }
+    }
+
+    await prisma.order.update({
+      where: { id: orderId },
+      data: {
+        loyaltyPointsUsed: points,
+        loyaltyStampsUsed: stamps,
+        loyaltyDiscount: discount,
+        totalPrice: round(payable - discount),
+      },
+    });
+
+    if (points === 0 && stamps === 0) {
+      logger.info({ tenantId, orderId }, 'Loyalty reward dropped after basket change');
+    }
+  }
+
+  /**
+   * Check the order's loyalty spend once more right before payment: the
+   * program may have been switched off, or another order may have used the
+   * balance meanwhile. Returns the new total when the spend came off.
+   */
+  async revalidateOrder(
+    tenantId: string,
+    orderId: string,
+    customerPhone: string
+  ): Promise<{ totalPrice: number } | null> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      select: {
+        totalPrice: true,
+        loyaltyPointsUsed: true,
+        loyaltyStampsUsed: true,
+        loyaltyDiscount: true,
+      },
+    });
+    if (!order || (order.loyaltyPointsUsed === 0 && order.loyaltyStampsUsed === 0)) return null;
+
+    const balance = await this.getBalance(tenantId, customerPhone, orderId);
+    if (
+      balance &&
+      balance.points >= order.loyaltyPointsUsed &&
+      balance.stamps >= order.loyaltyStampsUsed
+    ) {
+      return null;
+    }
+
+    const totalPrice = round(Number(order.totalPrice) + Number(order.loyaltyDiscount));
+    await prisma.order.update({
+      where: { id: orderId },
+      data: { loyaltyPointsUsed: 0, loyaltyStampsUsed: 0, loyaltyDiscount: 0, totalPrice },
+    });
+
+    logger.info({ tenantId, orderId }, 'Loyalty spend removed before payment');
+    return { totalPrice };
+  }
+
+  // ==================== SETTLEMENT ====================
+
+  /**
+   * Book a delivered order on the customer's card: the held points or stamps
+   * are spent and the order's earnings added. Runs inside the DELIVERED
+   * status transition, so every way an order gets delivered is covered once.
+   */
+  async settleOrder(
+    tx: Prisma.TransactionClient,
+    tenantId: string,
+    order: SettleableOrder
+  ): Promise<void> {
+    if (!order.customerPhone) return;
+
+    const row = await tx.loyaltySettings.findUnique({ where: { tenantId } });
+    const settings = row ? this.mapSettings(row) : DEFAULT_SETTINGS;
+
+    const entries: { type: 'EARN' | 'REDEEM'; points: number; stamps: number }[] = [];
+    if (order.loyaltyPointsUsed > 0 || order.loyaltyStampsUsed > 0) {
+      entries.push({
+        type: 'REDEEM',
+        points: -order.loyaltyPointsUsed,
+        stamps: -order.loyaltyStampsUsed,
+      });
+    }
+    if (settings.isEnabled) {
+      const earned = this.calculateEarnings(settings, order);
+      if (earned.points > 0 || earned.stamps > 0) {
+        entries.push({ type: 'EARN', ...earned });
+      }
+    }
+    if (entries.length === 0) return;
+
+    for (const entry of entries) {
+      await tx.loyaltyTransaction.create({
+        data: { tenantId, customerPhone: order.customerPhone, orderId: order.id, ...entry },
+      });
+    }
+
+    const points = entries.reduce((sum, entry) => sum + entry.points, 0);
+    const stamps = entries.reduce((sum, entry) => sum + entry.stamps, 0);
+    await tx.customerProfile.upsert({
+      where: { tenantId_customerPhone: { tenantId, customerPhone: order.customerPhone } },
+      update: {
+        loyaltyPoints: { increment: points },
+        loyaltyStamps: { increment: stamps },
+      },
+      create: {
+        tenantId,
+        customerPhone: order.customerPhone,
+        customerName: order.customerName,
+        loyaltyPoints: Math.max(0, points),
+        loyaltyStamps: Math.max(0, stamps),
+      },
+    });
+  }
+
+  /** What a delivered order earned, for the message after delivery; null when it earned nothing */
+  async getEarning(tenantId: string, orderId: string): Promise<LoyaltyEarning | null> {
+    const earn = await prisma.loyaltyTransaction.findUnique({
+      where: { orderId_type: { orderId, type: 'EARN' } },
+    });
+    if (!earn || earn.tenantId !== tenantId) return null;
+
+    const [settings, profile] = await Promise.all([
+      this.getSettings(tenantId),
+      prisma.customerProfile.findUnique({
+        where: { tenantId_customerPhone: { tenantId, customerPhone: earn.customerPhone } },
+        select: { loyaltyPoints: true, loyaltyStamps: true },
+      }),
+    ]);
+
+    return {
+      settings,
+      earnedPoints: earn.points,
+      earnedStamps: earn.stamps,
+      points: profile?.loyaltyPoints ?? 0,
+      stamps: profile?.loyaltyStamps ?? 0,
+    };
+  }
+
+  // ==================== HELPERS ====================
+
+  /** Points on what was paid; a stamp per unit of the stamp item, except the free one */
+  private calculateEarnings(
+    settings: LoyaltySettingsDto,
+    order: SettleableOrder
+  ): { points: number; stamps: number } {
+    if (settings.type === 'POINTS') {
+      return { points: Math.floor(Number(order.totalPrice) * settings.pointsPerTl), stamps: 0 };
+    }
+
+    const name = normalizeName(settings.stampItemName);
+    const units = order.items
+      .filter((item) => normalizeName(item.menuItemName) === name)
+      .reduce((sum, item) => sum + item.qty, 0);
+    return { points: 0, stamps: Math.max(0, units - (order.loyaltyStampsUsed > 0 ? 1 : 0)) };
+  }
+
+  /** Unit price of the cheapest line of the stamp item, null when the basket has none */
+  private rewardItemPrice(settings: LoyaltySettingsDto, items: PricedItem[]): number | null {
+    const name = normalizeName(settings.stampItemName);
+    const prices = items
+      .filter((item) => normalizeName(item.menuItemName) === name)
+      .map((item) => Number(item.unitPrice));
+    return prices.length > 0 ? Math.min(...prices) : null;
+  }
+
+  private mapSettings(settings: LoyaltySettings): LoyaltySettingsDto {
+    return {
+      isEnabled: settings.isEnabled,
+      type: settings.type,
+      pointsPerTl: Number(settings.pointsPerTl),
+      pointValue: Number(settings.pointValue),
+      minRedeemPoints: settings.minRedeemPoints,
+      stampItemName: settings.stampItemName,
+      stampsRequired: settings.stampsRequired,
+    };
+  }
+}
+
+function normalizeName(name: string | null): string {
+  return (name ?? '').toLocaleLowerCase('tr').trim();
+}
+
+function subtotalOf(items: PricedItem[]): number {
+  return items.reduce((sum, item) => sum + Number(item.unitPrice) * item.qty, 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const loyaltyService = new LoyaltyService();
@@ -0,0 +1,345 @@
+import prisma from '../db/prisma';
+import { createLogger } from '../logger';
+import { menuService } from './menu.service';
+import { MessageCatalog } from './message-templates';
+import { translateMenuText } from './locales';
+import { CanonicalCategory, CanonicalMenuExport, WhatsAppWebhookPayload } from '@whatres/shared';
+
+const logger = createLogger();
+
+/** WhatsApp list messages allow 10 rows across all sections */
+const MAX_LIST_ROWS = 10;
+/** Rows per page once a list needs paging, leaving room for the prev/next rows */
+const PAGED_ROWS = 8;
+const MAX_ROW_TITLE = 24;
+const MAX_ROW_DESCRIPTION = 72;
+const MAX_BODY_TEXT = 1024;
+/** Meta multi-product messages: 30 products in at most 10 sections */
+const MAX_CATALOG_PRODUCTS = 30;
+const MAX_CATALOG_SECTIONS = 10;
+
+/** Row/button id prefix for every interactive menu reply */
+export const MENU_BROWSE_PREFIX = 'mb_';
+
+/**
+ * Parsed menu reply id. Ids carry the position (category index, page), so
+ * the flow needs no sub-state and an older list can still be tapped.
+ */
+export type MenuBrowseReply =
+  | { kind: 'categories'; page: number }
+  | { kind: 'category'; index: number; page: number }
+  | { kind: 'item'; menuItemId: string }
+  | { kind: 'add'; menuItemId: string }
+  | { kind: 'media' };
+
+export interface MenuBrowseList {
+  sectionTitle: string;
+  rows: Array<{ id: string; title: string; description?: string }>;
+}
+
+export interface MenuBrowseItemDetail {
+  menuItemId: string;
+  categoryIndex: number;
+  text: string;
+}
+
+type CatalogOrder = NonNullable<WhatsAppWebhookPayload['order']>;
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max - 1)}…` : text;
+}
+
+function formatPrice(price: number): string {
+  return `${price.toFixed(2)} TL`;
+}
+
+export class MenuBrowseService {
+  // ==================== REPLY IDS ====================
+
+  categoriesId(page = 0): string {
+    return `${MENU_BROWSE_PREFIX}cats:${page}`;
+  }
+
+  categoryId(index: number, page = 0): string {
+    return `${MENU_BROWSE_PREFIX}cat:${index}:${page}`;
+  }
+
+  itemId(menuItemId: string): string {
+    return `${MENU_BROWSE_PREFIX}item:${menuItemId}`;
+  }
+
+  addId(menuItemId: string): string {
+    return `${MENU_BROWSE_PREFIX}add:${menuItemId}`;
+  }
+
+  mediaId(): string {
+    return `${MENU_BROWSE_PREFIX}media`;
+  }
+
+  parseReplyId(id: string | undefined): MenuBrowseReply | null {
+    if (!id?.startsWith(MENU_BROWSE_PREFIX)) return null;
+    const [kind, ...args] = id.slice(MENU_BROWSE_PREFIX.length).split(':');
+    const toInt = (value: string | undefined) => Math.max(0, parseInt(value ?? '0', 10) || 0);
+
+    switch (kind) {
+      case 'cats':
+        return { kind: 'categories', page: toInt(args[0]) };
+      case 'cat':
+        return { kind: 'category', index: toInt(args[0]), page: toInt(args[1]) };
+      case 'item':
+        return args[0] ? { kind: 'item', menuItemId: args[0] } : null;
+      case 'add':
+        return args[0] ? { kind: 'add', menuItemId: args[0] } : null;
+      case 'media':
+        return { kind: 'media' };
+      default:
+        return null;
+    }
+  }
+
+  // ==================== LISTS ====================
+
+  /**
+   * One page of the category list, or null when the active menu has no
+   * orderable items. The optional media row links to uploaded menu images.
+   */
+  async getCategoryList(
+    tenantId: string,
+    t: MessageCatalog,
+    page: number,
+    includeMediaRow: boolean
+  ): Promise<MenuBrowseList | null> {
+    const menu = await menuService.getPublishedMenu(tenantId);
+    if (!menu) return null;
+
+    const entries = this.orderableCategories(menu).map(({ category, index }) => ({
+      id: this.categoryId(index),
+      title: truncate(category.name, MAX_ROW_TITLE),
+    }));
+    if (entries.length === 0) return null;
+    if (includeMediaRow) {
+      entries.push({ id: this.mediaId(), title: truncate(t.menuBrowseMediaRow, MAX_ROW_TITLE) });
+    }
+
+    return this.paginate(entries, page, t.menuBrowseButton, t, (p) => this.categoriesId(p));
+  }
+
+  /**
+   * One page of a category's items with current prices
+   */
+  async getItemList(
+    tenantId: string,
+    t: MessageCatalog,
+    language: string | null,
+    categoryIndex: number,
+    page: number
+  ): Promise<{ category: string; list: MenuBrowseList } | null> {
+    const menu = await menuService.getPublishedMenu(tenantId);
+    const category = menu?.categories[categoryIndex];
+    if (!category) return null;
+
+    const entries = category.items
+      .filter((item) => item.isActive)
+      .map((item) => {
+        const name = translateMenuText(item.translations, language, 'name', item.name);
+        const description = translateMenuText(
+          item.translations,
+          language,
+          'description',
+          item.description ?? ''
+        );
+        const price =
+          item.effectivePrice < item.basePrice
+            ? `🔥 ${formatPrice(item.effectivePrice)}`
+            : formatPrice(item.basePrice);
+        return {
+          id: this.itemId(item.id),
+          title: truncate(name, MAX_ROW_TITLE),
+          description: truncate(
+            description ? `${price} · ${description}` : price,
+            MAX_ROW_DESCRIPTION
+          ),
+        };
+      });
+    if (entries.length === 0) return null;
+
+    return {
+      category: category.name,
+      list: this.paginate(entries, page, category.name, t, (p) =>
+        this.categoryId(categoryIndex, p)
+      ),
+    };
+  }
+
+  /**
+   * Item card: name, description, price and its option groups
+   */
+  async getItemDetail(
+    tenantId: string,
+    t: MessageCatalog,
+    language: string | null,
+    menuItemId: string
+  ): Promise<MenuBrowseItemDetail | null> {
+    const menu = await menuService.getPublishedMenu(tenantId);
+    if (!menu) return null;
+
+    const categoryIndex = menu.categories.findIndex((c) =>
+      c.items.some((item) => item.id === menuItemId && item.isActive)
+    );
+    if (categoryIndex === -1) return null;
+    const item = menu.categories[categoryIndex].items.find((i) => i.id === menuItemId)!;
+
+    const links = await prisma.menuItemOptionGroup.findMany({
+      where: { itemId: menuItemId },
+      orderBy: { sortOrder: 'asc' },
+      include: {
+        group: {
+          include: { options: { where: { isActive: true }, orderBy: { sortOrder: 'asc' } } },
+        },
+      },
+    });
+
+    const lines = [`*${translateMenuText(item.translations, language, 'name', item.name)}*`];
+    const description = translateMenuText(
+      item.translations,
+      language,
+      'description',
+      item.description ?? ''
+    );
+    if (description) lines.push(description);
+    lines.push(
+      item.effectivePrice < item.basePrice
+        ? `💰 ~${formatPrice(item.basePrice)}~ *${formatPrice(item.effectivePrice)}*`
+        : `💰 ${formatPrice(item.basePrice)}`
+    );
+
+    const groups = links.map((link) => link.group).filter((group) => group.options.length > 0);
+    if (groups.length > 0) {
+      lines.push('', `${t.menuItemOptionsTitle}:`);
+      for (const group of groups) {
+        const options = group.options
+          .map((o) => {
+            const name = translateMenuText(o.translations, language, 'name', o.name);
+            const delta = Number(o.priceDelta);
+            return delta > 0 ? `${name} (+${formatPrice(delta)})` : name;
+          })
+          .join(', ');
+        const groupName = translateMenuText(group.translations, language, 'name', group.name);
+        const required = group.required ? ` (${t.menuItemRequired})` : '';
+        lines.push(`• ${groupName}${required}: ${options}`);
+      }
+    }
+
+    lines.push('', t.menuItemAddHint);
+    return { menuItemId, categoryIndex, text: truncate(lines.join('\n'), MAX_BODY_TEXT) };
+  }
+
+  // ==================== CATALOG ====================
+
+  /**
+   * Product list sections for a linked Meta catalog. Only items with a
+   * catalog retailer id are listed; an empty result means "use the lists".
+   */
+  async getCatalogSections(
+    tenantId: string
+  ): Promise<Array<{ title: string; productRetailerIds: string[] }>> {
+    const menu = await menuService.getPublishedMenu(tenantId);
+    if (!menu) return [];
+
+    const sections: Array<{ title: string; productRetailerIds: string[] }> = [];
+    let remaining = MAX_CATALOG_PRODUCTS;
+    for (const category of menu.categories) {
+      if (sections.length >= MAX_CATALOG_SECTIONS || remaining === 0) break;
+      const ids = category.items
+        .filter((item) => item.isActive && item.catalogRetailerId)
+        .map((item) => item.catalogRetailerId as string)
+        .slice(0, remaining);
+      if (ids.length === 0) continue;
+      sections.push({ title: truncate(category.name, MAX_ROW_TITLE), productRetailerIds: ids });
+      remaining -= ids.length;
+    }
+    return sections;
+  }
+
+  /**
+   * Map a catalog cart to menu items by retailer id (falling back to the
+   * menu item id). Unknown or inactive products are skipped and logged.
+   */
+  async resolveCatalogOrder(
+    tenantId: string,
+    order: CatalogOrder
+  ): Promise<Array<{ menuItemId: string; qty: number }>> {
+    const menu = await menuService.getPublishedMenu(tenantId);
+    if (!menu) return [];
+
+    const byRetailerId = new Map<string, string>();
+    for (const category of menu.categories) {
+      for (const item of category.items) {
+        if (!item.isActive) continue;
+        byRetailerId.set(item.id, item.id);
+        if (item.catalogRetailerId) byRetailerId.set(item.catalogRetailerId, item.id);
+      }
+    }
+
+    const quantities = new Map<string, number>();
+    const unmatched: string[] = [];
+    for (const product of order.productItems) {
+      const menuItemId = byRetailerId.get(product.productRetailerId);
+      if (!menuItemId) {
+        unmatched.push(product.productRetailerId);
+        continue;
+      }
+      quantities.set(menuItemId, (quantities.get(menuItemId) ?? 0) + Math.max(1, product.quantity));
+    }
+
+    if (unmatched.length > 0) {
+      logger.warn(
+        { tenantId, catalogId: order.catalogId, unmatched },
+        'Catalog products not found in the active menu'
+      );
+    }
+
+    return Array.from(quantities, ([menuItemId, qty]) => ({ menuItemId, qty }));
+  }
+
+  // ==================== PRIVATE ====================
+
+  /** Categories with at least one active item, keeping their menu index */
+  private orderableCategories(
+    menu: CanonicalMenuExport
+  ): Array<{ category: CanonicalCategory; index: number }> {
+    return menu.categories
+      .map((category, index) => ({ category, index }))
+      .filter(({ category }) => category.items.some((item) => item.isActive));
+  }
+
+  private paginate(
+    entries: MenuBrowseList['rows'],
+    page: number,
+    title: string,
+    t: MessageCatalog,
+    pageId: (page: number) => string
+  ): MenuBrowseList {
+    if (entries.length <= MAX_LIST_ROWS) {
+      return { sectionTitle: truncate(title, MAX_ROW_TITLE), rows: entries };
+    }
+
+    const pageCount = Math.ceil(entries.length / PAGED_ROWS);
+    const current = Math.min(page, pageCount - 1);
+    const rows = entries.slice(current * PAGED_ROWS, (current + 1) * PAGED_ROWS);
+    if (current > 0) {
+      rows.push({ id: pageId(current - 1), title: truncate(t.menuBrowsePrevRow, MAX_ROW_TITLE) });
+    }
+    if (current < pageCount - 1) {
+      rows.push({ id: pageId(current + 1), title: truncate(t.menuBrowseNextRow, MAX_ROW_TITLE) });
+    }
+
+    const suffix = ` ${current + 1}/${pageCount}`;
+    return {
+      sectionTitle: truncate(title, MAX_ROW_TITLE - suffix.length) + suffix,
+      rows,
+    };
+  }
+}
+
+export const menuBrowseService = new MenuBrowseService();
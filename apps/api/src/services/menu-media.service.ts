@@ -1,3 +1,4 @@
+/// <reference types="multer" />
 import path from 'path';
 import fs from 'fs/promises';
 import crypto from 'crypto';
@@ -1,5 +1,7 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../db/prisma';
 import { cacheService } from './cache.service';
+import { kitchenStationService } from './kitchen-station.service';
 import { embeddingService } from './nlu/embedding.service';
 import { AppError } from '../middleware/error-handler';
 import {
@@ -17,6 +19,7 @@ import {
   CreateMenuSynonymDto,
   UpdateMenuSynonymDto,
   CanonicalMenuExport,
+  MenuTranslations,
   CanonicalCategory,
   CanonicalOptionGroup,
   CanonicalSynonym,
@@ -225,6 +228,9 @@ export class MenuService {
     dto: CreateMenuItemDto
   ): Promise<MenuItemDto> {
     await this.verifyVersionEditable(tenantId, versionId);
+    if (dto.stationId) {
+      await kitchenStationService.verifyStation(tenantId, dto.stationId);
+    }
 
     const item = await prisma.menuItem.create({
       data: {
@@ -237,6 +243,9 @@ export class MenuService {
         isActive: dto.isActive ?? true,
         isReadyFood: dto.isReadyFood ?? false,
         sortOrder: dto.sortOrder ?? 0,
+        translations: this.toTranslationsJson(dto.translations),
+        catalogRetailerId: dto.catalogRetailerId || null,
+        stationId: dto.stationId || null,
         discountType: dto.discountType ?? null,
         discountValue: dto.discountValue ?? null,
         discountStartAt: dto.discountStartAt ? new Date(dto.discountStartAt) : null,
@@ -287,6 +296,10 @@ export class MenuService {
       throw new AppError(404, 'ITEM_NOT_FOUND', 'Menu item not found');
     }
 
+    if (dto.stationId) {
+      await kitchenStationService.verifyStation(tenantId, dto.stationId);
+    }
+
     // Update option groups if provided
     if (dto.optionGroupIds !== undefined) {
       await prisma.menuItemOptionGroup.deleteMany({
@@ -314,6 +327,11 @@ export class MenuService {
         isActive: dto.isActive,
         isReadyFood: dto.isReadyFood,
         sortOrder: dto.sortOrder,
+        translations: this.toTranslationsJson(dto.translations),
+        ...(dto.catalogRetailerId !== undefined && {
+          catalogRetailerId: dto.catalogRetailerId || null,
+        }),
+        ...(dto.stationId !== undefined && { stationId: dto.stationId || null }),
         ...(dto.discountType !== undefined && { discountType: dto.discountType }),
         ...(dto.discountValue !== undefined && { discountValue: dto.discountValue }),
         ...(dto.discountStartAt !== undefined && {
@@ -386,6 +404,7 @@ export class MenuService {
         minSelect: dto.minSelect ?? 0,
         maxSelect: dto.maxSelect,
         sortOrder: dto.sortOrder ?? 0,
+        translations: this.toTranslationsJson(dto.translations),
       },
       include: {
         options: true,
@@ -420,6 +439,7 @@ export class MenuService {
         minSelect: dto.minSelect,
         maxSelect: dto.maxSelect,
         sortOrder: dto.sortOrder,
+        translations: this.toTranslationsJson(dto.translations),
       },
       include: {
         options: true,
@@ -462,6 +482,7 @@ export class MenuService {
         isDefault: dto.isDefault ?? false,
         isActive: dto.isActive ?? true,
         sortOrder: dto.sortOrder ?? 0,
+        translations: this.toTranslationsJson(dto.translations),
       },
     });
 
@@ -492,6 +513,7 @@ export class MenuService {
         isDefault: dto.isDefault,
         isActive: dto.isActive,
         sortOrder: dto.sortOrder,
+        translations: this.toTranslationsJson(dto.translations),
       },
     });
 
@@ -718,6 +740,8 @@ export class MenuService {
         optionGroupIds: item.optionGroups.map((og) => og.groupId),
         discountType: item.discountType as string | null,
         discountValue: item.discountValue ? Number(item.discountValue) : null,
+        translations: (item.translations as MenuTranslations | null) ?? null,
+        catalogRetailerId: item.catalogRetailerId,
       });
     }
 
@@ -975,6 +999,9 @@ export class MenuService {
       isActive: item.isActive,
       isReadyFood: item.isReadyFood,
       sortOrder: item.sortOrder,
+      translations: (item.translations as MenuTranslations | null) ?? null,
+      catalogRetailerId: item.catalogRetailerId ?? null,
+      stationId: item.stationId ?? null,
       optionGroups: item.optionGroups?.map((og: any) => this.mapOptionGroupToDto(og.group)),
       discountType,
       discountValue,
@@ -1020,6 +1047,7 @@ export class MenuService {
       minSelect: group.minSelect,
       maxSelect: group.maxSelect,
       sortOrder: group.sortOrder,
+      translations: (group.translations as MenuTranslations | null) ?? null,
       options: group.options?.map((o: any) => this.mapOptionToDto(o)),
     };
   }
@@ -1035,8 +1063,17 @@ export class MenuService {
       isDefault: option.isDefault,
       isActive: option.isActive,
       sortOrder: option.sortOrder,
+      translations: (option.translations as MenuTranslations | null) ?? null,
     };
   }
+
+  /** undefined leaves translations untouched, null clears them */
+  private toTranslationsJson(
+    translations: MenuTranslations | null | undefined
+  ): Prisma.InputJsonValue | typeof Prisma.JsonNull | undefined {
+    if (translations === undefined) return undefined;
+    return translations === null ? Prisma.JsonNull : (translations as Prisma.InputJsonValue);
+  }
 }
 
 export const menuService = new MenuService();
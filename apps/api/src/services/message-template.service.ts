@@ -0,0 +1,356 @@
+import prisma from '../db/prisma';
+import { Prisma } from '@prisma/client';
+import { getConfig } from '@whatres/config';
+import {
+  MessageTemplateDto,
+  MessageTemplateMappingDto,
+  MessageTemplatePreviewDto,
+  MessageTemplateStatus,
+  MessageTemplateCategory,
+  MessageTemplateSyncResultDto,
+  TemplateEvent,
+  UpsertMessageTemplateMappingDto,
+} from '@whatres/shared';
+import { AppError } from '../middleware/error-handler';
+import { createLogger } from '../logger';
+import { whatsappConfigService } from './whatsapp-config.service';
+
+const logger = createLogger();
+
+const SYNC_PAGE_LIMIT = 100;
+const MAX_SYNC_PAGES = 20;
+
+/**
+ * Fields each event can put into a template's {{n}} placeholders.
+ * Callers pass these as the variables of whatsappService.sendNotification.
+ */
+export const TEMPLATE_EVENT_FIELDS: Record<TemplateEvent, string[]> = {
+  ORDER_CONFIRMED: ['orderNumber', 'customerName', 'storeName', 'totalPrice'],
+  ORDER_PREPARING: ['orderNumber', 'customerName', 'storeName'],
+  ORDER_READY: ['orderNumber', 'customerName', 'storeName'],
+  ORDER_DELIVERING: ['orderNumber', 'customerName', 'storeName', 'trackingUrl'],
+  ORDER_DELIVERED: ['orderNumber', 'customerName', 'storeName'],
+  ORDER_CANCELLED: ['orderNumber', 'customerName', 'storeName'],
+  SURVEY_REQUEST: ['orderNumber', 'customerName'],
+  CAMPAIGN_SEND: ['customerName', 'discountPct', 'message', 'couponCode'],
+};
+
+const TEMPLATE_EVENTS = Object.keys(TEMPLATE_EVENT_FIELDS) as TemplateEvent[];
+
+export type TemplateVariables = Record<string, string | number | null | undefined>;
+
+/** A mapped, approved template with its body parameters filled in */
+export interface ResolvedTemplate {
+  name: string;
+  language: string;
+  parameters: string[];
+  renderedText: string;
+}
+
+/** Template component as returned by GET /{wabaId}/message_templates */
+interface MetaTemplateComponent {
+  type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS';
+  format?: string;
+  text?: string;
+}
+
+interface MetaTemplate {
+  id: string;
+  name: string;
+  language: string;
+  status: string;
+  category: string;
+  rejected_reason?: string;
+  components?: MetaTemplateComponent[];
+}
+
+interface MetaTemplateListResponse {
+  data?: MetaTemplate[];
+  paging?: { next?: string };
+  error?: { message?: string };
+}
+
+type TemplateRecord = Prisma.MessageTemplateGetPayload<object>;
+
+export class MessageTemplateService {
+  // ==================== REGISTRY ====================
+
+  async listTemplates(tenantId: string): Promise<MessageTemplateDto[]> {
+    const templates = await prisma.messageTemplate.findMany({
+      where: { tenantId },
+      orderBy: [{ name: 'asc' }, { language: 'asc' }],
+    });
+    return templates.map((t) => this.mapToDto(t));
+  }
+
+  /**
+   * Pull the tenant's templates from their WABA and upsert them.
+   * Templates no longer returned by Meta are marked DISABLED rather than
+   * deleted so existing event mappings keep pointing at something visible.
+   */
+  async syncFromWaba(tenantId: string): Promise<MessageTemplateSyncResultDto> {
+    const waConfig = await whatsappConfigService.getDecryptedConfig(tenantId);
+    if (!waConfig?.wabaId || !waConfig.accessToken) {
+      throw new AppError(400, 'WHATSAPP_NOT_CONFIGURED', 'WhatsApp yapılandırması bulunamadı');
+    }
+
+    const remote = await this.fetchRemoteTemplates(waConfig.wabaId, waConfig.accessToken);
+    const now = new Date();
+    const result: MessageTemplateSyncResultDto = {
+      total: remote.length,
+      created: 0,
+      updated: 0,
+      disabled: 0,
+    };
+
+    const seenIds: string[] = [];
+    for (const tpl of remote) {
+      const component = (type: MetaTemplateComponent['type']) =>
+        tpl.components?.find((c) => c.type === type);
+      const header = component('HEADER');
+      const bodyText = component('BODY')?.text ?? '';
+      const data = {
+        externalId: tpl.id,
+        category: this.mapCategory(tpl.category),
+        status: this.mapStatus(tpl.status),
+        headerText: header?.format === 'TEXT' ? (header.text ?? null) : null,
+        bodyText,
+        footerText: component('FOOTER')?.text ?? null,
+        variableCount: this.countVariables(bodyText),
+        rejectedReason:
+          tpl.rejected_reason && tpl.rejected_reason !== 'NONE' ? tpl.rejected_reason : null,
+        lastSyncedAt: now,
+      };
+
+      const existing = await prisma.messageTemplate.findUnique({
+        where: { tenantId_name_language: { tenantId, name: tpl.name, language: tpl.language } },
+        select: { id: true },
+      });
+      const saved = await prisma.messageTemplate.upsert({
+        where: { tenantId_name_language: { tenantId, name: tpl.name, language: tpl.language } },
+        create: { tenantId, name: tpl.name, language: tpl.language, ...data },
+        update: data,
+      });
+      seenIds.push(saved.id);
+      if (existing) result.updated++;
+      else result.created++;
+    }
+
+    const disabled = await prisma.messageTemplate.updateMany({
+      where: { tenantId, id: { notIn: seenIds }, status: { not: 'DISABLED' } },
+      data: { status: 'DISABLED', lastSyncedAt: now },
+    });
+    result.disabled = disabled.count;
+
+    logger.info({ tenantId, ...result }, 'Message templates synced from WABA');
+    return result;
+  }
+
+  /**
+   * Render a template with example values for the panel preview.
+   * Missing values are left as {{n}} so gaps are visible.
+   */
+  async preview(
+    tenantId: string,
+    templateId: string,
+    values: string[]
+  ): Promise<MessageTemplatePreviewDto> {
+    const template = await this.getTemplate(tenantId, templateId);
+    return {
+      headerText: template.headerText,
+      bodyText: this.render(template.bodyText, values),
+      footerText: template.footerText,
+    };
+  }
+
+  // ==================== EVENT MAPPINGS ====================
+
+  async getMappings(tenantId: string): Promise<MessageTemplateMappingDto[]> {
+    const mappings = await prisma.messageTemplateMapping.findMany({
+      where: { tenantId },
+      include: { template: { select: { name: true, language: true } } },
+    });
+
+    return TEMPLATE_EVENTS.map((event) => {
+      const mapping = mappings.find((m) => m.event === event);
+      return {
+        event,
+        availableFields: TEMPLATE_EVENT_FIELDS[event],
+        templateId: mapping?.templateId ?? null,
+        templateName: mapping?.template.name ?? null,
+        templateLanguage: mapping?.template.language ?? null,
+        variableMap: (mapping?.variableMap as string[] | undefined) ?? [],
+        isActive: mapping?.isActive ?? false,
+      };
+    });
+  }
+
+  /**
+   * Map an event to a template. Every {{n}} in the template body must be
+   * filled by one of the event's fields.
+   */
+  async setMapping(
+    tenantId: string,
+    event: TemplateEvent,
+    dto: UpsertMessageTemplateMappingDto
+  ): Promise<MessageTemplateMappingDto> {
+    const template = await this.getTemplate(tenantId, dto.templateId);
+
+    if (dto.variableMap.length !== template.variableCount) {
+      throw new AppError(
+        400,
+        'VALIDATION_ERROR',
+        `Şablon ${template.variableCount} değişken bekliyor, ${dto.variableMap.length} eşlendi`
+      );
+    }
+    const unknown = dto.variableMap.filter((f) => !TEMPLATE_EVENT_FIELDS[event].includes(f));
+    if (unknown.length > 0) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Bu olay için geçersiz alan', { unknown });
+    }
+
+    await prisma.messageTemplateMapping.upsert({
+      where: { tenantId_event: { tenantId, event } },
+      create: {
+        tenantId,
+        event,
+        templateId: template.id,
+        variableMap: dto.variableMap,
+        isActive: dto.isActive ?? true,
+      },
+      update: {
+        templateId: template.id,
+        variableMap: dto.variableMap,
+        isActive: dto.isActive ?? true,
+      },
+    });
+
+    const mappings = await this.getMappings(tenantId);
+    return mappings.find((m) => m.event === event)!;
+  }
+
+  async deleteMapping(tenantId: string, event: TemplateEvent): Promise<void> {
+    await prisma.messageTemplateMapping.deleteMany({ where: { tenantId, event } });
+  }
+
+  /**
+   * Template to send for an event outside the session window, or null when
+   * the event has no active mapping to an APPROVED template.
+   */
+  async resolveForEvent(
+    tenantId: string,
+    event: TemplateEvent,
+    variables: TemplateVariables
+  ): Promise<ResolvedTemplate | null> {
+    const mapping = await prisma.messageTemplateMapping.findUnique({
+      where: { tenantId_event: { tenantId, event } },
+      include: { template: true },
+    });
+    if (!mapping?.isActive || mapping.template.status !== 'APPROVED') return null;
+
+    // Meta rejects empty parameters, so fall back to a dash
+    const parameters = ((mapping.variableMap as string[]) ?? []).map((field) => {
+      const value = variables[field];
+      return value === null || value === undefined || value === '' ? '-' : String(value);
+    });
+
+    return {
+      name: mapping.template.name,
+      language: mapping.template.language,
+      parameters,
+      renderedText: this.render(mapping.template.bodyText, parameters),
+    };
+  }
+
+  // ==================== HELPERS ====================
+
+  private async getTemplate(tenantId: string, templateId: string): Promise<TemplateRecord> {
+    const template = await prisma.messageTemplate.findFirst({
+      where: { id: templateId, tenantId },
+    });
+    if (!template) {
+      throw new AppError(404, 'TEMPLATE_NOT_FOUND', 'Şablon bulunamadı');
+    }
+    return template;
+  }
+
+  private async fetchRemoteTemplates(wabaId: string, accessToken: string): Promise<MetaTemplate[]> {
+    const fields = 'id,name,language,status,category,rejected_reason,components';
+    let url: string | undefined =
+      `${getConfig().whatsapp.apiBaseUrl}/${wabaId}/message_templates` +
+      `?fields=${fields}&limit=${SYNC_PAGE_LIMIT}`;
+    const templates: MetaTemplate[] = [];
+
+    for (let page = 0; url && page < MAX_SYNC_PAGES; page++) {
+      const response = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+      const body = (await response.json()) as MetaTemplateListResponse;
+      if (!response.ok) {
+        throw new AppError(
+          502,
+          'WHATSAPP_API_ERROR',
+          body.error?.message || 'Şablonlar Meta üzerinden alınamadı'
+        );
+      }
+      templates.push(...(body.data ?? []));
+      url = body.paging?.next;
+    }
+
+    return templates;
+  }
+
+  /** Highest {{n}} placeholder index in the text */
+  private countVariables(text: string): number {
+    let max = 0;
+    for (const match of text.matchAll(/\{\{(\d+)\}\}/g)) {
+      max = Math.max(max, Number(match[1]));
+    }
+    return max;
+  }
+
+  private render(text: string, values: string[]): string {
+    return text.replace(/\{\{(\d+)\}\}/g, (placeholder, index) => {
+      const value = values[Number(index) - 1];
+      return value !== undefined && value !== '' ? value : placeholder;
+    });
+  }
+
+  private mapStatus(status: string): MessageTemplateStatus {
+    switch (status) {
+      case 'APPROVED':
+        return 'APPROVED';
+      case 'REJECTED':
+        return 'REJECTED';
+      case 'PAUSED':
+        return 'PAUSED';
+      case 'DISABLED':
+      case 'DELETED':
+        return 'DISABLED';
+      default:
+        return 'PENDING';
+    }
+  }
+
+  private mapCategory(category: string): MessageTemplateCategory {
+    if (category === 'MARKETING' || category === 'AUTHENTICATION') return category;
+    return 'UTILITY';
+  }
+
+  private mapToDto(template: TemplateRecord): MessageTemplateDto {
+    return {
+      id: template.id,
+      externalId: template.externalId,
+      name: template.name,
+      language: template.language,
+      category: template.category,
+      status: template.status,
+      headerText: template.headerText,
+      bodyText: template.bodyText,
+      footerText: template.footerText,
+      variableCount: template.variableCount,
+      rejectedReason: template.rejectedReason,
+      lastSyncedAt: template.lastSyncedAt?.toISOString() ?? null,
+      updatedAt: template.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const messageTemplateService = new MessageTemplateService();
@@ -1,5 +1,7 @@
 /**
- * Centralized Turkish message templates for WhatsApp bot responses
+ * Centralized Turkish message templates for WhatsApp bot responses.
+ * Turkish is the reference catalog; translations live in ./locales and must
+ * implement the same keys (see MessageCatalog).
  */
 
 interface OrderSummaryItem {
@@ -11,13 +13,31 @@ interface OrderSummaryItem {
   notes?: string | null;
 }
 
+interface OrderSummaryCoupon {
+  code: string;
+  discount: number;
+}
+
+/** Loyalty spend on the order; points is 0 for a stamp-card reward */
+interface OrderSummaryLoyalty {
+  points: number;
+  discount: number;
+}
+
 export const TEMPLATES = {
   // ==================== GREETING ====================
   greeting:
     'Merhaba! Hosgeldiniz 🍽️\nSiparis vermek icin istediginiz urunleri yazabilirsiniz.\nMenumuzu gormek icin "menu" yazin.',
 
   // ==================== ORDER ====================
-  orderSummary(items: OrderSummaryItem[], total: number, deliveryFee?: number, orderNotes?: string | null): string {
+  orderSummary(
+    items: OrderSummaryItem[],
+    total: number,
+    deliveryFee?: number,
+    orderNotes?: string | null,
+    coupon?: OrderSummaryCoupon | null,
+    loyalty?: OrderSummaryLoyalty | null,
+  ): string {
     let msg = 'Siparisiniz:\n\n';
     items.forEach((i) => {
       let line = `  ${i.qty}x ${i.name}`;
@@ -35,9 +55,23 @@ export const TEMPLATES = {
       msg += line + '\n';
     });
     msg += `\nAra Toplam: ${total.toFixed(2)} TL`;
+    let grandTotal = total;
+    if (coupon) {
+      msg += `\nKupon (${coupon.code}): -${coupon.discount.toFixed(2)} TL`;
+      grandTotal -= coupon.discount;
+    }
+    if (loyalty) {
+      msg += loyalty.points > 0
+        ? `\nPuan (${loyalty.points} puan): -${loyalty.discount.toFixed(2)} TL`
+        : `\nDamga karti hediyesi: -${loyalty.discount.toFixed(2)} TL`;
+      grandTotal -= loyalty.discount;
+    }
     if (deliveryFee != null && deliveryFee > 0) {
       msg += `\nTeslimat Ucreti: ${deliveryFee.toFixed(2)} TL`;
-      msg += `\nGenel Toplam: ${(total + deliveryFee).toFixed(2)} TL`;
+      grandTotal += deliveryFee;
+    }
+    if (grandTotal !== total) {
+      msg += `\nGenel Toplam: ${grandTotal.toFixed(2)} TL`;
     }
     if (orderNotes) {
       msg += `\n\nNot: ${orderNotes}`;
@@ -122,6 +156,12 @@ export const TEMPLATES = {
     );
   },
 
+  deliveryEstimate(minutes: number): string {
+    return `⏱️ Tahmini teslimat suresi: ~${minutes} dakika`;
+  },
+
+  nearestStoreFallback: 'En yakin sube',
+
   locationMinBasketNotMet(minBasket: number, currentTotal: number): string {
     return (
       `⚠️ Minimum sepet tutari ${minBasket.toFixed(2)} TL.\n` +
@@ -237,6 +277,14 @@ export const TEMPLATES = {
     );
   },
 
+  orderOnTheWay(orderNumber: number, trackingUrl: string): string {
+    return (
+      `🛵 *Siparisiniz yolda!*\n\n` +
+      `📦 Siparis No: #${orderNumber}\n` +
+      `📍 Kuryenizi buradan takip edebilirsiniz:\n${trackingUrl}`
+    );
+  },
+
   orderDelivered(orderNumber: number): string {
     return (
       `✅ *Siparisiniz teslim edildi!*\n\n` +
@@ -316,6 +364,21 @@ export const TEMPLATES = {
     );
   },
 
+  orderAdjusted(orderNumber: number, changes: string, newTotal: number): string {
+    return (
+      `✏️ *Siparis #${orderNumber} guncellendi.*\n\n` +
+      `${changes}\n\n` +
+      `💰 Yeni toplam: *${newTotal.toFixed(2)} TL*`
+    );
+  },
+
+  partialRefundInitiated(orderNumber: number, amount: number): string {
+    return (
+      `💳 Siparis #${orderNumber} icin ${amount.toFixed(2)} TL iade baslatildi.\n` +
+      `Iadeniz 3-5 is gunu icerisinde kartiniza yansiyacaktir.`
+    );
+  },
+
   // ==================== SAVED ADDRESSES ====================
   savedAddressListHeader: 'Kayitli adresleriniz:',
   savedAddressListButton: 'Adres Sec',
@@ -371,6 +434,60 @@ export const TEMPLATES = {
   menuNotAvailable:
     'Menu henuz yuklenmemis. Siparis vermek icin urun adini yazabilirsiniz.',
 
+  // ==================== MENU BROWSE ====================
+  menuBrowseIntro:
+    '📋 Menumuzden bir kategori secin 👇\nDilerseniz urun adini yazarak da siparis verebilirsiniz.',
+
+  menuBrowseButton: 'Kategoriler',
+
+  menuBrowseMediaRow: '🖼 Menu gorselleri',
+
+  menuBrowsePrevRow: '◀ Onceki sayfa',
+
+  menuBrowseNextRow: 'Sonraki sayfa ▶',
+
+  menuBrowseItemsIntro(category: string): string {
+    return `*${category}* 👇\nDetaylari gormek ve sepete eklemek icin bir urun secin.`;
+  },
+
+  menuBrowseItemsButton: 'Urunler',
+
+  menuItemOptionsTitle: 'Secenekler',
+
+  menuItemRequired: 'zorunlu',
+
+  menuItemAddHint: 'Sepete eklemek icin asagidaki butonu kullanin.',
+
+  menuBrowseAddButton: '🛒 Sepete ekle',
+
+  menuBrowseBackButton: '◀ Geri',
+
+  catalogHeader: 'Menu',
+
+  catalogIntro: 'Urunleri sepete ekleyip gonderin, siparisinizi hemen hazirlayalim 🛒',
+
+  catalogOrderUnmatched:
+    'Sepetinizdeki urunleri menumuzde bulamadik. Urun adini yazarak siparis verebilirsiniz.',
+
+  // ==================== IMAGE ORDERS ====================
+  imageNotRead: 'Gorseldeki yaziyi okuyamadim. Siparis vermek icin urun adini yazin.',
+
+  imageNoItems:
+    'Gorselde menumuzdeki urunlerden birini bulamadim. Siparis vermek icin urun adini yazin.',
+
+  imageItemsConfirm(summary: string): string {
+    return `📷 Gorselde sunlari okudum:\n\n${summary}\n\nSiparisinize ekleyelim mi?`;
+  },
+
+  imageItemsButtons: {
+    buttons: [
+      { id: 'image_items_add', title: '✅ Ekle' },
+      { id: 'image_items_cancel', title: '❌ Vazgec' },
+    ],
+  },
+
+  imageItemsDiscarded: 'Tamam, hicbir sey eklemedim. Siparisinizi yazarak da verebilirsiniz.',
+
   // ==================== UPSELL ====================
   upsellButtons(price: number): { buttons: Array<{ id: string; title: string }> } {
     return {
@@ -440,4 +557,448 @@ export const TEMPLATES = {
   broadcastOptOutConfirmed:
     'Tamam, kampanya bildirimleri kapatildi. ' +
     'Istediginiz zaman "kampanya" yazarak tekrar acabilirsiniz.',
+
+  // ==================== CONVERSATION FLOW ====================
+  conversationReset:
+    '🔄 Konuşma sıfırlandı. Yeni sipariş vermek için menüden seçim yapabilirsiniz.\n\n📋 *Menü* görmek için "menü" yazın.',
+
+  genericError: 'Bir hata olustu. Lutfen tekrar deneyin.',
+
+  voiceNotProcessed: 'Sesli mesajinizi isleyemedim. Siparis vermek icin urun adini yazin.',
+
+  voiceTranscriptUnsure(transcript: string): string {
+    return `🎤 Sesli mesajinizi soyle anladim: "${transcript}"\nYanlis anladiysam yazarak duzeltebilirsiniz.`;
+  },
+
+  imageNotSupported: 'Gorsel mesaj isleyemiyorum. Siparis vermek icin urun adini yazin.',
+
+  locationBeforeOrder: 'Once siparis verin, sonra konum isteyecegiz. Siparis icin urun adini yazin.',
+
+  locationBeforeConfirm: 'Once siparisi onaylayin, sonra konum isteyecegiz.',
+
+  broadcastOptOutFallback: 'Kampanya bildirimleri kapatildi.',
+
+  idleHelp:
+    '🤖 Size nasıl yardımcı olabilirim?\n\n' +
+    '• Sipariş vermek için ürün adını yazın\n' +
+    '• Menüyü görmek için "menü" yazın\n' +
+    '• Çalışma saatlerini öğrenmek için "saat kaçta açılıyorsunuz" yazın\n' +
+    '• Önceki siparişinizi tekrar vermek için "tekrar" yazın',
+
+  optionSelectionNotUnderstood:
+    'Seçiminizi anlayamadım. Lütfen listeden bir seçenek seçin veya iptal etmek için "iptal" yazın.',
+
+  optionSelectionPrompt(itemName: string, stepNumber: number, groupName: string): string {
+    return `${itemName}\n${stepNumber}. ${groupName} seçiminiz:`;
+  },
+
+  optionSelectionButton: 'Seçenekler',
+
+  itemAddedSummary(summary: string): string {
+    return `Eklendi! Guncel siparisiniz:\n\n${summary}`;
+  },
+
+  additionNoteSaved: 'Tamam, ekleme kaydedildi! Baska bir istegininiz olursa yazabilirsiniz.',
+
+  additionCancelled: 'Ekleme iptal edildi. Baska bir istegininiz var mi?',
+
+  askItemToRemove: 'Hangi urunu siparisinizden cikaralim? Lutfen urun adini belirtin.',
+
+  editOrderPrompt: 'Siparisinizi degistirmek icin yeni urun yazin veya "iptal" yazin.',
+
+  addMoreOrConfirm: 'Baska urun eklemek icin yazin veya "evet" ile onaylayin.',
+
+  itemUnavailable: 'Bu urun su anda musait degil. Baska bir urun denemek ister misiniz?',
+
+  upsellAdded(itemName: string): string {
+    return `✅ ${itemName} sepete eklendi!`;
+  },
+
+  chooseButton: 'Lutfen butonlardan birini secin.',
+
+  textMessageRequired: 'Lutfen yazili mesaj gonderin.',
+
+  surveyRatingRetry: 'Lutfen 1-5 arasi bir puan verin veya butonlardan secim yapin.',
+
+  cancelNotAllowedPreparing:
+    '⚠️ Siparisiniz hazirlaniyor. Bu asamada iptal yapilamaz.\nYardim icin *"destek"* yazabilirsiniz.',
+
+  minBasketNote(minBasket: number, currentTotal: number): string {
+    return `Not: Minimum siparis tutari ${minBasket.toFixed(2)} TL. Mevcut sepetiniz: ${currentTotal.toFixed(2)} TL`;
+  },
+
+  // ==================== COUPONS ====================
+  couponApplied(code: string, discount: number): string {
+    return `🎟️ *${code}* kuponu uygulandi: -${discount.toFixed(2)} TL`;
+  },
+
+  couponNotFound(code: string): string {
+    return `*${code}* gecerli bir kupon kodu degil. Kodu kontrol edip tekrar yazabilirsiniz.`;
+  },
+
+  couponUnavailable(code: string): string {
+    return `*${code}* kuponu su an kullanilamiyor (suresi veya kullanim limiti dolmus olabilir).`;
+  },
+
+  couponAlreadyUsed(code: string): string {
+    return `*${code}* kuponunu daha once kullandiniz.`;
+  },
+
+  couponNotEligible(code: string): string {
+    return `*${code}* kuponu bu siparis icin gecerli degil.`;
+  },
+
+  couponMinBasket(code: string, minBasket: number, currentTotal: number): string {
+    return `*${code}* kuponu icin sepetiniz en az ${minBasket.toFixed(2)} TL olmali. Mevcut sepetiniz: ${currentTotal.toFixed(2)} TL`;
+  },
+
+  couponFreeItemMissing(code: string, itemName: string): string {
+    return `*${code}* kuponu icin sepetinizde ${itemName} olmali. Ekledikten sonra kodu tekrar yazin.`;
+  },
+
+  couponRemoved(code: string, newTotal: number): string {
+    return `⚠️ *${code}* kuponu artik bu siparise uygulanamiyor ve kaldirildi. Yeni toplam: ${newTotal.toFixed(2)} TL`;
+  },
+
+  // ==================== LOYALTY ====================
+  loyaltyNotAvailable: 'Su an aktif bir sadakat programimiz bulunmuyor.',
+
+  loyaltyNotEligible: 'Ek siparislerde puan kullanilamiyor.',
+
+  loyaltyPointsBalance(points: number, value: number, minPoints: number): string {
+    const hint =
+      points >= minPoints
+        ? 'Siparis ozetinde *puan kullan* yazarak indirim olarak kullanabilirsiniz.'
+        : `Puanlarinizi kullanmak icin en az ${minPoints} puan gerekiyor.`;
+    return `⭐ *${points}* puaniniz var (${value.toFixed(2)} TL).\n${hint}`;
+  },
+
+  loyaltyStampsBalance(stamps: number, required: number, itemName: string): string {
+    const hint =
+      stamps >= required
+        ? `Siradaki ${itemName} bizden! Siparis ozetinde *puan kullan* yazin.`
+        : `${required - stamps} ${itemName} daha, sonraki bizden!`;
+    return `🎫 Damga kartiniz: *${stamps}/${required}* ${itemName}\n${hint}`;
+  },
+
+  loyaltyPointsApplied(points: number, discount: number): string {
+    return `⭐ ${points} puan kullanildi: -${discount.toFixed(2)} TL`;
+  },
+
+  loyaltyStampApplied(itemName: string, discount: number): string {
+    return `🎫 Damga kartiniz doldu, bir ${itemName} bizden: -${discount.toFixed(2)} TL`;
+  },
+
+  loyaltyPointsNotEnough(points: number, minPoints: number): string {
+    return `Puanlarinizi kullanmak icin en az ${minPoints} puan gerekiyor. Mevcut puaniniz: ${points}`;
+  },
+
+  loyaltyStampsNotEnough(stamps: number, required: number, itemName: string): string {
+    return `Hediye ${itemName} icin ${required} damga gerekiyor. Damga kartiniz: ${stamps}/${required}`;
+  },
+
+  loyaltyStampItemMissing(itemName: string): string {
+    return `Hediyenizi kullanmak icin sepetinizde ${itemName} olmali. Ekledikten sonra tekrar *puan kullan* yazin.`;
+  },
+
+  loyaltyRemoved(newTotal: number): string {
+    return `⚠️ Puan indirimi artik bu siparise uygulanamiyor ve kaldirildi. Yeni toplam: ${newTotal.toFixed(2)} TL`;
+  },
+
+  loyaltyPointsEarned(earned: number, points: number): string {
+    return `⭐ Bu siparisten *${earned}* puan kazandiniz! Toplam puaniniz: ${points}`;
+  },
+
+  loyaltyStampsEarned(earned: number, stamps: number, required: number, itemName: string): string {
+    const reward = stamps >= required ? `\nSiradaki ${itemName} bizden!` : '';
+    return `🎫 Bu siparisten *${earned}* damga kazandiniz! Damga kartiniz: ${stamps}/${required}${reward}`;
+  },
+
+  // ==================== SMART FALLBACK ====================
+  fallbackGreetingWithOrder:
+    'Merhaba! Siparisininize devam edebilirsiniz. Urun eklemek icin urun adini yazin veya onay butonuna basin.',
+
+  fallbackGreeting: 'Merhaba! Siparis vermek icin urun adini yazabilirsiniz.',
+
+  fallbackThanksWithOrder: 'Rica ederim! Baska urun ekleyebilir veya onay butonuna basabilirsiniz.',
+
+  fallbackThanks: 'Rica ederim! Siparis vermek isterseniz urun adini yazabilirsiniz.',
+
+  fallbackHelp:
+    'Siparis vermek icin:\n' +
+    '1. Urun adini yazin (orn: "1 Et Doner", "2 Kola")\n' +
+    '2. Birden fazla urun ekleyebilirsiniz\n' +
+    '3. Hazir olunca onay butonuna basin\n' +
+    '4. Menuyu gormek icin "menu" yazin',
+
+  fallbackWithOrder:
+    'Anlayamadim. Urun eklemek icin urun adini yazin (orn: "1 Kola") veya onay butonuna basin.',
+
+  fallbackNoOrder:
+    'Anlayamadim, eklemek istediginiz urunu biraz daha acik yazar misiniz? Ornegin: "1 Kola", "Tavuk Doner" gibi.',
+
+  // ==================== WORKING HOURS / BUSY ====================
+  dayNames: {
+    mon: 'Pazartesi',
+    tue: 'Sali',
+    wed: 'Carsamba',
+    thu: 'Persembe',
+    fri: 'Cuma',
+    sat: 'Cumartesi',
+    sun: 'Pazar',
+  } as Record<string, string>,
+
+  dayClosedLabel: 'Kapali',
+
+  dayAllDayLabel: '24 Saat Acik',
+
+  nextOpening(dayName: string, openTime: string | null): string {
+    return openTime
+      ? `Bir sonraki acilis: ${dayName} ${openTime}`
+      : `Bir sonraki acilis: ${dayName} (24 saat acik)`;
+  },
+
+  closedToday(nextOpening: string, hours: string): string {
+    return `⏰ Bugun kapali gunumuz. ${nextOpening}\n\nCalisma saatlerimiz:\n${hours}`;
+  },
+
+  closedNow(open: string, close: string, hours: string): string {
+    return `⏰ Su an siparis alamiyoruz. Bugunun calisma saati: ${open} - ${close}\n\nCalisma saatlerimiz:\n${hours}`;
+  },
+
+  workingHoursList(hours: string): string {
+    return `🕐 Çalışma saatlerimiz:\n\n${hours}\n\nSipariş vermek için ürün adını yazabilirsiniz.`;
+  },
+
+  workingHoursNotSet:
+    '🕐 Çalışma saatlerimiz henüz ayarlanmamış. Sipariş vermek için ürün adını yazabilirsiniz.',
+
+  busyNotice(estimateMinutes: number | null, customMessage: string): string {
+    const estimate = estimateMinutes ? `Tahmini teslimat suresi: ~${estimateMinutes} dakika.` : '';
+    return `⚠️ Su an yogun bir donemimiz var. ${estimate} ${customMessage}\n\nSiparis vermeye devam edebilirsiniz.`.trim();
+  },
+
+  ordersPaused(time: string): string {
+    return `⏸️ Yoğunluk nedeniyle şu an yeni sipariş alamıyoruz. Saat ${time} itibarıyla tekrar sipariş alabiliriz.`;
+  },
+
+  prepEstimate(minutes: number): string {
+    return `⏱️ Siparişiniz yaklaşık ${minutes} dakika içinde hazır olacak.`;
+  },
+
+  // ==================== PRE-ORDERS ====================
+  preOrderHint:
+    '🕒 İleri bir saat için ön sipariş verebilirsiniz. Siparişinizle birlikte saati yazın, örneğin "yarın 12:30".',
+
+  preOrderTimeAsk:
+    '⏰ Şu an kapalıyız ama ön sipariş alıyoruz. Siparişinizi hangi saat için hazırlayalım? Örneğin "yarın 12:30" yazabilirsiniz.',
+
+  preOrderScheduled(when: string): string {
+    return `🕒 Siparişiniz ${when} için planlandı.`;
+  },
+
+  preOrderItemsFirst(when: string): string {
+    return `🕒 ${when} için sipariş alabiliriz. Lütfen ürünlerinizi saatle birlikte yazın, örneğin "yarın 12:30 2 lahmacun".`;
+  },
+
+  preOrderTooSoon(minutes: number): string {
+    return `⏰ Ön siparişler en az ${minutes} dakika sonrası için verilebilir.`;
+  },
+
+  preOrderTooFar(days: number): string {
+    return `⏰ En fazla ${days} gün sonrası için sipariş alabiliyoruz.`;
+  },
+
+  preOrderClosedSlot: '⏰ Bu saatte kapalıyız.',
+
+  preOrderSlotFull: '⏰ Bu saat için sipariş kapasitemiz doldu.',
+
+  preOrderSuggestions(slots: string): string {
+    return `Uygun saatler: ${slots}`;
+  },
+
+  preOrderNoSlots: 'Şu an için uygun bir saat bulunmuyor.',
+
+  // ==================== DELIVERY TYPE ====================
+  deliveryTypeAsk: 'Siparişinizi nasıl almak istersiniz?',
+
+  deliveryTypeRetry: 'Lutfen "Gel Al" veya "Paket Servis" seceneklerinden birini secin:',
+
+  deliveryTypeButtons: {
+    buttons: [
+      { id: 'delivery_type_pickup', title: 'Gel Al' },
+      { id: 'delivery_type_delivery', title: 'Paket Servis' },
+    ],
+  },
+
+  pickupSelected: 'Gel al secildi!',
+
+  pickupDiscountApplied(percent: number, discountAmount: number, newTotal: number): string {
+    return (
+      `Gel al secildi! %${percent} indirim uygulandı (${discountAmount.toFixed(2)} TL indirim). ` +
+      `Yeni toplam: ${newTotal.toFixed(2)} TL`
+    );
+  },
+
+  locationImageInsteadOfPin:
+    'Gorsel degil, konum pininizi gonderin. WhatsApp\'ta ek ikonundan "Konum" secenegini kullanin.',
+
+  typedAddressNotAccepted:
+    'Yazili adres kabul edemiyoruz, hizmet alanimizi kontrol etmemiz icin konum pininize ihtiyacimiz var.\n\n' +
+    'Farkli bir konumdan gondermek icin:\n' +
+    '📎 simgesine tiklayip > *Konum* secenegini kullanin.\n\n' +
+    'Siparisi iptal etmek icin "iptal" yazin.',
+
+  addressTextRequired: 'Lutfen teslimat adresinizi metin olarak yazin.',
+
+  savedAddressSectionTitle: 'Adresler',
+
+  askCustomAddressName: 'Adres icin bir isim yazin (ornek: _Annemin Evi_, _Ofis_):',
+
+  askAddressNameRetry: 'Lutfen adres icin bir isim yazin:',
+
+  // ==================== PAYMENT (FLOW) ====================
+  pickupPaymentMethodButtons: {
+    body: 'Odeme yontemini secin:',
+    buttons: [
+      { id: 'pay_cash', title: 'Nakit (kasada)' },
+      { id: 'pay_card_door', title: 'Kart (kasada)' },
+      { id: 'pay_card_online', title: 'Online Kredi Karti' },
+    ],
+  },
+
+  orderReceived(orderNumber: number, method: 'CASH' | 'CARD', isPickup: boolean): string {
+    const payment =
+      method === 'CASH'
+        ? `💵 Odeme: ${isPickup ? 'Kasada nakit' : 'Kapida nakit'}`
+        : `💳 Odeme: ${isPickup ? 'Kasada kredi karti' : 'Kapida kredi karti'}`;
+    return (
+      `✅ *Siparisiniz alindi!*\n\n` +
+      `📦 Siparis No: #${orderNumber}\n` +
+      `${payment}\n` +
+      `⏳ Restoran onayiniz bekleniyor...`
+    );
+  },
+
+  paymentLinkError(reason: string): string {
+    return `Odeme linki olusturulamadi: ${reason}\nNakit odemek icin "nakit" yazin.`;
+  },
+
+  paymentLinkFailed: 'Odeme linki olusturulamadi. Nakit odemek icin "nakit" yazin.',
+
+  paymentLinkExpired: 'Odeme linkinin suresi doldu. Lutfen odeme yontemini tekrar secin.',
+
+  paymentChangeCancelled: 'Online odeme iptal edildi. Mevcut odeme yonteminiz gecerlidir. ✅',
+
+  paymentChangeFailed:
+    'Online odeme basarisiz oldu. Mevcut odeme yonteminiz gecerli olmaya devam edecektir.',
+
+  paymentChangeLinkFailed:
+    'Online odeme linki olusturulamadi. Mevcut odeme yonteminiz gecerli olmaya devam edecektir.',
+
+  paymentChangeAlreadyOnline: 'Siparisiniz zaten online odeme ile onaylandi. ✅',
+};
+
+export type MessageCatalog = typeof TEMPLATES;
+
+type TemplateKey = keyof MessageCatalog;
+
+/** Keys whose template is plain text */
+export type TextTemplateKey = {
+  [K in TemplateKey]: MessageCatalog[K] extends string ? K : never;
+}[TemplateKey];
+
+/** Keys whose template is a function returning text */
+export type FunctionTemplateKey = {
+  [K in TemplateKey]: MessageCatalog[K] extends (...args: never[]) => string ? K : never;
+}[TemplateKey];
+
+/** Keys a tenant may override (button payloads and lookup tables are not copy) */
+export type OverridableTemplateKey = TextTemplateKey | FunctionTemplateKey;
+
+type ParamNames<F> = F extends (...args: infer P) => string ? { [I in keyof P]-?: string | null } : never;
+
+/**
+ * Placeholder name for each argument of a function template, in signature
+ * order. The tuple type keeps this in step with the function's arity; null
+ * marks arguments that are not plain values (lists, flags) and so cannot be
+ * used as {placeholders}. Minified builds drop parameter names, hence the
+ * explicit list.
+ */
+export const TEMPLATE_PARAMS: { [K in FunctionTemplateKey]: ParamNames<MessageCatalog[K]> } = {
+  orderSummary: [null, 'total', 'deliveryFee', 'orderNotes', null, null],
+  orderItemAdded: ['itemName', 'qty'],
+  seamlessAdditionConfirmed: ['orderNumber', 'addedItems', 'additionTotal', 'newTotal'],
+  seamlessAdditionPaymentNeeded: ['orderNumber', 'addedItems', 'additionTotal', 'paymentUrl', 'newTotal'],
+  paymentChangeLinkSent: ['orderNumber', 'total', 'url'],
+  paymentChangeSuccess: ['orderNumber'],
+  locationOutOfService: ['message'],
+  locationConfirmed: ['storeName', 'deliveryFee', 'distance'],
+  deliveryEstimate: ['minutes'],
+  locationMinBasketNotMet: ['minBasket', 'currentTotal'],
+  addressConfirmation: ['address'],
+  paymentLinkSent: ['url'],
+  paymentSuccess: ['orderNumber'],
+  cashConfirmed: ['orderNumber'],
+  reminderPayment: ['url'],
+  pendingConfirmation: ['orderNumber'],
+  restaurantApproved: ['orderNumber'],
+  orderPreparing: ['orderNumber'],
+  orderReady: ['orderNumber'],
+  orderOnTheWay: ['orderNumber', 'trackingUrl'],
+  orderDelivered: ['orderNumber'],
+  orderCancelledNotification: ['orderNumber'],
+  additionPrompt: ['orderNumber'],
+  additionStarted: ['parentOrderNumber'],
+  additionNotAllowed: ['orderNumber'],
+  additionReadyFoodOnly: ['nonReadyItemNames'],
+  additionApproved: ['orderNumber'],
+  additionRejected: ['orderNumber', 'reason'],
+  orderRejected: ['orderNumber', 'reason'],
+  refundInitiated: ['orderNumber'],
+  orderAdjusted: ['orderNumber', 'changes', 'newTotal'],
+  partialRefundInitiated: ['orderNumber', 'amount'],
+  addressSaved: ['name'],
+  surveyAsk: ['orderNumber'],
+  menuBrowseItemsIntro: ['category'],
+  imageItemsConfirm: ['summary'],
+  voiceTranscriptUnsure: ['transcript'],
+  favoritesListHeader: ['count'],
+  optionSelectionPrompt: ['itemName', 'stepNumber', 'groupName'],
+  itemAddedSummary: ['summary'],
+  upsellAdded: ['itemName'],
+  minBasketNote: ['minBasket', 'currentTotal'],
+  couponApplied: ['code', 'discount'],
+  couponNotFound: ['code'],
+  couponUnavailable: ['code'],
+  couponAlreadyUsed: ['code'],
+  couponNotEligible: ['code'],
+  couponMinBasket: ['code', 'minBasket', 'currentTotal'],
+  couponFreeItemMissing: ['code', 'itemName'],
+  couponRemoved: ['code', 'newTotal'],
+  loyaltyPointsBalance: ['points', 'value', 'minPoints'],
+  loyaltyStampsBalance: ['stamps', 'required', 'itemName'],
+  loyaltyPointsApplied: ['points', 'discount'],
+  loyaltyStampApplied: ['itemName', 'discount'],
+  loyaltyPointsNotEnough: ['points', 'minPoints'],
+  loyaltyStampsNotEnough: ['stamps', 'required', 'itemName'],
+  loyaltyStampItemMissing: ['itemName'],
+  loyaltyRemoved: ['newTotal'],
+  loyaltyPointsEarned: ['earned', 'points'],
+  loyaltyStampsEarned: ['earned', 'stamps', 'required', 'itemName'],
+  nextOpening: ['dayName', 'openTime'],
+  closedToday: ['nextOpening', 'hours'],
+  closedNow: ['open', 'close', 'hours'],
+  workingHoursList: ['hours'],
+  busyNotice: ['estimateMinutes', 'customMessage'],
+  ordersPaused: ['time'],
+  prepEstimate: ['minutes'],
+  preOrderScheduled: ['when'],
+  preOrderItemsFirst: ['when'],
+  preOrderTooSoon: ['minutes'],
+  preOrderTooFar: ['days'],
+  preOrderSuggestions: ['slots'],
+  pickupDiscountApplied: ['percent', 'discountAmount', 'newTotal'],
+  orderReceived: ['orderNumber', null, null],
+  paymentLinkError: ['reason'],
 };
@@ -353,6 +353,8 @@ export class LlmOrderExtractorService {
     }>,
     totalPrice: number,
     orderNotes?: string | null,
+    coupon?: { code: string; discount: number } | null,
+    loyalty?: { points: number; discount: number } | null,
   ): string {
     const itemLines = items
       .map((item) => {
@@ -369,6 +371,20 @@ export class LlmOrderExtractorService {
       .join('\n');
 
     let msg = `Siparisiniz:\n\n${itemLines}\n\nAra Toplam: ${totalPrice.toFixed(2)} TL`;
+    let grandTotal = totalPrice;
+    if (coupon) {
+      msg += `\nKupon (${coupon.code}): -${coupon.discount.toFixed(2)} TL`;
+      grandTotal -= coupon.discount;
+    }
+    if (loyalty) {
+      msg += loyalty.points > 0
+        ? `\nPuan (${loyalty.points} puan): -${loyalty.discount.toFixed(2)} TL`
+        : `\nDamga karti hediyesi: -${loyalty.discount.toFixed(2)} TL`;
+      grandTotal -= loyalty.discount;
+    }
+    if (grandTotal !== totalPrice) {
+      msg += `\nGenel Toplam: ${grandTotal.toFixed(2)} TL`;
+    }
     if (orderNotes) {
       msg += `\n\nNot: ${orderNotes}`;
     }
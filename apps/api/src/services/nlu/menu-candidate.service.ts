@@ -1,7 +1,12 @@
 import * as stringSimilarity from 'string-similarity';
 import prisma from '../../db/prisma';
 import { cacheService } from '../cache.service';
-import { MenuCandidateDto, CanonicalMenuExport, CanonicalCategory } from '@whatres/shared';
+import {
+  MenuCandidateDto,
+  CanonicalMenuExport,
+  CanonicalCategory,
+  MenuTranslations,
+} from '@whatres/shared';
 import { createLogger } from '../../logger';
 import { turkishNlpService } from './turkish-nlp.service';
 import { embeddingService } from './embedding.service';
@@ -442,6 +447,8 @@ export class MenuCandidateService {
         isActive: item.isActive,
         isReadyFood: item.isReadyFood,
         optionGroupIds: item.optionGroups.map((og) => og.groupId),
+        translations: (item.translations as MenuTranslations | null) ?? null,
+        catalogRetailerId: item.catalogRetailerId,
       });
     }
 
@@ -14,6 +14,8 @@ import {
 import { modelRouterService, RouteDecision } from '../ai/model-router.service';
 import { claudeClientService } from '../ai/claude-client.service';
 import { trainingCaptureService } from '../ai/training-capture.service';
+import { couponService } from '../coupon.service';
+import { loyaltyService } from '../loyalty.service';
 import { createLogger } from '../../logger';
 import {
   OrderIntentDto,
@@ -68,6 +70,14 @@ export interface OptionSelectionRequest {
   options: Array<{ id: string; name: string; priceDelta: number }>;
 }
 
+/** An item to put into the draft order without going through the LLM */
+export interface DraftItemSelection {
+  menuItemId: string;
+  qty: number;
+  optionSelections?: Array<{ groupName: string; optionName: string }>;
+  notes?: string | null;
+}
+
 export interface OrchestrationResult {
   success: boolean;
   draftOrderId?: string;
@@ -79,6 +89,10 @@ export interface OrchestrationResult {
   orderIntent?: OrderIntentDto;
   confirmationMessage?: string;
   needsAgentHandoff?: boolean;
+  /** Message language from intent analysis (only when the AI router ran) */
+  language?: string | null;
+  /** Recognized items when called with previewOnly; nothing was added yet */
+  previewItems?: Array<DraftItemSelection & { name: string }>;
   error?: string;
 }
 
@@ -86,12 +100,16 @@ export class NluOrchestratorService {
   /**
    * Process incoming text message and extract order intent.
    * Does NOT send messages - returns data for the flow service to act on.
+   * With previewOnly the recognized items are returned as previewItems and
+   * the draft order is left untouched (text read from an image is echoed
+   * back for confirmation first).
    */
   async processMessage(
     tenantId: string,
     conversationId: string,
     messageId: string,
-    userText: string
+    userText: string,
+    options: { previewOnly?: boolean } = {}
   ): Promise<OrchestrationResult> {
     const startTime = Date.now();
 
@@ -197,7 +215,7 @@ export class NluOrchestratorService {
           { tenantId, conversationId },
           'No menu candidates found, skipping extraction'
         );
-        return { success: true, itemsExtracted: false };
+        return { success: true, itemsExtracted: false, language: intentAnalysis?.language ?? null };
       }
 
       // 2. Get option groups for candidates
@@ -260,6 +278,29 @@ export class NluOrchestratorService {
         candidates.map((c) => c.menuItemId)
       );
 
+      // 6a. Preview: report what was recognized, change nothing
+      if (options.previewOnly) {
+        const previewItems = extraction.items.flatMap((i) => {
+          const candidate = candidates.find((c) => c.menuItemId === i.menuItemId);
+          if (!candidate || i.action !== 'add' || i.itemConfidence < 0.5) return [];
+          return [{
+            menuItemId: i.menuItemId,
+            name: candidate.name,
+            qty: i.qty,
+            optionSelections: i.optionSelections,
+            notes: i.notes,
+          }];
+        });
+        return {
+          success: true,
+          confidence: extraction.confidence,
+          orderIntent: this.mapOrderIntentToDto(orderIntent),
+          itemsExtracted: previewItems.length > 0,
+          previewItems,
+          language: intentAnalysis?.language ?? null,
+        };
+      }
+
       // 6b. NEGATIVE-CONSTRAINT GATE (hybrid mode only): when the analysis
       // detected a restrictive special request ("sadece", "olmasin",
       // "haric"...), never auto-create/modify an order. The customer gets a
@@ -268,7 +309,7 @@ export class NluOrchestratorService {
       // With no ANTHROPIC_API_KEY route.model is always 'local' and this
       // gate never fires, so today's behavior is unchanged.
       if (route.model !== 'local' && route.negativeConstraint) {
-        return this.handleNegativeConstraintGate({
+        const gated = await this.handleNegativeConstraintGate({
           tenantId,
           conversationId,
           userText,
@@ -281,6 +322,7 @@ export class NluOrchestratorService {
           history,
           intentAnalysis,
         });
+        return { ...gated, language: intentAnalysis?.language ?? null };
       }
 
       // 7. Build result based on confidence
@@ -332,20 +374,8 @@ export class NluOrchestratorService {
         if (order) {
           result.draftOrderId = order.id;
         }
-        const first = missingOptionsEarly[0];
-        const stepNum = first.selectedCount + 1;
-        const cleanGroupName = first.groupName.replace(/ \(\d+x\)/, '');
-        result.pendingOptionSelection = {
-          itemName: first.itemName,
-          groupName: cleanGroupName,
-          stepNumber: stepNum,
-          options: first.options.map((o, idx) => ({
-            id: `opt_${idx}_${o.name.substring(0, 20).replace(/\s/g, '_')}`,
-            name: o.name,
-            priceDelta: o.priceDelta,
-          })),
-        };
-        result.clarificationQuestion = `${stepNum}. ${cleanGroupName} seçin:`;
+        result.pendingOptionSelection = this.toOptionSelectionRequest(missingOptionsEarly[0]);
+        result.clarificationQuestion = `${result.pendingOptionSelection.stepNumber}. ${result.pendingOptionSelection.groupName} seçin:`;
       } else if (!hasExtractedItems && (extraction.clarificationQuestion || extraction.confidence < CONFIDENCE_THRESHOLD)) {
         result.clarificationQuestion =
           extraction.clarificationQuestion ||
@@ -368,20 +398,8 @@ export class NluOrchestratorService {
             result.draftOrderId = order.id;
           }
           // Ask only the FIRST missing option step by step via interactive list
-          const first = missingOptions[0];
-          const stepNum = first.selectedCount + 1;
-          const cleanGroupName = first.groupName.replace(/ \(\d+x\)/, '');
-          result.pendingOptionSelection = {
-            itemName: first.itemName,
-            groupName: cleanGroupName,
-            stepNumber: stepNum,
-            options: first.options.map((o, idx) => ({
-              id: `opt_${idx}_${o.name.substring(0, 20).replace(/\s/g, '_')}`,
-              name: o.name,
-              priceDelta: o.priceDelta,
-            })),
-          };
-          result.clarificationQuestion = `${stepNum}. ${cleanGroupName} seçin:`;
+          result.pendingOptionSelection = this.toOptionSelectionRequest(missingOptions[0]);
+          result.clarificationQuestion = `${result.pendingOptionSelection.stepNumber}. ${result.pendingOptionSelection.groupName} seçin:`;
         } else {
           // High confidence, all required options filled - create/update draft order
           const order = await this.createDraftOrder(
@@ -440,6 +458,7 @@ export class NluOrchestratorService {
         });
       }
 
+      result.language = intentAnalysis?.language ?? null;
       return result;
     } catch (error) {
       logger.error({ error, tenantId, conversationId }, 'Orchestration failed');
@@ -789,6 +808,24 @@ KURALLAR:
     return missing;
   }
 
+  /**
+   * Interactive list request for the first missing required option group
+   */
+  private toOptionSelectionRequest(
+    missing: { itemName: string; groupName: string; selectedCount: number; options: Array<{ name: string; priceDelta: number }> }
+  ): OptionSelectionRequest {
+    return {
+      itemName: missing.itemName,
+      groupName: missing.groupName.replace(/ \(\d+x\)/, ''),
+      stepNumber: missing.selectedCount + 1,
+      options: missing.options.map((o, idx) => ({
+        id: `opt_${idx}_${o.name.substring(0, 20).replace(/\s/g, '_')}`,
+        name: o.name,
+        priceDelta: o.priceDelta,
+      })),
+    };
+  }
+
   /**
    * Resolve option price deltas for an extracted item.
    * Returns the total price delta from selected options.
@@ -1020,9 +1057,17 @@ KURALLAR:
         },
       });
 
+      // A coupon or loyalty spend from order review follows the new basket
+      if (existingDraft.couponId) {
+        await couponService.repriceOrder(tenantId, existingDraft.id);
+      }
+      if (existingDraft.loyaltyPointsUsed > 0 || existingDraft.loyaltyStampsUsed > 0) {
+        await loyaltyService.repriceOrder(tenantId, existingDraft.id);
+      }
+
       return prisma.order.findUnique({
         where: { id: existingDraft.id },
-        include: { items: true },
+        include: { items: true, coupon: { select: { code: true } } },
       });
     } else {
       // Create new draft
@@ -1050,6 +1095,78 @@ KURALLAR:
     }
   }
 
+  /**
+   * Add items picked without NLU (interactive menu, catalog cart, confirmed
+   * image preview) to the conversation's draft order. Goes through
+   * createDraftOrder like extracted items, so both paths merge into the same draft.
+   */
+  async addMenuItemsToDraft(
+    tenantId: string,
+    conversationId: string,
+    items: DraftItemSelection[]
+  ): Promise<OrchestrationResult> {
+    const menuItems = await prisma.menuItem.findMany({
+      where: { id: { in: items.map((i) => i.menuItemId) }, tenantId, isActive: true },
+    });
+    if (menuItems.length === 0) {
+      return { success: true, itemsExtracted: false };
+    }
+
+    const candidates = menuItems.map((m) => ({
+      menuItemId: m.id,
+      name: m.name,
+      basePrice: Number(m.basePrice),
+      effectivePrice: computeEffectivePrice(Number(m.basePrice), m),
+    }));
+    const extraction: LlmExtractionResponse = {
+      items: items
+        .filter((i) => candidates.some((c) => c.menuItemId === i.menuItemId))
+        .map((i) => ({
+          menuItemId: i.menuItemId,
+          qty: i.qty,
+          optionSelections: i.optionSelections ?? [],
+          extras: [],
+          notes: i.notes ?? null,
+          action: 'add' as const,
+          itemConfidence: 1,
+        })),
+      missingFields: [],
+      clarificationQuestion: null,
+      confidence: 1,
+    };
+
+    const optionGroups = await menuCandidateService.getOptionGroupsForItems(
+      tenantId,
+      candidates.map((c) => c.menuItemId)
+    );
+    const existingDraft = await prisma.order.findFirst({
+      where: { tenantId, conversationId, status: 'DRAFT' },
+      include: { items: true },
+    });
+
+    const order = await this.createDraftOrder(
+      tenantId, conversationId, extraction, candidates, optionGroups, existingDraft
+    );
+    if (!order) {
+      return { success: true, itemsExtracted: false };
+    }
+
+    const result: OrchestrationResult = { success: true, itemsExtracted: true, draftOrderId: order.id };
+    const missingOptions = this.findMissingRequiredOptions(extraction.items, optionGroups, candidates);
+    if (missingOptions.length > 0) {
+      result.pendingOptionSelection = this.toOptionSelectionRequest(missingOptions[0]);
+      result.clarificationQuestion = `${result.pendingOptionSelection.stepNumber}. ${result.pendingOptionSelection.groupName} seçin:`;
+    } else {
+      result.confirmationMessage = this.generateConfirmationMessage(order);
+    }
+
+    logger.info(
+      { tenantId, conversationId, draftOrderId: order.id, itemCount: extraction.items.length },
+      'Menu selections added to draft order'
+    );
+    return result;
+  }
+
   /**
    * Generate confirmation message for order using template (no LLM call)
    */
@@ -1070,9 +1187,14 @@ KURALLAR:
       };
     });
 
-    const totalPrice = Number(order.totalPrice);
+    const couponDiscount = Number(order.couponDiscount ?? 0);
+    const coupon = order.coupon ? { code: order.coupon.code, discount: couponDiscount } : null;
+    const loyaltyDiscount = Number(order.loyaltyDiscount ?? 0);
+    const loyalty =
+      loyaltyDiscount > 0 ? { points: order.loyaltyPointsUsed ?? 0, discount: loyaltyDiscount } : null;
+    const totalPrice = Number(order.totalPrice) + couponDiscount + loyaltyDiscount;
 
-    return llmExtractorService.generateSimpleSummary(items, totalPrice, order.notes);
+    return llmExtractorService.generateSimpleSummary(items, totalPrice, order.notes, coupon, loyalty);
   }
 
   /**
@@ -0,0 +1,180 @@
+import { execFile } from 'child_process';
+import OpenAI from 'openai';
+import { AppConfig, getConfig } from '@whatres/config';
+import { createLogger } from '../../logger';
+import { whatsappConfigService } from '../whatsapp-config.service';
+import { whatsappProviderService } from '../whatsapp-provider.service';
+
+const logger = createLogger();
+
+/** Upper bound for text handed to the NLU (a long receipt is mostly noise) */
+const MAX_TEXT_LENGTH = 1000;
+const TESSERACT_TIMEOUT_MS = 20_000;
+
+const ORDER_TEXT_PROMPT = `The image was sent to a restaurant on WhatsApp. It is usually a screenshot of an earlier order or a photo of a handwritten list.
+Transcribe every food or drink item you can read, one per line, with its quantity and any notes, e.g. "2 Adana Kebap acili".
+Keep the original language and spelling. Ignore prices, totals, addresses, dates and app interface text.
+Reply with the lines only. If the image contains no items, reply with an empty message.`;
+
+/**
+ * Turns an image into plain text for the order pipeline. Implementations
+ * return null when nothing readable was found and throw on provider errors.
+ */
+export interface VisionProvider {
+  readonly name: string;
+  extractText(image: Buffer, mimeType: string): Promise<string | null>;
+}
+
+/** Vision model over the OpenAI chat API (or a compatible local endpoint) */
+export class OpenAIVisionProvider implements VisionProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly client: OpenAI,
+    private readonly model: string
+  ) {}
+
+  async extractText(image: Buffer, mimeType: string): Promise<string | null> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: ORDER_TEXT_PROMPT },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'image_url',
+              image_url: { url: `data:${mimeType};base64,${image.toString('base64')}` },
+            },
+          ],
+        },
+      ],
+      max_completion_tokens: 512,
+    });
+    return response.choices[0]?.message?.content?.trim() || null;
+  }
+}
+
+/**
+ * Local stand-in: plain OCR through the tesseract CLI. Reads printed
+ * screenshots well, handwriting poorly; needs no API key.
+ */
+export class TesseractVisionProvider implements VisionProvider {
+  readonly name = 'tesseract';
+
+  constructor(
+    private readonly binary: string,
+    private readonly languages: string
+  ) {}
+
+  extractText(image: Buffer): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const child = execFile(
+        this.binary,
+        ['stdin', 'stdout', '-l', this.languages],
+        { timeout: TESSERACT_TIMEOUT_MS, maxBuffer: 1024 * 1024 },
+        (error, stdout) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+          resolve(stdout.trim() || null);
+        }
+      );
+      child.stdin?.end(image);
+    });
+  }
+}
+
+function createProvider(config: AppConfig): VisionProvider | null {
+  const provider = config.vision.provider ?? (config.openai.apiKey ? 'openai' : 'none');
+
+  switch (provider) {
+    case 'openai':
+      if (!config.openai.apiKey) {
+        logger.warn('VISION_PROVIDER=openai but OPENAI_API_KEY is not set, image reading disabled');
+        return null;
+      }
+      return new OpenAIVisionProvider(
+        new OpenAI({ apiKey: config.openai.apiKey, baseURL: config.openai.baseUrl }),
+        config.vision.model
+      );
+    case 'tesseract':
+      return new TesseractVisionProvider(config.vision.tesseractPath, config.vision.tesseractLangs);
+    default:
+      return null;
+  }
+}
+
+/** Drop blank lines and cap the length so OCR noise cannot flood the NLU */
+function normalizeExtractedText(text: string | null): string | null {
+  if (!text) return null;
+  const lines = text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0);
+  const joined = lines.join('\n').substring(0, MAX_TEXT_LENGTH);
+  return joined || null;
+}
+
+export class VisionService {
+  private provider: VisionProvider | null;
+
+  constructor() {
+    this.provider = createProvider(getConfig());
+  }
+
+  isAvailable(): boolean {
+    return this.provider !== null;
+  }
+
+  /** Replace the configured provider (e.g. a hosted OCR API) */
+  setProvider(provider: VisionProvider | null): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Read the text of a WhatsApp image (order screenshot, handwritten list).
+   * Returns null when no provider is configured, the download fails or the
+   * image has no readable text.
+   */
+  async extractImageText(tenantId: string, imageId: string): Promise<string | null> {
+    if (!this.provider) return null;
+    const startTime = Date.now();
+
+    try {
+      const waConfig = await whatsappConfigService.getDecryptedConfig(tenantId);
+      if (!waConfig) {
+        logger.warn({ tenantId }, 'No WhatsApp config for image text extraction');
+        return null;
+      }
+
+      const media = await whatsappProviderService.downloadMediaWithConfig(imageId, waConfig);
+      if (!media) return null;
+
+      const text = normalizeExtractedText(
+        await this.provider.extractText(media.data, media.mimeType)
+      );
+
+      logger.info(
+        {
+          tenantId,
+          imageId,
+          provider: this.provider.name,
+          textLength: text?.length || 0,
+          durationMs: Date.now() - startTime,
+        },
+        'Image text extracted'
+      );
+      return text;
+    } catch (error) {
+      logger.error(
+        { error, tenantId, imageId, provider: this.provider.name },
+        'Image text extraction failed'
+      );
+      return null;
+    }
+  }
+}
+
+export const visionService = new VisionService();
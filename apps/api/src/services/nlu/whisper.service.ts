@@ -1,36 +1,171 @@
 import OpenAI from 'openai';
-import { getConfig } from '@whatres/config';
+import { AppConfig, getConfig } from '@whatres/config';
+import { VoiceTranscriptDto } from '@whatres/shared';
+import prisma from '../../db/prisma';
 import { createLogger } from '../../logger';
 import { whatsappConfigService } from '../whatsapp-config.service';
+import { whatsappProviderService } from '../whatsapp-provider.service';
 
 const logger = createLogger();
 
-export class WhisperService {
-  private client: OpenAI | null = null;
-  private config = getConfig();
+const LOCAL_STT_TIMEOUT_MS = 60_000;
+
+export interface SttResult {
+  text: string;
+  /** 0-1; null when the backend reports no scores */
+  confidence: number | null;
+  language: string | null;
+}
+
+/**
+ * Speech-to-text backend. Implementations return null when the audio has no
+ * speech and throw on transport or provider errors.
+ */
+export interface SttProvider {
+  readonly name: string;
+  transcribe(audio: Buffer, mimeType: string, language?: string): Promise<SttResult | null>;
+}
+
+interface TranscriptSegment {
+  start: number;
+  end: number;
+  avg_logprob: number;
+  no_speech_prob: number;
+}
+
+/**
+ * Duration-weighted mean of exp(avg_logprob) × (1 − no_speech_prob) over the
+ * verbose_json segments, i.e. roughly "how sure the model was per second"
+ */
+export function scoreSegments(segments: TranscriptSegment[] | undefined): number | null {
+  if (!segments?.length) return null;
+  let weighted = 0;
+  let total = 0;
+  for (const segment of segments) {
+    const duration = Math.max(segment.end - segment.start, 0.01);
+    const probability = Math.exp(Math.min(segment.avg_logprob, 0));
+    weighted += duration * probability * (1 - (segment.no_speech_prob ?? 0));
+    total += duration;
+  }
+  return total > 0 ? Math.round((weighted / total) * 100) / 100 : null;
+}
+
+function audioFileName(mimeType: string): string {
+  return mimeType.includes('mpeg') ? 'voice.mp3' : 'voice.ogg';
+}
 
-  constructor() {
-    if (this.config.openai.apiKey) {
-      this.client = new OpenAI({ apiKey: this.config.openai.apiKey });
+/** OpenAI Whisper API */
+export class OpenAISttProvider implements SttProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly client: OpenAI,
+    private readonly model: string
+  ) {}
+
+  async transcribe(audio: Buffer, mimeType: string, language?: string): Promise<SttResult | null> {
+    const transcription = await this.client.audio.transcriptions.create({
+      model: this.model,
+      file: new File([audio], audioFileName(mimeType), { type: mimeType }),
+      response_format: 'verbose_json',
+      ...(language ? { language } : {}),
+    });
+
+    const text = transcription.text?.trim();
+    if (!text) return null;
+    return {
+      text,
+      confidence: scoreSegments(transcription.segments),
+      language: transcription.language || null,
+    };
+  }
+}
+
+/**
+ * Self-hosted whisper.cpp server (examples/server). Same role as the local
+ * Ollama endpoint for the LLM: voice orders keep working without OpenAI.
+ */
+export class WhisperCppSttProvider implements SttProvider {
+  readonly name = 'local';
+
+  constructor(private readonly baseUrl: string) {}
+
+  async transcribe(audio: Buffer, mimeType: string, language?: string): Promise<SttResult | null> {
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: mimeType }), audioFileName(mimeType));
+    form.append('response_format', 'verbose_json');
+    form.append('temperature', '0');
+    if (language) form.append('language', language);
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/inference`, {
+      method: 'POST',
+      body: form,
+      signal: AbortSignal.timeout(LOCAL_STT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`whisper.cpp server error: ${response.status}`);
     }
+
+    const data = (await response.json()) as {
+      text?: string;
+      language?: string;
+      segments?: TranscriptSegment[];
+    };
+    const text = data.text?.trim();
+    if (!text) return null;
+    return {
+      text,
+      confidence: scoreSegments(data.segments),
+      language: data.language || null,
+    };
+  }
+}
+
+function createProvider(config: AppConfig): SttProvider | null {
+  const provider =
+    config.stt.provider ??
+    (config.stt.baseUrl ? 'local' : config.openai.apiKey ? 'openai' : 'none');
+
+  switch (provider) {
+    case 'openai':
+      if (!config.openai.apiKey) {
+        logger.warn('STT_PROVIDER=openai but OPENAI_API_KEY is not set, voice messages disabled');
+        return null;
+      }
+      return new OpenAISttProvider(new OpenAI({ apiKey: config.openai.apiKey }), config.stt.model);
+    case 'local':
+      if (!config.stt.baseUrl) {
+        logger.warn('STT_PROVIDER=local but STT_BASE_URL is not set, voice messages disabled');
+        return null;
+      }
+      return new WhisperCppSttProvider(config.stt.baseUrl);
+    default:
+      return null;
   }
+}
+
+export class WhisperService {
+  private config = getConfig();
+  private provider: SttProvider | null = createProvider(this.config);
 
   isAvailable(): boolean {
-    return this.client !== null;
+    return this.provider !== null;
+  }
+
+  /** Replace the configured backend (e.g. another hosted STT API) */
+  setProvider(provider: SttProvider | null): void {
+    this.provider = provider;
   }
 
   /**
    * Transcribe a WhatsApp voice message
    * 1. Downloads the audio from Meta Cloud API using the media ID
-   * 2. Sends it to OpenAI Whisper for transcription
-   * 3. Returns the transcribed text
+   * 2. Sends it to the configured STT backend
+   * 3. Returns the transcript with its confidence score
    */
-  async transcribeVoiceMessage(
-    tenantId: string,
-    voiceId: string
-  ): Promise<string | null> {
-    if (!this.client) {
-      logger.warn('OpenAI not configured, cannot transcribe voice');
+  async transcribeVoiceMessage(tenantId: string, voiceId: string): Promise<SttResult | null> {
+    if (!this.provider) {
+      logger.warn('No speech-to-text backend configured, cannot transcribe voice');
       return null;
     }
 
@@ -44,71 +179,71 @@ export class WhisperService {
         return null;
       }
 
-      // 2. Get media URL from Meta Cloud API
-      const apiVersion = process.env.WHATSAPP_API_VERSION || 'v21.0';
-      const mediaInfoUrl = `https://graph.facebook.com/${apiVersion}/${voiceId}`;
-      const mediaInfoRes = await fetch(mediaInfoUrl, {
-        headers: { Authorization: `Bearer ${waConfig.accessToken}` },
-      });
-
-      if (!mediaInfoRes.ok) {
-        logger.error(
-          { tenantId, voiceId, status: mediaInfoRes.status },
-          'Failed to get media info from Meta'
-        );
-        return null;
-      }
-
-      const mediaInfo = (await mediaInfoRes.json()) as { url?: string };
-      if (!mediaInfo.url) {
-        logger.error({ tenantId, voiceId }, 'No URL in media info');
+      // 2. Download the audio from Meta Cloud API
+      const media = await whatsappProviderService.downloadMediaWithConfig(voiceId, waConfig);
+      if (!media) {
         return null;
       }
 
-      // 3. Download the audio file
-      const audioRes = await fetch(mediaInfo.url, {
-        headers: { Authorization: `Bearer ${waConfig.accessToken}` },
-      });
-
-      if (!audioRes.ok) {
-        logger.error(
-          { tenantId, voiceId, status: audioRes.status },
-          'Failed to download voice media'
-        );
-        return null;
-      }
-
-      const audioBuffer = Buffer.from(await audioRes.arrayBuffer());
-
-      // 4. Send to Whisper API
-      const audioFile = new File([audioBuffer], 'voice.ogg', {
-        type: 'audio/ogg',
-      });
-
-      const transcription = await this.client.audio.transcriptions.create({
-        model: 'whisper-1',
-        file: audioFile,
-        language: 'tr', // Turkish
-      });
-
-      const text = transcription.text?.trim();
+      // 3. Transcribe
+      const result = await this.provider.transcribe(
+        media.data,
+        media.mimeType,
+        this.config.stt.language || undefined
+      );
 
       logger.info(
         {
           tenantId,
           voiceId,
-          transcribedLength: text?.length || 0,
+          provider: this.provider.name,
+          transcribedLength: result?.text.length || 0,
+          confidence: result?.confidence ?? null,
           durationMs: Date.now() - startTime,
         },
         'Voice message transcribed'
       );
 
-      return text || null;
+      return result;
     } catch (error) {
-      logger.error({ error, tenantId, voiceId }, 'Voice transcription failed');
+      logger.error(
+        { error, tenantId, voiceId, provider: this.provider.name },
+        'Voice transcription failed'
+      );
       return null;
     }
   }
+
+  /**
+   * Transcribe a stored voice message and keep the transcript on its
+   * payloadJson, so the inbox can show it next to the audio. Transcripts
+   * below STT_MIN_CONFIDENCE are flagged lowConfidence.
+   */
+  async transcribeMessage(
+    tenantId: string,
+    message: { id: string; payloadJson: Record<string, unknown> | null }
+  ): Promise<VoiceTranscriptDto | null> {
+    const voiceId = message.payloadJson?.voiceId;
+    if (typeof voiceId !== 'string' || !this.provider) return null;
+
+    const result = await this.transcribeVoiceMessage(tenantId, voiceId);
+    if (!result) return null;
+
+    const transcript: VoiceTranscriptDto = {
+      text: result.text,
+      confidence: result.confidence,
+      lowConfidence:
+        result.confidence !== null && result.confidence < this.config.stt.minConfidence,
+      provider: this.provider.name,
+      language: result.language,
+      transcribedAt: new Date().toISOString(),
+    };
+    await prisma.message.update({
+      where: { id: message.id },
+      data: { payloadJson: { ...message.payloadJson, transcript: { ...transcript } } },
+    });
+    return transcript;
+  }
 }
 
 export const whisperService = new WhisperService();
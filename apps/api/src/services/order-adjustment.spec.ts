@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AdjustableOrder, assertAdjustable } from './order-adjustment';
+
+function order(overrides: Partial<AdjustableOrder> = {}): AdjustableOrder {
+  return {
+    status: 'CONFIRMED',
+    couponId: null,
+    loyaltyPointsUsed: 0,
+    loyaltyStampsUsed: 0,
+    ...overrides,
+  };
+}
+
+function rejectedWith(code: string) {
+  return (error: unknown) => (error as { code?: string }).code === code;
+}
+
+describe('assertAdjustable', () => {
+  it('accepts item changes on an order without rewards', () => {
+    assert.doesNotThrow(() =>
+      assertAdjustable(order(), [{ type: 'CHANGE_QTY', itemId: 'item-1', qty: 1 }])
+    );
+  });
+
+  it('rejects orders the kitchen no longer has', () => {
+    assert.throws(
+      () => assertAdjustable(order({ status: 'DELIVERED' }), [{ type: 'DISCOUNT', amount: 10 }]),
+      rejectedWith('INVALID_STATUS')
+    );
+  });
+
+  it('rejects item changes on an order with a coupon', () => {
+    assert.throws(
+      () =>
+        assertAdjustable(order({ couponId: 'coupon-1' }), [
+          { type: 'REMOVE_ITEM', itemId: 'item-1' },
+        ]),
+      rejectedWith('ORDER_HAS_REWARD')
+    );
+  });
+
+  it('rejects item changes on an order with a loyalty redemption', () => {
+    const changes = [{ type: 'REPLACE_ITEM' as const, itemId: 'item-1', menuItemId: 'menu-2' }];
+    assert.throws(
+      () => assertAdjustable(order({ loyaltyPointsUsed: 120 }), changes),
+      rejectedWith('ORDER_HAS_REWARD')
+    );
+    assert.throws(
+      () => assertAdjustable(order({ loyaltyStampsUsed: 9 }), changes),
+      rejectedWith('ORDER_HAS_REWARD')
+    );
+  });
+
+  it('accepts a goodwill discount on an order with a coupon or redemption', () => {
+    const changes = [{ type: 'DISCOUNT' as const, amount: 15 }];
+    assert.doesNotThrow(() => assertAdjustable(order({ couponId: 'coupon-1' }), changes));
+    assert.doesNotThrow(() => assertAdjustable(order({ loyaltyPointsUsed: 120 }), changes));
+  });
+});
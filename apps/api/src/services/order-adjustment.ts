@@ -0,0 +1,39 @@
+import { OrderAdjustmentChangeInput } from '@whatres/shared';
+import { AppError } from '../middleware/error-handler';
+
+/** Statuses in which the kitchen still has the order and it can be adjusted */
+export const ADJUSTABLE_STATUSES = ['CONFIRMED', 'PREPARING', 'READY'];
+
+/** What of an order decides whether an adjustment may touch it */
+export interface AdjustableOrder {
+  status: string;
+  couponId: string | null;
+  loyaltyPointsUsed: number;
+  loyaltyStampsUsed: number;
+}
+
+/**
+ * Throw when the adjustment may not be made to the order. Coupon and loyalty
+ * discounts were worked out from the basket at checkout (minimum basket,
+ * percentages, reward items), so item changes are refused on orders that
+ * carry one; a goodwill discount leaves the basket alone and stays allowed.
+ */
+export function assertAdjustable(
+  order: AdjustableOrder,
+  changes: OrderAdjustmentChangeInput[]
+): void {
+  if (!ADJUSTABLE_STATUSES.includes(order.status)) {
+    throw new AppError(400, 'INVALID_STATUS', `Cannot adjust order with status ${order.status}`);
+  }
+
+  const changesItems = changes.some((change) => change.type !== 'DISCOUNT');
+  const hasReward =
+    order.couponId != null || order.loyaltyPointsUsed > 0 || order.loyaltyStampsUsed > 0;
+  if (changesItems && hasReward) {
+    throw new AppError(
+      400,
+      'ORDER_HAS_REWARD',
+      'Items of an order with a coupon or loyalty reward cannot be changed; give a discount or cancel the order instead'
+    );
+  }
+}
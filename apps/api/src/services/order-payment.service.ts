@@ -1,16 +1,34 @@
 import prisma from '../db/prisma';
 import { createLogger } from '../logger';
-import { iyzicoService } from './iyzico.service';
+import { OrderPayment, Prisma } from '@prisma/client';
 import { OrderPaymentDto } from '@whatres/shared';
+import {
+  CheckoutItem,
+  GatewayPaymentRef,
+  GatewayPaymentResult,
+  getPaymentGateway,
+  getTenantPaymentGateway,
+  PartialRefundError,
+} from './payments';
 
 const logger = createLogger();
 
 const APP_BASE_URL = process.env.APP_BASE_URL || 'http://localhost:3000';
 const API_PREFIX = process.env.API_PREFIX || '/api';
 
+/** What a callback or status refresh did to a payment */
+export interface PaymentOutcome {
+  success: boolean;
+  orderId: string;
+  tenantId: string;
+  conversationId: string;
+  paymentId?: string;
+  alreadyProcessed?: boolean;
+}
+
 export class OrderPaymentService {
   /**
-   * Initiate a card payment via iyzico Checkout Form
+   * Initiate a card payment on the tenant's payment gateway
    */
   async initiateCardPayment(
     tenantId: string,
@@ -32,89 +50,42 @@ export class OrderPaymentService {
     }
 
     const totalPrice = Number(order.totalPrice);
-    const callbackUrl = `${APP_BASE_URL}${API_PREFIX}/payments/callback/iyzico`;
 
-    // Build basket items for iyzico
-    const basketItems = order.items.map((item) => ({
+    // Build basket items
+    const items: CheckoutItem[] = order.items.map((item) => ({
       id: item.id,
       name: item.menuItemName,
-      category1: 'Yemek',
-      itemType: 'PHYSICAL' as const,
-      price: (Number(item.unitPrice) * item.qty).toFixed(2),
+      price: Number(item.unitPrice) * item.qty,
     }));
 
     // Ensure basket items sum matches total price (iyzico requirement)
-    const basketSum = basketItems.reduce((sum, item) => sum + Number(item.price), 0);
+    const basketSum = items.reduce((sum, item) => sum + item.price, 0);
     logger.info({
       orderId,
       totalPrice,
       basketSum,
-      basketItemCount: basketItems.length,
-      callbackUrl,
-      basketItems: basketItems.map(i => ({ name: i.name, price: i.price })),
-    }, 'Preparing iyzico checkout');
+      basketItemCount: items.length,
+      basketItems: items.map(i => ({ name: i.name, price: i.price })),
+    }, 'Preparing card checkout');
 
     // If basket sum doesn't match total (e.g. delivery fee), adjust
     const priceDiff = totalPrice - basketSum;
     if (Math.abs(priceDiff) > 0.01) {
-      basketItems.push({
+      items.push({
         id: `delivery-${orderId.slice(0, 10)}`,
         name: 'Teslimat Ucreti',
-        category1: 'Hizmet',
-        itemType: 'PHYSICAL' as const,
-        price: priceDiff.toFixed(2),
+        price: priceDiff,
       });
     }
 
-    // Initialize checkout form
-    const result = await iyzicoService.initializeCheckoutForm(tenantId, {
-      price: totalPrice.toFixed(2),
-      paidPrice: totalPrice.toFixed(2),
+    const payment = await this.createCheckoutPayment(tenantId, order, conversationId, customerPhone, {
       basketId: orderId,
-      conversationId: `ord-${orderId.slice(0, 15)}`,
-      callbackUrl,
-      buyer: {
-        id: `cust-${customerPhone.replace(/[^a-zA-Z0-9]/g, '').slice(0, 20)}`,
-        name: order.customerName || 'Musteri',
-        surname: 'Musteri',
-        gsmNumber: customerPhone,
-        email: `musteri${customerPhone.replace(/[^0-9]/g, '').slice(-10) || 'test'}@email.com`,
-        identityNumber: '11111111111',
-        ip: '85.34.78.112',
-        city: 'Istanbul',
-        country: 'Turkey',
-        address: order.deliveryAddress || 'Adres belirtilmedi',
-        zipCode: '34000',
-      },
-      basketItems,
-    });
-
-    if (!result.success || !result.token) {
-      logger.error({ orderId, error: result.error }, 'Failed to create iyzico checkout form');
-      throw new Error(result.error || 'iyzico checkout form creation failed');
-    }
-
-    // Build checkout URL - iyzico returns the content/page URL
-    const checkoutFormUrl = result.paymentPageUrl || `${APP_BASE_URL}${API_PREFIX}/payments/checkout/${result.token}`;
-
-    // Create payment record
-    const payment = await prisma.orderPayment.create({
-      data: {
-        tenantId,
-        orderId,
-        conversationId,
-        method: 'CREDIT_CARD',
-        status: 'PENDING',
-        amount: totalPrice,
-        currency: 'TRY',
-        iyzicoToken: result.token,
-        checkoutFormUrl,
-        expiresAt: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes
-      },
+      amount: totalPrice,
+      items,
     });
 
     logger.info(
-      { tenantId, orderId, paymentId: payment.id, token: result.token },
+      { tenantId, orderId, paymentId: payment.id, gateway: payment.gateway },
       'Card payment initiated',
     );
 
@@ -122,89 +93,69 @@ export class OrderPaymentService {
   }
 
   /**
-   * Handle iyzico payment callback
+   * Handle a gateway payment callback
    */
-  async handlePaymentCallback(token: string): Promise<{
-    success: boolean;
-    orderId: string;
-    tenantId: string;
-    conversationId: string;
-    paymentId?: string;
-    alreadyProcessed?: boolean;
-  }> {
-    // Find payment by token
+  async handlePaymentCallback(gatewayKey: string, body: Record<string, unknown>): Promise<PaymentOutcome> {
+    const gateway = getPaymentGateway(gatewayKey);
+    const reference = gateway.callbackReference(body);
+    if (!reference) {
+      throw new Error('Payment reference missing in callback');
+    }
+
     const payment = await prisma.orderPayment.findFirst({
-      where: { iyzicoToken: token },
+      where: { gateway: gateway.key, gatewayReference: reference },
     });
 
     if (!payment) {
-      logger.error({ token }, 'Payment not found for callback token');
+      logger.error({ gateway: gateway.key, reference }, 'Payment not found for callback reference');
       throw new Error('Payment not found');
     }
 
     // Idempotency guard: skip if already processed
-    if (payment.status === 'SUCCESS' || payment.status === 'FAILED') {
+    if (payment.status !== 'PENDING') {
       logger.info(
         { paymentId: payment.id, orderId: payment.orderId, status: payment.status },
         'Payment callback already processed — skipping (idempotent)',
       );
-      return {
-        success: payment.status === 'SUCCESS',
-        orderId: payment.orderId,
-        tenantId: payment.tenantId,
-        conversationId: payment.conversationId,
-        paymentId: payment.iyzicoPaymentId || undefined,
-        alreadyProcessed: true,
-      };
+      return this.toOutcome(payment, true);
     }
 
-    // Retrieve result from iyzico
-    const result = await iyzicoService.retrieveCheckoutFormResult(payment.tenantId, token);
+    const result = await gateway.verifyCallback(payment.tenantId, this.toRef(payment), body);
+    return this.applyResult(payment, result);
+  }
 
-    if (result.success && result.paymentStatus === 'SUCCESS') {
-      // Update payment as successful
-      await prisma.orderPayment.update({
-        where: { id: payment.id },
-        data: {
-          status: 'SUCCESS',
-          iyzicoPaymentId: result.paymentId,
-          paidAt: new Date(),
-        },
-      });
+  /**
+   * Ask the gateway about a payment whose callback never arrived
+   */
+  async refreshPaymentStatus(tenantId: string, paymentId: string): Promise<PaymentOutcome | null> {
+    const payment = await prisma.orderPayment.findFirst({
+      where: { id: paymentId, tenantId, method: 'CREDIT_CARD' },
+    });
 
-      logger.info(
-        { paymentId: payment.id, orderId: payment.orderId, iyzicoPaymentId: result.paymentId },
-        'Payment successful',
-      );
+    if (!payment) return null;
+    if (payment.status !== 'PENDING') return this.toOutcome(payment, true);
 
-      return {
-        success: true,
-        orderId: payment.orderId,
-        tenantId: payment.tenantId,
-        conversationId: payment.conversationId,
-        paymentId: result.paymentId,
-      };
-    } else {
-      // Payment failed
+    const gateway = getPaymentGateway(payment.gateway);
+    const result = await gateway.queryStatus(tenantId, this.toRef(payment));
+    return this.applyResult(payment, result);
+  }
+
+  /**
+   * Capture the authorized card payments of an order, called when the
+   * restaurant confirms it
+   */
+  async capturePayments(tenantId: string, orderId: string): Promise<void> {
+    const payments = await prisma.orderPayment.findMany({
+      where: { tenantId, orderId, method: 'CREDIT_CARD', status: 'AUTHORIZED' },
+    });
+
+    for (const payment of payments) {
+      await getPaymentGateway(payment.gateway).capture(tenantId, this.toRef(payment));
       await prisma.orderPayment.update({
         where: { id: payment.id },
-        data: {
-          status: 'FAILED',
-          errorMessage: result.error || 'Payment failed',
-        },
+        data: { status: 'SUCCESS', paidAt: new Date() },
       });
-
-      logger.warn(
-        { paymentId: payment.id, orderId: payment.orderId, error: result.error },
-        'Payment failed',
-      );
-
-      return {
-        success: false,
-        orderId: payment.orderId,
-        tenantId: payment.tenantId,
-        conversationId: payment.conversationId,
-      };
+      logger.info({ tenantId, orderId, paymentId: payment.id }, 'Payment captured');
     }
   }
 
@@ -266,38 +217,107 @@ export class OrderPaymentService {
   }
 
   /**
-   * Initiate a refund for a credit card payment via iyzico
+   * Refund a card payment, or release its authorization. Without an amount
+   * whatever has not been refunded yet goes back.
+   *
+   * @returns The amount refunded
    */
-  async initiateRefund(tenantId: string, paymentId: string): Promise<void> {
+  async initiateRefund(tenantId: string, paymentId: string, amount?: number): Promise<number> {
     const payment = await prisma.orderPayment.findFirst({
-      where: { id: paymentId, tenantId, method: 'CREDIT_CARD', status: 'SUCCESS' },
+      where: {
+        id: paymentId,
+        tenantId,
+        method: 'CREDIT_CARD',
+        status: { in: ['SUCCESS', 'AUTHORIZED'] },
+      },
     });
 
     if (!payment) {
       throw new Error('Payment not found or not eligible for refund');
     }
 
-    if (!payment.iyzicoPaymentId) {
-      logger.warn({ tenantId, paymentId }, 'No iyzico payment ID for refund - marking as refunded');
-      await prisma.orderPayment.update({
-        where: { id: paymentId },
-        data: { status: 'REFUNDED' },
-      });
-      return;
+    const refunded = Number(payment.refundedAmount);
+    const refundable = Math.round((Number(payment.amount) - refunded) * 100) / 100;
+    const refundAmount = Math.min(amount ?? refundable, refundable);
+    if (refundAmount <= 0) {
+      throw new Error('Payment has nothing left to refund');
     }
+    const fullRefund = refundAmount >= refundable;
 
-    const result = await iyzicoService.cancelPayment(tenantId, payment.iyzicoPaymentId);
-
-    if (result.success) {
-      await prisma.orderPayment.update({
-        where: { id: paymentId },
-        data: { status: 'REFUNDED' },
-      });
-      logger.info({ tenantId, paymentId }, 'Refund completed successfully');
+    if (!payment.gatewayReference && !payment.gatewayPaymentId) {
+      logger.warn({ tenantId, paymentId }, 'No gateway reference for refund - marking as refunded');
     } else {
-      logger.error({ tenantId, paymentId, error: result.error }, 'Refund failed');
-      throw new Error(result.error || 'Refund failed');
+      try {
+        await getPaymentGateway(payment.gateway).refund(
+          tenantId,
+          this.toRef(payment),
+          // A never-refunded payment going back whole is a cancel
+          fullRefund && refunded === 0 ? undefined : refundAmount,
+        );
+      } catch (error) {
+        logger.error({ tenantId, paymentId, error }, 'Refund failed');
+        // Money that already went back must count, or a retry refunds it again
+        if (error instanceof PartialRefundError) {
+          await prisma.orderPayment.update({
+            where: { id: paymentId },
+            data: { refundedAmount: refunded + error.refunded },
+          });
+        }
+        throw error;
+      }
     }
+
+    await prisma.orderPayment.update({
+      where: { id: paymentId },
+      data: {
+        refundedAmount: refunded + refundAmount,
+        ...(fullRefund && { status: 'REFUNDED' }),
+      },
+    });
+    logger.info({ tenantId, paymentId, amount: refundAmount, fullRefund }, 'Refund completed successfully');
+    return refundAmount;
+  }
+
+  /**
+   * Refund part of an order's card payments, newest payment first
+   *
+   * @returns The amount refunded; less than asked when the card payments
+   * do not cover it
+   * @throws PartialRefundError with the total refunded when a refund fails
+   * after earlier ones went through
+   */
+  async refundOrderAmount(tenantId: string, orderId: string, amount: number): Promise<number> {
+    const payments = await prisma.orderPayment.findMany({
+      where: {
+        tenantId,
+        orderId,
+        method: 'CREDIT_CARD',
+        status: { in: ['SUCCESS', 'AUTHORIZED'] },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    let remaining = Math.round(amount * 100) / 100;
+    for (const payment of payments) {
+      if (remaining <= 0) break;
+      const refundable = Number(payment.amount) - Number(payment.refundedAmount);
+      if (refundable <= 0) continue;
+
+      let refunded: number;
+      try {
+        refunded = await this.initiateRefund(tenantId, payment.id, Math.min(remaining, refundable));
+      } catch (error) {
+        const done = amount - remaining + (error instanceof PartialRefundError ? error.refunded : 0);
+        if (done <= 0) throw error;
+        throw new PartialRefundError(
+          error instanceof Error ? error.message : String(error),
+          Math.round(done * 100) / 100,
+        );
+      }
+      remaining = Math.round((remaining - refunded) * 100) / 100;
+    }
+
+    return Math.round((amount - remaining) * 100) / 100;
   }
 
   /**
@@ -320,68 +340,141 @@ export class OrderPaymentService {
       throw new Error('Order not found');
     }
 
-    const callbackUrl = `${APP_BASE_URL}${API_PREFIX}/payments/callback/iyzico`;
-
-    const basketItems = items.map((item, idx) => ({
-      id: `addition-${orderId.slice(0, 8)}-${idx}`,
-      name: item.menuItemName,
-      category1: 'Yemek',
-      itemType: 'PHYSICAL' as const,
-      price: (item.unitPrice * item.qty).toFixed(2),
-    }));
-
-    const result = await iyzicoService.initializeCheckoutForm(tenantId, {
-      price: amount.toFixed(2),
-      paidPrice: amount.toFixed(2),
+    const payment = await this.createCheckoutPayment(tenantId, order, conversationId, customerPhone, {
       basketId: `${orderId}-add`,
-      conversationId: `add-${orderId.slice(0, 12)}`,
-      callbackUrl,
-      buyer: {
-        id: `cust-${customerPhone.replace(/[^a-zA-Z0-9]/g, '').slice(0, 20)}`,
-        name: order.customerName || 'Musteri',
-        surname: 'Musteri',
-        gsmNumber: customerPhone,
-        email: `musteri${customerPhone.replace(/[^0-9]/g, '').slice(-10) || 'test'}@email.com`,
-        identityNumber: '11111111111',
-        ip: '85.34.78.112',
-        city: 'Istanbul',
-        country: 'Turkey',
-        address: order.deliveryAddress || 'Adres belirtilmedi',
-        zipCode: '34000',
-      },
-      basketItems,
+      amount,
+      items: items.map((item, idx) => ({
+        id: `addition-${orderId.slice(0, 8)}-${idx}`,
+        name: item.menuItemName,
+        price: item.unitPrice * item.qty,
+      })),
     });
 
-    if (!result.success || !result.token) {
-      throw new Error(result.error || 'iyzico addition payment failed');
-    }
+    logger.info(
+      { tenantId, orderId, paymentId: payment.id, amount },
+      'Addition payment initiated',
+    );
 
-    const checkoutFormUrl = result.paymentPageUrl || `${APP_BASE_URL}${API_PREFIX}/payments/checkout/${result.token}`;
+    return this.mapToDto(payment);
+  }
 
-    const payment = await prisma.orderPayment.create({
+  // ==================== HELPERS ====================
+
+  /** Open a hosted checkout on the tenant's gateway and record the pending payment */
+  private async createCheckoutPayment(
+    tenantId: string,
+    order: { id: string; customerName: string | null; deliveryAddress: string | null },
+    conversationId: string,
+    customerPhone: string,
+    basket: { basketId: string; amount: number; items: CheckoutItem[] },
+  ) {
+    const gateway = await getTenantPaymentGateway(tenantId);
+
+    let session;
+    try {
+      session = await gateway.createCheckout(tenantId, {
+        ...basket,
+        currency: 'TRY',
+        buyer: {
+          name: order.customerName || 'Musteri',
+          phone: customerPhone,
+          email: `musteri${customerPhone.replace(/[^0-9]/g, '').slice(-10) || 'test'}@email.com`,
+          address: order.deliveryAddress || 'Adres belirtilmedi',
+          ip: '85.34.78.112',
+        },
+        callbackUrl: `${APP_BASE_URL}${API_PREFIX}/payments/callback/${gateway.key}`,
+        returnUrl: `${APP_BASE_URL}${API_PREFIX}/payments/return`,
+      });
+    } catch (error) {
+      logger.error({ orderId: order.id, gateway: gateway.key, error }, 'Failed to create checkout');
+      throw error;
+    }
+
+    return prisma.orderPayment.create({
       data: {
         tenantId,
-        orderId,
+        orderId: order.id,
         conversationId,
         method: 'CREDIT_CARD',
         status: 'PENDING',
-        amount,
+        amount: basket.amount,
         currency: 'TRY',
-        iyzicoToken: result.token,
-        checkoutFormUrl,
-        expiresAt: new Date(Date.now() + 30 * 60 * 1000),
+        gateway: gateway.key,
+        gatewayReference: session.reference,
+        checkoutUrl: session.checkoutUrl,
+        expiresAt: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes
       },
     });
+  }
 
-    logger.info(
-      { tenantId, orderId, paymentId: payment.id, amount },
-      'Addition payment initiated',
-    );
+  /**
+   * Store a gateway result on a pending payment; PENDING results change nothing.
+   * The write only applies while the payment is still PENDING, so when the
+   * callback and a status refresh race, only the winner runs completion.
+   */
+  private async applyResult(payment: OrderPayment, result: GatewayPaymentResult): Promise<PaymentOutcome> {
+    if (result.status === 'PENDING') {
+      return this.toOutcome(payment, true);
+    }
 
-    return this.mapToDto(payment);
+    const data: Prisma.OrderPaymentUpdateManyMutationInput =
+      result.status === 'FAILED'
+        ? { status: 'FAILED', errorMessage: result.error || 'Payment failed' }
+        : {
+            status: result.status,
+            gatewayPaymentId: result.gatewayPaymentId ?? payment.gatewayPaymentId,
+            ...(result.status === 'SUCCESS' && { paidAt: new Date() }),
+          };
+
+    const claimed = await prisma.orderPayment.updateMany({
+      where: { id: payment.id, status: 'PENDING' },
+      data,
+    });
+    const updated = await prisma.orderPayment.findUniqueOrThrow({ where: { id: payment.id } });
+
+    if (claimed.count === 0) {
+      logger.info(
+        { paymentId: payment.id, orderId: payment.orderId, status: updated.status },
+        'Payment result already stored by a concurrent update — skipping',
+      );
+      return this.toOutcome(updated, true);
+    }
+
+    if (result.status === 'FAILED') {
+      logger.warn(
+        { paymentId: payment.id, orderId: payment.orderId, error: result.error },
+        'Payment failed',
+      );
+    } else {
+      logger.info(
+        { paymentId: payment.id, orderId: payment.orderId, gateway: payment.gateway, status: result.status },
+        'Payment successful',
+      );
+    }
+    return this.toOutcome(updated, false);
   }
 
-  // ==================== HELPERS ====================
+  private toOutcome(payment: OrderPayment, alreadyProcessed: boolean): PaymentOutcome {
+    return {
+      // An authorization is as good as a payment for the order flow
+      success: payment.status === 'SUCCESS' || payment.status === 'AUTHORIZED',
+      orderId: payment.orderId,
+      tenantId: payment.tenantId,
+      conversationId: payment.conversationId,
+      paymentId: payment.gatewayPaymentId || undefined,
+      alreadyProcessed,
+    };
+  }
+
+  private toRef(payment: OrderPayment): GatewayPaymentRef {
+    return {
+      gatewayReference: payment.gatewayReference,
+      gatewayPaymentId: payment.gatewayPaymentId,
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      refundedAmount: Number(payment.refundedAmount),
+    };
+  }
 
   private mapToDto(payment: any): OrderPaymentDto {
     return {
@@ -392,8 +485,10 @@ export class OrderPaymentService {
       method: payment.method,
       status: payment.status,
       amount: Number(payment.amount),
+      refundedAmount: Number(payment.refundedAmount),
       currency: payment.currency,
-      checkoutFormUrl: payment.checkoutFormUrl,
+      gateway: payment.gateway,
+      checkoutUrl: payment.checkoutUrl,
       expiresAt: payment.expiresAt?.toISOString() || null,
       paidAt: payment.paidAt?.toISOString() || null,
       createdAt: payment.createdAt.toISOString(),
@@ -0,0 +1,183 @@
+import prisma from '../db/prisma';
+import { AppError } from '../middleware/error-handler';
+import { createLogger } from '../logger';
+import { OrderStatus, OrderStatusEventDto } from '@whatres/shared';
+import { Prisma } from '@prisma/client';
+import { loyaltyService } from './loyalty.service';
+
+const logger = createLogger();
+
+/** Who changed the status */
+export type OrderStatusActor =
+  | { type: 'USER'; userId: string }
+  | { type: 'BOT' }
+  | { type: 'POS' }
+  | { type: 'SYSTEM' }
+  | { type: 'COURIER' };
+
+/** Shape returned by transition(), same as the order DTO mapping expects */
+const ORDER_INCLUDE = {
+  items: true,
+  store: { select: { id: true, name: true } },
+} satisfies Prisma.OrderInclude;
+
+/**
+ * Allowed next statuses. DELIVERED means handed to the courier's customer
+ * for DELIVERY orders and picked up at the counter for PICKUP orders.
+ * READY → PREPARING is the kitchen recall.
+ */
+const DELIVERY_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  DRAFT: ['PENDING_CONFIRMATION', 'CANCELLED'],
+  PENDING_CONFIRMATION: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['PREPARING', 'READY', 'CANCELLED'],
+  PREPARING: ['READY', 'CANCELLED'],
+  READY: ['DELIVERED', 'PREPARING'],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+/** Pickup orders can also be cancelled when the customer never shows up */
+const PICKUP_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  ...DELIVERY_TRANSITIONS,
+  READY: ['DELIVERED', 'PREPARING', 'CANCELLED'],
+};
+
+/** Order column stamped when the order enters a status */
+const STATUS_TIMESTAMPS: Partial<Record<OrderStatus, keyof Prisma.OrderUpdateInput>> = {
+  PENDING_CONFIRMATION: 'submittedAt',
+  CONFIRMED: 'confirmedAt',
+  PREPARING: 'preparingAt',
+  READY: 'readyAt',
+  DELIVERED: 'deliveredAt',
+  CANCELLED: 'cancelledAt',
+};
+
+export interface TransitionOptions {
+  reason?: string | null;
+  /** Extra columns written together with the status */
+  data?: Prisma.OrderUpdateInput;
+}
+
+export class OrderStatusService {
+  // ==================== TRANSITIONS ====================
+
+  getAllowedTransitions(deliveryType: string | null, from: OrderStatus): OrderStatus[] {
+    const graph = deliveryType === 'PICKUP' ? PICKUP_TRANSITIONS : DELIVERY_TRANSITIONS;
+    return graph[from];
+  }
+
+  canTransition(deliveryType: string | null, from: OrderStatus, to: OrderStatus): boolean {
+    return this.getAllowedTransitions(deliveryType, from).includes(to);
+  }
+
+  /**
+   * Move an order to a new status: validates the step, stamps the status
+   * timestamp and records the history event; delivery also books the order
+   * on the customer's loyalty card. The update is conditional on the status
+   * the caller read, so concurrent changes fail with 409 instead of silently
+   * overwriting each other.
+   *
+   * Pass a transaction client to join the caller's transaction.
+   */
+  async transition(
+    tenantId: string,
+    order: { id: string; status: string; deliveryType: string | null },
+    to: OrderStatus,
+    actor: OrderStatusActor,
+    options: TransitionOptions = {},
+    db: Prisma.TransactionClient = prisma
+  ) {
+    const from = order.status as OrderStatus;
+    if (!this.canTransition(order.deliveryType, from, to)) {
+      throw new AppError(
+        400,
+        'INVALID_TRANSITION',
+        `Cannot change order status from ${from} to ${to}`
+      );
+    }
+
+    const now = new Date();
+    const data: Prisma.OrderUpdateInput = { ...options.data, status: to };
+    const timestampField = STATUS_TIMESTAMPS[to];
+    if (timestampField) {
+      (data as Record<string, unknown>)[timestampField] = now;
+    }
+
+    const apply = async (tx: Prisma.TransactionClient) => {
+      let updated;
+      try {
+        updated = await tx.order.update({
+          where: { id: order.id, tenantId, status: from },
+          data,
+          include: ORDER_INCLUDE,
+        });
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+          throw new AppError(409, 'STATUS_CONFLICT', 'Order status was changed by someone else');
+        }
+        throw error;
+      }
+
+      await tx.orderStatusEvent.create({
+        data: {
+          tenantId,
+          orderId: order.id,
+          fromStatus: from,
+          toStatus: to,
+          actorType: actor.type,
+          actorUserId: actor.type === 'USER' ? actor.userId : null,
+          reason: options.reason || null,
+          createdAt: now,
+        },
+      });
+
+      if (to === 'DELIVERED') {
+        await loyaltyService.settleOrder(tx, tenantId, updated);
+      }
+
+      return updated;
+    };
+
+    const updated = db === prisma ? await prisma.$transaction(apply) : await apply(db);
+
+    logger.info(
+      { tenantId, orderId: order.id, from, to, actor: actor.type },
+      'Order status changed'
+    );
+
+    return updated;
+  }
+
+  // ==================== HISTORY ====================
+
+  async getHistory(tenantId: string, orderId: string): Promise<OrderStatusEventDto[]> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      select: { id: true },
+    });
+
+    if (!order) {
+      throw new AppError(404, 'ORDER_NOT_FOUND', 'Order not found');
+    }
+
+    const events = await prisma.orderStatusEvent.findMany({
+      where: { orderId, tenantId },
+      include: { actorUser: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return events.map((event) => ({
+      id: event.id,
+      orderId: event.orderId,
+      fromStatus: event.fromStatus as OrderStatus,
+      toStatus: event.toStatus as OrderStatus,
+      actorType: event.actorType,
+      actorUserId: event.actorUserId,
+      actorName: event.actorUser?.name || null,
+      reason: event.reason,
+      createdAt: event.createdAt.toISOString(),
+    }));
+  }
+}
+
+export const orderStatusService = new OrderStatusService();
@@ -2,22 +2,39 @@ import prisma from '../db/prisma';
 import { AppError } from '../middleware/error-handler';
 import { createLogger } from '../logger';
 import {
+  CreateOrderAdjustmentDto,
+  OrderAdjustmentChangeDto,
+  OrderAdjustmentDto,
   OrderDto,
   OrderStatus,
   ConfirmOrderDto,
   OrderListQueryDto,
+  PrintJobItem,
   PrintJobPayload,
+  PrintJobType,
+  TemplateEvent,
 } from '@whatres/shared';
 import { Prisma } from '@prisma/client';
 import { chatbotService } from './chatbot.service';
 import { whatsappService } from './whatsapp.service';
 import { whatsappProviderService } from './whatsapp-provider.service';
 import { whatsappConfigService } from './whatsapp-config.service';
-import { TEMPLATES } from './message-templates';
+import { botCopyService } from './bot-copy.service';
+import { TemplateVariables } from './message-template.service';
 import { orderPaymentService } from './order-payment.service';
+import { PartialRefundError } from './payments';
 import { posIntegrationService } from './pos-integration.service';
 import { inboxService } from './inbox.service';
 import { billingService } from './billing.service';
+import { realtimeService } from './realtime.service';
+import { kitchenStationService, StationRouting } from './kitchen-station.service';
+import { preOrderService } from './pre-order.service';
+import { storeCapacityService } from './store-capacity.service';
+import { orderStatusService, OrderStatusActor } from './order-status.service';
+import { courierService } from './courier.service';
+import { menuService } from './menu.service';
+import { loyaltyService } from './loyalty.service';
+import { assertAdjustable } from './order-adjustment';
 
 const logger = createLogger();
 
@@ -43,6 +60,8 @@ export class OrderService {
         include: { 
           items: true,
           store: { select: { id: true, name: true } },
+          delivery: { include: { courier: { select: { name: true } } } },
+          coupon: { select: { code: true } },
         },
         orderBy: { createdAt: 'desc' },
         take: query.limit || 50,
@@ -63,6 +82,8 @@ export class OrderService {
       include: { 
         items: true,
         store: { select: { id: true, name: true } },
+        delivery: { include: { courier: { select: { name: true } } } },
+        coupon: { select: { code: true } },
       },
     });
 
@@ -104,11 +125,14 @@ export class OrderService {
   /**
    * Move order to PENDING_CONFIRMATION status (customer submitted, awaiting restaurant approval).
    * Called by conversation flow after payment is completed.
+   * A pre-order takes its slot here and fails with SLOT_FULL when the slot filled up,
+   * unless it is already paid online: that order keeps its slot over capacity.
    */
   async setPendingConfirmation(
     tenantId: string,
     orderId: string,
     dto: ConfirmOrderDto,
+    options: { paid?: boolean } = {}
   ): Promise<OrderDto> {
     const order = await prisma.order.findFirst({
       where: { id: orderId, tenantId },
@@ -143,22 +167,28 @@ export class OrderService {
       }
     }
 
-    const updatedOrder = await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: 'PENDING_CONFIRMATION',
-        orderNumber,
-        storeId,
-        paymentMethod: dto.paymentMethod || order.paymentMethod,
-        deliveryAddress: dto.deliveryAddress || order.deliveryAddress,
-        notes: dto.notes || order.notes,
-        customerPhone: order.conversation.customerPhone,
-        customerName: order.conversation.customerName,
-      },
-      include: {
-        items: true,
-        store: { select: { id: true, name: true } },
-      },
+    const updatedOrder = await prisma.$transaction(async (tx) => {
+      if (order.scheduledFor && !order.parentOrderId && !options.paid) {
+        await preOrderService.reserveSlot(tx, tenantId, orderId, order.scheduledFor);
+      }
+      return orderStatusService.transition(
+        tenantId,
+        order,
+        'PENDING_CONFIRMATION',
+        { type: 'BOT' },
+        {
+          data: {
+            orderNumber,
+            store: storeId ? { connect: { id: storeId } } : undefined,
+            paymentMethod: dto.paymentMethod || order.paymentMethod,
+            deliveryAddress: dto.deliveryAddress || order.deliveryAddress,
+            notes: dto.notes || order.notes,
+            customerPhone: order.conversation.customerPhone,
+            customerName: order.conversation.customerName,
+          },
+        },
+        tx
+      );
     });
 
     logger.info(
@@ -166,6 +196,13 @@ export class OrderService {
       'Order set to PENDING_CONFIRMATION',
     );
 
+    realtimeService.publish(tenantId, {
+      type: 'order.created',
+      orderId,
+      orderNumber,
+      status: 'PENDING_CONFIRMATION',
+    });
+
     // Push order to POS if integration is configured (non-blocking)
     posIntegrationService.pushOrder(tenantId, orderId).catch((err) => {
       logger.error({ tenantId, orderId, error: err.message }, 'POS pushOrder failed');
@@ -189,7 +226,8 @@ export class OrderService {
   async confirmOrder(
     tenantId: string,
     orderId: string,
-    dto: ConfirmOrderDto
+    dto: ConfirmOrderDto,
+    actor: OrderStatusActor,
   ): Promise<OrderDto> {
     const order = await prisma.order.findFirst({
       where: { id: orderId, tenantId },
@@ -207,29 +245,54 @@ export class OrderService {
       throw new AppError(400, 'INVALID_STATUS', `Cannot confirm order with status ${order.status}. Order must be in PENDING_CONFIRMATION.`);
     }
 
+    // Pre-order tickets stay held until shortly before the requested time
+    const holdUntil = await preOrderService.getPrintHoldUntil(tenantId, order.scheduledFor);
+
+    // Ready-time estimate from the store's queue, taken before this order joins it
+    const etaMinutes =
+      order.storeId && !order.scheduledFor && !order.parentOrderId
+        ? await storeCapacityService.estimateReadyMinutes(tenantId, order.storeId).catch(() => null)
+        : null;
+
+    // Settle card authorizations before the kitchen starts on the order
+    try {
+      await orderPaymentService.capturePayments(tenantId, orderId);
+    } catch (error) {
+      logger.error({ error, tenantId, orderId }, 'Failed to capture order payment');
+      throw new AppError(502, 'PAYMENT_CAPTURE_FAILED', 'Card payment could not be captured');
+    }
+
     // Update order
     const confirmedOrder = await prisma.$transaction(async (tx) => {
-      const updated = await tx.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'CONFIRMED',
-          confirmedAt: new Date(),
-          deliveryAddress: dto.deliveryAddress || order.deliveryAddress,
-          paymentMethod: dto.paymentMethod || order.paymentMethod,
-          notes: dto.notes || order.notes,
-        },
-        include: {
-          items: true,
-          store: { select: { id: true, name: true } },
+      const updated = await orderStatusService.transition(
+        tenantId,
+        order,
+        'CONFIRMED',
+        actor,
+        {
+          data: {
+            deliveryAddress: dto.deliveryAddress || order.deliveryAddress,
+            paymentMethod: dto.paymentMethod || order.paymentMethod,
+            notes: dto.notes || order.notes,
+          },
         },
-      });
+        tx,
+      );
 
       // Create print jobs
-      await this.createPrintJobs(tx, tenantId, updated);
+      await this.createPrintJobs(tx, tenantId, updated, holdUntil);
 
       return updated;
     });
 
+    realtimeService.publish(tenantId, {
+      type: 'order.status_changed',
+      orderId,
+      orderNumber: confirmedOrder.orderNumber,
+      status: 'CONFIRMED',
+    });
+    realtimeService.publish(tenantId, { type: 'print_job.created', orderId });
+
     // Count this toward the tenant's monthly order quota. Additions to an
     // existing order don't count as a new order. Failures here must never block
     // the confirmation, so we swallow errors.
@@ -244,10 +307,23 @@ export class OrderService {
     // Send WhatsApp notification to customer
     try {
       const isAddition = !!confirmedOrder.parentOrderId;
-      const message = isAddition
-        ? TEMPLATES.additionApproved(confirmedOrder.orderNumber || 0)
-        : TEMPLATES.restaurantApproved(confirmedOrder.orderNumber || 0);
-      await whatsappService.sendText(tenantId, order.conversationId, message);
+      const t = await botCopyService.getTemplates(
+        tenantId,
+        await inboxService.getConversationLanguage(tenantId, order.conversationId),
+      );
+      let message = isAddition
+        ? t.additionApproved(confirmedOrder.orderNumber || 0)
+        : t.restaurantApproved(confirmedOrder.orderNumber || 0);
+      if (etaMinutes) {
+        message += `\n${t.prepEstimate(etaMinutes)}`;
+      }
+      await whatsappService.sendNotification(
+        tenantId,
+        order.conversationId,
+        'ORDER_CONFIRMED',
+        message,
+        this.notificationVariables(confirmedOrder),
+      );
     } catch (error) {
       logger.error({ error, tenantId, orderId }, 'Failed to send confirmation notification to customer');
     }
@@ -265,15 +341,26 @@ export class OrderService {
   async updateOrderStatus(
     tenantId: string,
     orderId: string,
-    status: OrderStatus
+    status: OrderStatus,
+    actor: OrderStatusActor,
+    reason?: string | null,
   ): Promise<OrderDto> {
-    const order = await prisma.order.update({
+    const current = await prisma.order.findFirst({
       where: { id: orderId, tenantId },
-      data: { status },
-      include: {
-        items: true,
-        store: { select: { id: true, name: true } },
-      },
+      select: { id: true, status: true, deliveryType: true },
+    });
+
+    if (!current) {
+      throw new AppError(404, 'ORDER_NOT_FOUND', 'Order not found');
+    }
+
+    const order = await orderStatusService.transition(tenantId, current, status, actor, { reason });
+
+    realtimeService.publish(tenantId, {
+      type: 'order.status_changed',
+      orderId,
+      orderNumber: order.orderNumber,
+      status,
     });
 
     // Send notification for status change (system message in DB)
@@ -281,25 +368,37 @@ export class OrderService {
 
     // Send real WhatsApp message to customer
     if (order.conversationId && order.orderNumber) {
-      const messageMap: Partial<Record<OrderStatus, string>> = {
-        PREPARING: TEMPLATES.orderPreparing(order.orderNumber),
-        READY: TEMPLATES.orderReady(order.orderNumber),
-        DELIVERED: TEMPLATES.orderDelivered(order.orderNumber),
-        CANCELLED: TEMPLATES.orderCancelledNotification(order.orderNumber),
+      const t = await botCopyService.getTemplates(
+        tenantId,
+        await inboxService.getConversationLanguage(tenantId, order.conversationId),
+      );
+      const messageMap: Partial<Record<OrderStatus, [TemplateEvent, string]>> = {
+        PREPARING: ['ORDER_PREPARING', t.orderPreparing(order.orderNumber)],
+        READY: ['ORDER_READY', t.orderReady(order.orderNumber)],
+        DELIVERED: ['ORDER_DELIVERED', t.orderDelivered(order.orderNumber)],
+        CANCELLED: ['ORDER_CANCELLED', t.orderCancelledNotification(order.orderNumber)],
       };
 
-      const whatsappMessage = messageMap[status];
-      if (whatsappMessage) {
+      const notification = messageMap[status];
+      if (notification) {
         try {
-          await whatsappService.sendText(tenantId, order.conversationId, whatsappMessage);
+          const [event, whatsappMessage] = notification;
+          await whatsappService.sendNotification(
+            tenantId,
+            order.conversationId,
+            event,
+            whatsappMessage,
+            this.notificationVariables(order),
+          );
 
           // Send satisfaction survey after delivery
           if (status === 'DELIVERED') {
-            await this.sendSurvey(tenantId, order.conversationId, orderId, order.orderNumber);
+            await this.sendLoyaltyEarning(tenantId, order.conversationId, orderId);
+            await this.sendSurvey(tenantId, order.conversationId, orderId, order.orderNumber, order.customerName);
 
             // Track broadcast conversion (async, non-blocking)
             import('./broadcast.service').then(({ broadcastService }) => {
-              broadcastService.trackConversion(tenantId, order.customerPhone || '').catch(() => {});
+              broadcastService.trackConversion(tenantId, order.customerPhone || '', order.couponId).catch(() => {});
             }).catch(() => {});
 
             // Learn customer preferences from delivered order (async, non-blocking)
@@ -335,24 +434,31 @@ export class OrderService {
   private async createPrintJobs(
     tx: Prisma.TransactionClient,
     tenantId: string,
-    order: any
+    order: any,
+    holdUntil: Date | null
   ): Promise<void> {
+    const routing = await kitchenStationService.routeItems(
+      tenantId,
+      order.storeId,
+      order.items as any[],
+      tx
+    );
+
     const basePayload = {
       orderNumber: order.orderNumber,
       timestamp: new Date().toISOString(),
+      storeId: order.storeId || null,
       storeName: order.store?.name || null,
-      items: order.items.map((item: any) => ({
-        name: item.menuItemName,
-        qty: item.qty,
-        options: (item.optionsJson as any[])?.map((o) => o.optionName) || [],
-        notes: item.notes,
-      })),
+      items: order.items.map((item: any) => this.toPrintJobItem(item)),
       notes: order.notes,
     };
 
-    // Kitchen receipt
+    // Kitchen receipt (the summary ticket when stations are configured)
     const kitchenPayload: PrintJobPayload = {
       ...basePayload,
+      items: order.items.map((item: any) =>
+        this.toPrintJobItem(item, routing.stationByItem.get(item)?.name)
+      ),
     };
 
     await tx.printJob.create({
@@ -362,9 +468,12 @@ export class OrderService {
         type: 'KITCHEN',
         status: 'PENDING',
         payloadJson: kitchenPayload as any,
+        holdUntil,
       },
     });
 
+    await this.createStationPrintJobs(tx, tenantId, order.id, basePayload, routing, holdUntil);
+
     // Courier receipt
     const courierPayload: PrintJobPayload = {
       ...basePayload,
@@ -382,14 +491,58 @@ export class OrderService {
         type: 'COURIER',
         status: 'PENDING',
         payloadJson: courierPayload as any,
+        holdUntil,
       },
     });
   }
 
+  /**
+   * One STATION job per routed station, holding only that station's items
+   */
+  private async createStationPrintJobs<T>(
+    db: Prisma.TransactionClient,
+    tenantId: string,
+    orderId: string,
+    basePayload: PrintJobPayload,
+    routing: StationRouting<T>,
+    holdUntil: Date | null = null
+  ): Promise<void> {
+    for (const ticket of routing.tickets) {
+      const stationPayload: PrintJobPayload = {
+        ...basePayload,
+        stationId: ticket.station.id,
+        stationName: ticket.station.name,
+        items: ticket.items.map((item) => this.toPrintJobItem(item)),
+      };
+
+      await db.printJob.create({
+        data: {
+          tenantId,
+          orderId,
+          type: 'STATION',
+          stationId: ticket.station.id,
+          status: 'PENDING',
+          payloadJson: stationPayload as any,
+          holdUntil,
+        },
+      });
+    }
+  }
+
+  private toPrintJobItem(item: any, station?: string): PrintJobItem {
+    return {
+      name: item.menuItemName,
+      qty: item.qty,
+      options: (item.optionsJson as any[])?.map((o: any) => o.optionName) || [],
+      notes: item.notes,
+      ...(station && { station }),
+    };
+  }
+
   async reprintOrder(
     tenantId: string,
     orderId: string,
-    type: 'KITCHEN' | 'COURIER'
+    type: PrintJobType
   ): Promise<void> {
     const order = await prisma.order.findFirst({
       where: { id: orderId, tenantId },
@@ -407,16 +560,16 @@ export class OrderService {
       throw new AppError(400, 'INVALID_STATUS', 'Cannot reprint draft order');
     }
 
+    const routing = await kitchenStationService.routeItems(tenantId, order.storeId, order.items);
+
     const payload: PrintJobPayload = {
       orderNumber: order.orderNumber || 0,
       timestamp: new Date().toISOString(),
+      storeId: order.storeId || null,
       storeName: order.store?.name || null,
-      items: order.items.map((item) => ({
-        name: item.menuItemName,
-        qty: item.qty,
-        options: (item.optionsJson as any[])?.map((o: any) => o.optionName) || [],
-        notes: item.notes,
-      })),
+      items: order.items.map((item) =>
+        this.toPrintJobItem(item, type === 'KITCHEN' ? routing.stationByItem.get(item)?.name : undefined)
+      ),
       notes: order.notes,
       ...(type === 'COURIER'
         ? {
@@ -429,16 +582,24 @@ export class OrderService {
         : {}),
     };
 
-    await prisma.printJob.create({
-      data: {
-        tenantId,
-        orderId,
-        type,
-        status: 'PENDING',
-        payloadJson: payload as any,
-      },
-    });
+    if (type === 'STATION') {
+      if (routing.tickets.length === 0) {
+        throw new AppError(400, 'NO_STATIONS', 'No kitchen station prepares items of this order');
+      }
+      await this.createStationPrintJobs(prisma, tenantId, orderId, payload, routing);
+    } else {
+      await prisma.printJob.create({
+        data: {
+          tenantId,
+          orderId,
+          type,
+          status: 'PENDING',
+          payloadJson: payload as any,
+        },
+      });
+    }
 
+    realtimeService.publish(tenantId, { type: 'print_job.created', orderId });
     logger.info({ tenantId, orderId, type }, 'Reprint job created');
   }
 
@@ -517,17 +678,15 @@ export class OrderService {
         include: { items: true, store: { select: { id: true, name: true } } },
       });
 
-      // Kitchen print job for added items only
+      // Kitchen print job for added items only, held along with the pre-order
+      const holdUntil = await preOrderService.getPrintHoldUntil(tenantId, updated.scheduledFor);
+      const routing = await kitchenStationService.routeItems(tenantId, updated.storeId, items, tx);
       const additionPayload: PrintJobPayload = {
         orderNumber: updated.orderNumber || 0,
         timestamp: addedAt.toISOString(),
+        storeId: updated.storeId || null,
         storeName: (updated as any).store?.name || null,
-        items: items.map((i) => ({
-          name: i.menuItemName,
-          qty: i.qty,
-          options: (i.optionsJson as any[])?.map((o: any) => o.optionName) || [],
-          notes: i.notes,
-        })),
+        items: items.map((i) => this.toPrintJobItem(i, routing.stationByItem.get(i)?.name)),
         notes: `EKLEME - Siparis #${updated.orderNumber}`,
       };
 
@@ -538,9 +697,19 @@ export class OrderService {
           type: 'KITCHEN',
           status: 'PENDING',
           payloadJson: additionPayload as any,
+          holdUntil,
         },
       });
 
+      await this.createStationPrintJobs(
+        tx,
+        tenantId,
+        orderId,
+        { ...additionPayload, items: [] },
+        routing,
+        holdUntil
+      );
+
       return updated;
     });
 
@@ -549,6 +718,13 @@ export class OrderService {
       'Items added to existing order',
     );
 
+    realtimeService.publish(tenantId, {
+      type: 'order.updated',
+      orderId,
+      orderNumber: result.orderNumber,
+    });
+    realtimeService.publish(tenantId, { type: 'print_job.created', orderId });
+
     return this.mapToDto(result);
   }
 
@@ -587,6 +763,7 @@ export class OrderService {
     tenantId: string,
     orderId: string,
     reason: string,
+    actor: OrderStatusActor,
   ): Promise<OrderDto> {
     const order = await prisma.order.findFirst({
       where: { id: orderId, tenantId },
@@ -601,22 +778,29 @@ export class OrderService {
       throw new AppError(400, 'INVALID_STATUS', `Cannot reject order with status ${order.status}`);
     }
 
-    const updated = await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: 'CANCELLED',
-        rejectionReason: reason,
-      },
-      include: { items: true, store: { select: { id: true, name: true } } },
+    const updated = await orderStatusService.transition(tenantId, order, 'CANCELLED', actor, {
+      reason,
+      data: { rejectionReason: reason },
+    });
+
+    realtimeService.publish(tenantId, {
+      type: 'order.status_changed',
+      orderId,
+      orderNumber: updated.orderNumber,
+      status: 'CANCELLED',
     });
 
     // Send WhatsApp notification
     try {
       const orderNumber = updated.orderNumber || 0;
       const isAddition = !!updated.parentOrderId;
+      const t = await botCopyService.getTemplates(
+        tenantId,
+        await inboxService.getConversationLanguage(tenantId, order.conversationId),
+      );
       const message = isAddition
-        ? TEMPLATES.additionRejected(orderNumber, reason)
-        : TEMPLATES.orderRejected(orderNumber, reason);
+        ? t.additionRejected(orderNumber, reason)
+        : t.orderRejected(orderNumber, reason);
       await whatsappService.sendText(tenantId, order.conversationId, message);
     } catch (error) {
       logger.error({ error, tenantId, orderId }, 'Failed to send rejection notification');
@@ -624,17 +808,21 @@ export class OrderService {
 
     // Initiate refund for card payment
     const successfulCardPayment = (order.orderPayments as any[]).find(
-      (p) => p.method === 'CREDIT_CARD' && p.status === 'SUCCESS'
+      (p) => p.method === 'CREDIT_CARD' && (p.status === 'SUCCESS' || p.status === 'AUTHORIZED')
     );
     if (successfulCardPayment) {
       try {
         await orderPaymentService.initiateRefund(tenantId, successfulCardPayment.id);
         // Notify customer about refund
         try {
+          const t = await botCopyService.getTemplates(
+            tenantId,
+            await inboxService.getConversationLanguage(tenantId, order.conversationId),
+          );
           await whatsappService.sendText(
             tenantId,
             order.conversationId,
-            TEMPLATES.refundInitiated(updated.orderNumber || 0),
+            t.refundInitiated(updated.orderNumber || 0),
           );
         } catch (_) { /* ignore */ }
       } catch (error) {
@@ -646,6 +834,326 @@ export class OrderService {
     return this.mapToDto(updated);
   }
 
+  // ==================== ADJUSTMENTS ====================
+
+  /**
+   * Change a confirmed order: remove or replace items, change quantities,
+   * give a goodwill discount. Recalculates the total, refunds the difference
+   * to the card, reprints the tickets and tells the customer what changed.
+   */
+  async adjustOrder(
+    tenantId: string,
+    orderId: string,
+    dto: CreateOrderAdjustmentDto,
+    actor: OrderStatusActor,
+  ): Promise<OrderDto> {
+    const order = await prisma.order.findFirst({
+      where: { id: orderId, tenantId },
+      include: { items: true, store: { select: { id: true, name: true } }, orderPayments: true },
+    });
+
+    if (!order) {
+      throw new AppError(404, 'ORDER_NOT_FOUND', 'Order not found');
+    }
+
+    assertAdjustable(order, dto.changes);
+
+    // Item price changes keep the order's pickup discount
+    const keep = 1 - (order.discountPercent ?? 0) / 100;
+    const round = (n: number) => Math.round(n * 100) / 100;
+    const previousTotal = Number(order.totalPrice);
+
+    const touched = new Set<string>();
+    const changes: OrderAdjustmentChangeDto[] = [];
+    const itemUpdates: Array<{ itemId: string; data: Prisma.OrderItemUpdateInput | null }> = [];
+    let discount = 0;
+    let itemDelta = 0;
+
+    for (const change of dto.changes) {
+      if (change.type === 'DISCOUNT') {
+        discount += change.amount;
+        changes.push({
+          type: 'DISCOUNT',
+          itemName: null,
+          fromQty: null,
+          toQty: null,
+          replacementName: null,
+          amount: -round(change.amount),
+        });
+        continue;
+      }
+
+      const item = order.items.find((i) => i.id === change.itemId);
+      if (!item) {
+        throw new AppError(404, 'ITEM_NOT_FOUND', 'Order item not found');
+      }
+      if (touched.has(item.id)) {
+        throw new AppError(400, 'DUPLICATE_ITEM', 'An item can only be changed once per adjustment');
+      }
+      touched.add(item.id);
+
+      const lineTotal = Number(item.unitPrice) * item.qty;
+      if (change.type === 'REMOVE_ITEM') {
+        itemDelta -= lineTotal;
+        itemUpdates.push({ itemId: item.id, data: null });
+        changes.push({
+          type: 'REMOVE_ITEM',
+          itemName: item.menuItemName,
+          fromQty: item.qty,
+          toQty: 0,
+          replacementName: null,
+          amount: -round(lineTotal * keep),
+        });
+      } else if (change.type === 'CHANGE_QTY') {
+        if (change.qty === item.qty) continue;
+        itemDelta += Number(item.unitPrice) * change.qty - lineTotal;
+        itemUpdates.push({ itemId: item.id, data: { qty: change.qty } });
+        changes.push({
+          type: 'CHANGE_QTY',
+          itemName: item.menuItemName,
+          fromQty: item.qty,
+          toQty: change.qty,
+          replacementName: null,
+          amount: round((Number(item.unitPrice) * change.qty - lineTotal) * keep),
+        });
+      } else {
+        const replacement = await this.findMenuItem(tenantId, change.menuItemId);
+        const qty = change.qty ?? item.qty;
+        itemDelta += replacement.effectivePrice * qty - lineTotal;
+        itemUpdates.push({
+          itemId: item.id,
+          data: {
+            menuItemId: replacement.id,
+            menuItemName: replacement.name,
+            unitPrice: replacement.effectivePrice,
+            qty,
+            optionsJson: Prisma.DbNull,
+            extrasJson: Prisma.DbNull,
+            prepStartedAt: null,
+            bumpedAt: null,
+          },
+        });
+        changes.push({
+          type: 'REPLACE_ITEM',
+          itemName: item.menuItemName,
+          fromQty: item.qty,
+          toQty: qty,
+          replacementName: replacement.name,
+          amount: round((replacement.effectivePrice * qty - lineTotal) * keep),
+        });
+      }
+    }
+
+    if (changes.length === 0) {
+      throw new AppError(400, 'NO_CHANGES', 'The adjustment does not change the order');
+    }
+    if (itemUpdates.filter((u) => u.data === null).length >= order.items.length) {
+      throw new AppError(400, 'EMPTY_ORDER', 'Removing every item cancels the order; cancel it instead');
+    }
+
+    const newTotal = round(previousTotal + changes.reduce((sum, c) => sum + c.amount, 0));
+    if (newTotal < 0) {
+      throw new AppError(400, 'NEGATIVE_TOTAL', 'The discount is larger than the order total');
+    }
+
+    // Card money can only go back; raising the total is for orders paid on delivery
+    const cardBalance = round(
+      order.orderPayments
+        .filter((p) => p.method === 'CREDIT_CARD' && (p.status === 'SUCCESS' || p.status === 'AUTHORIZED'))
+        .reduce((sum, p) => sum + Number(p.amount) - Number(p.refundedAmount), 0),
+    );
+    if (cardBalance > 0 && newTotal > previousTotal) {
+      throw new AppError(400, 'TOTAL_INCREASE', 'Adjustments cannot raise the total of a card-paid order');
+    }
+    const refundDue = cardBalance > 0 ? round(Math.min(previousTotal - newTotal, cardBalance)) : 0;
+
+    const holdUntil = await preOrderService.getPrintHoldUntil(tenantId, order.scheduledFor);
+    const itemDiscount = itemDelta * (1 - keep);
+
+    const { updated, adjustment } = await prisma.$transaction(async (tx) => {
+      // Only applies to the order as read above: a concurrent adjustment (or
+      // status change) makes this match nothing, so its refund is not paid twice
+      const claimed = await tx.order.updateMany({
+        where: {
+          id: orderId,
+          tenantId,
+          status: order.status,
+          totalPrice: order.totalPrice,
+          updatedAt: order.updatedAt,
+        },
+        data: {
+          totalPrice: newTotal,
+          ...((discount > 0 || itemDiscount !== 0) && {
+            discountAmount: round(Number(order.discountAmount ?? 0) + itemDiscount + discount),
+          }),
+        },
+      });
+      if (claimed.count === 0) {
+        throw new AppError(409, 'ORDER_CHANGED', 'The order was changed meanwhile; reload it and try again');
+      }
+
+      for (const update of itemUpdates) {
+        if (update.data) {
+          await tx.orderItem.update({ where: { id: update.itemId }, data: update.data });
+        } else {
+          await tx.orderItem.delete({ where: { id: update.itemId } });
+        }
+      }
+
+      const updated = await tx.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: { items: true, store: { select: { id: true, name: true } } },
+      });
+
+      const adjustment = await tx.orderAdjustment.create({
+        data: {
+          tenantId,
+          orderId,
+          actorType: actor.type,
+          actorUserId: actor.type === 'USER' ? actor.userId : null,
+          reason: dto.reason || null,
+          changesJson: changes as unknown as Prisma.InputJsonValue,
+          previousTotal,
+          newTotal,
+          refundAmount: refundDue,
+          refundStatus: refundDue > 0 ? 'PENDING' : null,
+        },
+      });
+
+      await this.createPrintJobs(
+        tx,
+        tenantId,
+        {
+          ...updated,
+          notes: [
+            `DEGISIKLIK - Siparis #${updated.orderNumber}`,
+            ...changes.map((c) => this.describeAdjustment(c, true)),
+            updated.notes,
+          ]
+            .filter(Boolean)
+            .join('\n'),
+        },
+        holdUntil
+      );
+
+      return { updated, adjustment };
+    });
+
+    logger.info(
+      { tenantId, orderId, previousTotal, newTotal, refundDue, changes: changes.length },
+      'Order adjusted',
+    );
+
+    realtimeService.publish(tenantId, {
+      type: 'order.updated',
+      orderId,
+      orderNumber: updated.orderNumber,
+    });
+    realtimeService.publish(tenantId, { type: 'print_job.created', orderId });
+
+    let refunded = 0;
+    if (refundDue > 0) {
+      try {
+        refunded = await orderPaymentService.refundOrderAmount(tenantId, orderId, refundDue);
+        await prisma.orderAdjustment.update({
+          where: { id: adjustment.id },
+          data: { refundStatus: 'SUCCESS', refundAmount: refunded },
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // Part of it may have gone back before the failure; the customer hears about that part
+        if (error instanceof PartialRefundError) refunded = error.refunded;
+        logger.error({ error, tenantId, orderId, refundDue, refunded }, 'Failed to refund order adjustment');
+        await prisma.orderAdjustment.update({
+          where: { id: adjustment.id },
+          data: { refundStatus: 'FAILED', refundError: message },
+        });
+      }
+    }
+
+    if (dto.notifyCustomer !== false) {
+      try {
+        const t = await botCopyService.getTemplates(
+          tenantId,
+          await inboxService.getConversationLanguage(tenantId, order.conversationId),
+        );
+        const orderNumber = updated.orderNumber || 0;
+        await whatsappService.sendText(
+          tenantId,
+          order.conversationId,
+          t.orderAdjusted(orderNumber, changes.map((c) => this.describeAdjustment(c)).join('\n'), newTotal),
+        );
+        if (refunded > 0) {
+          await whatsappService.sendText(
+            tenantId,
+            order.conversationId,
+            t.partialRefundInitiated(orderNumber, refunded),
+          );
+        }
+      } catch (error) {
+        logger.error({ error, tenantId, orderId }, 'Failed to send adjustment notification');
+      }
+    }
+
+    return this.mapToDto(updated);
+  }
+
+  async getAdjustments(tenantId: string, orderId: string): Promise<OrderAdjustmentDto[]> {
+    const adjustments = await prisma.orderAdjustment.findMany({
+      where: { tenantId, orderId },
+      include: { actorUser: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return adjustments.map((a) => ({
+      id: a.id,
+      orderId: a.orderId,
+      actorType: a.actorType,
+      actorUserId: a.actorUserId,
+      actorName: a.actorUser?.name || null,
+      reason: a.reason,
+      changes: a.changesJson as unknown as OrderAdjustmentChangeDto[],
+      previousTotal: Number(a.previousTotal),
+      newTotal: Number(a.newTotal),
+      refundAmount: Number(a.refundAmount),
+      refundStatus: (a.refundStatus as OrderAdjustmentDto['refundStatus']) ?? null,
+      refundError: a.refundError,
+      createdAt: a.createdAt.toISOString(),
+    }));
+  }
+
+  /** One line per change: symbols for the customer, plain text for printers */
+  private describeAdjustment(change: OrderAdjustmentChangeDto, forPrint = false): string {
+    switch (change.type) {
+      case 'REMOVE_ITEM':
+        return forPrint
+          ? `IPTAL: ${change.fromQty}x ${change.itemName}`
+          : `➖ ${change.fromQty}x ${change.itemName}`;
+      case 'CHANGE_QTY':
+        return forPrint
+          ? `ADET: ${change.itemName} ${change.fromQty} -> ${change.toQty}`
+          : `✏️ ${change.itemName}: ${change.fromQty} → ${change.toQty}`;
+      case 'REPLACE_ITEM':
+        return forPrint
+          ? `DEGISTI: ${change.itemName} -> ${change.toQty}x ${change.replacementName}`
+          : `🔁 ${change.itemName} → ${change.toQty}x ${change.replacementName}`;
+      case 'DISCOUNT':
+        return forPrint
+          ? `INDIRIM: ${change.amount.toFixed(2)} TL`
+          : `🎁 ${change.amount.toFixed(2)} TL`;
+    }
+  }
+
+  /** Active item of the published menu, at its current (discounted) price */
+  private async findMenuItem(tenantId: string, menuItemId: string) {
+    const menu = await menuService.getPublishedMenu(tenantId);
+    const item = menu?.categories.flatMap((c) => c.items).find((i) => i.id === menuItemId);
+    if (!item || !item.isActive) {
+      throw new AppError(404, 'MENU_ITEM_NOT_FOUND', 'Menu item not found');
+    }
+    return item;
+  }
+
   // ==================== HELPERS ====================
 
   private async getNextOrderNumber(tenantId: string): Promise<number> {
@@ -678,7 +1186,13 @@ export class OrderService {
 
     const deliveryAddr = order.deliveryAddress ? `\n🏠 Adres: ${order.deliveryAddress}` : '';
 
-    const message = `🔔 *YENİ SİPARİŞ #${order.orderNumber}*\n\n👤 ${customerName}\n📱 ${customerPhone}\n\n📋 *Ürünler:*\n${items}\n\n💰 *Toplam: ${Number(order.totalPrice)} TL*${deliveryAddr}${mapsLink}`;
+    let scheduled = '';
+    if (order.scheduledFor) {
+      const { date, time } = preOrderService.describe(order.scheduledFor);
+      scheduled = `\n⏰ *Ön sipariş: ${date} ${time}*`;
+    }
+
+    const message = `🔔 *YENİ SİPARİŞ #${order.orderNumber}*${scheduled}\n\n👤 ${customerName}\n📱 ${customerPhone}\n\n📋 *Ürünler:*\n${items}\n\n💰 *Toplam: ${Number(order.totalPrice)} TL*${deliveryAddr}${mapsLink}`;
 
     // Get WhatsApp credentials for sending
     const waConfig = await whatsappConfigService.getDecryptedConfig(tenantId);
@@ -756,6 +1270,7 @@ export class OrderService {
       customerName: order.customerName,
       deliveryAddress: order.deliveryAddress,
       paymentMethod: order.paymentMethod,
+      deliveryType: order.deliveryType || null,
       items: order.items.map((item: any) => ({
         id: item.id,
         orderId: item.orderId,
@@ -770,9 +1285,27 @@ export class OrderService {
       })),
       parentOrderId: order.parentOrderId || null,
       rejectionReason: order.rejectionReason || null,
+      scheduledFor: order.scheduledFor?.toISOString() || null,
+      couponCode: order.coupon?.code || null,
+      couponDiscount: Number(order.couponDiscount ?? 0),
+      loyaltyPointsUsed: order.loyaltyPointsUsed ?? 0,
+      loyaltyDiscount: Number(order.loyaltyDiscount ?? 0),
       createdAt: order.createdAt.toISOString(),
       updatedAt: order.updatedAt.toISOString(),
+      submittedAt: order.submittedAt?.toISOString() || null,
       confirmedAt: order.confirmedAt?.toISOString() || null,
+      preparingAt: order.preparingAt?.toISOString() || null,
+      readyAt: order.readyAt?.toISOString() || null,
+      deliveredAt: order.deliveredAt?.toISOString() || null,
+      cancelledAt: order.cancelledAt?.toISOString() || null,
+      allowedTransitions: orderStatusService.getAllowedTransitions(
+        order.deliveryType || null,
+        order.status as OrderStatus,
+      ),
+      delivery:
+        order.delivery && order.delivery.status !== 'CANCELLED'
+          ? courierService.mapDelivery(order.delivery)
+          : null,
     };
   }
 
@@ -784,6 +1317,7 @@ export class OrderService {
     conversationId: string,
     orderId: string,
     orderNumber: number,
+    customerName: string | null,
   ): Promise<void> {
     try {
       // Small delay so delivered message arrives first
@@ -798,17 +1332,79 @@ export class OrderService {
         },
       });
 
+      // Buttons need an open session window; otherwise fall back to the
+      // mapped template and accept a typed rating in reply
+      const t = await botCopyService.getTemplates(
+        tenantId,
+        await inboxService.getConversationLanguage(tenantId, conversationId),
+      );
+      if (!(await inboxService.isSessionWindowOpen(tenantId, conversationId))) {
+        await whatsappService.sendNotification(
+          tenantId,
+          conversationId,
+          'SURVEY_REQUEST',
+          t.surveyAsk(orderNumber),
+          { orderNumber, customerName },
+        );
+        return;
+      }
+
       // Send survey buttons
       await whatsappService.sendInteractiveButtons(
         tenantId,
         conversationId,
-        TEMPLATES.surveyAsk(orderNumber),
-        TEMPLATES.surveyButtons.buttons,
+        t.surveyAsk(orderNumber),
+        t.surveyButtons.buttons,
       );
     } catch (error) {
       logger.warn({ error, tenantId, orderId }, 'Failed to send satisfaction survey');
     }
   }
+
+  /**
+   * Tell the customer what the delivered order added to their card. Only
+   * inside the session window: it is a courtesy, not worth a paid template.
+   */
+  private async sendLoyaltyEarning(
+    tenantId: string,
+    conversationId: string,
+    orderId: string,
+  ): Promise<void> {
+    try {
+      const earning = await loyaltyService.getEarning(tenantId, orderId);
+      if (!earning || !(await inboxService.isSessionWindowOpen(tenantId, conversationId))) return;
+
+      const t = await botCopyService.getTemplates(
+        tenantId,
+        await inboxService.getConversationLanguage(tenantId, conversationId),
+      );
+      const { settings } = earning;
+      const text =
+        settings.type === 'POINTS'
+          ? t.loyaltyPointsEarned(earning.earnedPoints, earning.points)
+          : t.loyaltyStampsEarned(
+              earning.earnedStamps,
+              earning.stamps,
+              settings.stampsRequired,
+              settings.stampItemName ?? '',
+            );
+      await whatsappService.sendText(tenantId, conversationId, text);
+    } catch (error) {
+      logger.warn({ error, tenantId, orderId }, 'Failed to send loyalty earning');
+    }
+  }
+
+  /**
+   * Fields an order notification can put into a mapped template
+   */
+  private notificationVariables(order: any): TemplateVariables {
+    return {
+      orderNumber: order.orderNumber,
+      customerName: order.customerName,
+      storeName: order.store?.name,
+      totalPrice: order.totalPrice !== undefined ? Number(order.totalPrice).toFixed(2) : undefined,
+    };
+  }
 }
 
 export const orderService = new OrderService();
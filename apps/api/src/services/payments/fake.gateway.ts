@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import { createLogger } from '../../logger';
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  GatewayPaymentRef,
+  GatewayPaymentResult,
+  PaymentGateway,
+} from './payment-gateway';
+
+const logger = createLogger();
+
+const APP_BASE_URL = process.env.APP_BASE_URL || 'http://localhost:3000';
+const API_PREFIX = process.env.API_PREFIX || '/api';
+
+export type FakeOutcome = 'success' | 'authorize' | 'fail';
+
+/**
+ * Local checkout for development and end-to-end tests: GET
+ * /payments/fake/:reference shows a page whose buttons post the chosen
+ * outcome to the fake callback. No money moves and state lives in memory.
+ */
+export class FakeGateway implements PaymentGateway {
+  readonly key = 'fake' as const;
+  readonly notifiesServerToServer = false;
+
+  private sessions = new Map<
+    string,
+    { amount: number; currency: string; status: GatewayPaymentResult['status'] }
+  >();
+
+  async createCheckout(_tenantId: string, request: CheckoutRequest): Promise<CheckoutSession> {
+    const reference = `fake_${crypto.randomUUID()}`;
+    this.sessions.set(reference, {
+      amount: request.amount,
+      currency: request.currency,
+      status: 'PENDING',
+    });
+
+    return { reference, checkoutUrl: `${APP_BASE_URL}${API_PREFIX}/payments/fake/${reference}` };
+  }
+
+  /** Amount and currency of an open checkout, for the checkout page */
+  getSession(reference: string): { amount: number; currency: string } | null {
+    const session = this.sessions.get(reference);
+    return session?.status === 'PENDING' ? session : null;
+  }
+
+  callbackReference(body: Record<string, unknown>): string | null {
+    return typeof body.reference === 'string' && body.reference ? body.reference : null;
+  }
+
+  async verifyCallback(
+    _tenantId: string,
+    payment: GatewayPaymentRef,
+    body: Record<string, unknown>
+  ): Promise<GatewayPaymentResult> {
+    const outcome = body.outcome as FakeOutcome;
+    const status =
+      outcome === 'success' ? 'SUCCESS' : outcome === 'authorize' ? 'AUTHORIZED' : 'FAILED';
+    this.setStatus(payment, status);
+
+    if (status === 'FAILED') return { status, error: 'Declined on the fake checkout page' };
+    return { status, gatewayPaymentId: payment.gatewayReference ?? undefined };
+  }
+
+  async capture(_tenantId: string, payment: GatewayPaymentRef): Promise<void> {
+    this.setStatus(payment, 'SUCCESS');
+    logger.info({ reference: payment.gatewayReference }, 'Fake payment captured');
+  }
+
+  async refund(_tenantId: string, payment: GatewayPaymentRef, amount?: number): Promise<void> {
+    logger.info(
+      { reference: payment.gatewayReference, amount: amount ?? payment.amount },
+      'Fake payment refunded'
+    );
+  }
+
+  async queryStatus(_tenantId: string, payment: GatewayPaymentRef): Promise<GatewayPaymentResult> {
+    const session = payment.gatewayReference ? this.sessions.get(payment.gatewayReference) : null;
+    return { status: session?.status ?? 'PENDING' };
+  }
+
+  private setStatus(payment: GatewayPaymentRef, status: GatewayPaymentResult['status']): void {
+    if (!payment.gatewayReference) return;
+    this.sessions.set(payment.gatewayReference, {
+      amount: payment.amount,
+      currency: payment.currency,
+      status,
+    });
+  }
+}
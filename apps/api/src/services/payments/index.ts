@@ -0,0 +1,44 @@
+import { getConfig } from '@whatres/config';
+import { PaymentGatewayKey } from '@whatres/shared';
+import prisma from '../../db/prisma';
+import { FakeGateway } from './fake.gateway';
+import { IyzicoGateway } from './iyzico.gateway';
+import { PaymentGateway } from './payment-gateway';
+import { PaytrGateway } from './paytr.gateway';
+
+export * from './payment-gateway';
+
+export const fakeGateway = new FakeGateway();
+
+const gateways: Record<PaymentGatewayKey, PaymentGateway> = {
+  iyzico: new IyzicoGateway(),
+  paytr: new PaytrGateway(),
+  fake: fakeGateway,
+};
+
+/** Gateways a tenant can choose; the fake one never in production */
+export function availablePaymentGateways(): PaymentGatewayKey[] {
+  const keys = Object.keys(gateways) as PaymentGatewayKey[];
+  return getConfig().server.nodeEnv === 'production' ? keys.filter((k) => k !== 'fake') : keys;
+}
+
+export function isPaymentGatewayKey(key: string): key is PaymentGatewayKey {
+  return (availablePaymentGateways() as string[]).includes(key);
+}
+
+/** @throws Error for unknown or unavailable gateway keys */
+export function getPaymentGateway(key: string): PaymentGateway {
+  if (!isPaymentGatewayKey(key)) {
+    throw new Error(`Unknown payment gateway: ${key}`);
+  }
+  return gateways[key];
+}
+
+/** The gateway selected on the tenant's integrations page */
+export async function getTenantPaymentGateway(tenantId: string): Promise<PaymentGateway> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { paymentGateway: true },
+  });
+  return getPaymentGateway(tenant?.paymentGateway ?? 'iyzico');
+}
@@ -0,0 +1,161 @@
+import { iyzicoService } from '../iyzico.service';
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  GatewayPaymentRef,
+  GatewayPaymentResult,
+  PartialRefundError,
+  PaymentGateway,
+} from './payment-gateway';
+
+/** iyzico Checkout Form on the tenant's own iyzico account */
+export class IyzicoGateway implements PaymentGateway {
+  readonly key = 'iyzico' as const;
+  readonly notifiesServerToServer = false;
+
+  async createCheckout(tenantId: string, request: CheckoutRequest): Promise<CheckoutSession> {
+    const result = await iyzicoService.initializeCheckoutForm(tenantId, {
+      price: request.amount.toFixed(2),
+      paidPrice: request.amount.toFixed(2),
+      basketId: request.basketId,
+      conversationId: `ord-${request.basketId.slice(0, 15)}`,
+      callbackUrl: request.callbackUrl,
+      buyer: {
+        id: `cust-${request.buyer.phone.replace(/[^a-zA-Z0-9]/g, '').slice(0, 20)}`,
+        name: request.buyer.name,
+        surname: 'Musteri',
+        gsmNumber: request.buyer.phone,
+        email: request.buyer.email,
+        identityNumber: '11111111111',
+        ip: request.buyer.ip,
+        city: 'Istanbul',
+        country: 'Turkey',
+        address: request.buyer.address,
+        zipCode: '34000',
+      },
+      basketItems: request.items.map((item) => ({
+        id: item.id,
+        name: item.name,
+        category1: 'Yemek',
+        itemType: 'PHYSICAL' as const,
+        price: item.price.toFixed(2),
+      })),
+    });
+
+    if (!result.success || !result.token || !result.paymentPageUrl) {
+      throw new Error(result.error || 'iyzico checkout form creation failed');
+    }
+
+    return { reference: result.token, checkoutUrl: result.paymentPageUrl };
+  }
+
+  callbackReference(body: Record<string, unknown>): string | null {
+    return typeof body.token === 'string' && body.token ? body.token : null;
+  }
+
+  /** The callback only carries the token; the outcome is read back from iyzico */
+  async verifyCallback(
+    tenantId: string,
+    payment: GatewayPaymentRef
+  ): Promise<GatewayPaymentResult> {
+    return this.queryStatus(tenantId, payment);
+  }
+
+  /** Checkout Form payments are sales, there is nothing to capture */
+  async capture(): Promise<void> {
+    return;
+  }
+
+  async refund(tenantId: string, payment: GatewayPaymentRef, amount?: number): Promise<void> {
+    if (amount === undefined) {
+      if (!payment.gatewayPaymentId) {
+        throw new Error('No iyzico payment id to refund');
+      }
+
+      const result = await iyzicoService.cancelPayment(tenantId, payment.gatewayPaymentId);
+      if (!result.success) {
+        throw new Error(result.error || 'Refund failed');
+      }
+      return;
+    }
+
+    await this.refundPartially(tenantId, payment, amount);
+  }
+
+  async queryStatus(tenantId: string, payment: GatewayPaymentRef): Promise<GatewayPaymentResult> {
+    if (!payment.gatewayReference) return { status: 'PENDING' };
+
+    const result = await iyzicoService.retrieveCheckoutFormResult(
+      tenantId,
+      payment.gatewayReference
+    );
+    if (!result.success) {
+      return { status: 'FAILED', error: result.error || 'Payment failed' };
+    }
+    if (result.paymentStatus === 'SUCCESS') {
+      return { status: 'SUCCESS', gatewayPaymentId: result.paymentId };
+    }
+    return { status: 'FAILED', error: result.error || 'Payment failed' };
+  }
+
+  /**
+   * iyzico refunds per basket item. Earlier partial refunds used the items
+   * in the same order, so they are skipped by amount before this one is
+   * spread over what is left. A failure after some items went back reports
+   * their sum as a PartialRefundError.
+   */
+  private async refundPartially(
+    tenantId: string,
+    payment: GatewayPaymentRef,
+    amount: number
+  ): Promise<void> {
+    if (!payment.gatewayReference) {
+      throw new Error('No iyzico token to refund');
+    }
+
+    const detail = await iyzicoService.retrieveCheckoutFormResult(
+      tenantId,
+      payment.gatewayReference
+    );
+    if (!detail.success || !detail.itemTransactions?.length) {
+      throw new Error(detail.error || 'iyzico payment items not found');
+    }
+
+    let alreadyRefunded = payment.refundedAmount;
+    let remaining = Math.round(amount * 100);
+    for (const item of detail.itemTransactions) {
+      if (remaining <= 0) break;
+
+      let available = Math.round(Number(item.paidPrice) * 100);
+      const used = Math.min(available, Math.round(alreadyRefunded * 100));
+      available -= used;
+      alreadyRefunded -= used / 100;
+
+      const part = Math.min(available, remaining);
+      if (part <= 0) continue;
+
+      const result = await iyzicoService.refundPaymentTransaction(
+        tenantId,
+        item.paymentTransactionId,
+        part / 100
+      );
+      if (!result.success) {
+        throw this.refundError(result.error || 'Refund failed', amount, remaining);
+      }
+      remaining -= part;
+    }
+
+    if (remaining > 0) {
+      throw this.refundError(
+        'Refund exceeds the refundable amount of the payment',
+        amount,
+        remaining
+      );
+    }
+  }
+
+  private refundError(message: string, amount: number, remainingCents: number): Error {
+    const refunded = (Math.round(amount * 100) - remainingCents) / 100;
+    return refunded > 0 ? new PartialRefundError(message, refunded) : new Error(message);
+  }
+}
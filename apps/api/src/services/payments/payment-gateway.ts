@@ -0,0 +1,102 @@
+import { PaymentGatewayKey } from '@whatres/shared';
+
+export interface CheckoutItem {
+  id: string;
+  name: string;
+  /** Line total */
+  price: number;
+}
+
+export interface CheckoutRequest {
+  /** Our id for the checkout, unique per payment attempt */
+  basketId: string;
+  amount: number;
+  currency: string;
+  items: CheckoutItem[];
+  buyer: {
+    name: string;
+    phone: string;
+    email: string;
+    address: string;
+    ip: string;
+  };
+  /** Where the gateway posts its result (browser redirect or server notification) */
+  callbackUrl: string;
+  /** Where a gateway that notifies server-to-server sends the customer's browser */
+  returnUrl: string;
+}
+
+export interface CheckoutSession {
+  /** Identifies the payment in the gateway's callback */
+  reference: string;
+  checkoutUrl: string;
+}
+
+export interface GatewayPaymentResult {
+  status: 'PENDING' | 'AUTHORIZED' | 'SUCCESS' | 'FAILED';
+  gatewayPaymentId?: string;
+  error?: string;
+}
+
+/** The stored payment fields a gateway needs after checkout */
+export interface GatewayPaymentRef {
+  gatewayReference: string | null;
+  gatewayPaymentId: string | null;
+  amount: number;
+  currency: string;
+  /** Partial refunds made so far */
+  refundedAmount: number;
+}
+
+/**
+ * A refund that failed after part of the money already went back (iyzico
+ * refunds item by item). Callers must record `refunded` before retrying.
+ */
+export class PartialRefundError extends Error {
+  constructor(
+    message: string,
+    readonly refunded: number
+  ) {
+    super(message);
+    this.name = 'PartialRefundError';
+  }
+}
+
+/**
+ * Hosted-checkout payment provider for order payments. Implementations work
+ * with the tenant's own merchant account and throw on transport or provider
+ * errors.
+ */
+export interface PaymentGateway {
+  readonly key: PaymentGatewayKey;
+  /**
+   * True when the callback is a server-to-server notification that must be
+   * acknowledged with plain "OK"; false when it is the customer's browser
+   * coming back from the checkout page.
+   */
+  readonly notifiesServerToServer: boolean;
+
+  createCheckout(tenantId: string, request: CheckoutRequest): Promise<CheckoutSession>;
+
+  /** The payment reference carried by a callback body, null if it has none */
+  callbackReference(body: Record<string, unknown>): string | null;
+
+  /** Check the callback's authenticity and read the payment outcome */
+  verifyCallback(
+    tenantId: string,
+    payment: GatewayPaymentRef,
+    body: Record<string, unknown>
+  ): Promise<GatewayPaymentResult>;
+
+  /** Settle an AUTHORIZED payment */
+  capture(tenantId: string, payment: GatewayPaymentRef): Promise<void>;
+
+  /**
+   * Refund a settled payment, or release an authorization. Without an amount
+   * the whole (never partially refunded) payment goes back.
+   * @throws PartialRefundError when it fails after refunding part of the amount
+   */
+  refund(tenantId: string, payment: GatewayPaymentRef, amount?: number): Promise<void>;
+
+  queryStatus(tenantId: string, payment: GatewayPaymentRef): Promise<GatewayPaymentResult>;
+}
@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import prisma from '../../db/prisma';
+import { createLogger } from '../../logger';
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  GatewayPaymentRef,
+  GatewayPaymentResult,
+  PaymentGateway,
+} from './payment-gateway';
+
+const logger = createLogger();
+
+const PAYTR_BASE_URL = 'https://www.paytr.com';
+
+interface PaytrConfig {
+  merchantId: string;
+  merchantKey: string;
+  merchantSalt: string;
+  testMode: boolean;
+}
+
+/**
+ * PayTR iFrame API. The result reaches us as a signed server-to-server
+ * notification; the customer's browser is sent to the return URL.
+ *
+ * @see https://dev.paytr.com/iframe-api
+ */
+export class PaytrGateway implements PaymentGateway {
+  readonly key = 'paytr' as const;
+  readonly notifiesServerToServer = true;
+
+  async createCheckout(tenantId: string, request: CheckoutRequest): Promise<CheckoutSession> {
+    const config = await this.getConfig(tenantId);
+
+    // merchant_oid must be alphanumeric and unique per attempt
+    const merchantOid = `${request.basketId.replace(/[^a-zA-Z0-9]/g, '')}${crypto
+      .randomBytes(4)
+      .toString('hex')}`;
+    const paymentAmount = String(Math.round(request.amount * 100));
+    const userBasket = Buffer.from(
+      JSON.stringify(request.items.map((item) => [item.name, item.price.toFixed(2), 1]))
+    ).toString('base64');
+    const noInstallment = '1';
+    const maxInstallment = '0';
+    const currency = request.currency === 'TRY' ? 'TL' : request.currency;
+    const testMode = config.testMode ? '1' : '0';
+
+    const paytrToken = this.sign(
+      config,
+      config.merchantId +
+        request.buyer.ip +
+        merchantOid +
+        request.buyer.email +
+        paymentAmount +
+        userBasket +
+        noInstallment +
+        maxInstallment +
+        currency +
+        testMode +
+        config.merchantSalt
+    );
+
+    const result = await this.post<{ status: string; token?: string; reason?: string }>(
+      '/odeme/api/get-token',
+      {
+        merchant_id: config.merchantId,
+        user_ip: request.buyer.ip,
+        merchant_oid: merchantOid,
+        email: request.buyer.email,
+        payment_amount: paymentAmount,
+        paytr_token: paytrToken,
+        user_basket: userBasket,
+        debug_on: config.testMode ? '1' : '0',
+        no_installment: noInstallment,
+        max_installment: maxInstallment,
+        user_name: request.buyer.name,
+        user_address: request.buyer.address,
+        user_phone: request.buyer.phone,
+        merchant_ok_url: `${request.returnUrl}?status=success`,
+        merchant_fail_url: `${request.returnUrl}?status=failed`,
+        timeout_limit: '30',
+        currency,
+        test_mode: testMode,
+        lang: 'tr',
+      }
+    );
+
+    if (result.status !== 'success' || !result.token) {
+      throw new Error(result.reason || 'PayTR checkout creation failed');
+    }
+
+    return {
+      reference: merchantOid,
+      checkoutUrl: `${PAYTR_BASE_URL}/odeme/guvenli/${result.token}`,
+    };
+  }
+
+  callbackReference(body: Record<string, unknown>): string | null {
+    return typeof body.merchant_oid === 'string' && body.merchant_oid ? body.merchant_oid : null;
+  }
+
+  async verifyCallback(
+    tenantId: string,
+    payment: GatewayPaymentRef,
+    body: Record<string, unknown>
+  ): Promise<GatewayPaymentResult> {
+    const config = await this.getConfig(tenantId);
+    const { merchant_oid, status, total_amount, hash } = body as Record<string, string>;
+
+    const expected = this.sign(config, merchant_oid + config.merchantSalt + status + total_amount);
+    if (
+      typeof hash !== 'string' ||
+      hash.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(expected))
+    ) {
+      throw new Error('PayTR callback hash mismatch');
+    }
+
+    if (status === 'success') {
+      return { status: 'SUCCESS', gatewayPaymentId: merchant_oid };
+    }
+    return {
+      status: 'FAILED',
+      error: (body.failed_reason_msg as string) || 'Payment failed',
+    };
+  }
+
+  /** iFrame API payments are sales, there is nothing to capture */
+  async capture(): Promise<void> {
+    return;
+  }
+
+  async refund(tenantId: string, payment: GatewayPaymentRef, amount?: number): Promise<void> {
+    if (!payment.gatewayReference) {
+      throw new Error('No PayTR merchant_oid to refund');
+    }
+
+    const config = await this.getConfig(tenantId);
+    const returnAmount = (amount ?? payment.amount).toFixed(2);
+    const result = await this.post<{ status: string; err_msg?: string }>('/odeme/iade', {
+      merchant_id: config.merchantId,
+      merchant_oid: payment.gatewayReference,
+      return_amount: returnAmount,
+      paytr_token: this.sign(
+        config,
+        config.merchantId + payment.gatewayReference + returnAmount + config.merchantSalt
+      ),
+    });
+
+    if (result.status !== 'success') {
+      throw new Error(result.err_msg || 'Refund failed');
+    }
+  }
+
+  async queryStatus(tenantId: string, payment: GatewayPaymentRef): Promise<GatewayPaymentResult> {
+    if (!payment.gatewayReference) return { status: 'PENDING' };
+
+    const config = await this.getConfig(tenantId);
+    const result = await this.post<{ status: string; err_msg?: string }>('/odeme/durum-sorgu', {
+      merchant_id: config.merchantId,
+      merchant_oid: payment.gatewayReference,
+      paytr_token: this.sign(
+        config,
+        config.merchantId + payment.gatewayReference + config.merchantSalt
+      ),
+    });
+
+    // PayTR only knows completed payments; anything else is still open
+    if (result.status === 'success') {
+      return { status: 'SUCCESS', gatewayPaymentId: payment.gatewayReference };
+    }
+    return { status: 'PENDING', error: result.err_msg };
+  }
+
+  // ==================== HELPERS ====================
+
+  private async getConfig(tenantId: string): Promise<PaytrConfig> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: {
+        paytrMerchantId: true,
+        paytrMerchantKey: true,
+        paytrMerchantSalt: true,
+        paytrTestMode: true,
+      },
+    });
+
+    if (!tenant?.paytrMerchantId || !tenant.paytrMerchantKey || !tenant.paytrMerchantSalt) {
+      throw new Error(
+        'Bu işletme için PayTR yapılandırması yapılmamış. Entegrasyonlar sayfasından PayTR mağaza bilgilerini girin.'
+      );
+    }
+
+    return {
+      merchantId: tenant.paytrMerchantId,
+      merchantKey: tenant.paytrMerchantKey,
+      merchantSalt: tenant.paytrMerchantSalt,
+      testMode: tenant.paytrTestMode,
+    };
+  }
+
+  private sign(config: PaytrConfig, data: string): string {
+    return crypto.createHmac('sha256', config.merchantKey).update(data).digest('base64');
+  }
+
+  private async post<T>(path: string, params: Record<string, string>): Promise<T> {
+    const response = await fetch(`${PAYTR_BASE_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(params).toString(),
+      signal: AbortSignal.timeout(20_000),
+    });
+
+    const text = await response.text();
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      logger.error({ path, status: response.status }, 'Unexpected PayTR response');
+      throw new Error(`PayTR request failed (HTTP ${response.status})`);
+    }
+  }
+}
@@ -1,5 +1,8 @@
 import prisma from '../db/prisma';
 import { createLogger } from '../logger';
+import { OrderStatus } from '@whatres/shared';
+import { realtimeService } from './realtime.service';
+import { orderStatusService } from './order-status.service';
 import { menuService } from './menu.service';
 
 const logger = createLogger();
@@ -482,12 +485,12 @@ export class PosIntegrationService {
     }
 
     // Map POS status → WhatRes status
-    const statusMap: Record<string, string> = {
+    const statusMap: Record<string, OrderStatus> = {
       PENDING: 'PENDING_CONFIRMATION',
       CONFIRMED: 'CONFIRMED',
       PREPARING: 'PREPARING',
       READY: 'READY',
-      OUT_FOR_DELIVERY: 'DELIVERING',
+      OUT_FOR_DELIVERY: 'READY',
       DELIVERED: 'DELIVERED',
       SERVED: 'DELIVERED',
       COMPLETED: 'DELIVERED',
@@ -500,9 +503,10 @@ export class PosIntegrationService {
       return null;
     }
 
-    // Don't update if already in same or later status
+    // Ignore repeats and steps the lifecycle doesn't allow (e.g. a late
+    // CONFIRMED after PREPARING)
     const currentStatus = order.status;
-    if (currentStatus === whatresStatus || currentStatus === 'DELIVERED' || currentStatus === 'CANCELLED') {
+    if (!orderStatusService.canTransition(order.deliveryType, currentStatus, whatresStatus)) {
       logger.info(
         { tenantId, orderId: order.id, currentStatus, newStatus: whatresStatus },
         'Sipariş zaten bu durumda veya ilerlemede',
@@ -511,9 +515,14 @@ export class PosIntegrationService {
     }
 
     // Update order status
-    await prisma.order.update({
-      where: { id: order.id },
-      data: { status: whatresStatus as any },
+    await orderStatusService.transition(tenantId, order, whatresStatus, { type: 'POS' }, {
+      reason: `POS: ${newStatus}`,
+    });
+    realtimeService.publish(tenantId, {
+      type: 'order.status_changed',
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      status: whatresStatus,
     });
 
     logger.info(
@@ -0,0 +1,397 @@
+import prisma from '../db/prisma';
+import { AppError } from '../middleware/error-handler';
+import { Prisma } from '@prisma/client';
+import { PreOrderSettingsDto } from '@whatres/shared';
+import { storeService } from './store.service';
+import {
+  DAY_KEYS,
+  DEFAULT_TIMEZONE,
+  DayKey,
+  describeLocal,
+  localParts,
+  zonedTime,
+} from '../utils/zoned-time';
+
+/** Same zone the working-hours guard in the conversation flow uses */
+const TIMEZONE = DEFAULT_TIMEZONE;
+
+/** Whole-word match that also works for Cyrillic and Arabic (\b is ASCII-only) */
+function words(...alternatives: string[]): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'u');
+}
+
+/** Day words per supported language (Turkish letters folded), mapped to days from today */
+const RELATIVE_DAYS: Array<[RegExp, number]> = [
+  [words('obur gun', 'yarindan sonra', 'day after tomorrow', 'ubermorgen', 'послезавтра'), 2],
+  [words('yarin', 'tomorrow', 'morgen', 'завтра', 'غدا', 'غداً', 'بكرة'), 1],
+  [words('bugun', 'today', 'heute', 'сегодня', 'اليوم'), 0],
+];
+
+const WEEKDAYS: Array<[RegExp, number]> = [
+  [words('pazartesi', 'monday', 'montag'), 1],
+  [words('sali', 'tuesday', 'dienstag'), 2],
+  [words('carsamba', 'wednesday', 'mittwoch'), 3],
+  [words('persembe', 'thursday', 'donnerstag'), 4],
+  [words('cuma', 'friday', 'freitag'), 5],
+  [words('cumartesi', 'saturday', 'samstag'), 6],
+  [words('pazar', 'sunday', 'sonntag'), 0],
+];
+
+/** Turkish case suffix after a time, as in "12:30'da" or "13'te" */
+const SUFFIX = "(?:['’]?(?:ya|ye|da|de|ta|te|a|e)(?![\\p{L}]))?";
+/** "12:30", "12.30" (dot only next to a day word) */
+const CLOCK_PATTERN = new RegExp(`(?<!\\d)([01]?\\d|2[0-3])([:.])([0-5]\\d)(?!\\d)${SUFFIX}`, 'u');
+/** "saat 13", "at 7", "um 19" */
+const HOUR_PATTERN = new RegExp(
+  `${words('saat', 'at', 'um').source}\\s*([01]?\\d|2[0-3])(?!\\d)${SUFFIX}`,
+  'u'
+);
+const AFTERNOON_PATTERN = words('aksam', 'ogleden sonra', 'pm', 'abends', 'вечера');
+
+/** Words that carry no order content once the time is removed */
+const FILLER_WORDS = new Set([
+  'icin',
+  'saat',
+  'saatte',
+  'saatine',
+  'lutfen',
+  'siparis',
+  'olsun',
+  'teslim',
+  'aksam',
+  'ogle',
+  'ogleden',
+  'sonra',
+  'for',
+  'at',
+  'please',
+  'pm',
+  'am',
+  'um',
+  'uhr',
+  'bitte',
+  'abends',
+  'в',
+  'на',
+  'вечера',
+  'пожалуйста',
+  'الساعة',
+]);
+
+export type PreOrderRejection = 'TOO_SOON' | 'TOO_FAR' | 'CLOSED' | 'FULL';
+
+export type SlotCheck =
+  | { ok: true }
+  | { ok: false; reason: PreOrderRejection; suggestions: Date[] };
+
+export interface RequestedTime {
+  at: Date;
+  /** Nothing but the time was written, e.g. "yarın 12:30" */
+  timeOnly: boolean;
+}
+
+export class PreOrderService {
+  // ==================== SETTINGS ====================
+
+  async getSettings(tenantId: string): Promise<PreOrderSettingsDto> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: {
+        preOrderEnabled: true,
+        preOrderSlotMinutes: true,
+        preOrderSlotCapacity: true,
+        preOrderLeadMinutes: true,
+        preOrderMaxDays: true,
+      },
+    });
+
+    return {
+      enabled: tenant?.preOrderEnabled ?? false,
+      slotMinutes: tenant?.preOrderSlotMinutes ?? 15,
+      slotCapacity: tenant?.preOrderSlotCapacity ?? null,
+      leadMinutes: tenant?.preOrderLeadMinutes ?? 30,
+      maxDays: tenant?.preOrderMaxDays ?? 2,
+    };
+  }
+
+  async updateSettings(tenantId: string, dto: PreOrderSettingsDto): Promise<PreOrderSettingsDto> {
+    await prisma.tenant.update({
+      where: { id: tenantId },
+      data: {
+        preOrderEnabled: dto.enabled,
+        preOrderSlotMinutes: dto.slotMinutes,
+        preOrderSlotCapacity: dto.slotCapacity,
+        preOrderLeadMinutes: dto.leadMinutes,
+        preOrderMaxDays: dto.maxDays,
+      },
+    });
+
+    return this.getSettings(tenantId);
+  }
+
+  // ==================== PARSING ====================
+
+  /**
+   * Find a requested fulfilment time in free text ("yarın 12:30",
+   * "cuma saat 13", "19:00'da"). A clock time without a day word means the
+   * next time that clock time comes around.
+   */
+  parseRequestedTime(text: string, now = new Date()): RequestedTime | null {
+    let rest = this.fold(text);
+
+    let dayOffset: number | null = null;
+    for (const [pattern, offset] of RELATIVE_DAYS) {
+      if (pattern.test(rest)) {
+        dayOffset = offset;
+        rest = rest.replace(pattern, ' ');
+        break;
+      }
+    }
+
+    const today = localParts(now, TIMEZONE);
+    if (dayOffset === null) {
+      for (const [pattern, weekday] of WEEKDAYS) {
+        if (pattern.test(rest)) {
+          dayOffset = (weekday - today.weekday + 7) % 7;
+          rest = rest.replace(pattern, ' ');
+          break;
+        }
+      }
+    }
+
+    let hour: number;
+    let minute = 0;
+    const clock = rest.match(CLOCK_PATTERN);
+    // "12.50" alone is more likely a price than a time
+    if (clock && (clock[2] === ':' || dayOffset !== null)) {
+      hour = Number(clock[1]);
+      minute = Number(clock[3]);
+      rest = rest.replace(CLOCK_PATTERN, ' ');
+    } else {
+      const hourMatch = rest.match(HOUR_PATTERN);
+      if (!hourMatch) return null;
+      hour = Number(hourMatch[1]);
+      rest = rest.replace(HOUR_PATTERN, ' ');
+    }
+
+    if (hour < 12 && AFTERNOON_PATTERN.test(rest)) {
+      hour += 12;
+    }
+
+    let at = zonedTime(
+      TIMEZONE,
+      today.year,
+      today.month,
+      today.day + (dayOffset ?? 0),
+      hour,
+      minute
+    );
+    if (dayOffset === null && at <= now) {
+      at = zonedTime(TIMEZONE, today.year, today.month, today.day + 1, hour, minute);
+    }
+
+    const leftover = rest
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter((word) => word && !FILLER_WORDS.has(word));
+
+    return { at, timeOnly: leftover.length === 0 };
+  }
+
+  // ==================== SLOTS ====================
+
+  /**
+   * Check a requested time against the lead time, the booking horizon,
+   * working hours and slot capacity. Rejections come with the next few
+   * slots that would be accepted.
+   */
+  async checkSlot(
+    tenantId: string,
+    requested: Date,
+    options: { excludeOrderId?: string; now?: Date } = {}
+  ): Promise<SlotCheck> {
+    const now = options.now ?? new Date();
+    const settings = await this.getSettings(tenantId);
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { workingHours: true },
+    });
+
+    const earliest = new Date(now.getTime() + settings.leadMinutes * 60_000);
+    const latest = new Date(now.getTime() + settings.maxDays * 24 * 60 * 60_000);
+    const counts = await this.countBySlot(
+      tenantId,
+      settings.slotMinutes,
+      earliest,
+      latest,
+      options.excludeOrderId
+    );
+
+    const isAvailable = (at: Date) => {
+      if (!this.isOpenAt(tenant?.workingHours, at)) return false;
+      const taken = counts.get(this.slotStart(at, settings.slotMinutes).getTime()) ?? 0;
+      return settings.slotCapacity === null || taken < settings.slotCapacity;
+    };
+
+    let reason: PreOrderRejection | null = null;
+    if (requested < earliest) {
+      reason = 'TOO_SOON';
+    } else if (requested > latest) {
+      reason = 'TOO_FAR';
+    } else if (!this.isOpenAt(tenant?.workingHours, requested)) {
+      reason = 'CLOSED';
+    } else if (!isAvailable(requested)) {
+      reason = 'FULL';
+    }
+
+    if (!reason) return { ok: true };
+
+    // Suggestions start at the requested slot, or the earliest allowed one
+    const suggestions: Date[] = [];
+    const stepMs = settings.slotMinutes * 60_000;
+    const from = reason === 'TOO_SOON' || reason === 'TOO_FAR' ? earliest : requested;
+    let candidate = this.slotStart(from, settings.slotMinutes);
+    if (candidate < from) candidate = new Date(candidate.getTime() + stepMs);
+
+    while (candidate <= latest && suggestions.length < 3) {
+      if (isAvailable(candidate)) suggestions.push(candidate);
+      candidate = new Date(candidate.getTime() + stepMs);
+    }
+
+    return { ok: false, reason, suggestions };
+  }
+
+  /**
+   * Take the order's slot inside the transaction that submits it. checkSlot
+   * runs long before the customer pays, so two customers can both be told a
+   * slot is free; the per-slot lock makes the second submit wait for the
+   * first and count it. Throws SLOT_FULL when the slot filled up meanwhile.
+   */
+  async reserveSlot(
+    tx: Prisma.TransactionClient,
+    tenantId: string,
+    orderId: string,
+    scheduledFor: Date
+  ): Promise<void> {
+    const settings = await this.getSettings(tenantId);
+    if (settings.slotCapacity === null) return;
+
+    const slot = this.slotStart(scheduledFor, settings.slotMinutes);
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${tenantId}), hashtext(${slot.toISOString()}))`;
+
+    const slotEnd = new Date(slot.getTime() + settings.slotMinutes * 60_000 - 1);
+    const counts = await this.countBySlot(
+      tenantId,
+      settings.slotMinutes,
+      slot,
+      slotEnd,
+      orderId,
+      tx
+    );
+    if ((counts.get(slot.getTime()) ?? 0) >= settings.slotCapacity) {
+      throw new AppError(409, 'SLOT_FULL', 'The pre-order slot is fully booked');
+    }
+  }
+
+  /** When kitchen tickets of a pre-order may print, null = right away */
+  async getPrintHoldUntil(tenantId: string, scheduledFor: Date | null): Promise<Date | null> {
+    if (!scheduledFor) return null;
+
+    const { leadMinutes } = await this.getSettings(tenantId);
+    const releaseAt = new Date(scheduledFor.getTime() - leadMinutes * 60_000);
+    return releaseAt > new Date() ? releaseAt : null;
+  }
+
+  /** Now outside working hours, or every store closed (by hand or by its schedule) */
+  async isClosedNow(tenantId: string): Promise<boolean> {
+    const [tenant, allClosed] = await Promise.all([
+      prisma.tenant.findUnique({ where: { id: tenantId }, select: { workingHours: true } }),
+      storeService.areAllStoresClosed(tenantId),
+    ]);
+    return allClosed || !this.isOpenAt(tenant?.workingHours, new Date());
+  }
+
+  // ==================== FORMATTING ====================
+
+  /** Day key (mon…sun), "dd.mm" and "HH:MM" of a time in the restaurant's zone */
+  describe(at: Date): { dayKey: DayKey; date: string; time: string } {
+    return describeLocal(at, TIMEZONE);
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Working-hours check at any time, with the same rules as the flow's
+   * closed guard: closed days, 24h days and ranges that pass midnight.
+   * No working hours configured means always open.
+   */
+  private isOpenAt(workingHours: unknown, at: Date): boolean {
+    if (!workingHours || typeof workingHours !== 'object') return true;
+
+    const wh = workingHours as Record<string, any>;
+    const { weekday, hour, minute } = localParts(at, TIMEZONE);
+    const dayKey = DAY_KEYS[weekday];
+    const closedDays: string[] = Array.isArray(wh['closed']) ? wh['closed'] : [];
+    const schedule = wh[dayKey];
+
+    if (closedDays.includes(dayKey) || schedule?.closed === true) return false;
+    if (schedule?.allDay === true || (!!schedule?.open && schedule.open === schedule.close)) {
+      return true;
+    }
+    if (!schedule?.open || !schedule?.close) return true;
+
+    const time = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+    const { open, close } = schedule;
+    return open < close ? time >= open && time < close : time >= open || time < close;
+  }
+
+  /** Submitted pre-orders per slot start (ms) between from and to */
+  private async countBySlot(
+    tenantId: string,
+    slotMinutes: number,
+    from: Date,
+    to: Date,
+    excludeOrderId?: string,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<Map<number, number>> {
+    const orders = await db.order.findMany({
+      where: {
+        tenantId,
+        parentOrderId: null,
+        status: { notIn: ['DRAFT', 'CANCELLED'] },
+        scheduledFor: {
+          gte: this.slotStart(from, slotMinutes),
+          lte: to,
+        },
+        ...(excludeOrderId && { id: { not: excludeOrderId } }),
+      },
+      select: { scheduledFor: true },
+    });
+
+    const counts = new Map<number, number>();
+    for (const order of orders) {
+      const key = this.slotStart(order.scheduledFor!, slotMinutes).getTime();
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  /** Start of the slot containing the time, aligned to local midnight */
+  private slotStart(at: Date, slotMinutes: number): Date {
+    const { hour, minute } = localParts(at, TIMEZONE);
+    const intoSlot = ((hour * 60 + minute) % slotMinutes) * 60_000;
+    const truncated = at.getTime() - (at.getTime() % 60_000);
+    return new Date(truncated - intoSlot);
+  }
+
+  /** Lowercase with Turkish (and German umlaut) letters folded to ASCII */
+  private fold(text: string): string {
+    const map: Record<string, string> = { ç: 'c', ğ: 'g', ı: 'i', ö: 'o', ş: 's', ü: 'u', ä: 'a' };
+    return text
+      .toLowerCase()
+      .replace(/\u0307/g, '')
+      .replace(/[çğıöşüä]/g, (ch) => map[ch]);
+  }
+}
+
+export const preOrderService = new PreOrderService();
@@ -3,6 +3,7 @@ import { AppError } from '../middleware/error-handler';
 import { createLogger } from '../logger';
 import { PrintJobDto, PrintJobStatus, PrintJobType, PrintJobPayload } from '@whatres/shared';
 import { Prisma } from '@prisma/client';
+import { realtimeService } from './realtime.service';
 
 const logger = createLogger();
 
@@ -14,6 +15,7 @@ export class PrintJobService {
       where: {
         tenantId,
         status: 'PENDING',
+        holdUntil: null,
       },
       orderBy: { createdAt: 'asc' },
       take: limit,
@@ -24,13 +26,26 @@ export class PrintJobService {
 
   async getJobs(
     tenantId: string,
-    query: { status?: PrintJobStatus; orderId?: string; limit?: number; offset?: number }
+    query: {
+      status?: PrintJobStatus;
+      type?: PrintJobType;
+      stationId?: string;
+      orderId?: string;
+      limit?: number;
+      offset?: number;
+    }
   ): Promise<{ jobs: PrintJobDto[]; total: number }> {
     const where: Prisma.PrintJobWhereInput = { tenantId };
 
     if (query.status) {
       where.status = query.status;
     }
+    if (query.type) {
+      where.type = query.type;
+    }
+    if (query.stationId) {
+      where.stationId = query.stationId;
+    }
     if (query.orderId) {
       where.orderId = query.orderId;
     }
@@ -67,7 +82,7 @@ export class PrintJobService {
 
   async claimJob(tenantId: string, jobId: string): Promise<PrintJobDto> {
     const job = await prisma.printJob.findFirst({
-      where: { id: jobId, tenantId, status: 'PENDING' },
+      where: { id: jobId, tenantId, status: 'PENDING', holdUntil: null },
     });
 
     if (!job) {
@@ -82,6 +97,31 @@ export class PrintJobService {
     return this.mapToDto(updated);
   }
 
+  /**
+   * Release pre-order jobs whose hold time has passed so print-bridge picks
+   * them up. Called periodically by the worker; returns the released count.
+   */
+  async releaseHeldJobs(now = new Date()): Promise<number> {
+    const due = await prisma.printJob.findMany({
+      where: { status: 'PENDING', holdUntil: { lte: now } },
+      select: { id: true, tenantId: true, orderId: true },
+    });
+    if (due.length === 0) return 0;
+
+    await prisma.printJob.updateMany({
+      where: { id: { in: due.map((j) => j.id) } },
+      data: { holdUntil: null },
+    });
+
+    const released = new Map(due.map((j) => [`${j.tenantId}:${j.orderId}`, j]));
+    for (const job of released.values()) {
+      realtimeService.publish(job.tenantId, { type: 'print_job.created', orderId: job.orderId });
+    }
+
+    logger.info({ count: due.length }, 'Held pre-order print jobs released');
+    return due.length;
+  }
+
   async completeJob(
     tenantId: string,
     jobId: string,
@@ -136,6 +176,7 @@ export class PrintJobService {
     });
 
     logger.info({ tenantId, jobId }, 'Print job retried');
+    realtimeService.publish(tenantId, { type: 'print_job.created', orderId: updated.orderId });
 
     return this.mapToDto(updated);
   }
@@ -189,12 +230,15 @@ export class PrintJobService {
     return {
       id: job.id,
       tenantId: job.tenantId,
-      orderId: job.orderId,
+      orderId: job.orderId ?? null,
+      dayCloseId: job.dayCloseId ?? null,
       type: job.type as PrintJobType,
+      stationId: job.stationId ?? null,
       status: job.status as PrintJobStatus,
       payloadJson: job.payloadJson as PrintJobPayload,
       errorMessage: job.errorMessage,
       retryCount: job.retryCount,
+      holdUntil: job.holdUntil?.toISOString() || null,
       createdAt: job.createdAt.toISOString(),
       processedAt: job.processedAt?.toISOString() || null,
     };
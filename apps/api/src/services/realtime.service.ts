@@ -0,0 +1,117 @@
+import { EventEmitter } from 'events';
+import type Redis from 'ioredis';
+import { RealtimeEvent } from '@whatres/shared';
+import redis from '../db/redis';
+import { createLogger } from '../logger';
+
+const logger = createLogger();
+
+/** Redis channel shared by all API instances */
+const CHANNEL = 'realtime:events';
+
+interface Envelope {
+  tenantId: string;
+  event: RealtimeEvent;
+}
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+/**
+ * Tenant-scoped event bus behind GET /events. Events are published to Redis
+ * and every instance delivers them to its own SSE connections, so a client
+ * hears about changes made on any instance. Without Redis, events only reach
+ * clients connected to the instance that published them.
+ */
+export class RealtimeService {
+  private emitter = new EventEmitter();
+  private subscriber: Redis | null = null;
+  private closeHandlers = new Set<() => void>();
+
+  constructor() {
+    // One listener per open connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  // ==================== LIFECYCLE ====================
+
+  async start(): Promise<void> {
+    const subscriber = redis.duplicate();
+    subscriber.on('error', (err) => {
+      logger.warn({ err: err.message }, 'Realtime subscriber error');
+    });
+
+    try {
+      await subscriber.connect();
+      await subscriber.subscribe(CHANNEL);
+    } catch (error) {
+      logger.warn({ error }, 'Realtime fan-out disabled - events stay on this instance');
+      subscriber.disconnect();
+      return;
+    }
+
+    subscriber.on('message', (_channel: string, raw: string) => {
+      try {
+        this.deliver(JSON.parse(raw) as Envelope);
+      } catch (error) {
+        logger.error({ error }, 'Invalid realtime event on Redis channel');
+      }
+    });
+
+    this.subscriber = subscriber;
+    logger.info('📡 Realtime fan-out via Redis enabled');
+  }
+
+  /** End open streams (so the HTTP server can close) and drop the subscriber */
+  async stop(): Promise<void> {
+    for (const close of this.closeHandlers) close();
+    this.closeHandlers.clear();
+
+    if (this.subscriber) {
+      await this.subscriber.quit().catch(() => undefined);
+      this.subscriber = null;
+    }
+  }
+
+  // ==================== EVENTS ====================
+
+  /**
+   * Publish an event to every client of the tenant. Fire-and-forget: never
+   * throws, so callers can emit after their own work has succeeded.
+   */
+  publish(tenantId: string, event: RealtimeEvent): void {
+    const envelope: Envelope = { tenantId, event };
+
+    if (!this.subscriber) {
+      this.deliver(envelope);
+      return;
+    }
+
+    redis.publish(CHANNEL, JSON.stringify(envelope)).catch((error) => {
+      logger.warn(
+        { error, tenantId, type: event.type },
+        'Realtime publish failed, delivering locally'
+      );
+      this.deliver(envelope);
+    });
+  }
+
+  /**
+   * Listen to a tenant's events. onClose runs when the service stops.
+   * Returns the unsubscribe function.
+   */
+  subscribe(tenantId: string, listener: RealtimeListener, onClose: () => void): () => void {
+    this.emitter.on(tenantId, listener);
+    this.closeHandlers.add(onClose);
+
+    return () => {
+      this.emitter.off(tenantId, listener);
+      this.closeHandlers.delete(onClose);
+    };
+  }
+
+  private deliver({ tenantId, event }: Envelope): void {
+    this.emitter.emit(tenantId, event);
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -0,0 +1,264 @@
+import prisma from '../db/prisma';
+import { AppError } from '../middleware/error-handler';
+import { createLogger } from '../logger';
+import { StoreDto, StoreLoadDto, UpdateStoreCapacityDto } from '@whatres/shared';
+import { storeScheduleService } from './store-schedule.service';
+
+const logger = createLogger();
+
+/** Window of maxItemsPer15Min */
+const ITEM_WINDOW_MINUTES = 15;
+
+/** Prep-time history: recent orders of the store, fallback below MIN_SAMPLES */
+const HISTORY_DAYS = 14;
+const HISTORY_SAMPLE = 50;
+const MIN_SAMPLES = 5;
+const DEFAULT_PREP_MINUTES = 20;
+
+/** Orders the kitchen works on in parallel when maxPreparingOrders is not set */
+const DEFAULT_PARALLEL_ORDERS = 3;
+
+/** The throttling columns of a store row */
+export interface ThrottledStore {
+  id: string;
+  tenantId: string;
+  name: string;
+  timezone: string;
+  maxPreparingOrders: number | null;
+  maxItemsPer15Min: number | null;
+  pauseWhenFull: boolean;
+  pausedUntil: Date | null;
+}
+
+export class StoreCapacityService {
+  // ==================== SETTINGS ====================
+
+  async updateCapacity(
+    tenantId: string,
+    storeId: string,
+    data: UpdateStoreCapacityDto
+  ): Promise<void> {
+    await this.findStore(tenantId, storeId);
+
+    await prisma.store.update({
+      where: { id: storeId },
+      data: {
+        ...(data.maxPreparingOrders !== undefined && {
+          maxPreparingOrders: data.maxPreparingOrders,
+        }),
+        ...(data.maxItemsPer15Min !== undefined && { maxItemsPer15Min: data.maxItemsPer15Min }),
+        ...(data.pauseWhenFull !== undefined && { pauseWhenFull: data.pauseWhenFull }),
+      },
+    });
+
+    logger.info({ tenantId, storeId, ...data }, 'Store capacity updated');
+  }
+
+  /** Stop taking new orders for the given minutes; null resumes right away */
+  async pauseStore(tenantId: string, storeId: string, minutes: number | null): Promise<void> {
+    await this.findStore(tenantId, storeId);
+
+    const pausedUntil = minutes ? new Date(Date.now() + minutes * 60_000) : null;
+    await prisma.store.update({ where: { id: storeId }, data: { pausedUntil } });
+
+    logger.info({ tenantId, storeId, pausedUntil }, pausedUntil ? 'Store paused' : 'Store resumed');
+  }
+
+  // ==================== LOAD ====================
+
+  async getLoads(tenantId: string): Promise<StoreLoadDto[]> {
+    const stores = await prisma.store.findMany({
+      where: { tenantId, isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const now = new Date();
+    return Promise.all(stores.map((store) => this.getLoad(store, now)));
+  }
+
+  async getLoad(store: ThrottledStore, now = new Date()): Promise<StoreLoadDto> {
+    const windowStart = new Date(now.getTime() - ITEM_WINDOW_MINUTES * 60_000);
+    const [prepMinutes, inKitchen, recentOrders] = await Promise.all([
+      this.getPrepMinutes(store.id, now),
+      prisma.order.findMany({
+        where: {
+          storeId: store.id,
+          status: { in: ['CONFIRMED', 'PREPARING'] },
+          // Pre-orders join the queue once they are due
+          OR: [{ scheduledFor: null }, { scheduledFor: { lte: now } }],
+        },
+        select: { status: true, confirmedAt: true, preparingAt: true },
+      }),
+      prisma.order.findMany({
+        where: {
+          storeId: store.id,
+          submittedAt: { gte: windowStart },
+          status: { notIn: ['DRAFT', 'CANCELLED'] },
+        },
+        select: { submittedAt: true, items: { select: { qty: true } } },
+        orderBy: { submittedAt: 'asc' },
+      }),
+    ]);
+
+    const preparing = inKitchen.filter((o) => o.status === 'PREPARING');
+    const recentItems = recentOrders.reduce(
+      (sum, o) => sum + o.items.reduce((s, i) => s + i.qty, 0),
+      0
+    );
+
+    // When each exceeded limit clears again
+    const clearsAt: Date[] = [];
+    if (store.maxPreparingOrders && preparing.length >= store.maxPreparingOrders) {
+      const finishes = preparing
+        .map((o) => (o.preparingAt ?? o.confirmedAt ?? now).getTime() + prepMinutes * 60_000)
+        .sort((a, b) => a - b);
+      // Enough orders have to finish to get below the limit
+      const index = preparing.length - store.maxPreparingOrders;
+      clearsAt.push(new Date(Math.max(finishes[index], now.getTime())));
+    }
+    if (store.maxItemsPer15Min && recentItems >= store.maxItemsPer15Min) {
+      let remaining = recentItems;
+      for (const order of recentOrders) {
+        remaining -= order.items.reduce((s, i) => s + i.qty, 0);
+        if (remaining < store.maxItemsPer15Min) {
+          clearsAt.push(new Date(order.submittedAt!.getTime() + ITEM_WINDOW_MINUTES * 60_000));
+          break;
+        }
+      }
+    }
+
+    const isOverCapacity = clearsAt.length > 0;
+    let pausedUntil = store.pausedUntil && store.pausedUntil > now ? store.pausedUntil : null;
+    if (!pausedUntil && isOverCapacity && store.pauseWhenFull) {
+      pausedUntil = new Date(Math.max(...clearsAt.map((d) => d.getTime())));
+    }
+
+    const parallel = store.maxPreparingOrders || DEFAULT_PARALLEL_ORDERS;
+    return {
+      storeId: store.id,
+      storeName: store.name,
+      preparingOrders: preparing.length,
+      queuedOrders: inKitchen.length,
+      recentItems,
+      isOverCapacity,
+      pausedUntil: pausedUntil?.toISOString() ?? null,
+      prepMinutes,
+      etaMinutes: prepMinutes * Math.ceil((inKitchen.length + 1) / parallel),
+    };
+  }
+
+  /** Ready-time estimate for a new order of the store, in minutes */
+  async estimateReadyMinutes(tenantId: string, storeId: string): Promise<number> {
+    const store = await this.findStore(tenantId, storeId);
+    const load = await this.getLoad(store);
+    return load.etaMinutes;
+  }
+
+  // ==================== INTAKE ====================
+
+  /**
+   * Whether the tenant takes new orders right now. Paused when every open
+   * store is paused; busy when the customer's store (or, before a store is
+   * known, every accepting store) is over capacity.
+   */
+  async checkIntake(
+    tenantId: string,
+    storeId?: string | null
+  ): Promise<{
+    pausedUntil: { at: Date; timezone: string } | null;
+    busyEtaMinutes: number | null;
+  }> {
+    const activeStores = await prisma.store.findMany({ where: { tenantId, isActive: true } });
+    const stores = await storeScheduleService.filterOpenStores(tenantId, activeStores);
+    if (stores.length === 0) return { pausedUntil: null, busyEtaMinutes: null };
+
+    const now = new Date();
+    const loads = await Promise.all(stores.map((store) => this.getLoad(store, now)));
+    const accepting = loads.filter((load) => !load.pausedUntil);
+
+    if (accepting.length === 0) {
+      const first = loads.reduce((a, b) => (a.pausedUntil! <= b.pausedUntil! ? a : b));
+      const store = stores.find((s) => s.id === first.storeId)!;
+      return {
+        pausedUntil: { at: new Date(first.pausedUntil!), timezone: store.timezone },
+        busyEtaMinutes: null,
+      };
+    }
+
+    const relevant = accepting.filter((load) => !storeId || load.storeId === storeId);
+    const busy = relevant.length > 0 && relevant.every((load) => load.isOverCapacity);
+    return {
+      pausedUntil: null,
+      busyEtaMinutes: busy ? Math.min(...relevant.map((load) => load.etaMinutes)) : null,
+    };
+  }
+
+  /** Stores that take new orders right now (not paused by hand or by capacity) */
+  async filterAccepting<T extends ThrottledStore>(
+    stores: T[],
+    now = new Date()
+  ): Promise<{ accepting: T[]; resumeAt: Date | null }> {
+    const loads = await Promise.all(stores.map((store) => this.getLoad(store, now)));
+    const accepting = stores.filter((_, i) => !loads[i].pausedUntil);
+    const resumes = loads
+      .filter((load) => load.pausedUntil)
+      .map((load) => new Date(load.pausedUntil!).getTime());
+
+    return {
+      accepting,
+      resumeAt: resumes.length > 0 ? new Date(Math.min(...resumes)) : null,
+    };
+  }
+
+  // ==================== HELPERS ====================
+
+  /** Throttling fields shared by the store DTO mappers */
+  mapCapacityFields(
+    store: any
+  ): Pick<StoreDto, 'maxPreparingOrders' | 'maxItemsPer15Min' | 'pauseWhenFull' | 'pausedUntil'> {
+    return {
+      maxPreparingOrders: store.maxPreparingOrders ?? null,
+      maxItemsPer15Min: store.maxItemsPer15Min ?? null,
+      pauseWhenFull: store.pauseWhenFull ?? false,
+      pausedUntil: store.pausedUntil?.toISOString() ?? null,
+    };
+  }
+
+  private async findStore(tenantId: string, storeId: string) {
+    const store = await prisma.store.findFirst({ where: { id: storeId, tenantId } });
+    if (!store) {
+      throw new AppError(404, 'STORE_NOT_FOUND', 'Store not found');
+    }
+    return store;
+  }
+
+  /**
+   * Median minutes from kitchen start (PREPARING, or confirmation when the
+   * kitchen skips that step) to READY over the store's recent orders
+   */
+  private async getPrepMinutes(storeId: string, now: Date): Promise<number> {
+    const orders = await prisma.order.findMany({
+      where: {
+        storeId,
+        readyAt: { gte: new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60_000) },
+        scheduledFor: null,
+      },
+      select: { confirmedAt: true, preparingAt: true, readyAt: true },
+      orderBy: { readyAt: 'desc' },
+      take: HISTORY_SAMPLE,
+    });
+
+    const durations = orders
+      .map((o) => {
+        const start = o.preparingAt ?? o.confirmedAt;
+        return start && o.readyAt ? (o.readyAt.getTime() - start.getTime()) / 60_000 : null;
+      })
+      .filter((minutes): minutes is number => minutes !== null && minutes > 0 && minutes < 240)
+      .sort((a, b) => a - b);
+
+    if (durations.length < MIN_SAMPLES) return DEFAULT_PREP_MINUTES;
+    return Math.max(1, Math.round(durations[Math.floor(durations.length / 2)]));
+  }
+}
+
+export const storeCapacityService = new StoreCapacityService();
@@ -0,0 +1,361 @@
+import prisma from '../db/prisma';
+import { AppError } from '../middleware/error-handler';
+import { createLogger } from '../logger';
+import { Prisma } from '@prisma/client';
+import {
+  ScheduleExceptionDto,
+  CreateScheduleExceptionDto,
+  ScheduleIntervalDto,
+  StoreDto,
+  UpdateStoreScheduleDto,
+  WeeklyScheduleDto,
+} from '@whatres/shared';
+import { DAY_KEYS, DEFAULT_TIMEZONE, localParts, zonedTime } from '../utils/zoned-time';
+
+const logger = createLogger();
+
+/** How far ahead the next opening / next change is searched */
+const LOOKAHEAD_DAYS = 14;
+
+/** The schedule-relevant columns of a store row */
+export interface ScheduledStore {
+  id: string;
+  tenantId: string;
+  isOpen: boolean;
+  timezone: string;
+  weeklySchedule: Prisma.JsonValue | null;
+  openOverrideUntil: Date | null;
+}
+
+interface ExceptionRow {
+  storeId: string | null;
+  date: string;
+  intervals: Prisma.JsonValue | null;
+}
+
+interface OpenWindow {
+  start: Date;
+  end: Date;
+}
+
+export class StoreScheduleService {
+  // ==================== SCHEDULE ====================
+
+  async updateSchedule(
+    tenantId: string,
+    storeId: string,
+    data: UpdateStoreScheduleDto
+  ): Promise<void> {
+    const store = await prisma.store.findFirst({ where: { id: storeId, tenantId } });
+    if (!store) {
+      throw new AppError(404, 'STORE_NOT_FOUND', 'Store not found');
+    }
+
+    await prisma.store.update({
+      where: { id: storeId },
+      data: {
+        timezone: data.timezone,
+        weeklySchedule: data.weeklySchedule
+          ? (data.weeklySchedule as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+        openOverrideUntil: null,
+      },
+    });
+
+    logger.info({ tenantId, storeId, timezone: data.timezone }, 'Store schedule updated');
+
+    // Apply the new schedule right away instead of waiting for the worker
+    if (data.weeklySchedule) {
+      await this.syncStore(await prisma.store.findUniqueOrThrow({ where: { id: storeId } }));
+    }
+  }
+
+  // ==================== EXCEPTIONS ====================
+
+  async getExceptions(tenantId: string, storeId?: string): Promise<ScheduleExceptionDto[]> {
+    const today = new Date().toISOString().slice(0, 10);
+    const exceptions = await prisma.storeScheduleException.findMany({
+      where: {
+        tenantId,
+        // One day back keeps "today" for zones behind UTC
+        date: { gte: this.addDays(today, -1) },
+        ...(storeId && { OR: [{ storeId }, { storeId: null }] }),
+      },
+      include: { store: { select: { name: true } } },
+      orderBy: { date: 'asc' },
+    });
+
+    return exceptions.map((e) => this.mapExceptionToDto(e));
+  }
+
+  async createException(
+    tenantId: string,
+    data: CreateScheduleExceptionDto
+  ): Promise<ScheduleExceptionDto> {
+    if (data.storeId) {
+      const store = await prisma.store.findFirst({ where: { id: data.storeId, tenantId } });
+      if (!store) {
+        throw new AppError(404, 'STORE_NOT_FOUND', 'Store not found');
+      }
+    }
+
+    const exception = await prisma.storeScheduleException.create({
+      data: {
+        tenantId,
+        storeId: data.storeId || null,
+        date: data.date,
+        name: data.name || null,
+        intervals: data.intervals?.length
+          ? (data.intervals as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+      },
+      include: { store: { select: { name: true } } },
+    });
+
+    logger.info(
+      { tenantId, exceptionId: exception.id, date: data.date },
+      'Schedule exception created'
+    );
+    await this.syncTenant(tenantId);
+
+    return this.mapExceptionToDto(exception);
+  }
+
+  async deleteException(tenantId: string, exceptionId: string): Promise<void> {
+    const existing = await prisma.storeScheduleException.findFirst({
+      where: { id: exceptionId, tenantId },
+    });
+
+    if (!existing) {
+      throw new AppError(404, 'EXCEPTION_NOT_FOUND', 'Schedule exception not found');
+    }
+
+    await prisma.storeScheduleException.delete({ where: { id: exceptionId } });
+
+    logger.info({ tenantId, exceptionId }, 'Schedule exception deleted');
+    await this.syncTenant(tenantId);
+  }
+
+  // ==================== EVALUATION ====================
+
+  /**
+   * Stores open right now. Stores without a schedule follow their manual
+   * isOpen flag; scheduled stores follow the schedule unless a manual
+   * toggle is still in effect.
+   */
+  async filterOpenStores<T extends ScheduledStore>(
+    tenantId: string,
+    stores: T[],
+    now = new Date()
+  ): Promise<T[]> {
+    const exceptions = await this.loadExceptions(tenantId);
+    return stores.filter((store) => this.isOpenAt(store, exceptions, now));
+  }
+
+  /**
+   * Stores open at a pre-order slot. Stores without a schedule pass: the slot
+   * was already checked against the tenant's working hours.
+   */
+  async filterOpenForSlot<T extends ScheduledStore>(
+    tenantId: string,
+    stores: T[],
+    at: Date
+  ): Promise<T[]> {
+    const exceptions = await this.loadExceptions(tenantId);
+    return stores.filter((store) => !store.weeklySchedule || this.isOpenAt(store, exceptions, at));
+  }
+
+  /** Earliest upcoming opening over the tenant's active scheduled stores */
+  async getNextOpening(
+    tenantId: string,
+    now = new Date()
+  ): Promise<{ at: Date; timezone: string } | null> {
+    const stores = await prisma.store.findMany({
+      where: { tenantId, isActive: true, weeklySchedule: { not: Prisma.DbNull } },
+    });
+    if (stores.length === 0) return null;
+
+    const exceptions = await this.loadExceptions(tenantId);
+    let next: { at: Date; timezone: string } | null = null;
+    for (const store of stores) {
+      const window = this.windows(store, exceptions, now).find((w) => w.start > now);
+      if (window && (!next || window.start < next.at)) {
+        next = { at: window.start, timezone: store.timezone };
+      }
+    }
+    return next;
+  }
+
+  /**
+   * Until when a manual open/close toggle should hold: the next time the
+   * schedule itself changes state. Null for stores without a schedule.
+   */
+  async manualOverrideUntil(store: ScheduledStore, now = new Date()): Promise<Date | null> {
+    if (!store.weeklySchedule) return null;
+
+    const exceptions = await this.loadExceptions(store.tenantId);
+    const windows = this.windows(store, exceptions, now);
+    const current = windows.find((w) => w.start <= now && now < w.end);
+    if (current) return current.end;
+
+    const upcoming = windows.find((w) => w.start > now);
+    return upcoming?.start ?? new Date(now.getTime() + LOOKAHEAD_DAYS * 24 * 60 * 60_000);
+  }
+
+  /**
+   * Flip isOpen of every scheduled store to match its schedule. Called
+   * periodically by the worker; manual toggles are left alone until their
+   * override expires.
+   */
+  async syncOpenStates(now = new Date()): Promise<{ opened: number; closed: number }> {
+    const stores = await prisma.store.findMany({
+      where: { isActive: true, weeklySchedule: { not: Prisma.DbNull } },
+    });
+
+    const exceptionsByTenant = new Map<string, ExceptionRow[]>();
+    const result = { opened: 0, closed: 0 };
+    for (const store of stores) {
+      let exceptions = exceptionsByTenant.get(store.tenantId);
+      if (!exceptions) {
+        exceptions = await this.loadExceptions(store.tenantId);
+        exceptionsByTenant.set(store.tenantId, exceptions);
+      }
+
+      const change = await this.syncStore(store, exceptions, now);
+      if (change === 'opened') result.opened++;
+      if (change === 'closed') result.closed++;
+    }
+    return result;
+  }
+
+  // ==================== HELPERS ====================
+
+  /** Schedule fields shared by the store DTO mappers */
+  mapScheduleFields(
+    store: any
+  ): Pick<StoreDto, 'timezone' | 'weeklySchedule' | 'openOverrideUntil'> {
+    return {
+      timezone: store.timezone ?? DEFAULT_TIMEZONE,
+      weeklySchedule: (store.weeklySchedule as WeeklyScheduleDto | null) ?? null,
+      openOverrideUntil: store.openOverrideUntil?.toISOString() ?? null,
+    };
+  }
+
+  private async syncTenant(tenantId: string): Promise<void> {
+    const stores = await prisma.store.findMany({
+      where: { tenantId, isActive: true, weeklySchedule: { not: Prisma.DbNull } },
+    });
+    const exceptions = await this.loadExceptions(tenantId);
+    for (const store of stores) {
+      await this.syncStore(store, exceptions);
+    }
+  }
+
+  private async syncStore(
+    store: ScheduledStore,
+    exceptions?: ExceptionRow[],
+    now = new Date()
+  ): Promise<'opened' | 'closed' | null> {
+    if (store.openOverrideUntil && store.openOverrideUntil > now) return null;
+
+    const shouldBeOpen = this.isOpenAt(
+      { ...store, openOverrideUntil: null },
+      exceptions ?? (await this.loadExceptions(store.tenantId)),
+      now
+    );
+    if (shouldBeOpen === store.isOpen && !store.openOverrideUntil) return null;
+
+    await prisma.store.update({
+      where: { id: store.id },
+      data: { isOpen: shouldBeOpen, openOverrideUntil: null },
+    });
+
+    if (shouldBeOpen === store.isOpen) return null;
+    logger.info(
+      { tenantId: store.tenantId, storeId: store.id, isOpen: shouldBeOpen },
+      'Store opened/closed by schedule'
+    );
+    return shouldBeOpen ? 'opened' : 'closed';
+  }
+
+  private isOpenAt(store: ScheduledStore, exceptions: ExceptionRow[], at: Date): boolean {
+    if (!store.weeklySchedule) return store.isOpen;
+    if (store.openOverrideUntil && store.openOverrideUntil > at) return store.isOpen;
+
+    return this.windows(store, exceptions, at).some((w) => w.start <= at && at < w.end);
+  }
+
+  /**
+   * Opening windows from the local day before `from` (for ranges that pass
+   * midnight) up to LOOKAHEAD_DAYS ahead, sorted and merged.
+   */
+  private windows(store: ScheduledStore, exceptions: ExceptionRow[], from: Date): OpenWindow[] {
+    const weekly = (store.weeklySchedule ?? {}) as WeeklyScheduleDto;
+    const today = localParts(from, store.timezone);
+    const raw: OpenWindow[] = [];
+
+    for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+      const day = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+      const date = day.toISOString().slice(0, 10);
+      const exception =
+        exceptions.find((e) => e.date === date && e.storeId === store.id) ??
+        exceptions.find((e) => e.date === date && e.storeId === null);
+      const intervals = exception
+        ? ((exception.intervals ?? []) as unknown as ScheduleIntervalDto[])
+        : (weekly[DAY_KEYS[day.getUTCDay()] as keyof WeeklyScheduleDto] ?? []);
+
+      for (const interval of intervals) {
+        const [openH, openM] = interval.open.split(':').map(Number);
+        const [closeH, closeM] = interval.close.split(':').map(Number);
+        const y = day.getUTCFullYear();
+        const m = day.getUTCMonth() + 1;
+        const d = day.getUTCDate();
+        const start = zonedTime(store.timezone, y, m, d, openH, openM);
+        // A close at or before the open time belongs to the next day
+        const closesNextDay = interval.close <= interval.open;
+        const end = zonedTime(store.timezone, y, m, d + (closesNextDay ? 1 : 0), closeH, closeM);
+        raw.push({ start, end });
+      }
+    }
+
+    raw.sort((a, b) => a.start.getTime() - b.start.getTime());
+    const merged: OpenWindow[] = [];
+    for (const window of raw) {
+      const last = merged[merged.length - 1];
+      if (last && window.start <= last.end) {
+        if (window.end > last.end) last.end = window.end;
+      } else {
+        merged.push({ ...window });
+      }
+    }
+    return merged;
+  }
+
+  private async loadExceptions(tenantId: string): Promise<ExceptionRow[]> {
+    const from = this.addDays(new Date().toISOString().slice(0, 10), -2);
+    return prisma.storeScheduleException.findMany({
+      where: { tenantId, date: { gte: from } },
+      select: { storeId: true, date: true, intervals: true },
+    });
+  }
+
+  private addDays(date: string, days: number): string {
+    const [y, m, d] = date.split('-').map(Number);
+    return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+  }
+
+  private mapExceptionToDto(exception: any): ScheduleExceptionDto {
+    return {
+      id: exception.id,
+      tenantId: exception.tenantId,
+      storeId: exception.storeId,
+      storeName: exception.store?.name ?? null,
+      date: exception.date,
+      name: exception.name,
+      intervals: (exception.intervals as ScheduleIntervalDto[] | null) ?? null,
+      createdAt: exception.createdAt.toISOString(),
+    };
+  }
+}
+
+export const storeScheduleService = new StoreScheduleService();
@@ -1,7 +1,10 @@
 import prisma from '../db/prisma';
 import { AppError } from '../middleware/error-handler';
 import { billingService } from './billing.service';
+import { storeScheduleService } from './store-schedule.service';
+import { storeCapacityService } from './store-capacity.service';
 import { createLogger } from '../logger';
+import { Prisma } from '@prisma/client';
 import {
   StoreDto,
   CreateStoreDto,
@@ -9,6 +12,10 @@ import {
   DeliveryRuleDto,
   CreateDeliveryRuleDto,
   UpdateDeliveryRuleDto,
+  DeliveryZoneDto,
+  CreateDeliveryZoneDto,
+  UpdateDeliveryZoneDto,
+  GeoJsonPolygon,
 } from '@whatres/shared';
 
 const logger = createLogger();
@@ -29,6 +36,10 @@ export class StoreService {
         deliveryRules: {
           where: includeInactive ? {} : { isActive: true },
         },
+        deliveryZones: {
+          where: includeInactive ? {} : { isActive: true },
+          orderBy: { priority: 'desc' },
+        },
       },
       orderBy: { createdAt: 'asc' },
     });
@@ -39,7 +50,7 @@ export class StoreService {
   async getStore(tenantId: string, storeId: string): Promise<StoreDto> {
     const store = await prisma.store.findFirst({
       where: { id: storeId, tenantId },
-      include: { deliveryRules: true },
+      include: { deliveryRules: true, deliveryZones: { orderBy: { priority: 'desc' } } },
     });
 
     if (!store) {
@@ -65,7 +76,7 @@ export class StoreService {
         phone: data.phone,
         isActive: data.isActive ?? true,
       },
-      include: { deliveryRules: true },
+      include: { deliveryRules: true, deliveryZones: { orderBy: { priority: 'desc' } } },
     });
 
     logger.info({ tenantId, storeId: store.id }, 'Store created');
@@ -86,6 +97,10 @@ export class StoreService {
       throw new AppError(404, 'STORE_NOT_FOUND', 'Store not found');
     }
 
+    // Opening or closing a scheduled store by hand holds until the schedule's next change
+    const openOverrideUntil =
+      data.isOpen !== undefined ? await storeScheduleService.manualOverrideUntil(existing) : undefined;
+
     const store = await prisma.store.update({
       where: { id: storeId },
       data: {
@@ -95,9 +110,9 @@ export class StoreService {
         ...(data.lng !== undefined && { lng: data.lng }),
         ...(data.phone !== undefined && { phone: data.phone }),
         ...(data.isActive !== undefined && { isActive: data.isActive }),
-        ...(data.isOpen !== undefined && { isOpen: data.isOpen }),
+        ...(data.isOpen !== undefined && { isOpen: data.isOpen, openOverrideUntil }),
       },
-      include: { deliveryRules: true },
+      include: { deliveryRules: true, deliveryZones: { orderBy: { priority: 'desc' } } },
     });
 
     logger.info({ tenantId, storeId }, 'Store updated');
@@ -229,6 +244,104 @@ export class StoreService {
     logger.info({ tenantId, ruleId }, 'Delivery rule deleted');
   }
 
+  // ==================== DELIVERY ZONES ====================
+
+  async getDeliveryZones(
+    tenantId: string,
+    storeId?: string
+  ): Promise<DeliveryZoneDto[]> {
+    const zones = await prisma.deliveryZone.findMany({
+      where: {
+        tenantId,
+        ...(storeId && { storeId }),
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return zones.map((zone) => this.mapDeliveryZoneToDto(zone));
+  }
+
+  async createDeliveryZone(
+    tenantId: string,
+    data: CreateDeliveryZoneDto
+  ): Promise<DeliveryZoneDto> {
+    const store = await prisma.store.findFirst({
+      where: { id: data.storeId, tenantId },
+    });
+
+    if (!store) {
+      throw new AppError(404, 'STORE_NOT_FOUND', 'Store not found');
+    }
+
+    const zone = await prisma.deliveryZone.create({
+      data: {
+        tenantId,
+        storeId: data.storeId,
+        name: data.name,
+        polygon: this.closePolygon(data.polygon) as unknown as Prisma.InputJsonValue,
+        priority: data.priority ?? 0,
+        minBasket: data.minBasket,
+        deliveryFee: data.deliveryFee,
+        estimatedMinutes: data.estimatedMinutes ?? null,
+        isActive: data.isActive ?? true,
+      },
+    });
+
+    logger.info(
+      { tenantId, storeId: data.storeId, zoneId: zone.id },
+      'Delivery zone created'
+    );
+
+    return this.mapDeliveryZoneToDto(zone);
+  }
+
+  async updateDeliveryZone(
+    tenantId: string,
+    zoneId: string,
+    data: UpdateDeliveryZoneDto
+  ): Promise<DeliveryZoneDto> {
+    const existing = await prisma.deliveryZone.findFirst({
+      where: { id: zoneId, tenantId },
+    });
+
+    if (!existing) {
+      throw new AppError(404, 'ZONE_NOT_FOUND', 'Delivery zone not found');
+    }
+
+    const zone = await prisma.deliveryZone.update({
+      where: { id: zoneId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.polygon !== undefined && {
+          polygon: this.closePolygon(data.polygon) as unknown as Prisma.InputJsonValue,
+        }),
+        ...(data.priority !== undefined && { priority: data.priority }),
+        ...(data.minBasket !== undefined && { minBasket: data.minBasket }),
+        ...(data.deliveryFee !== undefined && { deliveryFee: data.deliveryFee }),
+        ...(data.estimatedMinutes !== undefined && { estimatedMinutes: data.estimatedMinutes }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+      },
+    });
+
+    logger.info({ tenantId, zoneId }, 'Delivery zone updated');
+
+    return this.mapDeliveryZoneToDto(zone);
+  }
+
+  async deleteDeliveryZone(tenantId: string, zoneId: string): Promise<void> {
+    const existing = await prisma.deliveryZone.findFirst({
+      where: { id: zoneId, tenantId },
+    });
+
+    if (!existing) {
+      throw new AppError(404, 'ZONE_NOT_FOUND', 'Delivery zone not found');
+    }
+
+    await prisma.deliveryZone.delete({ where: { id: zoneId } });
+
+    logger.info({ tenantId, zoneId }, 'Delivery zone deleted');
+  }
+
   // ==================== HELPERS ====================
 
   private mapStoreToDto(store: any): StoreDto {
@@ -242,19 +355,24 @@ export class StoreService {
       phone: store.phone,
       isActive: store.isActive,
       isOpen: store.isOpen ?? true,
+      ...storeScheduleService.mapScheduleFields(store),
+      ...storeCapacityService.mapCapacityFields(store),
       createdAt: store.createdAt.toISOString(),
       updatedAt: store.updatedAt.toISOString(),
       deliveryRules: store.deliveryRules?.map((rule: any) =>
         this.mapDeliveryRuleToDto(rule)
       ),
+      deliveryZones: store.deliveryZones?.map((zone: any) =>
+        this.mapDeliveryZoneToDto(zone)
+      ),
     };
   }
 
+  /** No active store open right now, by hand or by its opening schedule */
   async areAllStoresClosed(tenantId: string): Promise<boolean> {
-    const openCount = await prisma.store.count({
-      where: { tenantId, isActive: true, isOpen: true },
-    });
-    return openCount === 0;
+    const stores = await prisma.store.findMany({ where: { tenantId, isActive: true } });
+    const open = await storeScheduleService.filterOpenStores(tenantId, stores);
+    return open.length === 0;
   }
 
   private mapDeliveryRuleToDto(rule: any): DeliveryRuleDto {
@@ -271,6 +389,35 @@ export class StoreService {
       store: rule.store ? this.mapStoreToDto(rule.store) : undefined,
     };
   }
+
+  private mapDeliveryZoneToDto(zone: any): DeliveryZoneDto {
+    return {
+      id: zone.id,
+      tenantId: zone.tenantId,
+      storeId: zone.storeId,
+      name: zone.name,
+      polygon: zone.polygon as GeoJsonPolygon,
+      priority: zone.priority,
+      minBasket: Number(zone.minBasket),
+      deliveryFee: Number(zone.deliveryFee),
+      estimatedMinutes: zone.estimatedMinutes,
+      isActive: zone.isActive,
+      createdAt: zone.createdAt.toISOString(),
+      updatedAt: zone.updatedAt.toISOString(),
+    };
+  }
+
+  /** GeoJSON rings must end on their first position; the map editor sends open rings */
+  private closePolygon(polygon: GeoJsonPolygon): GeoJsonPolygon {
+    return {
+      type: 'Polygon',
+      coordinates: polygon.coordinates.map((ring) => {
+        const [first] = ring;
+        const last = ring[ring.length - 1];
+        return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+      }),
+    };
+  }
 }
 
 export const storeService = new StoreService();
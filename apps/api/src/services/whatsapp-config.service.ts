@@ -57,6 +57,7 @@ export class WhatsAppConfigService {
         accessTokenEncrypted,
         appSecretEncrypted,
         webhookVerifyToken,
+        catalogId: dto.catalogId || null,
         connectionStatus: 'PENDING',
       },
       update: {
@@ -64,6 +65,7 @@ export class WhatsAppConfigService {
         wabaId: dto.wabaId,
         accessTokenEncrypted,
         appSecretEncrypted,
+        ...(dto.catalogId !== undefined && { catalogId: dto.catalogId || null }),
         connectionStatus: 'PENDING',
         statusMessage: null,
       },
@@ -188,6 +190,15 @@ export class WhatsAppConfigService {
     };
   }
 
+  /** Linked Meta catalog id, or null when the tenant has none */
+  async getCatalogId(tenantId: string): Promise<string | null> {
+    const record = await prisma.whatsAppConfig.findUnique({
+      where: { tenantId },
+      select: { catalogId: true },
+    });
+    return record?.catalogId ?? null;
+  }
+
   /** Mark config as verified (after webhook verification succeeds) */
   async markVerified(tenantId: string): Promise<void> {
     await prisma.whatsAppConfig.updateMany({
@@ -225,6 +236,7 @@ export class WhatsAppConfigService {
     accessTokenEncrypted: string;
     appSecretEncrypted: string;
     webhookVerifyToken: string;
+    catalogId: string | null;
     connectionStatus: string;
     statusMessage: string | null;
     lastVerifiedAt: Date | null;
@@ -252,6 +264,7 @@ export class WhatsAppConfigService {
       appSecretMasked,
       webhookVerifyToken: record.webhookVerifyToken,
       webhookUrl,
+      catalogId: record.catalogId,
       connectionStatus: record.connectionStatus as WhatsAppConfigDto['connectionStatus'],
       statusMessage: record.statusMessage,
       lastVerifiedAt: record.lastVerifiedAt?.toISOString() ?? null,
@@ -1,6 +1,6 @@
 import crypto from 'crypto';
 import { createLogger } from '../logger';
-import { WhatsAppWebhookPayload } from '@whatres/shared';
+import { WhatsAppWebhookPayload, WhatsAppStatusUpdate } from '@whatres/shared';
 
 const logger = createLogger();
 
@@ -123,6 +123,22 @@ export class WhatsAppProviderService {
     return this.sendMessage(to, { type: 'interactive', interactive });
   }
 
+  /**
+   * Send a multi-product message from a Meta catalog (max 30 products, 10 sections)
+   */
+  async sendProductList(
+    to: string,
+    catalogId: string,
+    header: string,
+    body: string,
+    sections: Array<{ title: string; productRetailerIds: string[] }>,
+  ): Promise<{ messageId: string }> {
+    return this.sendMessage(to, {
+      type: 'interactive',
+      interactive: this.buildProductList(catalogId, header, body, sections),
+    });
+  }
+
   /**
    * Send an image message via URL
    */
@@ -267,6 +283,18 @@ export class WhatsAppProviderService {
             };
           }
           break;
+        case 'order':
+          payload.order = {
+            catalogId: msg.order.catalog_id,
+            text: msg.order.text,
+            productItems: (msg.order.product_items || []).map((p: any) => ({
+              productRetailerId: p.product_retailer_id,
+              quantity: Number(p.quantity) || 1,
+              itemPrice: p.item_price !== undefined ? Number(p.item_price) : undefined,
+              currency: p.currency,
+            })),
+          };
+          break;
       }
 
       return payload;
@@ -276,6 +304,40 @@ export class WhatsAppProviderService {
     }
   }
 
+  /**
+   * Parse Meta Cloud API status callbacks (sent/delivered/read/failed receipts).
+   * A single webhook can batch several statuses across entries and changes.
+   */
+  parseStatusUpdates(metaPayload: Record<string, unknown>): WhatsAppStatusUpdate[] {
+    const updates: WhatsAppStatusUpdate[] = [];
+    const knownStatuses = ['sent', 'delivered', 'read', 'failed'];
+
+    try {
+      for (const entry of (metaPayload.entry as any[]) || []) {
+        for (const change of entry?.changes || []) {
+          for (const status of change?.value?.statuses || []) {
+            if (!status?.id || !knownStatuses.includes(status.status)) continue;
+            const error = status.errors?.[0];
+            updates.push({
+              externalId: status.id,
+              status: status.status,
+              timestamp: status.timestamp
+                ? new Date(Number(status.timestamp) * 1000)
+                : new Date(),
+              recipientId: status.recipient_id,
+              errorCode: error?.code !== undefined ? String(error.code) : undefined,
+              errorTitle: error?.title || error?.message,
+            });
+          }
+        }
+      }
+    } catch (error) {
+      logger.error({ error }, 'Failed to parse webhook status updates');
+    }
+
+    return updates;
+  }
+
   // ==================== PER-TENANT SEND METHODS ====================
 
   /**
@@ -375,6 +437,24 @@ export class WhatsAppProviderService {
     return this.sendMessageWithConfig(to, { type: 'interactive', interactive }, tenantConfig);
   }
 
+  /**
+   * Send catalog product list using per-tenant DB config
+   */
+  async sendProductListWithConfig(
+    to: string,
+    catalogId: string,
+    header: string,
+    body: string,
+    sections: Array<{ title: string; productRetailerIds: string[] }>,
+    tenantConfig: { phoneNumberId: string; accessToken: string },
+  ): Promise<{ messageId: string }> {
+    return this.sendMessageWithConfig(
+      to,
+      { type: 'interactive', interactive: this.buildProductList(catalogId, header, body, sections) },
+      tenantConfig,
+    );
+  }
+
   /**
    * Send image using per-tenant DB config
    */
@@ -404,8 +484,64 @@ export class WhatsAppProviderService {
     return this.sendMessageWithConfig(to, { type: 'document', document }, tenantConfig);
   }
 
+  // ==================== MEDIA ====================
+
+  /**
+   * Download inbound media (voice, image) by its Meta media id.
+   * Returns null when the id cannot be resolved or the download fails.
+   */
+  async downloadMediaWithConfig(
+    mediaId: string,
+    tenantConfig: { accessToken: string },
+  ): Promise<{ data: Buffer; mimeType: string } | null> {
+    const headers = { Authorization: `Bearer ${tenantConfig.accessToken}` };
+
+    const infoRes = await fetch(`https://graph.facebook.com/${this.config.apiVersion}/${mediaId}`, { headers });
+    if (!infoRes.ok) {
+      logger.error({ mediaId, status: infoRes.status }, 'Failed to get media info from Meta');
+      return null;
+    }
+
+    const info = (await infoRes.json()) as { url?: string; mime_type?: string };
+    if (!info.url) {
+      logger.error({ mediaId }, 'No URL in media info');
+      return null;
+    }
+
+    const fileRes = await fetch(info.url, { headers });
+    if (!fileRes.ok) {
+      logger.error({ mediaId, status: fileRes.status }, 'Failed to download media');
+      return null;
+    }
+
+    return {
+      data: Buffer.from(await fileRes.arrayBuffer()),
+      mimeType: info.mime_type || fileRes.headers.get('content-type') || 'application/octet-stream',
+    };
+  }
+
   // ==================== PRIVATE ====================
 
+  private buildProductList(
+    catalogId: string,
+    header: string,
+    body: string,
+    sections: Array<{ title: string; productRetailerIds: string[] }>,
+  ): Record<string, unknown> {
+    return {
+      type: 'product_list',
+      header: { type: 'text', text: header },
+      body: { text: body },
+      action: {
+        catalog_id: catalogId,
+        sections: sections.map((section) => ({
+          title: section.title,
+          product_items: section.productRetailerIds.map((id) => ({ product_retailer_id: id })),
+        })),
+      },
+    };
+  }
+
   private async sendMessageWithConfig(
     to: string,
     messagePayload: Record<string, unknown>,
@@ -2,25 +2,44 @@ import { inboxService } from './inbox.service';
 import { geoService } from './geo.service';
 import { whatsappProviderService } from './whatsapp-provider.service';
 import { whatsappConfigService } from './whatsapp-config.service';
+import { broadcastService } from './broadcast.service';
+import { messageTemplateService, TemplateVariables } from './message-template.service';
 import { createLogger } from '../logger';
 import {
   WhatsAppWebhookPayload,
   MessageDto,
   MessageKind,
+  WhatsAppStatusUpdate,
+  TemplateEvent,
 } from '@whatres/shared';
 
 const logger = createLogger();
 
+const SESSION_WINDOW_CLOSED_ERROR = '24 saatlik oturum penceresi kapalı ve onaylı şablon eşlenmemiş';
+
 export class WhatsAppService {
   /**
    * Process incoming WhatsApp webhook message
    * Stores message in DB and performs geo check for location messages.
+   * Idempotent on the provider message id: a redelivered webhook returns the
+   * stored message with duplicate=true and has no side effects.
    * Response logic is handled by conversation-flow.service.ts
    */
   async processIncomingMessage(
     tenantId: string,
     payload: WhatsAppWebhookPayload
-  ): Promise<MessageDto> {
+  ): Promise<{ message: MessageDto; duplicate: boolean }> {
+    if (payload.messageId) {
+      const existing = await inboxService.findMessageByExternalId(tenantId, payload.messageId);
+      if (existing) {
+        logger.info(
+          { tenantId, externalId: payload.messageId, messageId: existing.id },
+          'Duplicate inbound WhatsApp message ignored'
+        );
+        return { message: existing, duplicate: true };
+      }
+    }
+
     // Normalize phone number (remove + prefix if present)
     const customerPhone = payload.from.replace(/^\+/, '');
     const customerName = payload.fromName;
@@ -76,6 +95,12 @@ export class WhatsAppService {
           'Interactive response';
         payloadJson = { interactive: payload.interactive };
         break;
+      case 'order': {
+        const itemCount = (payload.order?.productItems ?? []).reduce((sum, p) => sum + p.quantity, 0);
+        text = payload.order?.text || `Cart: ${itemCount} items`;
+        payloadJson = { order: payload.order };
+        break;
+      }
     }
 
     // Store raw payload for debugging
@@ -84,16 +109,28 @@ export class WhatsAppService {
     }
 
     // Create message
-    const message = await inboxService.createMessage(
-      tenantId,
-      conversation.id,
-      'IN',
-      kind,
-      text,
-      payloadJson,
-      undefined, // No sender user for incoming messages
-      payload.messageId
-    );
+    let message: MessageDto;
+    try {
+      message = await inboxService.createMessage(
+        tenantId,
+        conversation.id,
+        'IN',
+        kind,
+        text,
+        payloadJson,
+        undefined, // No sender user for incoming messages
+        payload.messageId
+      );
+    } catch (error: any) {
+      // Concurrent redelivery won the insert race on (tenantId, externalId)
+      if (error.code === 'P2002' && payload.messageId) {
+        const existing = await inboxService.findMessageByExternalId(tenantId, payload.messageId);
+        if (existing) {
+          return { message: existing, duplicate: true };
+        }
+      }
+      throw error;
+    }
 
     logger.info(
       { tenantId, conversationId: conversation.id, messageId: message.id, kind },
@@ -121,7 +158,38 @@ export class WhatsAppService {
       }
     }
 
-    return message;
+    return { message, duplicate: false };
+  }
+
+  /**
+   * Apply delivery receipts from a status webhook to outbound messages and
+   * campaign sends. Receipts for unknown ids (e.g. sent before tracking) are ignored.
+   */
+  async processStatusUpdates(
+    tenantId: string,
+    updates: WhatsAppStatusUpdate[]
+  ): Promise<{ matched: number; ignored: number }> {
+    let matched = 0;
+    let ignored = 0;
+
+    for (const update of updates) {
+      try {
+        const messageMatched = await inboxService.applyDeliveryStatus(tenantId, update);
+        const campaignMatched = await broadcastService.applyDeliveryReceipt(tenantId, update);
+        if (messageMatched || campaignMatched) matched++;
+        else ignored++;
+      } catch (error) {
+        logger.error(
+          { error, tenantId, externalId: update.externalId, status: update.status },
+          'Failed to apply WhatsApp status update'
+        );
+      }
+    }
+
+    if (matched > 0) {
+      logger.debug({ tenantId, matched, ignored }, 'WhatsApp status updates applied');
+    }
+    return { matched, ignored };
   }
 
   // ==================== SEND MESSAGES ====================
@@ -173,9 +241,11 @@ export class WhatsAppService {
       } else {
         result = await whatsappProviderService.sendText(conversation.customerPhone, text);
       }
+      await this.recordSent(message.id, result.messageId);
       return { messageId: message.id, externalId: result.messageId };
     } catch (error) {
       logger.error({ error, tenantId, conversationId }, 'Failed to send text message');
+      await this.recordFailed(message.id, error);
       return { messageId: message.id };
     }
   }
@@ -215,9 +285,11 @@ export class WhatsAppService {
           conversation.customerPhone, body, buttons, header,
         );
       }
+      await this.recordSent(message.id, result.messageId);
       return { messageId: message.id, externalId: result.messageId };
     } catch (error) {
       logger.error({ error, tenantId, conversationId }, 'Failed to send interactive buttons');
+      await this.recordFailed(message.id, error);
       return { messageId: message.id };
     }
   }
@@ -252,9 +324,11 @@ export class WhatsAppService {
       } else {
         result = await whatsappProviderService.sendLocationRequest(conversation.customerPhone, bodyText);
       }
+      await this.recordSent(message.id, result.messageId);
       return { messageId: message.id, externalId: result.messageId };
     } catch (error) {
       logger.error({ error, tenantId, conversationId }, 'Failed to send location request');
+      await this.recordFailed(message.id, error);
       return { messageId: message.id };
     }
   }
@@ -293,9 +367,54 @@ export class WhatsAppService {
           conversation.customerPhone, body, buttonText, sections, header,
         );
       }
+      await this.recordSent(message.id, result.messageId);
       return { messageId: message.id, externalId: result.messageId };
     } catch (error) {
       logger.error({ error, tenantId, conversationId }, 'Failed to send list message');
+      await this.recordFailed(message.id, error);
+      return { messageId: message.id };
+    }
+  }
+
+  /**
+   * Send a catalog product list (multi-product message) via WhatsApp
+   */
+  async sendProductList(
+    tenantId: string,
+    conversationId: string,
+    catalogId: string,
+    header: string,
+    body: string,
+    sections: Array<{ title: string; productRetailerIds: string[] }>,
+  ): Promise<{ messageId: string; externalId?: string }> {
+    const conversation = await inboxService.getConversation(tenantId, conversationId);
+
+    const message = await inboxService.createMessage(
+      tenantId,
+      conversationId,
+      'OUT',
+      'TEXT',
+      body,
+      { isSystemMessage: true, interactive: { type: 'product_list', catalogId, sections } },
+    );
+
+    try {
+      const tenantConfig = await this.getTenantConfig(tenantId);
+      let result;
+      if (tenantConfig) {
+        result = await whatsappProviderService.sendProductListWithConfig(
+          conversation.customerPhone, catalogId, header, body, sections, tenantConfig,
+        );
+      } else {
+        result = await whatsappProviderService.sendProductList(
+          conversation.customerPhone, catalogId, header, body, sections,
+        );
+      }
+      await this.recordSent(message.id, result.messageId);
+      return { messageId: message.id, externalId: result.messageId };
+    } catch (error) {
+      logger.error({ error, tenantId, conversationId }, 'Failed to send product list');
+      await this.recordFailed(message.id, error);
       return { messageId: message.id };
     }
   }
@@ -329,9 +448,11 @@ export class WhatsAppService {
           conversation.customerPhone, imageUrl, caption,
         );
       }
+      await this.recordSent(message.id, result.messageId);
       return { messageId: message.id, externalId: result.messageId };
     } catch (error) {
       logger.error({ error, tenantId, conversationId }, 'Failed to send image');
+      await this.recordFailed(message.id, error);
       return { messageId: message.id };
     }
   }
@@ -366,13 +487,85 @@ export class WhatsAppService {
           conversation.customerPhone, documentUrl, filename, caption,
         );
       }
+      await this.recordSent(message.id, result.messageId);
       return { messageId: message.id, externalId: result.messageId };
     } catch (error) {
       logger.error({ error, tenantId, conversationId }, 'Failed to send document');
+      await this.recordFailed(message.id, error);
       return { messageId: message.id };
     }
   }
 
+  /**
+   * Send a business-initiated notification (order status, survey, ...).
+   * Inside the 24h session window the free-form text is sent; outside it the
+   * approved template mapped to the event is sent instead. With no usable
+   * template the message is stored as FAILED so the inbox shows why.
+   */
+  async sendNotification(
+    tenantId: string,
+    conversationId: string,
+    event: TemplateEvent,
+    text: string,
+    variables: TemplateVariables = {},
+  ): Promise<{ messageId: string; externalId?: string; viaTemplate: boolean }> {
+    if (await inboxService.isSessionWindowOpen(tenantId, conversationId)) {
+      return { ...(await this.sendText(tenantId, conversationId, text)), viaTemplate: false };
+    }
+
+    const template = await messageTemplateService.resolveForEvent(tenantId, event, variables);
+    if (!template) {
+      const message = await inboxService.createMessage(
+        tenantId,
+        conversationId,
+        'OUT',
+        'TEXT',
+        text,
+        { isSystemMessage: true, templateEvent: event },
+      );
+      await this.recordFailed(message.id, SESSION_WINDOW_CLOSED_ERROR);
+      logger.warn({ tenantId, conversationId, event }, 'Session window closed and no template mapped');
+      return { messageId: message.id, viaTemplate: false };
+    }
+
+    const conversation = await inboxService.getConversation(tenantId, conversationId);
+    const message = await inboxService.createMessage(
+      tenantId,
+      conversationId,
+      'OUT',
+      'TEXT',
+      template.renderedText,
+      {
+        isSystemMessage: true,
+        templateEvent: event,
+        template: { name: template.name, language: template.language, parameters: template.parameters },
+      },
+    );
+
+    try {
+      const tenantConfig = await this.getTenantConfig(tenantId);
+      if (!tenantConfig) {
+        throw new Error('WhatsApp config not found');
+      }
+      const components = template.parameters.length > 0
+        ? [{ type: 'body', parameters: template.parameters.map((p) => ({ type: 'text', text: p })) }]
+        : [];
+      const result = await whatsappProviderService.sendTemplateWithConfig(
+        conversation.customerPhone,
+        template.name,
+        template.language,
+        components,
+        tenantConfig,
+      );
+      await this.recordSent(message.id, result.messageId);
+      return { messageId: message.id, externalId: result.messageId, viaTemplate: true };
+    } catch (error) {
+      logger.error({ error, tenantId, conversationId, event }, 'Failed to send template message');
+      await this.recordFailed(message.id, error);
+      return { messageId: message.id, viaTemplate: true };
+    }
+  }
+
   /**
    * Send message (agent/admin sending from inbox)
    */
@@ -387,6 +580,29 @@ export class WhatsAppService {
 
   // ==================== HELPERS ====================
 
+  /**
+   * Store the provider message id so delivery receipts can be matched.
+   * Never fails the send: a missing receipt is better than a lost reply.
+   */
+  private async recordSent(messageId: string, externalId: string): Promise<void> {
+    try {
+      await inboxService.markMessageSent(messageId, externalId);
+    } catch (error) {
+      logger.warn({ error, messageId, externalId }, 'Failed to record sent message id');
+    }
+  }
+
+  private async recordFailed(messageId: string, error: unknown): Promise<void> {
+    try {
+      await inboxService.markMessageFailed(
+        messageId,
+        error instanceof Error ? error.message : String(error),
+      );
+    } catch (err) {
+      logger.warn({ error: err, messageId }, 'Failed to record message send failure');
+    }
+  }
+
   /**
    * Map webhook payload type to our MessageKind enum
    */
@@ -0,0 +1,44 @@
+/**
+ * Classifies infrastructure failures (database, Redis, network) that are
+ * likely to succeed when retried, as opposed to bugs or bad input.
+ */
+
+import { Prisma } from '@prisma/client';
+
+/** Prisma codes for unreachable/timed-out databases, pool exhaustion and write conflicts */
+const TRANSIENT_PRISMA_CODES = new Set(['P1001', 'P1002', 'P1008', 'P1017', 'P2024', 'P2034']);
+
+/** Node socket/DNS errno codes */
+const TRANSIENT_ERRNO_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+]);
+
+/** ioredis error names raised while the connection is down */
+const TRANSIENT_ERROR_NAMES = new Set(['MaxRetriesPerRequestError']);
+
+const MAX_CAUSE_DEPTH = 5;
+
+export function isTransientError(error: unknown): boolean {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < MAX_CAUSE_DEPTH; depth++) {
+    if (current instanceof Prisma.PrismaClientInitializationError) return true;
+    if (
+      current instanceof Prisma.PrismaClientKnownRequestError &&
+      TRANSIENT_PRISMA_CODES.has(current.code)
+    ) {
+      return true;
+    }
+    if (current instanceof Error) {
+      const code = (current as NodeJS.ErrnoException).code;
+      if (code && TRANSIENT_ERRNO_CODES.has(code)) return true;
+      if (TRANSIENT_ERROR_NAMES.has(current.name)) return true;
+      if (current.message === 'Connection is closed.') return true;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return false;
+}
@@ -0,0 +1,95 @@
+/**
+ * Wall-clock helpers for an IANA timezone, built on Intl so no timezone
+ * database has to be bundled. Used wherever opening hours or requested
+ * times are compared against "local" restaurant time.
+ */
+
+export const DEFAULT_TIMEZONE = 'Europe/Istanbul';
+
+/** Index = Date#getDay() */
+export const DAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+export type DayKey = (typeof DAY_KEYS)[number];
+
+export interface LocalParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    formatterFor(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function localParts(at: Date, timezone: string): LocalParts {
+  const parts = formatterFor(timezone).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    weekday: DAY_KEYS.indexOf(get('weekday').toLowerCase().slice(0, 3) as DayKey),
+  };
+}
+
+/** Local wall-clock time in the zone to an instant; day may overflow the month */
+export function zonedTime(
+  timezone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number
+): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const local = localParts(new Date(asUtc), timezone);
+  const offset = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - asUtc;
+  return new Date(asUtc - offset);
+}
+
+/** Day key (mon…sun), "dd.mm" and "HH:MM" of a time in the zone */
+export function describeLocal(
+  at: Date,
+  timezone: string
+): { dayKey: DayKey; date: string; time: string } {
+  const parts = localParts(at, timezone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    dayKey: DAY_KEYS[parts.weekday],
+    date: `${pad(parts.day)}.${pad(parts.month)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+  };
+}
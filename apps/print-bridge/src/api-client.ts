@@ -3,11 +3,16 @@ import { config } from './config';
 export interface PrintJobPayload {
   orderNumber: number;
   timestamp: string;
+  storeId?: string | null;
+  storeName?: string | null;
+  stationId?: string | null;
+  stationName?: string | null;
   items: {
     name: string;
     qty: number;
     options: string[];
     notes: string | null;
+    station?: string | null;
   }[];
   notes: string | null;
   customerName?: string;
@@ -15,13 +20,20 @@ export interface PrintJobPayload {
   deliveryAddress?: string;
   paymentMethod?: string;
   totalPrice?: number;
+  businessDate?: string | null;
+  reportSections?: {
+    title: string;
+    rows: { label: string; value: string }[];
+  }[];
 }
 
 export interface PrintJob {
   id: string;
   tenantId: string;
-  orderId: string;
-  type: 'KITCHEN' | 'COURIER';
+  orderId: string | null;
+  dayCloseId: string | null;
+  type: 'KITCHEN' | 'COURIER' | 'STATION' | 'Z_REPORT';
+  stationId: string | null;
   status: 'PENDING' | 'PROCESSING' | 'DONE' | 'FAILED';
   payloadJson: PrintJobPayload;
   errorMessage: string | null;
@@ -10,6 +10,10 @@ export const config = {
   apiToken: process.env.API_TOKEN || '',
   pollInterval: parseInt(process.env.POLL_INTERVAL || '5000', 10),
   outputDir: process.env.OUTPUT_DIR || './printed',
+  printersFile: process.env.PRINTERS_FILE || '',
+  testMode: process.env.PRINT_TEST_MODE === 'true',
+  paperColumns: parseInt(process.env.PAPER_COLUMNS || '48', 10),
+  trackingUrl: process.env.TRACKING_URL || '',
 };
 
 export function validateConfig(): void {
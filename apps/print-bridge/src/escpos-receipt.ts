@@ -0,0 +1,141 @@
+import { EscPosBuilder } from './escpos';
+import { PrintJob, PrintJobPayload } from './api-client';
+import { formatPaymentMethod } from './receipt-generator';
+
+export interface EscPosReceiptOptions {
+  columns: number;
+  /** Encoded as a QR code on courier receipts; omitted when null */
+  trackingUrl: string | null;
+}
+
+/**
+ * Fill {orderId} / {orderNumber} in TRACKING_URL
+ */
+export function buildTrackingUrl(template: string, job: PrintJob): string | null {
+  if (!template) return null;
+  return template
+    .replace(/\{orderId\}/g, encodeURIComponent(job.orderId ?? ''))
+    .replace(/\{orderNumber\}/g, String(job.payloadJson.orderNumber || 0));
+}
+
+function header(doc: EscPosBuilder, title: string, payload: PrintJobPayload): void {
+  doc.align('center').bold().size(true).line(title).size(false);
+  if (payload.storeName) doc.line(payload.storeName);
+  doc.bold(false);
+  doc.size(true, true).bold().line(`#${payload.orderNumber}`).bold(false).size(false);
+  doc.line(new Date(payload.timestamp).toLocaleString('tr-TR'));
+  doc.align('left').separator('=');
+}
+
+function footer(doc: EscPosBuilder): void {
+  doc.separator('=').align('center');
+  doc.line(`Yazdırma Zamanı: ${new Date().toLocaleString('tr-TR')}`);
+  doc.feed(3).cut();
+}
+
+function renderKitchen(doc: EscPosBuilder, payload: PrintJobPayload): void {
+  header(doc, payload.stationName?.toLocaleUpperCase('tr-TR') || 'MUTFAK FİŞİ', payload);
+
+  for (const item of payload.items) {
+    // Double height keeps the columns but makes the line readable from the pass
+    doc.bold().size(true).wrapped(`${item.qty}x ${item.name}`, '   ').size(false).bold(false);
+    for (const option of item.options || []) {
+      doc.wrapped(`   → ${option}`, '     ');
+    }
+    if (item.notes) {
+      doc.wrapped(`   Not: ${item.notes}`, '     ');
+    }
+    if (item.station) {
+      doc.line(`   [${item.station}]`);
+    }
+    doc.separator();
+  }
+
+  if (payload.notes) {
+    doc.bold().line('SİPARİŞ NOTU:').bold(false).wrapped(payload.notes);
+  }
+
+  footer(doc);
+}
+
+function renderCourier(
+  doc: EscPosBuilder,
+  payload: PrintJobPayload,
+  trackingUrl: string | null
+): void {
+  header(doc, 'KURYE FİŞİ', payload);
+
+  doc
+    .bold()
+    .size(true)
+    .line(payload.customerName || 'Misafir')
+    .size(false)
+    .bold(false);
+  doc.line(`Tel: ${payload.customerPhone || '-'}`);
+
+  if (payload.deliveryAddress) {
+    doc.separator();
+    doc.bold().line('TESLİMAT ADRESİ').bold(false).wrapped(payload.deliveryAddress);
+  }
+
+  doc.separator();
+  for (const item of payload.items) {
+    doc.wrapped(`${item.qty}x ${item.name}`, '   ');
+  }
+
+  doc.separator();
+  doc
+    .bold()
+    .size(true)
+    .columnsLine('TOPLAM:', `${payload.totalPrice?.toFixed(2) || '0.00'} TL`);
+  doc.size(false).bold(false);
+  doc.align('center').bold().line(formatPaymentMethod(payload.paymentMethod)).bold(false);
+  doc.align('left');
+
+  if (payload.notes) {
+    doc.separator().wrapped(`Not: ${payload.notes}`);
+  }
+
+  if (trackingUrl) {
+    doc.feed(1).align('center').qrCode(trackingUrl).line('Sipariş takibi').align('left');
+  }
+
+  footer(doc);
+}
+
+function renderZReport(doc: EscPosBuilder, payload: PrintJobPayload): void {
+  doc.align('center').bold().size(true).line('Z RAPORU').size(false);
+  if (payload.storeName) doc.line(payload.storeName);
+  doc.bold(false);
+  doc.size(true, true).bold().line(payload.businessDate || '').bold(false).size(false);
+  doc.align('left').separator('=');
+
+  for (const section of payload.reportSections || []) {
+    doc.bold().line(section.title).bold(false);
+    for (const row of section.rows) {
+      doc.columnsLine(row.label, row.value);
+    }
+    doc.separator();
+  }
+
+  if (payload.notes) {
+    doc.bold().line('NOT:').bold(false).wrapped(payload.notes);
+  }
+
+  footer(doc);
+}
+
+/**
+ * Render a print job as a raw ESC/POS byte stream for thermal printers
+ */
+export function renderEscPosReceipt(job: PrintJob, options: EscPosReceiptOptions): Buffer {
+  const doc = new EscPosBuilder(options.columns);
+  if (job.type === 'COURIER') {
+    renderCourier(doc, job.payloadJson, options.trackingUrl);
+  } else if (job.type === 'Z_REPORT') {
+    renderZReport(doc, job.payloadJson);
+  } else {
+    renderKitchen(doc, job.payloadJson);
+  }
+  return doc.build();
+}
@@ -0,0 +1,166 @@
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/** ESC t 13 selects PC857 (Turkish) on Epson-compatible printers */
+const CODE_PAGE_PC857 = 13;
+
+/**
+ * PC857 bytes for characters outside ASCII. Anything not listed is replaced
+ * with '?', so stray emoji cannot garble the rest of the line.
+ */
+const PC857: Record<string, number> = {
+  Ç: 0x80,
+  ü: 0x81,
+  é: 0x82,
+  â: 0x83,
+  ä: 0x84,
+  à: 0x85,
+  ç: 0x87,
+  ê: 0x88,
+  ë: 0x89,
+  è: 0x8a,
+  ï: 0x8b,
+  î: 0x8c,
+  ı: 0x8d,
+  Ä: 0x8e,
+  É: 0x90,
+  ô: 0x93,
+  ö: 0x94,
+  û: 0x96,
+  ù: 0x97,
+  İ: 0x98,
+  Ö: 0x99,
+  Ü: 0x9a,
+  Ş: 0x9e,
+  ş: 0x9f,
+  á: 0xa0,
+  í: 0xa1,
+  ó: 0xa2,
+  ú: 0xa3,
+  ñ: 0xa4,
+  Ñ: 0xa5,
+  Ğ: 0xa6,
+  ğ: 0xa7,
+  '₺': 0x54, // no lira sign in PC857, print "T"
+  '→': 0x3e,
+  '–': 0x2d,
+  '—': 0x2d,
+  '’': 0x27,
+  '“': 0x22,
+  '”': 0x22,
+};
+
+export function encodePC857(text: string): Buffer {
+  const bytes: number[] = [];
+  for (const char of text.normalize('NFC')) {
+    const code = char.charCodeAt(0);
+    if (char.length === 1 && code >= 0x20 && code < 0x7f) {
+      bytes.push(code);
+    } else if (char === '\n') {
+      bytes.push(LF);
+    } else {
+      bytes.push(PC857[char] ?? 0x3f);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export type Align = 'left' | 'center' | 'right';
+
+const ALIGN: Record<Align, number> = { left: 0, center: 1, right: 2 };
+
+/**
+ * Fluent builder for an ESC/POS byte stream (Epson TM-compatible command set).
+ * Text is encoded as PC857 so Turkish characters print correctly.
+ */
+export class EscPosBuilder {
+  private chunks: Buffer[] = [];
+
+  constructor(readonly columns = 48) {
+    this.raw(ESC, 0x40); // initialize
+    this.raw(ESC, 0x74, CODE_PAGE_PC857);
+  }
+
+  raw(...bytes: number[]): this {
+    this.chunks.push(Buffer.from(bytes));
+    return this;
+  }
+
+  text(value: string): this {
+    this.chunks.push(encodePC857(value));
+    return this;
+  }
+
+  line(value = ''): this {
+    return this.text(value).raw(LF);
+  }
+
+  feed(lines = 1): this {
+    return this.raw(ESC, 0x64, lines);
+  }
+
+  align(value: Align): this {
+    return this.raw(ESC, 0x61, ALIGN[value]);
+  }
+
+  bold(on = true): this {
+    return this.raw(ESC, 0x45, on ? 1 : 0);
+  }
+
+  /** GS ! - character size; double width halves the usable columns */
+  size(doubleHeight: boolean, doubleWidth = false): this {
+    return this.raw(GS, 0x21, (doubleWidth ? 0x10 : 0) | (doubleHeight ? 0x01 : 0));
+  }
+
+  separator(char = '-'): this {
+    return this.line(char.repeat(this.columns));
+  }
+
+  /** Left and right text on one line, padded to the paper width */
+  columnsLine(left: string, right: string): this {
+    const space = Math.max(this.columns - left.length - right.length, 1);
+    return this.line(`${left}${' '.repeat(space)}${right}`);
+  }
+
+  /** Word-wrapped text with an optional hanging indent for continuation lines */
+  wrapped(value: string, indent = ''): this {
+    const words = value.split(/\s+/).filter(Boolean);
+    let current = '';
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (candidate.length > this.columns && current) {
+        this.line(current);
+        current = `${indent}${word}`;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) this.line(current);
+    return this;
+  }
+
+  /**
+   * GS ( k - QR code, model 2, error correction M.
+   * moduleSize is the dot size of one module (1-16).
+   */
+  qrCode(data: string, moduleSize = 6): this {
+    const payload = Buffer.from(data, 'utf-8');
+    const length = payload.length + 3;
+    this.raw(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00);
+    this.raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize);
+    this.raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31);
+    this.raw(GS, 0x28, 0x6b, length & 0xff, (length >> 8) & 0xff, 0x31, 0x50, 0x30);
+    this.chunks.push(payload);
+    return this.raw(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30);
+  }
+
+  /** Feed past the cutter and make a partial cut */
+  cut(): this {
+    return this.raw(GS, 0x56, 0x42, 0x03);
+  }
+
+  build(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
@@ -0,0 +1,130 @@
+import { config } from './config';
+
+const RETRY_MIN_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+/**
+ * Listens to the API's GET /events stream for print_job.created so new jobs
+ * are picked up immediately. The job loop only polls on POLL_INTERVAL while
+ * this stream is down.
+ */
+export class EventStream {
+  private connected = false;
+  private stopped = false;
+  private controller: AbortController | null = null;
+  private waiters: Array<() => void> = [];
+  /** A wake-up arrived while nobody was waiting */
+  private pending = false;
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  start(): void {
+    this.run().catch((error) => console.error('\n❌ Event stream stopped:', error));
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.controller?.abort();
+    this.wake();
+  }
+
+  /**
+   * Resolve when a print job is announced, the connection state changes or
+   * timeoutMs passes (no timeout when omitted).
+   */
+  waitForJobs(timeoutMs?: number): Promise<void> {
+    if (this.pending) {
+      this.pending = false;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const timer = timeoutMs !== undefined ? setTimeout(done, timeoutMs) : null;
+      const waiters = this.waiters;
+      function done() {
+        if (timer) clearTimeout(timer);
+        const index = waiters.indexOf(done);
+        if (index !== -1) waiters.splice(index, 1);
+        resolve();
+      }
+      this.waiters.push(done);
+    });
+  }
+
+  private wake(): void {
+    if (this.waiters.length === 0) {
+      this.pending = true;
+      return;
+    }
+    for (const waiter of [...this.waiters]) waiter();
+  }
+
+  private setConnected(connected: boolean): void {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    console.log(connected ? '\n⚡ Event stream connected' : '\n⚠️  Event stream lost, polling');
+    // Connected: catch up on jobs missed meanwhile. Lost: fall back to polling.
+    this.wake();
+  }
+
+  private async run(): Promise<void> {
+    let delay = RETRY_MIN_MS;
+
+    while (!this.stopped) {
+      this.controller = new AbortController();
+      try {
+        const response = await fetch(`${config.apiUrl}/events`, {
+          headers: {
+            Authorization: `Bearer ${config.apiToken}`,
+            'x-tenant-id': config.tenantId,
+          },
+          signal: this.controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        this.setConnected(true);
+        delay = RETRY_MIN_MS;
+        await this.read(response.body);
+      } catch (error) {
+        if (!this.stopped && !this.connected) {
+          console.error(`\n❌ Event stream unavailable: ${(error as Error).message}`);
+        }
+      }
+
+      this.setConnected(false);
+      if (this.stopped) return;
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      delay = Math.min(delay * 2, RETRY_MAX_MS);
+    }
+  }
+
+  private async read(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        if (block.split('\n').includes('event: print_job.created')) {
+          this.wake();
+        }
+      }
+    }
+  }
+}
+
+export const eventStream = new EventStream();
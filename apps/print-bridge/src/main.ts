@@ -1,20 +1,40 @@
 import { config, validateConfig } from './config';
 import { apiClient, PrintJob } from './api-client';
 import { receiptGenerator } from './receipt-generator';
+import { buildTrackingUrl, renderEscPosReceipt } from './escpos-receipt';
+import { printerRegistry, sendToPrinter } from './printers';
+import { eventStream } from './event-stream';
 
 let isRunning = true;
 
+const POLL_BATCH = 5;
+
 async function processJob(job: PrintJob): Promise<void> {
-  console.log(`📋 Processing job ${job.id} (${job.type}) for order #${job.payloadJson.orderNumber}`);
+  const subject =
+    job.type === 'Z_REPORT'
+      ? `Z-report ${job.payloadJson.businessDate}`
+      : `order #${job.payloadJson.orderNumber}`;
+  console.log(`📋 Processing job ${job.id} (${job.type}) for ${subject}`);
 
   try {
     // Claim the job
     await apiClient.claimJob(job.id);
     console.log(`  ✓ Job claimed`);
 
-    // Generate receipt
-    const filepath = await receiptGenerator.generateReceipt(job);
-    console.log(`  ✓ Receipt generated: ${filepath}`);
+    const printer = printerRegistry.resolve(job);
+
+    if (printer.connection === 'pdf') {
+      // Generate receipt
+      const filepath = await receiptGenerator.generateReceipt(job);
+      console.log(`  ✓ Receipt generated: ${filepath}`);
+    } else {
+      const data = renderEscPosReceipt(job, {
+        columns: printer.columns || config.paperColumns,
+        trackingUrl: buildTrackingUrl(config.trackingUrl, job),
+      });
+      const target = await sendToPrinter(printer, job, data);
+      console.log(`  ✓ Sent ${data.length} bytes to ${printer.name} (${target})`);
+    }
 
     // Mark as complete
     await apiClient.completeJob(job.id, true);
@@ -31,9 +51,10 @@ async function processJob(job: PrintJob): Promise<void> {
   }
 }
 
-async function pollJobs(): Promise<void> {
+/** Process pending jobs; returns how many were fetched */
+async function pollJobs(): Promise<number> {
   try {
-    const jobs = await apiClient.getPendingJobs(5);
+    const jobs = await apiClient.getPendingJobs(POLL_BATCH);
 
     if (jobs.length === 0) {
       process.stdout.write('.');
@@ -44,8 +65,10 @@ async function pollJobs(): Promise<void> {
         await processJob(job);
       }
     }
+    return jobs.length;
   } catch (error) {
     console.error(`\n❌ Error polling jobs:`, error);
+    return 0;
   }
 }
 
@@ -64,14 +87,34 @@ async function main(): Promise<void> {
 
   console.log(`📡 API URL: ${config.apiUrl}`);
   console.log(`🏢 Tenant ID: ${config.tenantId}`);
-  console.log(`⏱️  Poll Interval: ${config.pollInterval}ms`);
+  console.log(`⏱️  Poll Interval: ${config.pollInterval}ms (while the event stream is down)`);
   console.log(`📁 Output Dir: ${config.outputDir}`);
+
+  try {
+    printerRegistry.load();
+  } catch (error) {
+    console.error('❌ Printer configuration error:', error);
+    process.exit(1);
+  }
+
+  for (const printer of printerRegistry.list()) {
+    const target =
+      printer.connection === 'network'
+        ? `${printer.host}:${printer.port || 9100}`
+        : printer.devicePath || 'PDF';
+    console.log(`🖨️  ${printer.name}: ${target} [${printer.jobTypes?.join(', ') || 'all jobs'}]`);
+  }
+  if (config.testMode) {
+    console.log('🧪 Test mode: ESC/POS output is written to the output dir');
+  }
   console.log('='.repeat(50));
 
-  // Initialize receipt generator
-  console.log('🚀 Initializing browser...');
-  await receiptGenerator.init();
-  console.log('✅ Browser ready');
+  // Initialize receipt generator (only needed for PDF output)
+  if (printerRegistry.usesPdf()) {
+    console.log('🚀 Initializing browser...');
+    await receiptGenerator.init();
+    console.log('✅ Browser ready');
+  }
   console.log('');
   console.log('👀 Watching for print jobs...');
 
@@ -79,6 +122,7 @@ async function main(): Promise<void> {
   process.on('SIGINT', async () => {
     console.log('\n\n🛑 Shutting down...');
     isRunning = false;
+    eventStream.stop();
     await receiptGenerator.close();
     console.log('👋 Goodbye!');
     process.exit(0);
@@ -87,15 +131,19 @@ async function main(): Promise<void> {
   process.on('SIGTERM', async () => {
     console.log('\n\n🛑 Shutting down...');
     isRunning = false;
+    eventStream.stop();
     await receiptGenerator.close();
     console.log('👋 Goodbye!');
     process.exit(0);
   });
 
-  // Poll for jobs
+  // New jobs are announced over the event stream; poll only while it is down
+  eventStream.start();
   while (isRunning) {
-    await pollJobs();
-    await new Promise((resolve) => setTimeout(resolve, config.pollInterval));
+    const fetched = await pollJobs();
+    if (fetched === POLL_BATCH) continue; // more may be waiting
+
+    await eventStream.waitForJobs(eventStream.isConnected() ? undefined : config.pollInterval);
   }
 }
 
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { PrintJob } from './api-client';
+import { config } from './config';
+
+const NETWORK_TIMEOUT_MS = 10000;
+
+/**
+ * - network: raw TCP (JetDirect, usually port 9100)
+ * - device: USB or serial printer exposed as a device file (/dev/usb/lp0, /dev/ttyUSB0, COM3)
+ * - pdf: the original HTML/PDF receipt in OUTPUT_DIR
+ */
+export type PrinterConnection = 'network' | 'device' | 'pdf';
+
+export interface PrinterDefinition {
+  name: string;
+  connection: PrinterConnection;
+  host?: string;
+  port?: number;
+  devicePath?: string;
+  /** Characters per line: 48 for 80mm paper, 32 for 58mm */
+  columns?: number;
+  /** Job types this printer takes; omitted = all */
+  jobTypes?: PrintJob['type'][];
+  /** Stores this printer serves; omitted = all */
+  storeIds?: string[];
+  /** Kitchen stations this printer serves (STATION jobs); omitted = all */
+  stationIds?: string[];
+}
+
+/**
+ * Maps print jobs to devices from the PRINTERS_FILE JSON array. The first
+ * printer whose jobTypes, storeIds and stationIds all match wins, so put
+ * specific entries before catch-all ones. Without a file every job goes to PDF.
+ */
+export class PrinterRegistry {
+  private printers: PrinterDefinition[] = [];
+
+  load(): void {
+    if (!config.printersFile) {
+      this.printers = [];
+      return;
+    }
+
+    const raw = JSON.parse(fs.readFileSync(path.resolve(config.printersFile), 'utf-8'));
+    if (!Array.isArray(raw)) {
+      throw new Error(`${config.printersFile} must contain an array of printers`);
+    }
+
+    this.printers = raw.map((entry: PrinterDefinition, index: number) => {
+      const name = entry.name || `printer-${index + 1}`;
+      if (entry.connection === 'network' && !entry.host) {
+        throw new Error(`Printer "${name}": host is required for network printers`);
+      }
+      if (entry.connection === 'device' && !entry.devicePath) {
+        throw new Error(`Printer "${name}": devicePath is required for device printers`);
+      }
+      if (!['network', 'device', 'pdf'].includes(entry.connection)) {
+        throw new Error(`Printer "${name}": unknown connection "${entry.connection}"`);
+      }
+      return { ...entry, name };
+    });
+  }
+
+  list(): PrinterDefinition[] {
+    return this.printers;
+  }
+
+  resolve(job: PrintJob): PrinterDefinition {
+    const storeId = job.payloadJson.storeId;
+    const stationId = job.stationId;
+    const match = this.printers.find(
+      (printer) =>
+        (!printer.jobTypes?.length || printer.jobTypes.includes(job.type)) &&
+        (!printer.storeIds?.length || (!!storeId && printer.storeIds.includes(storeId))) &&
+        (!printer.stationIds?.length || (!!stationId && printer.stationIds.includes(stationId)))
+    );
+    return match ?? { name: 'pdf', connection: 'pdf' };
+  }
+
+  /** Whether any job can end up as a PDF (decides if the browser is started) */
+  usesPdf(): boolean {
+    if (this.printers.length === 0) return true;
+    const hasCatchAll = this.printers.some(
+      (printer) =>
+        !printer.jobTypes?.length && !printer.storeIds?.length && !printer.stationIds?.length
+    );
+    return !hasCatchAll || this.printers.some((printer) => printer.connection === 'pdf');
+  }
+}
+
+function sendToNetwork(host: string, port: number, data: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(NETWORK_TIMEOUT_MS);
+    socket.on('connect', () => socket.end(data));
+    socket.on('timeout', () => socket.destroy(new Error(`Printer ${host}:${port} timed out`)));
+    socket.on('error', reject);
+    socket.on('close', (hadError) => {
+      if (!hadError) resolve();
+    });
+  });
+}
+
+/**
+ * Write an ESC/POS byte stream to the printer. In PRINT_TEST_MODE the bytes
+ * go to OUTPUT_DIR as a .bin file instead, so layouts can be checked without
+ * hardware (e.g. with `xxd` or an ESC/POS viewer).
+ */
+export async function sendToPrinter(
+  printer: PrinterDefinition,
+  job: PrintJob,
+  data: Buffer
+): Promise<string> {
+  if (config.testMode) {
+    const outputDir = path.resolve(config.outputDir);
+    fs.mkdirSync(outputDir, { recursive: true });
+    const filename = `${printer.name}_${job.type.toLowerCase()}_${job.payloadJson.orderNumber}_${Date.now()}.bin`;
+    const filepath = path.join(outputDir, filename);
+    await fs.promises.writeFile(filepath, data);
+    return filepath;
+  }
+
+  switch (printer.connection) {
+    case 'network': {
+      const port = printer.port || 9100;
+      await sendToNetwork(printer.host as string, port, data);
+      return `${printer.host}:${port}`;
+    }
+    case 'device':
+      await fs.promises.writeFile(printer.devicePath as string, data);
+      return printer.devicePath as string;
+    default:
+      throw new Error(`Printer "${printer.name}" does not accept ESC/POS data`);
+  }
+}
+
+export const printerRegistry = new PrinterRegistry();
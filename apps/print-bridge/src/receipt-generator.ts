@@ -8,6 +8,7 @@ export class ReceiptGenerator {
   private browser: Browser | null = null;
   private kitchenTemplate: string;
   private courierTemplate: string;
+  private zReportTemplate: string;
 
   constructor() {
     const templatesDir = path.join(__dirname, '..', 'templates');
@@ -19,6 +20,10 @@ export class ReceiptGenerator {
       path.join(templatesDir, 'courier.html'),
       'utf-8'
     );
+    this.zReportTemplate = fs.readFileSync(
+      path.join(templatesDir, 'z-report.html'),
+      'utf-8'
+    );
   }
 
   async init(): Promise<void> {
@@ -40,7 +45,13 @@ export class ReceiptGenerator {
       throw new Error('Browser not initialized');
     }
 
-    const template = job.type === 'KITCHEN' ? this.kitchenTemplate : this.courierTemplate;
+    // Station tickets use the kitchen layout
+    const template =
+      job.type === 'COURIER'
+        ? this.courierTemplate
+        : job.type === 'Z_REPORT'
+          ? this.zReportTemplate
+          : this.kitchenTemplate;
     const html = this.renderTemplate(template, job.payloadJson);
 
     const page = await this.browser.newPage();
@@ -53,7 +64,9 @@ export class ReceiptGenerator {
         fs.mkdirSync(outputDir, { recursive: true });
       }
 
-      const filename = `${job.type.toLowerCase()}_${job.payloadJson.orderNumber}_${Date.now()}.pdf`;
+      const label =
+        job.type === 'Z_REPORT' ? job.payloadJson.businessDate : job.payloadJson.orderNumber;
+      const filename = `${job.type.toLowerCase()}_${label}_${Date.now()}.pdf`;
       const filepath = path.join(outputDir, filename);
 
       await page.pdf({
@@ -87,6 +100,25 @@ export class ReceiptGenerator {
     html = html.replace(/\{\{paymentMethod\}\}/g, this.formatPaymentMethod(payload.paymentMethod));
     html = html.replace(/\{\{totalPrice\}\}/g, payload.totalPrice?.toFixed(2) || '0.00');
     html = html.replace(/\{\{notes\}\}/g, payload.notes || '');
+    const title = payload.stationName?.toLocaleUpperCase('tr-TR') || 'MUTFAK FİŞİ';
+    html = html.replace(/\{\{title\}\}/g, title);
+
+    // Z-report
+    html = html.replace(/\{\{storeName\}\}/g, payload.storeName || '');
+    html = html.replace(/\{\{businessDate\}\}/g, payload.businessDate || '');
+    const sectionsHtml = (payload.reportSections || [])
+      .map(
+        (section) => `
+          <div class="section">
+            <div class="section-title">${section.title}</div>
+            ${section.rows
+              .map((row) => `<div class="row"><span>${row.label}</span><span>${row.value}</span></div>`)
+              .join('')}
+          </div>
+        `
+      )
+      .join('');
+    html = html.replace(/\{\{sections\}\}/g, sectionsHtml);
 
     // Handle items
     const itemsHtml = payload.items
@@ -97,6 +129,9 @@ export class ReceiptGenerator {
         const notesHtml = item.notes
           ? `<div class="item-notes">📝 ${item.notes}</div>`
           : '';
+        const stationHtml = item.station
+          ? `<div class="item-options">[${item.station}]</div>`
+          : '';
 
         return `
           <div class="item">
@@ -106,6 +141,7 @@ export class ReceiptGenerator {
             </div>
             ${optionsHtml}
             ${notesHtml}
+            ${stationHtml}
           </div>
         `;
       })
@@ -137,15 +173,19 @@ export class ReceiptGenerator {
   }
 
   private formatPaymentMethod(method?: string): string {
-    const methods: Record<string, string> = {
-      CASH: 'NAKİT',
-      CARD: 'KREDİ KARTI',
-      ONLINE: 'ONLINE ÖDEME',
-    };
-    return methods[method || ''] || method || 'BELİRTİLMEDİ';
+    return formatPaymentMethod(method);
   }
 }
 
+export function formatPaymentMethod(method?: string): string {
+  const methods: Record<string, string> = {
+    CASH: 'NAKİT',
+    CARD: 'KREDİ KARTI',
+    ONLINE: 'ONLINE ÖDEME',
+  };
+  return methods[method || ''] || method || 'BELİRTİLMEDİ';
+}
+
 export const receiptGenerator = new ReceiptGenerator();
 
 
@@ -42,7 +42,7 @@ export class AppComponent {
   isStandalonePage = signal(false);
   
   // Pages that should render without shell (no sidebar/topbar)
-  private standaloneRoutes = ['/billing', '/onboarding'];
+  private standaloneRoutes = ['/billing', '/onboarding', '/kds', '/courier/', '/track/'];
   
   constructor() {
     this.router.events.pipe(
@@ -16,6 +16,18 @@ export const routes: Routes = [
     canActivate: [guestGuard],
   },
 
+  // Courier app and customer tracking, authenticated by the token in the URL
+  {
+    path: 'courier/:token',
+    loadComponent: () =>
+      import('./pages/courier-app/courier-app.component').then((m) => m.CourierAppComponent),
+  },
+  {
+    path: 'track/:token',
+    loadComponent: () =>
+      import('./pages/track/track.component').then((m) => m.TrackComponent),
+  },
+
   // Protected routes
   {
     path: '',
@@ -47,6 +59,24 @@ export const routes: Routes = [
       import('./pages/print-jobs/print-jobs.component').then((m) => m.PrintJobsComponent),
     canActivate: [roleGuard(['OWNER', 'ADMIN'])],
   },
+  {
+    path: 'kds',
+    loadComponent: () =>
+      import('./pages/kds/kds.component').then((m) => m.KdsComponent),
+    canActivate: [roleGuard(['OWNER', 'ADMIN', 'AGENT', 'STAFF'])],
+  },
+  {
+    path: 'couriers',
+    loadComponent: () =>
+      import('./pages/couriers/couriers.component').then((m) => m.CouriersComponent),
+    canActivate: [roleGuard(['OWNER', 'ADMIN'])],
+  },
+  {
+    path: 'day-close',
+    loadComponent: () =>
+      import('./pages/day-close/day-close.component').then((m) => m.DayCloseComponent),
+    canActivate: [roleGuard(['OWNER', 'ADMIN'])],
+  },
   {
     path: 'stores',
     loadComponent: () =>
@@ -106,6 +136,26 @@ export const routes: Routes = [
       import('./pages/campaigns/campaigns.component').then((m) => m.CampaignsComponent),
     canActivate: [roleGuard(['OWNER', 'ADMIN'])],
   },
+  {
+    path: 'coupons',
+    loadComponent: () =>
+      import('./pages/coupons/coupons.component').then((m) => m.CouponsComponent),
+    canActivate: [roleGuard(['OWNER', 'ADMIN'])],
+  },
+  {
+    path: 'message-templates',
+    loadComponent: () =>
+      import('./pages/message-templates/message-templates.component').then(
+        (m) => m.MessageTemplatesComponent
+      ),
+    canActivate: [roleGuard(['OWNER', 'ADMIN'])],
+  },
+  {
+    path: 'bot-copy',
+    loadComponent: () =>
+      import('./pages/bot-copy/bot-copy.component').then((m) => m.BotCopyComponent),
+    canActivate: [roleGuard(['OWNER', 'ADMIN'])],
+  },
 
   // Hidden admin pages (not in sidebar)
   {
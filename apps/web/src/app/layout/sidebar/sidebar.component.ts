@@ -272,10 +272,16 @@ export class SidebarComponent {
     { label: 'Siparişler', icon: 'package', path: '/orders' },
     { label: 'Menü', icon: 'utensils', path: '/menu' },
     { label: 'Şubeler', icon: 'store', path: '/stores' },
+    { label: 'Mutfak Ekranı', icon: 'flame', path: '/kds' },
+    { label: 'Kuryeler', icon: 'bike', path: '/couriers' },
     { label: 'Yazdırma', icon: 'printer', path: '/print-jobs' },
+    { label: 'Gün Sonu', icon: 'dollar-sign', path: '/day-close' },
     { label: 'Anketler', icon: 'bar-chart', path: '/surveys' },
     { label: 'Müşteriler', icon: 'users', path: '/customers' },
     { label: 'Kampanyalar', icon: 'megaphone', path: '/campaigns' },
+    { label: 'Kuponlar', icon: 'gift', path: '/coupons' },
+    { label: 'Mesaj Şablonları', icon: 'file-text', path: '/message-templates' },
+    { label: 'Bot Metinleri', icon: 'edit', path: '/bot-copy' },
     { label: 'Ayarlar', icon: 'settings', path: '/settings' },
     { label: 'Kullanım Kılavuzu', icon: 'help-circle', path: '/kilavuz' },
   ];
@@ -0,0 +1,651 @@
+import { Component, OnDestroy, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { HttpClient } from '@angular/common/http';
+import { environment } from '../../../environments/environment';
+import { AuthService } from '../../services/auth.service';
+import { DialogService } from '../../shared/dialog.service';
+import { IconComponent } from '../../shared/icon.component';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: { message?: string };
+}
+
+type Language = 'tr' | 'en' | 'ar' | 'de' | 'ru';
+
+interface CopyOverride {
+  id: string;
+  key: string;
+  language: Language;
+  body: string;
+  version: number;
+  isActive: boolean;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+interface CopyEntry {
+  key: string;
+  kind: 'TEXT' | 'FUNCTION';
+  placeholders: string[];
+  defaultText: string;
+  override: CopyOverride | null;
+}
+
+const LANGUAGES: { code: Language; label: string }[] = [
+  { code: 'tr', label: 'Türkçe' },
+  { code: 'en', label: 'English' },
+  { code: 'ar', label: 'العربية' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'ru', label: 'Русский' },
+];
+
+const PREVIEW_DEBOUNCE_MS = 400;
+
+@Component({
+  selector: 'app-bot-copy',
+  standalone: true,
+  imports: [CommonModule, FormsModule, IconComponent],
+  template: `
+    <div class="copy-page">
+      <header class="page-header">
+        <div>
+          <h1>Bot Metinleri</h1>
+          <p class="text-muted">
+            Botun müşteriye gönderdiği mesajları kendi üslubunuzla yeniden yazın. Değişiklikler
+            kaydedildiği anda geçerli olur; eski sürümlere her zaman dönebilirsiniz.
+          </p>
+        </div>
+        <select class="lang-select" [ngModel]="language()" (ngModelChange)="setLanguage($event)">
+          @for (lang of languages; track lang.code) {
+            <option [value]="lang.code">{{ lang.label }}</option>
+          }
+        </select>
+      </header>
+
+      <div class="copy-layout">
+        <!-- Key list -->
+        <div class="card key-list">
+          <div class="search-row">
+            <app-icon name="search" [size]="14" />
+            <input type="text" [(ngModel)]="search" placeholder="Mesaj ara..." />
+          </div>
+          <label class="toggle-label small">
+            <input type="checkbox" [(ngModel)]="onlyCustomized" />
+            <span>Yalnızca özelleştirilenler</span>
+          </label>
+          <div class="keys">
+            @for (entry of visibleEntries(); track entry.key) {
+              <button
+                class="key-row"
+                [class.selected]="selected()?.key === entry.key"
+                (click)="select(entry)"
+              >
+                <span class="mono">{{ entry.key }}</span>
+                @if (entry.override) {
+                  <span class="badge badge-custom">v{{ entry.override.version }}</span>
+                }
+              </button>
+            } @empty {
+              <div class="empty-state">Eşleşen mesaj yok.</div>
+            }
+          </div>
+        </div>
+
+        <!-- Editor -->
+        @if (selected(); as entry) {
+          <div class="editor">
+            <div class="card">
+              <div class="card-header">
+                <h2 class="mono">{{ entry.key }}</h2>
+                @if (entry.override) {
+                  <span class="badge badge-custom">Özelleştirildi</span>
+                } @else {
+                  <span class="badge badge-default">Varsayılan</span>
+                }
+              </div>
+
+              <div class="placeholders">
+                <span class="text-muted">Değişkenler:</span>
+                @for (name of entry.placeholders; track name) {
+                  <button class="chip mono" (click)="insertPlaceholder(name)">
+                    {{ wrap(name) }}
+                  </button>
+                }
+                <button
+                  class="chip mono"
+                  title="Varsayılan metnin tamamı"
+                  (click)="insertPlaceholder('default')"
+                >
+                  {{ wrap('default') }}
+                </button>
+              </div>
+
+              <textarea
+                rows="8"
+                [(ngModel)]="draft"
+                (ngModelChange)="schedulePreview()"
+                placeholder="Yeni metni yazın"
+              ></textarea>
+
+              <div class="editor-actions">
+                @if (entry.override) {
+                  <button class="btn btn-danger btn-sm" (click)="reset(entry)">
+                    Varsayılana Dön
+                  </button>
+                }
+                <button class="btn btn-secondary btn-sm" (click)="copyDefault(entry)">
+                  Varsayılanı Kopyala
+                </button>
+                <button
+                  class="btn btn-primary"
+                  (click)="save(entry)"
+                  [disabled]="saving() || !!previewError() || !draft.trim()"
+                >
+                  {{ saving() ? 'Kaydediliyor...' : 'Kaydet' }}
+                </button>
+              </div>
+            </div>
+
+            <div class="preview-grid">
+              <div class="card">
+                <div class="card-header"><h2>Önizleme</h2></div>
+                <p class="text-muted hint">Örnek sipariş verisiyle</p>
+                @if (previewError()) {
+                  <div class="preview-error">
+                    <app-icon name="alert-triangle" [size]="14" />
+                    {{ previewError() }}
+                  </div>
+                } @else {
+                  <div class="wa-bubble">{{ preview() ?? entry.defaultText }}</div>
+                }
+              </div>
+              <div class="card">
+                <div class="card-header"><h2>Varsayılan</h2></div>
+                <p class="text-muted hint">Özelleştirme yokken gönderilen metin</p>
+                <div class="wa-bubble muted">{{ entry.defaultText }}</div>
+              </div>
+            </div>
+
+            <div class="card">
+              <div class="card-header"><h2>Sürüm Geçmişi</h2></div>
+              @for (version of history(); track version.id) {
+                <div class="history-row">
+                  <div class="history-meta">
+                    <strong>v{{ version.version }}</strong>
+                    @if (version.isActive) {
+                      <span class="badge badge-custom">Aktif</span>
+                    }
+                    <span class="text-muted">
+                      {{ version.createdAt | date: 'dd.MM.yyyy HH:mm' }}
+                      @if (version.createdByName) {
+                        · {{ version.createdByName }}
+                      }
+                    </span>
+                  </div>
+                  <div class="history-body">{{ version.body }}</div>
+                  @if (!version.isActive) {
+                    <button class="btn btn-secondary btn-sm" (click)="rollback(entry, version)">
+                      Bu Sürüme Dön
+                    </button>
+                  }
+                </div>
+              } @empty {
+                <div class="empty-state">Bu mesaj için kayıtlı sürüm yok.</div>
+              }
+            </div>
+          </div>
+        } @else {
+          <div class="card empty-state">Düzenlemek için soldan bir mesaj seçin.</div>
+        }
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .copy-page {
+        padding: var(--spacing-lg);
+        max-width: 1400px;
+      }
+
+      .page-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: flex-start;
+        gap: var(--spacing-md);
+        margin-bottom: var(--spacing-xl);
+      }
+
+      .page-header h1 {
+        font-size: 1.5rem;
+        font-weight: 700;
+        margin-bottom: var(--spacing-xs);
+      }
+
+      .copy-layout {
+        display: grid;
+        grid-template-columns: 300px 1fr;
+        gap: var(--spacing-lg);
+        align-items: start;
+      }
+
+      .card {
+        background: var(--color-bg-secondary);
+        border: 1px solid var(--color-border);
+        border-radius: var(--radius-lg);
+        padding: var(--spacing-lg);
+        margin-bottom: var(--spacing-lg);
+      }
+
+      .card-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: var(--spacing-md);
+      }
+
+      .card-header h2 {
+        font-size: 1.125rem;
+        font-weight: 600;
+      }
+
+      .hint {
+        font-size: 0.8125rem;
+        margin-bottom: var(--spacing-sm);
+      }
+      .empty-state {
+        color: var(--color-text-muted);
+        font-size: 0.875rem;
+      }
+      .mono {
+        font-family: var(--font-mono, monospace);
+      }
+
+      .key-list {
+        position: sticky;
+        top: var(--spacing-lg);
+      }
+
+      .search-row {
+        display: flex;
+        align-items: center;
+        gap: var(--spacing-xs);
+        margin-bottom: var(--spacing-sm);
+      }
+
+      .keys {
+        display: flex;
+        flex-direction: column;
+        max-height: 60vh;
+        overflow-y: auto;
+        margin-top: var(--spacing-sm);
+      }
+
+      .key-row {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        padding: var(--spacing-xs) var(--spacing-sm);
+        border: none;
+        border-radius: var(--radius-md);
+        background: transparent;
+        color: var(--color-text-primary);
+        font-size: 0.8125rem;
+        text-align: left;
+        cursor: pointer;
+      }
+      .key-row:hover {
+        background: var(--color-bg-tertiary);
+      }
+      .key-row.selected {
+        background: var(--color-bg-elevated);
+      }
+
+      .placeholders {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: var(--spacing-xs);
+        margin-bottom: var(--spacing-sm);
+        font-size: 0.8125rem;
+      }
+
+      .chip {
+        padding: 2px 8px;
+        border-radius: 12px;
+        border: 1px solid var(--color-border);
+        background: var(--color-bg-tertiary);
+        color: var(--color-text-primary);
+        font-size: 0.75rem;
+        cursor: pointer;
+      }
+
+      textarea,
+      input[type='text'],
+      .lang-select {
+        width: 100%;
+        padding: var(--spacing-sm);
+        border: 1px solid var(--color-border);
+        border-radius: var(--radius-md);
+        background: var(--color-bg-primary);
+        color: var(--color-text-primary);
+        font-size: 0.875rem;
+      }
+
+      .lang-select {
+        width: auto;
+      }
+
+      textarea {
+        resize: vertical;
+        font-family: inherit;
+        line-height: 1.45;
+      }
+
+      .editor-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: var(--spacing-sm);
+        margin-top: var(--spacing-sm);
+      }
+
+      .btn {
+        display: inline-flex;
+        align-items: center;
+        gap: var(--spacing-xs);
+        padding: var(--spacing-sm) var(--spacing-md);
+        border-radius: var(--radius-md);
+        font-weight: 500;
+        font-size: 0.875rem;
+        cursor: pointer;
+        border: none;
+        transition: all var(--transition-fast);
+      }
+
+      .btn-primary {
+        background: var(--color-accent-primary);
+        color: white;
+      }
+      .btn-primary:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-secondary {
+        background: var(--color-bg-tertiary);
+        color: var(--color-text-primary);
+        border: 1px solid var(--color-border);
+      }
+
+      .btn-danger {
+        background: rgba(239, 68, 68, 0.1);
+        color: var(--color-danger);
+        border: 1px solid rgba(239, 68, 68, 0.3);
+      }
+
+      .btn-sm {
+        padding: 4px 8px;
+        font-size: 0.75rem;
+      }
+
+      .badge {
+        display: inline-block;
+        padding: 2px 8px;
+        border-radius: 12px;
+        font-size: 0.6875rem;
+        font-weight: 600;
+        text-transform: uppercase;
+      }
+      .badge-custom {
+        background: rgba(34, 197, 94, 0.15);
+        color: var(--color-success);
+      }
+      .badge-default {
+        background: var(--color-bg-tertiary);
+        color: var(--color-text-secondary);
+      }
+
+      .toggle-label {
+        display: flex;
+        align-items: center;
+        gap: var(--spacing-xs);
+        cursor: pointer;
+      }
+      .toggle-label.small {
+        font-size: 0.8125rem;
+      }
+
+      .preview-grid {
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+        gap: var(--spacing-lg);
+      }
+
+      .wa-bubble {
+        background: #dcf8c6;
+        color: #111b21;
+        border-radius: 8px;
+        padding: var(--spacing-sm) var(--spacing-md);
+        font-size: 0.875rem;
+        line-height: 1.45;
+        white-space: pre-wrap;
+        box-shadow: 0 1px 1px rgba(0, 0, 0, 0.1);
+      }
+      .wa-bubble.muted {
+        background: var(--color-bg-tertiary);
+        color: var(--color-text-secondary);
+      }
+
+      .preview-error {
+        display: flex;
+        align-items: center;
+        gap: var(--spacing-xs);
+        color: var(--color-danger);
+        font-size: 0.8125rem;
+      }
+
+      .history-row {
+        display: grid;
+        grid-template-columns: 1fr auto;
+        gap: var(--spacing-xs) var(--spacing-md);
+        padding: var(--spacing-sm) 0;
+        border-bottom: 1px solid var(--color-border);
+      }
+
+      .history-meta {
+        display: flex;
+        align-items: center;
+        gap: var(--spacing-sm);
+        font-size: 0.8125rem;
+      }
+
+      .history-body {
+        grid-column: 1;
+        font-size: 0.8125rem;
+        white-space: pre-wrap;
+        color: var(--color-text-secondary);
+      }
+
+      @media (max-width: 900px) {
+        .copy-layout,
+        .preview-grid {
+          grid-template-columns: 1fr;
+        }
+        .key-list {
+          position: static;
+        }
+      }
+    `,
+  ],
+})
+export class BotCopyComponent implements OnInit, OnDestroy {
+  private http = inject(HttpClient);
+  private auth = inject(AuthService);
+  private dialog = inject(DialogService);
+
+  readonly languages = LANGUAGES;
+
+  language = signal<Language>('tr');
+  entries = signal<CopyEntry[]>([]);
+  selected = signal<CopyEntry | null>(null);
+  history = signal<CopyOverride[]>([]);
+  preview = signal<string | null>(null);
+  previewError = signal<string | null>(null);
+  saving = signal(false);
+
+  search = '';
+  onlyCustomized = false;
+  draft = '';
+
+  private apiUrl = `${environment.apiBaseUrl}/bot-copy`;
+  private previewTimer: ReturnType<typeof setTimeout> | null = null;
+
+  ngOnInit() {
+    this.loadEntries();
+  }
+
+  ngOnDestroy() {
+    if (this.previewTimer) clearTimeout(this.previewTimer);
+  }
+
+  setLanguage(language: Language) {
+    this.language.set(language);
+    this.selected.set(null);
+    this.loadEntries();
+  }
+
+  loadEntries(selectKey?: string) {
+    this.http
+      .get<ApiResponse<CopyEntry[]>>(`${this.apiUrl}?language=${this.language()}`, {
+        headers: this.auth.getAuthHeaders(),
+      })
+      .subscribe({
+        next: (res) => {
+          if (!res.data) return;
+          this.entries.set(res.data);
+          const entry = selectKey ? res.data.find((e) => e.key === selectKey) : null;
+          if (entry) this.select(entry);
+        },
+        error: (err) => this.dialog.error(err.error?.error?.message || 'Mesajlar yüklenemedi'),
+      });
+  }
+
+  visibleEntries(): CopyEntry[] {
+    const term = this.search.trim().toLowerCase();
+    return this.entries().filter(
+      (e) =>
+        (!this.onlyCustomized || e.override) &&
+        (!term ||
+          e.key.toLowerCase().includes(term) ||
+          (e.override?.body ?? e.defaultText).toLowerCase().includes(term))
+    );
+  }
+
+  select(entry: CopyEntry) {
+    this.selected.set(entry);
+    this.draft = entry.override?.body ?? entry.defaultText;
+    this.preview.set(null);
+    this.previewError.set(null);
+    this.loadHistory(entry);
+    this.schedulePreview();
+  }
+
+  loadHistory(entry: CopyEntry) {
+    this.http
+      .get<
+        ApiResponse<CopyOverride[]>
+      >(`${this.apiUrl}/${entry.key}/history?language=${this.language()}`, { headers: this.auth.getAuthHeaders() })
+      .subscribe({
+        next: (res) => this.history.set(res.data ?? []),
+      });
+  }
+
+  copyDefault(entry: CopyEntry) {
+    this.draft = entry.defaultText;
+    this.schedulePreview();
+  }
+
+  insertPlaceholder(name: string) {
+    this.draft += this.wrap(name);
+    this.schedulePreview();
+  }
+
+  schedulePreview() {
+    if (this.previewTimer) clearTimeout(this.previewTimer);
+    this.previewTimer = setTimeout(() => this.loadPreview(), PREVIEW_DEBOUNCE_MS);
+  }
+
+  loadPreview() {
+    const entry = this.selected();
+    if (!entry || !this.draft.trim()) return;
+    this.http
+      .post<
+        ApiResponse<{ text: string }>
+      >(`${this.apiUrl}/preview`, { key: entry.key, language: this.language(), body: this.draft }, { headers: this.auth.getAuthHeaders() })
+      .subscribe({
+        next: (res) => {
+          this.previewError.set(null);
+          this.preview.set(res.data?.text ?? null);
+        },
+        error: (err) =>
+          this.previewError.set(err.error?.error?.message || 'Önizleme oluşturulamadı'),
+      });
+  }
+
+  save(entry: CopyEntry) {
+    this.saving.set(true);
+    this.http
+      .put<
+        ApiResponse<CopyOverride>
+      >(`${this.apiUrl}/${entry.key}`, { language: this.language(), body: this.draft }, { headers: this.auth.getAuthHeaders() })
+      .subscribe({
+        next: () => {
+          this.saving.set(false);
+          this.dialog.success('Mesaj kaydedildi');
+          this.loadEntries(entry.key);
+        },
+        error: (err) => {
+          this.saving.set(false);
+          this.dialog.error(err.error?.error?.message || 'Mesaj kaydedilemedi');
+        },
+      });
+  }
+
+  async reset(entry: CopyEntry) {
+    const confirmed = await this.dialog.confirm(
+      'Bu mesaj varsayılan metne dönecek. Kayıtlı sürümler geçmişte kalır.'
+    );
+    if (!confirmed) return;
+    this.http
+      .delete<ApiResponse<null>>(`${this.apiUrl}/${entry.key}?language=${this.language()}`, {
+        headers: this.auth.getAuthHeaders(),
+      })
+      .subscribe({
+        next: () => {
+          this.dialog.success('Varsayılan metne dönüldü');
+          this.loadEntries(entry.key);
+        },
+        error: (err) => this.dialog.error(err.error?.error?.message || 'İşlem başarısız'),
+      });
+  }
+
+  rollback(entry: CopyEntry, version: CopyOverride) {
+    this.http
+      .post<
+        ApiResponse<CopyOverride>
+      >(`${this.apiUrl}/${entry.key}/rollback`, { language: this.language(), version: version.version }, { headers: this.auth.getAuthHeaders() })
+      .subscribe({
+        next: () => {
+          this.dialog.success(`v${version.version} geri yüklendi`);
+          this.loadEntries(entry.key);
+        },
+        error: (err) => this.dialog.error(err.error?.error?.message || 'Sürüm geri yüklenemedi'),
+      });
+  }
+
+  wrap(name: string): string {
+    return `{${name}}`;
+  }
+}
@@ -24,6 +24,7 @@ interface BroadcastStats {
   optedIn: number;
   segments: Record<string, number>;
   totalSent: number;
+  totalDelivered: number;
   totalOpened: number;
   totalConverted: number;
 }
@@ -38,6 +39,7 @@ interface Campaign {
   scheduledAt: string | null;
   totalRecipients: number;
   totalSent: number;
+  totalDelivered: number;
   totalOpened: number;
   totalConverted: number;
   createdAt: string;
@@ -52,6 +54,8 @@ interface CampaignSendLog {
   sentAt: string | null;
   messageText: string | null;
   discountPct: number | null;
+  /** Single-use code minted for this recipient */
+  coupon: { code: string } | null;
   errorMessage: string | null;
   customerProfile: { customerName: string | null; segment: string };
 }
@@ -187,7 +191,8 @@ interface CampaignSendLog {
                   <th>İndirim</th>
                   <th>Alıcı</th>
                   <th>Gönderilen</th>
-                  <th>Açılan</th>
+                  <th>İletilen</th>
+                  <th>Okunan</th>
                   <th>Dönüşüm</th>
                   <th>Tarih</th>
                   <th></th>
@@ -202,6 +207,7 @@ interface CampaignSendLog {
                     <td>%{{ c.maxDiscountPct }}</td>
                     <td>{{ c.totalRecipients }}</td>
                     <td>{{ c.totalSent }}</td>
+                    <td>{{ c.totalDelivered }}</td>
                     <td>{{ c.totalOpened }}</td>
                     <td>{{ c.totalConverted }}</td>
                     <td class="text-muted">{{ c.createdAt | date:'dd.MM HH:mm' }}</td>
@@ -236,6 +242,7 @@ interface CampaignSendLog {
                   <th>Segment</th>
                   <th>Durum</th>
                   <th>İndirim</th>
+                  <th>Kupon</th>
                   <th>Zamanlama</th>
                   <th>Mesaj</th>
                 </tr>
@@ -248,6 +255,7 @@ interface CampaignSendLog {
                     <td><span class="badge badge-segment">{{ log.customerProfile?.segment }}</span></td>
                     <td><span class="badge" [class]="'badge-' + log.status.toLowerCase()">{{ log.status }}</span></td>
                     <td>{{ log.discountPct ? '%' + log.discountPct : '-' }}</td>
+                    <td class="font-mono">{{ log.coupon?.code || '-' }}</td>
                     <td class="text-muted">{{ log.scheduledSendAt | date:'dd.MM HH:mm' }}</td>
                     <td class="message-preview">{{ log.messageText?.substring(0, 80) || '-' }}{{ log.messageText && log.messageText.length > 80 ? '...' : '' }}</td>
                   </tr>
@@ -488,6 +496,7 @@ interface CampaignSendLog {
     .badge-cancelled { background: rgba(239, 68, 68, 0.15); color: var(--color-danger); }
     .badge-pending_send { background: var(--color-bg-tertiary); color: var(--color-text-secondary); }
     .badge-sent { background: rgba(27, 85, 131, 0.15); color: var(--color-primary); }
+    .badge-delivered { background: rgba(41, 128, 185, 0.15); color: #5DADE2; }
     .badge-opened { background: rgba(245, 158, 11, 0.15); color: var(--color-warning); }
     .badge-converted { background: rgba(34, 197, 94, 0.15); color: var(--color-success); }
     .badge-failed { background: rgba(239, 68, 68, 0.15); color: var(--color-danger); }
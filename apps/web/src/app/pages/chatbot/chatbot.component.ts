@@ -1,4 +1,4 @@
-import { Component, inject, signal, ViewChild, ElementRef } from '@angular/core';
+import { Component, inject, signal, computed, ViewChild, ElementRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { HttpClient } from '@angular/common/http';
@@ -11,6 +11,22 @@ interface ChatButton {
   title: string;
 }
 
+interface FlowTransition {
+  id: string;
+  phase: string;
+  subState?: string | null;
+  events?: string[];
+  guard?: { kind: string; ids?: string[]; prefix?: string; key?: string };
+  action: string;
+  next: string[];
+  description?: string;
+}
+
+interface FlowDiagram {
+  mermaid: string;
+  transitions: FlowTransition[];
+}
+
 interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
@@ -113,6 +129,44 @@ interface ChatMessage {
           <li><app-icon name="check-circle" [size]="14"/> Ödeme Simüle — iyzico callback simülasyonu</li>
         </ul>
       </div>
+
+      <div class="info-panel flow-panel">
+        <div class="flow-header">
+          <h4><app-icon name="zap" [size]="16"/> Konuşma Akışı</h4>
+          <div class="flow-actions">
+            @if (flowDiagram()) {
+              <button class="quick-btn" (click)="copyMermaid()"><app-icon name="copy" [size]="14"/> {{ mermaidCopied() ? 'Kopyalandı' : 'Mermaid Kopyala' }}</button>
+            }
+            <button class="quick-btn" (click)="toggleFlowDiagram()">
+              <app-icon [name]="showFlow() ? 'chevron-up' : 'chevron-down'" [size]="14"/> {{ showFlow() ? 'Gizle' : 'Göster' }}
+            </button>
+          </div>
+        </div>
+        @if (showFlow()) {
+          @if (flowError()) {
+            <p class="flow-error">{{ flowError() }}</p>
+          }
+          @for (group of flowGroups(); track group.phase) {
+            <div class="flow-phase">
+              <div class="flow-phase-name">{{ group.phase }}</div>
+              @for (t of group.transitions; track t.id) {
+                <div class="flow-row">
+                  <span class="flow-trigger">{{ describeTrigger(t) }}</span>
+                  <code class="flow-action">{{ t.action }}</code>
+                  <span class="flow-next">
+                    @for (next of t.next; track next) {
+                      <span class="flow-chip" [class.self]="next === t.phase">{{ next }}</span>
+                    }
+                  </span>
+                  @if (t.description) {
+                    <span class="flow-desc">{{ t.description }}</span>
+                  }
+                </div>
+              }
+            </div>
+          }
+        }
+      </div>
     </div>
   `,
   styles: [`
@@ -462,6 +516,75 @@ interface ChatMessage {
     .info-panel li {
       margin-bottom: var(--spacing-xs);
     }
+
+    .flow-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+    }
+
+    .flow-actions {
+      display: flex;
+      gap: var(--spacing-xs);
+    }
+
+    .flow-error {
+      color: var(--color-error, #dc2626);
+      font-size: 0.85rem;
+    }
+
+    .flow-phase {
+      margin-top: var(--spacing-md);
+    }
+
+    .flow-phase-name {
+      font-weight: 600;
+      font-size: 0.85rem;
+      color: var(--color-text-primary);
+      margin-bottom: var(--spacing-xs);
+    }
+
+    .flow-row {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: var(--spacing-sm);
+      padding: 4px 0 4px var(--spacing-md);
+      border-left: 2px solid var(--color-border);
+      font-size: 0.8rem;
+      color: var(--color-text-secondary);
+    }
+
+    .flow-trigger {
+      min-width: 140px;
+    }
+
+    .flow-action {
+      color: #1B5583;
+    }
+
+    .flow-next {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px;
+    }
+
+    .flow-chip {
+      padding: 1px 6px;
+      border-radius: var(--radius-sm, 4px);
+      background: rgba(27, 85, 131, 0.1);
+      color: #1B5583;
+      font-size: 0.72rem;
+    }
+
+    .flow-chip.self {
+      opacity: 0.5;
+    }
+
+    .flow-desc {
+      flex-basis: 100%;
+      font-style: italic;
+    }
   `]
 })
 export class ChatbotComponent {
@@ -481,6 +604,26 @@ export class ChatbotComponent {
   isLoading = signal(false);
   userInput = '';
 
+  showFlow = signal(false);
+  flowDiagram = signal<FlowDiagram | null>(null);
+  flowError = signal<string | null>(null);
+  mermaidCopied = signal(false);
+
+  flowGroups = computed(() => {
+    const diagram = this.flowDiagram();
+    if (!diagram) return [];
+    const groups: { phase: string; transitions: FlowTransition[] }[] = [];
+    for (const t of diagram.transitions) {
+      let group = groups.find(g => g.phase === t.phase);
+      if (!group) {
+        group = { phase: t.phase, transitions: [] };
+        groups.push(group);
+      }
+      group.transitions.push(t);
+    }
+    return groups;
+  });
+
   // Taksim civarı test koordinatları (Merkez Şube'ye yakın)
   private testLocations = [
     { lat: 41.0370, lng: 28.9850, name: 'Taksim Meydanı' },
@@ -659,6 +802,41 @@ export class ChatbotComponent {
     });
   }
 
+  toggleFlowDiagram(): void {
+    this.showFlow.update(v => !v);
+    if (!this.showFlow() || this.flowDiagram()) return;
+
+    this.http.get<{success: boolean; data: FlowDiagram}>(
+      `${environment.apiBaseUrl}/chatbot/flow-diagram`,
+      { headers: this.authService.getAuthHeaders() }
+    ).subscribe({
+      next: (response) => {
+        this.flowDiagram.set(response.data);
+        this.flowError.set(null);
+      },
+      error: () => this.flowError.set('Akış tablosu yüklenemedi.')
+    });
+  }
+
+  copyMermaid(): void {
+    const diagram = this.flowDiagram();
+    if (!diagram) return;
+    navigator.clipboard.writeText(diagram.mermaid).then(() => {
+      this.mermaidCopied.set(true);
+      setTimeout(() => this.mermaidCopied.set(false), 2000);
+    });
+  }
+
+  describeTrigger(t: FlowTransition): string {
+    const parts: string[] = [];
+    if (t.subState !== undefined) parts.push(t.subState ?? 'alt durum yok');
+    if (t.events) parts.push(t.events.join(' | '));
+    if (t.guard?.ids) parts.push(`buton: ${t.guard.ids.join(', ')}`);
+    if (t.guard?.prefix) parts.push(`liste: ${t.guard.prefix}*`);
+    if (t.guard?.key) parts.push(`${t.guard.key} var`);
+    return parts.length > 0 ? parts.join(' · ') : 'varsayılan';
+  }
+
   private scrollToBottom(): void {
     setTimeout(() => {
       if (this.messagesContainer) {
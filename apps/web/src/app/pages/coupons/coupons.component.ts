@@ -0,0 +1,592 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import {
+  CouponService,
+  CouponDto,
+  CouponType,
+  CreateCouponDto,
+} from '../../services/coupon.service';
+import { StoreService, StoreDto } from '../../services/store.service';
+import { MenuService } from '../../services/menu.service';
+import { IconComponent } from '../../shared/icon.component';
+import { DialogService } from '../../shared/dialog.service';
+
+interface CouponForm {
+  code: string;
+  description: string;
+  type: CouponType;
+  value: number | null;
+  freeItemName: string;
+  minBasket: number | null;
+  startsAt: string;
+  endsAt: string;
+  maxUses: number | null;
+  maxUsesPerCustomer: number | null;
+  storeIds: string[];
+  segments: string[];
+  isActive: boolean;
+}
+
+const SEGMENTS = [
+  { value: 'NEW', label: 'Yeni' },
+  { value: 'ACTIVE', label: 'Aktif' },
+  { value: 'SLEEPING', label: 'Uyuyan' },
+];
+
+/**
+ * Promo codes the customer types on the WhatsApp order summary: discount
+ * terms, validity window, usage limits and store/segment restrictions.
+ */
+@Component({
+  selector: 'app-coupons',
+  standalone: true,
+  imports: [CommonModule, FormsModule, IconComponent],
+  template: `
+    <div class="coupons-page">
+      <div class="page-header">
+        <div>
+          <h1>Kuponlar</h1>
+          <p class="text-secondary">
+            Müşteri kodu WhatsApp'ta sipariş özetinde yazar, indirim toplamdan düşülür. Kampanya
+            gönderimlerine özel tek kullanımlık kodlar kampanya detayında görünür.
+          </p>
+        </div>
+        <button class="btn-primary" (click)="openForm()">
+          <app-icon name="plus" [size]="16" /> Yeni Kupon
+        </button>
+      </div>
+
+      @if (editing()) {
+        <div class="card coupon-form">
+          <div class="card-header">
+            <h3>{{ editingId() ? 'Kuponu Düzenle' : 'Yeni Kupon' }}</h3>
+          </div>
+          <div class="form-grid">
+            <label>
+              Kod
+              <input type="text" [(ngModel)]="form.code" maxlength="32" placeholder="YAZ20" />
+            </label>
+            <label>
+              Açıklama
+              <input type="text" [(ngModel)]="form.description" maxlength="200" />
+            </label>
+            <label>
+              Tür
+              <select [(ngModel)]="form.type">
+                <option value="PERCENTAGE">Yüzde indirim</option>
+                <option value="FIXED_AMOUNT">Sabit tutar</option>
+                <option value="FREE_ITEM">Ücretsiz ürün</option>
+              </select>
+            </label>
+            @if (form.type === 'FREE_ITEM') {
+              <label>
+                Ücretsiz ürün
+                <input type="text" [(ngModel)]="form.freeItemName" list="coupon-menu-items" />
+                <datalist id="coupon-menu-items">
+                  @for (name of menuItemNames(); track name) {
+                    <option [value]="name"></option>
+                  }
+                </datalist>
+              </label>
+            } @else {
+              <label>
+                {{ form.type === 'PERCENTAGE' ? 'İndirim (%)' : 'İndirim (TL)' }}
+                <input type="number" min="0" step="0.01" [(ngModel)]="form.value" />
+              </label>
+            }
+            <label>
+              Minimum sepet (TL)
+              <input type="number" min="0" step="0.01" [(ngModel)]="form.minBasket" />
+            </label>
+            <label>
+              Başlangıç
+              <input type="datetime-local" [(ngModel)]="form.startsAt" />
+            </label>
+            <label>
+              Bitiş
+              <input type="datetime-local" [(ngModel)]="form.endsAt" />
+            </label>
+            <label>
+              Toplam kullanım
+              <input
+                type="number"
+                min="1"
+                step="1"
+                [(ngModel)]="form.maxUses"
+                placeholder="Sınırsız"
+              />
+            </label>
+            <label>
+              Müşteri başına
+              <input
+                type="number"
+                min="1"
+                step="1"
+                [(ngModel)]="form.maxUsesPerCustomer"
+                placeholder="Sınırsız"
+              />
+            </label>
+          </div>
+
+          <div class="restrictions">
+            <div>
+              <span class="restriction-title">Şubeler</span>
+              <span class="text-secondary">(seçilmezse tüm şubeler)</span>
+              <div class="chips">
+                @for (store of stores(); track store.id) {
+                  <label class="chip">
+                    <input
+                      type="checkbox"
+                      [checked]="form.storeIds.includes(store.id)"
+                      (change)="toggle(form.storeIds, store.id)"
+                    />
+                    {{ store.name }}
+                  </label>
+                }
+              </div>
+            </div>
+            <div>
+              <span class="restriction-title">Segmentler</span>
+              <span class="text-secondary">(seçilmezse tüm müşteriler)</span>
+              <div class="chips">
+                @for (segment of segmentOptions; track segment.value) {
+                  <label class="chip">
+                    <input
+                      type="checkbox"
+                      [checked]="form.segments.includes(segment.value)"
+                      (change)="toggle(form.segments, segment.value)"
+                    />
+                    {{ segment.label }}
+                  </label>
+                }
+              </div>
+            </div>
+          </div>
+
+          <div class="form-actions">
+            <label class="chip">
+              <input type="checkbox" [(ngModel)]="form.isActive" /> Aktif
+            </label>
+            <button class="btn-secondary" (click)="closeForm()">Vazgeç</button>
+            <button class="btn-primary" [disabled]="saving() || !form.code.trim()" (click)="save()">
+              {{ saving() ? 'Kaydediliyor...' : 'Kaydet' }}
+            </button>
+          </div>
+        </div>
+      }
+
+      @if (loading()) {
+        <div class="loading">Yükleniyor...</div>
+      } @else if (coupons().length === 0) {
+        <div class="empty-state">
+          <app-icon name="gift" [size]="40" />
+          <p>Henüz kupon yok.</p>
+        </div>
+      } @else {
+        <div class="coupon-list">
+          @for (coupon of coupons(); track coupon.id) {
+            <div class="coupon-card" [class.inactive]="!coupon.isActive">
+              <div class="coupon-main">
+                <strong class="coupon-code">{{ coupon.code }}</strong>
+                <span>{{ describeDiscount(coupon) }}</span>
+                @if (coupon.description) {
+                  <span class="text-secondary">{{ coupon.description }}</span>
+                }
+              </div>
+              <div class="coupon-terms text-secondary">
+                @if (coupon.minBasket) {
+                  <span>Min. {{ coupon.minBasket | number: '1.2-2' }} TL</span>
+                }
+                <span>{{ describeWindow(coupon) }}</span>
+                <span>
+                  {{ coupon.redemptionCount
+                  }}{{ coupon.maxUses ? ' / ' + coupon.maxUses : '' }} kullanım · -{{
+                    coupon.totalDiscount | number: '1.2-2'
+                  }}
+                  TL
+                </span>
+                @if (coupon.storeIds.length > 0) {
+                  <span>{{ coupon.storeIds.length }} şube</span>
+                }
+                @if (coupon.segments.length > 0) {
+                  <span>{{ describeSegments(coupon) }}</span>
+                }
+              </div>
+              <div class="coupon-actions">
+                <button class="icon-btn" title="Düzenle" (click)="openForm(coupon)">
+                  <app-icon name="edit" [size]="16" />
+                </button>
+                <button class="icon-btn" title="Sil" (click)="remove(coupon)">
+                  <app-icon name="trash" [size]="16" />
+                </button>
+              </div>
+            </div>
+          }
+        </div>
+      }
+    </div>
+  `,
+  styles: [
+    `
+      .coupons-page {
+        padding: 24px;
+        max-width: 1100px;
+        margin: 0 auto;
+      }
+      .page-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: flex-start;
+        gap: 16px;
+        margin-bottom: 20px;
+        flex-wrap: wrap;
+      }
+      .page-header h1 {
+        margin: 0 0 4px;
+        font-size: 1.5rem;
+      }
+      .text-secondary {
+        color: var(--color-text-secondary);
+        margin: 0;
+      }
+      .btn-primary,
+      .btn-secondary {
+        display: inline-flex;
+        align-items: center;
+        gap: 6px;
+        padding: 8px 16px;
+        border-radius: var(--radius-md, 8px);
+        border: 1px solid transparent;
+        cursor: pointer;
+        font-weight: 600;
+      }
+      .btn-primary {
+        background: var(--color-accent-primary, #3b82f6);
+        color: white;
+      }
+      .btn-primary:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+      .btn-secondary {
+        background: transparent;
+        border-color: var(--color-border);
+        color: var(--color-text-primary);
+      }
+      .loading,
+      .empty-state {
+        text-align: center;
+        padding: 48px;
+        color: var(--color-text-secondary);
+      }
+      .card,
+      .coupon-card {
+        padding: 16px 20px;
+        background: var(--color-bg-elevated);
+        border: 1px solid var(--color-border);
+        border-radius: var(--radius-md, 8px);
+      }
+      .coupon-form {
+        margin-bottom: 20px;
+      }
+      .card-header h3 {
+        margin: 0 0 12px;
+      }
+      .form-grid {
+        display: grid;
+        grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+        gap: 12px 16px;
+      }
+      .form-grid label {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        font-size: 0.875rem;
+      }
+      .form-grid input,
+      .form-grid select {
+        padding: 8px 10px;
+        border-radius: var(--radius-md, 8px);
+        border: 1px solid var(--color-border);
+        background: var(--color-bg-secondary);
+        color: var(--color-text-primary);
+      }
+      .restrictions {
+        display: flex;
+        flex-direction: column;
+        gap: 12px;
+        margin-top: 16px;
+        font-size: 0.875rem;
+      }
+      .restriction-title {
+        font-weight: 600;
+        margin-right: 6px;
+      }
+      .chips {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+        margin-top: 6px;
+      }
+      .chip {
+        display: inline-flex;
+        align-items: center;
+        gap: 6px;
+        padding: 4px 10px;
+        border: 1px solid var(--color-border);
+        border-radius: 999px;
+        font-size: 0.875rem;
+        cursor: pointer;
+      }
+      .form-actions {
+        display: flex;
+        justify-content: flex-end;
+        align-items: center;
+        gap: 8px;
+        margin-top: 16px;
+        padding-top: 16px;
+        border-top: 1px solid var(--color-border);
+      }
+      .form-actions .chip {
+        margin-right: auto;
+      }
+      .coupon-list {
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+      }
+      .coupon-card {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 12px;
+        flex-wrap: wrap;
+      }
+      .coupon-card.inactive {
+        opacity: 0.55;
+      }
+      .coupon-main {
+        display: flex;
+        flex-direction: column;
+        gap: 2px;
+        min-width: 180px;
+      }
+      .coupon-code {
+        font-family: monospace;
+        font-size: 1rem;
+      }
+      .coupon-terms {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 14px;
+        font-size: 0.875rem;
+      }
+      .coupon-actions {
+        display: flex;
+        gap: 6px;
+      }
+      .icon-btn {
+        display: inline-flex;
+        padding: 8px;
+        border-radius: var(--radius-md, 8px);
+        border: 1px solid var(--color-border);
+        background: transparent;
+        color: var(--color-text-primary);
+        cursor: pointer;
+      }
+    `,
+  ],
+})
+export class CouponsComponent implements OnInit {
+  private couponService = inject(CouponService);
+  private storeService = inject(StoreService);
+  private menuService = inject(MenuService);
+  private dialog = inject(DialogService);
+
+  coupons = signal<CouponDto[]>([]);
+  stores = signal<StoreDto[]>([]);
+  menuItemNames = signal<string[]>([]);
+  loading = signal(false);
+  saving = signal(false);
+  editing = signal(false);
+  editingId = signal<string | null>(null);
+
+  segmentOptions = SEGMENTS;
+  form: CouponForm = this.emptyForm();
+
+  ngOnInit(): void {
+    this.load();
+    this.storeService.getStores().subscribe({
+      next: (res) => this.stores.set(res.data ?? []),
+    });
+    this.menuService.getPublishedMenu().subscribe({
+      next: (res) => {
+        const items = (res.data?.categories ?? [])
+          .flatMap((c) => c.items)
+          .filter((i) => i.isActive);
+        this.menuItemNames.set([...new Set(items.map((i) => i.name))]);
+      },
+    });
+  }
+
+  load(): void {
+    this.loading.set(true);
+    this.couponService.getCoupons().subscribe({
+      next: (res) => {
+        this.coupons.set(res.data ?? []);
+        this.loading.set(false);
+      },
+      error: (err) => {
+        this.loading.set(false);
+        this.dialog.error(err.error?.error?.message || 'Kuponlar yüklenemedi');
+      },
+    });
+  }
+
+  openForm(coupon?: CouponDto): void {
+    this.editingId.set(coupon?.id ?? null);
+    this.form = coupon
+      ? {
+          code: coupon.code,
+          description: coupon.description ?? '',
+          type: coupon.type,
+          value: coupon.type === 'FREE_ITEM' ? null : coupon.value,
+          freeItemName: coupon.freeItemName ?? '',
+          minBasket: coupon.minBasket,
+          startsAt: this.toLocalInput(coupon.startsAt),
+          endsAt: this.toLocalInput(coupon.endsAt),
+          maxUses: coupon.maxUses,
+          maxUsesPerCustomer: coupon.maxUsesPerCustomer,
+          storeIds: [...coupon.storeIds],
+          segments: [...coupon.segments],
+          isActive: coupon.isActive,
+        }
+      : this.emptyForm();
+    this.editing.set(true);
+  }
+
+  closeForm(): void {
+    this.editing.set(false);
+    this.editingId.set(null);
+  }
+
+  save(): void {
+    const data: CreateCouponDto = {
+      code: this.form.code.trim(),
+      description: this.form.description.trim() || null,
+      type: this.form.type,
+      value: this.form.type === 'FREE_ITEM' ? 0 : (this.form.value ?? 0),
+      freeItemName: this.form.type === 'FREE_ITEM' ? this.form.freeItemName.trim() : null,
+      minBasket: this.form.minBasket || null,
+      startsAt: this.form.startsAt ? new Date(this.form.startsAt).toISOString() : null,
+      endsAt: this.form.endsAt ? new Date(this.form.endsAt).toISOString() : null,
+      maxUses: this.form.maxUses || null,
+      maxUsesPerCustomer: this.form.maxUsesPerCustomer || null,
+      storeIds: this.form.storeIds,
+      segments: this.form.segments,
+      isActive: this.form.isActive,
+    };
+
+    const id = this.editingId();
+    const request = id
+      ? this.couponService.updateCoupon(id, data)
+      : this.couponService.createCoupon(data);
+
+    this.saving.set(true);
+    request.subscribe({
+      next: () => {
+        this.saving.set(false);
+        this.dialog.success(id ? 'Kupon güncellendi' : 'Kupon oluşturuldu');
+        this.closeForm();
+        this.load();
+      },
+      error: (err) => {
+        this.saving.set(false);
+        this.dialog.error(err.error?.error?.message || 'Kupon kaydedilemedi');
+      },
+    });
+  }
+
+  async remove(coupon: CouponDto): Promise<void> {
+    const confirmed = await this.dialog.confirm(`${coupon.code} kuponu silinsin mi?`, {
+      title: 'Kuponu Sil',
+      confirmText: 'Sil',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    this.couponService.deleteCoupon(coupon.id).subscribe({
+      next: () => {
+        this.dialog.success('Kupon silindi');
+        this.load();
+      },
+      error: (err) => {
+        // Used codes cannot be deleted
+        const message =
+          err.error?.error?.code === 'COUPON_IN_USE'
+            ? 'Bu kupon siparişlerde kullanıldı. Silmek yerine pasife alın.'
+            : err.error?.error?.message || 'Kupon silinemedi';
+        this.dialog.error(message);
+      },
+    });
+  }
+
+  toggle(list: string[], value: string): void {
+    const index = list.indexOf(value);
+    if (index >= 0) {
+      list.splice(index, 1);
+    } else {
+      list.push(value);
+    }
+  }
+
+  describeDiscount(coupon: CouponDto): string {
+    switch (coupon.type) {
+      case 'PERCENTAGE':
+        return `%${coupon.value} indirim`;
+      case 'FIXED_AMOUNT':
+        return `${coupon.value.toFixed(2)} TL indirim`;
+      case 'FREE_ITEM':
+        return `Ücretsiz ${coupon.freeItemName}`;
+    }
+  }
+
+  describeWindow(coupon: CouponDto): string {
+    if (!coupon.startsAt && !coupon.endsAt) return 'Süresiz';
+    const format = (value: string | null) =>
+      value ? new Date(value).toLocaleDateString('tr-TR') : '…';
+    return `${format(coupon.startsAt)} – ${format(coupon.endsAt)}`;
+  }
+
+  describeSegments(coupon: CouponDto): string {
+    return coupon.segments
+      .map((value) => SEGMENTS.find((s) => s.value === value)?.label ?? value)
+      .join(', ');
+  }
+
+  private toLocalInput(value: string | null): string {
+    if (!value) return '';
+    const date = new Date(value);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  }
+
+  private emptyForm(): CouponForm {
+    return {
+      code: '',
+      description: '',
+      type: 'PERCENTAGE',
+      value: null,
+      freeItemName: '',
+      minBasket: null,
+      startsAt: '',
+      endsAt: '',
+      maxUses: null,
+      maxUsesPerCustomer: null,
+      storeIds: [],
+      segments: [],
+      isActive: true,
+    };
+  }
+}
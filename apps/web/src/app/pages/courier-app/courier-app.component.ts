@@ -0,0 +1,400 @@
+import { Component, OnDestroy, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute } from '@angular/router';
+import { CourierService, CourierAppDto, CourierDeliveryDto } from '../../services/courier.service';
+import { IconComponent } from '../../shared/icon.component';
+import { DialogService } from '../../shared/dialog.service';
+
+const REFRESH_INTERVAL_MS = 15000;
+const LOCATION_INTERVAL_MS = 30000;
+
+/**
+ * Mobile page couriers open from their personal link. The token in the URL
+ * is the only credential, so no panel login is needed.
+ */
+@Component({
+  selector: 'app-courier-app',
+  standalone: true,
+  imports: [CommonModule, IconComponent],
+  template: `
+    <div class="courier-app">
+      @if (app(); as data) {
+        <header class="app-header">
+          <div>
+            <h1><app-icon name="bike" [size]="20" /> {{ data.courier.name }}</h1>
+            <span class="store">{{ data.courier.storeName }}</span>
+          </div>
+          <button class="duty-btn" [class.on]="data.courier.isOnDuty" (click)="toggleDuty()">
+            {{ data.courier.isOnDuty ? 'Mesaideyim' : 'Mesai Dışı' }}
+          </button>
+        </header>
+
+        @if (data.courier.isOnDuty && locationError()) {
+          <div class="warning">
+            <app-icon name="alert-triangle" [size]="14" /> Konum alınamıyor: {{ locationError() }}
+          </div>
+        }
+
+        @if (data.deliveries.length === 0) {
+          <div class="message">
+            <app-icon name="inbox" [size]="40" />
+            <p>
+              {{
+                data.courier.isOnDuty
+                  ? 'Atanmış teslimat yok.'
+                  : 'Teslimat almak için mesaiye başlayın.'
+              }}
+            </p>
+          </div>
+        }
+
+        @for (delivery of data.deliveries; track delivery.id) {
+          <div class="delivery-card">
+            <div class="delivery-header">
+              <strong>#{{ delivery.orderNumber }}</strong>
+              <span class="status" [class]="delivery.status.toLowerCase()">
+                {{ getStatusLabel(delivery) }}
+              </span>
+            </div>
+
+            <div class="customer">
+              <div>{{ delivery.customerName || 'Müşteri' }}</div>
+              @if (delivery.customerPhone) {
+                <a [href]="'tel:+' + delivery.customerPhone" class="link">
+                  <app-icon name="phone" [size]="14" /> {{ delivery.customerPhone }}
+                </a>
+              }
+            </div>
+
+            @if (delivery.deliveryAddress) {
+              <div class="address">{{ delivery.deliveryAddress }}</div>
+            }
+            @if (mapsUrl(delivery); as url) {
+              <a [href]="url" target="_blank" rel="noopener" class="link">
+                <app-icon name="map-pin" [size]="14" /> Haritada aç
+              </a>
+            }
+
+            <ul class="items">
+              @for (item of delivery.items; track $index) {
+                <li>{{ item.qty }}x {{ item.name }}</li>
+              }
+            </ul>
+            @if (delivery.notes) {
+              <div class="notes">Not: {{ delivery.notes }}</div>
+            }
+
+            <div class="total">
+              <span>{{ delivery.paymentMethod || '-' }}</span>
+              <strong>{{ delivery.totalPrice | number: '1.2-2' }} TL</strong>
+            </div>
+
+            <div class="actions">
+              @switch (delivery.status) {
+                @case ('ASSIGNED') {
+                  <button
+                    class="action"
+                    [disabled]="busyId() === delivery.id"
+                    (click)="act(delivery, 'accept')"
+                  >
+                    Kabul Et
+                  </button>
+                }
+                @case ('ACCEPTED') {
+                  <button
+                    class="action"
+                    [disabled]="busyId() === delivery.id || delivery.orderStatus !== 'READY'"
+                    (click)="act(delivery, 'pickup')"
+                  >
+                    {{ delivery.orderStatus === 'READY' ? 'Teslim Aldım' : 'Sipariş hazırlanıyor' }}
+                  </button>
+                }
+                @case ('PICKED_UP') {
+                  <button
+                    class="action success"
+                    [disabled]="busyId() === delivery.id"
+                    (click)="act(delivery, 'deliver')"
+                  >
+                    Teslim Edildi
+                  </button>
+                }
+              }
+            </div>
+          </div>
+        }
+      } @else if (notFound()) {
+        <div class="message">
+          <app-icon name="alert-circle" [size]="40" />
+          <p>Bu kurye bağlantısı geçersiz. Lütfen işletmeden yeni bağlantı isteyin.</p>
+        </div>
+      } @else {
+        <div class="message">Yükleniyor...</div>
+      }
+    </div>
+  `,
+  styles: [
+    `
+      .courier-app {
+        min-height: 100vh;
+        max-width: 560px;
+        margin: 0 auto;
+        padding: 16px;
+        background: var(--color-bg-primary);
+        color: var(--color-text-primary);
+      }
+      .app-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 16px;
+      }
+      .app-header h1 {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin: 0;
+        font-size: 1.25rem;
+      }
+      .store {
+        color: var(--color-text-secondary);
+        font-size: 0.875rem;
+      }
+      .duty-btn {
+        padding: 10px 16px;
+        border-radius: 999px;
+        border: 1px solid var(--color-border);
+        background: var(--color-bg-elevated);
+        color: var(--color-text-secondary);
+        font-weight: 600;
+        cursor: pointer;
+      }
+      .duty-btn.on {
+        background: #22c55e;
+        border-color: #22c55e;
+        color: white;
+      }
+      .warning {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 10px 12px;
+        margin-bottom: 12px;
+        border-radius: 8px;
+        background: rgba(245, 158, 11, 0.15);
+        color: #b45309;
+        font-size: 0.875rem;
+      }
+      .message {
+        text-align: center;
+        padding: 48px 16px;
+        color: var(--color-text-secondary);
+      }
+      .delivery-card {
+        padding: 16px;
+        margin-bottom: 12px;
+        border-radius: 12px;
+        border: 1px solid var(--color-border);
+        background: var(--color-bg-elevated);
+      }
+      .delivery-header,
+      .customer,
+      .total {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 8px;
+      }
+      .delivery-header {
+        margin-bottom: 10px;
+        font-size: 1.125rem;
+      }
+      .status {
+        padding: 2px 10px;
+        border-radius: 999px;
+        font-size: 0.75rem;
+        background: rgba(59, 130, 246, 0.15);
+        color: #3b82f6;
+      }
+      .status.picked_up {
+        background: rgba(34, 197, 94, 0.15);
+        color: #22c55e;
+      }
+      .address {
+        margin: 8px 0 4px;
+        font-size: 0.9375rem;
+      }
+      .link {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        color: var(--color-accent-primary, #3b82f6);
+        text-decoration: none;
+      }
+      .items {
+        margin: 10px 0;
+        padding-left: 18px;
+        font-size: 0.875rem;
+      }
+      .notes {
+        font-size: 0.875rem;
+        color: var(--color-text-secondary);
+        margin-bottom: 8px;
+      }
+      .total {
+        padding-top: 8px;
+        border-top: 1px solid var(--color-border);
+      }
+      .actions {
+        margin-top: 12px;
+      }
+      .action {
+        width: 100%;
+        padding: 14px;
+        border: none;
+        border-radius: 10px;
+        background: var(--color-accent-primary, #3b82f6);
+        color: white;
+        font-size: 1rem;
+        font-weight: 600;
+        cursor: pointer;
+      }
+      .action.success {
+        background: #22c55e;
+      }
+      .action:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    `,
+  ],
+})
+export class CourierAppComponent implements OnInit, OnDestroy {
+  private route = inject(ActivatedRoute);
+  private courierService = inject(CourierService);
+  private dialog = inject(DialogService);
+
+  app = signal<CourierAppDto | null>(null);
+  notFound = signal(false);
+  busyId = signal<string | null>(null);
+  locationError = signal<string | null>(null);
+
+  private token = '';
+  private refreshInterval: ReturnType<typeof setInterval> | null = null;
+  private locationInterval: ReturnType<typeof setInterval> | null = null;
+
+  ngOnInit(): void {
+    this.token = this.route.snapshot.paramMap.get('token') || '';
+    this.load();
+    this.refreshInterval = setInterval(() => this.load(), REFRESH_INTERVAL_MS);
+  }
+
+  ngOnDestroy(): void {
+    if (this.refreshInterval) clearInterval(this.refreshInterval);
+    this.stopLocation();
+  }
+
+  load(): void {
+    this.courierService.getCourierApp(this.token).subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.app.set(res.data);
+          this.syncLocation(res.data.courier.isOnDuty);
+        }
+      },
+      error: (err) => {
+        if (err.status === 404) {
+          this.notFound.set(true);
+          this.stopLocation();
+          if (this.refreshInterval) clearInterval(this.refreshInterval);
+        }
+      },
+    });
+  }
+
+  toggleDuty(): void {
+    const current = this.app();
+    if (!current) return;
+
+    this.courierService.setOnDuty(this.token, !current.courier.isOnDuty).subscribe({
+      next: () => this.load(),
+      error: (err) =>
+        this.dialog.error(err.error?.error?.message || 'Mesai durumu değiştirilemedi'),
+    });
+  }
+
+  act(delivery: CourierDeliveryDto, action: 'accept' | 'pickup' | 'deliver'): void {
+    this.busyId.set(delivery.id);
+    this.courierService.deliveryAction(this.token, delivery.id, action).subscribe({
+      next: () => {
+        this.busyId.set(null);
+        this.load();
+      },
+      error: (err) => {
+        this.busyId.set(null);
+        this.dialog.error(err.error?.error?.message || 'İşlem başarısız oldu');
+        this.load();
+      },
+    });
+  }
+
+  getStatusLabel(delivery: CourierDeliveryDto): string {
+    switch (delivery.status) {
+      case 'ASSIGNED':
+        return 'Yeni';
+      case 'ACCEPTED':
+        return 'Kabul edildi';
+      case 'PICKED_UP':
+        return 'Yolda';
+      default:
+        return delivery.status;
+    }
+  }
+
+  mapsUrl(delivery: CourierDeliveryDto): string | null {
+    if (delivery.destination) {
+      return `https://www.google.com/maps/dir/?api=1&destination=${delivery.destination.lat},${delivery.destination.lng}`;
+    }
+    if (delivery.deliveryAddress) {
+      return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(delivery.deliveryAddress)}`;
+    }
+    return null;
+  }
+
+  // ==================== LOCATION ====================
+
+  /** Ping the location while on duty; the tracking page and nearest-courier assignment use it */
+  private syncLocation(isOnDuty: boolean): void {
+    if (isOnDuty && !this.locationInterval) {
+      this.sendLocation();
+      this.locationInterval = setInterval(() => this.sendLocation(), LOCATION_INTERVAL_MS);
+    } else if (!isOnDuty) {
+      this.stopLocation();
+    }
+  }
+
+  private stopLocation(): void {
+    if (this.locationInterval) clearInterval(this.locationInterval);
+    this.locationInterval = null;
+  }
+
+  private sendLocation(): void {
+    if (!navigator.geolocation) {
+      this.locationError.set('Tarayıcı konum desteklemiyor');
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        this.locationError.set(null);
+        this.courierService
+          .sendLocation(this.token, {
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+          })
+          .subscribe();
+      },
+      (error) => this.locationError.set(error.message || 'izin verilmedi'),
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 10000 }
+    );
+  }
+}
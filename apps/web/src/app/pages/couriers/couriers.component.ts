@@ -0,0 +1,537 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CourierService, CourierDto } from '../../services/courier.service';
+import { StoreService, StoreDto } from '../../services/store.service';
+import { IconComponent } from '../../shared/icon.component';
+import { DialogService } from '../../shared/dialog.service';
+
+interface CourierForm {
+  storeId: string;
+  name: string;
+  phone: string;
+  isActive: boolean;
+}
+
+@Component({
+  selector: 'app-couriers',
+  standalone: true,
+  imports: [CommonModule, FormsModule, IconComponent],
+  template: `
+    <div class="couriers-page">
+      <div class="page-header">
+        <div>
+          <h1>Kuryeler</h1>
+          <p class="text-secondary">
+            Her kurye kendi bağlantısıyla kurye ekranını açar; giriş gerekmez.
+          </p>
+        </div>
+        <div class="header-actions">
+          <select [(ngModel)]="storeFilter" (change)="loadCouriers()" class="store-select">
+            <option [ngValue]="null">Tüm Şubeler</option>
+            @for (store of stores(); track store.id) {
+              <option [ngValue]="store.id">{{ store.name }}</option>
+            }
+          </select>
+          <button class="btn-primary" (click)="openForm()">
+            <app-icon name="plus" [size]="16" /> Yeni Kurye
+          </button>
+        </div>
+      </div>
+
+      @if (loading()) {
+        <div class="loading">Yükleniyor...</div>
+      } @else if (couriers().length === 0) {
+        <div class="empty-state">
+          <app-icon name="bike" [size]="40" />
+          <p>Henüz kurye eklenmemiş.</p>
+        </div>
+      } @else {
+        <div class="stats-row">
+          <div class="stat-card">
+            <div class="stat-value">{{ couriers().length }}</div>
+            <div class="stat-label">Toplam Kurye</div>
+          </div>
+          <div class="stat-card">
+            <div class="stat-value">{{ onDutyCount() }}</div>
+            <div class="stat-label">Mesaide</div>
+          </div>
+          <div class="stat-card">
+            <div class="stat-value">{{ activeDeliveryCount() }}</div>
+            <div class="stat-label">Aktif Teslimat</div>
+          </div>
+        </div>
+
+        <div class="courier-list">
+          @for (courier of couriers(); track courier.id) {
+            <div class="courier-card" [class.inactive]="!courier.isActive">
+              <div class="courier-main">
+                <div class="courier-title">
+                  <span class="duty-dot" [class.on]="courier.isOnDuty"></span>
+                  <strong>{{ courier.name }}</strong>
+                  @if (!courier.isActive) {
+                    <span class="badge muted">Pasif</span>
+                  } @else {
+                    <span class="badge" [class.on]="courier.isOnDuty">
+                      {{ courier.isOnDuty ? 'Mesaide' : 'Mesai dışı' }}
+                    </span>
+                  }
+                </div>
+                <div class="courier-meta">
+                  <span><app-icon name="store" [size]="12" /> {{ courier.storeName || '-' }}</span>
+                  @if (courier.phone) {
+                    <span><app-icon name="phone" [size]="12" /> {{ courier.phone }}</span>
+                  }
+                  <span
+                    ><app-icon name="package" [size]="12" /> {{ courier.activeDeliveries }} aktif
+                    teslimat</span
+                  >
+                  @if (
+                    courier.lastLocationAt && courier.lastLat !== null && courier.lastLng !== null
+                  ) {
+                    <a
+                      [href]="mapsUrl(courier.lastLat, courier.lastLng)"
+                      target="_blank"
+                      rel="noopener"
+                      class="location-link"
+                    >
+                      <app-icon name="map-pin" [size]="12" />
+                      {{ formatTime(courier.lastLocationAt) }}
+                    </a>
+                  }
+                </div>
+              </div>
+              <div class="courier-actions">
+                <button class="icon-btn" title="Bağlantıyı kopyala" (click)="copyLink(courier)">
+                  <app-icon name="copy" [size]="16" />
+                </button>
+                <button
+                  class="icon-btn"
+                  title="Yeni bağlantı oluştur"
+                  (click)="regenerateLink(courier)"
+                >
+                  <app-icon name="refresh" [size]="16" />
+                </button>
+                <button class="icon-btn" title="Düzenle" (click)="openForm(courier)">
+                  <app-icon name="edit" [size]="16" />
+                </button>
+                <button class="icon-btn danger" title="Sil" (click)="deleteCourier(courier)">
+                  <app-icon name="trash" [size]="16" />
+                </button>
+              </div>
+            </div>
+          }
+        </div>
+      }
+
+      @if (showForm()) {
+        <div class="modal-overlay" (click)="closeForm()">
+          <div class="modal" (click)="$event.stopPropagation()">
+            <div class="modal-header">
+              <h3>{{ editingId() ? 'Kuryeyi Düzenle' : 'Yeni Kurye' }}</h3>
+              <button class="close-btn" (click)="closeForm()">
+                <app-icon name="x" [size]="16" />
+              </button>
+            </div>
+            <div class="modal-body">
+              <label>
+                Şube
+                <select [(ngModel)]="form.storeId">
+                  @for (store of stores(); track store.id) {
+                    <option [value]="store.id">{{ store.name }}</option>
+                  }
+                </select>
+              </label>
+              <label>
+                Ad Soyad
+                <input type="text" [(ngModel)]="form.name" placeholder="Kurye adı" />
+              </label>
+              <label>
+                Telefon
+                <input type="tel" [(ngModel)]="form.phone" placeholder="905xxxxxxxxx" />
+              </label>
+              <label class="checkbox">
+                <input type="checkbox" [(ngModel)]="form.isActive" /> Aktif
+              </label>
+            </div>
+            <div class="modal-actions">
+              <button class="btn-secondary" (click)="closeForm()">İptal</button>
+              <button
+                class="btn-primary"
+                [disabled]="saving() || !form.name.trim() || !form.storeId"
+                (click)="save()"
+              >
+                {{ saving() ? 'Kaydediliyor...' : 'Kaydet' }}
+              </button>
+            </div>
+          </div>
+        </div>
+      }
+    </div>
+  `,
+  styles: [
+    `
+      .couriers-page {
+        padding: 24px;
+        max-width: 1100px;
+        margin: 0 auto;
+      }
+      .page-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: flex-start;
+        gap: 16px;
+        margin-bottom: 20px;
+        flex-wrap: wrap;
+      }
+      .page-header h1 {
+        margin: 0 0 4px;
+        font-size: 1.5rem;
+      }
+      .text-secondary {
+        color: var(--color-text-secondary);
+        margin: 0;
+      }
+      .header-actions {
+        display: flex;
+        gap: 8px;
+        align-items: center;
+      }
+      .store-select,
+      .modal-body select,
+      .modal-body input[type='text'],
+      .modal-body input[type='tel'] {
+        padding: 8px 10px;
+        border-radius: var(--radius-md, 8px);
+        border: 1px solid var(--color-border);
+        background: var(--color-bg-secondary);
+        color: var(--color-text-primary);
+      }
+      .btn-primary,
+      .btn-secondary {
+        display: inline-flex;
+        align-items: center;
+        gap: 6px;
+        padding: 8px 16px;
+        border-radius: var(--radius-md, 8px);
+        border: 1px solid transparent;
+        cursor: pointer;
+        font-weight: 600;
+      }
+      .btn-primary {
+        background: var(--color-accent-primary, #3b82f6);
+        color: white;
+      }
+      .btn-primary:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+      .btn-secondary {
+        background: transparent;
+        border-color: var(--color-border);
+        color: var(--color-text-primary);
+      }
+      .loading,
+      .empty-state {
+        text-align: center;
+        padding: 48px;
+        color: var(--color-text-secondary);
+      }
+      .stats-row {
+        display: flex;
+        gap: 16px;
+        margin-bottom: 20px;
+        flex-wrap: wrap;
+      }
+      .stat-card {
+        flex: 1;
+        min-width: 140px;
+        padding: 16px 20px;
+        background: var(--color-bg-elevated);
+        border: 1px solid var(--color-border);
+        border-radius: var(--radius-md, 8px);
+      }
+      .stat-value {
+        font-size: 1.5rem;
+        font-weight: 700;
+      }
+      .stat-label {
+        color: var(--color-text-secondary);
+        font-size: 0.85rem;
+      }
+      .courier-list {
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+      }
+      .courier-card {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 12px;
+        padding: 14px 16px;
+        background: var(--color-bg-elevated);
+        border: 1px solid var(--color-border);
+        border-radius: var(--radius-md, 8px);
+      }
+      .courier-card.inactive {
+        opacity: 0.6;
+      }
+      .courier-title {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 6px;
+      }
+      .duty-dot {
+        width: 10px;
+        height: 10px;
+        border-radius: 50%;
+        background: var(--color-text-muted, #9ca3af);
+      }
+      .duty-dot.on {
+        background: #22c55e;
+      }
+      .badge {
+        padding: 2px 8px;
+        border-radius: 999px;
+        font-size: 0.75rem;
+        background: rgba(156, 163, 175, 0.2);
+        color: var(--color-text-secondary);
+      }
+      .badge.on {
+        background: rgba(34, 197, 94, 0.15);
+        color: #22c55e;
+      }
+      .courier-meta {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 14px;
+        font-size: 0.8125rem;
+        color: var(--color-text-secondary);
+      }
+      .courier-meta span,
+      .location-link {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+      }
+      .location-link {
+        color: var(--color-accent-primary, #3b82f6);
+        text-decoration: none;
+      }
+      .courier-actions {
+        display: flex;
+        gap: 6px;
+      }
+      .icon-btn {
+        display: inline-flex;
+        padding: 8px;
+        border-radius: var(--radius-md, 8px);
+        border: 1px solid var(--color-border);
+        background: transparent;
+        color: var(--color-text-primary);
+        cursor: pointer;
+      }
+      .icon-btn.danger:hover {
+        color: var(--color-accent-danger, #ef4444);
+        border-color: var(--color-accent-danger, #ef4444);
+      }
+      .modal-overlay {
+        position: fixed;
+        inset: 0;
+        background: rgba(0, 0, 0, 0.5);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        z-index: 1000;
+      }
+      .modal {
+        width: 420px;
+        max-width: calc(100vw - 32px);
+        background: var(--color-bg-elevated);
+        border-radius: var(--radius-lg, 12px);
+        border: 1px solid var(--color-border);
+      }
+      .modal-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        padding: 16px 20px;
+        border-bottom: 1px solid var(--color-border);
+      }
+      .modal-header h3 {
+        margin: 0;
+      }
+      .close-btn {
+        background: none;
+        border: none;
+        color: var(--color-text-secondary);
+        cursor: pointer;
+      }
+      .modal-body {
+        display: flex;
+        flex-direction: column;
+        gap: 12px;
+        padding: 20px;
+      }
+      .modal-body label {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        font-size: 0.875rem;
+      }
+      .modal-body label.checkbox {
+        flex-direction: row;
+        align-items: center;
+      }
+      .modal-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 8px;
+        padding: 16px 20px;
+        border-top: 1px solid var(--color-border);
+      }
+    `,
+  ],
+})
+export class CouriersComponent implements OnInit {
+  private courierService = inject(CourierService);
+  private storeService = inject(StoreService);
+  private dialog = inject(DialogService);
+
+  couriers = signal<CourierDto[]>([]);
+  stores = signal<StoreDto[]>([]);
+  loading = signal(false);
+  saving = signal(false);
+  showForm = signal(false);
+  editingId = signal<string | null>(null);
+  storeFilter: string | null = null;
+  form: CourierForm = this.emptyForm();
+
+  onDutyCount = computed(() => this.couriers().filter((c) => c.isActive && c.isOnDuty).length);
+  activeDeliveryCount = computed(() =>
+    this.couriers().reduce((sum, c) => sum + c.activeDeliveries, 0)
+  );
+
+  ngOnInit(): void {
+    this.loadCouriers();
+    this.storeService.getStores().subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.stores.set(res.data);
+        }
+      },
+    });
+  }
+
+  loadCouriers(): void {
+    this.loading.set(true);
+    this.courierService.getCouriers(this.storeFilter || undefined).subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.couriers.set(res.data);
+        }
+        this.loading.set(false);
+      },
+      error: () => this.loading.set(false),
+    });
+  }
+
+  openForm(courier?: CourierDto): void {
+    this.editingId.set(courier?.id ?? null);
+    this.form = courier
+      ? {
+          storeId: courier.storeId,
+          name: courier.name,
+          phone: courier.phone || '',
+          isActive: courier.isActive,
+        }
+      : this.emptyForm();
+    this.showForm.set(true);
+  }
+
+  closeForm(): void {
+    this.showForm.set(false);
+    this.editingId.set(null);
+  }
+
+  save(): void {
+    const data = {
+      storeId: this.form.storeId,
+      name: this.form.name.trim(),
+      phone: this.form.phone.trim() || null,
+      isActive: this.form.isActive,
+    };
+    const id = this.editingId();
+    const request = id
+      ? this.courierService.updateCourier(id, data)
+      : this.courierService.createCourier(data);
+
+    this.saving.set(true);
+    request.subscribe({
+      next: () => {
+        this.saving.set(false);
+        this.closeForm();
+        this.loadCouriers();
+      },
+      error: (err) => {
+        this.saving.set(false);
+        this.dialog.error(err.error?.error?.message || 'Kurye kaydedilemedi');
+      },
+    });
+  }
+
+  copyLink(courier: CourierDto): void {
+    navigator.clipboard
+      .writeText(courier.appUrl)
+      .then(() => this.dialog.success('Kurye bağlantısı kopyalandı'));
+  }
+
+  async regenerateLink(courier: CourierDto): Promise<void> {
+    const confirmed = await this.dialog.confirm(
+      `${courier.name} için yeni bağlantı oluşturulsun mu? Eski bağlantı çalışmayı durdurur.`,
+      { title: 'Yeni Bağlantı', confirmText: 'Oluştur', variant: 'warning' }
+    );
+    if (!confirmed) return;
+
+    this.courierService.regenerateLink(courier.id).subscribe({
+      next: () => {
+        this.dialog.success('Yeni bağlantı oluşturuldu');
+        this.loadCouriers();
+      },
+      error: (err) => this.dialog.error(err.error?.error?.message || 'Bağlantı yenilenemedi'),
+    });
+  }
+
+  async deleteCourier(courier: CourierDto): Promise<void> {
+    const confirmed = await this.dialog.confirm(`${courier.name} silinsin mi?`, {
+      title: 'Kuryeyi Sil',
+      confirmText: 'Sil',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    this.courierService.deleteCourier(courier.id).subscribe({
+      next: () => this.loadCouriers(),
+      error: (err) => this.dialog.error(err.error?.error?.message || 'Kurye silinemedi'),
+    });
+  }
+
+  mapsUrl(lat: number, lng: number): string {
+    return `https://www.google.com/maps?q=${lat},${lng}`;
+  }
+
+  formatTime(dateStr: string): string {
+    return new Date(dateStr).toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' });
+  }
+
+  private emptyForm(): CourierForm {
+    return {
+      storeId: this.storeFilter || this.stores()[0]?.id || '',
+      name: '',
+      phone: '',
+      isActive: true,
+    };
+  }
+}
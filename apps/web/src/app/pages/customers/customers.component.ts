@@ -4,6 +4,18 @@ import { FormsModule } from '@angular/forms';
 import { HttpClient } from '@angular/common/http';
 import { environment } from '../../../environments/environment';
 import { AuthService } from '../../services/auth.service';
+import { MenuService } from '../../services/menu.service';
+import {
+  LoyaltyService,
+  LoyaltyMember,
+  LoyaltyOverview,
+  LoyaltySettings,
+  LoyaltyTransaction,
+} from '../../services/loyalty.service';
+import { IconComponent } from '../../shared/icon.component';
+import { DialogService } from '../../shared/dialog.service';
+
+type Tab = 'customers' | 'loyalty';
 
 interface CustomerProfile {
   id: string;
@@ -18,6 +30,8 @@ interface CustomerProfile {
   lastOrderAt: string | null;
   orderCount: number;
   totalSpent: number | string;
+  loyaltyPoints: number;
+  loyaltyStamps: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -64,7 +78,7 @@ interface Stats {
 @Component({
   selector: 'app-customers',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, IconComponent],
   template: `
     <div class="page">
       <div class="page-header">
@@ -79,228 +93,402 @@ interface Stats {
         </div>
       </div>
 
-      <!-- Stats Cards -->
-      <div class="stats-row">
-        <div class="stat-card">
-          <div class="stat-value">{{ stats()?.totalCustomers || 0 }}</div>
-          <div class="stat-label">Toplam Müşteri</div>
-        </div>
-        <div class="stat-card stat-active">
-          <div class="stat-value">{{ stats()?.segments?.['ACTIVE'] || 0 }}</div>
-          <div class="stat-label">Aktif</div>
-        </div>
-        <div class="stat-card stat-sleeping">
-          <div class="stat-value">{{ stats()?.segments?.['SLEEPING'] || 0 }}</div>
-          <div class="stat-label">Uyuyan</div>
-        </div>
-        <div class="stat-card stat-new">
-          <div class="stat-value">{{ stats()?.segments?.['NEW'] || 0 }}</div>
-          <div class="stat-label">Yeni</div>
-        </div>
-        <div class="stat-card stat-optin">
-          <div class="stat-value">{{ stats()?.optedIn || 0 }}</div>
-          <div class="stat-label">Kampanya İzinli</div>
-        </div>
+      <!-- Tabs -->
+      <div class="tabs">
+        @for (tab of tabs; track tab.id) {
+          <button class="tab" [class.active]="activeTab() === tab.id" (click)="selectTab(tab.id)">
+            <app-icon [name]="tab.icon" [size]="16" class="tab-icon" />
+            {{ tab.label }}
+          </button>
+        }
       </div>
 
-      <!-- Filters -->
-      <div class="filters-row">
-        <div class="search-box">
-          <span class="search-icon">&#128269;</span>
-          <input
-            type="text"
-            placeholder="İsim veya telefon ara..."
-            [ngModel]="searchQuery()"
-            (ngModelChange)="searchQuery.set($event)"
-            class="search-input"
-          />
+      @if (activeTab() === 'customers') {
+        <!-- Stats Cards -->
+        <div class="stats-row">
+          <div class="stat-card">
+            <div class="stat-value">{{ stats()?.totalCustomers || 0 }}</div>
+            <div class="stat-label">Toplam Müşteri</div>
+          </div>
+          <div class="stat-card stat-active">
+            <div class="stat-value">{{ stats()?.segments?.['ACTIVE'] || 0 }}</div>
+            <div class="stat-label">Aktif</div>
+          </div>
+          <div class="stat-card stat-sleeping">
+            <div class="stat-value">{{ stats()?.segments?.['SLEEPING'] || 0 }}</div>
+            <div class="stat-label">Uyuyan</div>
+          </div>
+          <div class="stat-card stat-new">
+            <div class="stat-value">{{ stats()?.segments?.['NEW'] || 0 }}</div>
+            <div class="stat-label">Yeni</div>
+          </div>
+          <div class="stat-card stat-optin">
+            <div class="stat-value">{{ stats()?.optedIn || 0 }}</div>
+            <div class="stat-label">Kampanya İzinli</div>
+          </div>
         </div>
-        <div class="filter-group">
-          <select [ngModel]="segmentFilter()" (ngModelChange)="onSegmentChange($event)" class="filter-select">
-            <option value="">Tüm Segmentler</option>
-            <option value="ACTIVE">Aktif</option>
-            <option value="SLEEPING">Uyuyan</option>
-            <option value="NEW">Yeni</option>
-          </select>
-          <select [ngModel]="optInFilter()" (ngModelChange)="onOptInChange($event)" class="filter-select">
-            <option value="">Tüm İzinler</option>
-            <option value="OPTED_IN">Kampanya İzinli</option>
-            <option value="OPTED_OUT">Reddetti</option>
-            <option value="PENDING">Bekliyor</option>
-          </select>
-          <select [ngModel]="sortBy()" (ngModelChange)="sortBy.set($event)" class="filter-select">
-            <option value="orderCount">Sipariş Sayısı</option>
-            <option value="totalSpent">Toplam Harcama</option>
-            <option value="lastOrderAt">Son Sipariş</option>
-            <option value="name">İsim</option>
-          </select>
+
+        <!-- Filters -->
+        <div class="filters-row">
+          <div class="search-box">
+            <span class="search-icon">&#128269;</span>
+            <input
+              type="text"
+              placeholder="İsim veya telefon ara..."
+              [ngModel]="searchQuery()"
+              (ngModelChange)="searchQuery.set($event)"
+              class="search-input"
+            />
+          </div>
+          <div class="filter-group">
+            <select [ngModel]="segmentFilter()" (ngModelChange)="onSegmentChange($event)" class="filter-select">
+              <option value="">Tüm Segmentler</option>
+              <option value="ACTIVE">Aktif</option>
+              <option value="SLEEPING">Uyuyan</option>
+              <option value="NEW">Yeni</option>
+            </select>
+            <select [ngModel]="optInFilter()" (ngModelChange)="onOptInChange($event)" class="filter-select">
+              <option value="">Tüm İzinler</option>
+              <option value="OPTED_IN">Kampanya İzinli</option>
+              <option value="OPTED_OUT">Reddetti</option>
+              <option value="PENDING">Bekliyor</option>
+            </select>
+            <select [ngModel]="sortBy()" (ngModelChange)="sortBy.set($event)" class="filter-select">
+              <option value="orderCount">Sipariş Sayısı</option>
+              <option value="totalSpent">Toplam Harcama</option>
+              <option value="lastOrderAt">Son Sipariş</option>
+              <option value="name">İsim</option>
+            </select>
+          </div>
         </div>
-      </div>
 
-      <!-- Content -->
-      <div class="content-layout" [class.detail-open]="selectedCustomer()">
-        <!-- Customer List -->
-        <div class="customer-list">
-          @if (loading()) {
-            <div class="loading-state">Yükleniyor...</div>
-          } @else if (filteredCustomers().length === 0) {
-            <div class="empty-state">
-              @if (customers().length === 0) {
-                <p>Henüz müşteri profili yok.</p>
-                <p class="text-muted">Profilleri senkronlayarak mevcut müşterileri yükleyin.</p>
+        <!-- Content -->
+        <div class="content-layout" [class.detail-open]="selectedCustomer()">
+          <!-- Customer List -->
+          <div class="customer-list">
+            @if (loading()) {
+              <div class="loading-state">Yükleniyor...</div>
+            } @else if (filteredCustomers().length === 0) {
+              <div class="empty-state">
+                @if (customers().length === 0) {
+                  <p>Henüz müşteri profili yok.</p>
+                  <p class="text-muted">Profilleri senkronlayarak mevcut müşterileri yükleyin.</p>
+                } @else {
+                  <p>Filtrelere uygun müşteri bulunamadı.</p>
+                }
+              </div>
+            } @else {
+              <div class="table-wrapper">
+                <table class="data-table">
+                  <thead>
+                    <tr>
+                      <th>Müşteri</th>
+                      <th>Segment</th>
+                      <th>Sipariş</th>
+                      <th>Harcama</th>
+                      <th>Son Sipariş</th>
+                      <th>Kampanya</th>
+                      <th>Saat</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    @for (c of paginatedCustomers(); track c.id) {
+                      <tr
+                        class="customer-row"
+                        [class.selected]="selectedCustomer()?.id === c.id"
+                        (click)="selectCustomer(c)"
+                      >
+                        <td class="customer-cell">
+                          <div class="customer-avatar">{{ getInitial(c) }}</div>
+                          <div class="customer-info">
+                            <span class="customer-name">{{ c.customerName || 'İsimsiz' }}</span>
+                            <span class="customer-phone">{{ formatPhone(c.customerPhone) }}</span>
+                          </div>
+                        </td>
+                        <td>
+                          <span class="badge" [class]="'badge-' + c.segment.toLowerCase()">
+                            {{ segmentLabel(c.segment) }}
+                          </span>
+                        </td>
+                        <td class="num-cell">{{ c.orderCount }}</td>
+                        <td class="num-cell">{{ formatMoney(c.totalSpent) }}</td>
+                        <td class="date-cell">{{ c.lastOrderAt ? formatDate(c.lastOrderAt) : '-' }}</td>
+                        <td>
+                          <span class="badge" [class]="'badge-optin-' + c.broadcastOptIn.toLowerCase()">
+                            {{ optInLabel(c.broadcastOptIn) }}
+                          </span>
+                        </td>
+                        <td class="num-cell">{{ c.avgOrderHour != null ? (c.avgOrderHour + ':00') : '-' }}</td>
+                      </tr>
+                    }
+                  </tbody>
+                </table>
+              </div>
+
+              <!-- Pagination -->
+              @if (totalPages() > 1) {
+                <div class="pagination">
+                  <button class="btn btn-sm" [disabled]="currentPage() <= 1" (click)="currentPage.set(currentPage() - 1)">Önceki</button>
+                  <span class="page-info">{{ currentPage() }} / {{ totalPages() }}</span>
+                  <button class="btn btn-sm" [disabled]="currentPage() >= totalPages()" (click)="currentPage.set(currentPage() + 1)">Sonraki</button>
+                </div>
+              }
+            }
+          </div>
+
+          <!-- Customer Detail Panel -->
+          @if (selectedCustomer(); as customer) {
+            <div class="detail-panel">
+              <div class="detail-header">
+                <div class="detail-title-row">
+                  <h2 class="detail-name">{{ customer.customerName || 'İsimsiz' }}</h2>
+                  <button class="close-btn" (click)="selectedCustomer.set(null)">&times;</button>
+                </div>
+                <p class="detail-phone">{{ formatPhone(customer.customerPhone) }}</p>
+                <div class="detail-badges">
+                  <span class="badge" [class]="'badge-' + customer.segment.toLowerCase()">{{ segmentLabel(customer.segment) }}</span>
+                  <span class="badge" [class]="'badge-optin-' + customer.broadcastOptIn.toLowerCase()">{{ optInLabel(customer.broadcastOptIn) }}</span>
+                </div>
+              </div>
+
+              <div class="detail-stats">
+                <div class="detail-stat">
+                  <span class="detail-stat-value">{{ customer.orderCount }}</span>
+                  <span class="detail-stat-label">Sipariş</span>
+                </div>
+                <div class="detail-stat">
+                  <span class="detail-stat-value">{{ formatMoney(customer.totalSpent) }}</span>
+                  <span class="detail-stat-label">Toplam</span>
+                </div>
+                <div class="detail-stat">
+                  <span class="detail-stat-value">{{ customer.avgOrderHour != null ? (customer.avgOrderHour + ':00') : '-' }}</span>
+                  <span class="detail-stat-label">Ort. Saat</span>
+                </div>
+              </div>
+
+              <!-- Favorites -->
+              @if (detailLoading()) {
+                <div class="detail-loading">Detaylar yükleniyor...</div>
               } @else {
-                <p>Filtrelere uygun müşteri bulunamadı.</p>
+                @if (loyalty()?.settings?.isEnabled) {
+                  <div class="detail-section">
+                    <h3 class="section-title">Sadakat</h3>
+                    <div class="loyalty-balance">{{ loyaltyBalance(customer) }}</div>
+                    @for (tx of customerTransactions(); track tx.id) {
+                      <div class="order-item-row">
+                        <span>{{ transactionLabel(tx.type) }}{{ tx.orderNumber ? ' #' + tx.orderNumber : '' }}</span>
+                        <span class="text-muted">{{ formatChange(tx) }} · {{ formatDate(tx.createdAt) }}</span>
+                      </div>
+                    }
+                    <div class="adjust-row">
+                      <input type="number" step="1" [(ngModel)]="adjustForm.amount" placeholder="±" class="adjust-amount" />
+                      <input type="text" [(ngModel)]="adjustForm.note" maxlength="200" placeholder="Açıklama" class="adjust-note" />
+                      <button class="btn btn-sm" (click)="adjustBalance(customer)" [disabled]="adjusting()">Düzelt</button>
+                    </div>
+                  </div>
+                }
+
+                @if (customerFavorites().length > 0) {
+                  <div class="detail-section">
+                    <h3 class="section-title">Favori Ürünler</h3>
+                    <div class="favorites-list">
+                      @for (fav of customerFavorites(); track fav.menuItemId) {
+                        <div class="favorite-item">
+                          <div class="fav-info">
+                            <span class="fav-name">{{ fav.menuItemName }}</span>
+                            @if (fav.category) {
+                              <span class="fav-category">{{ fav.category }}</span>
+                            }
+                          </div>
+                          <div class="fav-stats">
+                            <span class="fav-qty">{{ fav.totalQty }}x</span>
+                            <span class="fav-price">{{ formatMoney(fav.currentPrice) }}</span>
+                          </div>
+                        </div>
+                      }
+                    </div>
+                  </div>
+                }
+
+                <!-- Order History -->
+                @if (customerOrders().length > 0) {
+                  <div class="detail-section">
+                    <h3 class="section-title">Sipariş Geçmişi</h3>
+                    <div class="orders-list">
+                      @for (order of customerOrders(); track order.id) {
+                        <div class="order-card" (click)="toggleOrderExpand(order.id)">
+                          <div class="order-header-row">
+                            <span class="order-number">#{{ order.orderNumber }}</span>
+                            <span class="badge badge-status" [class]="'badge-status-' + order.status.toLowerCase()">{{ statusLabel(order.status) }}</span>
+                          </div>
+                          <div class="order-meta">
+                            <span>{{ formatMoney(order.totalPrice) }}</span>
+                            <span class="text-muted">{{ formatDate(order.createdAt) }}</span>
+                          </div>
+                          @if (expandedOrderId() === order.id && order.items.length > 0) {
+                            <div class="order-items">
+                              @for (item of order.items; track $index) {
+                                <div class="order-item-row">
+                                  <span>{{ item.qty }}x {{ item.menuItemName }}</span>
+                                  <span class="text-muted">{{ formatMoney(item.unitPrice) }}</span>
+                                </div>
+                              }
+                            </div>
+                          }
+                        </div>
+                      }
+                    </div>
+                  </div>
+                }
               }
             </div>
-          } @else {
-            <div class="table-wrapper">
+          }
+        </div>
+      } @else {
+        <!-- Loyalty -->
+        <div class="card loyalty-settings">
+          <h3 class="card-title">Program Ayarları</h3>
+          <div class="form-grid">
+            <label class="checkbox-label">
+              <input type="checkbox" [(ngModel)]="settingsForm.isEnabled" />
+              Program aktif
+            </label>
+            <label>
+              Program türü
+              <select [(ngModel)]="settingsForm.type">
+                <option value="POINTS">Puan</option>
+                <option value="STAMPS">Damga kartı</option>
+              </select>
+            </label>
+            @if (settingsForm.type === 'POINTS') {
+              <label>
+                1 TL için puan
+                <input type="number" min="0" step="0.01" [(ngModel)]="settingsForm.pointsPerTl" />
+              </label>
+              <label>
+                1 puanın değeri (TL)
+                <input type="number" min="0.01" step="0.01" [(ngModel)]="settingsForm.pointValue" />
+              </label>
+              <label>
+                En az kullanılabilir puan
+                <input type="number" min="1" step="1" [(ngModel)]="settingsForm.minRedeemPoints" />
+              </label>
+            } @else {
+              <label>
+                Damga ürünü
+                <input type="text" [(ngModel)]="settingsForm.stampItemName" list="loyalty-menu-items" placeholder="Lahmacun" />
+                <datalist id="loyalty-menu-items">
+                  @for (name of menuItemNames(); track name) {
+                    <option [value]="name"></option>
+                  }
+                </datalist>
+              </label>
+              <label>
+                Hediye için damga
+                <input type="number" min="1" step="1" [(ngModel)]="settingsForm.stampsRequired" />
+                <span class="field-hint">9 = her 10. ürün bedava</span>
+              </label>
+            }
+          </div>
+          <p class="field-hint">
+            Puan ve damgalar sipariş teslim edildiğinde yazılır. Müşteri WhatsApp'ta "puanım" yazarak
+            bakiyesini görür, sipariş özetinde "puan kullan" yazarak harcar.
+          </p>
+          <div class="form-actions">
+            <button class="btn btn-primary" (click)="saveLoyaltySettings()" [disabled]="savingSettings()">
+              {{ savingSettings() ? 'Kaydediliyor...' : 'Kaydet' }}
+            </button>
+          </div>
+        </div>
+
+        @if (loyalty(); as overview) {
+          <div class="stats-row loyalty-stats">
+            <div class="stat-card">
+              <div class="stat-value">{{ overview.memberCount }}</div>
+              <div class="stat-label">Bakiyesi Olan</div>
+            </div>
+            <div class="stat-card stat-new">
+              <div class="stat-value">{{ overview.outstandingPoints }}</div>
+              <div class="stat-label">Bekleyen Puan</div>
+            </div>
+            <div class="stat-card stat-sleeping">
+              <div class="stat-value">{{ overview.outstandingStamps }}</div>
+              <div class="stat-label">Bekleyen Damga</div>
+            </div>
+            <div class="stat-card stat-active">
+              <div class="stat-value">{{ formatMoney(overview.redeemedDiscount) }}</div>
+              <div class="stat-label">Kullanılan İndirim</div>
+            </div>
+          </div>
+        }
+
+        <div class="loyalty-tables">
+          <div class="table-wrapper">
+            <h3 class="table-title">Üyeler</h3>
+            @if (loyaltyMembers().length === 0) {
+              <div class="empty-state"><p>Henüz puan veya damga kazanan müşteri yok.</p></div>
+            } @else {
               <table class="data-table">
                 <thead>
                   <tr>
                     <th>Müşteri</th>
-                    <th>Segment</th>
-                    <th>Sipariş</th>
-                    <th>Harcama</th>
+                    <th>Puan</th>
+                    <th>Damga</th>
                     <th>Son Sipariş</th>
-                    <th>Kampanya</th>
-                    <th>Saat</th>
                   </tr>
                 </thead>
                 <tbody>
-                  @for (c of paginatedCustomers(); track c.id) {
-                    <tr
-                      class="customer-row"
-                      [class.selected]="selectedCustomer()?.id === c.id"
-                      (click)="selectCustomer(c)"
-                    >
-                      <td class="customer-cell">
-                        <div class="customer-avatar">{{ getInitial(c) }}</div>
+                  @for (m of loyaltyMembers(); track m.customerPhone) {
+                    <tr>
+                      <td>
                         <div class="customer-info">
-                          <span class="customer-name">{{ c.customerName || 'İsimsiz' }}</span>
-                          <span class="customer-phone">{{ formatPhone(c.customerPhone) }}</span>
+                          <span class="customer-name">{{ m.customerName || 'İsimsiz' }}</span>
+                          <span class="customer-phone">{{ formatPhone(m.customerPhone) }}</span>
                         </div>
                       </td>
-                      <td>
-                        <span class="badge" [class]="'badge-' + c.segment.toLowerCase()">
-                          {{ segmentLabel(c.segment) }}
-                        </span>
-                      </td>
-                      <td class="num-cell">{{ c.orderCount }}</td>
-                      <td class="num-cell">{{ formatMoney(c.totalSpent) }}</td>
-                      <td class="date-cell">{{ c.lastOrderAt ? formatDate(c.lastOrderAt) : '-' }}</td>
-                      <td>
-                        <span class="badge" [class]="'badge-optin-' + c.broadcastOptIn.toLowerCase()">
-                          {{ optInLabel(c.broadcastOptIn) }}
-                        </span>
-                      </td>
-                      <td class="num-cell">{{ c.avgOrderHour != null ? (c.avgOrderHour + ':00') : '-' }}</td>
+                      <td class="num-cell">{{ m.points }}</td>
+                      <td class="num-cell">{{ m.stamps }}</td>
+                      <td class="date-cell">{{ m.lastOrderAt ? formatDate(m.lastOrderAt) : '-' }}</td>
                     </tr>
                   }
                 </tbody>
               </table>
-            </div>
-
-            <!-- Pagination -->
-            @if (totalPages() > 1) {
-              <div class="pagination">
-                <button class="btn btn-sm" [disabled]="currentPage() <= 1" (click)="currentPage.set(currentPage() - 1)">Önceki</button>
-                <span class="page-info">{{ currentPage() }} / {{ totalPages() }}</span>
-                <button class="btn btn-sm" [disabled]="currentPage() >= totalPages()" (click)="currentPage.set(currentPage() + 1)">Sonraki</button>
-              </div>
             }
-          }
-        </div>
-
-        <!-- Customer Detail Panel -->
-        @if (selectedCustomer(); as customer) {
-          <div class="detail-panel">
-            <div class="detail-header">
-              <div class="detail-title-row">
-                <h2 class="detail-name">{{ customer.customerName || 'İsimsiz' }}</h2>
-                <button class="close-btn" (click)="selectedCustomer.set(null)">&times;</button>
-              </div>
-              <p class="detail-phone">{{ formatPhone(customer.customerPhone) }}</p>
-              <div class="detail-badges">
-                <span class="badge" [class]="'badge-' + customer.segment.toLowerCase()">{{ segmentLabel(customer.segment) }}</span>
-                <span class="badge" [class]="'badge-optin-' + customer.broadcastOptIn.toLowerCase()">{{ optInLabel(customer.broadcastOptIn) }}</span>
-              </div>
-            </div>
-
-            <div class="detail-stats">
-              <div class="detail-stat">
-                <span class="detail-stat-value">{{ customer.orderCount }}</span>
-                <span class="detail-stat-label">Sipariş</span>
-              </div>
-              <div class="detail-stat">
-                <span class="detail-stat-value">{{ formatMoney(customer.totalSpent) }}</span>
-                <span class="detail-stat-label">Toplam</span>
-              </div>
-              <div class="detail-stat">
-                <span class="detail-stat-value">{{ customer.avgOrderHour != null ? (customer.avgOrderHour + ':00') : '-' }}</span>
-                <span class="detail-stat-label">Ort. Saat</span>
-              </div>
-            </div>
+          </div>
 
-            <!-- Favorites -->
-            @if (detailLoading()) {
-              <div class="detail-loading">Detaylar yükleniyor...</div>
+          <div class="table-wrapper">
+            <h3 class="table-title">Son Hareketler</h3>
+            @if (loyaltyTransactions().length === 0) {
+              <div class="empty-state"><p>Henüz hareket yok.</p></div>
             } @else {
-              @if (customerFavorites().length > 0) {
-                <div class="detail-section">
-                  <h3 class="section-title">Favori Ürünler</h3>
-                  <div class="favorites-list">
-                    @for (fav of customerFavorites(); track fav.menuItemId) {
-                      <div class="favorite-item">
-                        <div class="fav-info">
-                          <span class="fav-name">{{ fav.menuItemName }}</span>
-                          @if (fav.category) {
-                            <span class="fav-category">{{ fav.category }}</span>
-                          }
-                        </div>
-                        <div class="fav-stats">
-                          <span class="fav-qty">{{ fav.totalQty }}x</span>
-                          <span class="fav-price">{{ formatMoney(fav.currentPrice) }}</span>
-                        </div>
-                      </div>
-                    }
-                  </div>
-                </div>
-              }
-
-              <!-- Order History -->
-              @if (customerOrders().length > 0) {
-                <div class="detail-section">
-                  <h3 class="section-title">Sipariş Geçmişi</h3>
-                  <div class="orders-list">
-                    @for (order of customerOrders(); track order.id) {
-                      <div class="order-card" (click)="toggleOrderExpand(order.id)">
-                        <div class="order-header-row">
-                          <span class="order-number">#{{ order.orderNumber }}</span>
-                          <span class="badge badge-status" [class]="'badge-status-' + order.status.toLowerCase()">{{ statusLabel(order.status) }}</span>
-                        </div>
-                        <div class="order-meta">
-                          <span>{{ formatMoney(order.totalPrice) }}</span>
-                          <span class="text-muted">{{ formatDate(order.createdAt) }}</span>
-                        </div>
-                        @if (expandedOrderId() === order.id && order.items.length > 0) {
-                          <div class="order-items">
-                            @for (item of order.items; track $index) {
-                              <div class="order-item-row">
-                                <span>{{ item.qty }}x {{ item.menuItemName }}</span>
-                                <span class="text-muted">{{ formatMoney(item.unitPrice) }}</span>
-                              </div>
-                            }
-                          </div>
-                        }
-                      </div>
-                    }
-                  </div>
-                </div>
-              }
+              <table class="data-table">
+                <thead>
+                  <tr>
+                    <th>Tarih</th>
+                    <th>Müşteri</th>
+                    <th>İşlem</th>
+                    <th>Değişim</th>
+                    <th>Sipariş</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  @for (tx of loyaltyTransactions(); track tx.id) {
+                    <tr>
+                      <td class="date-cell">{{ formatDate(tx.createdAt) }}</td>
+                      <td>{{ formatPhone(tx.customerPhone) }}</td>
+                      <td [title]="tx.note || ''">{{ transactionLabel(tx.type) }}</td>
+                      <td class="num-cell" [class.negative]="tx.points < 0 || tx.stamps < 0">
+                        {{ formatChange(tx) }}
+                      </td>
+                      <td>{{ tx.orderNumber ? '#' + tx.orderNumber : '-' }}</td>
+                    </tr>
+                  }
+                </tbody>
+              </table>
             }
           </div>
-        }
-      </div>
+        </div>
+      }
     </div>
   `,
   styles: [
@@ -353,6 +541,17 @@ interface Stats {
         }
       }
 
+      .btn-primary {
+        background: var(--color-accent-primary);
+        border-color: var(--color-accent-primary);
+        color: white;
+
+        &:hover:not(:disabled) {
+          background: var(--color-accent-primary);
+          opacity: 0.9;
+        }
+      }
+
       .btn-sm {
         padding: var(--spacing-xs) var(--spacing-md);
         font-size: 0.8125rem;
@@ -363,6 +562,145 @@ interface Stats {
         border: 1px solid var(--color-border);
       }
 
+      /* Tabs */
+      .tabs {
+        display: flex;
+        gap: var(--spacing-xs);
+        margin-bottom: var(--spacing-lg);
+        border-bottom: 1px solid var(--color-border);
+        padding-bottom: var(--spacing-sm);
+      }
+
+      .tab {
+        display: flex;
+        align-items: center;
+        gap: var(--spacing-xs);
+        padding: var(--spacing-sm) var(--spacing-md);
+        background: transparent;
+        border: none;
+        color: var(--color-text-secondary);
+        cursor: pointer;
+        border-radius: var(--radius-md);
+        transition: all var(--transition-fast);
+
+        &:hover {
+          background: var(--color-bg-tertiary);
+          color: var(--color-text-primary);
+        }
+
+        &.active {
+          background: var(--color-bg-elevated);
+          color: var(--color-accent-primary);
+        }
+      }
+
+      .tab-icon {
+        display: inline-flex;
+        align-items: center;
+      }
+
+      /* Loyalty */
+      .card {
+        background: var(--color-bg-secondary);
+        border: 1px solid var(--color-border);
+        border-radius: var(--radius-lg);
+        padding: var(--spacing-lg);
+        margin-bottom: var(--spacing-lg);
+      }
+
+      .card-title {
+        font-size: 1rem;
+        font-weight: 600;
+        margin-bottom: var(--spacing-md);
+      }
+
+      .form-grid {
+        display: grid;
+        grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+        gap: var(--spacing-md);
+        align-items: start;
+      }
+
+      .form-grid label {
+        display: flex;
+        flex-direction: column;
+        gap: var(--spacing-xs);
+        font-size: 0.875rem;
+      }
+
+      .form-grid .checkbox-label {
+        flex-direction: row;
+        align-items: center;
+        align-self: center;
+      }
+
+      .form-grid input[type='text'],
+      .form-grid input[type='number'],
+      .form-grid select,
+      .adjust-row input {
+        padding: var(--spacing-sm) var(--spacing-md);
+        border: 1px solid var(--color-border);
+        border-radius: var(--radius-md);
+        background: var(--color-bg-primary);
+        color: var(--color-text-primary);
+        font-size: 0.875rem;
+      }
+
+      .field-hint {
+        font-size: 0.75rem;
+        color: var(--color-text-secondary);
+        margin-top: var(--spacing-sm);
+      }
+
+      .form-actions {
+        display: flex;
+        justify-content: flex-end;
+        margin-top: var(--spacing-md);
+      }
+
+      .loyalty-stats {
+        grid-template-columns: repeat(4, 1fr);
+      }
+
+      .loyalty-tables {
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+        gap: var(--spacing-lg);
+      }
+
+      .table-title {
+        font-size: 0.875rem;
+        font-weight: 600;
+        padding: var(--spacing-md);
+        border-bottom: 1px solid var(--color-border);
+      }
+
+      .negative {
+        color: var(--color-accent-danger);
+      }
+
+      .loyalty-balance {
+        font-family: var(--font-mono);
+        font-size: 1.125rem;
+        font-weight: 600;
+        margin-bottom: var(--spacing-sm);
+      }
+
+      .adjust-row {
+        display: flex;
+        gap: var(--spacing-xs);
+        margin-top: var(--spacing-sm);
+      }
+
+      .adjust-amount {
+        width: 72px;
+      }
+
+      .adjust-note {
+        flex: 1;
+        min-width: 0;
+      }
+
       /* Stats */
       .stats-row {
         display: grid;
@@ -839,6 +1177,7 @@ interface Stats {
       @media (max-width: 768px) {
         .page { padding: var(--spacing-md); }
         .stats-row { grid-template-columns: repeat(2, 1fr); }
+        .loyalty-tables { grid-template-columns: 1fr; }
         .filters-row { flex-direction: column; }
         .filter-group { flex-wrap: wrap; }
         .detail-panel { display: none; }
@@ -858,8 +1197,17 @@ interface Stats {
 export class CustomersComponent implements OnInit {
   private http = inject(HttpClient);
   private authService = inject(AuthService);
+  private loyaltyService = inject(LoyaltyService);
+  private menuService = inject(MenuService);
+  private dialog = inject(DialogService);
   private apiUrl = environment.apiBaseUrl;
 
+  tabs = [
+    { id: 'customers' as Tab, label: 'Müşteriler', icon: 'users' },
+    { id: 'loyalty' as Tab, label: 'Sadakat', icon: 'star' },
+  ];
+  activeTab = signal<Tab>('customers');
+
   // State
   customers = signal<CustomerProfile[]>([]);
   stats = signal<Stats | null>(null);
@@ -871,6 +1219,25 @@ export class CustomersComponent implements OnInit {
   customerOrders = signal<CustomerOrder[]>([]);
   expandedOrderId = signal<string | null>(null);
 
+  // Loyalty
+  loyalty = signal<LoyaltyOverview | null>(null);
+  loyaltyMembers = signal<LoyaltyMember[]>([]);
+  loyaltyTransactions = signal<LoyaltyTransaction[]>([]);
+  customerTransactions = signal<LoyaltyTransaction[]>([]);
+  menuItemNames = signal<string[]>([]);
+  savingSettings = signal(false);
+  adjusting = signal(false);
+  settingsForm: LoyaltySettings = {
+    isEnabled: false,
+    type: 'POINTS',
+    pointsPerTl: 1,
+    pointValue: 0.1,
+    minRedeemPoints: 100,
+    stampItemName: null,
+    stampsRequired: 9,
+  };
+  adjustForm: { amount: number | null; note: string } = { amount: null, note: '' };
+
   // Filters
   searchQuery = signal('');
   segmentFilter = signal('');
@@ -923,6 +1290,16 @@ export class CustomersComponent implements OnInit {
   ngOnInit() {
     this.loadStats();
     this.loadCustomers();
+    this.loadLoyalty();
+  }
+
+  selectTab(tab: Tab) {
+    this.activeTab.set(tab);
+    if (tab === 'loyalty') {
+      this.loadLoyalty();
+      this.loadLoyaltyLists();
+      if (this.menuItemNames().length === 0) this.loadMenuItemNames();
+    }
   }
 
   private loadCustomers() {
@@ -986,7 +1363,16 @@ export class CustomersComponent implements OnInit {
     this.detailLoading.set(true);
     this.customerFavorites.set([]);
     this.customerOrders.set([]);
+    this.customerTransactions.set([]);
     this.expandedOrderId.set(null);
+    this.adjustForm = { amount: null, note: '' };
+
+    // Load loyalty history
+    this.loyaltyService.getTransactions(c.customerPhone).subscribe({
+      next: (res) => {
+        if (res.data) this.customerTransactions.set(res.data.slice(0, 10));
+      },
+    });
 
     // Load favorites
     this.http
@@ -1015,6 +1401,120 @@ export class CustomersComponent implements OnInit {
       });
   }
 
+  // Loyalty
+  private loadLoyalty() {
+    this.loyaltyService.getOverview().subscribe({
+      next: (res) => {
+        if (!res.data) return;
+        this.loyalty.set(res.data);
+        this.settingsForm = { ...res.data.settings };
+      },
+    });
+  }
+
+  private loadLoyaltyLists() {
+    this.loyaltyService.getMembers().subscribe({
+      next: (res) => {
+        if (res.data) this.loyaltyMembers.set(res.data);
+      },
+    });
+    this.loyaltyService.getTransactions().subscribe({
+      next: (res) => {
+        if (res.data) this.loyaltyTransactions.set(res.data);
+      },
+    });
+  }
+
+  private loadMenuItemNames() {
+    this.menuService.getPublishedMenu().subscribe({
+      next: (res) => {
+        const items = (res.data?.categories ?? [])
+          .flatMap((c) => c.items)
+          .filter((i) => i.isActive);
+        this.menuItemNames.set([...new Set(items.map((i) => i.name))]);
+      },
+    });
+  }
+
+  saveLoyaltySettings() {
+    this.savingSettings.set(true);
+    this.loyaltyService.updateSettings(this.settingsForm).subscribe({
+      next: () => {
+        this.savingSettings.set(false);
+        this.dialog.success('Sadakat ayarları kaydedildi');
+        this.loadLoyalty();
+      },
+      error: (err) => {
+        this.savingSettings.set(false);
+        this.dialog.error(err.error?.error?.message || 'Sadakat ayarları kaydedilemedi');
+      },
+    });
+  }
+
+  adjustBalance(customer: CustomerProfile) {
+    const amount = Math.trunc(Number(this.adjustForm.amount) || 0);
+    const note = this.adjustForm.note.trim();
+    if (amount === 0 || !note) {
+      this.dialog.error('Miktar ve açıklama gerekli');
+      return;
+    }
+
+    const stamps = this.loyalty()?.settings.type === 'STAMPS';
+    this.adjusting.set(true);
+    this.loyaltyService
+      .adjust({
+        customerPhone: customer.customerPhone,
+        ...(stamps ? { stamps: amount } : { points: amount }),
+        note,
+      })
+      .subscribe({
+        next: (res) => {
+          this.adjusting.set(false);
+          const updated = {
+            ...customer,
+            loyaltyPoints: res.data?.points ?? customer.loyaltyPoints,
+            loyaltyStamps: res.data?.stamps ?? customer.loyaltyStamps,
+          };
+          this.selectedCustomer.set(updated);
+          this.customers.update((list) => list.map((c) => (c.id === updated.id ? updated : c)));
+          this.adjustForm = { amount: null, note: '' };
+          this.dialog.success('Bakiye güncellendi');
+          this.loyaltyService.getTransactions(customer.customerPhone).subscribe({
+            next: (txs) => {
+              if (txs.data) this.customerTransactions.set(txs.data.slice(0, 10));
+            },
+          });
+        },
+        error: (err) => {
+          this.adjusting.set(false);
+          this.dialog.error(err.error?.error?.message || 'Bakiye güncellenemedi');
+        },
+      });
+  }
+
+  loyaltyBalance(c: CustomerProfile): string {
+    const settings = this.loyalty()?.settings;
+    if (settings?.type === 'STAMPS') {
+      return `${c.loyaltyStamps ?? 0}/${settings.stampsRequired} damga`;
+    }
+    return `${c.loyaltyPoints ?? 0} puan`;
+  }
+
+  transactionLabel(type: LoyaltyTransaction['type']): string {
+    switch (type) {
+      case 'EARN': return 'Kazanım';
+      case 'REDEEM': return 'Kullanım';
+      case 'ADJUST': return 'Düzeltme';
+    }
+  }
+
+  formatChange(tx: LoyaltyTransaction): string {
+    const parts: string[] = [];
+    if (tx.points) parts.push(`${tx.points > 0 ? '+' : ''}${tx.points} puan`);
+    if (tx.stamps) parts.push(`${tx.stamps > 0 ? '+' : ''}${tx.stamps} damga`);
+    return parts.join(', ');
+  }
+
   toggleOrderExpand(orderId: string) {
     this.expandedOrderId.set(this.expandedOrderId() === orderId ? null : orderId);
   }
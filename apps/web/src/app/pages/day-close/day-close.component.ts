@@ -0,0 +1,597 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DayCloseService, DayCloseDto, ZReportDto } from '../../services/day-close.service';
+import { StoreService, StoreDto } from '../../services/store.service';
+import { IconComponent } from '../../shared/icon.component';
+import { DialogService } from '../../shared/dialog.service';
+
+/**
+ * End-of-day close per store: the running Z-report since the last close,
+ * cash count with variance, and the closed days with later changes.
+ */
+@Component({
+  selector: 'app-day-close',
+  standalone: true,
+  imports: [CommonModule, FormsModule, IconComponent],
+  template: `
+    <div class="day-close-page">
+      <div class="page-header">
+        <div>
+          <h1>Gün Sonu</h1>
+          <p class="text-secondary">
+            Son kapanıştan bu yana satışlar, kasa sayımı ve Z raporu. Kapatılan günde sonradan
+            yapılan değişiklikler bir sonraki raporda görünür.
+          </p>
+        </div>
+        <div class="header-actions">
+          <select [(ngModel)]="storeId" (change)="load()" class="store-select">
+            @for (store of stores(); track store.id) {
+              <option [value]="store.id">{{ store.name }}</option>
+            }
+          </select>
+          <button class="btn-secondary" (click)="load()">
+            <app-icon name="refresh" [size]="16" /> Yenile
+          </button>
+        </div>
+      </div>
+
+      @if (preview(); as report) {
+        <div class="card">
+          <div class="card-header">
+            <h3>Açık Gün · {{ report.businessDate }}</h3>
+            <span class="text-secondary">
+              {{ formatDateTime(report.periodStart) }} – {{ formatDateTime(report.periodEnd) }}
+            </span>
+          </div>
+
+          @if (report.openOrders > 0 || report.pendingOrders > 0) {
+            <div class="warning">
+              <app-icon name="alert-triangle" [size]="16" />
+              @if (report.openOrders > 0) {
+                <span>{{ report.openOrders }} onaylı sipariş henüz teslim edilmedi.</span>
+              }
+              @if (report.pendingOrders > 0) {
+                <span>{{ report.pendingOrders }} sipariş onay bekliyor.</span>
+              }
+            </div>
+          }
+
+          <ng-container *ngTemplateOutlet="reportTable; context: { $implicit: report }" />
+
+          <div class="close-form">
+            <label>
+              Sayılan Nakit (TL)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                [(ngModel)]="countedCash"
+                placeholder="0.00"
+              />
+            </label>
+            <div
+              class="variance"
+              [class.negative]="variance(report) < 0"
+              [class.positive]="variance(report) > 0"
+            >
+              Beklenen {{ report.expectedCash | number: '1.2-2' }} TL · Fark
+              <strong>{{ variance(report) | number: '1.2-2' }} TL</strong>
+            </div>
+            <label>
+              Not
+              <input
+                type="text"
+                [(ngModel)]="note"
+                maxlength="500"
+                placeholder="Örn. kasadan 200 TL bozuk para alındı"
+              />
+            </label>
+            <label class="checkbox">
+              <input type="checkbox" [(ngModel)]="printReport" /> Z raporunu yazdır
+            </label>
+            <div class="form-actions">
+              <button
+                class="btn-primary"
+                [disabled]="closing() || countedCash === null"
+                (click)="closeDay(report)"
+              >
+                <app-icon name="lock" [size]="16" />
+                {{ closing() ? 'Kapatılıyor...' : 'Günü Kapat' }}
+              </button>
+            </div>
+          </div>
+        </div>
+      } @else if (loading()) {
+        <div class="loading">Yükleniyor...</div>
+      } @else if (stores().length === 0) {
+        <div class="empty-state">
+          <app-icon name="store" [size]="40" />
+          <p>Gün sonu için önce bir şube ekleyin.</p>
+        </div>
+      }
+
+      @if (dayCloses().length > 0) {
+        <h2 class="section-title">Kapatılan Günler</h2>
+        <div class="close-list">
+          @for (dayClose of dayCloses(); track dayClose.id) {
+            <div class="close-card">
+              <div class="close-row">
+                <div class="close-main">
+                  <strong>{{ dayClose.businessDate }}</strong>
+                  <span class="text-secondary">
+                    {{ formatDateTime(dayClose.periodEnd) }} · {{ dayClose.closedByName || '-' }}
+                  </span>
+                </div>
+                <div class="close-figures">
+                  <span>Net {{ dayClose.report.netSales | number: '1.2-2' }} TL</span>
+                  <span>Nakit {{ dayClose.countedCash | number: '1.2-2' }} TL</span>
+                  <span
+                    class="variance-badge"
+                    [class.negative]="dayClose.cashVariance < 0"
+                    [class.positive]="dayClose.cashVariance > 0"
+                  >
+                    Fark {{ dayClose.cashVariance | number: '1.2-2' }} TL
+                  </span>
+                  @if (hasLaterChanges(dayClose)) {
+                    <span
+                      class="changes-badge"
+                      title="Kapanıştan sonra bu günün siparişlerinde yapılan değişiklikler"
+                    >
+                      Sonradan: {{ dayClose.changesSinceClose.adjustments.count }} düzeltme,
+                      {{ dayClose.changesSinceClose.cancellations.count }} iptal
+                    </span>
+                  }
+                </div>
+                <div class="close-actions">
+                  <button class="icon-btn" title="Detay" (click)="toggle(dayClose.id)">
+                    <app-icon
+                      [name]="expandedId() === dayClose.id ? 'chevron-up' : 'chevron-down'"
+                      [size]="16"
+                    />
+                  </button>
+                  <button class="icon-btn" title="Tekrar yazdır" (click)="reprint(dayClose)">
+                    <app-icon name="printer" [size]="16" />
+                  </button>
+                </div>
+              </div>
+              @if (expandedId() === dayClose.id) {
+                <ng-container
+                  *ngTemplateOutlet="reportTable; context: { $implicit: dayClose.report }"
+                />
+                @if (hasLaterChanges(dayClose)) {
+                  <p class="text-secondary later-changes">
+                    Kapanıştan sonra: {{ dayClose.changesSinceClose.adjustments.count }} düzeltme
+                    ({{ dayClose.changesSinceClose.adjustments.amount | number: '1.2-2' }} TL),
+                    {{ dayClose.changesSinceClose.cancellations.count }} iptal ({{
+                      dayClose.changesSinceClose.cancellations.amount | number: '1.2-2'
+                    }}
+                    TL). Bunlar sonraki Z raporunda yer alır.
+                  </p>
+                }
+                @if (dayClose.note) {
+                  <p class="text-secondary later-changes">Not: {{ dayClose.note }}</p>
+                }
+              }
+            </div>
+          }
+        </div>
+      }
+
+      <ng-template #reportTable let-report>
+        <div class="report-grid">
+          <div class="report-block">
+            <h4>Satışlar</h4>
+            <div class="report-row">
+              <span>Sipariş</span><span>{{ report.orderCount }}</span>
+            </div>
+            <div class="report-row">
+              <span>Brüt satış</span><span>{{ report.grossSales | number: '1.2-2' }} TL</span>
+            </div>
+            <div class="report-row">
+              <span>İndirimler</span><span>-{{ report.discounts.total | number: '1.2-2' }} TL</span>
+            </div>
+            <div class="report-row total">
+              <span>Net satış</span><span>{{ report.netSales | number: '1.2-2' }} TL</span>
+            </div>
+          </div>
+          <div class="report-block">
+            <h4>Ödemeler</h4>
+            <div class="report-row">
+              <span>Nakit ({{ report.payments.cash.count }})</span
+              ><span>{{ report.payments.cash.amount | number: '1.2-2' }} TL</span>
+            </div>
+            <div class="report-row">
+              <span>Kapıda kart ({{ report.payments.cardAtDoor.count }})</span
+              ><span>{{ report.payments.cardAtDoor.amount | number: '1.2-2' }} TL</span>
+            </div>
+            <div class="report-row">
+              <span>Online ({{ report.payments.online.count }})</span
+              ><span>{{ report.payments.online.amount | number: '1.2-2' }} TL</span>
+            </div>
+            @if (report.payments.other.count > 0) {
+              <div class="report-row">
+                <span>Diğer ({{ report.payments.other.count }})</span
+                ><span>{{ report.payments.other.amount | number: '1.2-2' }} TL</span>
+              </div>
+            }
+          </div>
+          <div class="report-block">
+            <h4>İndirimler</h4>
+            <div class="report-row">
+              <span>Gel al</span><span>{{ report.discounts.pickup | number: '1.2-2' }} TL</span>
+            </div>
+            <div class="report-row">
+              <span>Ürün indirimleri</span
+              ><span>{{ report.discounts.item | number: '1.2-2' }} TL</span>
+            </div>
+            <div class="report-row">
+              <span>İkram</span><span>{{ report.discounts.goodwill | number: '1.2-2' }} TL</span>
+            </div>
+            @if (report.discounts.coupon) {
+              <div class="report-row">
+                <span>Kupon</span><span>{{ report.discounts.coupon | number: '1.2-2' }} TL</span>
+              </div>
+            }
+            @if (report.discounts.loyalty) {
+              <div class="report-row">
+                <span>Sadakat</span><span>{{ report.discounts.loyalty | number: '1.2-2' }} TL</span>
+              </div>
+            }
+          </div>
+          <div class="report-block">
+            <h4>İade ve İptal</h4>
+            <div class="report-row">
+              <span>Kart iadesi ({{ report.refunds.count }})</span
+              ><span>{{ report.refunds.amount | number: '1.2-2' }} TL</span>
+            </div>
+            <div class="report-row">
+              <span>İptal ({{ report.cancellations.count }})</span
+              ><span>{{ report.cancellations.amount | number: '1.2-2' }} TL</span>
+            </div>
+            <div class="report-row">
+              <span>Önceki gün düzeltme ({{ report.priorDayChanges.adjustments.count }})</span
+              ><span>{{ report.priorDayChanges.adjustments.amount | number: '1.2-2' }} TL</span>
+            </div>
+            <div class="report-row">
+              <span>Önceki gün iptal ({{ report.priorDayChanges.cancellations.count }})</span
+              ><span>{{ report.priorDayChanges.cancellations.amount | number: '1.2-2' }} TL</span>
+            </div>
+          </div>
+        </div>
+      </ng-template>
+    </div>
+  `,
+  styles: [
+    `
+      .day-close-page {
+        padding: 24px;
+        max-width: 1100px;
+        margin: 0 auto;
+      }
+      .page-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: flex-start;
+        gap: 16px;
+        margin-bottom: 20px;
+        flex-wrap: wrap;
+      }
+      .page-header h1 {
+        margin: 0 0 4px;
+        font-size: 1.5rem;
+      }
+      .text-secondary {
+        color: var(--color-text-secondary);
+        margin: 0;
+      }
+      .header-actions {
+        display: flex;
+        gap: 8px;
+        align-items: center;
+      }
+      .store-select,
+      .close-form input[type='number'],
+      .close-form input[type='text'] {
+        padding: 8px 10px;
+        border-radius: var(--radius-md, 8px);
+        border: 1px solid var(--color-border);
+        background: var(--color-bg-secondary);
+        color: var(--color-text-primary);
+      }
+      .btn-primary,
+      .btn-secondary {
+        display: inline-flex;
+        align-items: center;
+        gap: 6px;
+        padding: 8px 16px;
+        border-radius: var(--radius-md, 8px);
+        border: 1px solid transparent;
+        cursor: pointer;
+        font-weight: 600;
+      }
+      .btn-primary {
+        background: var(--color-accent-primary, #3b82f6);
+        color: white;
+      }
+      .btn-primary:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+      .btn-secondary {
+        background: transparent;
+        border-color: var(--color-border);
+        color: var(--color-text-primary);
+      }
+      .loading,
+      .empty-state {
+        text-align: center;
+        padding: 48px;
+        color: var(--color-text-secondary);
+      }
+      .card,
+      .close-card {
+        padding: 16px 20px;
+        background: var(--color-bg-elevated);
+        border: 1px solid var(--color-border);
+        border-radius: var(--radius-md, 8px);
+      }
+      .card-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: baseline;
+        gap: 12px;
+        flex-wrap: wrap;
+        margin-bottom: 12px;
+      }
+      .card-header h3 {
+        margin: 0;
+      }
+      .warning {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        flex-wrap: wrap;
+        padding: 10px 12px;
+        margin-bottom: 12px;
+        border-radius: var(--radius-md, 8px);
+        background: rgba(245, 158, 11, 0.12);
+        color: var(--color-warning, #f59e0b);
+        font-size: 0.875rem;
+      }
+      .report-grid {
+        display: grid;
+        grid-template-columns: repeat(auto-fit, minmax(240px, 1fr));
+        gap: 16px;
+        margin: 12px 0;
+      }
+      .report-block h4 {
+        margin: 0 0 8px;
+        font-size: 0.875rem;
+        color: var(--color-text-secondary);
+        text-transform: uppercase;
+      }
+      .report-row {
+        display: flex;
+        justify-content: space-between;
+        gap: 8px;
+        padding: 4px 0;
+        font-size: 0.875rem;
+        border-bottom: 1px dashed var(--color-border);
+      }
+      .report-row.total {
+        font-weight: 700;
+      }
+      .close-form {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: flex-end;
+        gap: 12px 16px;
+        padding-top: 16px;
+        border-top: 1px solid var(--color-border);
+      }
+      .close-form label {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        font-size: 0.875rem;
+      }
+      .close-form label.checkbox {
+        flex-direction: row;
+        align-items: center;
+      }
+      .variance {
+        padding-bottom: 8px;
+        font-size: 0.875rem;
+      }
+      .negative {
+        color: var(--color-accent-danger, #ef4444);
+      }
+      .positive {
+        color: #22c55e;
+      }
+      .form-actions {
+        margin-left: auto;
+      }
+      .section-title {
+        margin: 28px 0 12px;
+        font-size: 1.125rem;
+      }
+      .close-list {
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+      }
+      .close-row {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 12px;
+        flex-wrap: wrap;
+      }
+      .close-main {
+        display: flex;
+        flex-direction: column;
+        gap: 2px;
+      }
+      .close-figures {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 14px;
+        font-size: 0.875rem;
+      }
+      .variance-badge,
+      .changes-badge {
+        padding: 2px 8px;
+        border-radius: 999px;
+        font-size: 0.75rem;
+        background: rgba(156, 163, 175, 0.2);
+      }
+      .changes-badge {
+        background: rgba(245, 158, 11, 0.15);
+        color: var(--color-warning, #f59e0b);
+      }
+      .close-actions {
+        display: flex;
+        gap: 6px;
+      }
+      .icon-btn {
+        display: inline-flex;
+        padding: 8px;
+        border-radius: var(--radius-md, 8px);
+        border: 1px solid var(--color-border);
+        background: transparent;
+        color: var(--color-text-primary);
+        cursor: pointer;
+      }
+      .later-changes {
+        font-size: 0.875rem;
+        margin-top: 8px;
+      }
+    `,
+  ],
+})
+export class DayCloseComponent implements OnInit {
+  private dayCloseService = inject(DayCloseService);
+  private storeService = inject(StoreService);
+  private dialog = inject(DialogService);
+
+  stores = signal<StoreDto[]>([]);
+  preview = signal<ZReportDto | null>(null);
+  dayCloses = signal<DayCloseDto[]>([]);
+  loading = signal(false);
+  closing = signal(false);
+  expandedId = signal<string | null>(null);
+
+  storeId = '';
+  countedCash: number | null = null;
+  note = '';
+  printReport = true;
+
+  ngOnInit(): void {
+    this.loading.set(true);
+    this.storeService.getStores().subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.stores.set(res.data);
+          this.storeId = res.data[0]?.id ?? '';
+        }
+        this.load();
+      },
+      error: () => this.loading.set(false),
+    });
+  }
+
+  load(): void {
+    if (!this.storeId) {
+      this.loading.set(false);
+      return;
+    }
+
+    this.loading.set(true);
+    this.preview.set(null);
+    this.dayCloseService.getPreview(this.storeId).subscribe({
+      next: (res) => {
+        this.preview.set(res.data ?? null);
+        this.loading.set(false);
+      },
+      error: (err) => {
+        this.loading.set(false);
+        this.dialog.error(err.error?.error?.message || 'Gün sonu raporu alınamadı');
+      },
+    });
+    this.dayCloseService.getDayCloses(this.storeId).subscribe({
+      next: (res) => this.dayCloses.set(res.data ?? []),
+    });
+  }
+
+  variance(report: ZReportDto): number {
+    return Math.round(((this.countedCash ?? 0) - report.expectedCash) * 100) / 100;
+  }
+
+  async closeDay(report: ZReportDto): Promise<void> {
+    if (this.countedCash === null) return;
+
+    const warnings = [
+      report.openOrders > 0 ? `${report.openOrders} sipariş henüz teslim edilmedi.` : '',
+      report.pendingOrders > 0 ? `${report.pendingOrders} sipariş onay bekliyor.` : '',
+    ].filter(Boolean);
+    const confirmed = await this.dialog.confirm(
+      [
+        `${report.storeName} için gün kapatılsın mı? Kasa farkı: ${this.variance(report).toFixed(2)} TL.`,
+        ...warnings,
+      ].join(' '),
+      { title: 'Günü Kapat', confirmText: 'Kapat', variant: 'warning' }
+    );
+    if (!confirmed) return;
+
+    this.closing.set(true);
+    this.dayCloseService
+      .closeDay({
+        storeId: this.storeId,
+        countedCash: this.countedCash,
+        note: this.note.trim() || undefined,
+        print: this.printReport,
+      })
+      .subscribe({
+        next: () => {
+          this.closing.set(false);
+          this.countedCash = null;
+          this.note = '';
+          this.dialog.success('Gün kapatıldı');
+          this.load();
+        },
+        error: (err) => {
+          this.closing.set(false);
+          this.dialog.error(err.error?.error?.message || 'Gün kapatılamadı');
+        },
+      });
+  }
+
+  reprint(dayClose: DayCloseDto): void {
+    this.dayCloseService.reprint(dayClose.id).subscribe({
+      next: () => this.dialog.success('Z raporu yazdırma kuyruğuna eklendi'),
+      error: (err) => this.dialog.error(err.error?.error?.message || 'Yazdırılamadı'),
+    });
+  }
+
+  toggle(id: string): void {
+    this.expandedId.set(this.expandedId() === id ? null : id);
+  }
+
+  hasLaterChanges(dayClose: DayCloseDto): boolean {
+    return (
+      dayClose.changesSinceClose.adjustments.count > 0 ||
+      dayClose.changesSinceClose.cancellations.count > 0
+    );
+  }
+
+  formatDateTime(dateStr: string): string {
+    return new Date(dateStr).toLocaleString('tr-TR', {
+      day: '2-digit',
+      month: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+}
@@ -7,13 +7,17 @@ import {
   MessageDto,
   InboxSummaryDto,
   ConversationStatus,
+  ConversationLanguage,
   OrderIntentDto,
   ConversationAssignmentDto,
   ConversationLockDto,
   InternalNoteDto,
   AgentDto,
+  VoiceTranscriptDto,
 } from '../../services/inbox.service';
+import { Subscription } from 'rxjs';
 import { AuthService } from '../../services/auth.service';
+import { RealtimeService } from '../../services/realtime.service';
 import { IconComponent } from '../../shared/icon.component';
 
 @Component({
@@ -210,6 +214,19 @@ import { IconComponent } from '../../shared/icon.component';
                 <option value="PENDING_AGENT">Beklemede</option>
                 <option value="CLOSED">Kapalı</option>
               </select>
+
+              <!-- Language Select -->
+              <select
+                class="status-select"
+                title="Bot yanıt dili"
+                [ngModel]="selectedConversation()!.languageLocked ? selectedConversation()!.language : ''"
+                (ngModelChange)="updateLanguage($event)"
+              >
+                <option value="">Otomatik ({{ selectedConversation()!.language.toUpperCase() }})</option>
+                @for (lang of languages; track lang.code) {
+                  <option [value]="lang.code">{{ lang.label }}</option>
+                }
+              </select>
             </div>
           </div>
 
@@ -242,10 +259,54 @@ import { IconComponent } from '../../shared/icon.component';
                     } @else if (msg.kind === 'IMAGE') {
                       <div class="message-image">
                         <app-icon name="image" [size]="14"/> {{ msg.text }}
+                        @if (mediaUrls()[msg.id]; as imageUrl) {
+                          <img class="message-media" [src]="imageUrl" alt="" />
+                        } @else if (msg.direction === 'IN') {
+                          <button class="media-load-btn" (click)="loadMedia(msg)" [disabled]="loadingMediaId() === msg.id">
+                            Görseli göster
+                          </button>
+                        }
                       </div>
                     } @else if (msg.kind === 'VOICE') {
                       <div class="message-voice">
                         <app-icon name="mic" [size]="14"/> {{ msg.text }}
+                        @if (mediaUrls()[msg.id]; as audioUrl) {
+                          <audio class="message-media" controls [src]="audioUrl"></audio>
+                        } @else if (msg.direction === 'IN') {
+                          <button class="media-load-btn" (click)="loadMedia(msg)" [disabled]="loadingMediaId() === msg.id">
+                            ▶ Dinle
+                          </button>
+                        }
+                        @if (editingTranscriptId() === msg.id) {
+                          <div class="transcript-edit">
+                            <textarea [(ngModel)]="transcriptDraft" rows="2"></textarea>
+                            <div class="transcript-actions">
+                              <button class="media-load-btn" (click)="editingTranscriptId.set(null)">Vazgeç</button>
+                              <button class="media-load-btn" (click)="saveTranscript(msg)" [disabled]="!transcriptDraft.trim()">Kaydet</button>
+                            </div>
+                          </div>
+                        } @else {
+                          <div class="voice-transcript">
+                            @if (getTranscript(msg); as transcript) {
+                              <span class="transcript-text">“{{ transcript.correctedText || transcript.text }}”</span>
+                              @if (transcript.confidence !== null) {
+                                <span
+                                  class="transcript-confidence"
+                                  [class.low]="transcript.lowConfidence"
+                                  title="Çözümleme güveni"
+                                >%{{ formatConfidence(transcript.confidence) }}</span>
+                              }
+                              @if (transcript.correctedText) {
+                                <span class="transcript-corrected" [title]="'Bot: ' + transcript.text">düzeltildi</span>
+                              }
+                            } @else if (msg.direction === 'IN') {
+                              <span class="transcript-missing">Yazıya dökülemedi</span>
+                            }
+                            @if (msg.direction === 'IN' && canWrite()) {
+                              <button class="media-load-btn" (click)="startTranscriptEdit(msg)">Düzelt</button>
+                            }
+                          </div>
+                        }
                       </div>
                     } @else {
                       <div class="message-text">{{ msg.text }}</div>
@@ -255,6 +316,20 @@ import { IconComponent } from '../../shared/icon.component';
                       @if (msg.direction === 'OUT' && msg.senderName) {
                         <span class="message-sender">• {{ msg.senderName }}</span>
                       }
+                      @if (msg.direction === 'OUT' && msg.deliveryStatus) {
+                        <span
+                          class="delivery-ticks"
+                          [class.read]="msg.deliveryStatus === 'READ'"
+                          [class.failed]="msg.deliveryStatus === 'FAILED'"
+                          [title]="getDeliveryTitle(msg)"
+                        >
+                          @switch (msg.deliveryStatus) {
+                            @case ('SENT') { ✓ }
+                            @case ('FAILED') { <app-icon name="alert-circle" [size]="12"/> }
+                            @default { ✓✓ }
+                          }
+                        </span>
+                      }
                     </div>
                   </div>
                 </div>
@@ -908,6 +983,81 @@ import { IconComponent } from '../../shared/icon.component';
         font-size: 0.9375rem;
       }
 
+      .message-media {
+        display: block;
+        max-width: 260px;
+        margin-top: 6px;
+        border-radius: 8px;
+      }
+
+      .media-load-btn {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        margin-top: 6px;
+        padding: 2px 8px;
+        font-size: 0.75rem;
+        color: inherit;
+        background: transparent;
+        border: 1px solid currentColor;
+        border-radius: 6px;
+        opacity: 0.8;
+        cursor: pointer;
+
+        &:disabled {
+          opacity: 0.4;
+          cursor: default;
+        }
+      }
+
+      .voice-transcript {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 6px;
+        margin-top: 6px;
+        font-size: 0.8125rem;
+      }
+
+      .transcript-text {
+        font-style: italic;
+      }
+
+      .transcript-confidence {
+        padding: 0 6px;
+        font-size: 0.6875rem;
+        border-radius: 999px;
+        color: var(--color-accent-success);
+        border: 1px solid currentColor;
+
+        &.low {
+          color: var(--color-accent-danger);
+        }
+      }
+
+      .transcript-corrected,
+      .transcript-missing {
+        font-size: 0.6875rem;
+        opacity: 0.7;
+      }
+
+      .transcript-edit {
+        margin-top: 6px;
+
+        textarea {
+          width: 100%;
+          min-width: 220px;
+          font: inherit;
+          font-size: 0.8125rem;
+        }
+      }
+
+      .transcript-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 6px;
+      }
+
       .location-link {
         display: block;
         color: inherit;
@@ -928,6 +1078,23 @@ import { IconComponent } from '../../shared/icon.component';
         margin-top: 4px;
       }
 
+      .delivery-ticks {
+        display: inline-flex;
+        align-items: center;
+        margin-left: auto;
+        letter-spacing: -3px;
+        font-weight: 600;
+
+        &.read {
+          color: #53bdeb;
+        }
+
+        &.failed {
+          color: #fecaca;
+          letter-spacing: 0;
+        }
+      }
+
       /* Internal Notes */
       .internal-notes-section {
         border-top: 1px solid var(--color-border);
@@ -1339,6 +1506,15 @@ export class InboxComponent implements OnInit, OnDestroy {
 
   private inboxService = inject(InboxService);
   private authService = inject(AuthService);
+  private realtime = inject(RealtimeService);
+
+  readonly languages: { code: ConversationLanguage; label: string }[] = [
+    { code: 'tr', label: 'Türkçe' },
+    { code: 'en', label: 'English' },
+    { code: 'ar', label: 'العربية' },
+    { code: 'de', label: 'Deutsch' },
+    { code: 'ru', label: 'Русский' },
+  ];
 
   // State
   loading = signal(true);
@@ -1380,7 +1556,14 @@ export class InboxComponent implements OnInit, OnDestroy {
   replyText = '';
   newNoteText = '';
 
-  // Polling & Heartbeat
+  // Voice/image media (object URLs by message id) and transcript correction
+  mediaUrls = signal<Record<string, string>>({});
+  loadingMediaId = signal<string | null>(null);
+  editingTranscriptId = signal<string | null>(null);
+  transcriptDraft = '';
+
+  // Realtime, Polling & Heartbeat
+  private realtimeSubscriptions: Subscription[] = [];
   private pollInterval: ReturnType<typeof setInterval> | null = null;
   private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
 
@@ -1388,25 +1571,51 @@ export class InboxComponent implements OnInit, OnDestroy {
     this.loadAgents();
     this.loadSummary();
     this.loadConversations();
+    this.subscribeRealtime();
     this.startPolling();
   }
 
   ngOnDestroy(): void {
+    this.realtimeSubscriptions.forEach((s) => s.unsubscribe());
     this.stopPolling();
     this.stopHeartbeat();
+    this.releaseMediaUrls();
   }
 
+  private subscribeRealtime(): void {
+    this.realtimeSubscriptions = [
+      this.realtime.on('message.created', 'conversation.phase_changed').subscribe((event) => {
+        this.loadConversations(true);
+        if (event.conversationId === this.selectedConversationId()) {
+          this.loadMessages(true);
+          this.loadOrderIntents(true);
+        }
+      }),
+      this.realtime.on('conversation.locked', 'conversation.unlocked').subscribe((event) => {
+        if (event.conversationId === this.selectedConversationId()) {
+          this.loadLock(true);
+        }
+      }),
+      this.realtime.reconnected.subscribe(() => this.refresh()),
+    ];
+  }
+
+  /** Fallback while the realtime stream is down */
   startPolling(): void {
     this.pollInterval = setInterval(() => {
-      this.loadConversations(true);
-      if (this.selectedConversationId()) {
-        this.loadMessages(true);
-        this.loadOrderIntents(true);
-        this.loadLock(true);
-      }
+      if (!this.realtime.connected()) this.refresh();
     }, 5000);
   }
 
+  private refresh(): void {
+    this.loadConversations(true);
+    if (this.selectedConversationId()) {
+      this.loadMessages(true);
+      this.loadOrderIntents(true);
+      this.loadLock(true);
+    }
+  }
+
   stopPolling(): void {
     if (this.pollInterval) {
       clearInterval(this.pollInterval);
@@ -1561,6 +1770,8 @@ export class InboxComponent implements OnInit, OnDestroy {
 
     this.selectedConversationId.set(conv.id);
     this.messages.set([]);
+    this.releaseMediaUrls();
+    this.editingTranscriptId.set(null);
     this.orderIntents.set([]);
     this.currentAssignment.set(null);
     this.currentLock.set(null);
@@ -1602,7 +1813,24 @@ export class InboxComponent implements OnInit, OnDestroy {
     });
   }
 
-  onAssignChange(userId: string): void {
+  updateLanguage(language: string): void {
+    const conversationId = this.selectedConversationId();
+    if (!conversationId) return;
+
+    this.inboxService
+      .updateConversation(conversationId, { language: (language || null) as ConversationLanguage | null })
+      .subscribe({
+        next: (response) => {
+          if (response.success && response.data) {
+            this.conversations.update((convs) =>
+              convs.map((c) => (c.id === conversationId ? response.data! : c))
+            );
+          }
+        },
+      });
+  }
+
+    onAssignChange(userId: string): void {
     const conversationId = this.selectedConversationId();
     if (!conversationId) return;
 
@@ -1687,6 +1915,59 @@ export class InboxComponent implements OnInit, OnDestroy {
     });
   }
 
+  // ==================== VOICE & MEDIA ====================
+
+  getTranscript(msg: MessageDto): VoiceTranscriptDto | null {
+    return (msg.payloadJson?.['transcript'] as VoiceTranscriptDto | undefined) ?? null;
+  }
+
+  formatConfidence(confidence: number): number {
+    return Math.round(confidence * 100);
+  }
+
+  loadMedia(msg: MessageDto): void {
+    const conversationId = this.selectedConversationId();
+    if (!conversationId) return;
+
+    this.loadingMediaId.set(msg.id);
+    this.inboxService.getMessageMedia(conversationId, msg.id).subscribe({
+      next: (blob) => {
+        this.mediaUrls.update((urls) => ({ ...urls, [msg.id]: URL.createObjectURL(blob) }));
+        this.loadingMediaId.set(null);
+      },
+      error: (err) => {
+        console.error('Failed to load message media', err);
+        this.loadingMediaId.set(null);
+      },
+    });
+  }
+
+  startTranscriptEdit(msg: MessageDto): void {
+    const transcript = this.getTranscript(msg);
+    this.transcriptDraft = transcript?.correctedText || transcript?.text || '';
+    this.editingTranscriptId.set(msg.id);
+  }
+
+  saveTranscript(msg: MessageDto): void {
+    const conversationId = this.selectedConversationId();
+    const text = this.transcriptDraft.trim();
+    if (!conversationId || !text) return;
+
+    this.inboxService.correctTranscript(conversationId, msg.id, text).subscribe({
+      next: (response) => {
+        if (response.success && response.data) {
+          this.messages.update((msgs) => msgs.map((m) => (m.id === msg.id ? response.data! : m)));
+        }
+        this.editingTranscriptId.set(null);
+      },
+    });
+  }
+
+  private releaseMediaUrls(): void {
+    Object.values(this.mediaUrls()).forEach((url) => URL.revokeObjectURL(url));
+    this.mediaUrls.set({});
+  }
+
   createNote(): void {
     const conversationId = this.selectedConversationId();
     const text = this.newNoteText.trim();
@@ -1751,6 +2032,19 @@ export class InboxComponent implements OnInit, OnDestroy {
     return date.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' });
   }
 
+  getDeliveryTitle(msg: MessageDto): string {
+    switch (msg.deliveryStatus) {
+      case 'READ':
+        return `Okundu ${msg.readAt ? this.formatMessageTime(msg.readAt) : ''}`.trim();
+      case 'DELIVERED':
+        return `İletildi ${msg.deliveredAt ? this.formatMessageTime(msg.deliveredAt) : ''}`.trim();
+      case 'FAILED':
+        return `İletilemedi${msg.deliveryError ? ': ' + msg.deliveryError : ''}`;
+      default:
+        return 'Gönderildi';
+    }
+  }
+
   shouldShowDateSeparator(index: number): boolean {
     const msgs = this.messages();
     if (index === 0) return true;
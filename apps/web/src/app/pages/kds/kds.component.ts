@@ -0,0 +1,582 @@
+import { Component, OnDestroy, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { Subscription, debounceTime, merge } from 'rxjs';
+import { KdsService, KdsTicketDto, KdsTicketItemDto } from '../../services/kds.service';
+import { KitchenStationService, KitchenStationDto } from '../../services/kitchen-station.service';
+import { RealtimeService } from '../../services/realtime.service';
+import { IconComponent } from '../../shared/icon.component';
+import { DialogService } from '../../shared/dialog.service';
+
+/** Ticket age (minutes) after which the card turns yellow / red */
+const AGE_WARNING_MINUTES = 10;
+const AGE_LATE_MINUTES = 20;
+
+const POLL_INTERVAL_MS = 10000;
+
+@Component({
+  selector: 'app-kds',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink, IconComponent],
+  template: `
+    <div class="kds-page">
+      <header class="kds-header">
+        <a routerLink="/orders" class="back-link" title="Siparişlere dön">
+          <app-icon name="arrow-left" [size]="20" />
+        </a>
+        <h1><app-icon name="flame" [size]="22" /> Mutfak Ekranı</h1>
+        <select [(ngModel)]="stationFilter" (change)="loadTickets()" class="station-select">
+          <option [ngValue]="null">Tüm İstasyonlar</option>
+          @for (station of stations(); track station.id) {
+            <option [ngValue]="station.id">{{ station.name }}</option>
+          }
+        </select>
+        <div class="header-stats">
+          <span class="stat">{{ openTickets().length }} açık fiş</span>
+          <button
+            class="btn-recall-toggle"
+            [class.active]="showRecall()"
+            (click)="showRecall.set(!showRecall())"
+          >
+            <app-icon name="corner-down-left" [size]="16" />
+            <span>Geri Çağır ({{ bumpedTickets().length }})</span>
+          </button>
+          <span class="clock">{{ now() | date: 'HH:mm' }}</span>
+        </div>
+      </header>
+
+      <div class="kds-body">
+        <div class="ticket-grid">
+          @for (ticket of openTickets(); track ticket.id) {
+            <div class="ticket" [ngClass]="'age-' + getAgeLevel(ticket)">
+              <div class="ticket-head">
+                <span class="ticket-number">#{{ ticket.orderNumber ?? '—' }}</span>
+                <span class="ticket-age">{{ formatAge(ticket) }}</span>
+              </div>
+              <div class="ticket-meta">
+                <span>{{ ticket.stationName || 'Mutfak' }}</span>
+                @if (ticket.deliveryType) {
+                  <span class="delivery-type">
+                    <app-icon
+                      [name]="ticket.deliveryType === 'DELIVERY' ? 'bike' : 'store'"
+                      [size]="14"
+                    />
+                    {{ ticket.deliveryType === 'DELIVERY' ? 'Paket' : 'Gel-Al' }}
+                  </span>
+                }
+                @if (ticket.storeName && !stationFilter) {
+                  <span>{{ ticket.storeName }}</span>
+                }
+              </div>
+
+              <ul class="ticket-items">
+                @for (item of ticket.items; track item.id) {
+                  <li
+                    class="ticket-item"
+                    [class.started]="item.startedAt && !item.bumpedAt"
+                    [class.bumped]="item.bumpedAt"
+                    (click)="advanceItem(item)"
+                  >
+                    <div class="item-line">
+                      <span class="item-qty">{{ item.qty }}×</span>
+                      <span class="item-name">{{ item.name }}</span>
+                      @if (item.addedAt) {
+                        <span class="added-badge">EKLEME</span>
+                      }
+                      @if (item.bumpedAt) {
+                        <app-icon name="check" [size]="16" />
+                      }
+                    </div>
+                    @if (item.options.length > 0) {
+                      <div class="item-options">{{ item.options.join(', ') }}</div>
+                    }
+                    @if (item.notes) {
+                      <div class="item-notes">{{ item.notes }}</div>
+                    }
+                  </li>
+                }
+              </ul>
+
+              @if (ticket.notes) {
+                <div class="ticket-notes">
+                  <app-icon name="info" [size]="14" /> {{ ticket.notes }}
+                </div>
+              }
+
+              <button
+                class="btn-bump"
+                [disabled]="busyTicketId() === ticket.id"
+                (click)="bumpTicket(ticket)"
+              >
+                <app-icon name="check-circle" [size]="18" /> Hepsi Hazır
+              </button>
+            </div>
+          } @empty {
+            <div class="empty-state">
+              @if (loading()) {
+                Yükleniyor...
+              } @else {
+                <app-icon name="check-circle" [size]="48" />
+                <p>Bekleyen fiş yok</p>
+              }
+            </div>
+          }
+        </div>
+
+        @if (showRecall()) {
+          <aside class="recall-panel">
+            <h2>Tamamlanan Fişler</h2>
+            @for (ticket of bumpedTickets(); track ticket.id) {
+              <div class="recall-item">
+                <div>
+                  <strong>#{{ ticket.orderNumber ?? '—' }}</strong>
+                  <span class="text-muted"> · {{ ticket.stationName || 'Mutfak' }}</span>
+                  <div class="text-muted recall-time">{{ ticket.bumpedAt | date: 'HH:mm' }}</div>
+                </div>
+                <button
+                  class="btn-secondary"
+                  [disabled]="busyTicketId() === ticket.id"
+                  (click)="recallTicket(ticket)"
+                >
+                  Geri Çağır
+                </button>
+              </div>
+            } @empty {
+              <p class="text-muted">Son 30 dakikada tamamlanan fiş yok</p>
+            }
+          </aside>
+        }
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .kds-page {
+        display: flex;
+        flex-direction: column;
+        height: 100vh;
+        background: var(--color-bg-primary);
+        color: var(--color-text-primary);
+      }
+
+      .kds-header {
+        display: flex;
+        align-items: center;
+        gap: 1rem;
+        padding: 0.75rem 1.25rem;
+        background: var(--color-bg-secondary);
+        border-bottom: 1px solid var(--color-border);
+
+        h1 {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          font-size: 1.25rem;
+          margin: 0;
+        }
+      }
+
+      .back-link {
+        display: flex;
+        color: var(--color-text-secondary);
+
+        &:hover {
+          color: var(--color-text-primary);
+        }
+      }
+
+      .station-select {
+        padding: 0.5rem 0.75rem;
+        border-radius: 8px;
+        border: 1px solid var(--color-border);
+        background: var(--color-bg-tertiary);
+        color: var(--color-text-primary);
+        font-size: 1rem;
+      }
+
+      .header-stats {
+        display: flex;
+        align-items: center;
+        gap: 1rem;
+        margin-left: auto;
+      }
+
+      .stat {
+        color: var(--color-text-secondary);
+      }
+
+      .clock {
+        font-size: 1.25rem;
+        font-weight: 600;
+        font-variant-numeric: tabular-nums;
+      }
+
+      .btn-recall-toggle {
+        display: flex;
+        align-items: center;
+        gap: 0.375rem;
+        padding: 0.5rem 0.75rem;
+        border-radius: 8px;
+        border: 1px solid var(--color-border);
+        background: var(--color-bg-tertiary);
+        color: var(--color-text-primary);
+        cursor: pointer;
+
+        &.active {
+          border-color: var(--color-primary);
+          color: var(--color-primary);
+        }
+      }
+
+      .kds-body {
+        display: flex;
+        flex: 1;
+        min-height: 0;
+      }
+
+      .ticket-grid {
+        flex: 1;
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(260px, 1fr));
+        align-content: start;
+        gap: 1rem;
+        padding: 1rem;
+        overflow-y: auto;
+      }
+
+      .ticket {
+        display: flex;
+        flex-direction: column;
+        background: var(--color-bg-secondary);
+        border: 1px solid var(--color-border);
+        border-top: 6px solid var(--color-success);
+        border-radius: 10px;
+        overflow: hidden;
+
+        &.age-warning {
+          border-top-color: var(--color-warning);
+        }
+
+        &.age-late {
+          border-top-color: var(--color-danger);
+
+          .ticket-age {
+            color: var(--color-danger);
+          }
+        }
+      }
+
+      .ticket-head {
+        display: flex;
+        justify-content: space-between;
+        align-items: baseline;
+        padding: 0.75rem 1rem 0.25rem;
+      }
+
+      .ticket-number {
+        font-size: 1.5rem;
+        font-weight: 700;
+      }
+
+      .ticket-age {
+        font-size: 1.25rem;
+        font-weight: 600;
+        font-variant-numeric: tabular-nums;
+      }
+
+      .ticket-meta {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 0.75rem;
+        padding: 0 1rem 0.5rem;
+        font-size: 0.875rem;
+        color: var(--color-text-secondary);
+        border-bottom: 1px solid var(--color-border);
+      }
+
+      .delivery-type {
+        display: inline-flex;
+        align-items: center;
+        gap: 0.25rem;
+      }
+
+      .ticket-items {
+        list-style: none;
+        margin: 0;
+        padding: 0;
+        flex: 1;
+      }
+
+      .ticket-item {
+        padding: 0.625rem 1rem;
+        border-bottom: 1px solid var(--color-border);
+        cursor: pointer;
+        user-select: none;
+
+        &:hover {
+          background: var(--color-bg-tertiary);
+        }
+
+        &.started {
+          background: rgba(59, 130, 246, 0.12);
+        }
+
+        &.bumped {
+          opacity: 0.5;
+
+          .item-name {
+            text-decoration: line-through;
+          }
+        }
+      }
+
+      .item-line {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        font-size: 1.0625rem;
+      }
+
+      .item-qty {
+        font-weight: 700;
+      }
+
+      .item-name {
+        flex: 1;
+      }
+
+      .added-badge {
+        font-size: 0.6875rem;
+        font-weight: 700;
+        padding: 0.125rem 0.375rem;
+        border-radius: 4px;
+        background: var(--color-warning);
+        color: #000;
+      }
+
+      .item-options {
+        margin-left: 1.75rem;
+        font-size: 0.875rem;
+        color: var(--color-text-secondary);
+      }
+
+      .item-notes,
+      .ticket-notes {
+        font-size: 0.875rem;
+        font-style: italic;
+        color: var(--color-warning);
+      }
+
+      .item-notes {
+        margin-left: 1.75rem;
+      }
+
+      .ticket-notes {
+        display: flex;
+        align-items: center;
+        gap: 0.375rem;
+        padding: 0.5rem 1rem;
+      }
+
+      .btn-bump {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        gap: 0.5rem;
+        margin: 0.75rem;
+        padding: 0.75rem;
+        border: none;
+        border-radius: 8px;
+        background: var(--color-success);
+        color: #fff;
+        font-size: 1rem;
+        font-weight: 600;
+        cursor: pointer;
+
+        &:disabled {
+          opacity: 0.6;
+          cursor: default;
+        }
+      }
+
+      .empty-state {
+        grid-column: 1 / -1;
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        gap: 0.75rem;
+        padding: 4rem;
+        color: var(--color-text-muted);
+        font-size: 1.125rem;
+      }
+
+      .recall-panel {
+        width: 300px;
+        padding: 1rem;
+        background: var(--color-bg-secondary);
+        border-left: 1px solid var(--color-border);
+        overflow-y: auto;
+
+        h2 {
+          font-size: 1rem;
+          margin: 0 0 1rem;
+        }
+      }
+
+      .recall-item {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 0.5rem;
+        padding: 0.625rem 0;
+        border-bottom: 1px solid var(--color-border);
+      }
+
+      .recall-time {
+        font-size: 0.8125rem;
+      }
+    `,
+  ],
+})
+export class KdsComponent implements OnInit, OnDestroy {
+  private kdsService = inject(KdsService);
+  private stationService = inject(KitchenStationService);
+  private dialog = inject(DialogService);
+  private realtime = inject(RealtimeService);
+
+  tickets = signal<KdsTicketDto[]>([]);
+  stations = signal<KitchenStationDto[]>([]);
+  loading = signal(false);
+  showRecall = signal(false);
+  busyTicketId = signal<string | null>(null);
+  stationFilter: string | null = null;
+
+  /** Ticks every second to drive the age timers */
+  now = signal(Date.now());
+
+  openTickets = computed(() => this.tickets().filter((t) => !t.bumpedAt));
+  bumpedTickets = computed(() =>
+    this.tickets()
+      .filter((t) => t.bumpedAt)
+      .sort((a, b) => (b.bumpedAt ?? '').localeCompare(a.bumpedAt ?? ''))
+  );
+
+  private realtimeSubscription: Subscription | null = null;
+  private pollInterval: ReturnType<typeof setInterval> | null = null;
+  private clockInterval: ReturnType<typeof setInterval> | null = null;
+
+  ngOnInit(): void {
+    this.loading.set(true);
+    this.loadTickets();
+    this.loadStations();
+
+    this.realtimeSubscription = merge(
+      this.realtime.on('order.status_changed', 'order.updated', 'print_job.created'),
+      this.realtime.reconnected
+    )
+      .pipe(debounceTime(300))
+      .subscribe(() => this.loadTickets());
+    // Polling is the fallback while the realtime stream is down
+    this.pollInterval = setInterval(() => {
+      if (!this.realtime.connected()) this.loadTickets();
+    }, POLL_INTERVAL_MS);
+    this.clockInterval = setInterval(() => this.now.set(Date.now()), 1000);
+  }
+
+  ngOnDestroy(): void {
+    this.realtimeSubscription?.unsubscribe();
+    if (this.pollInterval) clearInterval(this.pollInterval);
+    if (this.clockInterval) clearInterval(this.clockInterval);
+  }
+
+  loadTickets(): void {
+    this.kdsService.getTickets(this.stationFilter).subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.tickets.set(res.data);
+        }
+        this.loading.set(false);
+      },
+      error: () => this.loading.set(false),
+    });
+  }
+
+  loadStations(): void {
+    this.stationService.getStations().subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.stations.set(res.data);
+        }
+      },
+      error: (err) => console.error('Failed to load stations:', err),
+    });
+  }
+
+  // ==================== TIMERS ====================
+
+  private getAgeMinutes(ticket: KdsTicketDto): number {
+    return (this.now() - new Date(ticket.receivedAt).getTime()) / 60000;
+  }
+
+  getAgeLevel(ticket: KdsTicketDto): 'fresh' | 'warning' | 'late' {
+    const minutes = this.getAgeMinutes(ticket);
+    if (minutes >= AGE_LATE_MINUTES) return 'late';
+    if (minutes >= AGE_WARNING_MINUTES) return 'warning';
+    return 'fresh';
+  }
+
+  formatAge(ticket: KdsTicketDto): string {
+    const seconds = Math.max(0, Math.floor(this.getAgeMinutes(ticket) * 60));
+    const mm = Math.floor(seconds / 60);
+    const ss = seconds % 60;
+    return `${mm}:${ss.toString().padStart(2, '0')}`;
+  }
+
+  // ==================== ACTIONS ====================
+
+  /** First tap starts the item, second tap bumps it */
+  advanceItem(item: KdsTicketItemDto): void {
+    if (item.bumpedAt) return;
+
+    const request = item.startedAt
+      ? this.kdsService.bumpItem(item.id)
+      : this.kdsService.startItem(item.id);
+
+    request.subscribe({
+      next: () => this.loadTickets(),
+      error: (err) => {
+        this.dialog.error('İşlem başarısız: ' + (err.error?.error?.message || err.message));
+        this.loadTickets();
+      },
+    });
+  }
+
+  bumpTicket(ticket: KdsTicketDto): void {
+    this.busyTicketId.set(ticket.id);
+    this.kdsService.bumpTicket(ticket).subscribe({
+      next: () => {
+        this.busyTicketId.set(null);
+        this.loadTickets();
+      },
+      error: (err) => {
+        this.busyTicketId.set(null);
+        this.dialog.error('Fiş tamamlanamadı: ' + (err.error?.error?.message || err.message));
+      },
+    });
+  }
+
+  recallTicket(ticket: KdsTicketDto): void {
+    this.busyTicketId.set(ticket.id);
+    this.kdsService.recallTicket(ticket).subscribe({
+      next: () => {
+        this.busyTicketId.set(null);
+        this.loadTickets();
+      },
+      error: (err) => {
+        this.busyTicketId.set(null);
+        this.dialog.error('Fiş geri çağrılamadı: ' + (err.error?.error?.message || err.message));
+      },
+    });
+  }
+}
@@ -10,11 +10,39 @@ import {
   MenuSynonymDto,
   CanonicalMenuExport,
   DiscountType,
+  MenuTranslations,
 } from '../../services/menu.service';
+import { KitchenStationService, KitchenStationDto } from '../../services/kitchen-station.service';
 import { IconComponent } from '../../shared/icon.component';
 import { DialogService } from '../../shared/dialog.service';
 
 type Tab = 'versions' | 'items' | 'options' | 'synonyms';
+type TranslationLanguage = keyof MenuTranslations;
+type TranslationForm = Record<TranslationLanguage, { name: string; description: string }>;
+
+function toTranslationForm(translations: MenuTranslations | null): TranslationForm {
+  const form = {} as TranslationForm;
+  for (const lang of ['en', 'ar', 'de', 'ru'] as TranslationLanguage[]) {
+    form[lang] = {
+      name: translations?.[lang]?.name ?? '',
+      description: translations?.[lang]?.description ?? '',
+    };
+  }
+  return form;
+}
+
+/** Drop empty fields so untranslated languages fall back to Turkish */
+function fromTranslationForm(form: TranslationForm): MenuTranslations | null {
+  const result: MenuTranslations = {};
+  for (const [lang, entry] of Object.entries(form) as [TranslationLanguage, TranslationForm[TranslationLanguage]][]) {
+    const name = entry.name.trim();
+    const description = entry.description.trim();
+    if (name || description) {
+      result[lang] = { ...(name && { name }), ...(description && { description }) };
+    }
+  }
+  return Object.keys(result).length ? result : null;
+}
 
 @Component({
   selector: 'app-menu',
@@ -259,6 +287,21 @@ type Tab = 'versions' | 'items' | 'options' | 'synonyms';
                       <input type="text" [(ngModel)]="itemForm.category" name="category" required [disabled]="isPublishedVersion()" />
                     </div>
                   </div>
+                  <div class="form-group">
+                    <label>Katalog Retailer ID</label>
+                    <input type="text" [(ngModel)]="itemForm.catalogRetailerId" name="catalogRetailerId" placeholder="Meta kataloğu bağlıysa" [disabled]="isPublishedVersion()" />
+                  </div>
+                  @if (stations().length > 0) {
+                    <div class="form-group">
+                      <label>Hazırlık İstasyonu</label>
+                      <select [(ngModel)]="itemForm.stationId" name="stationId">
+                        <option [ngValue]="null">Kategoriye göre</option>
+                        @for (station of stations(); track station.id) {
+                          <option [ngValue]="station.id">{{ station.name }}</option>
+                        }
+                      </select>
+                    </div>
+                  }
                   @if (!isPublishedVersion()) {
                     <div class="form-group">
                       <label class="checkbox-label">
@@ -275,6 +318,23 @@ type Tab = 'versions' | 'items' | 'options' | 'synonyms';
                     </div>
                   }
 
+                  @if (!isPublishedVersion()) {
+                    <div class="form-section-title">Çeviriler</div>
+                    <span class="hint-text">Boş bırakılan diller için Türkçe ad kullanılır</span>
+                    @for (lang of translationLanguages; track lang.code) {
+                      <div class="form-row">
+                        <div class="form-group">
+                          <label>{{ lang.label }} ad</label>
+                          <input type="text" [(ngModel)]="itemForm.translations[lang.code].name" [name]="'tr_name_' + lang.code" />
+                        </div>
+                        <div class="form-group">
+                          <label>{{ lang.label }} açıklama</label>
+                          <input type="text" [(ngModel)]="itemForm.translations[lang.code].description" [name]="'tr_desc_' + lang.code" />
+                        </div>
+                      </div>
+                    }
+                  }
+
                   <div class="form-section-title">İndirim</div>
                   <div class="form-row">
                     <div class="form-group">
@@ -1245,6 +1305,7 @@ type Tab = 'versions' | 'items' | 'options' | 'synonyms';
 })
 export class MenuComponent implements OnInit {
   private menuService = inject(MenuService);
+  private stationService = inject(KitchenStationService);
   private dialog = inject(DialogService);
 
   // State
@@ -1257,6 +1318,7 @@ export class MenuComponent implements OnInit {
   items = signal<MenuItemDto[]>([]);
   optionGroups = signal<MenuOptionGroupDto[]>([]);
   synonyms = signal<MenuSynonymDto[]>([]);
+  stations = signal<KitchenStationDto[]>([]);
 
   selectedVersionId = signal<string | null>(null);
   selectedVersion = computed(() =>
@@ -1299,6 +1361,9 @@ export class MenuComponent implements OnInit {
     discountValue: number | null;
     discountStartAt: string | null;
     discountEndAt: string | null;
+    translations: TranslationForm;
+    catalogRetailerId: string;
+    stationId: string | null;
   } = {
     name: '',
     description: '',
@@ -1310,7 +1375,16 @@ export class MenuComponent implements OnInit {
     discountValue: null,
     discountStartAt: null,
     discountEndAt: null,
+    translations: toTranslationForm(null),
+    catalogRetailerId: '',
+    stationId: null,
   };
+  readonly translationLanguages: { code: TranslationLanguage; label: string }[] = [
+    { code: 'en', label: 'İngilizce' },
+    { code: 'ar', label: 'Arapça' },
+    { code: 'de', label: 'Almanca' },
+    { code: 'ru', label: 'Rusça' },
+  ];
   optionGroupForm = { name: '', type: 'SINGLE' as const, required: false };
   optionForm = { name: '', priceDelta: 0, isDefault: false };
   synonymForm = { phrase: '', mapsToItemId: undefined as string | undefined, weight: 1 };
@@ -1325,6 +1399,14 @@ export class MenuComponent implements OnInit {
 
   ngOnInit(): void {
     this.loadData();
+    this.stationService.getStations().subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.stations.set(res.data);
+        }
+      },
+      error: (err) => console.error('Failed to load stations:', err),
+    });
   }
 
   loadData(): void {
@@ -1484,6 +1566,9 @@ export class MenuComponent implements OnInit {
       discountValue: item.discountValue,
       discountStartAt: item.discountStartAt ? item.discountStartAt.slice(0, 16) : null,
       discountEndAt: item.discountEndAt ? item.discountEndAt.slice(0, 16) : null,
+      translations: toTranslationForm(item.translations),
+      catalogRetailerId: item.catalogRetailerId ?? '',
+      stationId: item.stationId ?? null,
     };
     this.showItemForm.set(true);
   }
@@ -1494,6 +1579,7 @@ export class MenuComponent implements OnInit {
     this.itemForm = {
       name: '', description: '', basePrice: 0, category: '', isActive: true, isReadyFood: false,
       discountType: null, discountValue: null, discountStartAt: null, discountEndAt: null,
+      translations: toTranslationForm(null), catalogRetailerId: '', stationId: null,
     };
   }
 
@@ -1531,19 +1617,25 @@ export class MenuComponent implements OnInit {
 
     const editing = this.editingItem();
 
-    // Published versiyonlarda sadece indirim alanları güncellenebilir
+    // Published versiyonlarda sadece indirim ve istasyon alanları güncellenebilir
+    const fullPayload = {
+      ...this.itemForm,
+      translations: fromTranslationForm(this.itemForm.translations),
+      catalogRetailerId: this.itemForm.catalogRetailerId.trim() || null,
+    };
     const payload = this.isPublishedVersion() && editing
       ? {
           discountType: this.itemForm.discountType,
           discountValue: this.itemForm.discountValue,
           discountStartAt: this.itemForm.discountStartAt,
           discountEndAt: this.itemForm.discountEndAt,
+          stationId: this.itemForm.stationId,
         }
-      : this.itemForm;
+      : fullPayload;
 
     const observable = editing
       ? this.menuService.updateItem(versionId, editing.id, payload)
-      : this.menuService.createItem(versionId, this.itemForm);
+      : this.menuService.createItem(versionId, fullPayload);
 
     observable.subscribe({
       next: (response) => {
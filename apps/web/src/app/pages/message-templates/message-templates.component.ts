@@ -0,0 +1,660 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { HttpClient } from '@angular/common/http';
+import { environment } from '../../../environments/environment';
+import { AuthService } from '../../services/auth.service';
+import { DialogService } from '../../shared/dialog.service';
+import { IconComponent } from '../../shared/icon.component';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: { message?: string };
+}
+
+type TemplateStatus = 'APPROVED' | 'PENDING' | 'REJECTED' | 'PAUSED' | 'DISABLED';
+
+interface MessageTemplate {
+  id: string;
+  name: string;
+  language: string;
+  category: 'UTILITY' | 'MARKETING' | 'AUTHENTICATION';
+  status: TemplateStatus;
+  headerText: string | null;
+  bodyText: string;
+  footerText: string | null;
+  variableCount: number;
+  rejectedReason: string | null;
+  lastSyncedAt: string | null;
+}
+
+interface TemplateMapping {
+  event: string;
+  availableFields: string[];
+  templateId: string | null;
+  templateName: string | null;
+  templateLanguage: string | null;
+  variableMap: string[];
+  isActive: boolean;
+}
+
+interface TemplatePreview {
+  headerText: string | null;
+  bodyText: string;
+  footerText: string | null;
+}
+
+interface SyncResult {
+  total: number;
+  created: number;
+  updated: number;
+  disabled: number;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  ORDER_CONFIRMED: 'Sipariş onaylandı',
+  ORDER_PREPARING: 'Sipariş hazırlanıyor',
+  ORDER_READY: 'Sipariş hazır',
+  ORDER_DELIVERING: 'Sipariş yolda',
+  ORDER_DELIVERED: 'Sipariş teslim edildi',
+  ORDER_CANCELLED: 'Sipariş iptal edildi',
+  SURVEY_REQUEST: 'Memnuniyet anketi',
+  CAMPAIGN_SEND: 'Kampanya gönderimi',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  orderNumber: 'Sipariş No',
+  customerName: 'Müşteri Adı',
+  storeName: 'Şube',
+  totalPrice: 'Tutar',
+  discountPct: 'İndirim %',
+  message: 'Kampanya Mesajı',
+  couponCode: 'Kupon Kodu',
+};
+
+const STATUS_LABELS: Record<TemplateStatus, string> = {
+  APPROVED: 'Onaylı',
+  PENDING: 'Beklemede',
+  REJECTED: 'Reddedildi',
+  PAUSED: 'Duraklatıldı',
+  DISABLED: 'Devre Dışı',
+};
+
+@Component({
+  selector: 'app-message-templates',
+  standalone: true,
+  imports: [CommonModule, FormsModule, IconComponent],
+  template: `
+    <div class="templates-page">
+      <header class="page-header">
+        <div>
+          <h1>Mesaj Şablonları</h1>
+          <p class="text-muted">
+            Müşteriye son 24 saatte mesaj atmadıysa bildirimler yalnızca Meta onaylı şablonla
+            gönderilebilir.
+          </p>
+        </div>
+        <button class="btn btn-primary" (click)="sync()" [disabled]="syncing()">
+          <app-icon name="refresh" [size]="16" />
+          {{ syncing() ? 'Senkronize ediliyor...' : 'Meta ile Senkronize Et' }}
+        </button>
+      </header>
+
+      <!-- Template list -->
+      <div class="card">
+        <div class="card-header">
+          <h2>Şablonlar</h2>
+        </div>
+        @if (templates().length === 0) {
+          <div class="empty-state">
+            Henüz şablon yok. WhatsApp Business hesabınızdaki şablonları çekmek için senkronize
+            edin.
+          </div>
+        } @else {
+          <div class="table-wrapper">
+            <table>
+              <thead>
+                <tr>
+                  <th>Ad</th>
+                  <th>Dil</th>
+                  <th>Kategori</th>
+                  <th>Durum</th>
+                  <th>Değişken</th>
+                  <th>Son Senkron</th>
+                </tr>
+              </thead>
+              <tbody>
+                @for (t of templates(); track t.id) {
+                  <tr [class.selected]="selected()?.id === t.id" (click)="select(t)">
+                    <td class="mono">{{ t.name }}</td>
+                    <td>{{ t.language }}</td>
+                    <td>{{ t.category }}</td>
+                    <td>
+                      <span
+                        class="badge"
+                        [class]="'badge-' + t.status.toLowerCase()"
+                        [title]="t.rejectedReason || ''"
+                      >
+                        {{ statusLabel(t.status) }}
+                      </span>
+                    </td>
+                    <td>{{ t.variableCount }}</td>
+                    <td>
+                      {{ t.lastSyncedAt ? (t.lastSyncedAt | date: 'dd.MM.yyyy HH:mm') : '-' }}
+                    </td>
+                  </tr>
+                }
+              </tbody>
+            </table>
+          </div>
+        }
+      </div>
+
+      <!-- Preview -->
+      @if (selected(); as t) {
+        <div class="card">
+          <div class="card-header">
+            <h2>
+              Önizleme: <span class="mono">{{ t.name }}</span>
+            </h2>
+          </div>
+          <div class="preview-layout">
+            <div class="preview-inputs">
+              @for (value of previewValues; track $index) {
+                <div class="form-group">
+                  <label>{{ placeholder($index) }}</label>
+                  <input
+                    type="text"
+                    [(ngModel)]="previewValues[$index]"
+                    (ngModelChange)="loadPreview()"
+                    placeholder="Örnek değer"
+                  />
+                </div>
+              }
+              @if (t.variableCount === 0) {
+                <p class="text-muted">Bu şablonda değişken yok.</p>
+              }
+            </div>
+            <div class="wa-bubble">
+              @if (preview()?.headerText) {
+                <div class="wa-header">{{ preview()!.headerText }}</div>
+              }
+              <div class="wa-body">{{ preview()?.bodyText || t.bodyText }}</div>
+              @if (preview()?.footerText) {
+                <div class="wa-footer">{{ preview()!.footerText }}</div>
+              }
+            </div>
+          </div>
+        </div>
+      }
+
+      <!-- Event mappings -->
+      <div class="card">
+        <div class="card-header">
+          <h2>Olay Eşlemeleri</h2>
+        </div>
+        <p class="text-muted hint">
+          Oturum penceresi kapalıyken hangi olayda hangi onaylı şablonun gönderileceğini ve
+          değişkenlerin neyle doldurulacağını seçin.
+        </p>
+        <div class="mapping-list">
+          @for (m of mappings(); track m.event) {
+            <div class="mapping-row">
+              <div class="mapping-event">
+                <strong>{{ eventLabel(m.event) }}</strong>
+                @if (m.templateId) {
+                  <span
+                    class="badge"
+                    [class.badge-approved]="m.isActive"
+                    [class.badge-disabled]="!m.isActive"
+                  >
+                    {{ m.isActive ? 'Aktif' : 'Pasif' }}
+                  </span>
+                }
+              </div>
+              <select [ngModel]="m.templateId" (ngModelChange)="onTemplateChange(m, $event)">
+                <option [ngValue]="null">— Şablon yok —</option>
+                @for (t of approvedTemplates(); track t.id) {
+                  <option [ngValue]="t.id">{{ t.name }} ({{ t.language }})</option>
+                }
+              </select>
+              @if (m.templateId) {
+                <div class="variable-map">
+                  @for (field of m.variableMap; track $index) {
+                    <label>
+                      <span class="mono">{{ placeholder($index) }}</span>
+                      <select [(ngModel)]="m.variableMap[$index]">
+                        @for (f of m.availableFields; track f) {
+                          <option [value]="f">{{ fieldLabel(f) }}</option>
+                        }
+                      </select>
+                    </label>
+                  }
+                </div>
+                <div class="mapping-actions">
+                  <label class="toggle-label small">
+                    <input type="checkbox" [(ngModel)]="m.isActive" />
+                    <span>Aktif</span>
+                  </label>
+                  <button class="btn btn-primary btn-sm" (click)="saveMapping(m)">Kaydet</button>
+                  <button class="btn btn-danger btn-sm" (click)="removeMapping(m)">Kaldır</button>
+                </div>
+              }
+            </div>
+          }
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .templates-page {
+        padding: var(--spacing-lg);
+        max-width: 1200px;
+      }
+
+      .page-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: flex-start;
+        gap: var(--spacing-md);
+        margin-bottom: var(--spacing-xl);
+      }
+
+      .page-header h1 {
+        font-size: 1.5rem;
+        font-weight: 700;
+        margin-bottom: var(--spacing-xs);
+      }
+
+      .card {
+        background: var(--color-bg-secondary);
+        border: 1px solid var(--color-border);
+        border-radius: var(--radius-lg);
+        padding: var(--spacing-lg);
+        margin-bottom: var(--spacing-lg);
+      }
+
+      .card-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: var(--spacing-md);
+      }
+
+      .card-header h2 {
+        font-size: 1.125rem;
+        font-weight: 600;
+      }
+
+      .hint {
+        font-size: 0.8125rem;
+        margin-bottom: var(--spacing-md);
+      }
+      .empty-state {
+        color: var(--color-text-muted);
+        font-size: 0.875rem;
+      }
+      .mono {
+        font-family: var(--font-mono, monospace);
+      }
+
+      .btn {
+        display: inline-flex;
+        align-items: center;
+        gap: var(--spacing-xs);
+        padding: var(--spacing-sm) var(--spacing-md);
+        border-radius: var(--radius-md);
+        font-weight: 500;
+        font-size: 0.875rem;
+        cursor: pointer;
+        border: none;
+        transition: all var(--transition-fast);
+      }
+
+      .btn-primary {
+        background: var(--color-accent-primary);
+        color: white;
+      }
+      .btn-primary:hover {
+        opacity: 0.9;
+      }
+      .btn-primary:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-danger {
+        background: rgba(239, 68, 68, 0.1);
+        color: var(--color-danger);
+        border: 1px solid rgba(239, 68, 68, 0.3);
+      }
+
+      .btn-sm {
+        padding: 4px 8px;
+        font-size: 0.75rem;
+      }
+
+      .table-wrapper {
+        overflow-x: auto;
+      }
+
+      table {
+        width: 100%;
+        border-collapse: collapse;
+      }
+
+      th,
+      td {
+        padding: var(--spacing-sm) var(--spacing-md);
+        text-align: left;
+        border-bottom: 1px solid var(--color-border);
+        font-size: 0.8125rem;
+      }
+
+      th {
+        font-weight: 600;
+        color: var(--color-text-secondary);
+        font-size: 0.75rem;
+        text-transform: uppercase;
+        letter-spacing: 0.05em;
+      }
+
+      tr:hover {
+        background: var(--color-bg-tertiary);
+        cursor: pointer;
+      }
+      tr.selected {
+        background: var(--color-bg-elevated);
+      }
+
+      .badge {
+        display: inline-block;
+        padding: 2px 8px;
+        border-radius: 12px;
+        font-size: 0.6875rem;
+        font-weight: 600;
+        text-transform: uppercase;
+      }
+
+      .badge-approved {
+        background: rgba(34, 197, 94, 0.15);
+        color: var(--color-success);
+      }
+      .badge-pending {
+        background: rgba(245, 158, 11, 0.15);
+        color: var(--color-warning);
+      }
+      .badge-rejected {
+        background: rgba(239, 68, 68, 0.15);
+        color: var(--color-danger);
+      }
+      .badge-paused {
+        background: rgba(245, 158, 11, 0.15);
+        color: var(--color-warning);
+      }
+      .badge-disabled {
+        background: var(--color-bg-tertiary);
+        color: var(--color-text-secondary);
+      }
+
+      .preview-layout {
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+        gap: var(--spacing-lg);
+      }
+
+      .form-group {
+        margin-bottom: var(--spacing-sm);
+      }
+
+      .form-group label {
+        display: block;
+        font-size: 0.8125rem;
+        font-weight: 500;
+        color: var(--color-text-secondary);
+        margin-bottom: var(--spacing-xs);
+      }
+
+      input[type='text'],
+      select {
+        width: 100%;
+        padding: var(--spacing-sm);
+        border: 1px solid var(--color-border);
+        border-radius: var(--radius-md);
+        background: var(--color-bg-primary);
+        color: var(--color-text-primary);
+        font-size: 0.875rem;
+      }
+
+      .wa-bubble {
+        align-self: start;
+        background: #dcf8c6;
+        color: #111b21;
+        border-radius: 8px;
+        padding: var(--spacing-sm) var(--spacing-md);
+        font-size: 0.875rem;
+        line-height: 1.45;
+        white-space: pre-wrap;
+        box-shadow: 0 1px 1px rgba(0, 0, 0, 0.1);
+      }
+
+      .wa-header {
+        font-weight: 700;
+        margin-bottom: var(--spacing-xs);
+      }
+      .wa-footer {
+        font-size: 0.75rem;
+        color: #667781;
+        margin-top: var(--spacing-xs);
+      }
+
+      .mapping-list {
+        display: flex;
+        flex-direction: column;
+        gap: var(--spacing-md);
+      }
+
+      .mapping-row {
+        display: grid;
+        grid-template-columns: 220px 1fr;
+        gap: var(--spacing-sm) var(--spacing-md);
+        padding-bottom: var(--spacing-md);
+        border-bottom: 1px solid var(--color-border);
+      }
+
+      .mapping-event {
+        display: flex;
+        align-items: center;
+        gap: var(--spacing-sm);
+      }
+
+      .variable-map {
+        grid-column: 2;
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
+        gap: var(--spacing-sm);
+      }
+
+      .variable-map label {
+        display: flex;
+        align-items: center;
+        gap: var(--spacing-xs);
+        font-size: 0.8125rem;
+      }
+
+      .mapping-actions {
+        grid-column: 2;
+        display: flex;
+        align-items: center;
+        gap: var(--spacing-sm);
+      }
+
+      .toggle-label {
+        display: flex;
+        align-items: center;
+        gap: var(--spacing-xs);
+        cursor: pointer;
+      }
+      .toggle-label.small {
+        font-size: 0.8125rem;
+      }
+
+      @media (max-width: 768px) {
+        .preview-layout,
+        .mapping-row {
+          grid-template-columns: 1fr;
+        }
+        .variable-map,
+        .mapping-actions {
+          grid-column: 1;
+        }
+      }
+    `,
+  ],
+})
+export class MessageTemplatesComponent implements OnInit {
+  private http = inject(HttpClient);
+  private auth = inject(AuthService);
+  private dialog = inject(DialogService);
+
+  templates = signal<MessageTemplate[]>([]);
+  approvedTemplates = signal<MessageTemplate[]>([]);
+  mappings = signal<TemplateMapping[]>([]);
+  selected = signal<MessageTemplate | null>(null);
+  preview = signal<TemplatePreview | null>(null);
+  syncing = signal(false);
+  previewValues: string[] = [];
+
+  private apiUrl = `${environment.apiBaseUrl}/message-templates`;
+
+  ngOnInit() {
+    this.loadTemplates();
+    this.loadMappings();
+  }
+
+  loadTemplates() {
+    this.http
+      .get<ApiResponse<MessageTemplate[]>>(this.apiUrl, { headers: this.auth.getAuthHeaders() })
+      .subscribe({
+        next: (res) => {
+          if (!res.data) return;
+          this.templates.set(res.data);
+          this.approvedTemplates.set(res.data.filter((t) => t.status === 'APPROVED'));
+        },
+      });
+  }
+
+  loadMappings() {
+    this.http
+      .get<ApiResponse<TemplateMapping[]>>(`${this.apiUrl}/mappings`, {
+        headers: this.auth.getAuthHeaders(),
+      })
+      .subscribe({
+        next: (res) => {
+          if (res.data) this.mappings.set(res.data);
+        },
+      });
+  }
+
+  sync() {
+    this.syncing.set(true);
+    this.http
+      .post<
+        ApiResponse<SyncResult>
+      >(`${this.apiUrl}/sync`, {}, { headers: this.auth.getAuthHeaders() })
+      .subscribe({
+        next: (res) => {
+          this.syncing.set(false);
+          if (res.data) {
+            this.dialog.success(
+              `${res.data.total} şablon senkronize edildi (${res.data.created} yeni, ${res.data.disabled} devre dışı)`
+            );
+          }
+          this.loadTemplates();
+          this.loadMappings();
+        },
+        error: (err) => {
+          this.syncing.set(false);
+          this.dialog.error(err.error?.error?.message || 'Şablonlar senkronize edilemedi');
+        },
+      });
+  }
+
+  select(template: MessageTemplate) {
+    this.selected.set(template);
+    this.previewValues = Array.from({ length: template.variableCount }, () => '');
+    this.preview.set(null);
+    this.loadPreview();
+  }
+
+  loadPreview() {
+    const template = this.selected();
+    if (!template) return;
+    this.http
+      .post<
+        ApiResponse<TemplatePreview>
+      >(`${this.apiUrl}/${template.id}/preview`, { values: this.previewValues }, { headers: this.auth.getAuthHeaders() })
+      .subscribe({
+        next: (res) => {
+          if (res.data) this.preview.set(res.data);
+        },
+      });
+  }
+
+  onTemplateChange(mapping: TemplateMapping, templateId: string | null) {
+    mapping.templateId = templateId;
+    const template = this.approvedTemplates().find((t) => t.id === templateId);
+    if (!template) {
+      mapping.variableMap = [];
+      return;
+    }
+    // Keep earlier choices where possible, default the rest to the first field
+    mapping.variableMap = Array.from(
+      { length: template.variableCount },
+      (_, i) => mapping.variableMap[i] ?? mapping.availableFields[0]
+    );
+    mapping.isActive = true;
+  }
+
+  saveMapping(mapping: TemplateMapping) {
+    this.http
+      .put<
+        ApiResponse<TemplateMapping>
+      >(`${this.apiUrl}/mappings/${mapping.event}`, { templateId: mapping.templateId, variableMap: mapping.variableMap, isActive: mapping.isActive }, { headers: this.auth.getAuthHeaders() })
+      .subscribe({
+        next: () => {
+          this.dialog.success('Eşleme kaydedildi');
+          this.loadMappings();
+        },
+        error: (err) => this.dialog.error(err.error?.error?.message || 'Eşleme kaydedilemedi'),
+      });
+  }
+
+  removeMapping(mapping: TemplateMapping) {
+    this.http
+      .delete<ApiResponse<null>>(`${this.apiUrl}/mappings/${mapping.event}`, {
+        headers: this.auth.getAuthHeaders(),
+      })
+      .subscribe({
+        next: () => this.loadMappings(),
+      });
+  }
+
+  placeholder(index: number): string {
+    return `{{${index + 1}}}`;
+  }
+
+  statusLabel(status: TemplateStatus): string {
+    return STATUS_LABELS[status] || status;
+  }
+
+  eventLabel(event: string): string {
+    return EVENT_LABELS[event] || event;
+  }
+
+  fieldLabel(field: string): string {
+    return FIELD_LABELS[field] || field;
+  }
+}
@@ -3,10 +3,25 @@ import { CommonModule } from '@angular/common';
 import { HttpClient } from '@angular/common/http';
 import { FormsModule } from '@angular/forms';
 import { RouterLink } from '@angular/router';
+import { Subscription, debounceTime, merge } from 'rxjs';
 import { environment } from '../../../environments/environment';
 import { AuthService } from '../../services/auth.service';
-import { OrderService, OrderDto, OrderStatus, CustomerDetailDto } from '../../services/order.service';
+import {
+  OrderService,
+  OrderDto,
+  OrderStatus,
+  OrderStatusEventDto,
+  OrderItemDto,
+  OrderAdjustmentDto,
+  OrderAdjustmentChangeDto,
+  OrderAdjustmentChangeInput,
+  CustomerDetailDto,
+  DeliveryStatus,
+} from '../../services/order.service';
+import { MenuService } from '../../services/menu.service';
+import { CourierService, CourierDto } from '../../services/courier.service';
 import { NotificationService } from '../../services/notification.service';
+import { RealtimeService } from '../../services/realtime.service';
 import { IconComponent } from '../../shared/icon.component';
 import { DialogService } from '../../shared/dialog.service';
 
@@ -74,9 +89,38 @@ import { DialogService } from '../../shared/dialog.service';
         </div>
       </div>
 
+      @if (scheduledOrders().length > 0) {
+        <section class="preorder-lane">
+          <h3 class="lane-title">
+            <app-icon name="clock" [size]="16"/> Planlı Siparişler
+            <span class="lane-count">{{ scheduledOrders().length }}</span>
+          </h3>
+          @for (order of scheduledOrders(); track order.id) {
+            <div class="preorder-row" [class]="'status-' + order.status.toLowerCase()" (click)="openCustomerPanel(order)">
+              <span class="preorder-time">{{ formatScheduled(order.scheduledFor!) }}</span>
+              <span class="preorder-number">#{{ order.orderNumber || '---' }}</span>
+              <span class="preorder-customer">{{ order.customerName || order.customerPhone || 'Misafir' }}</span>
+              <span class="preorder-items">{{ order.items.length }} ürün</span>
+              <span class="preorder-total">{{ order.totalPrice | number:'1.2-2' }} TL</span>
+              <span class="status-badge" [class]="order.status.toLowerCase()">{{ getStatusLabel(order.status) }}</span>
+              @if (canMoveTo(order, 'CONFIRMED')) {
+                <div class="preorder-actions">
+                  <button class="action-btn confirm" (click)="$event.stopPropagation(); confirmOrder(order)">
+                    <app-icon name="check" [size]="14"/> Onayla
+                  </button>
+                  <button class="action-btn reject" (click)="$event.stopPropagation(); openRejectModal(order)">
+                    <app-icon name="x" [size]="14"/> Reddet
+                  </button>
+                </div>
+              }
+            </div>
+          }
+        </section>
+      }
+
       @if (loading()) {
         <div class="loading">Yükleniyor...</div>
-      } @else if (orders().length === 0) {
+      } @else if (orders().length === 0 && scheduledOrders().length === 0) {
         <div class="empty-state">
           <app-icon name="clipboard" [size]="48" class="empty-icon"/>
           <p>Sipariş bulunamadı</p>
@@ -91,6 +135,9 @@ import { DialogService } from '../../shared/dialog.service';
                   @if (order.parentOrderId) {
                     <span class="addition-badge">+ Ekleme</span>
                   }
+                  @if (order.scheduledFor) {
+                    <span class="scheduled-badge"><app-icon name="clock" [size]="12"/> {{ formatScheduled(order.scheduledFor) }}</span>
+                  }
                 </div>
                 <span class="status-badge" [class]="order.status.toLowerCase()">
                   {{ getStatusLabel(order.status) }}
@@ -142,6 +189,14 @@ import { DialogService } from '../../shared/dialog.service';
                 </div>
               }
 
+              @if (order.delivery) {
+                <div class="courier-info">
+                  <app-icon name="bike" [size]="14"/>
+                  <span class="courier-name">{{ order.delivery.courierName }}</span>
+                  <span class="courier-status">{{ getDeliveryStatusLabel(order.delivery.status) }}</span>
+                </div>
+              }
+
               @if (order.rejectionReason) {
                 <div class="rejection-reason">
                   <span class="rejection-label">Ret Sebebi:</span>
@@ -149,13 +204,28 @@ import { DialogService } from '../../shared/dialog.service';
                 </div>
               }
 
+              @if (order.couponCode) {
+                <div class="order-coupon">
+                  <span class="coupon-label">Kupon:</span>
+                  {{ order.couponCode }} (-{{ order.couponDiscount | number:'1.2-2' }} TL)
+                </div>
+              }
+
+              @if (order.loyaltyDiscount > 0) {
+                <div class="order-loyalty">
+                  <span class="loyalty-label">Sadakat:</span>
+                  {{ order.loyaltyPointsUsed > 0 ? order.loyaltyPointsUsed + ' puan' : 'Damga kartı hediyesi' }}
+                  (-{{ order.loyaltyDiscount | number:'1.2-2' }} TL)
+                </div>
+              }
+
               <div class="order-footer">
                 <span class="order-total">{{ order.totalPrice | number:'1.2-2' }} TL</span>
                 <span class="order-time">{{ formatTime(order.createdAt) }}</span>
               </div>
 
               <div class="order-actions">
-                @if (order.status === 'DRAFT' || order.status === 'PENDING_CONFIRMATION') {
+                @if (canMoveTo(order, 'CONFIRMED')) {
                   <button class="action-btn confirm" (click)="$event.stopPropagation(); confirmOrder(order)">
                     <app-icon name="check" [size]="14"/> Onayla
                   </button>
@@ -163,26 +233,41 @@ import { DialogService } from '../../shared/dialog.service';
                     <app-icon name="x" [size]="14"/> Reddet
                   </button>
                 }
-                @if (order.status === 'CONFIRMED') {
+                @if (canMoveTo(order, 'PREPARING')) {
                   <button class="action-btn" (click)="$event.stopPropagation(); updateStatus(order, 'PREPARING')">
-                    <app-icon name="flame" [size]="14"/> Hazırlanıyor
+                    <app-icon name="flame" [size]="14"/> {{ order.status === 'READY' ? 'Mutfağa Geri Al' : 'Hazırlanıyor' }}
                   </button>
                 }
-                @if (order.status === 'PREPARING') {
+                @if (canMoveTo(order, 'READY')) {
                   <button class="action-btn success" (click)="$event.stopPropagation(); updateStatus(order, 'READY')">
                     <app-icon name="check" [size]="14"/> Hazır
                   </button>
                 }
-                @if (order.status === 'READY') {
+                @if (canAssignCourier(order)) {
+                  <button class="action-btn" (click)="$event.stopPropagation(); openCourierModal(order)">
+                    <app-icon name="bike" [size]="14"/> {{ order.delivery ? 'Kurye Değiştir' : 'Kurye Ata' }}
+                  </button>
+                  @if (order.delivery) {
+                    <button class="action-btn danger" (click)="$event.stopPropagation(); unassignCourier(order)">
+                      <app-icon name="x" [size]="14"/> Kuryeyi Kaldır
+                    </button>
+                  }
+                }
+                @if (canMoveTo(order, 'DELIVERED')) {
                   <button class="action-btn success" (click)="$event.stopPropagation(); updateStatus(order, 'DELIVERED')">
                     <app-icon name="car" [size]="14"/> Teslim Edildi
                   </button>
                 }
-                @if (order.status !== 'CANCELLED' && order.status !== 'DELIVERED') {
+                @if (canMoveTo(order, 'CANCELLED') && order.status !== 'PENDING_CONFIRMATION') {
                   <button class="action-btn danger" (click)="$event.stopPropagation(); updateStatus(order, 'CANCELLED')">
                     <app-icon name="x" [size]="14"/> İptal
                   </button>
                 }
+                @if (canAdjust(order)) {
+                  <button class="action-btn" (click)="$event.stopPropagation(); openAdjustModal(order)">
+                    <app-icon name="edit" [size]="14"/> Düzenle
+                  </button>
+                }
                 @if (order.orderNumber) {
                   <button class="action-btn" (click)="$event.stopPropagation(); reprintKitchen(order)">
                     <app-icon name="flame" [size]="14"/> Mutfak Fişi
@@ -234,6 +319,88 @@ import { DialogService } from '../../shared/dialog.service';
         </div>
       }
 
+      <!-- Adjust Modal -->
+      @if (adjustingOrder(); as adjusting) {
+        <div class="modal-overlay" (click)="closeAdjustModal()">
+          <div class="reject-modal adjust-modal" (click)="$event.stopPropagation()">
+            <div class="modal-header">
+              <h3>Siparişi Düzenle</h3>
+              <button class="close-btn" (click)="closeAdjustModal()"><app-icon name="x" [size]="16"/></button>
+            </div>
+            <div class="modal-body">
+              <p class="modal-info">
+                Sipariş <strong>#{{ adjusting.orderNumber }}</strong> · Adet 0 ürünü çıkarır. Kartla ödenen siparişlerde fark karta iade edilir.
+              </p>
+              @for (line of adjustLines; track line.item.id) {
+                <div class="adjust-line">
+                  <span class="adjust-name" [class.removed]="line.qty === 0">{{ line.item.menuItemName }}</span>
+                  <input type="number" class="adjust-qty" min="0" max="99" [(ngModel)]="line.qty" />
+                  <select class="courier-select adjust-replace" [(ngModel)]="line.replacementId" [disabled]="line.qty === 0">
+                    <option [ngValue]="null">Değiştirme</option>
+                    @for (menuItem of adjustMenuItems(); track menuItem.id) {
+                      <option [ngValue]="menuItem.id">{{ menuItem.name }} ({{ menuItem.price | number:'1.2-2' }} TL)</option>
+                    }
+                  </select>
+                </div>
+              }
+              <label class="modal-label">İkram İndirimi (TL):</label>
+              <input type="number" class="courier-select" min="0" [(ngModel)]="adjustDiscount" placeholder="0" />
+              <label class="modal-label adjust-gap">Açıklama:</label>
+              <textarea
+                class="reject-textarea"
+                [(ngModel)]="adjustReason"
+                placeholder="Örn. Malzeme kalmadı"
+                rows="2"
+              ></textarea>
+              <label class="adjust-notify">
+                <input type="checkbox" [(ngModel)]="adjustNotify" /> Müşteriye değişiklikleri bildir
+              </label>
+              <p class="modal-info adjust-total">
+                {{ adjusting.totalPrice | number:'1.2-2' }} TL → <strong>{{ adjustmentPreview() | number:'1.2-2' }} TL</strong>
+              </p>
+            </div>
+            <div class="modal-actions">
+              <button class="action-btn" (click)="closeAdjustModal()">İptal</button>
+              <button class="action-btn confirm" [disabled]="savingAdjustment()" (click)="submitAdjustment()">
+                Kaydet
+              </button>
+            </div>
+          </div>
+        </div>
+      }
+
+      <!-- Courier Modal -->
+      @if (courierOrder()) {
+        <div class="modal-overlay" (click)="closeCourierModal()">
+          <div class="reject-modal" (click)="$event.stopPropagation()">
+            <div class="modal-header">
+              <h3>Kurye Ata</h3>
+              <button class="close-btn" (click)="closeCourierModal()"><app-icon name="x" [size]="16"/></button>
+            </div>
+            <div class="modal-body">
+              <p class="modal-info">
+                Sipariş <strong>#{{ courierOrder()?.orderNumber }}</strong> için kurye seçin.
+              </p>
+              <label class="modal-label">Kurye:</label>
+              <select class="courier-select" [(ngModel)]="selectedCourierId">
+                <option [ngValue]="null">En yakın müsait kurye</option>
+                @for (courier of couriers(); track courier.id) {
+                  <option [ngValue]="courier.id" [disabled]="!courier.isOnDuty">
+                    {{ courier.name }}{{ courier.isOnDuty ? '' : ' (mesai dışı)' }}{{ courier.activeDeliveries > 0 ? ' · ' + courier.activeDeliveries + ' teslimat' : '' }}
+                  </option>
+                }
+              </select>
+            </div>
+            <div class="modal-actions">
+              <button class="action-btn" (click)="closeCourierModal()">İptal</button>
+              <button class="action-btn confirm" [disabled]="assigningCourier()" (click)="submitCourier()">
+                Ata
+              </button>
+            </div>
+          </div>
+        </div>
+      }
+
       <!-- Customer Detail Panel -->
       @if (showCustomerPanel()) {
         <div class="panel-overlay" (click)="closeCustomerPanel()"></div>
@@ -295,6 +462,62 @@ import { DialogService } from '../../shared/dialog.service';
                 </div>
               }
 
+              <!-- Status Timeline -->
+              @if (statusHistory().length > 0) {
+                <div class="panel-section">
+                  <h4 class="section-title">Durum Geçmişi (Bu Sipariş)</h4>
+                  <div class="status-timeline">
+                    @for (event of statusHistory(); track event.id) {
+                      <div class="timeline-entry">
+                        <span class="timeline-dot" [class]="event.toStatus.toLowerCase()"></span>
+                        <div class="timeline-body">
+                          <div class="timeline-title">
+                            {{ getStatusLabel(event.fromStatus) }} → {{ getStatusLabel(event.toStatus) }}
+                          </div>
+                          <div class="timeline-meta">
+                            {{ formatDate(event.createdAt) }} · {{ getActorLabel(event) }}
+                          </div>
+                          @if (event.reason) {
+                            <div class="timeline-reason">{{ event.reason }}</div>
+                          }
+                        </div>
+                      </div>
+                    }
+                  </div>
+                </div>
+              }
+
+              @if (adjustments().length > 0) {
+                <div class="panel-section">
+                  <h4 class="section-title">Düzenlemeler</h4>
+                  <div class="status-timeline">
+                    @for (adjustment of adjustments(); track adjustment.id) {
+                      <div class="timeline-entry">
+                        <span class="timeline-dot confirmed"></span>
+                        <div class="timeline-body">
+                          @for (change of adjustment.changes; track $index) {
+                            <div class="timeline-title">{{ describeAdjustment(change) }}</div>
+                          }
+                          <div class="timeline-meta">
+                            {{ formatDate(adjustment.createdAt) }} · {{ adjustment.actorName || 'Kullanıcı' }} ·
+                            {{ adjustment.previousTotal | number:'1.2-2' }} → {{ adjustment.newTotal | number:'1.2-2' }} TL
+                          </div>
+                          @if (adjustment.refundStatus) {
+                            <div class="timeline-reason">
+                              İade {{ adjustment.refundAmount | number:'1.2-2' }} TL:
+                              {{ adjustment.refundStatus === 'SUCCESS' ? 'yapıldı' : adjustment.refundStatus === 'FAILED' ? 'başarısız (' + adjustment.refundError + ')' : 'bekliyor' }}
+                            </div>
+                          }
+                          @if (adjustment.reason) {
+                            <div class="timeline-reason">{{ adjustment.reason }}</div>
+                          }
+                        </div>
+                      </div>
+                    }
+                  </div>
+                </div>
+              }
+
               <!-- Favorite Items -->
               @if (customerDetail()!.favoriteItems.length > 0) {
                 <div class="panel-section">
@@ -502,6 +725,93 @@ import { DialogService } from '../../shared/dialog.service';
       color: var(--color-text-muted);
     }
 
+    .preorder-lane {
+      margin-bottom: 24px;
+      padding: 16px;
+      background: var(--color-bg-secondary);
+      border: 1px solid var(--color-border);
+      border-radius: 12px;
+    }
+
+    .lane-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin: 0 0 12px;
+      font-size: 0.95rem;
+      font-weight: 600;
+      color: var(--color-text-primary);
+    }
+
+    .lane-count {
+      padding: 2px 8px;
+      border-radius: 10px;
+      background: var(--color-bg-elevated);
+      font-size: 0.75rem;
+      color: var(--color-text-secondary);
+    }
+
+    .preorder-row {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 8px 12px;
+      border-radius: 8px;
+      border-left: 4px solid #3b82f6;
+      cursor: pointer;
+      font-size: 0.9rem;
+    }
+
+    .preorder-row + .preorder-row {
+      margin-top: 6px;
+    }
+
+    .preorder-row:hover {
+      background: var(--color-bg-elevated);
+    }
+
+    .preorder-row.status-pending_confirmation {
+      border-left-color: #f59e0b;
+    }
+
+    .preorder-time {
+      min-width: 110px;
+      font-weight: 700;
+      color: var(--color-text-primary);
+    }
+
+    .preorder-number {
+      font-weight: 600;
+    }
+
+    .preorder-customer {
+      flex: 1;
+      color: var(--color-text-secondary);
+    }
+
+    .preorder-items,
+    .preorder-total {
+      color: var(--color-text-secondary);
+    }
+
+    .preorder-actions {
+      display: flex;
+      gap: 8px;
+    }
+
+    .scheduled-badge {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      margin-left: 8px;
+      padding: 2px 8px;
+      border-radius: 4px;
+      background: rgba(59, 130, 246, 0.15);
+      color: #3b82f6;
+      font-size: 0.75rem;
+      font-weight: 600;
+    }
+
     .orders-grid {
       display: grid;
       grid-template-columns: repeat(auto-fill, minmax(320px, 1fr));
@@ -682,6 +992,37 @@ import { DialogService } from '../../shared/dialog.service';
       color: var(--color-text-secondary);
     }
 
+    .courier-info {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      font-size: 0.8125rem;
+      color: var(--color-text-secondary);
+      margin-bottom: 8px;
+    }
+
+    .courier-name {
+      font-weight: 600;
+      color: var(--color-text-primary);
+    }
+
+    .courier-status {
+      padding: 2px 8px;
+      border-radius: 999px;
+      background: rgba(59, 130, 246, 0.15);
+      color: #3b82f6;
+      font-size: 0.75rem;
+    }
+
+    .courier-select {
+      width: 100%;
+      padding: 8px 10px;
+      border-radius: 8px;
+      border: 1px solid var(--color-border);
+      background: var(--color-bg-secondary);
+      color: var(--color-text-primary);
+    }
+
     .order-actions {
       display: flex;
       flex-wrap: wrap;
@@ -779,6 +1120,24 @@ import { DialogService } from '../../shared/dialog.service';
       margin-right: 4px;
     }
 
+    .order-coupon,
+    .order-loyalty {
+      padding: 6px 12px;
+      margin-bottom: 12px;
+      background: rgba(34, 197, 94, 0.1);
+      border-radius: 6px;
+      border-left: 3px solid #22c55e;
+      font-size: 0.85rem;
+      color: #86efac;
+    }
+
+    .coupon-label,
+    .loyalty-label {
+      font-weight: 600;
+      color: #22c55e;
+      margin-right: 4px;
+    }
+
     /* Reject Modal */
     .modal-overlay {
       position: fixed;
@@ -859,6 +1218,53 @@ import { DialogService } from '../../shared/dialog.service';
       border-color: #f59e0b;
     }
 
+    .adjust-modal { max-width: 560px; }
+
+    .adjust-line {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 8px;
+    }
+
+    .adjust-name {
+      flex: 1;
+      font-size: 0.9rem;
+      color: var(--color-text-primary);
+    }
+
+    .adjust-name.removed {
+      text-decoration: line-through;
+      color: var(--color-text-muted);
+    }
+
+    .adjust-qty {
+      width: 64px;
+      padding: 8px;
+      border-radius: 8px;
+      border: 1px solid var(--color-border);
+      background: var(--color-bg-secondary);
+      color: var(--color-text-primary);
+    }
+
+    .adjust-replace { width: 200px; }
+
+    .adjust-gap { margin-top: 12px; }
+
+    .adjust-notify {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-top: 12px;
+      font-size: 0.85rem;
+      color: var(--color-text-secondary);
+    }
+
+    .adjust-total {
+      margin: 12px 0 0;
+      text-align: right;
+    }
+
     .modal-actions {
       display: flex;
       justify-content: flex-end;
@@ -1003,6 +1409,50 @@ import { DialogService } from '../../shared/dialog.service';
       color: var(--color-text-secondary);
     }
 
+    .status-timeline {
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+    }
+
+    .timeline-entry {
+      display: flex;
+      gap: 10px;
+      align-items: flex-start;
+    }
+
+    .timeline-dot {
+      width: 10px;
+      height: 10px;
+      margin-top: 4px;
+      border-radius: 50%;
+      flex-shrink: 0;
+      background: var(--color-text-muted);
+    }
+
+    .timeline-dot.confirmed,
+    .timeline-dot.preparing { background: #3b82f6; }
+    .timeline-dot.ready,
+    .timeline-dot.delivered { background: #22c55e; }
+    .timeline-dot.pending_confirmation { background: #f59e0b; }
+    .timeline-dot.cancelled { background: #ef4444; }
+
+    .timeline-title {
+      font-size: 0.85rem;
+      color: var(--color-text-primary);
+    }
+
+    .timeline-meta {
+      font-size: 0.75rem;
+      color: var(--color-text-muted);
+    }
+
+    .timeline-reason {
+      font-size: 0.75rem;
+      color: var(--color-text-secondary);
+      margin-top: 2px;
+    }
+
     .favorite-item {
       display: flex;
       justify-content: space-between;
@@ -1145,6 +1595,9 @@ export class OrdersComponent implements OnInit, OnDestroy {
   private authService = inject(AuthService);
   notificationService = inject(NotificationService);
   private dialog = inject(DialogService);
+  private realtime = inject(RealtimeService);
+  private courierService = inject(CourierService);
+  private menuService = inject(MenuService);
 
   private allOrders = signal<OrderDto[]>([]);
   loading = signal(false);
@@ -1155,8 +1608,18 @@ export class OrdersComponent implements OnInit, OnDestroy {
   isBusy = signal(false);
   busyEstimate = signal<number | null>(null);
 
+  // Pre-orders that are not due yet get their own lane above the grid
+  scheduledOrders = computed(() => {
+    const now = Date.now();
+    return this.allOrders()
+      .filter(o => o.scheduledFor && new Date(o.scheduledFor).getTime() > now
+        && (o.status === 'PENDING_CONFIRMATION' || o.status === 'CONFIRMED'))
+      .sort((a, b) => a.scheduledFor!.localeCompare(b.scheduledFor!));
+  });
+
   orders = computed(() => {
-    const all = this.allOrders();
+    const scheduled = new Set(this.scheduledOrders().map(o => o.id));
+    const all = this.allOrders().filter(o => !scheduled.has(o.id));
     const filter = this.statusFilter();
     if (!filter) return all;
     return all.filter(o => o.status === filter);
@@ -1167,11 +1630,28 @@ export class OrdersComponent implements OnInit, OnDestroy {
   rejectingOrder = signal<OrderDto | null>(null);
   rejectReason = '';
 
+  // Adjust modal state
+  adjustingOrder = signal<OrderDto | null>(null);
+  adjustMenuItems = signal<Array<{ id: string; name: string; price: number }>>([]);
+  savingAdjustment = signal(false);
+  adjustLines: Array<{ item: OrderItemDto; qty: number; replacementId: string | null }> = [];
+  adjustDiscount: number | null = null;
+  adjustReason = '';
+  adjustNotify = true;
+  adjustments = signal<OrderAdjustmentDto[]>([]);
+
   // Customer detail panel state
   showCustomerPanel = signal(false);
   customerDetail = signal<CustomerDetailDto | null>(null);
   customerDetailLoading = signal(false);
   selectedOrder = signal<OrderDto | null>(null);
+  statusHistory = signal<OrderStatusEventDto[]>([]);
+
+  // Courier assignment modal state
+  courierOrder = signal<OrderDto | null>(null);
+  couriers = signal<CourierDto[]>([]);
+  assigningCourier = signal(false);
+  selectedCourierId: string | null = null;
 
   stats = computed(() => {
     const all = this.allOrders();
@@ -1186,7 +1666,8 @@ export class OrdersComponent implements OnInit, OnDestroy {
 
   recentlyModifiedOrderIds = signal(new Set<string>());
 
-  // Polling
+  // Realtime & Polling
+  private realtimeSubscription: Subscription | null = null;
   private pollInterval: ReturnType<typeof setInterval> | null = null;
   private knownOrderIds = new Set<string>();
   private knownOrderItemCounts = new Map<string, number>();
@@ -1194,6 +1675,7 @@ export class OrdersComponent implements OnInit, OnDestroy {
   ngOnInit(): void {
     this.loadOrders();
     this.loadBusyStatus();
+    this.subscribeRealtime();
     this.startPolling();
 
     // Unlock audio on first user interaction
@@ -1205,12 +1687,23 @@ export class OrdersComponent implements OnInit, OnDestroy {
   }
 
   ngOnDestroy(): void {
+    this.realtimeSubscription?.unsubscribe();
     this.stopPolling();
   }
 
+  private subscribeRealtime(): void {
+    this.realtimeSubscription = merge(
+      this.realtime.on('order.created', 'order.status_changed', 'order.updated', 'delivery.updated'),
+      this.realtime.reconnected
+    )
+      .pipe(debounceTime(300))
+      .subscribe(() => this.pollOrders());
+  }
+
+  /** Fallback while the realtime stream is down */
   private startPolling(): void {
     this.pollInterval = setInterval(() => {
-      this.pollOrders();
+      if (!this.realtime.connected()) this.pollOrders();
     }, 5000);
   }
 
@@ -1347,6 +1840,16 @@ export class OrdersComponent implements OnInit, OnDestroy {
     return date.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' });
   }
 
+  formatScheduled(dateStr: string): string {
+    const date = new Date(dateStr);
+    const time = this.formatTime(dateStr);
+    const today = new Date();
+    const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+    if (date.toDateString() === today.toDateString()) return `Bugün ${time}`;
+    if (date.toDateString() === tomorrow.toDateString()) return `Yarın ${time}`;
+    return `${date.toLocaleDateString('tr-TR', { day: '2-digit', month: '2-digit' })} ${time}`;
+  }
+
   confirmOrder(order: OrderDto): void {
     this.orderService.confirmOrder(order.id).subscribe({
       next: () => this.loadOrders(),
@@ -1354,10 +1857,102 @@ export class OrdersComponent implements OnInit, OnDestroy {
     });
   }
 
+  canMoveTo(order: OrderDto, status: OrderStatus): boolean {
+    return order.allowedTransitions.includes(status);
+  }
+
   updateStatus(order: OrderDto, status: OrderStatus): void {
     this.orderService.updateOrderStatus(order.id, status).subscribe({
       next: () => this.loadOrders(),
-      error: (err) => console.error('Update failed:', err),
+      error: (err) => {
+        console.error('Update failed:', err);
+        this.dialog.error(err.error?.error?.message || 'Durum güncellenemedi');
+        this.loadOrders();
+      },
+    });
+  }
+
+  getActorLabel(event: OrderStatusEventDto): string {
+    switch (event.actorType) {
+      case 'USER':
+        return event.actorName || 'Kullanıcı';
+      case 'BOT':
+        return 'Bot';
+      case 'POS':
+        return 'POS';
+      case 'COURIER':
+        return event.reason || 'Kurye';
+      default:
+        return 'Sistem';
+    }
+  }
+
+  /** Couriers can be (re)assigned until they pick the order up */
+  canAssignCourier(order: OrderDto): boolean {
+    return (
+      order.status === 'READY' &&
+      order.deliveryType === 'DELIVERY' &&
+      order.delivery?.status !== 'PICKED_UP'
+    );
+  }
+
+  getDeliveryStatusLabel(status: DeliveryStatus): string {
+    const labels: Record<DeliveryStatus, string> = {
+      ASSIGNED: 'Atandı',
+      ACCEPTED: 'Kabul Etti',
+      PICKED_UP: 'Yolda',
+      DELIVERED: 'Teslim Edildi',
+      CANCELLED: 'İptal',
+    };
+    return labels[status];
+  }
+
+  openCourierModal(order: OrderDto): void {
+    this.courierOrder.set(order);
+    this.selectedCourierId = null;
+    this.couriers.set([]);
+    this.courierService.getCouriers(order.storeId || undefined).subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.couriers.set(res.data.filter((c) => c.isActive));
+        }
+      },
+    });
+  }
+
+  closeCourierModal(): void {
+    this.courierOrder.set(null);
+    this.selectedCourierId = null;
+  }
+
+  submitCourier(): void {
+    const order = this.courierOrder();
+    if (!order) return;
+
+    this.assigningCourier.set(true);
+    this.orderService.assignCourier(order.id, this.selectedCourierId || undefined).subscribe({
+      next: () => {
+        this.assigningCourier.set(false);
+        this.closeCourierModal();
+        this.loadOrders();
+      },
+      error: (err) => {
+        this.assigningCourier.set(false);
+        this.dialog.error(err.error?.error?.message || 'Kurye atanamadı');
+      },
+    });
+  }
+
+  async unassignCourier(order: OrderDto): Promise<void> {
+    const confirmed = await this.dialog.confirm(
+      `${order.delivery?.courierName} bu siparişten kaldırılsın mı?`,
+      { title: 'Kuryeyi Kaldır', confirmText: 'Kaldır', variant: 'danger' }
+    );
+    if (!confirmed) return;
+
+    this.orderService.unassignCourier(order.id).subscribe({
+      next: () => this.loadOrders(),
+      error: (err) => this.dialog.error(err.error?.error?.message || 'Kurye kaldırılamadı'),
     });
   }
 
@@ -1389,6 +1984,99 @@ export class OrdersComponent implements OnInit, OnDestroy {
     });
   }
 
+  canAdjust(order: OrderDto): boolean {
+    return ['CONFIRMED', 'PREPARING', 'READY'].includes(order.status);
+  }
+
+  openAdjustModal(order: OrderDto): void {
+    this.adjustingOrder.set(order);
+    this.adjustLines = order.items.map((item) => ({ item, qty: item.qty, replacementId: null }));
+    this.adjustDiscount = null;
+    this.adjustReason = '';
+    this.adjustNotify = true;
+
+    if (this.adjustMenuItems().length === 0) {
+      this.menuService.getPublishedMenu().subscribe({
+        next: (res) => {
+          const items = (res.data?.categories ?? []).flatMap((c) => c.items).filter((i) => i.isActive);
+          this.adjustMenuItems.set(items.map((i) => ({ id: i.id, name: i.name, price: i.effectivePrice })));
+        },
+      });
+    }
+  }
+
+  closeAdjustModal(): void {
+    this.adjustingOrder.set(null);
+    this.adjustLines = [];
+  }
+
+  /** Expected new total; the API applies the pickup discount on top */
+  adjustmentPreview(): number {
+    const order = this.adjustingOrder();
+    if (!order) return 0;
+
+    const delta = this.adjustLines.reduce((sum, line) => {
+      const replacement = this.adjustMenuItems().find((m) => m.id === line.replacementId);
+      const unitPrice = replacement && line.qty > 0 ? replacement.price : line.item.unitPrice;
+      return sum + unitPrice * (line.qty || 0) - line.item.unitPrice * line.item.qty;
+    }, 0);
+    return Math.max(0, order.totalPrice + delta - (this.adjustDiscount || 0));
+  }
+
+  submitAdjustment(): void {
+    const order = this.adjustingOrder();
+    if (!order) return;
+
+    const changes: OrderAdjustmentChangeInput[] = [];
+    for (const line of this.adjustLines) {
+      const qty = Math.max(0, Math.floor(line.qty || 0));
+      if (qty === 0) {
+        changes.push({ type: 'REMOVE_ITEM', itemId: line.item.id });
+      } else if (line.replacementId) {
+        changes.push({ type: 'REPLACE_ITEM', itemId: line.item.id, menuItemId: line.replacementId, qty });
+      } else if (qty !== line.item.qty) {
+        changes.push({ type: 'CHANGE_QTY', itemId: line.item.id, qty });
+      }
+    }
+    if (this.adjustDiscount && this.adjustDiscount > 0) {
+      changes.push({ type: 'DISCOUNT', amount: this.adjustDiscount });
+    }
+    if (changes.length === 0) {
+      this.dialog.error('Değişiklik yapılmadı.');
+      return;
+    }
+
+    this.savingAdjustment.set(true);
+    this.orderService.adjustOrder(order.id, {
+      changes,
+      reason: this.adjustReason.trim() || undefined,
+      notifyCustomer: this.adjustNotify,
+    }).subscribe({
+      next: () => {
+        this.savingAdjustment.set(false);
+        this.closeAdjustModal();
+        this.loadOrders();
+      },
+      error: (err) => {
+        this.savingAdjustment.set(false);
+        this.dialog.error(err.error?.error?.message || 'Sipariş düzenlenemedi');
+      },
+    });
+  }
+
+  describeAdjustment(change: OrderAdjustmentChangeDto): string {
+    switch (change.type) {
+      case 'REMOVE_ITEM':
+        return `Çıkarıldı: ${change.fromQty}x ${change.itemName}`;
+      case 'CHANGE_QTY':
+        return `${change.itemName}: ${change.fromQty} → ${change.toQty} adet`;
+      case 'REPLACE_ITEM':
+        return `${change.itemName} → ${change.toQty}x ${change.replacementName}`;
+      case 'DISCOUNT':
+        return `İkram indirimi: ${change.amount.toFixed(2)} TL`;
+    }
+  }
+
   openCustomerPanel(order: OrderDto): void {
     if (!order.customerPhone) return;
 
@@ -1396,6 +2084,24 @@ export class OrdersComponent implements OnInit, OnDestroy {
     this.showCustomerPanel.set(true);
     this.customerDetailLoading.set(true);
     this.customerDetail.set(null);
+    this.statusHistory.set([]);
+    this.adjustments.set([]);
+
+    this.orderService.getOrderHistory(order.id).subscribe({
+      next: (res) => {
+        if (res.success && res.data && this.selectedOrder()?.id === order.id) {
+          this.statusHistory.set(res.data);
+        }
+      },
+    });
+
+    this.orderService.getOrderAdjustments(order.id).subscribe({
+      next: (res) => {
+        if (res.success && res.data && this.selectedOrder()?.id === order.id) {
+          this.adjustments.set(res.data);
+        }
+      },
+    });
 
     this.orderService.getCustomerDetails(order.customerPhone).subscribe({
       next: (res) => {
@@ -1412,6 +2118,8 @@ export class OrdersComponent implements OnInit, OnDestroy {
     this.showCustomerPanel.set(false);
     this.selectedOrder.set(null);
     this.customerDetail.set(null);
+    this.statusHistory.set([]);
+    this.adjustments.set([]);
   }
 
   formatDate(dateStr: string): string {
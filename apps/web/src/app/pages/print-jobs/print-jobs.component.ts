@@ -1,7 +1,9 @@
 import { Component, OnInit, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { OrderService, PrintJobDto, PrintJobStatus } from '../../services/order.service';
+import { OrderService, PrintJobDto, PrintJobStatus, PrintJobType } from '../../services/order.service';
+import { KitchenStationService, KitchenStationDto } from '../../services/kitchen-station.service';
+import { StoreService, StoreDto } from '../../services/store.service';
 import { IconComponent } from '../../shared/icon.component';
 import { DialogService } from '../../shared/dialog.service';
 
@@ -21,6 +23,16 @@ import { DialogService } from '../../shared/dialog.service';
             <option value="DONE">Tamamlandı</option>
             <option value="FAILED">Başarısız</option>
           </select>
+          <select [(ngModel)]="ticketFilter" (change)="loadJobs()">
+            <option [ngValue]="null">Tüm Fişler</option>
+            <option value="KITCHEN">Mutfak (Özet)</option>
+            <option value="COURIER">Kurye</option>
+            <option value="Z_REPORT">Z Raporu</option>
+            @for (station of stations(); track station.id) {
+              <option [value]="'station:' + station.id">{{ station.name }}</option>
+            }
+          </select>
+          <button class="refresh-btn secondary" (click)="openStations()"><app-icon name="utensils" [size]="14"/> İstasyonlar</button>
           <button class="refresh-btn" (click)="loadJobs()"><app-icon name="refresh" [size]="14"/> Yenile</button>
         </div>
       </header>
@@ -71,14 +83,19 @@ import { DialogService } from '../../shared/dialog.service';
                 <tr [class]="'status-' + job.status.toLowerCase()">
                   <td>
                     <span class="type-badge" [class]="job.type.toLowerCase()">
-                      @if (job.type === 'KITCHEN') { <app-icon name="flame" [size]="14"/> Mutfak } @else { <app-icon name="bike" [size]="14"/> Kurye }
+                      <app-icon [name]="getTypeIcon(job.type)" [size]="14"/> {{ getTypeLabel(job) }}
                     </span>
                   </td>
-                  <td class="order-number">#{{ job.payloadJson.orderNumber }}</td>
+                  <td class="order-number">{{ getJobSubject(job) }}</td>
                   <td>
                     <span class="status-badge" [class]="job.status.toLowerCase()">
                       {{ getStatusLabel(job.status) }}
                     </span>
+                    @if (job.holdUntil && job.status === 'PENDING') {
+                      <span class="status-badge held" [title]="'Ön sipariş: ' + formatTime(job.holdUntil) + ' itibarıyla yazdırılır'">
+                        Bekletiliyor
+                      </span>
+                    }
                   </td>
                   <td class="time">{{ formatTime(job.createdAt) }}</td>
                   <td class="time">{{ job.processedAt ? formatTime(job.processedAt) : '-' }}</td>
@@ -143,11 +160,11 @@ pnpm dev</pre>
               <div class="detail-grid">
                 <div class="detail-item">
                   <label>Tip:</label>
-                  <span>@if (viewingJob()!.type === 'KITCHEN') { <app-icon name="flame" [size]="14"/> Mutfak } @else { <app-icon name="bike" [size]="14"/> Kurye }</span>
+                  <span><app-icon [name]="getTypeIcon(viewingJob()!.type)" [size]="14"/> {{ getTypeLabel(viewingJob()!) }}</span>
                 </div>
                 <div class="detail-item">
-                  <label>Sipariş No:</label>
-                  <span>#{{ viewingJob()!.payloadJson.orderNumber }}</span>
+                  <label>{{ viewingJob()!.type === 'Z_REPORT' ? 'İş Günü:' : 'Sipariş No:' }}</label>
+                  <span>{{ getJobSubject(viewingJob()!) }}</span>
                 </div>
                 <div class="detail-item">
                   <label>Durum:</label>
@@ -178,6 +195,24 @@ pnpm dev</pre>
 
               <div class="payload-section">
                 <h4><app-icon name="clipboard" [size]="14"/> İçerik (Payload):</h4>
+                @if (viewingJob()!.type === 'Z_REPORT') {
+                  <div class="order-details">
+                    <p><strong>Şube:</strong> {{ viewingJob()!.payloadJson.storeName }}</p>
+                    @for (section of viewingJob()!.payloadJson.reportSections || []; track section.title) {
+                      <h5>{{ section.title }}</h5>
+                      <table class="items-table">
+                        <tbody>
+                          @for (row of section.rows; track row.label) {
+                            <tr>
+                              <td>{{ row.label }}</td>
+                              <td>{{ row.value }}</td>
+                            </tr>
+                          }
+                        </tbody>
+                      </table>
+                    }
+                  </div>
+                } @else {
                 <div class="order-details">
                   <p><strong>Müşteri:</strong> {{ viewingJob()!.payloadJson.customerName || 'Belirtilmemiş' }}</p>
                   <p><strong>Telefon:</strong> {{ viewingJob()!.payloadJson.customerPhone }}</p>
@@ -214,6 +249,9 @@ pnpm dev</pre>
                             @if (item.notes) {
                               <div class="item-note"><app-icon name="file-text" [size]="14"/> {{ item.notes }}</div>
                             }
+                            @if (item.station) {
+                              <div class="item-station">{{ item.station }}</div>
+                            }
                           </td>
                           <td>{{ item.qty }}</td>
                         </tr>
@@ -229,6 +267,7 @@ pnpm dev</pre>
                     }
                   </table>
                 </div>
+                }
               </div>
             </div>
             <div class="modal-footer">
@@ -242,6 +281,75 @@ pnpm dev</pre>
           </div>
         </div>
       }
+
+      <!-- Kitchen Stations Modal -->
+      @if (showStations()) {
+        <div class="modal-overlay" (click)="closeStations()">
+          <div class="modal-content" (click)="$event.stopPropagation()">
+            <div class="modal-header">
+              <h2><app-icon name="utensils" [size]="16"/> Hazırlık İstasyonları</h2>
+              <button class="close-btn" (click)="closeStations()"><app-icon name="x" [size]="16"/></button>
+            </div>
+            <div class="modal-body">
+              <p class="stations-hint">
+                Her istasyon yalnızca kendi ürünlerini içeren ayrı bir fiş alır; mutfak fişi özet olarak basılmaya devam eder.
+                Ürünler önce menüdeki istasyon seçimine, yoksa kategorilerine göre yönlendirilir.
+              </p>
+
+              @for (station of stations(); track station.id) {
+                <div class="station-row" [class.inactive]="!station.isActive">
+                  <div class="station-info">
+                    <strong>{{ station.name }}</strong>
+                    <span class="station-store">{{ getStoreName(station.storeId) }}</span>
+                    <div class="item-options">
+                      @for (category of station.categories; track category) {
+                        <span class="option-tag">{{ category }}</span>
+                      } @empty {
+                        <span class="no-error">Kategori yok</span>
+                      }
+                    </div>
+                  </div>
+                  <div class="action-buttons">
+                    <button class="action-btn view" (click)="editStation(station)" title="Düzenle">
+                      <app-icon name="edit" [size]="14"/>
+                    </button>
+                    <button class="action-btn delete" (click)="deleteStation(station)" title="Sil">
+                      <app-icon name="trash" [size]="14"/>
+                    </button>
+                  </div>
+                </div>
+              } @empty {
+                <div class="empty-state">Henüz istasyon yok</div>
+              }
+
+              <div class="station-form">
+                <h4>{{ stationForm.id ? 'İstasyonu Düzenle' : 'Yeni İstasyon' }}</h4>
+                <div class="form-grid">
+                  <input type="text" [(ngModel)]="stationForm.name" placeholder="Ad (ör. Izgara, Bar)" />
+                  <select [(ngModel)]="stationForm.storeId">
+                    <option [ngValue]="null">Tüm Şubeler</option>
+                    @for (store of stores(); track store.id) {
+                      <option [ngValue]="store.id">{{ store.name }}</option>
+                    }
+                  </select>
+                  <input type="text" class="wide" [(ngModel)]="stationForm.categories" placeholder="Kategoriler, virgülle (ör. Kebaplar, Izgaralar)" />
+                  <label class="checkbox">
+                    <input type="checkbox" [(ngModel)]="stationForm.isActive" /> Aktif
+                  </label>
+                </div>
+              </div>
+            </div>
+            <div class="modal-footer">
+              @if (stationForm.id) {
+                <button class="btn btn-secondary" (click)="resetStationForm()">Vazgeç</button>
+              }
+              <button class="btn btn-primary" [disabled]="!stationForm.name.trim() || savingStation()" (click)="saveStation()">
+                {{ stationForm.id ? 'Kaydet' : 'Ekle' }}
+              </button>
+            </div>
+          </div>
+        </div>
+      }
     </div>
   `,
   styles: [`
@@ -300,6 +408,12 @@ pnpm dev</pre>
       background: var(--color-primary-dark);
     }
 
+    .refresh-btn.secondary {
+      background: var(--color-bg-tertiary);
+      color: var(--color-text-primary);
+      border: 1px solid var(--color-border);
+    }
+
     .stats-bar {
       display: flex;
       gap: 16px;
@@ -407,6 +521,16 @@ pnpm dev</pre>
       color: var(--color-primary);
     }
 
+    .type-badge.station {
+      background: rgba(16, 185, 129, 0.15);
+      color: var(--color-success);
+    }
+
+    .type-badge.z_report {
+      background: rgba(139, 92, 246, 0.15);
+      color: #8b5cf6;
+    }
+
     .order-number {
       font-weight: 600;
       font-family: monospace;
@@ -423,6 +547,7 @@ pnpm dev</pre>
     .status-badge.processing { background: rgba(27, 85, 131, 0.15); color: var(--color-primary); }
     .status-badge.done { background: rgba(34, 197, 94, 0.15); color: var(--color-success); }
     .status-badge.failed { background: rgba(239, 68, 68, 0.15); color: var(--color-danger); }
+    .status-badge.held { margin-left: 6px; background: rgba(59, 130, 246, 0.15); color: #3b82f6; }
 
     .time {
       font-size: 0.85rem;
@@ -725,6 +850,77 @@ pnpm dev</pre>
       margin-top: 4px;
     }
 
+    .item-station {
+      font-size: 0.75rem;
+      color: var(--color-success);
+      margin-top: 4px;
+    }
+
+    .stations-hint {
+      font-size: 0.85rem;
+      color: var(--color-text-secondary);
+      margin: 0 0 16px;
+    }
+
+    .station-row {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 12px;
+      padding: 12px 0;
+      border-bottom: 1px solid var(--color-border);
+    }
+
+    .station-row.inactive {
+      opacity: 0.5;
+    }
+
+    .station-info {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      color: var(--color-text-primary);
+    }
+
+    .station-store {
+      font-size: 0.8rem;
+      color: var(--color-text-secondary);
+    }
+
+    .station-form {
+      margin-top: 20px;
+    }
+
+    .station-form h4 {
+      margin: 0 0 12px;
+      color: var(--color-text-primary);
+    }
+
+    .form-grid {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 12px;
+    }
+
+    .form-grid input[type='text'], .form-grid select {
+      padding: 8px 12px;
+      border-radius: 8px;
+      border: 1px solid var(--color-border);
+      background: var(--color-bg-tertiary);
+      color: var(--color-text-primary);
+    }
+
+    .form-grid .wide {
+      grid-column: 1 / -1;
+    }
+
+    .form-grid .checkbox {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: var(--color-text-primary);
+    }
+
     .order-note {
       padding: 8px 12px;
       margin: 8px 0;
@@ -780,21 +976,38 @@ pnpm dev</pre>
 })
 export class PrintJobsComponent implements OnInit {
   private orderService = inject(OrderService);
+  private stationService = inject(KitchenStationService);
+  private storeService = inject(StoreService);
   private dialog = inject(DialogService);
 
   jobs = signal<PrintJobDto[]>([]);
   loading = signal(false);
   statusFilter: PrintJobStatus | null = null;
+  /** Job type ('KITCHEN' | 'COURIER') or 'station:<id>' */
+  ticketFilter: string | null = null;
   viewingJob = signal<PrintJobDto | null>(null);
 
+  stations = signal<KitchenStationDto[]>([]);
+  stores = signal<StoreDto[]>([]);
+  showStations = signal(false);
+  savingStation = signal(false);
+  stationForm = this.emptyStationForm();
+
   ngOnInit(): void {
     this.loadJobs();
+    this.loadStations();
   }
 
   loadJobs(): void {
     this.loading.set(true);
-    const params = this.statusFilter ? { status: this.statusFilter, limit: 100 } : { limit: 100 };
-    
+    const params: Parameters<OrderService['getPrintJobs']>[0] = { limit: 100 };
+    if (this.statusFilter) params.status = this.statusFilter;
+    if (this.ticketFilter?.startsWith('station:')) {
+      params.stationId = this.ticketFilter.substring('station:'.length);
+    } else if (this.ticketFilter) {
+      params.type = this.ticketFilter as PrintJobType;
+    }
+
     this.orderService.getPrintJobs(params).subscribe({
       next: (res) => {
         if (res.success && res.data) {
@@ -806,6 +1019,130 @@ export class PrintJobsComponent implements OnInit {
     });
   }
 
+  loadStations(): void {
+    this.stationService.getStations(true).subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.stations.set(res.data);
+        }
+      },
+      error: (err) => console.error('Failed to load stations:', err),
+    });
+  }
+
+  getTypeIcon(type: PrintJobType): string {
+    if (type === 'Z_REPORT') return 'file-text';
+    return type === 'COURIER' ? 'bike' : type === 'STATION' ? 'utensils' : 'flame';
+  }
+
+  getTypeLabel(job: PrintJobDto): string {
+    if (job.type === 'STATION') return job.payloadJson.stationName || 'İstasyon';
+    if (job.type === 'Z_REPORT') return 'Z Raporu';
+    return job.type === 'KITCHEN' ? 'Mutfak' : 'Kurye';
+  }
+
+  /** Order number, or the business day of a Z-report */
+  getJobSubject(job: PrintJobDto): string {
+    return job.type === 'Z_REPORT'
+      ? job.payloadJson.businessDate || '-'
+      : `#${job.payloadJson.orderNumber}`;
+  }
+
+  // ==================== STATIONS ====================
+
+  openStations(): void {
+    this.resetStationForm();
+    this.showStations.set(true);
+    if (this.stores().length === 0) {
+      this.storeService.getStores().subscribe({
+        next: (res) => {
+          if (res.success && res.data) {
+            this.stores.set(res.data);
+          }
+        },
+        error: (err) => console.error('Failed to load stores:', err),
+      });
+    }
+  }
+
+  closeStations(): void {
+    this.showStations.set(false);
+  }
+
+  getStoreName(storeId: string | null): string {
+    if (!storeId) return 'Tüm Şubeler';
+    return this.stores().find((s) => s.id === storeId)?.name || 'Şube';
+  }
+
+  editStation(station: KitchenStationDto): void {
+    this.stationForm = {
+      id: station.id,
+      name: station.name,
+      storeId: station.storeId,
+      categories: station.categories.join(', '),
+      isActive: station.isActive,
+    };
+  }
+
+  resetStationForm(): void {
+    this.stationForm = this.emptyStationForm();
+  }
+
+  saveStation(): void {
+    const form = this.stationForm;
+    const payload = {
+      name: form.name.trim(),
+      storeId: form.storeId,
+      categories: form.categories.split(',').map((c) => c.trim()).filter((c) => c.length > 0),
+      isActive: form.isActive,
+    };
+    const request = form.id
+      ? this.stationService.updateStation(form.id, payload)
+      : this.stationService.createStation(payload);
+
+    this.savingStation.set(true);
+    request.subscribe({
+      next: () => {
+        this.savingStation.set(false);
+        this.resetStationForm();
+        this.loadStations();
+      },
+      error: (err) => {
+        this.savingStation.set(false);
+        this.dialog.error('İstasyon kaydedilemedi: ' + (err.error?.error?.message || err.message));
+      },
+    });
+  }
+
+  async deleteStation(station: KitchenStationDto): Promise<void> {
+    const ok = await this.dialog.confirm(
+      `"${station.name}" istasyonunu silmek istediğinize emin misiniz? Bu istasyona atanmış ürünler kategorilerine göre yönlendirilir.`,
+      { title: 'İstasyonu sil', confirmText: 'Sil', variant: 'danger' },
+    );
+    if (!ok) return;
+
+    this.stationService.deleteStation(station.id).subscribe({
+      next: () => {
+        if (this.ticketFilter === `station:${station.id}`) {
+          this.ticketFilter = null;
+          this.loadJobs();
+        }
+        this.loadStations();
+      },
+      error: (err) => this.dialog.error('İstasyon silinemedi: ' + (err.error?.error?.message || err.message)),
+    });
+  }
+
+  private emptyStationForm(): {
+    id: string | null;
+    name: string;
+    storeId: string | null;
+    categories: string;
+    isActive: boolean;
+  } {
+    return { id: null, name: '', storeId: null, categories: '', isActive: true };
+  }
+
   countByStatus(status: PrintJobStatus): number {
     return this.jobs().filter(j => j.status === status).length;
   }
@@ -851,7 +1188,7 @@ export class PrintJobsComponent implements OnInit {
 
   async cancelJob(job: PrintJobDto): Promise<void> {
     const ok = await this.dialog.confirm(
-      `#${job.payloadJson.orderNumber} numaralı yazdırma işini durdurmak istediğinize emin misiniz?`,
+      `${this.getJobSubject(job)} yazdırma işini durdurmak istediğinize emin misiniz?`,
       { title: 'Yazdırma işini durdur', confirmText: 'Durdur', variant: 'warning' },
     );
     if (!ok) return;
@@ -867,7 +1204,7 @@ export class PrintJobsComponent implements OnInit {
 
   async deleteJob(job: PrintJobDto): Promise<void> {
     const ok = await this.dialog.confirm(
-      `#${job.payloadJson.orderNumber} numaralı yazdırma işini silmek istediğinize emin misiniz?`,
+      `${this.getJobSubject(job)} yazdırma işini silmek istediğinize emin misiniz?`,
       { title: 'Yazdırma işini sil', confirmText: 'Sil', variant: 'danger' },
     );
     if (!ok) return;
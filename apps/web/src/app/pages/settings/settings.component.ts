@@ -19,6 +19,16 @@ import {
 import { IconComponent } from '../../shared/icon.component';
 import { DialogService } from '../../shared/dialog.service';
 
+interface PreOrderSettings {
+  enabled: boolean;
+  slotMinutes: number;
+  slotCapacity: number | null;
+  leadMinutes: number;
+  maxDays: number;
+}
+
+type PaymentGatewayKey = 'iyzico' | 'paytr' | 'fake';
+
 @Component({
   selector: 'app-settings',
   standalone: true,
@@ -134,6 +144,14 @@ import { DialogService } from '../../shared/dialog.service';
                 <input type="password" class="setting-input" formControlName="appSecret"
                        [placeholder]="waConfig()?.appSecretMasked || 'Uygulama Gizli Anahtarı girin'" />
               </div>
+              <div class="setting-item column">
+                <span class="setting-label">Katalog ID (isteğe bağlı)</span>
+                <span class="setting-description text-muted">
+                  Meta Commerce kataloğunuzu bağlarsanız "menü" yazan müşterilere ürün listesi gönderilir.
+                  Menü ürünlerinde katalogdaki Retailer ID değerini girin.
+                </span>
+                <input type="text" class="setting-input" formControlName="catalogId" placeholder="Katalog ID girin" />
+              </div>
 
               <!-- Action Buttons -->
               <div class="setting-item action-row">
@@ -499,6 +517,95 @@ import { DialogService } from '../../shared/dialog.service';
           </div>
         </div>
 
+        <!-- Ön Sipariş -->
+        <div class="settings-section">
+          <h2 class="section-title">Ön Sipariş</h2>
+          <div class="settings-card">
+            <div class="setting-item">
+              <div class="setting-info">
+                <span class="setting-label">Ön siparişi aç</span>
+                <span class="setting-description text-muted">
+                  Müşteriler ileri bir saat için sipariş verebilir ("yarın 12:30"). Kapalıyken gelen siparişler de
+                  bir saat seçilerek alınır. Mutfak fişi, seçilen saatten aşağıdaki hazırlık süresi kadar önce yazdırılır.
+                </span>
+              </div>
+              <label class="toggle">
+                <input type="checkbox" [checked]="preOrder().enabled" (change)="setPreOrder('enabled', $any($event.target).checked)" />
+                <span class="toggle-slider"></span>
+              </label>
+            </div>
+            @if (preOrder().enabled) {
+              <div class="setting-item">
+                <div class="setting-info">
+                  <span class="setting-label">Zaman dilimi (dk)</span>
+                  <span class="setting-description text-muted">Siparişlerin gruplandığı aralık.</span>
+                </div>
+                <input type="number" class="setting-input" min="5" max="120" step="5" style="width: 100px;"
+                       [value]="preOrder().slotMinutes" (change)="setPreOrder('slotMinutes', +$any($event.target).value)" />
+              </div>
+              <div class="setting-item">
+                <div class="setting-info">
+                  <span class="setting-label">Dilim başına kapasite</span>
+                  <span class="setting-description text-muted">Bir zaman dilimine alınacak en fazla sipariş. Boş = sınırsız.</span>
+                </div>
+                <input type="number" class="setting-input" min="1" step="1" style="width: 100px;"
+                       [value]="preOrder().slotCapacity ?? ''" (change)="setPreOrder('slotCapacity', +$any($event.target).value || null)" />
+              </div>
+              <div class="setting-item">
+                <div class="setting-info">
+                  <span class="setting-label">Hazırlık süresi (dk)</span>
+                  <span class="setting-description text-muted">En erken bu kadar sonrası için sipariş alınır; fiş de bu kadar önce düşer.</span>
+                </div>
+                <input type="number" class="setting-input" min="0" max="1440" step="5" style="width: 100px;"
+                       [value]="preOrder().leadMinutes" (change)="setPreOrder('leadMinutes', +$any($event.target).value)" />
+              </div>
+              <div class="setting-item">
+                <div class="setting-info">
+                  <span class="setting-label">En fazla kaç gün sonrası</span>
+                  <span class="setting-description text-muted">0 = yalnızca bugün.</span>
+                </div>
+                <input type="number" class="setting-input" min="0" max="14" step="1" style="width: 100px;"
+                       [value]="preOrder().maxDays" (change)="setPreOrder('maxDays', +$any($event.target).value)" />
+              </div>
+            }
+            <div class="setting-item action-row">
+              <button class="btn btn-primary" (click)="savePreOrder()" [disabled]="isSavingPreOrder()">
+                {{ isSavingPreOrder() ? 'Kaydediliyor...' : 'Kaydet' }}
+              </button>
+            </div>
+            @if (preOrderSaved()) {
+              <div class="test-result success">
+                <p class="test-message">Ön sipariş ayarları kaydedildi!</p>
+              </div>
+            }
+          </div>
+        </div>
+
+        <!-- Kart Ödeme Altyapısı -->
+        <div class="settings-section">
+          <h2 class="section-title">Kart Ödeme Altyapısı</h2>
+          <div class="settings-card">
+            <div class="setting-item">
+              <div class="setting-info">
+                <span class="setting-label">Ödeme Sağlayıcısı</span>
+                <span class="setting-description text-muted">Kartla ödeme linkleri bu sağlayıcı üzerinden oluşturulur</span>
+              </div>
+              <div style="display: flex; gap: 8px;">
+                @for (gateway of availableGateways(); track gateway) {
+                  <button class="btn" [class.btn-primary]="paymentGateway() === gateway" [class.btn-secondary]="paymentGateway() !== gateway" (click)="selectGateway(gateway)" [disabled]="isSavingGateway()">
+                    {{ gatewayLabels[gateway] }}
+                  </button>
+                }
+              </div>
+            </div>
+            @if (paymentGateway() === 'fake') {
+              <div class="test-result">
+                <p class="test-message">Test ödemesi seçili: ödeme linki gerçek tahsilat yapmayan bir test sayfası açar.</p>
+              </div>
+            }
+          </div>
+        </div>
+
         <!-- iyzico Ödeme Ayarları -->
         <div class="settings-section">
           <h2 class="section-title">iyzico Ödeme Ayarları</h2>
@@ -534,6 +641,48 @@ import { DialogService } from '../../shared/dialog.service';
           </div>
         </div>
 
+        <!-- PayTR Ödeme Ayarları -->
+        <div class="settings-section">
+          <h2 class="section-title">PayTR Ödeme Ayarları</h2>
+          <div class="settings-card">
+            <div class="setting-item">
+              <div class="setting-info">
+                <span class="setting-label">Mod</span>
+                <span class="setting-description text-muted">Test veya canlı mağaza</span>
+              </div>
+              <div style="display: flex; gap: 8px;">
+                <button class="btn" [class.btn-primary]="paytrTestMode()" [class.btn-secondary]="!paytrTestMode()" (click)="paytrTestMode.set(true)">Test</button>
+                <button class="btn" [class.btn-primary]="!paytrTestMode()" [class.btn-secondary]="paytrTestMode()" (click)="paytrTestMode.set(false)">Production</button>
+              </div>
+            </div>
+            <div class="setting-item column">
+              <span class="setting-label">Mağaza No (merchant_id)</span>
+              <input type="text" class="setting-input" [value]="paytrMerchantId()" (input)="paytrMerchantId.set($any($event.target).value)" placeholder="123456"/>
+            </div>
+            <div class="setting-item column">
+              <span class="setting-label">Mağaza Parola (merchant_key)</span>
+              <input type="password" class="setting-input" [value]="paytrMerchantKey()" (input)="paytrMerchantKey.set($any($event.target).value)" placeholder="***"/>
+            </div>
+            <div class="setting-item column">
+              <span class="setting-label">Mağaza Gizli Anahtar (merchant_salt)</span>
+              <input type="password" class="setting-input" [value]="paytrMerchantSalt()" (input)="paytrMerchantSalt.set($any($event.target).value)" placeholder="***"/>
+            </div>
+            <div class="setting-item column">
+              <span class="setting-description text-muted">PayTR panelinde Bildirim URL olarak şunu girin: {{ paytrCallbackUrl }}</span>
+            </div>
+            <div class="setting-item action-row">
+              <button class="btn btn-primary" (click)="savePaytr()" [disabled]="isSavingPaytr()">
+                {{ isSavingPaytr() ? 'Kaydediliyor...' : 'Kaydet' }}
+              </button>
+            </div>
+            @if (paytrSaved()) {
+              <div class="test-result success">
+                <p class="test-message">PayTR ayarları kaydedildi! ({{ paytrTestMode() ? 'TEST' : 'CANLI' }} mod)</p>
+              </div>
+            }
+          </div>
+        </div>
+
         <!-- Gel Al İndirim Ayarı -->
         <div class="settings-section">
           <h2 class="section-title">Gel Al İndirimi</h2>
@@ -975,6 +1124,17 @@ export class SettingsComponent implements OnInit {
     { key: 'sun', label: 'Pazar' },
   ];
 
+  // Pre-orders
+  preOrder = signal<PreOrderSettings>({
+    enabled: false,
+    slotMinutes: 15,
+    slotCapacity: null,
+    leadMinutes: 30,
+    maxDays: 2,
+  });
+  isSavingPreOrder = signal(false);
+  preOrderSaved = signal(false);
+
   // Google Maps
   googleMapsKey = signal('');
   isSavingGoogleMaps = signal(false);
@@ -987,6 +1147,25 @@ export class SettingsComponent implements OnInit {
   isSavingIyzico = signal(false);
   iyzicoSaved = signal(false);
 
+  // Card payment gateway
+  paymentGateway = signal<PaymentGatewayKey>('iyzico');
+  availableGateways = signal<PaymentGatewayKey[]>(['iyzico', 'paytr']);
+  isSavingGateway = signal(false);
+  readonly gatewayLabels: Record<PaymentGatewayKey, string> = {
+    iyzico: 'iyzico',
+    paytr: 'PayTR',
+    fake: 'Test Ödemesi',
+  };
+
+  // PayTR
+  paytrMerchantId = signal('');
+  paytrMerchantKey = signal('');
+  paytrMerchantSalt = signal('');
+  paytrTestMode = signal(true);
+  isSavingPaytr = signal(false);
+  paytrSaved = signal(false);
+  readonly paytrCallbackUrl = `${environment.apiBaseUrl}/payments/callback/paytr`;
+
   // Order Notification Phones
   notifyPhones = signal<string[]>([]);
   isSavingNotifyPhones = signal(false);
@@ -1003,6 +1182,7 @@ export class SettingsComponent implements OnInit {
     wabaId: new FormControl('', { nonNullable: true, validators: [Validators.required] }),
     accessToken: new FormControl('', { nonNullable: true, validators: [Validators.required] }),
     appSecret: new FormControl('', { nonNullable: true, validators: [Validators.required] }),
+    catalogId: new FormControl('', { nonNullable: true }),
   });
 
   ngOnInit() {
@@ -1011,8 +1191,10 @@ export class SettingsComponent implements OnInit {
       this.loadPosConfig();
       this.loadPickupDiscount();
       this.loadWorkingHours();
+      this.loadPreOrder();
       this.loadGoogleMaps();
       this.loadIyzico();
+      this.loadPaymentGateway();
       this.loadNotifyPhones();
       this.loadMenuMedia();
     }
@@ -1029,6 +1211,7 @@ export class SettingsComponent implements OnInit {
             wabaId: res.data.wabaId,
             accessToken: '',
             appSecret: '',
+            catalogId: res.data.catalogId ?? '',
           });
         }
         this.isLoading.set(false);
@@ -1048,7 +1231,7 @@ export class SettingsComponent implements OnInit {
     this.testResult.set(null);
 
     const formValue = this.waForm.getRawValue();
-    this.waConfigService.saveConfig(formValue).subscribe({
+    this.waConfigService.saveConfig({ ...formValue, catalogId: formValue.catalogId.trim() || null }).subscribe({
       next: (res) => {
         if (res.success && res.data) {
           this.waConfig.set(res.data);
@@ -1361,6 +1544,45 @@ export class SettingsComponent implements OnInit {
     });
   }
 
+  // ==================== Pre-orders ====================
+
+  loadPreOrder() {
+    this.http.get<any>(`${environment.apiBaseUrl}/integrations/pre-orders`, { headers: this.authService.getAuthHeaders() }).subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.preOrder.set(res.data);
+        }
+      },
+    });
+  }
+
+  setPreOrder<K extends keyof PreOrderSettings>(field: K, value: PreOrderSettings[K]): void {
+    this.preOrder.update((s) => ({ ...s, [field]: value }));
+  }
+
+  savePreOrder() {
+    this.isSavingPreOrder.set(true);
+    this.preOrderSaved.set(false);
+    this.http.put<any>(
+      `${environment.apiBaseUrl}/integrations/pre-orders`,
+      this.preOrder(),
+      { headers: this.authService.getAuthHeaders() }
+    ).subscribe({
+      next: (res) => {
+        if (res.success) {
+          this.preOrder.set(res.data);
+          this.preOrderSaved.set(true);
+          setTimeout(() => this.preOrderSaved.set(false), 3000);
+        }
+        this.isSavingPreOrder.set(false);
+      },
+      error: (err) => {
+        this.isSavingPreOrder.set(false);
+        this.dialog.error(err.error?.error?.message || 'Ön sipariş ayarları kaydedilemedi');
+      },
+    });
+  }
+
   // ==================== Google Maps ====================
 
   loadGoogleMaps() {
@@ -1425,6 +1647,73 @@ export class SettingsComponent implements OnInit {
     });
   }
 
+  // ==================== Payment Gateway ====================
+
+  loadPaymentGateway() {
+    this.http.get<any>(`${environment.apiBaseUrl}/integrations/payment-gateway`, { headers: this.authService.getAuthHeaders() }).subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.paymentGateway.set(res.data.gateway);
+          this.availableGateways.set(res.data.available);
+          this.paytrMerchantId.set(res.data.paytr.merchantId || '');
+          this.paytrMerchantKey.set(res.data.paytr.merchantKey || '');
+          this.paytrMerchantSalt.set(res.data.paytr.merchantSalt || '');
+          this.paytrTestMode.set(res.data.paytr.testMode);
+        }
+      },
+    });
+  }
+
+  selectGateway(gateway: PaymentGatewayKey) {
+    if (gateway === this.paymentGateway()) return;
+    this.isSavingGateway.set(true);
+    this.http.put<any>(
+      `${environment.apiBaseUrl}/integrations/payment-gateway`,
+      { gateway },
+      { headers: this.authService.getAuthHeaders() }
+    ).subscribe({
+      next: (res) => {
+        if (res.success) {
+          this.paymentGateway.set(gateway);
+          this.dialog.success(`Kart ödemeleri artık ${this.gatewayLabels[gateway]} üzerinden alınacak.`);
+        }
+        this.isSavingGateway.set(false);
+      },
+      error: (err) => {
+        this.isSavingGateway.set(false);
+        this.dialog.error(
+          err.error?.error?.code === 'GATEWAY_NOT_CONFIGURED'
+            ? 'Önce bu sağlayıcının bilgilerini girip kaydedin.'
+            : 'Ödeme sağlayıcısı değiştirilemedi.'
+        );
+      },
+    });
+  }
+
+  savePaytr() {
+    this.isSavingPaytr.set(true);
+    this.paytrSaved.set(false);
+    this.http.put<any>(
+      `${environment.apiBaseUrl}/integrations/paytr`,
+      {
+        merchantId: this.paytrMerchantId(),
+        merchantKey: this.paytrMerchantKey(),
+        merchantSalt: this.paytrMerchantSalt(),
+        testMode: this.paytrTestMode(),
+      },
+      { headers: this.authService.getAuthHeaders() }
+    ).subscribe({
+      next: (res) => {
+        if (res.success) {
+          this.paytrSaved.set(true);
+          setTimeout(() => this.paytrSaved.set(false), 3000);
+        }
+        this.isSavingPaytr.set(false);
+      },
+      error: () => this.isSavingPaytr.set(false),
+    });
+  }
+
   // ==================== Order Notification Phones ====================
 
   loadNotifyPhones() {
@@ -7,6 +7,11 @@ import {
   DeliveryRuleDto,
   CreateStoreDto,
   CreateDeliveryRuleDto,
+  DeliveryZoneDto,
+  ScheduleExceptionDto,
+  ScheduleIntervalDto,
+  StoreLoadDto,
+  WeekdayKey,
 } from '../../services/store.service';
 import { environment } from '../../../environments/environment';
 import { IconComponent } from '../../shared/icon.component';
@@ -36,9 +41,39 @@ import { DialogService } from '../../shared/dialog.service';
                 <span class="open-badge" [class.open]="store.isOpen" [class.closed]="!store.isOpen">
                   {{ store.isOpen ? 'Açık' : 'Kapalı' }}
                 </span>
+                @if (store.weeklySchedule) {
+                  <span class="schedule-badge" title="Çalışma saatlerine göre otomatik açılır/kapanır">Otomatik</span>
+                }
+                @if (loads()[store.id]?.pausedUntil) {
+                  <span class="load-badge paused">Durduruldu</span>
+                } @else if (loads()[store.id]?.isOverCapacity) {
+                  <span class="load-badge">Yoğun</span>
+                }
               </div>
             </div>
 
+            @if (store.weeklySchedule && store.openOverrideUntil) {
+              <p class="override-note">
+                <app-icon name="hourglass" [size]="12"/>
+                Elle {{ store.isOpen ? 'açıldı' : 'kapatıldı' }}, {{ formatDateTime(store.openOverrideUntil) }} itibarıyla plana döner
+              </p>
+            }
+
+            @if (loads()[store.id]; as load) {
+              <p class="load-line" [class.busy]="load.isOverCapacity">
+                <app-icon name="flame" [size]="12"/>
+                {{ load.preparingOrders }}{{ store.maxPreparingOrders ? '/' + store.maxPreparingOrders : '' }} hazırlanıyor ·
+                {{ load.recentItems }}{{ store.maxItemsPer15Min ? '/' + store.maxItemsPer15Min : '' }} ürün (15 dk) ·
+                yeni sipariş ~{{ load.etaMinutes }} dk
+              </p>
+              @if (load.pausedUntil) {
+                <p class="override-note">
+                  <app-icon name="hourglass" [size]="12"/>
+                  {{ formatDateTime(load.pausedUntil) }} itibarıyla tekrar sipariş alır
+                </p>
+              }
+            }
+
             <div class="store-info">
               @if (store.address) {
                 <p class="address"><app-icon name="map-pin" [size]="14"/> {{ store.address }}</p>
@@ -76,8 +111,38 @@ import { DialogService } from '../../shared/dialog.service';
               }
             </div>
 
+            <!-- Delivery Zones -->
+            <div class="delivery-rules">
+              <h4>
+                Teslimat Bölgeleri
+                <button class="add-rule-btn" (click)="openAddZone(store)">+</button>
+              </h4>
+              @if (store.deliveryZones && store.deliveryZones.length > 0) {
+                @for (zone of store.deliveryZones; track zone.id) {
+                  <div class="rule-item" [class.inactive]="!zone.isActive">
+                    <div class="rule-info">
+                      <span class="zone-name" title="Öncelik {{ zone.priority }}"><app-icon name="hexagon" [size]="14"/> {{ zone.name }}</span>
+                      <span class="fee"><app-icon name="car" [size]="14"/> {{ zone.deliveryFee }} TL</span>
+                      <span class="min-basket"><app-icon name="shopping-cart" [size]="14"/> Min: {{ zone.minBasket }} TL</span>
+                      @if (zone.estimatedMinutes) {
+                        <span><app-icon name="clock" [size]="14"/> {{ zone.estimatedMinutes }} dk</span>
+                      }
+                    </div>
+                    <div class="rule-actions">
+                      <button class="edit-btn" (click)="editZone(store, zone)"><app-icon name="edit" [size]="14"/></button>
+                      <button class="delete-btn" (click)="deleteZone(zone)"><app-icon name="trash" [size]="14"/></button>
+                    </div>
+                  </div>
+                }
+              } @else {
+                <p class="no-rules">Bölge çizilmedi, yarıçap kuralları geçerli</p>
+              }
+            </div>
+
             <div class="store-actions">
               <button class="edit-btn" (click)="editStore(store)">Düzenle</button>
+              <button class="edit-btn" (click)="openSchedule(store)">Saatler</button>
+              <button class="edit-btn" (click)="openCapacity(store)">Kapasite</button>
               <button class="open-toggle-btn" [class.is-open]="store.isOpen" (click)="toggleStoreOpen(store)">
                 {{ store.isOpen ? 'Kapat' : 'Aç' }}
               </button>
@@ -98,6 +163,160 @@ import { DialogService } from '../../shared/dialog.service';
         }
       </div>
 
+      <!-- Holidays & special days -->
+      <div class="exceptions-section">
+        <h3><app-icon name="clock" [size]="16"/> Tatiller ve Özel Günler</h3>
+        <p class="section-hint">
+          Bu günlerde haftalık çalışma saatleri yerine buradaki saatler geçerlidir. Saat girilmezse şube bütün gün kapalıdır.
+        </p>
+        @if (exceptions().length > 0) {
+          <div class="exception-list">
+            @for (exception of exceptions(); track exception.id) {
+              <div class="exception-item">
+                <span class="exception-date">{{ formatDate(exception.date) }}</span>
+                <span class="exception-name">{{ exception.name || '-' }}</span>
+                <span class="exception-store">{{ exception.storeName || 'Tüm şubeler' }}</span>
+                <span class="exception-hours" [class.closed]="!exception.intervals">
+                  {{ exception.intervals ? formatIntervals(exception.intervals) : 'Kapalı' }}
+                </span>
+                <button class="delete-btn" (click)="deleteException(exception)"><app-icon name="trash" [size]="14"/></button>
+              </div>
+            }
+          </div>
+        } @else {
+          <p class="no-rules">Yaklaşan tatil veya özel gün yok</p>
+        }
+        <div class="form-row exception-form">
+          <div class="form-group">
+            <label>Tarih</label>
+            <input type="date" [(ngModel)]="exceptionForm.date" />
+          </div>
+          <div class="form-group">
+            <label>Ad</label>
+            <input type="text" [(ngModel)]="exceptionForm.name" placeholder="Ramazan Bayramı" />
+          </div>
+          <div class="form-group">
+            <label>Şube</label>
+            <select [(ngModel)]="exceptionForm.storeId">
+              <option [ngValue]="null">Tüm şubeler</option>
+              @for (store of stores(); track store.id) {
+                <option [ngValue]="store.id">{{ store.name }}</option>
+              }
+            </select>
+          </div>
+          <div class="form-group">
+            <label>Açılış</label>
+            <input type="time" [(ngModel)]="exceptionForm.open" />
+          </div>
+          <div class="form-group">
+            <label>Kapanış</label>
+            <input type="time" [(ngModel)]="exceptionForm.close" />
+          </div>
+          <button class="test-btn" (click)="addException()" [disabled]="!exceptionForm.date">Ekle</button>
+        </div>
+      </div>
+
+      <!-- Weekly Schedule Modal -->
+      @if (scheduleStore(); as store) {
+        <div class="modal-overlay" (click)="closeSchedule()">
+          <div class="modal" (click)="$event.stopPropagation()">
+            <h2>Çalışma Saatleri</h2>
+            <p class="modal-subtitle">{{ store.name }}</p>
+            <div class="form-group checkbox">
+              <label>
+                <input type="checkbox" [(ngModel)]="scheduleEnabled" name="scheduleEnabled" />
+                Şubeyi bu saatlere göre otomatik aç/kapat
+              </label>
+            </div>
+            @if (scheduleEnabled) {
+              <div class="form-group">
+                <label>Saat dilimi</label>
+                <select [(ngModel)]="scheduleTimezone" name="timezone">
+                  @for (zone of timezones; track zone) {
+                    <option [value]="zone">{{ zone }}</option>
+                  }
+                </select>
+              </div>
+              @for (day of weekDays; track day.key) {
+                <div class="schedule-day">
+                  <span class="day-label">{{ day.label }}</span>
+                  <div class="day-intervals">
+                    @for (interval of scheduleDays[day.key]; track $index) {
+                      <div class="interval-row">
+                        <input type="time" [(ngModel)]="interval.open" [name]="day.key + 'open' + $index" />
+                        <span>-</span>
+                        <input type="time" [(ngModel)]="interval.close" [name]="day.key + 'close' + $index" />
+                        <button type="button" class="delete-btn" (click)="removeInterval(day.key, $index)">
+                          <app-icon name="x" [size]="12"/>
+                        </button>
+                      </div>
+                    } @empty {
+                      <span class="day-closed">Kapalı</span>
+                    }
+                  </div>
+                  <button type="button" class="add-rule-btn" (click)="addInterval(day.key)" title="Aralık ekle">+</button>
+                </div>
+              }
+              <p class="section-hint">
+                Öğle/akşam gibi birden çok aralık ekleyebilirsiniz. Kapanış açılıştan önceyse (ör. 18:00 - 02:00)
+                gece yarısını geçer; açılış ve kapanış aynıysa gün boyu açıktır.
+              </p>
+            } @else {
+              <p class="section-hint">Şube yalnızca "Aç/Kapat" düğmesiyle açılıp kapanır.</p>
+            }
+            <div class="modal-actions">
+              <button type="button" class="cancel-btn" (click)="closeSchedule()">İptal</button>
+              <button type="button" class="save-btn" (click)="saveSchedule()" [disabled]="savingSchedule()">Kaydet</button>
+            </div>
+          </div>
+        </div>
+      }
+
+      <!-- Capacity Modal -->
+      @if (capacityStore(); as store) {
+        <div class="modal-overlay" (click)="closeCapacity()">
+          <div class="modal" (click)="$event.stopPropagation()">
+            <h2>Kapasite ve Yoğunluk</h2>
+            <p class="modal-subtitle">{{ store.name }}</p>
+            <div class="form-row">
+              <div class="form-group">
+                <label>Aynı anda hazırlanan sipariş</label>
+                <input type="number" min="1" [(ngModel)]="capacityForm.maxPreparingOrders" name="maxPreparingOrders" placeholder="Sınırsız" />
+              </div>
+              <div class="form-group">
+                <label>15 dakikada ürün</label>
+                <input type="number" min="1" [(ngModel)]="capacityForm.maxItemsPer15Min" name="maxItemsPer15Min" placeholder="Sınırsız" />
+              </div>
+            </div>
+            <div class="form-group checkbox">
+              <label>
+                <input type="checkbox" [(ngModel)]="capacityForm.pauseWhenFull" name="pauseWhenFull" />
+                Kapasite dolunca yeni sipariş alma (kapalıysa müşteriye yalnızca yoğunluk uyarısı gider)
+              </label>
+            </div>
+            <p class="section-hint">
+              Sınır aşıldığında bot, mutfak kuyruğu ve geçmiş hazırlama sürelerine göre hesaplanan tahmini süreyi bildirir.
+            </p>
+            <div class="modal-actions">
+              <button type="button" class="cancel-btn" (click)="closeCapacity()">İptal</button>
+              <button type="button" class="save-btn" (click)="saveCapacity()">Kaydet</button>
+            </div>
+
+            <h3 class="pause-title">Siparişleri Durdur</h3>
+            @if (store.pausedUntil && isFuture(store.pausedUntil)) {
+              <p class="section-hint">{{ formatDateTime(store.pausedUntil) }} saatine kadar yeni sipariş alınmıyor.</p>
+              <button type="button" class="test-btn" (click)="pauseStore(store, null)">Siparişlere Devam Et</button>
+            } @else {
+              <div class="pause-actions">
+                @for (minutes of pauseOptions; track minutes) {
+                  <button type="button" class="edit-btn" (click)="pauseStore(store, minutes)">{{ minutes }} dk</button>
+                }
+              </div>
+            }
+          </div>
+        </div>
+      }
+
       <!-- Add/Edit Store Modal -->
       @if (showAddStore || editingStore()) {
         <div class="modal-overlay" (click)="closeStoreModal()">
@@ -174,6 +393,63 @@ import { DialogService } from '../../shared/dialog.service';
         </div>
       }
 
+      <!-- Add/Edit Delivery Zone Modal -->
+      @if (zoneStore(); as store) {
+        <div class="modal-overlay" (click)="closeZoneModal()">
+          <div class="modal zone-modal" (click)="$event.stopPropagation()">
+            <h2>{{ editingZone() ? 'Bölge Düzenle' : 'Yeni Teslimat Bölgesi' }}</h2>
+            <p class="modal-subtitle">{{ store.name }}</p>
+            <form (ngSubmit)="saveZone()">
+              <div class="form-group">
+                <label>Bölge Adı *</label>
+                <input type="text" [(ngModel)]="zoneForm.name" name="zoneName" placeholder="Moda ve çevresi" required />
+              </div>
+              <div class="form-group">
+                <label>
+                  Alan * <small style="color: var(--color-text-secondary); font-weight: 400;">({{ zoneVertexCount() }} nokta)</small>
+                  <button type="button" class="clear-zone-btn" (click)="clearZonePolygon()">Temizle</button>
+                </label>
+                <div id="zoneMap" class="store-map zone-map"></div>
+                <p class="section-hint">
+                  Köşe eklemek için haritaya tıklayın. Noktaları sürükleyerek düzenleyin, sağ tıklayarak silin.
+                </p>
+              </div>
+              <div class="form-row">
+                <div class="form-group">
+                  <label>Teslimat Ücreti (TL) *</label>
+                  <input type="number" step="0.01" min="0" [(ngModel)]="zoneForm.deliveryFee" name="zoneFee" required />
+                </div>
+                <div class="form-group">
+                  <label>Minimum Sepet (TL) *</label>
+                  <input type="number" step="0.01" min="0" [(ngModel)]="zoneForm.minBasket" name="zoneMinBasket" required />
+                </div>
+              </div>
+              <div class="form-row">
+                <div class="form-group">
+                  <label>Tahmini Süre (dk)</label>
+                  <input type="number" min="1" [(ngModel)]="zoneForm.estimatedMinutes" name="zoneEta" />
+                </div>
+                <div class="form-group">
+                  <label>Öncelik</label>
+                  <input type="number" min="0" [(ngModel)]="zoneForm.priority" name="zonePriority" />
+                </div>
+              </div>
+              <p class="section-hint">Bölgeler çakışırsa önceliği yüksek olan geçerlidir.</p>
+              <div class="form-group checkbox">
+                <label>
+                  <input type="checkbox" [(ngModel)]="zoneForm.isActive" name="zoneActive" />
+                  Aktif
+                </label>
+              </div>
+              <div class="modal-actions">
+                <button type="button" class="cancel-btn" (click)="closeZoneModal()">İptal</button>
+                <button type="submit" class="save-btn" [disabled]="zoneVertexCount() < 3 || !zoneForm.name">Kaydet</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      }
+
       <!-- Geo Check Test Section -->
       <div class="geo-test-section">
         <h3><app-icon name="test-tube" [size]="14"/> Servis Alanı Test</h3>
@@ -197,7 +473,15 @@ import { DialogService } from '../../shared/dialog.service';
             @if (geoTestResult()!.nearestStore) {
               <p>En yakın şube: {{ geoTestResult()!.nearestStore!.name }} ({{ geoTestResult()!.distance }} km)</p>
             }
-            @if (geoTestResult()!.deliveryRule) {
+            @if (geoTestResult()!.deliveryZone) {
+              <p>
+                Bölge: {{ geoTestResult()!.deliveryZone!.name }} | Teslimat ücreti: {{ geoTestResult()!.deliveryZone!.deliveryFee }} TL |
+                Min sepet: {{ geoTestResult()!.deliveryZone!.minBasket }} TL
+                @if (geoTestResult()!.deliveryZone!.estimatedMinutes) {
+                  | Tahmini süre: {{ geoTestResult()!.deliveryZone!.estimatedMinutes }} dk
+                }
+              </p>
+            } @else if (geoTestResult()!.deliveryRule) {
               <p>Teslimat ücreti: {{ geoTestResult()!.deliveryRule!.deliveryFee }} TL | Min sepet: {{ geoTestResult()!.deliveryRule!.minBasket }} TL</p>
             }
           </div>
@@ -398,6 +682,63 @@ import { DialogService } from '../../shared/dialog.service';
       opacity: 1;
     }
 
+    .schedule-badge {
+      padding: 4px 10px;
+      border-radius: 20px;
+      font-size: 0.75rem;
+      font-weight: 600;
+      background: rgba(59, 130, 246, 0.15);
+      color: #3b82f6;
+    }
+
+    .load-badge {
+      padding: 4px 10px;
+      border-radius: 20px;
+      font-size: 0.75rem;
+      font-weight: 600;
+      background: rgba(245, 158, 11, 0.15);
+      color: #f59e0b;
+    }
+
+    .load-badge.paused {
+      background: rgba(239, 68, 68, 0.15);
+      color: #ef4444;
+    }
+
+    .load-line {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      margin: -8px 0 12px;
+      font-size: 0.8rem;
+      color: var(--color-text-secondary);
+    }
+
+    .load-line.busy {
+      color: #f59e0b;
+    }
+
+    .pause-title {
+      margin-top: 24px;
+      font-size: 1rem;
+      font-weight: 600;
+      color: var(--color-text-primary);
+    }
+
+    .pause-actions {
+      display: flex;
+      gap: 8px;
+    }
+
+    .override-note {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      margin: -8px 0 12px;
+      font-size: 0.8rem;
+      color: var(--color-warning);
+    }
+
     .no-rules {
       font-size: 0.85rem;
       color: var(--color-text-secondary);
@@ -584,12 +925,154 @@ import { DialogService } from '../../shared/dialog.service';
       background: var(--color-bg-tertiary);
     }
 
+    .zone-modal {
+      max-width: 640px;
+    }
+
+    .zone-map {
+      height: 360px;
+    }
+
+    .clear-zone-btn {
+      float: right;
+      background: transparent;
+      border: none;
+      color: var(--color-accent-primary);
+      font-size: 0.8rem;
+      cursor: pointer;
+    }
+
     .coords-display {
       margin-top: 8px;
       font-size: 0.85rem;
       color: var(--color-accent-primary);
     }
 
+    /* Schedules */
+    .schedule-day {
+      display: flex;
+      align-items: flex-start;
+      gap: 12px;
+      padding: 8px 0;
+      border-bottom: 1px solid var(--color-border);
+    }
+
+    .day-label {
+      width: 90px;
+      padding-top: 6px;
+      font-size: 0.9rem;
+      font-weight: 500;
+      color: var(--color-text-primary);
+    }
+
+    .day-intervals {
+      flex: 1;
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    .interval-row {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .interval-row input,
+    .exceptions-section select,
+    .modal select {
+      padding: 6px 10px;
+      border-radius: 6px;
+      border: 1px solid var(--color-border);
+      background: var(--color-bg-tertiary);
+      color: var(--color-text-primary);
+    }
+
+    .modal select {
+      width: 100%;
+    }
+
+    .interval-row .delete-btn {
+      padding: 4px 6px;
+      border-radius: 4px;
+      cursor: pointer;
+    }
+
+    .day-closed {
+      padding-top: 6px;
+      font-size: 0.85rem;
+      color: var(--color-text-secondary);
+      font-style: italic;
+    }
+
+    .section-hint {
+      margin: 8px 0 16px;
+      font-size: 0.85rem;
+      color: var(--color-text-secondary);
+    }
+
+    .exceptions-section {
+      margin-top: 32px;
+      padding: 20px;
+      background: var(--color-bg-secondary);
+      border-radius: 12px;
+      border: 1px solid var(--color-border);
+    }
+
+    .exceptions-section h3 {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      color: var(--color-text-primary);
+    }
+
+    .exception-list {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      margin-bottom: 16px;
+    }
+
+    .exception-item {
+      display: flex;
+      align-items: center;
+      gap: 16px;
+      padding: 8px 12px;
+      border-radius: 8px;
+      background: var(--color-bg-tertiary);
+      font-size: 0.9rem;
+    }
+
+    .exception-date {
+      min-width: 90px;
+      font-weight: 600;
+      color: var(--color-text-primary);
+    }
+
+    .exception-name {
+      flex: 1;
+      color: var(--color-text-primary);
+    }
+
+    .exception-store,
+    .exception-hours {
+      color: var(--color-text-secondary);
+    }
+
+    .exception-hours.closed {
+      color: #ef4444;
+    }
+
+    .exception-item .delete-btn {
+      padding: 4px 8px;
+      border-radius: 6px;
+      cursor: pointer;
+    }
+
+    .exception-form {
+      align-items: flex-end;
+    }
+
     /* Geo Test Section */
     .geo-test-section {
       margin-top: 32px;
@@ -663,6 +1146,54 @@ export class StoresComponent implements OnInit, OnDestroy {
   selectedStoreForRule = signal<StoreDto | null>(null);
   ruleForm: CreateDeliveryRuleDto = { storeId: '', radiusKm: 5, minBasket: 50, deliveryFee: 10, isActive: true };
 
+  // Zone form
+  zoneStore = signal<StoreDto | null>(null);
+  editingZone = signal<DeliveryZoneDto | null>(null);
+  zoneVertexCount = signal(0);
+  zoneForm = this.emptyZoneForm();
+  private zoneMap: any = null;
+  private zonePolygon: any = null;
+
+  // Capacity
+  loads = signal<Record<string, StoreLoadDto>>({});
+  capacityStore = signal<StoreDto | null>(null);
+  capacityForm = {
+    maxPreparingOrders: null as number | null,
+    maxItemsPer15Min: null as number | null,
+    pauseWhenFull: false,
+  };
+  pauseOptions = [15, 30, 60];
+  private loadTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Weekly schedule modal
+  scheduleStore = signal<StoreDto | null>(null);
+  savingSchedule = signal(false);
+  scheduleEnabled = false;
+  scheduleTimezone = 'Europe/Istanbul';
+  scheduleDays: Record<WeekdayKey, ScheduleIntervalDto[]> = this.emptyWeek();
+  weekDays: { key: WeekdayKey; label: string }[] = [
+    { key: 'mon', label: 'Pazartesi' },
+    { key: 'tue', label: 'Salı' },
+    { key: 'wed', label: 'Çarşamba' },
+    { key: 'thu', label: 'Perşembe' },
+    { key: 'fri', label: 'Cuma' },
+    { key: 'sat', label: 'Cumartesi' },
+    { key: 'sun', label: 'Pazar' },
+  ];
+  timezones = [
+    'Europe/Istanbul',
+    'Europe/London',
+    'Europe/Berlin',
+    'Europe/Moscow',
+    'Asia/Dubai',
+    'Asia/Riyadh',
+    'Asia/Baku',
+  ];
+
+  // Holidays & special days
+  exceptions = signal<ScheduleExceptionDto[]>([]);
+  exceptionForm = { date: '', name: '', storeId: null as string | null, open: '', close: '' };
+
   // Geo test
   testLat = 41.0082; // Istanbul default
   testLng = 28.9784;
@@ -670,10 +1201,14 @@ export class StoresComponent implements OnInit, OnDestroy {
 
   ngOnInit(): void {
     this.loadStores();
+    this.loadExceptions();
+    this.loadTimer = setInterval(() => this.loadCapacity(), 60_000);
   }
 
   ngOnDestroy(): void {
+    if (this.loadTimer) clearInterval(this.loadTimer);
     this.destroyMap();
+    this.destroyZoneMap();
   }
 
   // ==================== GOOGLE MAPS ====================
@@ -772,6 +1307,17 @@ export class StoresComponent implements OnInit, OnDestroy {
       },
       error: () => this.loading.set(false),
     });
+    this.loadCapacity();
+  }
+
+  loadCapacity(): void {
+    this.storeService.getCapacityStatus().subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.loads.set(Object.fromEntries(res.data.map((load) => [load.storeId, load])));
+        }
+      },
+    });
   }
 
   // ==================== STORE CRUD ====================
@@ -848,6 +1394,179 @@ export class StoresComponent implements OnInit, OnDestroy {
     });
   }
 
+  // ==================== SCHEDULES ====================
+
+  openSchedule(store: StoreDto): void {
+    this.scheduleStore.set(store);
+    this.scheduleEnabled = !!store.weeklySchedule;
+    this.scheduleTimezone = store.timezone;
+    const days = this.emptyWeek();
+    if (store.weeklySchedule) {
+      for (const day of this.weekDays) {
+        days[day.key] = (store.weeklySchedule[day.key] || []).map((i) => ({ ...i }));
+      }
+    } else {
+      // Start from a typical lunch-to-night day so the form is not empty
+      for (const day of this.weekDays) {
+        days[day.key] = [{ open: '10:00', close: '22:00' }];
+      }
+    }
+    this.scheduleDays = days;
+  }
+
+  closeSchedule(): void {
+    this.scheduleStore.set(null);
+  }
+
+  addInterval(day: WeekdayKey): void {
+    const last = this.scheduleDays[day][this.scheduleDays[day].length - 1];
+    this.scheduleDays[day].push(last ? { open: last.close, close: last.close } : { open: '10:00', close: '22:00' });
+  }
+
+  removeInterval(day: WeekdayKey, index: number): void {
+    this.scheduleDays[day].splice(index, 1);
+  }
+
+  saveSchedule(): void {
+    const store = this.scheduleStore();
+    if (!store) return;
+
+    this.savingSchedule.set(true);
+    this.storeService.updateSchedule(store.id, {
+      timezone: this.scheduleTimezone,
+      weeklySchedule: this.scheduleEnabled ? this.scheduleDays : null,
+    }).subscribe({
+      next: () => {
+        this.savingSchedule.set(false);
+        this.closeSchedule();
+        this.loadStores();
+        this.dialog.success('Çalışma saatleri kaydedildi.');
+      },
+      error: (err) => {
+        this.savingSchedule.set(false);
+        this.dialog.error(err?.error?.error?.message || 'Çalışma saatleri kaydedilemedi.');
+      },
+    });
+  }
+
+  loadExceptions(): void {
+    this.storeService.getScheduleExceptions().subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.exceptions.set(res.data);
+        }
+      },
+    });
+  }
+
+  addException(): void {
+    const { date, name, storeId, open, close } = this.exceptionForm;
+    this.storeService.createScheduleException({
+      date,
+      name: name.trim() || undefined,
+      storeId,
+      intervals: open && close ? [{ open, close }] : null,
+    }).subscribe({
+      next: () => {
+        this.exceptionForm = { date: '', name: '', storeId: null, open: '', close: '' };
+        this.loadExceptions();
+        this.loadStores();
+      },
+      error: (err) => this.dialog.error(err?.error?.error?.message || 'Özel gün eklenemedi.'),
+    });
+  }
+
+  async deleteException(exception: ScheduleExceptionDto): Promise<void> {
+    const ok = await this.dialog.confirm(
+      `${this.formatDate(exception.date)} ${exception.name || ''} silinsin mi?`.trim(),
+      { title: 'Özel günü sil', confirmText: 'Sil', variant: 'danger' },
+    );
+    if (!ok) return;
+
+    this.storeService.deleteScheduleException(exception.id).subscribe({
+      next: () => {
+        this.loadExceptions();
+        this.loadStores();
+      },
+      error: (err) => this.dialog.error(err.error?.error?.message || 'Özel gün silinemedi'),
+    });
+  }
+
+  formatIntervals(intervals: ScheduleIntervalDto[]): string {
+    return intervals.map((i) => `${i.open} - ${i.close}`).join(', ');
+  }
+
+  formatDate(date: string): string {
+    const [y, m, d] = date.split('-');
+    return `${d}.${m}.${y}`;
+  }
+
+  formatDateTime(dateStr: string): string {
+    return new Date(dateStr).toLocaleString('tr-TR', {
+      day: '2-digit',
+      month: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  private emptyWeek(): Record<WeekdayKey, ScheduleIntervalDto[]> {
+    return { mon: [], tue: [], wed: [], thu: [], fri: [], sat: [], sun: [] };
+  }
+
+  // ==================== CAPACITY ====================
+
+  openCapacity(store: StoreDto): void {
+    this.capacityForm = {
+      maxPreparingOrders: store.maxPreparingOrders,
+      maxItemsPer15Min: store.maxItemsPer15Min,
+      pauseWhenFull: store.pauseWhenFull,
+    };
+    this.capacityStore.set(store);
+  }
+
+  closeCapacity(): void {
+    this.capacityStore.set(null);
+  }
+
+  saveCapacity(): void {
+    const store = this.capacityStore();
+    if (!store) return;
+
+    this.storeService.updateCapacity(store.id, {
+      maxPreparingOrders: this.capacityForm.maxPreparingOrders || null,
+      maxItemsPer15Min: this.capacityForm.maxItemsPer15Min || null,
+      pauseWhenFull: this.capacityForm.pauseWhenFull,
+    }).subscribe({
+      next: () => {
+        this.closeCapacity();
+        this.loadStores();
+        this.dialog.success('Kapasite ayarları kaydedildi.');
+      },
+      error: (err) => {
+        this.dialog.error(err?.error?.error?.message || 'Kapasite ayarları kaydedilemedi.');
+      },
+    });
+  }
+
+  pauseStore(store: StoreDto, minutes: number | null): void {
+    this.storeService.pauseStore(store.id, minutes).subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.capacityStore.set(res.data);
+        }
+        this.loadStores();
+      },
+      error: (err) => {
+        this.dialog.error(err?.error?.error?.message || 'İşlem başarısız.');
+      },
+    });
+  }
+
+  isFuture(dateStr: string): boolean {
+    return new Date(dateStr).getTime() > Date.now();
+  }
+
   // ==================== RULE CRUD ====================
 
   openAddRule(store: StoreDto): void {
@@ -916,6 +1635,182 @@ export class StoresComponent implements OnInit, OnDestroy {
     });
   }
 
+  // ==================== ZONE CRUD ====================
+
+  openAddZone(store: StoreDto): void {
+    this.zoneForm = this.emptyZoneForm();
+    this.zoneStore.set(store);
+    setTimeout(() => this.initZoneMap(store, null), 50);
+  }
+
+  editZone(store: StoreDto, zone: DeliveryZoneDto): void {
+    this.editingZone.set(zone);
+    this.zoneForm = {
+      name: zone.name,
+      priority: zone.priority,
+      minBasket: zone.minBasket,
+      deliveryFee: zone.deliveryFee,
+      estimatedMinutes: zone.estimatedMinutes,
+      isActive: zone.isActive,
+    };
+    this.zoneStore.set(store);
+    setTimeout(() => this.initZoneMap(store, zone), 50);
+  }
+
+  closeZoneModal(): void {
+    this.destroyZoneMap();
+    this.zoneStore.set(null);
+    this.editingZone.set(null);
+    this.zoneVertexCount.set(0);
+    this.zoneForm = this.emptyZoneForm();
+  }
+
+  clearZonePolygon(): void {
+    this.zonePolygon?.getPath().clear();
+  }
+
+  saveZone(): void {
+    const store = this.zoneStore();
+    if (!store || !this.zonePolygon) return;
+
+    const editing = this.editingZone();
+    const outline: number[][] = this.zonePolygon
+      .getPath()
+      .getArray()
+      .map((point: any) => [point.lng(), point.lat()]);
+    // The editor only draws the outline; keep any holes of an existing zone
+    const polygon = {
+      type: 'Polygon' as const,
+      coordinates: [outline, ...(editing?.polygon.coordinates.slice(1) ?? [])],
+    };
+    const data = {
+      ...this.zoneForm,
+      estimatedMinutes: this.zoneForm.estimatedMinutes || null,
+      polygon,
+    };
+
+    const req$ = editing
+      ? this.storeService.updateDeliveryZone(editing.id, data)
+      : this.storeService.createDeliveryZone({ ...data, storeId: store.id });
+    req$.subscribe({
+      next: () => {
+        this.closeZoneModal();
+        this.loadStores();
+        this.dialog.success(editing ? 'Bölge güncellendi.' : 'Bölge eklendi.');
+      },
+      error: (err) => {
+        this.dialog.error(err?.error?.error?.message || 'Bölge kaydedilemedi.');
+      },
+    });
+  }
+
+  async deleteZone(zone: DeliveryZoneDto): Promise<void> {
+    const ok = await this.dialog.confirm(
+      `"${zone.name}" teslimat bölgesi silinsin mi?`,
+      { title: 'Teslimat bölgesi sil', confirmText: 'Sil', variant: 'danger' },
+    );
+    if (!ok) return;
+
+    this.storeService.deleteDeliveryZone(zone.id).subscribe({
+      next: () => this.loadStores(),
+      error: (err) => {
+        this.dialog.error(err.error?.error?.message || 'Bölge silinemedi');
+      },
+    });
+  }
+
+  private emptyZoneForm() {
+    return {
+      name: '',
+      priority: 0,
+      minBasket: 50,
+      deliveryFee: 10,
+      estimatedMinutes: null as number | null,
+      isActive: true,
+    };
+  }
+
+  /**
+   * Map with the store, its other zones for reference, and an editable
+   * polygon for the zone being drawn
+   */
+  private async initZoneMap(store: StoreDto, zone: DeliveryZoneDto | null): Promise<void> {
+    try {
+      await this.loadGoogleMaps();
+    } catch {
+      console.error('Google Maps API yüklenemedi');
+      return;
+    }
+
+    const mapEl = document.getElementById('zoneMap');
+    if (!mapEl) return;
+
+    const google = (window as any).google;
+    this.zoneMap = new google.maps.Map(mapEl, {
+      center: { lat: store.lat, lng: store.lng },
+      zoom: 13,
+      mapTypeId: 'roadmap',
+      streetViewControl: false,
+      mapTypeControl: false,
+      draggableCursor: 'crosshair',
+    });
+    new google.maps.Marker({ position: { lat: store.lat, lng: store.lng }, map: this.zoneMap });
+
+    const toPath = (ring: number[][]) => ring.map(([lng, lat]) => ({ lat, lng }));
+    for (const other of store.deliveryZones ?? []) {
+      if (other.id === zone?.id) continue;
+      new google.maps.Polygon({
+        map: this.zoneMap,
+        paths: toPath(other.polygon.coordinates[0]),
+        clickable: false,
+        strokeColor: '#9ca3af',
+        strokeWeight: 1,
+        fillColor: '#9ca3af',
+        fillOpacity: 0.15,
+      });
+    }
+
+    // GeoJSON rings repeat the first point at the end; the editor works on open paths
+    const outline = zone ? toPath(zone.polygon.coordinates[0]).slice(0, -1) : [];
+    this.zonePolygon = new google.maps.Polygon({
+      map: this.zoneMap,
+      paths: outline,
+      editable: true,
+      strokeColor: '#3b82f6',
+      strokeWeight: 2,
+      fillColor: '#3b82f6',
+      fillOpacity: 0.2,
+    });
+
+    if (outline.length > 0) {
+      const bounds = new google.maps.LatLngBounds();
+      outline.forEach((point) => bounds.extend(point));
+      this.zoneMap.fitBounds(bounds);
+    }
+
+    const path = this.zonePolygon.getPath();
+    const syncCount = () => this.ngZone.run(() => this.zoneVertexCount.set(path.getLength()));
+    ['insert_at', 'remove_at', 'set_at'].forEach((event) => path.addListener(event, syncCount));
+    syncCount();
+
+    const addVertex = (e: any) => {
+      if (e.vertex == null && e.edge == null) path.push(e.latLng);
+    };
+    this.zoneMap.addListener('click', addVertex);
+    this.zonePolygon.addListener('click', addVertex);
+    this.zonePolygon.addListener('rightclick', (e: any) => {
+      if (e.vertex != null) path.removeAt(e.vertex);
+    });
+  }
+
+  private destroyZoneMap(): void {
+    if (this.zonePolygon) {
+      this.zonePolygon.setMap(null);
+      this.zonePolygon = null;
+    }
+    this.zoneMap = null;
+  }
+
   // ==================== GEO TEST ====================
 
   testGeoCheck(): void {
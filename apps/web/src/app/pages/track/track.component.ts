@@ -0,0 +1,196 @@
+import { Component, OnDestroy, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute } from '@angular/router';
+import { CourierService, DeliveryTrackingDto } from '../../services/courier.service';
+import { IconComponent } from '../../shared/icon.component';
+
+const REFRESH_INTERVAL_MS = 30000;
+
+/** Public page behind the tracking link sent to the customer on WhatsApp */
+@Component({
+  selector: 'app-track',
+  standalone: true,
+  imports: [CommonModule, IconComponent],
+  template: `
+    <div class="track-page">
+      @if (tracking(); as t) {
+        <div class="card">
+          <div class="store">{{ t.storeName }}</div>
+          <h1>Sipariş #{{ t.orderNumber }}</h1>
+
+          @if (t.orderStatus === 'DELIVERED') {
+            <div class="headline success">
+              <app-icon name="check-circle" [size]="22" /> Siparişiniz teslim edildi
+            </div>
+          } @else if (t.deliveryStatus === 'PICKED_UP') {
+            <div class="headline"><app-icon name="bike" [size]="22" /> Siparişiniz yolda</div>
+            @if (t.etaMinutes !== null) {
+              <div class="eta">
+                <span class="eta-value">~{{ t.etaMinutes }}</span>
+                <span class="eta-unit">dakika</span>
+              </div>
+            }
+          } @else {
+            <div class="headline">
+              <app-icon name="hourglass" [size]="22" /> Siparişiniz kuryeye teslim edilmeyi bekliyor
+            </div>
+          }
+
+          <div class="row">
+            <span>Kurye</span>
+            <strong>{{ t.courierName }}</strong>
+          </div>
+          @if (t.courierLocation; as location) {
+            <div class="row">
+              <span>Son konum</span>
+              <a
+                [href]="'https://www.google.com/maps?q=' + location.lat + ',' + location.lng"
+                target="_blank"
+                rel="noopener"
+              >
+                <app-icon name="map-pin" [size]="14" /> {{ formatTime(location.updatedAt) }}
+              </a>
+            </div>
+          }
+          @if (t.pickedUpAt) {
+            <div class="row">
+              <span>Yola çıktı</span>
+              <strong>{{ formatTime(t.pickedUpAt) }}</strong>
+            </div>
+          }
+          @if (t.deliveredAt) {
+            <div class="row">
+              <span>Teslim edildi</span>
+              <strong>{{ formatTime(t.deliveredAt) }}</strong>
+            </div>
+          }
+        </div>
+      } @else if (notFound()) {
+        <div class="card center">
+          <app-icon name="alert-circle" [size]="40" />
+          <p>Takip bağlantısı bulunamadı.</p>
+        </div>
+      } @else {
+        <div class="card center">Yükleniyor...</div>
+      }
+    </div>
+  `,
+  styles: [
+    `
+      .track-page {
+        min-height: 100vh;
+        display: flex;
+        justify-content: center;
+        padding: 24px 16px;
+        background: var(--color-bg-primary);
+        color: var(--color-text-primary);
+      }
+      .card {
+        width: 100%;
+        max-width: 420px;
+        align-self: flex-start;
+        padding: 24px;
+        border-radius: 16px;
+        border: 1px solid var(--color-border);
+        background: var(--color-bg-elevated);
+      }
+      .center {
+        text-align: center;
+        color: var(--color-text-secondary);
+      }
+      .store {
+        color: var(--color-text-secondary);
+        font-size: 0.875rem;
+      }
+      h1 {
+        margin: 4px 0 16px;
+        font-size: 1.5rem;
+      }
+      .headline {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        font-weight: 600;
+        margin-bottom: 16px;
+      }
+      .headline.success {
+        color: #22c55e;
+      }
+      .eta {
+        text-align: center;
+        margin-bottom: 16px;
+      }
+      .eta-value {
+        font-size: 3rem;
+        font-weight: 700;
+      }
+      .eta-unit {
+        margin-left: 6px;
+        color: var(--color-text-secondary);
+      }
+      .row {
+        display: flex;
+        justify-content: space-between;
+        padding: 10px 0;
+        border-top: 1px solid var(--color-border);
+        font-size: 0.9375rem;
+      }
+      .row span {
+        color: var(--color-text-secondary);
+      }
+      .row a {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        color: var(--color-accent-primary, #3b82f6);
+        text-decoration: none;
+      }
+    `,
+  ],
+})
+export class TrackComponent implements OnInit, OnDestroy {
+  private route = inject(ActivatedRoute);
+  private courierService = inject(CourierService);
+
+  tracking = signal<DeliveryTrackingDto | null>(null);
+  notFound = signal(false);
+
+  private token = '';
+  private refreshInterval: ReturnType<typeof setInterval> | null = null;
+
+  ngOnInit(): void {
+    this.token = this.route.snapshot.paramMap.get('token') || '';
+    this.load();
+    this.refreshInterval = setInterval(() => this.load(), REFRESH_INTERVAL_MS);
+  }
+
+  ngOnDestroy(): void {
+    this.stopRefresh();
+  }
+
+  load(): void {
+    this.courierService.getTracking(this.token).subscribe({
+      next: (res) => {
+        if (res.success && res.data) {
+          this.tracking.set(res.data);
+          if (res.data.orderStatus === 'DELIVERED') this.stopRefresh();
+        }
+      },
+      error: (err) => {
+        if (err.status === 404) {
+          this.notFound.set(true);
+          this.stopRefresh();
+        }
+      },
+    });
+  }
+
+  formatTime(dateStr: string): string {
+    return new Date(dateStr).toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' });
+  }
+
+  private stopRefresh(): void {
+    if (this.refreshInterval) clearInterval(this.refreshInterval);
+    this.refreshInterval = null;
+  }
+}
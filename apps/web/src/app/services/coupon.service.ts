@@ -0,0 +1,96 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { ApiResponse } from './store.service';
+
+// ==================== TYPES ====================
+
+export type CouponType = 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_ITEM';
+
+export interface CouponDto {
+  id: string;
+  tenantId: string;
+  code: string;
+  description: string | null;
+  type: CouponType;
+  value: number;
+  freeItemName: string | null;
+  minBasket: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  maxUses: number | null;
+  maxUsesPerCustomer: number | null;
+  storeIds: string[];
+  segments: string[];
+  customerPhone: string | null;
+  campaignSendLogId: string | null;
+  isActive: boolean;
+  redemptionCount: number;
+  totalDiscount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCouponDto {
+  code: string;
+  description?: string | null;
+  type: CouponType;
+  value?: number;
+  freeItemName?: string | null;
+  minBasket?: number | null;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  maxUses?: number | null;
+  maxUsesPerCustomer?: number | null;
+  storeIds?: string[];
+  segments?: string[];
+  isActive?: boolean;
+}
+
+/**
+ * Promo codes customers type on the WhatsApp order summary. Codes minted
+ * for campaign sends are shown on the campaign, not here.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CouponService {
+  private http = inject(HttpClient);
+  private authService = inject(AuthService);
+
+  private get headers() {
+    return { headers: this.authService.getAuthHeaders() };
+  }
+
+  getCoupons(): Observable<ApiResponse<CouponDto[]>> {
+    return this.http.get<ApiResponse<CouponDto[]>>(
+      `${environment.apiBaseUrl}/coupons`,
+      this.headers
+    );
+  }
+
+  createCoupon(data: CreateCouponDto): Observable<ApiResponse<CouponDto>> {
+    return this.http.post<ApiResponse<CouponDto>>(
+      `${environment.apiBaseUrl}/coupons`,
+      data,
+      this.headers
+    );
+  }
+
+  updateCoupon(id: string, data: Partial<CreateCouponDto>): Observable<ApiResponse<CouponDto>> {
+    return this.http.patch<ApiResponse<CouponDto>>(
+      `${environment.apiBaseUrl}/coupons/${id}`,
+      data,
+      this.headers
+    );
+  }
+
+  deleteCoupon(id: string): Observable<ApiResponse<void>> {
+    return this.http.delete<ApiResponse<void>>(
+      `${environment.apiBaseUrl}/coupons/${id}`,
+      this.headers
+    );
+  }
+}
@@ -0,0 +1,178 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { ApiResponse } from './store.service';
+import { DeliveryStatus, OrderStatus } from './order.service';
+
+// ==================== TYPES ====================
+
+export interface CourierDto {
+  id: string;
+  tenantId: string;
+  storeId: string;
+  storeName: string | null;
+  name: string;
+  phone: string | null;
+  isActive: boolean;
+  isOnDuty: boolean;
+  lastLat: number | null;
+  lastLng: number | null;
+  lastLocationAt: string | null;
+  activeDeliveries: number;
+  appUrl: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveCourierDto {
+  storeId?: string;
+  name?: string;
+  phone?: string | null;
+  isActive?: boolean;
+}
+
+export interface GeoLocation {
+  lat: number;
+  lng: number;
+}
+
+export interface CourierDeliveryDto {
+  id: string;
+  status: DeliveryStatus;
+  orderId: string;
+  orderNumber: number | null;
+  orderStatus: OrderStatus;
+  customerName: string | null;
+  customerPhone: string | null;
+  deliveryAddress: string | null;
+  destination: GeoLocation | null;
+  paymentMethod: string | null;
+  totalPrice: number;
+  notes: string | null;
+  items: { name: string; qty: number }[];
+  assignedAt: string;
+  acceptedAt: string | null;
+  pickedUpAt: string | null;
+}
+
+export interface CourierAppDto {
+  courier: {
+    id: string;
+    name: string;
+    storeName: string | null;
+    isOnDuty: boolean;
+  };
+  deliveries: CourierDeliveryDto[];
+}
+
+export interface DeliveryTrackingDto {
+  orderNumber: number | null;
+  storeName: string | null;
+  orderStatus: OrderStatus;
+  deliveryStatus: DeliveryStatus;
+  courierName: string;
+  courierLocation: (GeoLocation & { updatedAt: string }) | null;
+  destination: GeoLocation | null;
+  etaMinutes: number | null;
+  pickedUpAt: string | null;
+  deliveredAt: string | null;
+}
+
+/**
+ * Courier management for the panel, plus the token-based calls used by the
+ * courier app and the public tracking page (no auth headers there).
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CourierService {
+  private http = inject(HttpClient);
+  private authService = inject(AuthService);
+
+  private get headers() {
+    return { headers: this.authService.getAuthHeaders() };
+  }
+
+  // ==================== COURIERS ====================
+
+  getCouriers(storeId?: string): Observable<ApiResponse<CourierDto[]>> {
+    const query = storeId ? `?storeId=${encodeURIComponent(storeId)}` : '';
+    return this.http.get<ApiResponse<CourierDto[]>>(
+      `${environment.apiBaseUrl}/couriers${query}`,
+      this.headers
+    );
+  }
+
+  createCourier(data: SaveCourierDto): Observable<ApiResponse<CourierDto>> {
+    return this.http.post<ApiResponse<CourierDto>>(
+      `${environment.apiBaseUrl}/couriers`,
+      data,
+      this.headers
+    );
+  }
+
+  updateCourier(id: string, data: SaveCourierDto): Observable<ApiResponse<CourierDto>> {
+    return this.http.patch<ApiResponse<CourierDto>>(
+      `${environment.apiBaseUrl}/couriers/${id}`,
+      data,
+      this.headers
+    );
+  }
+
+  regenerateLink(id: string): Observable<ApiResponse<CourierDto>> {
+    return this.http.post<ApiResponse<CourierDto>>(
+      `${environment.apiBaseUrl}/couriers/${id}/regenerate-link`,
+      {},
+      this.headers
+    );
+  }
+
+  deleteCourier(id: string): Observable<ApiResponse<void>> {
+    return this.http.delete<ApiResponse<void>>(
+      `${environment.apiBaseUrl}/couriers/${id}`,
+      this.headers
+    );
+  }
+
+  // ==================== COURIER APP ====================
+
+  getCourierApp(token: string): Observable<ApiResponse<CourierAppDto>> {
+    return this.http.get<ApiResponse<CourierAppDto>>(
+      `${environment.apiBaseUrl}/courier-app/${token}`
+    );
+  }
+
+  setOnDuty(token: string, isOnDuty: boolean): Observable<ApiResponse<void>> {
+    return this.http.put<ApiResponse<void>>(`${environment.apiBaseUrl}/courier-app/${token}/duty`, {
+      isOnDuty,
+    });
+  }
+
+  sendLocation(token: string, location: GeoLocation): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(
+      `${environment.apiBaseUrl}/courier-app/${token}/location`,
+      location
+    );
+  }
+
+  deliveryAction(
+    token: string,
+    deliveryId: string,
+    action: 'accept' | 'pickup' | 'deliver'
+  ): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(
+      `${environment.apiBaseUrl}/courier-app/${token}/deliveries/${deliveryId}/${action}`,
+      {}
+    );
+  }
+
+  // ==================== TRACKING ====================
+
+  getTracking(token: string): Observable<ApiResponse<DeliveryTrackingDto>> {
+    return this.http.get<ApiResponse<DeliveryTrackingDto>>(
+      `${environment.apiBaseUrl}/track/${token}`
+    );
+  }
+}
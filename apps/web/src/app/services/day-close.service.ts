@@ -0,0 +1,123 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { ApiResponse } from './store.service';
+
+// ==================== TYPES ====================
+
+export interface ZReportAmountDto {
+  count: number;
+  amount: number;
+}
+
+export interface ZReportDto {
+  storeId: string;
+  storeName: string;
+  businessDate: string;
+  periodStart: string;
+  periodEnd: string;
+  orderCount: number;
+  grossSales: number;
+  netSales: number;
+  payments: {
+    cash: ZReportAmountDto;
+    cardAtDoor: ZReportAmountDto;
+    online: ZReportAmountDto;
+    other: ZReportAmountDto;
+  };
+  discounts: {
+    pickup: number;
+    item: number;
+    goodwill: number;
+    /** Older reports were closed before coupons existed */
+    coupon?: number;
+    /** Absent on reports closed before the loyalty program */
+    loyalty?: number;
+    total: number;
+  };
+  refunds: ZReportAmountDto;
+  cancellations: ZReportAmountDto;
+  priorDayChanges: {
+    adjustments: ZReportAmountDto;
+    cancellations: ZReportAmountDto;
+  };
+  openOrders: number;
+  pendingOrders: number;
+  expectedCash: number;
+}
+
+export interface DayCloseDto {
+  id: string;
+  storeId: string;
+  storeName: string;
+  businessDate: string;
+  periodStart: string;
+  periodEnd: string;
+  report: ZReportDto;
+  expectedCash: number;
+  countedCash: number;
+  cashVariance: number;
+  note: string | null;
+  closedByName: string | null;
+  changesSinceClose: {
+    adjustments: ZReportAmountDto;
+    cancellations: ZReportAmountDto;
+  };
+  createdAt: string;
+}
+
+export interface CloseDayDto {
+  storeId: string;
+  countedCash: number;
+  note?: string;
+  print?: boolean;
+}
+
+/**
+ * End-of-day close: live Z-report of the open day, closing with the
+ * counted cash and the history of closed days.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DayCloseService {
+  private http = inject(HttpClient);
+  private authService = inject(AuthService);
+
+  private get headers() {
+    return { headers: this.authService.getAuthHeaders() };
+  }
+
+  getPreview(storeId: string): Observable<ApiResponse<ZReportDto>> {
+    return this.http.get<ApiResponse<ZReportDto>>(
+      `${environment.apiBaseUrl}/day-closes/preview?storeId=${encodeURIComponent(storeId)}`,
+      this.headers
+    );
+  }
+
+  getDayCloses(storeId?: string): Observable<ApiResponse<DayCloseDto[]>> {
+    const query = storeId ? `?storeId=${encodeURIComponent(storeId)}` : '';
+    return this.http.get<ApiResponse<DayCloseDto[]>>(
+      `${environment.apiBaseUrl}/day-closes${query}`,
+      this.headers
+    );
+  }
+
+  closeDay(data: CloseDayDto): Observable<ApiResponse<DayCloseDto>> {
+    return this.http.post<ApiResponse<DayCloseDto>>(
+      `${environment.apiBaseUrl}/day-closes`,
+      data,
+      this.headers
+    );
+  }
+
+  reprint(id: string): Observable<ApiResponse<null>> {
+    return this.http.post<ApiResponse<null>>(
+      `${environment.apiBaseUrl}/day-closes/${id}/print`,
+      {},
+      this.headers
+    );
+  }
+}
@@ -9,6 +9,8 @@ import { AuthService } from './auth.service';
 export type ConversationStatus = 'OPEN' | 'PENDING_AGENT' | 'CLOSED';
 export type MessageDirection = 'IN' | 'OUT';
 export type MessageKind = 'TEXT' | 'LOCATION' | 'IMAGE' | 'VOICE' | 'SYSTEM';
+export type MessageDeliveryStatus = 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+export type ConversationLanguage = 'tr' | 'en' | 'ar' | 'de' | 'ru';
 
 export interface ConversationDto {
   id: string;
@@ -22,6 +24,8 @@ export interface ConversationDto {
   unreadCount?: number;
   customerLat?: number | null;
   customerLng?: number | null;
+  language: ConversationLanguage;
+  languageLocked: boolean;
 }
 
 export interface MessageDto {
@@ -36,6 +40,25 @@ export interface MessageDto {
   senderName?: string;
   externalId: string | null;
   createdAt: string;
+  deliveryStatus: MessageDeliveryStatus | null;
+  sentAt?: string | null;
+  deliveredAt?: string | null;
+  readAt?: string | null;
+  failedAt?: string | null;
+  deliveryError?: string | null;
+}
+
+/** Speech-to-text result on a voice message's payloadJson.transcript */
+export interface VoiceTranscriptDto {
+  text: string;
+  confidence: number | null;
+  lowConfidence: boolean;
+  provider: string;
+  language: string | null;
+  transcribedAt: string;
+  correctedText?: string | null;
+  correctedByUserId?: string | null;
+  correctedAt?: string | null;
 }
 
 export interface InboxSummaryDto {
@@ -179,7 +202,7 @@ export class InboxService {
 
   updateConversation(
     id: string,
-    data: { status?: ConversationStatus; customerName?: string }
+    data: { status?: ConversationStatus; customerName?: string; language?: ConversationLanguage | null }
   ): Observable<ApiResponse<ConversationDto>> {
     return this.http.patch<ApiResponse<ConversationDto>>(
       `${environment.apiBaseUrl}/inbox/conversations/${id}`,
@@ -214,6 +237,26 @@ export class InboxService {
     );
   }
 
+  /** Audio/image of an inbound message, proxied from WhatsApp */
+  getMessageMedia(conversationId: string, messageId: string): Observable<Blob> {
+    return this.http.get(
+      `${environment.apiBaseUrl}/inbox/conversations/${conversationId}/messages/${messageId}/media`,
+      { headers: this.authService.getAuthHeaders(), responseType: 'blob' }
+    );
+  }
+
+  correctTranscript(
+    conversationId: string,
+    messageId: string,
+    text: string
+  ): Observable<ApiResponse<MessageDto>> {
+    return this.http.patch<ApiResponse<MessageDto>>(
+      `${environment.apiBaseUrl}/inbox/conversations/${conversationId}/messages/${messageId}/transcript`,
+      { text },
+      this.headers
+    );
+  }
+
   // ==================== ORDER INTENTS ====================
 
   getOrderIntents(conversationId: string): Observable<ApiResponse<OrderIntentDto[]>> {
@@ -0,0 +1,89 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { ApiResponse } from './store.service';
+import { OrderStatus } from './order.service';
+
+// ==================== TYPES ====================
+
+export interface KdsTicketItemDto {
+  id: string;
+  name: string;
+  qty: number;
+  options: string[];
+  notes: string | null;
+  addedAt: string | null;
+  startedAt: string | null;
+  bumpedAt: string | null;
+}
+
+export interface KdsTicketDto {
+  id: string;
+  orderId: string;
+  orderNumber: number | null;
+  orderStatus: OrderStatus;
+  stationId: string | null;
+  stationName: string | null;
+  storeId: string | null;
+  storeName: string | null;
+  customerName: string | null;
+  deliveryType: string | null;
+  notes: string | null;
+  receivedAt: string;
+  bumpedAt: string | null;
+  items: KdsTicketItemDto[];
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class KdsService {
+  private http = inject(HttpClient);
+  private authService = inject(AuthService);
+
+  private get headers() {
+    return { headers: this.authService.getAuthHeaders() };
+  }
+
+  getTickets(stationId?: string | null): Observable<ApiResponse<KdsTicketDto[]>> {
+    const query = stationId ? `?stationId=${stationId}` : '';
+    return this.http.get<ApiResponse<KdsTicketDto[]>>(
+      `${environment.apiBaseUrl}/kds/tickets${query}`,
+      this.headers
+    );
+  }
+
+  startItem(itemId: string): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(
+      `${environment.apiBaseUrl}/kds/items/${itemId}/start`,
+      {},
+      this.headers
+    );
+  }
+
+  bumpItem(itemId: string): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(
+      `${environment.apiBaseUrl}/kds/items/${itemId}/bump`,
+      {},
+      this.headers
+    );
+  }
+
+  bumpTicket(ticket: KdsTicketDto): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(
+      `${environment.apiBaseUrl}/kds/tickets/${ticket.orderId}/bump`,
+      { stationId: ticket.stationId },
+      this.headers
+    );
+  }
+
+  recallTicket(ticket: KdsTicketDto): Observable<ApiResponse<void>> {
+    return this.http.post<ApiResponse<void>>(
+      `${environment.apiBaseUrl}/kds/tickets/${ticket.orderId}/recall`,
+      { stationId: ticket.stationId },
+      this.headers
+    );
+  }
+}
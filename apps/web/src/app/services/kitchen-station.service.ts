@@ -0,0 +1,74 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { ApiResponse } from './store.service';
+
+// ==================== TYPES ====================
+
+export interface KitchenStationDto {
+  id: string;
+  tenantId: string;
+  storeId: string | null;
+  name: string;
+  categories: string[];
+  isActive: boolean;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveKitchenStationDto {
+  name?: string;
+  storeId?: string | null;
+  categories?: string[];
+  isActive?: boolean;
+  sortOrder?: number;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class KitchenStationService {
+  private http = inject(HttpClient);
+  private authService = inject(AuthService);
+
+  private get headers() {
+    return { headers: this.authService.getAuthHeaders() };
+  }
+
+  getStations(includeInactive = false): Observable<ApiResponse<KitchenStationDto[]>> {
+    const query = includeInactive ? '?includeInactive=true' : '';
+    return this.http.get<ApiResponse<KitchenStationDto[]>>(
+      `${environment.apiBaseUrl}/kitchen-stations${query}`,
+      this.headers
+    );
+  }
+
+  createStation(data: SaveKitchenStationDto): Observable<ApiResponse<KitchenStationDto>> {
+    return this.http.post<ApiResponse<KitchenStationDto>>(
+      `${environment.apiBaseUrl}/kitchen-stations`,
+      data,
+      this.headers
+    );
+  }
+
+  updateStation(
+    id: string,
+    data: SaveKitchenStationDto
+  ): Observable<ApiResponse<KitchenStationDto>> {
+    return this.http.patch<ApiResponse<KitchenStationDto>>(
+      `${environment.apiBaseUrl}/kitchen-stations/${id}`,
+      data,
+      this.headers
+    );
+  }
+
+  deleteStation(id: string): Observable<ApiResponse<void>> {
+    return this.http.delete<ApiResponse<void>>(
+      `${environment.apiBaseUrl}/kitchen-stations/${id}`,
+      this.headers
+    );
+  }
+}
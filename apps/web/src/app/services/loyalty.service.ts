@@ -0,0 +1,110 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { ApiResponse } from './store.service';
+
+// ==================== TYPES ====================
+
+export type LoyaltyProgramType = 'POINTS' | 'STAMPS';
+
+export interface LoyaltySettings {
+  isEnabled: boolean;
+  type: LoyaltyProgramType;
+  pointsPerTl: number;
+  pointValue: number;
+  minRedeemPoints: number;
+  stampItemName: string | null;
+  stampsRequired: number;
+}
+
+export interface LoyaltyOverview {
+  settings: LoyaltySettings;
+  memberCount: number;
+  outstandingPoints: number;
+  outstandingStamps: number;
+  redeemedDiscount: number;
+}
+
+export interface LoyaltyMember {
+  customerPhone: string;
+  customerName: string | null;
+  points: number;
+  stamps: number;
+  lastOrderAt: string | null;
+}
+
+export interface LoyaltyTransaction {
+  id: string;
+  customerPhone: string;
+  orderId: string | null;
+  orderNumber: number | null;
+  type: 'EARN' | 'REDEEM' | 'ADJUST';
+  points: number;
+  stamps: number;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface AdjustLoyaltyRequest {
+  customerPhone: string;
+  points?: number;
+  stamps?: number;
+  note: string;
+}
+
+/**
+ * Loyalty program settings, member balances and the points ledger.
+ * Points are earned when an order is delivered and spent in the WhatsApp
+ * order review.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LoyaltyService {
+  private http = inject(HttpClient);
+  private authService = inject(AuthService);
+
+  private get headers() {
+    return { headers: this.authService.getAuthHeaders() };
+  }
+
+  getOverview(): Observable<ApiResponse<LoyaltyOverview>> {
+    return this.http.get<ApiResponse<LoyaltyOverview>>(
+      `${environment.apiBaseUrl}/loyalty`,
+      this.headers
+    );
+  }
+
+  updateSettings(data: Partial<LoyaltySettings>): Observable<ApiResponse<LoyaltySettings>> {
+    return this.http.put<ApiResponse<LoyaltySettings>>(
+      `${environment.apiBaseUrl}/loyalty/settings`,
+      data,
+      this.headers
+    );
+  }
+
+  getMembers(): Observable<ApiResponse<LoyaltyMember[]>> {
+    return this.http.get<ApiResponse<LoyaltyMember[]>>(
+      `${environment.apiBaseUrl}/loyalty/members`,
+      this.headers
+    );
+  }
+
+  getTransactions(customerPhone?: string): Observable<ApiResponse<LoyaltyTransaction[]>> {
+    const query = customerPhone ? `?customerPhone=${encodeURIComponent(customerPhone)}` : '';
+    return this.http.get<ApiResponse<LoyaltyTransaction[]>>(
+      `${environment.apiBaseUrl}/loyalty/transactions${query}`,
+      this.headers
+    );
+  }
+
+  adjust(data: AdjustLoyaltyRequest): Observable<ApiResponse<LoyaltyMember>> {
+    return this.http.post<ApiResponse<LoyaltyMember>>(
+      `${environment.apiBaseUrl}/loyalty/adjustments`,
+      data,
+      this.headers
+    );
+  }
+}
@@ -16,6 +16,9 @@ export interface MenuVersionDto {
 }
 
 export type DiscountType = 'PERCENTAGE' | 'FIXED_AMOUNT';
+export type MenuTranslations = Partial<
+  Record<'en' | 'ar' | 'de' | 'ru', { name?: string; description?: string }>
+>;
 
 export interface MenuItemDto {
   id: string;
@@ -28,6 +31,9 @@ export interface MenuItemDto {
   isActive: boolean;
   isReadyFood: boolean;
   sortOrder: number;
+  translations: MenuTranslations | null;
+  catalogRetailerId: string | null;
+  stationId: string | null;
   optionGroups?: MenuOptionGroupDto[];
   discountType: DiscountType | null;
   discountValue: number | null;
@@ -50,6 +56,9 @@ export interface CreateMenuItemDto {
   discountValue?: number | null;
   discountStartAt?: string | null;
   discountEndAt?: string | null;
+  translations?: MenuTranslations | null;
+  catalogRetailerId?: string | null;
+  stationId?: string | null;
 }
 
 export interface MenuOptionGroupDto {
@@ -124,6 +133,8 @@ export interface CanonicalMenuExport {
       name: string;
       description: string | null;
       basePrice: number;
+      /** basePrice with the item's active discount */
+      effectivePrice: number;
       isActive: boolean;
       optionGroupIds: string[];
     }>;
@@ -15,7 +15,7 @@ export type OrderStatus =
   | 'DELIVERED'
   | 'CANCELLED';
 
-export type PrintJobType = 'KITCHEN' | 'COURIER';
+export type PrintJobType = 'KITCHEN' | 'COURIER' | 'STATION' | 'Z_REPORT';
 export type PrintJobStatus = 'PENDING' | 'PROCESSING' | 'DONE' | 'FAILED';
 
 export interface ApiResponse<T> {
@@ -55,20 +55,95 @@ export interface OrderDto {
   paymentMethod: string | null;
   parentOrderId: string | null;
   rejectionReason: string | null;
+  scheduledFor: string | null;
+  couponCode: string | null;
+  couponDiscount: number;
+  loyaltyPointsUsed: number;
+  loyaltyDiscount: number;
   items: OrderItemDto[];
   createdAt: string;
   updatedAt: string;
+  submittedAt: string | null;
   confirmedAt: string | null;
+  preparingAt: string | null;
+  readyAt: string | null;
+  deliveredAt: string | null;
+  cancelledAt: string | null;
+  allowedTransitions: OrderStatus[];
+  delivery: OrderDeliveryDto | null;
+}
+
+export type DeliveryStatus = 'ASSIGNED' | 'ACCEPTED' | 'PICKED_UP' | 'DELIVERED' | 'CANCELLED';
+
+export interface OrderDeliveryDto {
+  id: string;
+  courierId: string;
+  courierName: string;
+  status: DeliveryStatus;
+  trackingUrl: string;
+  assignedAt: string;
+  acceptedAt: string | null;
+  pickedUpAt: string | null;
+  deliveredAt: string | null;
+}
+
+export type OrderStatusActorType = 'USER' | 'BOT' | 'POS' | 'SYSTEM' | 'COURIER';
+
+export type OrderAdjustmentChangeInput =
+  | { type: 'REMOVE_ITEM'; itemId: string }
+  | { type: 'CHANGE_QTY'; itemId: string; qty: number }
+  | { type: 'REPLACE_ITEM'; itemId: string; menuItemId: string; qty?: number }
+  | { type: 'DISCOUNT'; amount: number };
+
+export interface OrderAdjustmentChangeDto {
+  type: 'REMOVE_ITEM' | 'CHANGE_QTY' | 'REPLACE_ITEM' | 'DISCOUNT';
+  itemName: string | null;
+  fromQty: number | null;
+  toQty: number | null;
+  replacementName: string | null;
+  amount: number;
+}
+
+export interface OrderAdjustmentDto {
+  id: string;
+  orderId: string;
+  actorType: OrderStatusActorType;
+  actorUserId: string | null;
+  actorName: string | null;
+  reason: string | null;
+  changes: OrderAdjustmentChangeDto[];
+  previousTotal: number;
+  newTotal: number;
+  refundAmount: number;
+  refundStatus: 'PENDING' | 'SUCCESS' | 'FAILED' | null;
+  refundError: string | null;
+  createdAt: string;
+}
+
+export interface OrderStatusEventDto {
+  id: string;
+  orderId: string;
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  actorType: OrderStatusActorType;
+  actorUserId: string | null;
+  actorName: string | null;
+  reason: string | null;
+  createdAt: string;
 }
 
 export interface PrintJobPayload {
   orderNumber: number;
   timestamp: string;
+  storeName?: string | null;
+  stationId?: string | null;
+  stationName?: string | null;
   items: {
     name: string;
     qty: number;
     options: string[];
     notes: string | null;
+    station?: string | null;
   }[];
   notes: string | null;
   customerName?: string | null;
@@ -76,17 +151,22 @@ export interface PrintJobPayload {
   deliveryAddress?: string | null;
   paymentMethod?: string | null;
   totalPrice?: number | null;
+  businessDate?: string | null;
+  reportSections?: { title: string; rows: { label: string; value: string }[] }[];
 }
 
 export interface PrintJobDto {
   id: string;
   tenantId: string;
-  orderId: string;
+  orderId: string | null;
+  dayCloseId: string | null;
   type: PrintJobType;
+  stationId: string | null;
   status: PrintJobStatus;
   payloadJson: PrintJobPayload;
   errorMessage: string | null;
   retryCount: number;
+  holdUntil: string | null;
   createdAt: string;
   processedAt: string | null;
 }
@@ -165,6 +245,13 @@ export class OrderService {
     );
   }
 
+  getOrderHistory(id: string): Observable<ApiResponse<OrderStatusEventDto[]>> {
+    return this.http.get<ApiResponse<OrderStatusEventDto[]>>(
+      `${environment.apiBaseUrl}/orders/${id}/history`,
+      this.headers
+    );
+  }
+
   confirmOrder(
     id: string,
     data?: { deliveryAddress?: string; paymentMethod?: string; notes?: string }
@@ -192,6 +279,22 @@ export class OrderService {
     );
   }
 
+  /** Without courierId the nearest available courier is picked */
+  assignCourier(id: string, courierId?: string): Observable<ApiResponse<OrderDeliveryDto>> {
+    return this.http.post<ApiResponse<OrderDeliveryDto>>(
+      `${environment.apiBaseUrl}/orders/${id}/courier`,
+      { courierId },
+      this.headers
+    );
+  }
+
+  unassignCourier(id: string): Observable<ApiResponse<void>> {
+    return this.http.delete<ApiResponse<void>>(
+      `${environment.apiBaseUrl}/orders/${id}/courier`,
+      this.headers
+    );
+  }
+
   reprintOrder(id: string, type: PrintJobType): Observable<ApiResponse<void>> {
     return this.http.post<ApiResponse<void>>(
       `${environment.apiBaseUrl}/orders/${id}/reprint`,
@@ -200,6 +303,27 @@ export class OrderService {
     );
   }
 
+  // ==================== ADJUSTMENTS ====================
+
+  getOrderAdjustments(id: string): Observable<ApiResponse<OrderAdjustmentDto[]>> {
+    return this.http.get<ApiResponse<OrderAdjustmentDto[]>>(
+      `${environment.apiBaseUrl}/orders/${id}/adjustments`,
+      this.headers
+    );
+  }
+
+  /** Card payments get the difference back */
+  adjustOrder(
+    id: string,
+    data: { changes: OrderAdjustmentChangeInput[]; reason?: string; notifyCustomer?: boolean }
+  ): Observable<ApiResponse<OrderDto>> {
+    return this.http.post<ApiResponse<OrderDto>>(
+      `${environment.apiBaseUrl}/orders/${id}/adjustments`,
+      data,
+      this.headers
+    );
+  }
+
   // ==================== CUSTOMER DETAILS ====================
 
   getCustomerDetails(phone: string): Observable<ApiResponse<CustomerDetailDto>> {
@@ -213,12 +337,16 @@ export class OrderService {
 
   getPrintJobs(params?: {
     status?: PrintJobStatus;
+    type?: PrintJobType;
+    stationId?: string;
     orderId?: string;
     limit?: number;
     offset?: number;
   }): Observable<ApiResponse<{ jobs: PrintJobDto[]; total: number }>> {
     const queryParams = new URLSearchParams();
     if (params?.status) queryParams.set('status', params.status);
+    if (params?.type) queryParams.set('type', params.type);
+    if (params?.stationId) queryParams.set('stationId', params.stationId);
     if (params?.orderId) queryParams.set('orderId', params.orderId);
     if (params?.limit) queryParams.set('limit', params.limit.toString());
     if (params?.offset) queryParams.set('offset', params.offset.toString());
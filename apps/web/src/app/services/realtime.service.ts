@@ -0,0 +1,174 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { Observable, Subject, filter } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { DeliveryStatus, OrderStatus } from './order.service';
+
+// ==================== TYPES ====================
+
+export type RealtimeEvent =
+  | {
+      type: 'message.created';
+      conversationId: string;
+      messageId: string;
+      direction: 'IN' | 'OUT';
+    }
+  | { type: 'conversation.phase_changed'; conversationId: string; phase: string }
+  | { type: 'conversation.locked'; conversationId: string; userId: string; userName: string }
+  | { type: 'conversation.unlocked'; conversationId: string; userId: string }
+  | { type: 'order.created'; orderId: string; orderNumber: number | null; status: OrderStatus }
+  | {
+      type: 'order.status_changed';
+      orderId: string;
+      orderNumber: number | null;
+      status: OrderStatus;
+    }
+  | { type: 'order.updated'; orderId: string; orderNumber: number | null }
+  /** New or retried print jobs are pending for the order */
+  | { type: 'print_job.created'; orderId: string | null }
+  | { type: 'delivery.updated'; orderId: string; deliveryId: string; status: DeliveryStatus };
+
+export type RealtimeEventType = RealtimeEvent['type'];
+
+const RETRY_MIN_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+/**
+ * Tenant event stream from GET /events. Connects while at least one page
+ * listens. Pages keep their polling timers but skip ticks while connected(),
+ * so polling is only the fallback when the stream is down.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RealtimeService {
+  private authService = inject(AuthService);
+
+  private events = new Subject<RealtimeEvent>();
+  private reconnects = new Subject<void>();
+  private controller: AbortController | null = null;
+  private listeners = 0;
+
+  connected = signal(false);
+
+  /** Events of the given types */
+  on<T extends RealtimeEventType>(...types: T[]): Observable<Extract<RealtimeEvent, { type: T }>> {
+    return new Observable((subscriber) => {
+      const subscription = this.events
+        .pipe(
+          filter((event): event is Extract<RealtimeEvent, { type: T }> =>
+            types.includes(event.type as T)
+          )
+        )
+        .subscribe(subscriber);
+      this.retain();
+
+      return () => {
+        subscription.unsubscribe();
+        this.release();
+      };
+    });
+  }
+
+  /**
+   * Fires when the stream comes back after a drop. Events sent meanwhile are
+   * lost, so listeners should reload.
+   */
+  get reconnected(): Observable<void> {
+    return this.reconnects.asObservable();
+  }
+
+  private retain(): void {
+    this.listeners++;
+    if (!this.controller) {
+      this.controller = new AbortController();
+      this.run(this.controller.signal);
+    }
+  }
+
+  private release(): void {
+    this.listeners--;
+    if (this.listeners === 0 && this.controller) {
+      this.controller.abort();
+      this.controller = null;
+    }
+  }
+
+  // ==================== STREAM ====================
+
+  private async run(signal: AbortSignal): Promise<void> {
+    let delay = RETRY_MIN_MS;
+    let dropped = false;
+
+    while (!signal.aborted) {
+      try {
+        const response = await fetch(`${environment.apiBaseUrl}/events`, {
+          headers: this.headerRecord(),
+          signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`Event stream failed: ${response.status}`);
+        }
+
+        this.connected.set(true);
+        delay = RETRY_MIN_MS;
+        if (dropped) this.reconnects.next();
+
+        await this.read(response.body);
+      } catch {
+        // Aborted, network error or rejected; retry below
+      }
+
+      this.connected.set(false);
+      dropped = true;
+      if (signal.aborted) break;
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      delay = Math.min(delay * 2, RETRY_MAX_MS);
+    }
+  }
+
+  private async read(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        this.dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  }
+
+  /** One SSE block; only data lines matter since the JSON carries the type */
+  private dispatch(block: string): void {
+    const data = block
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) return;
+
+    try {
+      this.events.next(JSON.parse(data) as RealtimeEvent);
+    } catch {
+      console.error('Invalid realtime event:', data);
+    }
+  }
+
+  private headerRecord(): Record<string, string> {
+    const headers = this.authService.getAuthHeaders();
+    const record: Record<string, string> = {};
+    for (const key of headers.keys()) {
+      record[key] = headers.get(key) ?? '';
+    }
+    return record;
+  }
+}
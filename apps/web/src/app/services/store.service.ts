@@ -23,9 +23,62 @@ export interface StoreDto {
   phone: string | null;
   isActive: boolean;
   isOpen: boolean;
+  timezone: string;
+  weeklySchedule: WeeklyScheduleDto | null;
+  openOverrideUntil: string | null;
+  maxPreparingOrders: number | null;
+  maxItemsPer15Min: number | null;
+  pauseWhenFull: boolean;
+  pausedUntil: string | null;
   createdAt: string;
   updatedAt: string;
   deliveryRules?: DeliveryRuleDto[];
+  deliveryZones?: DeliveryZoneDto[];
+}
+
+export type WeekdayKey = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface ScheduleIntervalDto {
+  open: string;
+  close: string;
+}
+
+export type WeeklyScheduleDto = Partial<Record<WeekdayKey, ScheduleIntervalDto[]>>;
+
+export interface ScheduleExceptionDto {
+  id: string;
+  tenantId: string;
+  storeId: string | null;
+  storeName: string | null;
+  date: string;
+  name: string | null;
+  intervals: ScheduleIntervalDto[] | null;
+  createdAt: string;
+}
+
+export interface CreateScheduleExceptionDto {
+  storeId?: string | null;
+  date: string;
+  name?: string;
+  intervals?: ScheduleIntervalDto[] | null;
+}
+
+export interface UpdateStoreCapacityDto {
+  maxPreparingOrders?: number | null;
+  maxItemsPer15Min?: number | null;
+  pauseWhenFull?: boolean;
+}
+
+export interface StoreLoadDto {
+  storeId: string;
+  storeName: string;
+  preparingOrders: number;
+  queuedOrders: number;
+  recentItems: number;
+  isOverCapacity: boolean;
+  pausedUntil: string | null;
+  prepMinutes: number;
+  etaMinutes: number;
 }
 
 export interface CreateStoreDto {
@@ -74,11 +127,45 @@ export interface UpdateDeliveryRuleDto {
   isActive?: boolean;
 }
 
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: number[][][]; // [[[lng, lat], ...]]
+}
+
+export interface DeliveryZoneDto {
+  id: string;
+  tenantId: string;
+  storeId: string;
+  name: string;
+  polygon: GeoJsonPolygon;
+  priority: number;
+  minBasket: number;
+  deliveryFee: number;
+  estimatedMinutes: number | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateDeliveryZoneDto {
+  storeId: string;
+  name: string;
+  polygon: GeoJsonPolygon;
+  priority?: number;
+  minBasket: number;
+  deliveryFee: number;
+  estimatedMinutes?: number | null;
+  isActive?: boolean;
+}
+
+export type UpdateDeliveryZoneDto = Partial<Omit<CreateDeliveryZoneDto, 'storeId'>>;
+
 export interface GeoCheckResult {
   isWithinServiceArea: boolean;
   nearestStore: StoreDto | null;
   distance: number | null;
   deliveryRule: DeliveryRuleDto | null;
+  deliveryZone?: DeliveryZoneDto | null;
   alternativeStores: { store: StoreDto; distance: number }[];
   message: string;
 }
@@ -142,6 +229,67 @@ export class StoreService {
     );
   }
 
+  // ==================== SCHEDULES ====================
+
+  updateSchedule(
+    id: string,
+    data: { timezone: string; weeklySchedule: WeeklyScheduleDto | null }
+  ): Observable<ApiResponse<StoreDto>> {
+    return this.http.put<ApiResponse<StoreDto>>(
+      `${environment.apiBaseUrl}/stores/${id}/schedule`,
+      data,
+      this.headers
+    );
+  }
+
+  getScheduleExceptions(storeId?: string): Observable<ApiResponse<ScheduleExceptionDto[]>> {
+    const query = storeId ? `?storeId=${storeId}` : '';
+    return this.http.get<ApiResponse<ScheduleExceptionDto[]>>(
+      `${environment.apiBaseUrl}/stores/schedule-exceptions/list${query}`,
+      this.headers
+    );
+  }
+
+  createScheduleException(data: CreateScheduleExceptionDto): Observable<ApiResponse<ScheduleExceptionDto>> {
+    return this.http.post<ApiResponse<ScheduleExceptionDto>>(
+      `${environment.apiBaseUrl}/stores/schedule-exceptions`,
+      data,
+      this.headers
+    );
+  }
+
+  deleteScheduleException(id: string): Observable<ApiResponse<void>> {
+    return this.http.delete<ApiResponse<void>>(
+      `${environment.apiBaseUrl}/stores/schedule-exceptions/${id}`,
+      this.headers
+    );
+  }
+
+  // ==================== CAPACITY ====================
+
+  getCapacityStatus(): Observable<ApiResponse<StoreLoadDto[]>> {
+    return this.http.get<ApiResponse<StoreLoadDto[]>>(
+      `${environment.apiBaseUrl}/stores/capacity/status`,
+      this.headers
+    );
+  }
+
+  updateCapacity(id: string, data: UpdateStoreCapacityDto): Observable<ApiResponse<StoreDto>> {
+    return this.http.put<ApiResponse<StoreDto>>(
+      `${environment.apiBaseUrl}/stores/${id}/capacity`,
+      data,
+      this.headers
+    );
+  }
+
+  pauseStore(id: string, minutes: number | null): Observable<ApiResponse<StoreDto>> {
+    return this.http.put<ApiResponse<StoreDto>>(
+      `${environment.apiBaseUrl}/stores/${id}/pause`,
+      { minutes },
+      this.headers
+    );
+  }
+
   // ==================== DELIVERY RULES ====================
 
   getDeliveryRules(storeId?: string): Observable<ApiResponse<DeliveryRuleDto[]>> {
@@ -175,6 +323,39 @@ export class StoreService {
     );
   }
 
+  // ==================== DELIVERY ZONES ====================
+
+  getDeliveryZones(storeId?: string): Observable<ApiResponse<DeliveryZoneDto[]>> {
+    const query = storeId ? `?storeId=${storeId}` : '';
+    return this.http.get<ApiResponse<DeliveryZoneDto[]>>(
+      `${environment.apiBaseUrl}/stores/delivery-zones/list${query}`,
+      this.headers
+    );
+  }
+
+  createDeliveryZone(data: CreateDeliveryZoneDto): Observable<ApiResponse<DeliveryZoneDto>> {
+    return this.http.post<ApiResponse<DeliveryZoneDto>>(
+      `${environment.apiBaseUrl}/stores/delivery-zones`,
+      data,
+      this.headers
+    );
+  }
+
+  updateDeliveryZone(id: string, data: UpdateDeliveryZoneDto): Observable<ApiResponse<DeliveryZoneDto>> {
+    return this.http.patch<ApiResponse<DeliveryZoneDto>>(
+      `${environment.apiBaseUrl}/stores/delivery-zones/${id}`,
+      data,
+      this.headers
+    );
+  }
+
+  deleteDeliveryZone(id: string): Observable<ApiResponse<void>> {
+    return this.http.delete<ApiResponse<void>>(
+      `${environment.apiBaseUrl}/stores/delivery-zones/${id}`,
+      this.headers
+    );
+  }
+
   // ==================== GEO CHECK ====================
 
   checkServiceArea(lat: number, lng: number): Observable<ApiResponse<GeoCheckResult>> {
@@ -21,6 +21,7 @@ export interface WhatsAppConfigDto {
   appSecretMasked: string;
   webhookVerifyToken: string;
   webhookUrl: string;
+  catalogId: string | null;
   connectionStatus: WhatsAppConnectionStatus;
   statusMessage: string | null;
   lastVerifiedAt: string | null;
@@ -33,6 +34,7 @@ export interface UpsertWhatsAppConfigDto {
   wabaId: string;
   accessToken: string;
   appSecret: string;
+  catalogId?: string | null;
 }
 
 export interface WhatsAppTestConnectionDto {
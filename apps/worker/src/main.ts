@@ -1,8 +1,14 @@
 import { getConfig } from '@whatres/config';
-import { broadcastService } from '../../api/src/services/broadcast.service';
-import { inactivityTimeoutService } from '../../api/src/services/inactivity-timeout.service';
-import { billingService } from '../../api/src/services/billing.service';
-import prisma from '../../api/src/db/prisma';
+import {
+  billingService,
+  broadcastService,
+  inactivityTimeoutService,
+  inboundQueueService,
+  printJobService,
+  prisma,
+  realtimeService,
+  storeScheduleService,
+} from '../../api/src/jobs';
 
 const config = getConfig();
 
@@ -81,7 +87,66 @@ async function processSubscriptionLifecycle() {
   }
 }
 
+// Inbound message queue sweep: runs every 15 seconds
+// Picks up retries and jobs orphaned by a crashed API process
+const INBOUND_SWEEP_INTERVAL_MS = 15_000;
+const INBOUND_PURGE_INTERVAL_MS = 6 * 60 * 60_000;
+
+async function sweepInboundQueue() {
+  try {
+    await inboundQueueService.recoverStale();
+    const result = await inboundQueueService.drain();
+    if (result.processed > 0 || result.failed > 0) {
+      console.log(`Inbound queue: ${result.processed} processed, ${result.failed} failed`);
+    }
+  } catch (err) {
+    console.error('Inbound queue sweep error:', err);
+  }
+}
+
+async function purgeInboundQueue() {
+  try {
+    const purged = await inboundQueueService.purgeCompleted();
+    if (purged > 0) {
+      console.log(`Inbound queue: ${purged} completed jobs purged`);
+    }
+  } catch (err) {
+    console.error('Inbound queue purge error:', err);
+  }
+}
+
+// Held pre-order print jobs: runs every 30 seconds
+const PRINT_HOLD_INTERVAL_MS = 30_000;
+
+async function releaseHeldPrintJobs() {
+  try {
+    const released = await printJobService.releaseHeldJobs();
+    if (released > 0) {
+      console.log(`Print jobs: ${released} held pre-order jobs released`);
+    }
+  } catch (err) {
+    console.error('Print job release error:', err);
+  }
+}
+
+// Store opening schedules: runs every 60 seconds
+const STORE_SCHEDULE_INTERVAL_MS = 60_000;
+
+async function syncStoreSchedules() {
+  try {
+    const result = await storeScheduleService.syncOpenStates();
+    if (result.opened > 0 || result.closed > 0) {
+      console.log(`Store schedules: ${result.opened} opened, ${result.closed} closed`);
+    }
+  } catch (err) {
+    console.error('Store schedule sync error:', err);
+  }
+}
+
 async function main() {
+  // Events published here reach the API's SSE clients through Redis
+  await realtimeService.start();
+
   console.log('Worker is ready');
 
   // Start background loops
@@ -89,19 +154,23 @@ async function main() {
   setInterval(syncProfiles, SYNC_INTERVAL_MS);
   setInterval(processInactivityTimeouts, INACTIVITY_CHECK_INTERVAL_MS);
   setInterval(processSubscriptionLifecycle, SUBSCRIPTION_CHECK_INTERVAL_MS);
+  setInterval(sweepInboundQueue, INBOUND_SWEEP_INTERVAL_MS);
+  setInterval(purgeInboundQueue, INBOUND_PURGE_INTERVAL_MS);
+  setInterval(releaseHeldPrintJobs, PRINT_HOLD_INTERVAL_MS);
+  setInterval(syncStoreSchedules, STORE_SCHEDULE_INTERVAL_MS);
 
   // Run initial sync after 10 seconds
   setTimeout(syncProfiles, 10_000);
 
-  process.on('SIGTERM', () => {
+  const shutdown = async () => {
     console.log('Worker shutting down...');
+    await realtimeService.stop();
+    await prisma.$disconnect();
     process.exit(0);
-  });
+  };
 
-  process.on('SIGINT', () => {
-    console.log('Worker shutting down...');
-    process.exit(0);
-  });
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
 }
 
 main().catch((error) => {
@@ -64,6 +64,22 @@ export function getConfig(): AppConfig {
       apiBaseUrl: env.WHATSAPP_API_BASE_URL,
       appBaseUrl: env.APP_BASE_URL,
     },
+    inbound: {
+      debounceMs: env.INBOUND_DEBOUNCE_MS,
+    },
+    vision: {
+      provider: env.VISION_PROVIDER,
+      model: env.VISION_MODEL,
+      tesseractPath: env.TESSERACT_PATH,
+      tesseractLangs: env.TESSERACT_LANGS,
+    },
+    stt: {
+      provider: env.STT_PROVIDER,
+      baseUrl: env.STT_BASE_URL,
+      model: env.STT_MODEL,
+      language: env.STT_LANGUAGE,
+      minConfidence: env.STT_MIN_CONFIDENCE,
+    },
   };
 
   return cachedConfig;
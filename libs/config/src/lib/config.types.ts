@@ -45,6 +45,25 @@ export interface WhatsAppGlobalConfig {
   appBaseUrl: string;
 }
 
+export interface InboundConfig {
+  debounceMs: number;
+}
+
+export interface VisionConfig {
+  provider: 'openai' | 'tesseract' | 'none' | undefined;
+  model: string;
+  tesseractPath: string;
+  tesseractLangs: string;
+}
+
+export interface SttConfig {
+  provider: 'openai' | 'local' | 'none' | undefined;
+  baseUrl: string | undefined;
+  model: string;
+  language: string;
+  minConfidence: number;
+}
+
 export interface AppConfig {
   server: ServerConfig;
   database: DatabaseConfig;
@@ -54,5 +73,8 @@ export interface AppConfig {
   openai: OpenAIConfig;
   encryption: EncryptionConfig;
   whatsapp: WhatsAppGlobalConfig;
+  inbound: InboundConfig;
+  vision: VisionConfig;
+  stt: SttConfig;
 }
 
@@ -74,6 +74,30 @@ export const envSchema = z.object({
 
   // App
   APP_BASE_URL: z.string().default('http://localhost:3000'),
+  WEB_BASE_URL: z.string().default('http://localhost:4200'),
+
+  // Inbound message processing — quiet period (ms) used to merge bursts of
+  // text fragments into one NLU call. 0 disables merging.
+  INBOUND_DEBOUNCE_MS: z.string().transform(Number).default('0'),
+
+  // Image messages (order screenshots, handwritten lists) — text extraction
+  // provider. Unset = openai when OPENAI_API_KEY is set, otherwise none.
+  // tesseract runs the local OCR binary (no API key needed).
+  VISION_PROVIDER: z.enum(['openai', 'tesseract', 'none']).optional(),
+  VISION_MODEL: z.string().default('gpt-4o-mini'),
+  TESSERACT_PATH: z.string().default('tesseract'),
+  TESSERACT_LANGS: z.string().default('tur+eng'),
+
+  // Voice messages — speech-to-text provider. Unset = local when
+  // STT_BASE_URL is set, openai when OPENAI_API_KEY is set, otherwise none.
+  // local talks to a self-hosted whisper.cpp server (POST <url>/inference).
+  STT_PROVIDER: z.enum(['openai', 'local', 'none']).optional(),
+  STT_BASE_URL: z.string().optional(),
+  STT_MODEL: z.string().default('whisper-1'),
+  // Language hint; empty = let the model detect it
+  STT_LANGUAGE: z.string().default('tr'),
+  // Transcripts below this confidence (0-1) are echoed back to the customer
+  STT_MIN_CONFIDENCE: z.string().transform(Number).default('0.6'),
 });
 
 export type EnvSchema = z.infer<typeof envSchema>;
@@ -6,10 +6,18 @@ export * from './lib/dto/menu.dto';
 export * from './lib/dto/inbox.dto';
 export * from './lib/dto/order.dto';
 export * from './lib/dto/store.dto';
+export * from './lib/dto/kitchen-station.dto';
+export * from './lib/dto/kds.dto';
+export * from './lib/dto/courier.dto';
+export * from './lib/dto/realtime.dto';
 export * from './lib/dto/billing.dto';
 export * from './lib/dto/payment.dto';
 export * from './lib/dto/whatsapp-config.dto';
 export * from './lib/dto/menu-media.dto';
+export * from './lib/dto/message-template.dto';
+export * from './lib/dto/bot-copy.dto';
+export * from './lib/dto/coupon.dto';
+export * from './lib/dto/loyalty.dto';
 
 // Types
 export * from './lib/types/common.types';
@@ -0,0 +1,33 @@
+import { SupportedLanguage } from '../types/common.types';
+
+export type BotCopyKind = 'TEXT' | 'FUNCTION';
+
+export interface BotCopyOverrideDto {
+  id: string;
+  key: string;
+  language: SupportedLanguage;
+  body: string;
+  version: number;
+  isActive: boolean;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface BotCopyEntryDto {
+  key: string;
+  kind: BotCopyKind;
+  /** Names usable as {placeholder}; {default} is always available */
+  placeholders: string[];
+  /** Built-in text rendered with sample order data */
+  defaultText: string;
+  override: BotCopyOverrideDto | null;
+}
+
+export interface UpsertBotCopyOverrideDto {
+  language: SupportedLanguage;
+  body: string;
+}
+
+export interface BotCopyPreviewDto {
+  text: string;
+}
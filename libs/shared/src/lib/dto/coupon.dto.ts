@@ -0,0 +1,52 @@
+// ==================== COUPONS ====================
+
+export type CouponType = 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_ITEM';
+
+export interface CouponDto {
+  id: string;
+  tenantId: string;
+  code: string;
+  description: string | null;
+  type: CouponType;
+  /** Percent for PERCENTAGE, TL for FIXED_AMOUNT, 0 for FREE_ITEM */
+  value: number;
+  /** FREE_ITEM: one unit of this item is free */
+  freeItemName: string | null;
+  minBasket: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  /** Across all customers, null = unlimited */
+  maxUses: number | null;
+  maxUsesPerCustomer: number | null;
+  /** Empty = every store */
+  storeIds: string[];
+  /** CustomerSegment subset, empty = every customer */
+  segments: string[];
+  /** Set on codes minted for a single campaign recipient */
+  customerPhone: string | null;
+  campaignSendLogId: string | null;
+  isActive: boolean;
+  /** Submitted, not cancelled orders carrying the code */
+  redemptionCount: number;
+  totalDiscount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCouponDto {
+  code: string;
+  description?: string | null;
+  type: CouponType;
+  value?: number;
+  freeItemName?: string | null;
+  minBasket?: number | null;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  maxUses?: number | null;
+  maxUsesPerCustomer?: number | null;
+  storeIds?: string[];
+  segments?: string[];
+  isActive?: boolean;
+}
+
+export type UpdateCouponDto = Partial<CreateCouponDto>;
@@ -0,0 +1,108 @@
+import { OrderStatus } from './order.dto';
+import { GeoLocation } from './store.dto';
+
+// ==================== COURIERS ====================
+
+export interface CourierDto {
+  id: string;
+  tenantId: string;
+  storeId: string;
+  storeName: string | null;
+  name: string;
+  phone: string | null;
+  isActive: boolean;
+  isOnDuty: boolean;
+  lastLat: number | null;
+  lastLng: number | null;
+  lastLocationAt: string | null;
+  /** Deliveries the courier has not finished yet */
+  activeDeliveries: number;
+  /** Personal courier app link; anyone with it acts as this courier */
+  appUrl: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateCourierDto {
+  storeId: string;
+  name: string;
+  phone?: string | null;
+  isActive?: boolean;
+}
+
+export interface UpdateCourierDto {
+  storeId?: string;
+  name?: string;
+  phone?: string | null;
+  isActive?: boolean;
+}
+
+// ==================== DELIVERIES ====================
+
+export type DeliveryStatus = 'ASSIGNED' | 'ACCEPTED' | 'PICKED_UP' | 'DELIVERED' | 'CANCELLED';
+
+/** Courier run shown on the order */
+export interface OrderDeliveryDto {
+  id: string;
+  courierId: string;
+  courierName: string;
+  status: DeliveryStatus;
+  trackingUrl: string;
+  assignedAt: string;
+  acceptedAt: string | null;
+  pickedUpAt: string | null;
+  deliveredAt: string | null;
+}
+
+/** Omit courierId to pick the nearest available courier of the order's store */
+export interface AssignCourierDto {
+  courierId?: string;
+}
+
+// ==================== COURIER APP ====================
+
+export interface CourierDeliveryDto {
+  id: string;
+  status: DeliveryStatus;
+  orderId: string;
+  orderNumber: number | null;
+  orderStatus: OrderStatus;
+  customerName: string | null;
+  customerPhone: string | null;
+  deliveryAddress: string | null;
+  destination: GeoLocation | null;
+  paymentMethod: string | null;
+  totalPrice: number;
+  notes: string | null;
+  items: { name: string; qty: number }[];
+  assignedAt: string;
+  acceptedAt: string | null;
+  pickedUpAt: string | null;
+}
+
+export interface CourierAppDto {
+  courier: {
+    id: string;
+    name: string;
+    storeName: string | null;
+    isOnDuty: boolean;
+  };
+  deliveries: CourierDeliveryDto[];
+}
+
+// ==================== TRACKING ====================
+
+/** Public tracking page; no customer details beyond the order number */
+export interface DeliveryTrackingDto {
+  orderNumber: number | null;
+  storeName: string | null;
+  orderStatus: OrderStatus;
+  deliveryStatus: DeliveryStatus;
+  courierName: string;
+  courierLocation: (GeoLocation & { updatedAt: string }) | null;
+  destination: GeoLocation | null;
+  /** Minutes until arrival while the courier is on the way */
+  etaMinutes: number | null;
+  pickedUpAt: string | null;
+  deliveredAt: string | null;
+}
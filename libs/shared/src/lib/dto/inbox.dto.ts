@@ -1,3 +1,5 @@
+import { SupportedLanguage } from '../types/common.types';
+
 // ==================== CONVERSATION ====================
 
 export type ConversationStatus = 'OPEN' | 'PENDING_AGENT' | 'CLOSED';
@@ -34,6 +36,10 @@ export interface ConversationDto {
   customerLng?: number | null;
   isWithinService?: boolean | null;
   nearestStoreId?: string | null;
+  /** Language the bot replies in */
+  language: SupportedLanguage;
+  /** True when set manually in the inbox (automatic detection is skipped) */
+  languageLocked: boolean;
 }
 
 export interface ConversationListQueryDto {
@@ -46,12 +52,15 @@ export interface ConversationListQueryDto {
 export interface UpdateConversationDto {
   status?: ConversationStatus;
   customerName?: string;
+  /** Manual language override; null returns to automatic detection */
+  language?: SupportedLanguage | null;
 }
 
 // ==================== MESSAGE ====================
 
 export type MessageDirection = 'IN' | 'OUT';
 export type MessageKind = 'TEXT' | 'LOCATION' | 'IMAGE' | 'VOICE' | 'SYSTEM';
+export type MessageDeliveryStatus = 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
 
 export interface MessageDto {
   id: string;
@@ -65,6 +74,29 @@ export interface MessageDto {
   senderName?: string;
   externalId: string | null;
   createdAt: string;
+  // Outbound delivery receipts (null for inbound / not yet sent)
+  deliveryStatus: MessageDeliveryStatus | null;
+  sentAt?: string | null;
+  deliveredAt?: string | null;
+  readAt?: string | null;
+  failedAt?: string | null;
+  deliveryError?: string | null;
+}
+
+/** Speech-to-text result, stored on a voice message as payloadJson.transcript */
+export interface VoiceTranscriptDto {
+  text: string;
+  /** 0-1; null when the provider reports no scores */
+  confidence: number | null;
+  /** Below STT_MIN_CONFIDENCE; the transcript was echoed back to the customer */
+  lowConfidence: boolean;
+  provider: string;
+  language: string | null;
+  transcribedAt: string;
+  // Agent correction of a misheard transcript
+  correctedText?: string | null;
+  correctedByUserId?: string | null;
+  correctedAt?: string | null;
 }
 
 export interface CreateMessageDto {
@@ -83,7 +115,7 @@ export interface WhatsAppWebhookPayload {
   messageId?: string;
   from: string;
   fromName?: string;
-  type: 'text' | 'location' | 'image' | 'voice' | 'interactive' | 'button';
+  type: 'text' | 'location' | 'image' | 'voice' | 'interactive' | 'button' | 'order';
   timestamp?: string;
   text?: {
     body: string;
@@ -117,10 +149,33 @@ export interface WhatsAppWebhookPayload {
       description?: string;
     };
   };
+  /** Cart sent from a Meta catalog / product list message */
+  order?: {
+    catalogId: string;
+    text?: string;
+    productItems: Array<{
+      productRetailerId: string;
+      quantity: number;
+      itemPrice?: number;
+      currency?: string;
+    }>;
+  };
   // Raw payload for debugging
   raw?: unknown;
 }
 
+/**
+ * Delivery receipt from a provider status callback (Meta `statuses[]`)
+ */
+export interface WhatsAppStatusUpdate {
+  externalId: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  timestamp: Date;
+  recipientId?: string;
+  errorCode?: string;
+  errorTitle?: string;
+}
+
 export interface WhatsAppSendDto {
   conversationId: string;
   text: string;
@@ -0,0 +1,43 @@
+import { OrderStatus } from './order.dto';
+
+// ==================== KITCHEN DISPLAY ====================
+
+export interface KdsTicketItemDto {
+  id: string;
+  name: string;
+  qty: number;
+  options: string[];
+  notes: string | null;
+  /** Set for items added to the order after confirmation */
+  addedAt: string | null;
+  startedAt: string | null;
+  bumpedAt: string | null;
+}
+
+/**
+ * One card on the KDS board: the items of an order that a single station
+ * prepares. stationId is null for items no station claims (or when the
+ * tenant has no stations).
+ */
+export interface KdsTicketDto {
+  id: string;
+  orderId: string;
+  orderNumber: number | null;
+  orderStatus: OrderStatus;
+  stationId: string | null;
+  stationName: string | null;
+  storeId: string | null;
+  storeName: string | null;
+  customerName: string | null;
+  deliveryType: string | null;
+  notes: string | null;
+  /** When the ticket reached the kitchen (order confirmation) */
+  receivedAt: string;
+  /** Set once every item on the ticket is bumped */
+  bumpedAt: string | null;
+  items: KdsTicketItemDto[];
+}
+
+export interface KdsTicketActionDto {
+  stationId: string | null;
+}
@@ -0,0 +1,29 @@
+// ==================== KITCHEN STATIONS ====================
+
+export interface KitchenStationDto {
+  id: string;
+  tenantId: string;
+  storeId: string | null;
+  name: string;
+  categories: string[];
+  isActive: boolean;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateKitchenStationDto {
+  name: string;
+  storeId?: string | null;
+  categories?: string[];
+  isActive?: boolean;
+  sortOrder?: number;
+}
+
+export interface UpdateKitchenStationDto {
+  name?: string;
+  storeId?: string | null;
+  categories?: string[];
+  isActive?: boolean;
+  sortOrder?: number;
+}
@@ -0,0 +1,61 @@
+// ==================== LOYALTY ====================
+
+export type LoyaltyProgramType = 'POINTS' | 'STAMPS';
+
+export type LoyaltyTransactionType = 'EARN' | 'REDEEM' | 'ADJUST';
+
+export interface LoyaltySettingsDto {
+  isEnabled: boolean;
+  type: LoyaltyProgramType;
+  /** POINTS: points earned per TL paid */
+  pointsPerTl: number;
+  /** POINTS: TL taken off per point spent */
+  pointValue: number;
+  /** POINTS: smallest balance that can be spent */
+  minRedeemPoints: number;
+  /** STAMPS: each unit of this item earns a stamp */
+  stampItemName: string | null;
+  /** STAMPS: stamps that buy one free unit, 9 = every 10th is free */
+  stampsRequired: number;
+}
+
+export type UpdateLoyaltySettingsDto = Partial<LoyaltySettingsDto>;
+
+export interface LoyaltyMemberDto {
+  customerPhone: string;
+  customerName: string | null;
+  points: number;
+  stamps: number;
+  lastOrderAt: string | null;
+}
+
+export interface LoyaltyTransactionDto {
+  id: string;
+  customerPhone: string;
+  orderId: string | null;
+  orderNumber: number | null;
+  type: LoyaltyTransactionType;
+  /** Signed */
+  points: number;
+  /** Signed */
+  stamps: number;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface LoyaltyOverviewDto {
+  settings: LoyaltySettingsDto;
+  memberCount: number;
+  outstandingPoints: number;
+  outstandingStamps: number;
+  /** TL taken off delivered orders with points or stamp-card rewards */
+  redeemedDiscount: number;
+}
+
+/** Manual correction by staff */
+export interface AdjustLoyaltyDto {
+  customerPhone: string;
+  points?: number;
+  stamps?: number;
+  note: string;
+}
@@ -1,3 +1,5 @@
+import { SupportedLanguage } from '../types/common.types';
+
 // ==================== MENU VERSION ====================
 
 export interface MenuVersionDto {
@@ -21,6 +23,11 @@ export interface PublishMenuVersionDto {
 
 export type DiscountType = 'PERCENTAGE' | 'FIXED_AMOUNT';
 
+/** Customer-facing names per bot language; missing entries fall back to the Turkish name */
+export type MenuTranslations = Partial<
+  Record<SupportedLanguage, { name?: string; description?: string }>
+>;
+
 export interface MenuItemDto {
   id: string;
   tenantId: string;
@@ -37,6 +44,11 @@ export interface MenuItemDto {
   discountValue: number | null;
   discountStartAt: string | null;
   discountEndAt: string | null;
+  translations: MenuTranslations | null;
+  /** Meta catalog product retailer_id, when the tenant links a catalog */
+  catalogRetailerId: string | null;
+  /** Kitchen station override; null = routed by category */
+  stationId: string | null;
   effectivePrice: number;
   hasActiveDiscount: boolean;
 }
@@ -54,6 +66,9 @@ export interface CreateMenuItemDto {
   discountValue?: number | null;
   discountStartAt?: string | null;
   discountEndAt?: string | null;
+  translations?: MenuTranslations | null;
+  catalogRetailerId?: string | null;
+  stationId?: string | null;
 }
 
 export interface UpdateMenuItemDto {
@@ -69,6 +84,9 @@ export interface UpdateMenuItemDto {
   discountValue?: number | null;
   discountStartAt?: string | null;
   discountEndAt?: string | null;
+  translations?: MenuTranslations | null;
+  catalogRetailerId?: string | null;
+  stationId?: string | null;
 }
 
 // ==================== OPTION GROUP ====================
@@ -85,6 +103,7 @@ export interface MenuOptionGroupDto {
   minSelect: number;
   maxSelect: number | null;
   sortOrder: number;
+  translations: MenuTranslations | null;
   options?: MenuOptionDto[];
 }
 
@@ -95,6 +114,7 @@ export interface CreateMenuOptionGroupDto {
   minSelect?: number;
   maxSelect?: number;
   sortOrder?: number;
+  translations?: MenuTranslations | null;
 }
 
 export interface UpdateMenuOptionGroupDto {
@@ -104,6 +124,7 @@ export interface UpdateMenuOptionGroupDto {
   minSelect?: number;
   maxSelect?: number;
   sortOrder?: number;
+  translations?: MenuTranslations | null;
 }
 
 // ==================== OPTION ====================
@@ -118,6 +139,7 @@ export interface MenuOptionDto {
   isDefault: boolean;
   isActive: boolean;
   sortOrder: number;
+  translations: MenuTranslations | null;
 }
 
 export interface CreateMenuOptionDto {
@@ -127,6 +149,7 @@ export interface CreateMenuOptionDto {
   isDefault?: boolean;
   isActive?: boolean;
   sortOrder?: number;
+  translations?: MenuTranslations | null;
 }
 
 export interface UpdateMenuOptionDto {
@@ -135,6 +158,7 @@ export interface UpdateMenuOptionDto {
   isDefault?: boolean;
   isActive?: boolean;
   sortOrder?: number;
+  translations?: MenuTranslations | null;
 }
 
 // ==================== SYNONYM ====================
@@ -196,6 +220,8 @@ export interface CanonicalMenuItem {
   optionGroupIds: string[];
   discountType?: string | null;
   discountValue?: number | null;
+  translations?: MenuTranslations | null;
+  catalogRetailerId?: string | null;
 }
 
 export interface CanonicalOptionGroup {
@@ -0,0 +1,61 @@
+export type MessageTemplateStatus = 'APPROVED' | 'PENDING' | 'REJECTED' | 'PAUSED' | 'DISABLED';
+
+export type MessageTemplateCategory = 'UTILITY' | 'MARKETING' | 'AUTHENTICATION';
+
+/** Business-initiated events that fall back to a template outside the 24h window */
+export type TemplateEvent =
+  | 'ORDER_CONFIRMED'
+  | 'ORDER_PREPARING'
+  | 'ORDER_READY'
+  | 'ORDER_DELIVERING'
+  | 'ORDER_DELIVERED'
+  | 'ORDER_CANCELLED'
+  | 'SURVEY_REQUEST'
+  | 'CAMPAIGN_SEND';
+
+export interface MessageTemplateDto {
+  id: string;
+  externalId: string | null;
+  name: string;
+  language: string;
+  category: MessageTemplateCategory;
+  status: MessageTemplateStatus;
+  headerText: string | null;
+  bodyText: string;
+  footerText: string | null;
+  variableCount: number;
+  rejectedReason: string | null;
+  lastSyncedAt: string | null;
+  updatedAt: string;
+}
+
+export interface MessageTemplateMappingDto {
+  event: TemplateEvent;
+  /** Fields available to fill the template's {{n}} placeholders */
+  availableFields: string[];
+  templateId: string | null;
+  templateName: string | null;
+  templateLanguage: string | null;
+  /** Event field per placeholder, in {{1}}..{{n}} order */
+  variableMap: string[];
+  isActive: boolean;
+}
+
+export interface UpsertMessageTemplateMappingDto {
+  templateId: string;
+  variableMap: string[];
+  isActive?: boolean;
+}
+
+export interface MessageTemplateSyncResultDto {
+  total: number;
+  created: number;
+  updated: number;
+  disabled: number;
+}
+
+export interface MessageTemplatePreviewDto {
+  headerText: string | null;
+  bodyText: string;
+  footerText: string | null;
+}
@@ -1,3 +1,5 @@
+import { OrderDeliveryDto } from './courier.dto';
+
 // ==================== ORDER ====================
 
 export type OrderStatus =
@@ -23,12 +25,58 @@ export interface OrderDto {
   customerName: string | null;
   deliveryAddress: string | null;
   paymentMethod: string | null;
+  deliveryType: string | null;
   parentOrderId: string | null;
   rejectionReason: string | null;
+  /** Requested fulfilment time of a pre-order, null = as soon as possible */
+  scheduledFor: string | null;
+  /** Promo code applied in the WhatsApp flow, discount already taken off totalPrice */
+  couponCode: string | null;
+  couponDiscount: number;
+  /** Loyalty points or a stamp-card reward spent on the order, already taken off totalPrice */
+  loyaltyPointsUsed: number;
+  loyaltyDiscount: number;
   items: OrderItemDto[];
   createdAt: string;
   updatedAt: string;
+  submittedAt: string | null;
   confirmedAt: string | null;
+  preparingAt: string | null;
+  readyAt: string | null;
+  deliveredAt: string | null;
+  cancelledAt: string | null;
+  /** Statuses the order can move to next */
+  allowedTransitions: OrderStatus[];
+  /** Courier run, for DELIVERY orders that have been dispatched */
+  delivery: OrderDeliveryDto | null;
+}
+
+// ==================== PRE-ORDERS ====================
+
+export interface PreOrderSettingsDto {
+  enabled: boolean;
+  slotMinutes: number;
+  /** Max orders per slot, null = unlimited */
+  slotCapacity: number | null;
+  /** Minimum notice, and how early kitchen tickets print before the slot */
+  leadMinutes: number;
+  maxDays: number;
+}
+
+// ==================== STATUS HISTORY ====================
+
+export type OrderStatusActorType = 'USER' | 'BOT' | 'POS' | 'SYSTEM' | 'COURIER';
+
+export interface OrderStatusEventDto {
+  id: string;
+  orderId: string;
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  actorType: OrderStatusActorType;
+  actorUserId: string | null;
+  actorName: string | null;
+  reason: string | null;
+  createdAt: string;
 }
 
 export interface OrderItemDto {
@@ -84,6 +132,50 @@ export interface CreateOrderItemDto {
   notes?: string;
 }
 
+// ==================== ADJUSTMENTS ====================
+
+export type OrderAdjustmentChangeType = 'REMOVE_ITEM' | 'CHANGE_QTY' | 'REPLACE_ITEM' | 'DISCOUNT';
+
+export type OrderAdjustmentChangeInput =
+  | { type: 'REMOVE_ITEM'; itemId: string }
+  | { type: 'CHANGE_QTY'; itemId: string; qty: number }
+  | { type: 'REPLACE_ITEM'; itemId: string; menuItemId: string; qty?: number }
+  | { type: 'DISCOUNT'; amount: number };
+
+export interface CreateOrderAdjustmentDto {
+  changes: OrderAdjustmentChangeInput[];
+  reason?: string;
+  /** Send the customer the list of changes (default true) */
+  notifyCustomer?: boolean;
+}
+
+/** One applied change; amount is the effect on the order total */
+export interface OrderAdjustmentChangeDto {
+  type: OrderAdjustmentChangeType;
+  itemName: string | null;
+  fromQty: number | null;
+  toQty: number | null;
+  replacementName: string | null;
+  amount: number;
+}
+
+export interface OrderAdjustmentDto {
+  id: string;
+  orderId: string;
+  actorType: OrderStatusActorType;
+  actorUserId: string | null;
+  actorName: string | null;
+  reason: string | null;
+  changes: OrderAdjustmentChangeDto[];
+  previousTotal: number;
+  newTotal: number;
+  refundAmount: number;
+  /** Null when nothing was refunded through the payment gateway */
+  refundStatus: 'PENDING' | 'SUCCESS' | 'FAILED' | null;
+  refundError: string | null;
+  createdAt: string;
+}
+
 // ==================== ORDER INTENT (NLU) ====================
 
 export interface OrderIntentDto {
@@ -238,18 +330,23 @@ export interface OrderIntentFeedbackDto {
 
 // ==================== PRINT JOBS ====================
 
-export type PrintJobType = 'KITCHEN' | 'COURIER';
+export type PrintJobType = 'KITCHEN' | 'COURIER' | 'STATION' | 'Z_REPORT';
 export type PrintJobStatus = 'PENDING' | 'PROCESSING' | 'DONE' | 'FAILED';
 
 export interface PrintJobDto {
   id: string;
   tenantId: string;
-  orderId: string;
+  /** Null for Z_REPORT jobs */
+  orderId: string | null;
+  dayCloseId: string | null;
   type: PrintJobType;
+  stationId: string | null;
   status: PrintJobStatus;
   payloadJson: PrintJobPayload;
   errorMessage: string | null;
   retryCount: number;
+  /** Pre-order jobs are held back from print-bridge until this time */
+  holdUntil: string | null;
   createdAt: string;
   processedAt: string | null;
 }
@@ -257,7 +354,12 @@ export interface PrintJobDto {
 export interface PrintJobPayload {
   orderNumber: number;
   timestamp: string;
+  /** Lets the print bridge route the job to the branch's printer */
+  storeId?: string | null;
   storeName?: string | null;
+  // Station tickets
+  stationId?: string | null;
+  stationName?: string | null;
   items: PrintJobItem[];
   notes: string | null;
   // Kitchen specific
@@ -267,6 +369,14 @@ export interface PrintJobPayload {
   deliveryAddress?: string | null;
   paymentMethod?: string | null;
   totalPrice?: number;
+  // Z-report specific
+  businessDate?: string | null;
+  reportSections?: PrintJobReportSection[];
+}
+
+export interface PrintJobReportSection {
+  title: string;
+  rows: Array<{ label: string; value: string }>;
 }
 
 export interface PrintJobItem {
@@ -274,6 +384,8 @@ export interface PrintJobItem {
   qty: number;
   options: string[];
   notes: string | null;
+  /** Station that prepares the item (summary tickets only) */
+  station?: string | null;
 }
 
 export interface PrintJobCompleteDto {
@@ -1,7 +1,16 @@
 // ==================== PAYMENT TYPES ====================
 
 export type PaymentMethod = 'CASH' | 'CREDIT_CARD';
-export type OrderPaymentStatus = 'PENDING' | 'SUCCESS' | 'FAILED' | 'EXPIRED';
+export type OrderPaymentStatus =
+  | 'PENDING'
+  | 'AUTHORIZED'
+  | 'SUCCESS'
+  | 'FAILED'
+  | 'EXPIRED'
+  | 'REFUNDED';
+
+/** Hosted checkout provider for order payments; "fake" completes payments locally */
+export type PaymentGatewayKey = 'iyzico' | 'paytr' | 'fake';
 
 // ==================== ORDER PAYMENT ====================
 
@@ -13,8 +22,11 @@ export interface OrderPaymentDto {
   method: PaymentMethod;
   status: OrderPaymentStatus;
   amount: number;
+  /** Partial refunds so far */
+  refundedAmount: number;
   currency: string;
-  checkoutFormUrl: string | null;
+  gateway: PaymentGatewayKey;
+  checkoutUrl: string | null;
   expiresAt: string | null;
   paidAt: string | null;
   createdAt: string;
@@ -30,6 +42,29 @@ export interface PaymentCallbackDto {
   token: string;
 }
 
+// ==================== PAYMENT GATEWAY SETTINGS ====================
+
+export interface PaymentGatewaySettingsDto {
+  gateway: PaymentGatewayKey;
+  /** Gateways selectable in this deployment */
+  available: PaymentGatewayKey[];
+  paytr: {
+    merchantId: string;
+    /** Masked */
+    merchantKey: string;
+    merchantSalt: string;
+    testMode: boolean;
+    isConfigured: boolean;
+  };
+}
+
+export interface UpdatePaytrSettingsDto {
+  merchantId?: string;
+  merchantKey?: string;
+  merchantSalt?: string;
+  testMode?: boolean;
+}
+
 // ==================== WHATSAPP INTERACTIVE MESSAGES ====================
 
 export interface WhatsAppInteractiveButton {
@@ -0,0 +1,34 @@
+import { ConversationPhase, MessageDirection } from './inbox.dto';
+import { OrderStatus } from './order.dto';
+import { DeliveryStatus } from './courier.dto';
+
+// ==================== REALTIME EVENTS ====================
+
+/**
+ * Events pushed to panel clients and print-bridge over GET /events (SSE).
+ * They only say what changed; clients refetch the affected resource.
+ */
+export type RealtimeEvent =
+  | {
+      type: 'message.created';
+      conversationId: string;
+      messageId: string;
+      direction: MessageDirection;
+    }
+  | { type: 'conversation.phase_changed'; conversationId: string; phase: ConversationPhase }
+  | { type: 'conversation.locked'; conversationId: string; userId: string; userName: string }
+  | { type: 'conversation.unlocked'; conversationId: string; userId: string }
+  | { type: 'order.created'; orderId: string; orderNumber: number | null; status: OrderStatus }
+  | {
+      type: 'order.status_changed';
+      orderId: string;
+      orderNumber: number | null;
+      status: OrderStatus;
+    }
+  /** Items were added to a confirmed order */
+  | { type: 'order.updated'; orderId: string; orderNumber: number | null }
+  /** New or retried print jobs are pending for the order */
+  | { type: 'print_job.created'; orderId: string | null }
+  | { type: 'delivery.updated'; orderId: string; deliveryId: string; status: DeliveryStatus };
+
+export type RealtimeEventType = RealtimeEvent['type'];
@@ -10,9 +10,19 @@ export interface StoreDto {
   phone: string | null;
   isActive: boolean;
   isOpen: boolean;
+  timezone: string;
+  /** Null when the store is opened and closed by hand only */
+  weeklySchedule: WeeklyScheduleDto | null;
+  /** A manual toggle overrides the schedule until then */
+  openOverrideUntil: string | null;
+  maxPreparingOrders: number | null;
+  maxItemsPer15Min: number | null;
+  pauseWhenFull: boolean;
+  pausedUntil: string | null;
   createdAt: string;
   updatedAt: string;
   deliveryRules?: DeliveryRuleDto[];
+  deliveryZones?: DeliveryZoneDto[];
 }
 
 export interface CreateStoreDto {
@@ -34,6 +44,71 @@ export interface UpdateStoreDto {
   isOpen?: boolean;
 }
 
+// ==================== SCHEDULE ====================
+
+export type WeekdayKey = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/** "HH:MM" local times; a close at or before open runs past midnight */
+export interface ScheduleIntervalDto {
+  open: string;
+  close: string;
+}
+
+/** Opening intervals per weekday; a missing or empty day is closed */
+export type WeeklyScheduleDto = Partial<Record<WeekdayKey, ScheduleIntervalDto[]>>;
+
+export interface UpdateStoreScheduleDto {
+  timezone: string;
+  weeklySchedule: WeeklyScheduleDto | null;
+}
+
+export interface ScheduleExceptionDto {
+  id: string;
+  tenantId: string;
+  /** Null = applies to every store */
+  storeId: string | null;
+  storeName: string | null;
+  /** YYYY-MM-DD in the store's timezone */
+  date: string;
+  name: string | null;
+  /** Null = closed all day */
+  intervals: ScheduleIntervalDto[] | null;
+  createdAt: string;
+}
+
+export interface CreateScheduleExceptionDto {
+  storeId?: string | null;
+  date: string;
+  name?: string;
+  intervals?: ScheduleIntervalDto[] | null;
+}
+
+// ==================== CAPACITY ====================
+
+export interface UpdateStoreCapacityDto {
+  maxPreparingOrders?: number | null;
+  maxItemsPer15Min?: number | null;
+  pauseWhenFull?: boolean;
+}
+
+/** Live kitchen load of a store, evaluated on request */
+export interface StoreLoadDto {
+  storeId: string;
+  storeName: string;
+  preparingOrders: number;
+  /** Confirmed or preparing orders ahead of a new one */
+  queuedOrders: number;
+  /** Items submitted in the last 15 minutes */
+  recentItems: number;
+  isOverCapacity: boolean;
+  /** Manual pause, or the expected recovery time when pauseWhenFull applies */
+  pausedUntil: string | null;
+  /** Median prep time over recent orders */
+  prepMinutes: number;
+  /** Ready-time estimate for a new order */
+  etaMinutes: number;
+}
+
 // ==================== DELIVERY RULE ====================
 
 export interface DeliveryRuleDto {
@@ -76,12 +151,13 @@ export interface GeoCheckResult {
   nearestStore: StoreDto | null;
   distance: number | null; // in km
   deliveryRule: DeliveryRuleDto | null;
+  /** Matched polygon zone; its fee and minimum basket take precedence over the rule */
+  deliveryZone?: DeliveryZoneDto | null;
   alternativeStores: { store: StoreDto; distance: number }[];
   message: string;
 }
 
-// ==================== FUTURE: DELIVERY ZONE (POLYGON) ====================
-// Placeholder interface for polygon-based zones
+// ==================== DELIVERY ZONE (POLYGON) ====================
 
 export interface DeliveryZoneDto {
   id: string;
@@ -89,10 +165,14 @@ export interface DeliveryZoneDto {
   storeId: string;
   name: string;
   polygon: GeoJsonPolygon;
+  /** Higher wins where zones overlap */
   priority: number;
   minBasket: number;
   deliveryFee: number;
+  estimatedMinutes: number | null;
   isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface GeoJsonPolygon {
@@ -100,11 +180,108 @@ export interface GeoJsonPolygon {
   coordinates: number[][][]; // [[[lng, lat], [lng, lat], ...]]
 }
 
-// Future zone check interface
-export interface ZoneCheckResult {
-  isWithinZone: boolean;
-  zone: DeliveryZoneDto | null;
-  store: StoreDto | null;
+export interface CreateDeliveryZoneDto {
+  storeId: string;
+  name: string;
+  polygon: GeoJsonPolygon;
+  priority?: number;
+  minBasket: number;
+  deliveryFee: number;
+  estimatedMinutes?: number | null;
+  isActive?: boolean;
+}
+
+export interface UpdateDeliveryZoneDto {
+  name?: string;
+  polygon?: GeoJsonPolygon;
+  priority?: number;
+  minBasket?: number;
+  deliveryFee?: number;
+  estimatedMinutes?: number | null;
+  isActive?: boolean;
 }
 
+// ==================== DAY CLOSE (Z-REPORT) ====================
 
+export interface ZReportAmountDto {
+  count: number;
+  amount: number;
+}
+
+/** Totals of a store between two closes */
+export interface ZReportDto {
+  storeId: string;
+  storeName: string;
+  businessDate: string;
+  periodStart: string;
+  periodEnd: string;
+  /** Orders confirmed in the period and not cancelled */
+  orderCount: number;
+  /** Before discounts */
+  grossSales: number;
+  netSales: number;
+  payments: {
+    cash: ZReportAmountDto;
+    cardAtDoor: ZReportAmountDto;
+    online: ZReportAmountDto;
+    /** Orders without a recorded payment method */
+    other: ZReportAmountDto;
+  };
+  discounts: {
+    /** Gel al indirimi */
+    pickup: number;
+    /** Menu item discounts active when the order was placed */
+    item: number;
+    /** Goodwill discounts given through order adjustments */
+    goodwill: number;
+    /** Older reports were closed before coupons existed */
+    coupon?: number;
+    /** Loyalty points and stamp-card rewards; absent on reports closed before the program */
+    loyalty?: number;
+    total: number;
+  };
+  /** Card refunds on the period's orders */
+  refunds: ZReportAmountDto;
+  /** Orders cancelled in the period, including earlier orders */
+  cancellations: ZReportAmountDto;
+  /** Changes in the period to orders of already closed days */
+  priorDayChanges: {
+    adjustments: ZReportAmountDto;
+    cancellations: ZReportAmountDto;
+  };
+  /** Confirmed orders not delivered yet at closing */
+  openOrders: number;
+  /** Orders still waiting for restaurant approval */
+  pendingOrders: number;
+  expectedCash: number;
+}
+
+export interface DayCloseDto {
+  id: string;
+  storeId: string;
+  storeName: string;
+  businessDate: string;
+  periodStart: string;
+  periodEnd: string;
+  report: ZReportDto;
+  expectedCash: number;
+  countedCash: number;
+  /** countedCash - expectedCash */
+  cashVariance: number;
+  note: string | null;
+  closedByName: string | null;
+  /** Adjustments and cancellations of this day's orders made after the close */
+  changesSinceClose: {
+    adjustments: ZReportAmountDto;
+    cancellations: ZReportAmountDto;
+  };
+  createdAt: string;
+}
+
+export interface CloseDayDto {
+  storeId: string;
+  countedCash: number;
+  note?: string;
+  /** Print the Z-report right away (default true) */
+  print?: boolean;
+}
@@ -10,6 +10,8 @@ export interface WhatsAppConfigDto {
   appSecretMasked: string;
   webhookVerifyToken: string;
   webhookUrl: string;
+  /** Meta commerce catalog shown as product lists in the bot menu */
+  catalogId: string | null;
   connectionStatus: WhatsAppConnectionStatus;
   statusMessage: string | null;
   lastVerifiedAt: string | null;
@@ -23,6 +25,7 @@ export interface UpsertWhatsAppConfigDto {
   wabaId: string;
   accessToken: string;
   appSecret: string;
+  catalogId?: string | null;
 }
 
 /** Test connection response */
@@ -27,4 +27,7 @@ export interface SortParams {
 
 export type QueryParams = Partial<PaginationParams & SortParams>;
 
+/** Languages the WhatsApp bot can reply in (Turkish is the default) */
+export const SUPPORTED_LANGUAGES = ['tr', 'en', 'ar', 'de', 'ru'] as const;
 
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];